@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
 import { Clock, User } from 'lucide-react';
+import { api } from '@/lib/api';
 
 interface ActivityLogEntry {
   id: number;
@@ -31,7 +32,7 @@ export default function ActivityLogTimeline({ taskId }: ActivityLogTimelineProps
       setLoading(true);
       // Add timestamp to prevent caching
       const timestamp = new Date().getTime();
-      const response = await fetch(`/api/tasks/${taskId}/activity-logs?_t=${timestamp}`, {
+      const response = await api(`/api/tasks/${taskId}/activity-logs?_t=${timestamp}`, {
         cache: 'no-cache',
         headers: {
           'Cache-Control': 'no-cache',
@@ -0,0 +1,199 @@
+import { useCallback, useEffect, useState } from "react";
+import { Copy, KeyRound, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { api } from "@/lib/api";
+
+// Personal access tokens as returned by /api/auth/tokens
+type ApiTokenScope = "tasks:read" | "tasks:write" | "projects:read" | "projects:admin";
+
+interface ApiToken {
+  id: number;
+  name: string;
+  prefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+const SCOPES: { key: ApiTokenScope; label: string; description: string }[] = [
+  { key: "tasks:read", label: "tasks:read", description: "Read tasks, boards, sprints and labels" },
+  { key: "tasks:write", label: "tasks:write", description: "Create, update and delete tasks" },
+  { key: "projects:read", label: "projects:read", description: "Read projects, members and workflows" },
+  { key: "projects:admin", label: "projects:admin", description: "Change project settings and members" },
+];
+
+const EXPIRY_OPTIONS = [
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+  { days: 365, label: "1 year" },
+  { days: null, label: "Never" },
+];
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" });
+
+export default function ApiTokensSettings() {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["tasks:read"]);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(90);
+  const [creating, setCreating] = useState(false);
+  // The plain token, shown once right after it's created
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const fetchTokens = useCallback(async () => {
+    try {
+      const res = await api("/api/auth/tokens");
+      if (res.ok) setTokens(await res.json());
+    } catch { /* ignore */ }
+  }, []);
+
+  useEffect(() => {
+    fetchTokens();
+  }, [fetchTokens]);
+
+  const toggleScope = (scope: ApiTokenScope) =>
+    setScopes((prev) => (prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]));
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const res = await api("/api/auth/tokens", {
+        method: "POST",
+        body: JSON.stringify({ name: name.trim(), scopes, expiresInDays }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to create token");
+        return;
+      }
+      const { token, ...created } = data;
+      setTokens((prev) => [created, ...prev]);
+      setNewToken(token);
+      setName("");
+    } catch {
+      toast.error("Failed to create token");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) return;
+    const res = await api(`/api/auth/tokens/${token.id}`, { method: "DELETE" });
+    if (!res.ok) {
+      toast.error("Failed to revoke token");
+      return;
+    }
+    setTokens((prev) => prev.filter((t) => t.id !== token.id));
+  };
+
+  const copyToken = async () => {
+    if (!newToken) return;
+    try {
+      await navigator.clipboard.writeText(newToken);
+      toast.success("Token copied");
+    } catch {
+      toast.error("Couldn't copy the token");
+    }
+  };
+
+  return (
+    <section className="mt-10 bg-card/80 border border-border rounded-2xl p-5 shadow-sm">
+      <div className="flex items-center gap-2 mb-1">
+        <KeyRound className="w-5 h-5 text-indigo-500" />
+        <h2 className="text-lg font-bold text-foreground">Personal access tokens</h2>
+      </div>
+      <p className="text-xs text-muted-foreground mb-4">
+        Script against the REST API with <code className="font-mono">Authorization: Bearer &lt;token&gt;</code>. Tokens
+        act as you, limited to their scopes.
+      </p>
+
+      {newToken && (
+        <div className="mb-4 p-3 rounded-xl border border-green-500/30 bg-green-500/5 space-y-2">
+          <p className="text-xs font-medium text-green-700 dark:text-green-400">
+            Copy your new token now. It won't be shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 min-w-0 truncate text-xs bg-muted rounded px-2 py-1 text-foreground">{newToken}</code>
+            <button type="button" onClick={copyToken} className="p-1 rounded hover:bg-muted text-muted-foreground" title="Copy token">
+              <Copy className="w-4 h-4" />
+            </button>
+            <button type="button" onClick={() => setNewToken(null)} className="text-xs text-muted-foreground hover:text-foreground">
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {tokens.length === 0 && <p className="text-sm text-muted-foreground">No tokens yet.</p>}
+        {tokens.map((token) => (
+          <div key={token.id} className="flex items-center gap-3 border border-border rounded-xl p-3">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <p className="text-sm font-medium text-foreground truncate">{token.name}</p>
+                <code className="text-[11px] font-mono text-muted-foreground">{token.prefix}…</code>
+              </div>
+              <p className="text-[11px] text-muted-foreground truncate">
+                {token.scopes.join(", ")} · {token.expiresAt ? `expires ${formatDate(token.expiresAt)}` : "never expires"} ·{" "}
+                {token.lastUsedAt ? `last used ${formatDate(token.lastUsedAt)}` : "never used"}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => handleRevoke(token)}
+              className="p-1.5 rounded hover:bg-red-50 text-red-500"
+              title="Revoke token"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-5 border border-dashed border-border rounded-xl p-3 space-y-3">
+        <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Token name, e.g. CI dashboard" />
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {SCOPES.map((scope) => (
+            <label key={scope.key} className="flex items-start gap-2 text-xs text-foreground cursor-pointer">
+              <input
+                type="checkbox"
+                checked={scopes.includes(scope.key)}
+                onChange={() => toggleScope(scope.key)}
+                className="mt-0.5 rounded border-border accent-primary"
+              />
+              <span>
+                <span className="font-mono">{scope.label}</span>
+                <span className="block text-muted-foreground">{scope.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            Expires
+            <select
+              value={expiresInDays ?? ""}
+              onChange={(e) => setExpiresInDays(e.target.value ? parseInt(e.target.value) : null)}
+              className="px-2 py-1 text-sm border border-border rounded-lg bg-input text-foreground"
+            >
+              {EXPIRY_OPTIONS.map((option) => (
+                <option key={option.label} value={option.days ?? ""}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <Button type="button" size="sm" onClick={handleCreate} disabled={creating || !name.trim() || scopes.length === 0}>
+            <Plus className="w-4 h-4 mr-1" />
+            {creating ? "Creating..." : "Create token"}
+          </Button>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -10,7 +10,6 @@ interface PlanTask {
   priority: "low" | "medium" | "high";
   status: string;
   dueDate?: string;
-  assignedUser?: string;
 }
 
 interface TimeBlock {
@@ -0,0 +1,220 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { toast } from "sonner";
+import { Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import PeoplePicker from "@/components/PeoplePicker";
+import type { Task, TaskLabel } from "@/components/TaskCard";
+import { useProjectMembers } from "@/hooks/useProjectMembers";
+import { api } from "@/lib/api";
+import type { TaskPerson } from "@/lib/taskPeople";
+import type { WorkflowStatus } from "@/lib/workflow";
+
+interface BulkActionBarProps {
+  selectedIds: number[];
+  statuses: WorkflowStatus[];
+  // Board the selection comes from; assignees and labels need one project
+  projectId?: number;
+  labels?: TaskLabel[];
+  onApplied: (result: { tasks: Task[]; deletedIds: number[] }) => void;
+  onClear: () => void;
+}
+
+const PRIORITIES = ["low", "medium", "high"] as const;
+
+/**
+ * Fold a bulk result (or a `tasks:bulk-updated` event) into a board's tasks. Tasks that now
+ * belong to another project leave the board.
+ */
+export const mergeBulkResult = (prev: Task[], result: { tasks: Task[]; deletedIds: number[] }, projectId: number) => {
+  const gone = new Set([...result.deletedIds, ...result.tasks.filter((t) => t.projectId !== projectId).map((t) => t.id)]);
+  const changed = new Map(result.tasks.filter((t) => t.projectId === projectId).map((t) => [t.id, t]));
+  const next = prev.filter((t) => !gone.has(t.id)).map((t) => (changed.has(t.id) ? { ...t, ...changed.get(t.id)! } : t));
+  for (const task of changed.values()) {
+    if (!prev.some((t) => t.id === task.id)) next.push(task);
+  }
+  return next;
+};
+
+const selectClass = "px-2 py-1.5 text-sm border border-border rounded-lg bg-input text-foreground";
+
+export default function BulkActionBar({ selectedIds, statuses, projectId, labels = [], onApplied, onClear }: BulkActionBarProps) {
+  const [busy, setBusy] = useState(false);
+  const [projects, setProjects] = useState<Array<{ id: number; name: string }>>([]);
+  const [assignees, setAssignees] = useState<TaskPerson[]>([]);
+  const members = useProjectMembers(projectId);
+
+  useEffect(() => {
+    api("/api/projects")
+      .then((res) => (res.ok ? res.json() : []))
+      .then((data) => setProjects(Array.isArray(data) ? data : []))
+      .catch(() => {});
+  }, []);
+
+  if (selectedIds.length === 0) return null;
+
+  const apply = async (body: Record<string, unknown>, success: string) => {
+    setBusy(true);
+    try {
+      const res = await api("/api/tasks/bulk", {
+        method: "POST",
+        body: JSON.stringify({ taskIds: selectedIds, ...body }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to update tasks");
+        return;
+      }
+      onApplied(data);
+      toast.success(success);
+    } catch {
+      toast.error("Failed to update tasks");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const count = `${selectedIds.length} task${selectedIds.length !== 1 ? "s" : ""}`;
+  const change = (changes: Record<string, unknown>) => apply({ changes }, `Updated ${count}`);
+
+  const handleDelete = () => {
+    if (!confirm(`Delete ${count}? This cannot be undone.`)) return;
+    apply({ delete: true }, `Deleted ${count}`).then(onClear);
+  };
+
+  return (
+    <motion.div
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 w-[min(100%-2rem,64rem)]"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div className="flex flex-wrap items-center gap-2 bg-card border border-border rounded-2xl shadow-2xl px-4 py-3">
+        <span className="text-sm font-semibold text-foreground mr-1">{count} selected</span>
+
+        <select
+          value=""
+          disabled={busy}
+          onChange={(e) => e.target.value && change({ status: e.target.value })}
+          className={selectClass}
+        >
+          <option value="">Status…</option>
+          {statuses.map((s) => (
+            <option key={s.key} value={s.key}>{s.name}</option>
+          ))}
+        </select>
+
+        <select
+          value=""
+          disabled={busy}
+          onChange={(e) => e.target.value && change({ priority: e.target.value })}
+          className={selectClass}
+        >
+          <option value="">Priority…</option>
+          {PRIORITIES.map((p) => (
+            <option key={p} value={p}>{p.charAt(0).toUpperCase() + p.slice(1)}</option>
+          ))}
+        </select>
+
+        <input
+          type="date"
+          disabled={busy}
+          onChange={(e) => e.target.value && change({ dueDate: e.target.value })}
+          className={selectClass}
+          title="Set due date"
+        />
+        <button
+          type="button"
+          disabled={busy}
+          onClick={() => change({ dueDate: null })}
+          className="text-xs text-muted-foreground hover:text-foreground"
+        >
+          Clear due
+        </button>
+
+        {projectId && (
+          <div className="w-44">
+            <PeoplePicker
+              people={members}
+              selected={assignees}
+              onChange={setAssignees}
+              placeholder="Assignees…"
+              disabled={busy}
+            />
+          </div>
+        )}
+        {projectId && (
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            disabled={busy}
+            onClick={() => change({ assigneeIds: assignees.map((p) => p.id) })}
+          >
+            Assign
+          </Button>
+        )}
+
+        {projectId && labels.length > 0 && (
+          <select
+            value=""
+            disabled={busy}
+            onChange={(e) => {
+              const [op, id] = e.target.value.split(":");
+              if (!id) return;
+              change(op === "add" ? { addLabelIds: [parseInt(id)] } : { removeLabelIds: [parseInt(id)] });
+            }}
+            className={selectClass}
+          >
+            <option value="">Labels…</option>
+            <optgroup label="Add">
+              {labels.map((l) => (
+                <option key={`add-${l.id}`} value={`add:${l.id}`}>+ {l.name}</option>
+              ))}
+            </optgroup>
+            <optgroup label="Remove">
+              {labels.map((l) => (
+                <option key={`remove-${l.id}`} value={`remove:${l.id}`}>− {l.name}</option>
+              ))}
+            </optgroup>
+          </select>
+        )}
+
+        {projects.length > 1 && (
+          <select
+            value=""
+            disabled={busy}
+            onChange={(e) => e.target.value && change({ projectId: parseInt(e.target.value) })}
+            className={selectClass}
+          >
+            <option value="">Move to…</option>
+            {projects
+              .filter((p) => p.id !== projectId)
+              .map((p) => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+          </select>
+        )}
+
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            type="button"
+            disabled={busy}
+            onClick={handleDelete}
+            className="p-2 rounded-lg hover:bg-destructive/10 text-destructive"
+            title="Delete selected tasks"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={onClear}
+            className="p-2 rounded-lg hover:bg-muted text-muted-foreground"
+            title="Clear selection (Esc)"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useState } from "react";
+import { CalendarPlus, Copy, RefreshCw, Rss, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { api } from "@/lib/api";
+
+// Subscriptions as returned by /api/calendar/feeds; projectId null is the "my tasks" feed
+interface CalendarFeed {
+  id: number;
+  projectId: number | null;
+  url: string;
+  lastAccessedAt: string | null;
+  createdAt: string;
+  project: { id: number; name: string } | null;
+}
+
+interface CalendarFeedsSettingsProps {
+  projects: Array<{ id: number; name: string }>;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" });
+
+export default function CalendarFeedsSettings({ projects }: CalendarFeedsSettingsProps) {
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+  const [projectId, setProjectId] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  const fetchFeeds = useCallback(async () => {
+    try {
+      const res = await api("/api/calendar/feeds");
+      if (res.ok) setFeeds(await res.json());
+    } catch { /* ignore */ }
+  }, []);
+
+  useEffect(() => {
+    fetchFeeds();
+  }, [fetchFeeds]);
+
+  const upsert = (feed: CalendarFeed) =>
+    setFeeds((prev) => (prev.some((f) => f.id === feed.id) ? prev.map((f) => (f.id === feed.id ? feed : f)) : [...prev, feed]));
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const res = await api("/api/calendar/feeds", {
+        method: "POST",
+        body: JSON.stringify({ projectId: projectId ? parseInt(projectId) : null }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to create feed");
+        return;
+      }
+      upsert(data);
+    } catch {
+      toast.error("Failed to create feed");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleReset = async (feed: CalendarFeed) => {
+    if (!confirm("Reset this feed URL? Calendars subscribed to the old URL will stop updating.")) return;
+    const res = await api(`/api/calendar/feeds/${feed.id}/reset`, { method: "POST" });
+    if (!res.ok) {
+      toast.error("Failed to reset feed");
+      return;
+    }
+    upsert(await res.json());
+    toast.success("Feed URL reset");
+  };
+
+  const handleDelete = async (feed: CalendarFeed) => {
+    if (!confirm("Remove this feed? Subscribed calendars will stop updating.")) return;
+    const res = await api(`/api/calendar/feeds/${feed.id}`, { method: "DELETE" });
+    if (!res.ok) {
+      toast.error("Failed to remove feed");
+      return;
+    }
+    setFeeds((prev) => prev.filter((f) => f.id !== feed.id));
+  };
+
+  const copyUrl = async (feed: CalendarFeed) => {
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      toast.success("Feed URL copied");
+    } catch {
+      toast.error("Couldn't copy the URL");
+    }
+  };
+
+  return (
+    <div className="mt-6 bg-card border border-border rounded-lg p-6">
+      <div className="flex items-center gap-2 mb-1">
+        <Rss className="w-5 h-5 text-primary" />
+        <h3 className="text-lg font-semibold text-foreground">Calendar subscriptions</h3>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Subscribe from Outlook, Apple Calendar or Thunderbird to see due dates there. Anyone with a feed URL can read
+        it, so keep it private and reset it if it leaks.
+      </p>
+
+      <div className="space-y-2">
+        {feeds.length === 0 && <p className="text-sm text-muted-foreground">No feeds yet.</p>}
+        {feeds.map((feed) => (
+          <div key={feed.id} className="flex items-center gap-3 border border-border rounded-lg p-3">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-foreground truncate">
+                {feed.project ? feed.project.name : "My tasks"}
+              </p>
+              <code className="block text-[11px] font-mono text-muted-foreground truncate">{feed.url}</code>
+              <p className="text-[11px] text-muted-foreground">
+                {feed.lastAccessedAt ? `last synced ${formatDate(feed.lastAccessedAt)}` : "never synced"}
+              </p>
+            </div>
+            <button type="button" onClick={() => copyUrl(feed)} className="p-1.5 rounded hover:bg-muted text-muted-foreground" title="Copy URL">
+              <Copy className="w-4 h-4" />
+            </button>
+            <button type="button" onClick={() => handleReset(feed)} className="p-1.5 rounded hover:bg-muted text-muted-foreground" title="Reset URL">
+              <RefreshCw className="w-4 h-4" />
+            </button>
+            <button type="button" onClick={() => handleDelete(feed)} className="p-1.5 rounded hover:bg-red-50 text-red-500" title="Remove feed">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 flex items-center gap-2">
+        <select
+          value={projectId}
+          onChange={(e) => setProjectId(e.target.value)}
+          className="flex-1 px-4 py-2 border border-border rounded-lg bg-input text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+        >
+          <option value="">My tasks (assigned to me)</option>
+          {projects.map((project) => (
+            <option key={project.id} value={project.id.toString()}>
+              {project.name}
+            </option>
+          ))}
+        </select>
+        <Button type="button" onClick={handleCreate} disabled={creating}>
+          <CalendarPlus className="w-4 h-4 mr-1" />
+          {creating ? "Creating..." : "Get feed URL"}
+        </Button>
+      </div>
+    </div>
+  );
+}
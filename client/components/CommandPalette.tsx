@@ -1,23 +1,39 @@
 import { useState, useEffect, useRef, useMemo, useCallback } from "react";
-import { Search, ArrowRight, Layout, CheckSquare, FolderOpen, Calendar, BarChart3, Sun, Moon, Plus, Inbox, FileText } from "lucide-react";
+import { Search, ArrowRight, Layout, CheckSquare, FolderOpen, Calendar, BarChart3, Sun, Moon, Plus, Inbox, FileText, FileSpreadsheet, MessageSquare, MessagesSquare, Loader2 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { motion, AnimatePresence } from "framer-motion";
 import { api } from "@/lib/api";
 
+// Hit from /api/search
+interface SearchResult {
+  type: "task" | "comment" | "document" | "chat";
+  id: number;
+  projectId: number;
+  projectName: string;
+  title: string | null;
+  snippet: { text: string; match: boolean }[];
+  taskId: number | null;
+  documentType: string | null;
+}
+
 interface CommandItem {
   id: string;
   label: string;
   description?: string;
+  snippet?: SearchResult["snippet"];
   icon: React.ReactNode;
-  category: "navigation" | "action" | "task" | "project";
+  category: "navigation" | "action" | "project" | SearchResult["type"];
   action: () => void;
 }
 
+const SEARCH_DEBOUNCE_MS = 200;
+
 export default function CommandPalette() {
   const [open, setOpen] = useState(false);
   const [query, setQuery] = useState("");
   const [selectedIndex, setSelectedIndex] = useState(0);
-  const [tasks, setTasks] = useState<any[]>([]);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
   const [projects, setProjects] = useState<any[]>([]);
   const inputRef = useRef<HTMLInputElement>(null);
   const listRef = useRef<HTMLDivElement>(null);
@@ -47,28 +63,49 @@ export default function CommandPalette() {
     }
   }, [open]);
 
-  // Fetch data when opened
+  // Fetch projects when opened
   useEffect(() => {
     if (!open) return;
-    const fetchData = async () => {
+    const fetchProjects = async () => {
       try {
-        const [tasksRes, projectsRes] = await Promise.all([
-          api("/api/tasks/my"),
-          api("/api/projects"),
-        ]);
-        if (tasksRes.ok) {
-          const data = await tasksRes.json();
-          setTasks(Array.isArray(data) ? data : []);
-        }
-        if (projectsRes.ok) {
-          const data = await projectsRes.json();
+        const res = await api("/api/projects");
+        if (res.ok) {
+          const data = await res.json();
           setProjects(Array.isArray(data) ? data : []);
         }
       } catch { /* ignore */ }
     };
-    fetchData();
+    fetchProjects();
   }, [open]);
 
+  // Search tasks, comments, documents and chat on the server as the user types
+  useEffect(() => {
+    const q = query.trim();
+    if (!open || !q) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const res = await api(`/api/search?q=${encodeURIComponent(q)}&limit=20`);
+        if (res.ok && !cancelled) {
+          const data = await res.json();
+          setResults(Array.isArray(data.results) ? data.results : []);
+        }
+      } catch { /* ignore */ }
+      if (!cancelled) setSearching(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [open, query]);
+
   const close = useCallback(() => setOpen(false), []);
 
   const toggleTheme = useCallback(() => {
@@ -106,35 +143,72 @@ export default function CommandPalette() {
       });
     }
 
-    // Tasks (limit to 20 for performance)
-    for (const t of tasks.slice(0, 20)) {
-      items.push({
-        id: `task-${t.id}`,
-        label: t.title,
-        description: `${t.status} · ${t.assignedUser}`,
-        icon: <CheckSquare className="w-4 h-4" />,
-        category: "task",
-        action: () => {
-          if (t.projectId) {
-            navigate(`/project/${t.projectId}?task=${t.id}`);
-          } else {
-            navigate("/my-tasks");
-          }
-          close();
-        },
-      });
-    }
-
     return items;
-  }, [projects, tasks, navigate, close, toggleTheme]);
+  }, [projects, navigate, close, toggleTheme]);
 
+  const searchItems: CommandItem[] = useMemo(
+    () =>
+      results.map((r) => {
+        const go = (path: string) => () => { navigate(path); close(); };
+        switch (r.type) {
+          case "task":
+            return {
+              id: `task-${r.id}`,
+              label: r.title || "Untitled task",
+              description: r.projectName,
+              snippet: r.snippet,
+              icon: <CheckSquare className="w-4 h-4" />,
+              category: r.type,
+              action: go(`/project/${r.projectId}?task=${r.taskId}`),
+            };
+          case "comment":
+            return {
+              id: `comment-${r.id}`,
+              label: `Comment on ${r.title || "a task"}`,
+              description: r.projectName,
+              snippet: r.snippet,
+              icon: <MessageSquare className="w-4 h-4" />,
+              category: r.type,
+              action: go(`/project/${r.projectId}?task=${r.taskId}`),
+            };
+          case "document":
+            return {
+              id: `document-${r.id}`,
+              label: r.title || "Untitled document",
+              description: r.projectName,
+              snippet: r.snippet,
+              icon: r.documentType === "spreadsheet" ? <FileSpreadsheet className="w-4 h-4" /> : <FileText className="w-4 h-4" />,
+              category: r.type,
+              action: go(`/project/${r.projectId}/${r.documentType === "spreadsheet" ? "spreadsheet" : "document"}/${r.id}`),
+            };
+          default:
+            return {
+              id: `chat-${r.id}`,
+              label: `Chat in ${r.projectName}`,
+              snippet: r.snippet,
+              icon: <MessagesSquare className="w-4 h-4" />,
+              category: r.type,
+              action: go(`/project/${r.projectId}?chat`),
+            };
+        }
+      }),
+    [results, navigate, close]
+  );
+
+  // Commands and projects are filtered locally; search hits are already matched and ranked
   const filtered = useMemo(() => {
     if (!query.trim()) return commands;
     const q = query.toLowerCase();
-    return commands.filter(
-      (c) => c.label.toLowerCase().includes(q) || c.description?.toLowerCase().includes(q) || c.category.includes(q)
-    );
-  }, [commands, query]);
+    const items = [
+      ...commands.filter(
+        (c) => c.label.toLowerCase().includes(q) || c.description?.toLowerCase().includes(q) || c.category.includes(q)
+      ),
+      ...searchItems,
+    ];
+    // Keep each category contiguous so keyboard order matches the grouped list
+    const categories = Array.from(new Set(items.map((item) => item.category)));
+    return categories.flatMap((category) => items.filter((item) => item.category === category));
+  }, [commands, searchItems, query]);
 
   // Keyboard navigation
   useEffect(() => {
@@ -175,6 +249,9 @@ export default function CommandPalette() {
       case "action": return "Actions";
       case "project": return "Projects";
       case "task": return "Tasks";
+      case "comment": return "Comments";
+      case "document": return "Documents";
+      case "chat": return "Chat";
       default: return cat;
     }
   };
@@ -219,9 +296,10 @@ export default function CommandPalette() {
               type="text"
               value={query}
               onChange={(e) => setQuery(e.target.value)}
-              placeholder="Search tasks, projects, or type a command..."
+              placeholder="Search tasks, comments, docs, chat, or type a command..."
               className="flex-1 bg-transparent text-foreground placeholder:text-muted-foreground outline-none text-sm"
             />
+            {searching && <Loader2 className="w-4 h-4 text-muted-foreground animate-spin flex-shrink-0" />}
             <kbd className="hidden sm:inline-flex items-center gap-0.5 px-1.5 py-0.5 text-[10px] font-mono text-muted-foreground bg-muted border border-border rounded">
               ESC
             </kbd>
@@ -231,7 +309,7 @@ export default function CommandPalette() {
           <div ref={listRef} className="max-h-[50vh] overflow-auto p-2">
             {filtered.length === 0 ? (
               <div className="py-8 text-center text-sm text-muted-foreground">
-                No results found for "{query}"
+                {searching ? "Searching..." : `No results found for "${query}"`}
               </div>
             ) : (
               Array.from(grouped.entries()).map(([category, items]) => (
@@ -262,6 +340,17 @@ export default function CommandPalette() {
                           {item.description && (
                             <p className="text-[11px] text-muted-foreground truncate">{item.description}</p>
                           )}
+                          {item.snippet && item.snippet.length > 0 && (
+                            <p className="text-[11px] text-muted-foreground line-clamp-2">
+                              {item.snippet.map((part, i) =>
+                                part.match ? (
+                                  <mark key={i} className="bg-primary/20 text-foreground rounded-sm">{part.text}</mark>
+                                ) : (
+                                  <span key={i}>{part.text}</span>
+                                )
+                              )}
+                            </p>
+                          )}
                         </div>
                         {isSelected && <ArrowRight className="w-3.5 h-3.5 text-primary flex-shrink-0" />}
                       </button>
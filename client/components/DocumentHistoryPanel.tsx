@@ -0,0 +1,315 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { History, Loader2, RotateCcw, Save, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  diffCells,
+  diffText,
+  documentText,
+  fetchVersion,
+  fetchVersions,
+  restoreVersion,
+  saveNamedVersion,
+  versionTitle,
+  type DocumentVersion,
+} from "@/lib/documentVersions";
+
+// The document as it is in the editor, listed above the saved versions
+const CURRENT = "current";
+type EntryId = number | typeof CURRENT;
+
+interface DocumentHistoryPanelProps {
+  documentId: string;
+  type: "document" | "spreadsheet";
+  canEdit: boolean;
+  // Content in the same JSON form the document is saved in
+  currentContent: () => string;
+  // Saves pending edits, so named versions and restores start from what's on screen
+  saveChanges: () => Promise<void>;
+  onRestored?: (content: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Saved versions of a document, with the differences between any two of them and a way back
+ * to an earlier one
+ */
+export default function DocumentHistoryPanel({
+  documentId,
+  type,
+  canEdit,
+  currentContent,
+  saveChanges,
+  onRestored,
+  onClose,
+}: DocumentHistoryPanelProps) {
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [contents, setContents] = useState<Map<number, string>>(new Map());
+  const requested = useRef(new Set<number>());
+  const [selected, setSelected] = useState<EntryId>(CURRENT);
+  const [compareWith, setCompareWith] = useState<EntryId | null>(null);
+  const [versionName, setVersionName] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const loadVersions = async () => {
+    const result = await fetchVersions(documentId);
+    if ("error" in result) toast.error(result.error);
+    else setVersions(result);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadVersions();
+  }, [documentId]);
+
+  // By default, show what changed since the version before
+  const base: EntryId | null = useMemo(() => {
+    if (compareWith !== null) return compareWith;
+    if (selected === CURRENT) return versions[0]?.id ?? null;
+    const index = versions.findIndex((v) => v.id === selected);
+    return versions[index + 1]?.id ?? null;
+  }, [compareWith, selected, versions]);
+
+  // Fetch content for the two versions being compared
+  useEffect(() => {
+    const missing = [selected, base].filter((id): id is number => typeof id === "number" && !requested.current.has(id));
+    missing.forEach(async (id) => {
+      requested.current.add(id);
+      const result = await fetchVersion(documentId, id);
+      if ("error" in result) {
+        requested.current.delete(id);
+        toast.error(result.error);
+        return;
+      }
+      setContents((prev) => new Map(prev).set(id, result.content));
+    });
+  }, [documentId, selected, base]);
+
+  const contentOf = (id: EntryId | null) => {
+    if (id === null) return JSON.stringify(type === "spreadsheet" ? { cells: {} } : { content: "" });
+    return id === CURRENT ? currentContent() : contents.get(id);
+  };
+
+  const labelOf = (id: EntryId) => {
+    if (id === CURRENT) return "Current";
+    const version = versions.find((v) => v.id === id);
+    return version ? `${versionTitle(version)} · ${new Date(version.createdAt).toLocaleString()}` : "";
+  };
+
+  const handleSaveVersion = async () => {
+    const name = versionName.trim();
+    if (!name) return;
+    setBusy(true);
+    try {
+      await saveChanges();
+      const result = await saveNamedVersion(documentId, name);
+      if ("error" in result) {
+        toast.error(result.error);
+        return;
+      }
+      setVersions((prev) => [result, ...prev]);
+      setVersionName("");
+      toast.success(`Saved version "${name}"`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRestore = async (versionId: number) => {
+    setBusy(true);
+    try {
+      await saveChanges();
+      const result = await restoreVersion(documentId, versionId);
+      if ("error" in result) {
+        toast.error(result.error);
+        return;
+      }
+      onRestored?.(result.content);
+      setSelected(CURRENT);
+      setCompareWith(null);
+      await loadVersions();
+      toast.success("Version restored");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const before = contentOf(base);
+  const after = contentOf(selected);
+
+  const renderDiff = () => {
+    if (before === undefined || after === undefined) {
+      return (
+        <div className="flex items-center justify-center h-32">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      );
+    }
+
+    if (type === "spreadsheet") {
+      const changes = diffCells(before, after);
+      if (changes.length === 0) return <p className="text-sm text-muted-foreground">No differences.</p>;
+      return (
+        <table className="w-full text-sm border border-border">
+          <thead className="bg-secondary/50">
+            <tr>
+              <th className="text-left px-3 py-2 w-20">Cell</th>
+              <th className="text-left px-3 py-2">Before</th>
+              <th className="text-left px-3 py-2">After</th>
+            </tr>
+          </thead>
+          <tbody>
+            {changes.map((change) => (
+              <tr key={change.cell} className="border-t border-border">
+                <td className="px-3 py-1.5 font-mono text-muted-foreground">{change.cell}</td>
+                <td className="px-3 py-1.5 text-red-600 line-through break-all">{change.before}</td>
+                <td className="px-3 py-1.5 text-green-600 break-all">{change.after}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      );
+    }
+
+    const parts = diffText(documentText(before), documentText(after));
+    if (parts.every((part) => part.type === "equal")) {
+      return <p className="text-sm text-muted-foreground">No differences.</p>;
+    }
+    return (
+      <div className="whitespace-pre-wrap text-sm leading-relaxed text-foreground">
+        {parts.map((part, index) =>
+          part.type === "equal" ? (
+            <span key={index}>{part.text}</span>
+          ) : part.type === "insert" ? (
+            <ins key={index} className="bg-green-500/20 text-green-700 dark:text-green-400 no-underline">
+              {part.text}
+            </ins>
+          ) : (
+            <del key={index} className="bg-red-500/20 text-red-700 dark:text-red-400">
+              {part.text}
+            </del>
+          )
+        )}
+      </div>
+    );
+  };
+
+  const entries: EntryId[] = [CURRENT, ...versions.map((v) => v.id)];
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex justify-end z-[60]" onClick={onClose}>
+      <div
+        className="bg-card border-l border-border w-full max-w-5xl h-full flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Version history
+          </h2>
+          <button onClick={onClose} className="p-1 hover:bg-secondary rounded transition-colors" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Versions */}
+          <div className="w-72 border-r border-border flex flex-col">
+            {canEdit && (
+              <div className="p-3 border-b border-border flex gap-2">
+                <input
+                  type="text"
+                  value={versionName}
+                  onChange={(e) => setVersionName(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleSaveVersion()}
+                  placeholder="Name this version…"
+                  maxLength={100}
+                  className="flex-1 min-w-0 px-2 py-1.5 text-sm bg-background border border-border rounded"
+                />
+                <button
+                  onClick={handleSaveVersion}
+                  disabled={busy || !versionName.trim()}
+                  className="p-2 bg-primary text-primary-foreground rounded hover:bg-primary/90 disabled:opacity-50"
+                  title="Save version"
+                >
+                  <Save className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+
+            <div className="flex-1 overflow-y-auto">
+              {loading ? (
+                <div className="flex items-center justify-center h-32">
+                  <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                </div>
+              ) : (
+                entries.map((id) => {
+                  const version = versions.find((v) => v.id === id);
+                  return (
+                    <button
+                      key={id}
+                      onClick={() => {
+                        setSelected(id);
+                        setCompareWith(null);
+                      }}
+                      className={`w-full text-left px-4 py-3 border-b border-border transition-colors ${
+                        selected === id ? "bg-primary/10" : "hover:bg-secondary"
+                      }`}
+                    >
+                      <div className="text-sm font-medium text-foreground truncate">
+                        {version ? versionTitle(version) : "Current"}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {version
+                          ? `${version.author.name} · ${new Date(version.createdAt).toLocaleString()}`
+                          : "What's in the editor now"}
+                      </div>
+                    </button>
+                  );
+                })
+              )}
+              {!loading && versions.length === 0 && (
+                <p className="p-4 text-sm text-muted-foreground">
+                  Versions are saved automatically as you edit, or name one to keep it.
+                </p>
+              )}
+            </div>
+          </div>
+
+          {/* Diff */}
+          <div className="flex-1 flex flex-col min-w-0">
+            <div className="p-3 border-b border-border flex items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Changes since</span>
+              <select
+                value={base === null ? "" : String(base)}
+                onChange={(e) => setCompareWith(e.target.value === CURRENT ? CURRENT : Number(e.target.value))}
+                className="flex-1 min-w-0 px-2 py-1.5 bg-background border border-border rounded"
+              >
+                {base === null && <option value="">Empty document</option>}
+                {entries
+                  .filter((id) => id !== selected)
+                  .map((id) => (
+                    <option key={id} value={String(id)}>
+                      {labelOf(id)}
+                    </option>
+                  ))}
+              </select>
+              {canEdit && selected !== CURRENT && (
+                <button
+                  onClick={() => handleRestore(selected)}
+                  disabled={busy}
+                  className="flex items-center gap-2 px-3 py-1.5 bg-primary text-primary-foreground rounded font-medium hover:bg-primary/90 disabled:opacity-50"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  Restore this version
+                </button>
+              )}
+            </div>
+            <div className="flex-1 overflow-auto p-6">{renderDiff()}</div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,16 @@
 import { useState, useEffect } from "react";
 import { Link } from "react-router-dom";
-import { FileText, Table, Plus, Trash2, MoreVertical, Loader2, Upload } from "lucide-react";
+import { FileText, Table, Plus, Trash2, MoreVertical, Loader2, Upload, ListChecks } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { api } from "@/lib/api";
-import Papa from "papaparse";
+import { importSpreadsheet } from "@/lib/spreadsheetFiles";
 
 interface Document {
   id: number;
   projectId: number;
   name: string;
   type: "document" | "spreadsheet";
+  taskTable: boolean;
   createdAt: string;
   updatedAt: string;
 }
@@ -93,77 +94,33 @@ export default function DocumentsList({ projectId }: DocumentsListProps) {
 
     setIsImporting(true);
     try {
-      Papa.parse(file, {
-        complete: async (results) => {
-          try {
-            // Convert CSV data to cell format
-            const cells: any = {};
-            results.data.forEach((row: any, rowIndex: number) => {
-              row.forEach((cell: any, colIndex: number) => {
-                if (cell) {
-                  const col = String.fromCharCode(65 + colIndex);
-                  const cellKey = `${col}${rowIndex + 1}`;
-                  cells[cellKey] = cell;
-                }
-              });
-            });
-
-            // Create spreadsheet
-            const response = await api("/api/documents", {
-              method: "POST",
-              body: JSON.stringify({
-                projectId,
-                name: file.name.replace(/\.[^/.]+$/, ""),
-                type: "spreadsheet",
-              }),
-            });
-
-            if (response.ok) {
-              const newDoc = await response.json();
-              
-              // Update with imported data
-              await api(`/api/documents/${newDoc.id}`, {
-                method: "PUT",
-                body: JSON.stringify({
-                  content: JSON.stringify({ cells }),
-                }),
-              });
-              
-              setDocuments([newDoc, ...documents]);
-              alert(`Successfully imported "${file.name}"`);
-            }
-          } catch (error) {
-            console.error("Error processing CSV:", error);
-            alert("Error processing CSV file.");
-          } finally {
-            setIsImporting(false);
-          }
-        },
-        error: (error) => {
-          console.error("CSV parsing error:", error);
-          alert("Error parsing CSV file.");
-          setIsImporting(false);
-        },
-      });
-      
-      // Reset file input
-      event.target.value = "";
+      const result = await importSpreadsheet(projectId, file);
+      if ("error" in result) {
+        alert(result.error);
+        return;
+      }
+      setDocuments([result, ...documents]);
+      alert(`Successfully imported "${file.name}"`);
     } catch (error) {
       console.error("Error importing spreadsheet:", error);
       alert("Error importing spreadsheet.");
+    } finally {
       setIsImporting(false);
+      // Reset file input
+      event.target.value = "";
     }
   };
 
-  const createDocument = async (type: "document" | "spreadsheet") => {
+  const createDocument = async (type: "document" | "spreadsheet", taskTable = false) => {
     try {
       setIsCreating(true);
       const response = await api("/api/documents", {
         method: "POST",
         body: JSON.stringify({
           projectId,
-          name: type === "document" ? "Untitled Document" : "Untitled Spreadsheet",
+          name: type === "document" ? "Untitled Document" : taskTable ? "Task Table" : "Untitled Spreadsheet",
           type,
+          taskTable,
         }),
       });
 
@@ -267,8 +224,21 @@ export default function DocumentsList({ projectId }: DocumentsListProps) {
             ) : (
               <Upload className="w-5 h-5" />
             )}
-            Import {activeTab === "spreadsheet" ? "CSV" : ""}
+            Import {activeTab === "spreadsheet" ? "CSV / XLSX" : ""}
           </label>
+
+          {/* Create Task Table Button */}
+          {activeTab === "spreadsheet" && (
+            <button
+              onClick={() => createDocument("spreadsheet", true)}
+              disabled={isCreating}
+              className="flex items-center gap-2 px-4 py-2 bg-secondary text-foreground rounded-lg font-medium hover:bg-secondary/80 transition-colors disabled:opacity-50 border border-border"
+              title="A sheet whose rows are this project's tasks"
+            >
+              <ListChecks className="w-5 h-5" />
+              New Task Table
+            </button>
+          )}
           
           {/* Create New Button */}
           <button
@@ -330,6 +300,8 @@ export default function DocumentsList({ projectId }: DocumentsListProps) {
                           : "text-green-600 dark:text-green-400"
                       }`}
                     />
+                  ) : doc.taskTable ? (
+                    <ListChecks className="w-6 h-6 text-green-600 dark:text-green-400" />
                   ) : (
                     <Table className="w-6 h-6 text-green-600 dark:text-green-400" />
                   )}
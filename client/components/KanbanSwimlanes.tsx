@@ -2,6 +2,7 @@ import { useState, useMemo } from "react";
 import { ChevronDown, ChevronRight, User, Flag, Tag } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import TaskCard, { Task } from "./TaskCard";
+import { DEFAULT_WORKFLOW, type WorkflowStatus } from "@/lib/workflow";
 
 type GroupBy = "assignee" | "priority" | "label";
 
@@ -12,10 +13,11 @@ interface KanbanSwimlanesProps {
   onEdit: (task: Task) => void;
   onDelete: (taskId: number) => void;
   onHistory: (task: Task) => void;
+  statuses?: WorkflowStatus[];
+  isSelected?: (taskId: number) => boolean;
+  onSelect?: (task: Task, e: React.MouseEvent) => boolean;
 }
 
-const STATUS_ORDER = ["todo", "inprogress", "done"];
-const STATUS_LABELS: Record<string, string> = { todo: "To Do", inprogress: "In Progress", done: "Done" };
 const PRIORITY_ORDER = ["high", "medium", "low"];
 const PRIORITY_COLORS: Record<string, string> = {
   high: "bg-red-100 text-red-700 border-red-200",
@@ -23,7 +25,7 @@ const PRIORITY_COLORS: Record<string, string> = {
   low: "bg-green-100 text-green-700 border-green-200",
 };
 
-export default function KanbanSwimlanes({ tasks, groupBy, onOpen, onEdit, onDelete, onHistory }: KanbanSwimlanesProps) {
+export default function KanbanSwimlanes({ tasks, groupBy, onOpen, onEdit, onDelete, onHistory, statuses = DEFAULT_WORKFLOW, isSelected, onSelect }: KanbanSwimlanesProps) {
   const [collapsedLanes, setCollapsedLanes] = useState<Set<string>>(new Set());
 
   const toggleLane = (key: string) => {
@@ -39,10 +41,14 @@ export default function KanbanSwimlanes({ tasks, groupBy, onOpen, onEdit, onDele
     const map = new Map<string, { label: string; color?: string; tasks: Task[] }>();
 
     if (groupBy === "assignee") {
+      // A task with several assignees shows up in each of their lanes
       for (const t of tasks) {
-        const key = t.assignedUser || "Unassigned";
-        if (!map.has(key)) map.set(key, { label: key, tasks: [] });
-        map.get(key)!.tasks.push(t);
+        const people = t.assignees.length > 0 ? t.assignees : [null];
+        for (const person of people) {
+          const key = person ? String(person.id) : "unassigned";
+          if (!map.has(key)) map.set(key, { label: person?.name ?? "Unassigned", tasks: [] });
+          map.get(key)!.tasks.push(t);
+        }
       }
     } else if (groupBy === "priority") {
       for (const p of PRIORITY_ORDER) {
@@ -78,9 +84,6 @@ export default function KanbanSwimlanes({ tasks, groupBy, onOpen, onEdit, onDele
     <div className="space-y-4">
       {lanes.map(([key, lane]) => {
         const isCollapsed = collapsedLanes.has(key);
-        const todoTasks = lane.tasks.filter((t) => t.status === "todo");
-        const inProgressTasks = lane.tasks.filter((t) => t.status === "inprogress");
-        const doneTasks = lane.tasks.filter((t) => t.status === "done");
 
         return (
           <motion.div
@@ -115,9 +118,17 @@ export default function KanbanSwimlanes({ tasks, groupBy, onOpen, onEdit, onDele
               </span>
               {/* Mini status dots */}
               <div className="flex items-center gap-0.5">
-                {doneTasks.length > 0 && <span className="w-2 h-2 rounded-full bg-green-500" title={`${doneTasks.length} done`} />}
-                {inProgressTasks.length > 0 && <span className="w-2 h-2 rounded-full bg-blue-500" title={`${inProgressTasks.length} in progress`} />}
-                {todoTasks.length > 0 && <span className="w-2 h-2 rounded-full bg-gray-400" title={`${todoTasks.length} todo`} />}
+                {[...statuses].reverse().map((status) => {
+                  const count = lane.tasks.filter((t) => t.status === status.key).length;
+                  return count > 0 ? (
+                    <span
+                      key={status.key}
+                      className="w-2 h-2 rounded-full"
+                      style={{ backgroundColor: status.color }}
+                      title={`${count} ${status.name}`}
+                    />
+                  ) : null;
+                })}
               </div>
             </button>
 
@@ -131,13 +142,16 @@ export default function KanbanSwimlanes({ tasks, groupBy, onOpen, onEdit, onDele
                   exit={{ height: 0, opacity: 0 }}
                   transition={{ duration: 0.2 }}
                 >
-                  <div className="grid grid-cols-3 gap-4">
-                    {STATUS_ORDER.map((status) => {
-                      const statusTasks = lane.tasks.filter((t) => t.status === status);
+                  <div
+                    className="grid gap-4 overflow-x-auto"
+                    style={{ gridTemplateColumns: `repeat(${statuses.length}, minmax(200px, 1fr))` }}
+                  >
+                    {statuses.map((status) => {
+                      const statusTasks = lane.tasks.filter((t) => t.status === status.key);
                       return (
-                        <div key={status}>
+                        <div key={status.key}>
                           <p className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wider mb-2">
-                            {STATUS_LABELS[status]} ({statusTasks.length})
+                            {status.name} ({statusTasks.length})
                           </p>
                           <div className="space-y-2">
                             {statusTasks.map((task) => (
@@ -148,6 +162,9 @@ export default function KanbanSwimlanes({ tasks, groupBy, onOpen, onEdit, onDele
                                 onEdit={onEdit}
                                 onDelete={onDelete}
                                 onHistory={onHistory}
+                                statuses={statuses}
+                                selected={isSelected?.(task.id)}
+                                onSelect={onSelect}
                               />
                             ))}
                             {statusTasks.length === 0 && (
@@ -1,11 +1,14 @@
 import { useEffect, useState } from "react";
 import { Link, useNavigate, useLocation } from "react-router-dom";
-import { Menu, X, LayoutDashboard, FolderOpen, CalendarDays, ListTodo, Bell, LogOut, Moon, Sun, BookOpen, Plug, PawPrint, Sparkles } from "lucide-react";
+import { Menu, X, LayoutDashboard, FolderOpen, CalendarDays, ListTodo, Bell, LogOut, Moon, Sun, BookOpen, Plug, PawPrint, Sparkles, Filter } from "lucide-react";
 import { useTheme } from "next-themes";
 import { motion, AnimatePresence } from "framer-motion";
+import { toast } from "sonner";
 import { useAuth } from "@/contexts/AuthContext";
 import { api } from "@/lib/api";
 import { getRealtimeSocket } from "@/lib/realtimeSocket";
+import { SAVED_FILTERS_CHANGED, getSavedFilterPath, type SavedFilter } from "@/lib/savedFilters";
+import { notifyGamificationChanged, type Achievement } from "@/lib/xp";
 import XPBar from "@/components/XPBar";
 import SmartAlerts from "@/components/SmartAlerts";
 import {
@@ -27,6 +30,7 @@ export default function MainLayout({ children }: MainLayoutProps) {
   const { setTheme } = useTheme();
   const { user, logout } = useAuth();
   const [unreadCount, setUnreadCount] = useState(0);
+  const [pinnedFilters, setPinnedFilters] = useState<SavedFilter[]>([]);
 
   useEffect(() => {
     if (!user?.id) return;
@@ -38,15 +42,25 @@ export default function MainLayout({ children }: MainLayoutProps) {
       window.dispatchEvent(new CustomEvent("notifications:refresh"));
     };
 
+    const relayGamification = (payload: { unlocked?: Achievement[] }) => {
+      const unlocked = payload?.unlocked ?? [];
+      for (const a of unlocked) {
+        toast(a.title, { description: a.description });
+      }
+      notifyGamificationChanged(unlocked);
+    };
+
     socket.on("notification:created", triggerRefresh);
     socket.on("notification:read", triggerRefresh);
     socket.on("notification:readAll", triggerRefresh);
+    socket.on("gamification:updated", relayGamification);
 
     return () => {
       socket.emit("leave-user", { userId: user.id });
       socket.off("notification:created", triggerRefresh);
       socket.off("notification:read", triggerRefresh);
       socket.off("notification:readAll", triggerRefresh);
+      socket.off("gamification:updated", relayGamification);
     };
   }, [user?.id]);
 
@@ -83,6 +97,25 @@ export default function MainLayout({ children }: MainLayoutProps) {
     };
   }, []);
 
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const fetchPinnedFilters = async () => {
+      try {
+        const response = await api("/api/filters?pinned=true");
+        if (!response.ok) return;
+        const data = await response.json();
+        setPinnedFilters(Array.isArray(data) ? data : []);
+      } catch {
+        // ignore
+      }
+    };
+
+    fetchPinnedFilters();
+    window.addEventListener(SAVED_FILTERS_CHANGED, fetchPinnedFilters);
+    return () => window.removeEventListener(SAVED_FILTERS_CHANGED, fetchPinnedFilters);
+  }, [user?.id]);
+
   const handleLogout = async () => {
     try {
       await logout();
@@ -141,7 +174,7 @@ export default function MainLayout({ children }: MainLayoutProps) {
           </motion.div>
 
           {/* Navigation */}
-          <nav className="flex-1 p-3 sm:p-4 space-y-2">
+          <nav className="flex-1 p-3 sm:p-4 space-y-2 overflow-y-auto">
             {navItems.map((item, index) => {
               const Icon = item.icon;
               const active =
@@ -188,6 +221,40 @@ export default function MainLayout({ children }: MainLayoutProps) {
                 </motion.div>
               );
             })}
+
+            {pinnedFilters.length > 0 && (
+              <div className="pt-3">
+                <p className="px-3 sm:px-4 pb-1 text-[10px] font-semibold uppercase tracking-wider text-sidebar-foreground/50">
+                  Pinned filters
+                </p>
+                {pinnedFilters.map((filter) => {
+                  const path = getSavedFilterPath(filter);
+                  const active = `${location.pathname}${location.search}` === path;
+                  return (
+                    <Link
+                      key={filter.id}
+                      to={path}
+                      title={filter.query}
+                      className={`flex items-center gap-3 px-3 sm:px-4 py-2 rounded-xl text-sm transition-colors ${
+                        active
+                          ? "bg-sidebar-accent text-sidebar-foreground font-medium"
+                          : "text-sidebar-foreground/80 hover:bg-sidebar-accent/80"
+                      }`}
+                    >
+                      <Filter className="w-4 h-4 flex-shrink-0" />
+                      <span className="truncate flex-1">{filter.name}</span>
+                      {filter.project && (
+                        <span
+                          className="w-2 h-2 rounded-full flex-shrink-0"
+                          style={{ backgroundColor: filter.project.color }}
+                          title={filter.project.name}
+                        />
+                      )}
+                    </Link>
+                  );
+                })}
+              </div>
+            )}
           </nav>
 
           {/* Footer */}
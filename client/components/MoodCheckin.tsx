@@ -11,7 +11,7 @@ import {
   getAverageEnergy,
   type MoodEntry,
 } from "@/lib/mood";
-import { addXP, XP_REWARDS } from "@/lib/xp";
+import { logActivity } from "@/lib/xp";
 
 export default function MoodCheckin() {
   const [todayEntry, setTodayEntry] = useState<MoodEntry | null>(null);
@@ -45,7 +45,7 @@ export default function MoodCheckin() {
     setSaved(true);
     setRecentEntries(getRecentEntries(14));
     if (isNew) {
-      addXP("DAILY_CHECKIN", XP_REWARDS.DAILY_CHECKIN);
+      logActivity("DAILY_CHECKIN");
     }
   };
 
@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useState } from "react";
+import { Mail } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "@/lib/api";
+
+// Preferences as returned by /api/notifications/preferences
+type NotificationCategory = "assigned" | "mentioned" | "commented" | "statusChanged" | "dueSoon" | "overdue";
+type EmailDelivery = "off" | "immediate" | "digest";
+
+type Preferences = Record<NotificationCategory, { inApp: boolean; email: EmailDelivery }>;
+
+const CATEGORIES: { key: NotificationCategory; label: string }[] = [
+  { key: "assigned", label: "Assigned to me" },
+  { key: "mentioned", label: "Mentioned in a comment" },
+  { key: "commented", label: "Comments on my tasks" },
+  { key: "statusChanged", label: "Status changes on watched tasks" },
+  { key: "dueSoon", label: "Due date reminders" },
+  { key: "overdue", label: "Overdue tasks" },
+];
+
+const EMAIL_OPTIONS: { value: EmailDelivery; label: string }[] = [
+  { value: "off", label: "No email" },
+  { value: "immediate", label: "Right away" },
+  { value: "digest", label: "Daily digest" },
+];
+
+export default function NotificationPreferencesSettings() {
+  const [preferences, setPreferences] = useState<Preferences | null>(null);
+
+  const fetchPreferences = useCallback(async () => {
+    try {
+      const res = await api("/api/notifications/preferences");
+      if (res.ok) setPreferences(await res.json());
+    } catch { /* ignore */ }
+  }, []);
+
+  useEffect(() => {
+    fetchPreferences();
+  }, [fetchPreferences]);
+
+  const update = async (category: NotificationCategory, change: Partial<Preferences[NotificationCategory]>) => {
+    if (!preferences) return;
+    const previous = preferences;
+    setPreferences({ ...preferences, [category]: { ...preferences[category], ...change } });
+
+    try {
+      const res = await api("/api/notifications/preferences", {
+        method: "PUT",
+        body: JSON.stringify({ [category]: change }),
+      });
+      if (!res.ok) throw new Error();
+      setPreferences(await res.json());
+    } catch {
+      setPreferences(previous);
+      toast.error("Failed to save notification settings");
+    }
+  };
+
+  if (!preferences) return null;
+
+  return (
+    <section className="mt-10 bg-card border border-border rounded-xl p-5">
+      <div className="flex items-center gap-2 mb-1">
+        <Mail className="w-5 h-5 text-primary" />
+        <h2 className="text-lg font-semibold text-foreground">Notification settings</h2>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Choose where each kind of notification goes. Daily digests collect anything you haven't read yet.
+      </p>
+
+      <div className="divide-y divide-border">
+        {CATEGORIES.map((category) => (
+          <div key={category.key} className="flex items-center justify-between gap-4 py-3">
+            <span className="text-sm text-foreground">{category.label}</span>
+            <div className="flex items-center gap-4">
+              <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={preferences[category.key].inApp}
+                  onChange={(e) => update(category.key, { inApp: e.target.checked })}
+                  className="rounded border-border accent-primary"
+                />
+                In app
+              </label>
+              <select
+                value={preferences[category.key].email}
+                onChange={(e) => update(category.key, { email: e.target.value as EmailDelivery })}
+                className="px-2 py-1 text-sm border border-border rounded-lg bg-input text-foreground"
+              >
+                {EMAIL_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,62 @@
+import { useState } from "react";
+import { Check, ChevronsUpDown } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { formatPeople, initials, type TaskPerson } from "@/lib/taskPeople";
+
+interface PeoplePickerProps {
+  // Everyone who can be picked; people already selected stay listed even if they've left the project
+  people: TaskPerson[];
+  selected: TaskPerson[];
+  onChange: (selected: TaskPerson[]) => void;
+  placeholder: string;
+  disabled?: boolean;
+}
+
+export default function PeoplePicker({ people, selected, onChange, placeholder, disabled }: PeoplePickerProps) {
+  const [open, setOpen] = useState(false);
+  const selectedIds = new Set(selected.map((p) => p.id));
+  const options = [...people, ...selected.filter((p) => !people.some((m) => m.id === p.id))];
+
+  const toggle = (person: TaskPerson) => {
+    onChange(selectedIds.has(person.id) ? selected.filter((p) => p.id !== person.id) : [...selected, person]);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild disabled={disabled}>
+        <button
+          type="button"
+          className="flex w-full items-center justify-between gap-2 rounded-md border border-input bg-background px-3 py-2 text-sm text-left disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          <span className={`truncate ${selected.length === 0 ? "text-muted-foreground" : "text-foreground"}`}>
+            {formatPeople(selected, placeholder)}
+          </span>
+          <ChevronsUpDown className="w-4 h-4 shrink-0 text-muted-foreground" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="p-0 w-[260px]" align="start">
+        <Command>
+          <CommandInput placeholder="Search people..." />
+          <CommandList>
+            <CommandEmpty>No project members found.</CommandEmpty>
+            <CommandGroup>
+              {options.map((person) => (
+                <CommandItem key={person.id} value={`${person.name} ${person.email}`} onSelect={() => toggle(person)}>
+                  <span className="w-6 h-6 mr-2 rounded-full bg-primary/10 text-primary text-[10px] font-semibold flex items-center justify-center shrink-0">
+                    {initials(person.name)}
+                  </span>
+                  <div className="flex flex-col min-w-0 flex-1">
+                    <span className="text-sm font-medium truncate">{person.name}</span>
+                    <span className="text-xs text-muted-foreground truncate">{person.email}</span>
+                  </div>
+                  {selectedIds.has(person.id) && <Check className="w-4 h-4 text-primary shrink-0" />}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
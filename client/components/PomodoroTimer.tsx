@@ -10,7 +10,7 @@ import {
   DEFAULT_SETTINGS,
   type PomodoroSettings,
 } from "@/lib/pomodoro";
-import { addXP, XP_REWARDS } from "@/lib/xp";
+import { completeFocusSession, startFocusSession } from "@/lib/xp";
 
 interface PomodoroTimerProps {
   taskId: number;
@@ -31,6 +31,8 @@ export default function PomodoroTimer({ taskId, taskTitle, minimized, onToggleMi
   const [totalFocus, setTotalFocus] = useState(() => getTotalFocusMinutes(taskId));
 
   const startTimeRef = useRef<number | null>(null);
+  // The server's record of the focus phase under way, kept across pauses
+  const focusSessionRef = useRef<Promise<number | null> | null>(null);
   const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
   const phaseDuration = useCallback(
@@ -88,7 +90,8 @@ export default function PomodoroTimer({ taskId, taskTitle, minimized, onToggleMi
 
     if (phase === "focus") {
       setTotalFocus(getTotalFocusMinutes(taskId));
-      addXP("FOCUS_SESSION", XP_REWARDS.FOCUS_SESSION);
+      focusSessionRef.current?.then((id) => id && completeFocusSession(id));
+      focusSessionRef.current = null;
     }
 
     // Browser notification
@@ -138,6 +141,9 @@ export default function PomodoroTimer({ taskId, taskTitle, minimized, onToggleMi
         Notification.requestPermission();
       }
       startTimeRef.current = Date.now();
+      if (phase === "focus" && !focusSessionRef.current) {
+        focusSessionRef.current = startFocusSession(settings.focusMinutes);
+      }
     }
     setIsRunning((r) => !r);
   };
@@ -145,6 +151,7 @@ export default function PomodoroTimer({ taskId, taskTitle, minimized, onToggleMi
   const reset = () => {
     setIsRunning(false);
     startTimeRef.current = null;
+    focusSessionRef.current = null;
     setPhase("focus");
     setSecondsLeft(settings.focusMinutes * 60);
     setSessionCount(0);
@@ -156,6 +163,7 @@ export default function PomodoroTimer({ taskId, taskTitle, minimized, onToggleMi
     if (!isRunning) {
       setSecondsLeft(s.focusMinutes * 60);
       setPhase("focus");
+      focusSessionRef.current = null;
     }
     setShowSettings(false);
   };
@@ -3,27 +3,31 @@ import { BarChart3, TrendingDown, TrendingUp, Users, Clock, CheckCircle, AlertTr
 import { motion, AnimatePresence } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import type { Task } from "@/components/TaskCard";
+import { DEFAULT_WORKFLOW, getInitialStatus, isDoneStatus, type WorkflowStatus } from "@/lib/workflow";
 
 interface ProjectAnalyticsProps {
   tasks: Task[];
   projectName: string;
+  statuses?: WorkflowStatus[];
 }
 
-export default function ProjectAnalytics({ tasks, projectName }: ProjectAnalyticsProps) {
+export default function ProjectAnalytics({ tasks, projectName, statuses = DEFAULT_WORKFLOW }: ProjectAnalyticsProps) {
   const [open, setOpen] = useState(false);
 
   const stats = useMemo(() => {
+    const isDone = (t: Task) => isDoneStatus(statuses, t.status);
+    const initialStatus = getInitialStatus(statuses);
     const total = tasks.length;
-    const done = tasks.filter((t) => t.status === "done").length;
-    const inProgress = tasks.filter((t) => t.status === "inprogress").length;
-    const todo = tasks.filter((t) => t.status === "todo").length;
+    const done = tasks.filter(isDone).length;
+    const todo = tasks.filter((t) => !isDone(t) && t.status === initialStatus).length;
+    const inProgress = total - done - todo;
     const completionRate = total > 0 ? Math.round((done / total) * 100) : 0;
 
     // Overdue
     const now = new Date();
     now.setHours(0, 0, 0, 0);
     const overdue = tasks.filter((t) => {
-      if (t.status === "done" || !t.dueDate) return false;
+      if (isDone(t) || !t.dueDate) return false;
       const due = new Date(t.dueDate);
       due.setHours(0, 0, 0, 0);
       return due < now;
@@ -37,11 +41,12 @@ export default function ProjectAnalytics({ tasks, projectName }: ProjectAnalytic
     // Contributor breakdown
     const contributorMap = new Map<string, { total: number; done: number }>();
     for (const t of tasks) {
-      const user = t.assignedUser || "Unassigned";
-      if (!contributorMap.has(user)) contributorMap.set(user, { total: 0, done: 0 });
-      const c = contributorMap.get(user)!;
-      c.total++;
-      if (t.status === "done") c.done++;
+      for (const user of t.assignees.length > 0 ? t.assignees.map((p) => p.name) : ["Unassigned"]) {
+        if (!contributorMap.has(user)) contributorMap.set(user, { total: 0, done: 0 });
+        const c = contributorMap.get(user)!;
+        c.total++;
+        if (isDone(t)) c.done++;
+      }
     }
     const contributors = Array.from(contributorMap.entries())
       .map(([name, data]) => ({ name, ...data, rate: data.total > 0 ? Math.round((data.done / data.total) * 100) : 0 }))
@@ -58,7 +63,7 @@ export default function ProjectAnalytics({ tasks, projectName }: ProjectAnalytic
       const weekEndStr = weekEnd.toISOString().slice(0, 10);
 
       const count = tasks.filter((t) => {
-        if (t.status !== "done") return false;
+        if (!isDone(t)) return false;
         const updated = (t as any).updatedAt?.slice(0, 10);
         return updated && updated >= weekStartStr && updated < weekEndStr;
       }).length;
@@ -85,7 +90,7 @@ export default function ProjectAnalytics({ tasks, projectName }: ProjectAnalytic
       contributors, velocity, avgVelocity, maxVelocity,
       remaining, estimatedDaysLeft, bottleneck,
     };
-  }, [tasks]);
+  }, [tasks, statuses]);
 
   const CONTRIBUTOR_COLORS = ["#3b82f6", "#22c55e", "#f59e0b", "#ef4444", "#8b5cf6", "#ec4899", "#14b8a6", "#f97316"];
 
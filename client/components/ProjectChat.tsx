@@ -22,6 +22,8 @@ interface ChatMessage {
 interface ProjectChatProps {
   projectId: number;
   projectName: string;
+  // Open the panel, e.g. when arriving from a chat search result
+  autoOpen?: boolean;
 }
 
 const AVATAR_COLORS = [
@@ -48,7 +50,7 @@ function formatTime(iso: string) {
   return `${d.toLocaleDateString(undefined, { month: "short", day: "numeric" })} ${time}`;
 }
 
-export default function ProjectChat({ projectId, projectName }: ProjectChatProps) {
+export default function ProjectChat({ projectId, projectName, autoOpen }: ProjectChatProps) {
   const [open, setOpen] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [loading, setLoading] = useState(false);
@@ -79,6 +81,10 @@ export default function ProjectChat({ projectId, projectName }: ProjectChatProps
     setLoading(false);
   }, [projectId]);
 
+  useEffect(() => {
+    if (autoOpen) setOpen(true);
+  }, [autoOpen]);
+
   useEffect(() => {
     if (open) {
       fetchMessages();
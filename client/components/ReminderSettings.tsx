@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { BellRing, X } from "lucide-react";
+import { motion, AnimatePresence } from "framer-motion";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { api } from "@/lib/api";
+
+interface ReminderSettingsProps {
+  projectId: number;
+}
+
+// Offsets the server accepts are any whole hours up to a week; these are the ones offered here
+const REMINDER_OPTIONS: { hours: number; label: string }[] = [
+  { hours: 168, label: "1 week" },
+  { hours: 72, label: "3 days" },
+  { hours: 24, label: "1 day" },
+  { hours: 4, label: "4 hours" },
+  { hours: 1, label: "1 hour" },
+];
+
+export default function ReminderSettings({ projectId }: ReminderSettingsProps) {
+  const [open, setOpen] = useState(false);
+  const [reminderHours, setReminderHours] = useState<number[]>([]);
+  const [escalateOverdue, setEscalateOverdue] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const base = `/api/projects/${projectId}/reminders`;
+
+  const openSettings = async () => {
+    setOpen(true);
+    try {
+      const res = await api(base);
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setLoadError(data?.error || "Failed to load reminder settings");
+        return;
+      }
+      setReminderHours(data.reminderHours);
+      setEscalateOverdue(data.escalateOverdue);
+      setLoadError(null);
+    } catch {
+      setLoadError("Failed to load reminder settings");
+    }
+  };
+
+  const toggleHours = (hours: number) =>
+    setReminderHours((prev) => (prev.includes(hours) ? prev.filter((h) => h !== hours) : [...prev, hours]));
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await api(base, { method: "PUT", body: JSON.stringify({ reminderHours, escalateOverdue }) });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to save reminder settings");
+        return;
+      }
+      toast.success("Reminder settings saved");
+      setOpen(false);
+    } catch {
+      toast.error("Failed to save reminder settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <Button type="button" variant="outline" onClick={openSettings} className="flex items-center gap-2">
+        <BellRing className="w-4 h-4 text-amber-500" />
+        Reminders
+      </Button>
+    );
+  }
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        className="fixed inset-0 z-50 flex items-center justify-center p-4"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+      >
+        <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={() => setOpen(false)} />
+
+        <motion.div
+          className="relative bg-card border border-border rounded-2xl shadow-2xl w-full max-w-lg"
+          initial={{ scale: 0.9, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          transition={{ type: "spring", damping: 25 }}
+        >
+          <div className="h-1.5 bg-gradient-to-r from-amber-400 via-orange-500 to-red-500" />
+
+          <div className="p-6">
+            <div className="flex items-center justify-between mb-5">
+              <div>
+                <div className="flex items-center gap-2 mb-1">
+                  <BellRing className="w-5 h-5 text-amber-500" />
+                  <h2 className="text-lg font-bold text-foreground">Due date reminders</h2>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Assignees are notified before a task's due date ends and again once it's overdue.
+                </p>
+              </div>
+              <button type="button" onClick={() => setOpen(false)} className="p-1.5 rounded-lg hover:bg-muted text-muted-foreground">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {loadError ? (
+              <p className="text-sm text-red-600">{loadError}</p>
+            ) : (
+              <div className="space-y-5">
+                <div>
+                  <p className="text-sm font-medium text-foreground mb-2">Remind assignees</p>
+                  <div className="flex flex-wrap gap-1.5">
+                    {REMINDER_OPTIONS.map((option) => (
+                      <button
+                        key={option.hours}
+                        type="button"
+                        onClick={() => toggleHours(option.hours)}
+                        className={`px-2 py-1 text-xs rounded-full border transition-colors ${
+                          reminderHours.includes(option.hours)
+                            ? "bg-primary text-primary-foreground border-primary"
+                            : "border-border text-muted-foreground hover:bg-secondary"
+                        }`}
+                      >
+                        {option.label} before
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <label className="flex items-start gap-2 text-sm text-foreground cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={escalateOverdue}
+                    onChange={(e) => setEscalateOverdue(e.target.checked)}
+                    className="mt-0.5 rounded border-border accent-primary"
+                  />
+                  <span>
+                    Escalate overdue tasks
+                    <span className="block text-xs text-muted-foreground">
+                      Also notify the project owner and admins when a task becomes overdue.
+                    </span>
+                  </span>
+                </label>
+
+                <div className="flex justify-end">
+                  <Button type="button" size="sm" onClick={handleSave} disabled={saving}>
+                    {saving ? "Saving..." : "Save"}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
@@ -2,8 +2,8 @@ import { useState, useEffect, useMemo, useCallback } from "react";
 import { Bell, BellRing, X, Clock, AlertTriangle, Flame, Star, Settings, Check } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { api } from "@/lib/api";
-import { getXPState } from "@/lib/xp";
-import { readCompletionStreak } from "@/lib/confetti";
+import { DEFAULT_WORKFLOW, isDoneStatus } from "@/lib/workflow";
+import { fetchXPState, GAMIFICATION_CHANGED, type XPState } from "@/lib/xp";
 
 interface Alert {
   id: string;
@@ -64,6 +64,7 @@ export default function SmartAlerts() {
   const [prefs, setPrefs] = useState<AlertPrefs>(getPrefs);
   const [showPrefs, setShowPrefs] = useState(false);
   const [tasks, setTasks] = useState<any[]>([]);
+  const [xpState, setXPState] = useState<XPState | null>(null);
 
   // Fetch user tasks periodically
   const fetchTasks = useCallback(async () => {
@@ -82,6 +83,16 @@ export default function SmartAlerts() {
     return () => clearInterval(interval);
   }, [fetchTasks]);
 
+  useEffect(() => {
+    const refresh = async () => {
+      const next = await fetchXPState();
+      if (next) setXPState(next);
+    };
+    refresh();
+    window.addEventListener(GAMIFICATION_CHANGED, refresh);
+    return () => window.removeEventListener(GAMIFICATION_CHANGED, refresh);
+  }, []);
+
   // Generate alerts from tasks and state
   useEffect(() => {
     const dismissed = getDismissed();
@@ -92,7 +103,7 @@ export default function SmartAlerts() {
     // Due soon alerts (due within 24 hours)
     if (prefs.dueSoon) {
       for (const t of tasks) {
-        if (t.status === "done" || !t.dueDate) continue;
+        if (isDoneStatus(t.workflow ?? DEFAULT_WORKFLOW, t.status) || !t.dueDate) continue;
         const due = new Date(t.dueDate);
         const hoursUntil = (due.getTime() - now.getTime()) / (1000 * 60 * 60);
         if (hoursUntil > 0 && hoursUntil <= 24) {
@@ -116,7 +127,7 @@ export default function SmartAlerts() {
     // Overdue alerts
     if (prefs.overdue) {
       for (const t of tasks) {
-        if (t.status === "done" || !t.dueDate) continue;
+        if (isDoneStatus(t.workflow ?? DEFAULT_WORKFLOW, t.status) || !t.dueDate) continue;
         const due = new Date(t.dueDate);
         due.setHours(23, 59, 59);
         if (due < now) {
@@ -138,33 +149,26 @@ export default function SmartAlerts() {
       }
     }
 
-    // Streak warning
-    if (prefs.streakWarning) {
-      const { streak, lastDate } = readCompletionStreak();
-      if (streak > 0 && lastDate) {
-        const last = new Date(lastDate);
-        const hoursSince = (now.getTime() - last.getTime()) / (1000 * 60 * 60);
-        if (hoursSince > 18 && hoursSince < 48) {
-          const id = `streak-warn-${today}`;
-          if (!dismissed.has(id)) {
-            newAlerts.push({
-              id,
-              type: "streak_warning",
-              title: "Streak at Risk!",
-              message: `Your ${streak}-day streak will break if you don't complete a task today`,
-              icon: <Flame className="w-4 h-4" />,
-              color: "text-orange-500",
-              timestamp: now.toISOString(),
-              read: false,
-            });
-          }
-        }
+    // Streak warning: a live streak whose last completion wasn't today breaks at the end of today (UTC)
+    if (prefs.streakWarning && xpState) {
+      const { streak, lastCompletedOn } = xpState;
+      const id = `streak-warn-${today}`;
+      if (streak > 0 && lastCompletedOn && lastCompletedOn !== today && !dismissed.has(id)) {
+        newAlerts.push({
+          id,
+          type: "streak_warning",
+          title: "Streak at Risk!",
+          message: `Your ${streak}-day streak will break if you don't complete a task today`,
+          icon: <Flame className="w-4 h-4" />,
+          color: "text-orange-500",
+          timestamp: now.toISOString(),
+          read: false,
+        });
       }
     }
 
     // Level up check
-    if (prefs.levelUp) {
-      const xpState = getXPState();
+    if (prefs.levelUp && xpState) {
       const lastLevel = parseInt(localStorage.getItem(LAST_LEVEL_KEY) || "0") || 0;
       if (xpState.level > lastLevel && lastLevel > 0) {
         const id = `level-up-${xpState.level}`;
@@ -189,7 +193,7 @@ export default function SmartAlerts() {
     newAlerts.sort((a, b) => (typePriority[a.type] ?? 5) - (typePriority[b.type] ?? 5));
 
     setAlerts(newAlerts);
-  }, [tasks, prefs]);
+  }, [tasks, prefs, xpState]);
 
   const unreadCount = alerts.filter((a) => !a.read).length;
 
@@ -0,0 +1,281 @@
+import { useState } from "react";
+import { CalendarRange, Play, Plus, Square, Trash2, X } from "lucide-react";
+import { motion, AnimatePresence } from "framer-motion";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { api } from "@/lib/api";
+import { getActiveSprint, type Sprint } from "@/lib/sprints";
+
+interface SprintPlannerProps {
+  projectId: number;
+  sprints: Sprint[];
+  onChanged: () => void;
+}
+
+const STATE_STYLES: Record<Sprint["state"], string> = {
+  planned: "bg-secondary text-muted-foreground",
+  active: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400",
+  closed: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400",
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+const toInputDate = (date: Date) => date.toISOString().slice(0, 10);
+
+export default function SprintPlanner({ projectId, sprints, onChanged }: SprintPlannerProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [goal, setGoal] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [closingId, setClosingId] = useState<number | null>(null);
+  const [rolloverId, setRolloverId] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const activeSprint = getActiveSprint(sprints);
+  const plannedSprints = sprints.filter((s) => s.state === "planned");
+
+  const openPlanner = () => {
+    // Default the next sprint to two weeks starting today
+    const start = new Date();
+    const end = new Date();
+    end.setDate(end.getDate() + 13);
+    setName(`Sprint ${sprints.length + 1}`);
+    setGoal("");
+    setStartDate(toInputDate(start));
+    setEndDate(toInputDate(end));
+    setClosingId(null);
+    setError(null);
+    setOpen(true);
+  };
+
+  // Runs a sprint request; returns the parsed body on success, null on failure
+  const send = async (path: string, init: RequestInit) => {
+    try {
+      setBusy(true);
+      setError(null);
+      const response = await api(path, init);
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        setError(data?.error || "Request failed");
+        return null;
+      }
+      onChanged();
+      return data ?? {};
+    } catch {
+      setError("Request failed");
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    const created = await send(`/api/projects/${projectId}/sprints`, {
+      method: "POST",
+      body: JSON.stringify({ name, goal, startDate, endDate }),
+    });
+    if (created) {
+      toast.success(`${created.name} planned`);
+      setName(`Sprint ${sprints.length + 2}`);
+      setGoal("");
+    }
+  };
+
+  const handleStart = async (sprint: Sprint) => {
+    const started = await send(`/api/sprints/${sprint.id}/start`, { method: "POST" });
+    if (started) toast.success(`${sprint.name} started`);
+  };
+
+  const handleClose = async (sprint: Sprint) => {
+    const result = await send(`/api/sprints/${sprint.id}/close`, {
+      method: "POST",
+      body: JSON.stringify({ rolloverSprintId: rolloverId ? parseInt(rolloverId) : null }),
+    });
+    if (result) {
+      toast.success(
+        result.rolledOver > 0
+          ? `${sprint.name} closed, ${result.rolledOver} unfinished task${result.rolledOver !== 1 ? "s" : ""} rolled over`
+          : `${sprint.name} closed`
+      );
+      setClosingId(null);
+      setRolloverId("");
+    }
+  };
+
+  const handleDelete = async (sprint: Sprint) => {
+    if (!window.confirm(`Delete ${sprint.name}? Its tasks return to the backlog.`)) return;
+    await send(`/api/sprints/${sprint.id}`, { method: "DELETE" });
+  };
+
+  if (!open) {
+    return (
+      <Button type="button" variant="outline" onClick={openPlanner} className="flex items-center gap-2">
+        <CalendarRange className="w-4 h-4 text-blue-500" />
+        Sprints
+        {activeSprint && <span className="text-xs text-muted-foreground">· {activeSprint.name}</span>}
+      </Button>
+    );
+  }
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        className="fixed inset-0 z-50 flex items-center justify-center p-4"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+      >
+        <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={() => setOpen(false)} />
+
+        <motion.div
+          className="relative bg-card border border-border rounded-2xl shadow-2xl w-full max-w-2xl max-h-[85vh] overflow-auto"
+          initial={{ scale: 0.9, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          transition={{ type: "spring", damping: 25 }}
+        >
+          <div className="h-1.5 bg-gradient-to-r from-blue-500 via-sky-500 to-cyan-500" />
+
+          <div className="p-6">
+            <div className="flex items-center justify-between mb-5">
+              <div>
+                <div className="flex items-center gap-2 mb-1">
+                  <CalendarRange className="w-5 h-5 text-blue-500" />
+                  <h2 className="text-lg font-bold text-foreground">Sprints</h2>
+                </div>
+                <p className="text-xs text-muted-foreground">One sprint runs at a time. Closing it moves unfinished tasks on.</p>
+              </div>
+              <button type="button" onClick={() => setOpen(false)} className="p-1.5 rounded-lg hover:bg-muted text-muted-foreground">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="border border-border rounded-xl p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Sprint name"
+                  className="flex-1 px-3 py-1.5 text-sm border border-border rounded-lg bg-input text-foreground"
+                />
+                <input
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  className="px-2 py-1.5 text-sm border border-border rounded-lg bg-input text-foreground"
+                />
+                <input
+                  type="date"
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  className="px-2 py-1.5 text-sm border border-border rounded-lg bg-input text-foreground"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  value={goal}
+                  onChange={(e) => setGoal(e.target.value)}
+                  placeholder="Sprint goal (optional)"
+                  className="flex-1 px-3 py-1.5 text-sm border border-border rounded-lg bg-input text-foreground"
+                />
+                <Button type="button" size="sm" onClick={handleCreate} disabled={busy || !name.trim() || !startDate || !endDate}>
+                  <Plus className="w-4 h-4 mr-1" />
+                  Plan sprint
+                </Button>
+              </div>
+            </div>
+
+            <div className="mt-4 space-y-2">
+              {sprints.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-6">No sprints yet</p>
+              )}
+              {sprints.map((sprint) => {
+                const progress = sprint.taskCount > 0 ? Math.round((sprint.doneCount / sprint.taskCount) * 100) : 0;
+                return (
+                  <div key={sprint.id} className="border border-border rounded-xl p-3">
+                    <div className="flex items-center gap-2">
+                      <span className={`px-2 py-0.5 text-[10px] uppercase tracking-wider font-semibold rounded-full ${STATE_STYLES[sprint.state]}`}>
+                        {sprint.state}
+                      </span>
+                      <span className="font-medium text-sm text-foreground">{sprint.name}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {formatDate(sprint.startDate)} – {formatDate(sprint.endDate)}
+                      </span>
+                      <span className="ml-auto text-xs text-muted-foreground">
+                        {sprint.doneCount}/{sprint.taskCount} done
+                        {sprint.rolledOverCount > 0 && ` · ${sprint.rolledOverCount} rolled over`}
+                      </span>
+                      {sprint.state === "planned" && (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => handleStart(sprint)}
+                            disabled={busy || !!activeSprint}
+                            className="p-1 rounded hover:bg-muted text-blue-500 disabled:opacity-40"
+                            title={activeSprint ? `Close ${activeSprint.name} first` : "Start sprint"}
+                          >
+                            <Play className="w-4 h-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleDelete(sprint)}
+                            disabled={busy}
+                            className="p-1 rounded hover:bg-red-50 text-red-500 disabled:opacity-40"
+                            title="Delete sprint"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </>
+                      )}
+                      {sprint.state === "active" && (
+                        <button
+                          type="button"
+                          onClick={() => setClosingId(closingId === sprint.id ? null : sprint.id)}
+                          className="p-1 rounded hover:bg-muted text-muted-foreground"
+                          title="Close sprint"
+                        >
+                          <Square className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+
+                    {sprint.goal && <p className="mt-1 text-xs text-muted-foreground">{sprint.goal}</p>}
+
+                    {sprint.state !== "planned" && (
+                      <div className="mt-2 h-1.5 rounded-full bg-secondary overflow-hidden">
+                        <div className="h-full bg-blue-500" style={{ width: `${progress}%` }} />
+                      </div>
+                    )}
+
+                    {closingId === sprint.id && (
+                      <div className="mt-3 flex items-center gap-2 text-sm">
+                        <span className="text-foreground">Move unfinished tasks to</span>
+                        <select
+                          value={rolloverId}
+                          onChange={(e) => setRolloverId(e.target.value)}
+                          className="px-2 py-1 text-sm border border-border rounded-lg bg-input text-foreground"
+                        >
+                          <option value="">Backlog</option>
+                          {plannedSprints.map((s) => (
+                            <option key={s.id} value={s.id}>{s.name}</option>
+                          ))}
+                        </select>
+                        <Button type="button" size="sm" onClick={() => handleClose(sprint)} disabled={busy}>
+                          Close sprint
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
@@ -1,7 +1,10 @@
-import { Edit2, Trash2, Calendar, History, AlertTriangle, SmilePlus } from "lucide-react";
+import { Edit2, Trash2, Calendar, History, AlertTriangle, SmilePlus, CornerDownRight, ListChecks, Repeat } from "lucide-react";
 import { motion } from "framer-motion";
 import { useState } from "react";
 import { api } from "@/lib/api";
+import { DEFAULT_WORKFLOW, findStatus, isDoneStatus, type WorkflowStatus } from "@/lib/workflow";
+import { describeRecurrence, parseRecurrence, type RecurrenceRule } from "@/lib/recurrence";
+import { formatPeople, type TaskPerson } from "@/lib/taskPeople";
 
 export interface TaskLabel {
   id: number;
@@ -16,33 +19,56 @@ export interface TaskReactionGroup {
   userIds: number[];
 }
 
+// Roll-up of a task's subtasks and checklist items, computed by the server
+export interface TaskProgress {
+  subtasks: { done: number; total: number };
+  checklist: { done: number; total: number };
+}
+
 export interface Task {
   id: number;
   title: string;
   description?: string;
-  assignedUser: string;
+  assignees: TaskPerson[];
+  watchers?: TaskPerson[];
   dueDate?: string;
-  status: "todo" | "inprogress" | "done";
+  status: string;
   priority: "low" | "medium" | "high";
   projectId?: number | null;
   position?: number;
   labels?: TaskLabel[];
   reactions?: TaskReactionGroup[];
   coverColor?: string | null;
+  sprintId?: number | null;
+  parentTaskId?: number | null;
+  progress?: TaskProgress;
+  recurrence?: string | null; // JSON RecurrenceRule as stored by the server
   createdAt?: string;
+  workflow?: WorkflowStatus[]; // The project's statuses; only sent where tasks span projects (/api/tasks/my)
 }
 
+// What the task drawer saves; people are sent as user ids, recurrence as a rule and only when it changed
+export type TaskDraft = Omit<Task, "id" | "recurrence" | "assignees" | "watchers"> & {
+  assigneeIds: number[];
+  watcherIds?: number[];
+  recurrence?: RecurrenceRule | null;
+};
+
 interface TaskCardProps {
   task: Task;
   onOpen?: (task: Task) => void;
   onEdit: (task: Task) => void;
   onDelete: (taskId: number) => void;
   onHistory: (task: Task) => void;
+  statuses?: WorkflowStatus[];
+  // Multi-select: return true when the click selected the card instead of opening it
+  selected?: boolean;
+  onSelect?: (task: Task, e: React.MouseEvent) => boolean;
 }
 
 const REACTION_EMOJIS = ["👍", "🔥", "🎉", "❤️", "👀", "🚀"];
 
-export default function TaskCard({ task, onOpen, onEdit, onDelete, onHistory }: TaskCardProps) {
+export default function TaskCard({ task, onOpen, onEdit, onDelete, onHistory, statuses = DEFAULT_WORKFLOW, selected, onSelect }: TaskCardProps) {
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
   const [localReactions, setLocalReactions] = useState(task.reactions || []);
 
@@ -75,7 +101,7 @@ export default function TaskCard({ task, onOpen, onEdit, onDelete, onHistory }:
   };
 
   const isOverdue = (() => {
-    if (task.status === "done" || !task.dueDate) return false;
+    if (isDoneStatus(statuses, task.status) || !task.dueDate) return false;
     const due = new Date(task.dueDate);
     if (Number.isNaN(due.getTime())) return false;
     const today = new Date();
@@ -84,31 +110,11 @@ export default function TaskCard({ task, onOpen, onEdit, onDelete, onHistory }:
     return due < today;
   })();
 
-  const getStatusBadgeColor = (status: string) => {
-    switch (status) {
-      case "todo":
-        return "bg-muted text-muted-foreground";
-      case "inprogress":
-        return "bg-primary/10 text-primary";
-      case "done":
-        return "bg-green-100 text-green-700";
-      default:
-        return "bg-secondary text-secondary-foreground";
-    }
-  };
+  const status = findStatus(statuses, task.status);
+  const recurrence = parseRecurrence(task.recurrence);
 
-  const getStatusLabel = (status: string) => {
-    switch (status) {
-      case "todo":
-        return "To Do";
-      case "inprogress":
-        return "In Progress";
-      case "done":
-        return "Done";
-      default:
-        return status;
-    }
-  };
+  const progressTotal = (task.progress?.subtasks.total ?? 0) + (task.progress?.checklist.total ?? 0);
+  const progressDone = (task.progress?.subtasks.done ?? 0) + (task.progress?.checklist.done ?? 0);
 
   const getPriorityBadgeColor = (priority: string) => {
     switch (priority) {
@@ -129,12 +135,15 @@ export default function TaskCard({ task, onOpen, onEdit, onDelete, onHistory }:
 
   return (
     <motion.div 
-      className={`group relative bg-card/80 backdrop-blur-sm border rounded-xl p-4 shadow-sm hover:shadow-xl transition-all duration-300 select-none overflow-hidden ${isOverdue ? "border-red-400 bg-red-50/30 dark:bg-red-950/10" : "border-border"}`}
+      className={`group relative bg-card/80 backdrop-blur-sm border rounded-xl p-4 shadow-sm hover:shadow-xl transition-all duration-300 select-none overflow-hidden ${isOverdue ? "border-red-400 bg-red-50/30 dark:bg-red-950/10" : "border-border"} ${selected ? "ring-2 ring-primary" : ""}`}
       style={{ userSelect: 'none', WebkitUserSelect: 'none' }}
       initial={{ opacity: 0, y: 20 }}
       animate={{ opacity: 1, y: 0 }}
       whileHover={{ y: -4, transition: { duration: 0.2 } }}
-      onClick={() => onOpen?.(task)}
+      onClick={(e) => {
+        if (onSelect?.(task, e)) return;
+        onOpen?.(task);
+      }}
     >
       {/* Cover color strip */}
       {task.coverColor && (
@@ -169,20 +178,52 @@ export default function TaskCard({ task, onOpen, onEdit, onDelete, onHistory }:
         )}
 
         {/* Title */}
+        {task.parentTaskId && (
+          <p className="flex items-center gap-1 text-[10px] uppercase tracking-wider text-muted-foreground mb-1">
+            <CornerDownRight className="w-3 h-3" />
+            Subtask
+          </p>
+        )}
         <h3 className="font-semibold text-foreground mb-3 line-clamp-2 group-hover:text-primary transition-colors">
           {task.title}
         </h3>
 
+        {/* Subtask and checklist progress */}
+        {progressTotal > 0 && (
+          <div className="mb-3">
+            <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
+              <span className="flex items-center gap-1">
+                <ListChecks className="w-3.5 h-3.5" />
+                {task.progress!.subtasks.total > 0 && `${task.progress!.subtasks.done}/${task.progress!.subtasks.total} subtasks`}
+                {task.progress!.subtasks.total > 0 && task.progress!.checklist.total > 0 && " · "}
+                {task.progress!.checklist.total > 0 && `${task.progress!.checklist.done}/${task.progress!.checklist.total} items`}
+              </span>
+              <span>{Math.round((progressDone / progressTotal) * 100)}%</span>
+            </div>
+            <div className="h-1.5 rounded-full bg-secondary overflow-hidden">
+              <div
+                className="h-full rounded-full bg-primary transition-all"
+                style={{ width: `${(progressDone / progressTotal) * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+
         {/* Assigned User */}
         <div className="mb-3">
           <p className="text-xs text-muted-foreground mb-1">Assigned to</p>
-          <p className="text-sm font-medium text-foreground">{task.assignedUser}</p>
+          <p className="text-sm font-medium text-foreground truncate">{formatPeople(task.assignees)}</p>
         </div>
 
         {/* Due Date */}
         <div className="mb-3 flex items-center gap-2">
           <Calendar className={`w-4 h-4 transition-colors ${isOverdue ? "text-red-500" : "text-muted-foreground group-hover:text-primary"}`} />
           <span className={`text-xs ${isOverdue ? "text-red-600 dark:text-red-400 font-semibold" : "text-muted-foreground"}`}>{task.dueDate || "—"}</span>
+          {recurrence && (
+            <span title={describeRecurrence(recurrence)}>
+              <Repeat className="w-3.5 h-3.5 text-muted-foreground" />
+            </span>
+          )}
         </div>
 
         {/* Priority Badge */}
@@ -199,11 +240,10 @@ export default function TaskCard({ task, onOpen, onEdit, onDelete, onHistory }:
         {/* Status Badge and Actions */}
         <div className="flex items-center justify-between">
           <span
-            className={`text-xs font-medium px-3 py-1.5 rounded-full shadow-sm ${getStatusBadgeColor(
-              task.status
-            )}`}
+            className={`text-xs font-medium px-3 py-1.5 rounded-full shadow-sm ${status ? "" : "bg-secondary text-secondary-foreground"}`}
+            style={status ? { backgroundColor: `${status.color}22`, color: status.color } : undefined}
           >
-            {getStatusLabel(task.status)}
+            {status?.name ?? task.status}
           </span>
           <div className="flex gap-1">
             <motion.button
@@ -3,10 +3,9 @@ import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from "
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { X, Calendar, User, Flag, CheckCircle, Pencil, Trash2, Tag, Paperclip, Download, Upload, Plus } from "lucide-react";
+import { X, Calendar, User, Flag, CheckCircle, Pencil, Trash2, Tag, Paperclip, Download, Upload, Plus, ListChecks, ArrowUp, ArrowDown, CornerDownRight, Repeat, Eye, EyeOff } from "lucide-react";
 import { api } from "@/lib/api";
 import { getRealtimeSocket } from "@/lib/realtimeSocket";
-import { addXP, XP_REWARDS } from "@/lib/xp";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
 import {
@@ -16,19 +15,37 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Task, TaskLabel } from "./TaskCard";
+import { Task, TaskDraft, TaskLabel } from "./TaskCard";
+import { canTransition, findStatus, getInitialStatus, getStatusName, isDoneStatus, type WorkflowStatus } from "@/lib/workflow";
+import { useProjectWorkflow } from "@/hooks/useProjectWorkflow";
+import { useProjectMembers } from "@/hooks/useProjectMembers";
+import { useAuth } from "@/contexts/AuthContext";
+import { formatPeople, type TaskPerson } from "@/lib/taskPeople";
+import PeoplePicker from "./PeoplePicker";
+import { getOpenSprints, type Sprint } from "@/lib/sprints";
+import { WEEKDAYS, describeRecurrence, parseRecurrence, type RecurrenceFreq, type RecurrenceRule } from "@/lib/recurrence";
 import PomodoroTimer from "./PomodoroTimer";
 
 interface TaskDrawerProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSave: (task: Omit<Task, "id">) => void;
+  onSave: (task: TaskDraft) => void;
   task?: Task;
   readOnly?: boolean;
+  // The project's workflow; fetched from the task's project when omitted
+  statuses?: WorkflowStatus[];
+  // The project's sprints; the sprint picker is only shown when provided
+  sprints?: Sprint[];
+  // Project a new task is created in, whose members can be assigned
+  projectId?: number | null;
 }
 
-export default function TaskDrawer({ open, onOpenChange, onSave, task, readOnly = false }: TaskDrawerProps) {
+export default function TaskDrawer({ open, onOpenChange, onSave, task, readOnly = false, statuses: statusesProp, sprints, projectId }: TaskDrawerProps) {
   const isEdit = !!task;
+  const fetchedStatuses = useProjectWorkflow(statusesProp ? null : task?.projectId);
+  const statuses = statusesProp ?? fetchedStatuses;
+  const members = useProjectMembers(task ? task.projectId : projectId);
+  const { user: currentUser } = useAuth();
 
   type DependencyTask = {
     id: number;
@@ -181,31 +198,7 @@ export default function TaskDrawer({ open, onOpenChange, onSave, task, readOnly
     setMentionRange(null);
   };
 
-  const getStatusStyles = (value: string) => {
-    switch (value) {
-      case "done":
-        return "bg-blue-100 text-blue-700 border-blue-200";
-      case "inprogress":
-        return "bg-yellow-100 text-yellow-700 border-yellow-200";
-      case "todo":
-        return "bg-gray-100 text-gray-700 border-gray-200";
-      default:
-        return "bg-gray-100 text-gray-700 border-gray-200";
-    }
-  };
-
-  const getStatusLabel = (value: string) => {
-    switch (value) {
-      case "done":
-        return "Done";
-      case "inprogress":
-        return "In Progress";
-      case "todo":
-        return "To Do";
-      default:
-        return value;
-    }
-  };
+  const getStatusLabel = (value: string) => getStatusName(statuses, value);
 
   const formatDate = (value: string) => {
     const date = new Date(value);
@@ -220,10 +213,13 @@ export default function TaskDrawer({ open, onOpenChange, onSave, task, readOnly
 
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
-  const [assignedUser, setAssignedUser] = useState("");
+  const [assignees, setAssignees] = useState<TaskPerson[]>([]);
+  const [watchers, setWatchers] = useState<TaskPerson[]>([]);
   const [dueDate, setDueDate] = useState("");
-  const [status, setStatus] = useState<"todo" | "inprogress" | "done">("todo");
+  const [status, setStatus] = useState<string>(() => getInitialStatus(statuses));
   const [priority, setPriority] = useState<"low" | "medium" | "high">("medium");
+  const [sprintId, setSprintId] = useState<number | null>(null);
+  const [repeat, setRepeat] = useState<RecurrenceRule | null>(null);
 
   const [blockedBy, setBlockedBy] = useState<BlockedByItem[]>([]);
   const [blocks, setBlocks] = useState<BlocksItem[]>([]);
@@ -261,6 +257,30 @@ export default function TaskDrawer({ open, onOpenChange, onSave, task, readOnly
   const [editingCommentId, setEditingCommentId] = useState<number | null>(null);
   const [editingBody, setEditingBody] = useState("");
 
+  // Subtasks and checklist state
+  type SubtaskItem = {
+    id: number;
+    title: string;
+    status: string;
+    priority: string;
+    assignees: TaskPerson[];
+    dueDate?: string | null;
+    projectId: number | null;
+    parentTaskId?: number | null;
+  };
+  type ChecklistItem = {
+    id: number;
+    taskId: number;
+    text: string;
+    done: boolean;
+    position: number;
+  };
+  const [subtasks, setSubtasks] = useState<SubtaskItem[]>([]);
+  const [newSubtaskTitle, setNewSubtaskTitle] = useState("");
+  const [checklist, setChecklist] = useState<ChecklistItem[]>([]);
+  const [newChecklistText, setNewChecklistText] = useState("");
+  const [breakdownError, setBreakdownError] = useState<string | null>(null);
+
   // Labels state
   const [taskLabels, setTaskLabels] = useState<TaskLabel[]>([]);
   const [projectLabels, setProjectLabels] = useState<TaskLabel[]>([]);
@@ -280,24 +300,27 @@ export default function TaskDrawer({ open, onOpenChange, onSave, task, readOnly
   const [uploadingFile, setUploadingFile] = useState(false);
 
   const canSave = useMemo(() => {
-    return title.trim().length > 0 && assignedUser.trim().length > 0 && dueDate.trim().length > 0;
-  }, [title, assignedUser, dueDate]);
+    return title.trim().length > 0 && dueDate.trim().length > 0;
+  }, [title, dueDate]);
 
   useEffect(() => {
     if (task) {
       setTitle(task.title);
       setDescription(task.description || "");
-      setAssignedUser(task.assignedUser);
+      setAssignees(task.assignees ?? []);
+      setWatchers(task.watchers ?? []);
       setDueDate(task.dueDate || "");
       setStatus(task.status);
       setPriority(task.priority);
+      setSprintId(task.sprintId ?? null);
+      setRepeat(parseRecurrence(task.recurrence));
       return;
     }
   }, [task]);
 
   const isBlocked = useMemo(() => {
-    return blockedBy.some((d) => String(d.blockingTask?.status) !== "done");
-  }, [blockedBy]);
+    return blockedBy.some((d) => !isDoneStatus(statuses, String(d.blockingTask?.status)));
+  }, [blockedBy, statuses]);
 
   useEffect(() => {
     if (!open) return;
@@ -389,15 +412,48 @@ export default function TaskDrawer({ open, onOpenChange, onSave, task, readOnly
       setComments((prev) => prev.filter((c) => c.id !== commentId));
     };
 
+    const onChecklistUpdated = ({ taskId, items }: { taskId: number; items: ChecklistItem[] }) => {
+      if (taskId === task.id) setChecklist(items);
+    };
+
+    // Subtask changes arrive through the project room the board has joined
+    const onTaskUpdated = ({ task: updated }: { task: SubtaskItem }) => {
+      setSubtasks((prev) => {
+        const idx = prev.findIndex((t) => t.id === updated.id);
+        if (updated.parentTaskId !== task.id) return idx === -1 ? prev : prev.filter((t) => t.id !== updated.id);
+        if (idx === -1) return [...prev, updated];
+        const next = [...prev];
+        next[idx] = { ...prev[idx], ...updated };
+        return next;
+      });
+    };
+
+    const onTaskCreated = ({ task: created }: { task: SubtaskItem }) => {
+      if (created.parentTaskId !== task.id) return;
+      setSubtasks((prev) => (prev.some((t) => t.id === created.id) ? prev : [...prev, created]));
+    };
+
+    const onTaskDeleted = ({ taskId }: { taskId: number }) => {
+      setSubtasks((prev) => prev.filter((t) => t.id !== taskId));
+    };
+
     socket.on("comment:created", onCreated);
     socket.on("comment:updated", onUpdated);
     socket.on("comment:deleted", onDeleted);
+    socket.on("checklist:updated", onChecklistUpdated);
+    socket.on("task:created", onTaskCreated);
+    socket.on("task:updated", onTaskUpdated);
+    socket.on("task:deleted", onTaskDeleted);
 
     return () => {
       socket.emit("leave-task", { taskId: task.id });
       socket.off("comment:created", onCreated);
       socket.off("comment:updated", onUpdated);
       socket.off("comment:deleted", onDeleted);
+      socket.off("checklist:updated", onChecklistUpdated);
+      socket.off("task:created", onTaskCreated);
+      socket.off("task:updated", onTaskUpdated);
+      socket.off("task:deleted", onTaskDeleted);
     };
   }, [open, task?.id]);
 
@@ -426,10 +482,14 @@ export default function TaskDrawer({ open, onOpenChange, onSave, task, readOnly
 
     setTitle("");
     setDescription("");
-    setAssignedUser("");
+    // New tasks start out assigned to whoever creates them
+    setAssignees(currentUser ? [currentUser] : []);
+    setWatchers([]);
     setDueDate("");
-    setStatus("todo");
+    setStatus(getInitialStatus(statuses));
     setPriority("medium");
+    setSprintId(null);
+    setRepeat(null);
   }, [open, task]);
 
   // Fetch labels for this task and project
@@ -454,6 +514,26 @@ export default function TaskDrawer({ open, onOpenChange, onSave, task, readOnly
     fetchAttachments();
   }, [open, task?.id]);
 
+  // Fetch subtasks and checklist
+  useEffect(() => {
+    setBreakdownError(null);
+    setNewSubtaskTitle("");
+    setNewChecklistText("");
+    if (!open || !task?.id) { setSubtasks([]); setChecklist([]); return; }
+
+    const fetchBreakdown = async () => {
+      try {
+        const [subtasksRes, checklistRes] = await Promise.all([
+          api(`/api/tasks/${task.id}/subtasks`),
+          api(`/api/tasks/${task.id}/checklist`),
+        ]);
+        if (subtasksRes.ok) setSubtasks(await subtasksRes.json());
+        if (checklistRes.ok) setChecklist(await checklistRes.json());
+      } catch { /* ignore */ }
+    };
+    fetchBreakdown();
+  }, [open, task?.id]);
+
   useEffect(() => {
     if (!open || !task?.projectId) { setProjectLabels([]); return; }
     const fetchProjectLabels = async () => {
@@ -489,6 +569,108 @@ export default function TaskDrawer({ open, onOpenChange, onSave, task, readOnly
     } catch { /* ignore */ }
   };
 
+  const handleAddSubtask = async () => {
+    if (!task?.id || !task.projectId || !newSubtaskTitle.trim()) return;
+    try {
+      setBreakdownError(null);
+      const res = await api("/api/tasks", {
+        method: "POST",
+        body: JSON.stringify({
+          title: newSubtaskTitle.trim(),
+          assigneeIds: (task.assignees ?? []).map((p) => p.id),
+          dueDate: task.dueDate,
+          priority: task.priority,
+          projectId: task.projectId,
+          parentTaskId: task.id,
+        }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setBreakdownError(data?.error || "Failed to add subtask");
+        return;
+      }
+      setSubtasks((prev) => (prev.some((t) => t.id === data.id) ? prev : [...prev, data]));
+      setNewSubtaskTitle("");
+    } catch {
+      setBreakdownError("Failed to add subtask");
+    }
+  };
+
+  const handleToggleSubtask = async (subtask: SubtaskItem) => {
+    const next = isDoneStatus(statuses, subtask.status)
+      ? getInitialStatus(statuses)
+      : statuses.find((s) => s.isDone)?.key;
+    if (!next) return;
+    try {
+      setBreakdownError(null);
+      const res = await api(`/api/tasks/${subtask.id}`, {
+        method: "PUT",
+        body: JSON.stringify({ status: next }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setBreakdownError(data?.error || "Failed to update subtask");
+        return;
+      }
+      setSubtasks((prev) => prev.map((t) => (t.id === subtask.id ? { ...t, status: data.status } : t)));
+    } catch {
+      setBreakdownError("Failed to update subtask");
+    }
+  };
+
+  const handleAddChecklistItem = async () => {
+    if (!task?.id || !newChecklistText.trim()) return;
+    try {
+      const res = await api(`/api/tasks/${task.id}/checklist`, {
+        method: "POST",
+        body: JSON.stringify({ text: newChecklistText.trim() }),
+      });
+      if (res.ok) {
+        const item = await res.json();
+        setChecklist((prev) => (prev.some((i) => i.id === item.id) ? prev : [...prev, item]));
+        setNewChecklistText("");
+      }
+    } catch { /* ignore */ }
+  };
+
+  const handleToggleChecklistItem = async (item: ChecklistItem) => {
+    if (!task?.id) return;
+    setChecklist((prev) => prev.map((i) => (i.id === item.id ? { ...i, done: !item.done } : i)));
+    try {
+      const res = await api(`/api/tasks/${task.id}/checklist/${item.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ done: !item.done }),
+      });
+      if (!res.ok) setChecklist((prev) => prev.map((i) => (i.id === item.id ? item : i)));
+    } catch {
+      setChecklist((prev) => prev.map((i) => (i.id === item.id ? item : i)));
+    }
+  };
+
+  const handleDeleteChecklistItem = async (itemId: number) => {
+    if (!task?.id) return;
+    try {
+      const res = await api(`/api/tasks/${task.id}/checklist/${itemId}`, { method: "DELETE" });
+      if (res.ok) setChecklist((prev) => prev.filter((i) => i.id !== itemId));
+    } catch { /* ignore */ }
+  };
+
+  const handleMoveChecklistItem = async (index: number, delta: number) => {
+    if (!task?.id) return;
+    const target = index + delta;
+    if (target < 0 || target >= checklist.length) return;
+    const next = [...checklist];
+    [next[index], next[target]] = [next[target], next[index]];
+    setChecklist(next);
+    try {
+      const res = await api(`/api/tasks/${task.id}/checklist/order`, {
+        method: "PUT",
+        body: JSON.stringify({ itemIds: next.map((i) => i.id) }),
+      });
+      if (res.ok) setChecklist(await res.json());
+    } catch { /* ignore */ }
+  };
+
   const handleCreateLabel = async () => {
     if (!task?.projectId || !newLabelName.trim()) return;
     try {
@@ -535,6 +717,19 @@ export default function TaskDrawer({ open, onOpenChange, onSave, task, readOnly
     }
   };
 
+  const handleDownloadAttachment = async (attachmentId: number, filename: string) => {
+    try {
+      const res = await api(`/api/attachments/${attachmentId}/download`);
+      if (!res.ok) return;
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch { /* ignore */ }
+  };
+
   const handleDeleteAttachment = async (attachmentId: number) => {
     try {
       await api(`/api/attachments/${attachmentId}`, { method: "DELETE" });
@@ -548,11 +743,63 @@ export default function TaskDrawer({ open, onOpenChange, onSave, task, readOnly
     return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
   };
 
+  // Only the parts of a rule the user edits; the server anchors the series at the due date
+  const toRecurrenceInput = (rule: RecurrenceRule | null) =>
+    rule
+      ? {
+          freq: rule.freq,
+          interval: rule.interval,
+          byWeekday: rule.freq === "weekly" ? rule.byWeekday : undefined,
+          byMonthDay: rule.freq === "monthly" ? rule.byMonthDay : undefined,
+          until: rule.until || null,
+          count: rule.count || null,
+        }
+      : null;
+
+  const setRepeatFreq = (value: string) => {
+    if (value === "none") {
+      setRepeat(null);
+      return;
+    }
+    const due = dueDate ? new Date(`${dueDate}T00:00:00`) : new Date();
+    setRepeat((prev) => ({
+      freq: value as RecurrenceFreq,
+      interval: prev?.interval ?? 1,
+      byWeekday: prev?.byWeekday?.length ? prev.byWeekday : [due.getDay()],
+      byMonthDay: prev?.byMonthDay ?? due.getDate(),
+      until: prev?.until ?? null,
+      count: prev?.count ?? null,
+    }));
+  };
+
+  const toggleRepeatWeekday = (day: number) =>
+    setRepeat((prev) => {
+      if (!prev) return prev;
+      const days = prev.byWeekday ?? [];
+      const next = days.includes(day) ? days.filter((d) => d !== day) : [...days, day].sort((a, b) => a - b);
+      return next.length > 0 ? { ...prev, byWeekday: next } : prev;
+    });
+
+  const isWatching = !!currentUser && watchers.some((p) => p.id === currentUser.id);
+
+  // Viewers can watch tasks they can't edit, so this goes through its own endpoint
+  const toggleWatching = async () => {
+    if (!task?.id) return;
+    try {
+      const res = await api(`/api/tasks/${task.id}/watch`, { method: isWatching ? "DELETE" : "POST" });
+      if (!res.ok) return;
+      const updated = (await res.json()) as Task;
+      setWatchers(updated.watchers ?? []);
+    } catch {
+      // ignore
+    }
+  };
+
   const handleSave = () => {
     if (readOnly) return;
     if (!canSave) return;
 
-    if (status === "done" && isBlocked) {
+    if (isDoneStatus(statuses, status) && isBlocked) {
       setDependencyError("This task is blocked by incomplete dependencies. Complete them before marking as Done.");
       return;
     }
@@ -560,10 +807,17 @@ export default function TaskDrawer({ open, onOpenChange, onSave, task, readOnly
     onSave({
       title: title.trim(),
       description: description.trim() ? description.trim() : undefined,
-      assignedUser: assignedUser.trim(),
+      assigneeIds: assignees.map((p) => p.id),
+      watcherIds: watchers.map((p) => p.id),
       dueDate: dueDate.trim(),
       status,
       priority,
+      ...(sprints ? { sprintId } : {}),
+      // A changed due date re-anchors the series, so resend the rule then too
+      ...(JSON.stringify(toRecurrenceInput(repeat)) !== JSON.stringify(toRecurrenceInput(parseRecurrence(task?.recurrence))) ||
+      (repeat && dueDate !== (task?.dueDate ?? ""))
+        ? { recurrence: toRecurrenceInput(repeat) }
+        : {}),
     });
 
     onOpenChange(false);
@@ -641,7 +895,6 @@ export default function TaskDrawer({ open, onOpenChange, onSave, task, readOnly
       const created = (await response.json()) as CommentItem;
       setComments((prev) => [...prev, created]);
       setCommentBody("");
-      addXP("COMMENT_ADDED", XP_REWARDS.COMMENT_ADDED);
     } catch (e) {
       setCommentError(e instanceof Error ? e.message : "Failed to create comment");
     }
@@ -847,8 +1100,24 @@ export default function TaskDrawer({ open, onOpenChange, onSave, task, readOnly
                 </div>
                 <div>
                   <p className="text-xs text-muted-foreground">Assigned To</p>
-                  <p className="text-sm font-medium text-foreground">{assignedUser || "—"}</p>
+                  <p className="text-sm font-medium text-foreground">{formatPeople(assignees, "—")}</p>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-3">
+                <div className="w-8 h-8 bg-sky-100 rounded-lg flex items-center justify-center">
+                  <Eye className="w-4 h-4 text-sky-600" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs text-muted-foreground">Watchers</p>
+                  <p className="text-sm font-medium text-foreground truncate">{formatPeople(watchers, "—")}</p>
                 </div>
+                {task?.id && (
+                  <Button type="button" variant="outline" size="sm" className="gap-1.5" onClick={toggleWatching}>
+                    {isWatching ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+                    {isWatching ? "Unwatch" : "Watch"}
+                  </Button>
+                )}
               </div>
 
               <div className="flex items-center gap-4">
@@ -858,7 +1127,14 @@ export default function TaskDrawer({ open, onOpenChange, onSave, task, readOnly
                   </div>
                   <div>
                     <p className="text-xs text-muted-foreground">Status</p>
-                    <span className={`inline-block px-2 py-0.5 text-xs font-medium rounded border ${getStatusStyles(status)}`}>
+                    <span
+                      className="inline-block px-2 py-0.5 text-xs font-medium rounded border"
+                      style={{
+                        backgroundColor: `${findStatus(statuses, status)?.color ?? "#6b7280"}22`,
+                        borderColor: `${findStatus(statuses, status)?.color ?? "#6b7280"}55`,
+                        color: findStatus(statuses, status)?.color ?? "#6b7280",
+                      }}
+                    >
                       {getStatusLabel(status)}
                     </span>
                   </div>
@@ -927,11 +1203,12 @@ export default function TaskDrawer({ open, onOpenChange, onSave, task, readOnly
 
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
               <div className="space-y-2">
-                <label className="text-sm font-medium text-foreground">Assignee</label>
-                <Input
-                  value={assignedUser}
-                  onChange={(e) => setAssignedUser(e.target.value)}
-                  placeholder="Type a name (e.g. your name)"
+                <label className="text-sm font-medium text-foreground">Assignees</label>
+                <PeoplePicker
+                  people={members}
+                  selected={assignees}
+                  onChange={setAssignees}
+                  placeholder="Unassigned"
                   disabled={readOnly}
                 />
               </div>
@@ -942,14 +1219,25 @@ export default function TaskDrawer({ open, onOpenChange, onSave, task, readOnly
               </div>
             </div>
 
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-foreground">Watchers</label>
+              <PeoplePicker
+                people={members}
+                selected={watchers}
+                onChange={setWatchers}
+                placeholder="Nobody is watching"
+                disabled={readOnly}
+              />
+              <p className="text-xs text-muted-foreground">Watchers are notified about comments and status changes.</p>
+            </div>
+
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
               <div className="space-y-2">
                 <label className="text-sm font-medium text-foreground">Status</label>
                 <Select
                   value={status}
-                  onValueChange={(v) => {
-                    const next = v as any;
-                    if (next === "done" && isBlocked) {
+                  onValueChange={(next) => {
+                    if (isDoneStatus(statuses, next) && isBlocked) {
                       setDependencyError("This task is blocked by incomplete dependencies. Complete them before marking as Done.");
                       return;
                     }
@@ -961,11 +1249,18 @@ export default function TaskDrawer({ open, onOpenChange, onSave, task, readOnly
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="todo">To Do</SelectItem>
-                    <SelectItem value="inprogress">In Progress</SelectItem>
-                    <SelectItem value="done" disabled={isBlocked}>
-                      Done
-                    </SelectItem>
+                    {statuses.map((s) => (
+                      <SelectItem
+                        key={s.key}
+                        value={s.key}
+                        disabled={
+                          (s.isDone && isBlocked) ||
+                          (isEdit && !canTransition(statuses, task!.status, s.key))
+                        }
+                      >
+                        {s.name}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -985,6 +1280,156 @@ export default function TaskDrawer({ open, onOpenChange, onSave, task, readOnly
               </div>
             </div>
 
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Repeat className="w-4 h-4 text-muted-foreground" />
+                <label className="text-sm font-medium text-foreground">Repeat</label>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={repeat?.freq ?? "none"}
+                  onChange={(e) => setRepeatFreq(e.target.value)}
+                  disabled={readOnly}
+                  className="px-3 py-1.5 text-sm border border-border rounded-lg bg-input text-foreground"
+                >
+                  <option value="none">Does not repeat</option>
+                  <option value="daily">Daily</option>
+                  <option value="weekly">Weekly</option>
+                  <option value="monthly">Monthly</option>
+                </select>
+
+                {repeat && (
+                  <>
+                    <span className="text-sm text-muted-foreground">every</span>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={repeat.interval}
+                      onChange={(e) => setRepeat({ ...repeat, interval: Math.max(1, parseInt(e.target.value) || 1) })}
+                      disabled={readOnly}
+                      className="w-16 h-8 text-sm"
+                    />
+                    <span className="text-sm text-muted-foreground">
+                      {{ daily: "day", weekly: "week", monthly: "month" }[repeat.freq]}
+                      {repeat.interval > 1 ? "s" : ""}
+                    </span>
+                  </>
+                )}
+
+                {repeat?.freq === "monthly" && (
+                  <>
+                    <span className="text-sm text-muted-foreground">on day</span>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={31}
+                      value={repeat.byMonthDay ?? 1}
+                      onChange={(e) => setRepeat({ ...repeat, byMonthDay: Math.min(31, Math.max(1, parseInt(e.target.value) || 1)) })}
+                      disabled={readOnly}
+                      className="w-16 h-8 text-sm"
+                    />
+                  </>
+                )}
+              </div>
+
+              {repeat?.freq === "weekly" && (
+                <div className="flex gap-1">
+                  {WEEKDAYS.map((label, day) => (
+                    <button
+                      key={label}
+                      type="button"
+                      onClick={() => toggleRepeatWeekday(day)}
+                      disabled={readOnly}
+                      className={`px-2 py-1 text-xs rounded-full border transition-colors ${
+                        repeat.byWeekday?.includes(day)
+                          ? "bg-primary text-primary-foreground border-primary"
+                          : "border-border text-muted-foreground hover:bg-secondary"
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {repeat && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm text-muted-foreground">Ends</span>
+                  <select
+                    value={repeat.until ? "until" : repeat.count ? "count" : "never"}
+                    onChange={(e) =>
+                      setRepeat({
+                        ...repeat,
+                        until: e.target.value === "until" ? repeat.until || dueDate || null : null,
+                        count: e.target.value === "count" ? repeat.count || 10 : null,
+                      })
+                    }
+                    disabled={readOnly}
+                    className="px-3 py-1.5 text-sm border border-border rounded-lg bg-input text-foreground"
+                  >
+                    <option value="never">Never</option>
+                    <option value="until">On date</option>
+                    <option value="count">After</option>
+                  </select>
+                  {repeat.until !== null && repeat.until !== undefined && (
+                    <Input
+                      type="date"
+                      value={repeat.until}
+                      onChange={(e) => setRepeat({ ...repeat, until: e.target.value || null })}
+                      disabled={readOnly}
+                      className="w-40 h-8 text-sm"
+                    />
+                  )}
+                  {!!repeat.count && (
+                    <>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={repeat.count}
+                        onChange={(e) => setRepeat({ ...repeat, count: Math.max(1, parseInt(e.target.value) || 1) })}
+                        disabled={readOnly}
+                        className="w-16 h-8 text-sm"
+                      />
+                      <span className="text-sm text-muted-foreground">occurrences</span>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {repeat && (
+                <p className="text-xs text-muted-foreground">
+                  {dueDate
+                    ? `${describeRecurrence(repeat)}. The next occurrence is created when this one is done or its due date passes.`
+                    : "Set a due date to start the series."}
+                </p>
+              )}
+            </div>
+
+            {sprints && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-foreground">Sprint</label>
+                <Select
+                  value={sprintId ? String(sprintId) : "backlog"}
+                  onValueChange={(v) => setSprintId(v === "backlog" ? null : parseInt(v))}
+                  disabled={readOnly}
+                >
+                  <SelectTrigger disabled={readOnly}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="backlog">Backlog</SelectItem>
+                    {sprints
+                      .filter((s) => s.id === sprintId || getOpenSprints(sprints).includes(s))
+                      .map((s) => (
+                        <SelectItem key={s.id} value={String(s.id)} disabled={s.state === "closed"}>
+                          {s.name}{s.state === "active" ? " (active)" : s.state === "closed" ? " (closed)" : ""}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             {isEdit && task?.projectId && (
               <div className="space-y-3">
                 <div className="flex items-center justify-between">
@@ -1069,6 +1514,126 @@ export default function TaskDrawer({ open, onOpenChange, onSave, task, readOnly
               </div>
             )}
 
+            {/* Subtasks Section */}
+            {isEdit && task?.projectId && (
+              <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <CornerDownRight className="w-4 h-4 text-muted-foreground" />
+                  <label className="text-sm font-medium text-foreground">Subtasks</label>
+                  {subtasks.length > 0 && (
+                    <span className="text-xs text-muted-foreground">
+                      {subtasks.filter((t) => isDoneStatus(statuses, t.status)).length}/{subtasks.length} done
+                    </span>
+                  )}
+                </div>
+
+                {task.parentTaskId ? (
+                  <p className="text-xs text-muted-foreground">This is a subtask; subtasks can't be broken down further.</p>
+                ) : (
+                  <>
+                    {subtasks.length > 0 && (
+                      <div className="space-y-1.5">
+                        {subtasks.map((t) => (
+                          <div key={t.id} className="flex items-center gap-2 bg-secondary/30 border border-border rounded-lg px-3 py-2">
+                            <input
+                              type="checkbox"
+                              checked={isDoneStatus(statuses, t.status)}
+                              onChange={() => handleToggleSubtask(t)}
+                              disabled={readOnly}
+                              className="rounded border-border accent-primary"
+                            />
+                            <span className={`flex-1 text-sm truncate ${isDoneStatus(statuses, t.status) ? "line-through text-muted-foreground" : "text-foreground"}`}>
+                              {t.title}
+                            </span>
+                            <span className="text-xs text-muted-foreground">{getStatusLabel(t.status)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {!readOnly && (
+                      <div className="flex items-center gap-2">
+                        <Input
+                          value={newSubtaskTitle}
+                          onChange={(e) => setNewSubtaskTitle(e.target.value)}
+                          placeholder="Add a subtask"
+                          className="flex-1 h-8 text-sm"
+                          onKeyDown={(e) => { if (e.key === "Enter") { e.preventDefault(); handleAddSubtask(); } }}
+                        />
+                        <Button type="button" size="sm" onClick={handleAddSubtask} disabled={!newSubtaskTitle.trim()}>
+                          Add
+                        </Button>
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+
+            {/* Checklist Section */}
+            {isEdit && task?.id && (
+              <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <ListChecks className="w-4 h-4 text-muted-foreground" />
+                  <label className="text-sm font-medium text-foreground">Checklist</label>
+                  {checklist.length > 0 && (
+                    <span className="text-xs text-muted-foreground">
+                      {checklist.filter((i) => i.done).length}/{checklist.length}
+                    </span>
+                  )}
+                </div>
+
+                {checklist.length > 0 && (
+                  <div className="space-y-1">
+                    {checklist.map((item, index) => (
+                      <div key={item.id} className="group/item flex items-center gap-2 px-2 py-1 rounded-lg hover:bg-secondary/30">
+                        <input
+                          type="checkbox"
+                          checked={item.done}
+                          onChange={() => handleToggleChecklistItem(item)}
+                          disabled={readOnly}
+                          className="rounded border-border accent-primary"
+                        />
+                        <span className={`flex-1 text-sm ${item.done ? "line-through text-muted-foreground" : "text-foreground"}`}>
+                          {item.text}
+                        </span>
+                        {!readOnly && (
+                          <div className="flex items-center gap-0.5 opacity-0 group-hover/item:opacity-100 transition-opacity">
+                            <button type="button" onClick={() => handleMoveChecklistItem(index, -1)} className="p-1 rounded hover:bg-muted text-muted-foreground" title="Move up">
+                              <ArrowUp className="w-3.5 h-3.5" />
+                            </button>
+                            <button type="button" onClick={() => handleMoveChecklistItem(index, 1)} className="p-1 rounded hover:bg-muted text-muted-foreground" title="Move down">
+                              <ArrowDown className="w-3.5 h-3.5" />
+                            </button>
+                            <button type="button" onClick={() => handleDeleteChecklistItem(item.id)} className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-destructive" title="Remove">
+                              <X className="w-3.5 h-3.5" />
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {!readOnly && (
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={newChecklistText}
+                      onChange={(e) => setNewChecklistText(e.target.value)}
+                      placeholder="Add an item"
+                      className="flex-1 h-8 text-sm"
+                      onKeyDown={(e) => { if (e.key === "Enter") { e.preventDefault(); handleAddChecklistItem(); } }}
+                    />
+                    <Button type="button" size="sm" onClick={handleAddChecklistItem} disabled={!newChecklistText.trim()}>
+                      Add
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {breakdownError && <p className="text-sm text-red-600">{breakdownError}</p>}
+
             {/* Labels Section */}
             {isEdit && task?.projectId && (
               <div className="space-y-3">
@@ -1204,15 +1769,14 @@ export default function TaskDrawer({ open, onOpenChange, onSave, task, readOnly
                           <p className="text-xs text-muted-foreground">{formatFileSize(att.size)}</p>
                         </div>
                         <div className="flex items-center gap-1">
-                          <a
-                            href={`/api/attachments/${att.id}/download`}
-                            target="_blank"
-                            rel="noopener noreferrer"
+                          <button
+                            type="button"
+                            onClick={() => handleDownloadAttachment(att.id, att.filename)}
                             className="p-1.5 rounded hover:bg-muted text-muted-foreground hover:text-foreground"
                             title="Download"
                           >
                             <Download className="w-4 h-4" />
-                          </a>
+                          </button>
                           {!readOnly && (
                             <button
                               type="button"
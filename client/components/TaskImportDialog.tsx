@@ -0,0 +1,305 @@
+import { useState } from "react";
+import { FileUp, RotateCcw, Upload, X } from "lucide-react";
+import { motion, AnimatePresence } from "framer-motion";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import type { Task } from "@/components/TaskCard";
+import { api } from "@/lib/api";
+import {
+  IMPORT_FIELDS,
+  applyMapping,
+  guessMapping,
+  parseImportFile,
+  type ImportMapping,
+  type ImportPreview,
+  type ImportTable,
+  type TaskImportBatch,
+} from "@/lib/taskImport";
+
+interface TaskImportDialogProps {
+  projectId: number;
+  // Tasks the import added, or removed when undone
+  onChanged: (result: { tasks: Task[]; deletedIds: number[] }) => void;
+}
+
+const SOURCE_NAMES: Record<ImportTable["source"], string> = {
+  csv: "CSV",
+  trello: "Trello board",
+  jira: "Jira export",
+  json: "JSON",
+};
+
+// Rows shown in the preview table; the summary covers the whole file
+const PREVIEW_ROWS = 50;
+
+const selectClass = "w-full px-2 py-1.5 text-sm border border-border rounded-lg bg-input text-foreground";
+
+export default function TaskImportDialog({ projectId, onChanged }: TaskImportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [history, setHistory] = useState<TaskImportBatch[]>([]);
+
+  const base = `/api/projects/${projectId}/imports`;
+
+  const fetchHistory = async () => {
+    try {
+      const res = await api(base);
+      if (res.ok) setHistory(await res.json());
+    } catch { /* ignore */ }
+  };
+
+  const openDialog = () => {
+    setFileName(null);
+    setTable(null);
+    setPreview(null);
+    setOpen(true);
+    fetchHistory();
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const parsed = await parseImportFile(file);
+      if (parsed.rows.length === 0) {
+        toast.error("That file has no rows");
+        return;
+      }
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(guessMapping(parsed.columns));
+      setPreview(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? `Couldn't read the file: ${error.message}` : "Couldn't read the file");
+    }
+  };
+
+  const submit = async (dryRun: boolean) => {
+    if (!table) return;
+    setBusy(true);
+    try {
+      const res = await api(base, {
+        method: "POST",
+        body: JSON.stringify({ rows: applyMapping(table.rows, mapping), source: table.source, fileName, dryRun }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        toast.error(data?.error || "Import failed");
+        if (data?.errors) setPreview({ ...data, tasks: [] });
+        return;
+      }
+      if (dryRun) {
+        setPreview(data);
+        return;
+      }
+      onChanged({ tasks: data.tasks, deletedIds: [] });
+      toast.success(`Imported ${data.tasks.length} task${data.tasks.length !== 1 ? "s" : ""}`, {
+        action: { label: "Undo", onClick: () => undo(data.import.id) },
+      });
+      setOpen(false);
+    } catch {
+      toast.error("Import failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const undo = async (importId: number) => {
+    const res = await api(`${base}/${importId}`, { method: "DELETE" });
+    const data = await res.json().catch(() => null);
+    if (!res.ok) {
+      toast.error(data?.error || "Failed to undo import");
+      return;
+    }
+    onChanged({ tasks: [], deletedIds: data.deletedIds });
+    setHistory((prev) => prev.map((b) => (b.id === importId ? { ...b, undoneAt: new Date().toISOString() } : b)));
+    toast.success("Import undone");
+  };
+
+  if (!open) {
+    return (
+      <Button type="button" variant="outline" onClick={openDialog} className="flex items-center gap-2">
+        <FileUp className="w-4 h-4 text-sky-500" />
+        Import
+      </Button>
+    );
+  }
+
+  const errorsByRow = new Map<number, string[]>();
+  for (const error of preview?.errors ?? []) {
+    errorsByRow.set(error.row, [...(errorsByRow.get(error.row) ?? []), error.message]);
+  }
+  const mappedFields = IMPORT_FIELDS.filter((f) => mapping[f.key]);
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        className="fixed inset-0 z-50 flex items-center justify-center p-4"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+      >
+        <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={() => setOpen(false)} />
+
+        <motion.div
+          className="relative bg-card border border-border rounded-2xl shadow-2xl w-full max-w-4xl max-h-[85vh] overflow-auto"
+          initial={{ scale: 0.9, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          transition={{ type: "spring", damping: 25 }}
+        >
+          <div className="h-1.5 bg-gradient-to-r from-sky-500 via-cyan-500 to-teal-500" />
+
+          <div className="p-6">
+            <div className="flex items-center justify-between mb-5">
+              <div>
+                <div className="flex items-center gap-2 mb-1">
+                  <FileUp className="w-5 h-5 text-sky-500" />
+                  <h2 className="text-lg font-bold text-foreground">Import tasks</h2>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  CSV files, Trello board exports and Jira JSON exports. Nothing is created until every row is valid,
+                  and an import can be undone.
+                </p>
+              </div>
+              <button type="button" onClick={() => setOpen(false)} className="p-1.5 rounded-lg hover:bg-muted text-muted-foreground">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <label className="flex items-center justify-center gap-2 border-2 border-dashed border-border rounded-xl p-4 cursor-pointer hover:bg-muted/50 text-sm text-muted-foreground">
+              <Upload className="w-4 h-4" />
+              {fileName ? `${fileName} · ${SOURCE_NAMES[table!.source]} · ${table!.rows.length} rows` : "Choose a .csv or .json file"}
+              <input type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={handleFile} />
+            </label>
+
+            {table && (
+              <div className="mt-5">
+                <h3 className="text-sm font-semibold text-foreground mb-2">Columns</h3>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                  {IMPORT_FIELDS.map((field) => (
+                    <label key={field.key} className="text-xs text-muted-foreground space-y-1">
+                      <span>
+                        {field.label}
+                        {"required" in field && field.required && " *"}
+                      </span>
+                      <select
+                        value={mapping[field.key] ?? ""}
+                        onChange={(e) => {
+                          setMapping((prev) => ({ ...prev, [field.key]: e.target.value || undefined }));
+                          setPreview(null);
+                        }}
+                        className={selectClass}
+                      >
+                        <option value="">Don't import</option>
+                        {table.columns.map((column) => (
+                          <option key={column} value={column}>{column}</option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+
+                <div className="flex justify-end gap-2 mt-4">
+                  <Button type="button" variant="outline" size="sm" disabled={busy || !mapping.title} onClick={() => submit(true)}>
+                    Preview
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    disabled={busy || !preview || preview.errors.length > 0}
+                    onClick={() => submit(false)}
+                  >
+                    {busy ? "Working..." : `Import ${preview?.valid ?? ""} tasks`}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {preview && (
+              <div className="mt-5">
+                <p className="text-sm text-foreground mb-2">
+                  {preview.valid} of {preview.total} rows ready
+                  {preview.newLabels.length > 0 && ` · new labels: ${preview.newLabels.join(", ")}`}
+                  {preview.dependencyCount > 0 && ` · ${preview.dependencyCount} dependencies`}
+                  {preview.errors.length > 0 && (
+                    <span className="text-red-600"> · {preview.errors.length} problems to fix</span>
+                  )}
+                </p>
+                <div className="border border-border rounded-xl overflow-auto max-h-80">
+                  <table className="w-full text-xs">
+                    <thead className="bg-muted/60 sticky top-0">
+                      <tr>
+                        <th className="text-left font-medium p-2">Row</th>
+                        {mappedFields.map((f) => (
+                          <th key={f.key} className="text-left font-medium p-2">{f.label}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {applyMapping(table!.rows.slice(0, PREVIEW_ROWS), mapping).map((row, i) => {
+                        const problems = errorsByRow.get(i + 1);
+                        return (
+                          <tr key={i} className={`border-t border-border ${problems ? "bg-red-500/5" : ""}`}>
+                            <td className="p-2 align-top text-muted-foreground">{i + 1}</td>
+                            {mappedFields.map((f) => (
+                              <td key={f.key} className="p-2 align-top text-foreground max-w-[14rem] truncate">{row[f.key]}</td>
+                            ))}
+                            {problems && <td className="p-2 align-top text-red-600">{problems.join("; ")}</td>}
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+                {preview.errors.some((e) => e.row > PREVIEW_ROWS) && (
+                  <ul className="mt-2 text-xs text-red-600 space-y-0.5 max-h-32 overflow-auto">
+                    {preview.errors
+                      .filter((e) => e.row > PREVIEW_ROWS)
+                      .map((e, i) => (
+                        <li key={i}>Row {e.row}: {e.message}</li>
+                      ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {history.length > 0 && (
+              <div className="mt-6">
+                <h3 className="text-sm font-semibold text-foreground mb-2">Recent imports</h3>
+                <div className="space-y-1">
+                  {history.map((batch) => (
+                    <div key={batch.id} className="flex items-center gap-3 text-xs border border-border rounded-lg px-3 py-2">
+                      <span className="flex-1 min-w-0 truncate text-foreground">
+                        {batch.fileName || SOURCE_NAMES[batch.source]} · {batch.taskCount} tasks ·{" "}
+                        {new Date(batch.createdAt).toLocaleString()}
+                      </span>
+                      {batch.undoneAt ? (
+                        <span className="text-muted-foreground">Undone</span>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => {
+                            if (confirm(`Delete the ${batch.taskCount} tasks from this import?`)) undo(batch.id);
+                          }}
+                          className="flex items-center gap-1 text-muted-foreground hover:text-foreground"
+                        >
+                          <RotateCcw className="w-3.5 h-3.5" />
+                          Undo
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
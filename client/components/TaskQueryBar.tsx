@@ -0,0 +1,215 @@
+import { useCallback, useEffect, useState } from "react";
+import { Bookmark, BookmarkPlus, Pin, PinOff, Search, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useAuth } from "@/contexts/AuthContext";
+import { api } from "@/lib/api";
+import {
+  SAVED_FILTERS_CHANGED,
+  TASK_QUERY_EXAMPLE,
+  notifySavedFiltersChanged,
+  type SavedFilter,
+} from "@/lib/savedFilters";
+
+interface TaskQueryBarProps {
+  // The applied query; edits only apply on Enter
+  query: string;
+  onQueryChange: (query: string) => void;
+  // Parse error from the server for the applied query
+  error?: string | null;
+  // Board the bar filters; filters saved there are shared with the project.
+  // Omitted on My Tasks, which uses personal filters.
+  projectId?: number;
+}
+
+export default function TaskQueryBar({ query, onQueryChange, error, projectId }: TaskQueryBarProps) {
+  const { user } = useAuth();
+  const [draft, setDraft] = useState(query);
+  const [filters, setFilters] = useState<SavedFilter[]>([]);
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [pinned, setPinned] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => setDraft(query), [query]);
+
+  const fetchFilters = useCallback(async () => {
+    try {
+      const res = await api(projectId ? `/api/filters?projectId=${projectId}` : "/api/filters");
+      if (!res.ok) return;
+      const data: SavedFilter[] = await res.json();
+      // My Tasks runs across projects, so only personal filters apply there
+      setFilters(projectId ? data : data.filter((f) => f.projectId === null));
+    } catch { /* ignore */ }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchFilters();
+    window.addEventListener(SAVED_FILTERS_CHANGED, fetchFilters);
+    return () => window.removeEventListener(SAVED_FILTERS_CHANGED, fetchFilters);
+  }, [fetchFilters]);
+
+  const openSave = (open: boolean) => {
+    if (open) {
+      setName("");
+      setPinned(false);
+    }
+    setSaveOpen(open);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim() || !query.trim()) return;
+    setSaving(true);
+    try {
+      const res = await api("/api/filters", {
+        method: "POST",
+        body: JSON.stringify({ name: name.trim(), query, projectId: projectId ?? null, pinned }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to save filter");
+        return;
+      }
+      toast.success(projectId ? "Filter shared with the project" : "Filter saved");
+      setSaveOpen(false);
+      notifySavedFiltersChanged();
+    } catch {
+      toast.error("Failed to save filter");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const togglePin = async (filter: SavedFilter) => {
+    const res = await api(`/api/filters/${filter.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ pinned: !filter.pinned }),
+    });
+    if (res.ok) notifySavedFiltersChanged();
+    else toast.error("Failed to update filter");
+  };
+
+  const deleteFilter = async (filter: SavedFilter) => {
+    if (!confirm(`Delete the saved filter "${filter.name}"?`)) return;
+    const res = await api(`/api/filters/${filter.id}`, { method: "DELETE" });
+    if (res.ok) notifySavedFiltersChanged();
+    else toast.error("Failed to delete filter");
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") onQueryChange(draft.trim());
+              if (e.key === "Escape") setDraft(query);
+            }}
+            placeholder={TASK_QUERY_EXAMPLE}
+            className={`w-full pl-9 pr-8 py-2 text-sm font-mono bg-card border rounded-xl focus:outline-none focus:ring-2 focus:ring-primary/30 text-foreground placeholder:text-muted-foreground ${
+              error ? "border-red-400" : "border-border"
+            }`}
+          />
+          {draft && (
+            <button
+              onClick={() => { setDraft(""); onQueryChange(""); }}
+              className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-muted-foreground hover:text-foreground"
+              title="Clear query"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="gap-1.5">
+              <Bookmark className="w-4 h-4" />
+              <span className="hidden sm:inline">Saved</span>
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-80 p-2">
+            {filters.length === 0 ? (
+              <p className="text-sm text-muted-foreground p-2">No saved filters yet.</p>
+            ) : (
+              <div className="space-y-1 max-h-72 overflow-auto">
+                {filters.map((filter) => {
+                  const own = filter.ownerId === user?.id;
+                  return (
+                    <div key={filter.id} className="group flex items-center gap-1 rounded-lg hover:bg-secondary">
+                      <button
+                        onClick={() => onQueryChange(filter.query)}
+                        className="flex-1 min-w-0 text-left px-2 py-1.5"
+                        title={filter.query}
+                      >
+                        <p className="text-sm font-medium text-foreground truncate">{filter.name}</p>
+                        <p className="text-[11px] font-mono text-muted-foreground truncate">{filter.query}</p>
+                        {!own && <p className="text-[10px] text-muted-foreground">Shared by {filter.owner.name}</p>}
+                      </button>
+                      <button
+                        onClick={() => togglePin(filter)}
+                        className="p-1.5 text-muted-foreground hover:text-foreground"
+                        title={filter.pinned ? "Unpin from sidebar" : "Pin to sidebar"}
+                      >
+                        {filter.pinned ? <PinOff className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+                      </button>
+                      {own && (
+                        <button
+                          onClick={() => deleteFilter(filter)}
+                          className="p-1.5 text-muted-foreground hover:text-red-500"
+                          title="Delete filter"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </PopoverContent>
+        </Popover>
+
+        <Popover open={saveOpen} onOpenChange={openSave}>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="gap-1.5" disabled={!query || !!error}>
+              <BookmarkPlus className="w-4 h-4" />
+              <span className="hidden sm:inline">Save</span>
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-72 space-y-3">
+            <div className="space-y-1">
+              <label className="text-sm font-medium text-foreground">Filter name</label>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleSave()}
+                placeholder="e.g. My urgent bugs"
+                autoFocus
+              />
+            </div>
+            <p className="text-[11px] font-mono text-muted-foreground break-all">{query}</p>
+            {projectId && (
+              <p className="text-xs text-muted-foreground">Project members will see this filter on the board.</p>
+            )}
+            <label className="flex items-center gap-2 text-sm text-foreground">
+              <input type="checkbox" checked={pinned} onChange={(e) => setPinned(e.target.checked)} />
+              Pin to sidebar
+            </label>
+            <Button size="sm" className="w-full" onClick={handleSave} disabled={saving || !name.trim()}>
+              {saving ? "Saving..." : "Save filter"}
+            </Button>
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      {error && <p className="text-xs text-red-500 pl-1">{error}</p>}
+    </div>
+  );
+}
@@ -13,8 +13,10 @@ interface CalendarEvent {
   borderColor: string;
   extendedProps: {
     description: string | null;
-    assignedUser: string;
+    assignees: Array<{ id: number; name: string }>;
     status: string;
+    statusName?: string;
+    statusColor?: string | null;
     priority: string;
     taskId: number;
     projectId?: number;
@@ -54,34 +56,6 @@ export default function TaskQuickViewModal({
     }
   };
 
-  // Helper function to get status styling
-  const getStatusStyles = (status: string) => {
-    switch (status) {
-      case "done":
-        return "bg-blue-100 text-blue-700 border-blue-200";
-      case "inprogress":
-        return "bg-yellow-100 text-yellow-700 border-yellow-200";
-      case "todo":
-        return "bg-gray-100 text-gray-700 border-gray-200";
-      default:
-        return "bg-gray-100 text-gray-700 border-gray-200";
-    }
-  };
-
-  // Format the status label
-  const getStatusLabel = (status: string) => {
-    switch (status) {
-      case "done":
-        return "Done";
-      case "inprogress":
-        return "In Progress";
-      case "todo":
-        return "To Do";
-      default:
-        return status;
-    }
-  };
-
   // Format the date for display
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -153,7 +127,7 @@ export default function TaskQuickViewModal({
               <div>
                 <p className="text-xs text-muted-foreground">Assigned To</p>
                 <p className="text-sm font-medium text-foreground">
-                  {task.extendedProps.assignedUser}
+                  {task.extendedProps.assignees.map((p) => p.name).join(", ") || "Unassigned"}
                 </p>
               </div>
             </div>
@@ -168,11 +142,14 @@ export default function TaskQuickViewModal({
                 <div>
                   <p className="text-xs text-muted-foreground">Status</p>
                   <span
-                    className={`inline-block px-2 py-0.5 text-xs font-medium rounded border ${getStatusStyles(
-                      task.extendedProps.status
-                    )}`}
+                    className="inline-block px-2 py-0.5 text-xs font-medium rounded border"
+                    style={{
+                      backgroundColor: `${task.extendedProps.statusColor ?? "#6b7280"}22`,
+                      borderColor: `${task.extendedProps.statusColor ?? "#6b7280"}55`,
+                      color: task.extendedProps.statusColor ?? "#6b7280",
+                    }}
                   >
-                    {getStatusLabel(task.extendedProps.status)}
+                    {task.extendedProps.statusName ?? task.extendedProps.status}
                   </span>
                 </div>
               </div>
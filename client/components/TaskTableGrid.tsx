@@ -0,0 +1,224 @@
+import { useEffect, useMemo, useState } from "react";
+import { ReactGrid, Column, Row, CellChange } from "@silevis/reactgrid";
+import type { DefaultCellTypes, HeaderCell, TextCell } from "@silevis/reactgrid";
+import "@silevis/reactgrid/styles.css";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { mergeBulkResult } from "@/components/BulkActionBar";
+import type { Task } from "@/components/TaskCard";
+import { useProjectMembers } from "@/hooks/useProjectMembers";
+import { api } from "@/lib/api";
+import { getRealtimeSocket } from "@/lib/realtimeSocket";
+import {
+  TASK_TABLE_COLUMNS,
+  parseTaskTableCell,
+  sortTaskTable,
+  taskTableCell,
+  type TaskTableField,
+} from "@/lib/taskTable";
+import { DEFAULT_WORKFLOW, type WorkflowStatus } from "@/lib/workflow";
+
+// The empty row at the bottom; typing a title there creates a task
+const NEW_ROW = "new";
+
+interface TaskTableGridProps {
+  projectId: number;
+}
+
+/**
+ * A spreadsheet of the project's tasks. Each row is a task and each edit is saved through the
+ * task API, so it shows up on the board and in the task's activity; changes made elsewhere
+ * arrive over the project's socket room.
+ */
+export default function TaskTableGrid({ projectId }: TaskTableGridProps) {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [statuses, setStatuses] = useState<WorkflowStatus[]>(DEFAULT_WORKFLOW);
+  const [loading, setLoading] = useState(true);
+  // What was typed into cells whose save is in flight, keyed "rowId:field"
+  const [drafts, setDrafts] = useState<Map<string, string>>(new Map());
+  const members = useProjectMembers(projectId);
+
+  const fetchBoard = async () => {
+    try {
+      const res = await api(`/api/projects/${projectId}/board`);
+      if (res.ok) {
+        const data = await res.json();
+        setTasks(data.tasks);
+        setStatuses(data.workflow);
+      }
+    } catch (error) {
+      console.error("Error fetching tasks:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const upsertTask = (task: Task) => {
+    setTasks((prev) => {
+      if (task.projectId !== projectId) return prev.filter((t) => t.id !== task.id);
+      const idx = prev.findIndex((t) => t.id === task.id);
+      if (idx === -1) return [...prev, task];
+      const next = [...prev];
+      next[idx] = { ...prev[idx], ...task };
+      return next;
+    });
+  };
+
+  useEffect(() => {
+    fetchBoard();
+
+    const socket = getRealtimeSocket();
+    socket.emit("join-project", { projectId });
+
+    const onTaskChanged = ({ task }: { task: Task }) => upsertTask(task);
+    const onTaskDeleted = ({ taskId }: { taskId: number }) => setTasks((prev) => prev.filter((t) => t.id !== taskId));
+    const onTaskReordered = ({ tasks: moved }: { tasks: Array<{ id: number; status?: string }> }) => {
+      setTasks((prev) =>
+        prev.map((t) => {
+          const hit = moved.find((m) => m.id === t.id);
+          return hit?.status ? { ...t, status: hit.status } : t;
+        })
+      );
+    };
+    const onTasksBulkUpdated = (result: { tasks: Task[]; deletedIds: number[] }) =>
+      setTasks((prev) => mergeBulkResult(prev, result, projectId));
+    const onWorkflowUpdated = ({ statuses }: { statuses: WorkflowStatus[] }) => {
+      setStatuses(statuses);
+      fetchBoard();
+    };
+
+    socket.on("task:created", onTaskChanged);
+    socket.on("task:updated", onTaskChanged);
+    socket.on("task:deleted", onTaskDeleted);
+    socket.on("task:reordered", onTaskReordered);
+    socket.on("tasks:bulk-updated", onTasksBulkUpdated);
+    socket.on("workflow:updated", onWorkflowUpdated);
+
+    return () => {
+      socket.emit("leave-project", { projectId });
+      socket.off("task:created", onTaskChanged);
+      socket.off("task:updated", onTaskChanged);
+      socket.off("task:deleted", onTaskDeleted);
+      socket.off("task:reordered", onTaskReordered);
+      socket.off("tasks:bulk-updated", onTasksBulkUpdated);
+      socket.off("workflow:updated", onWorkflowUpdated);
+    };
+  }, [projectId]);
+
+  const setDraft = (key: string, text: string | null) => {
+    setDrafts((prev) => {
+      const next = new Map(prev);
+      if (text === null) next.delete(key);
+      else next.set(key, text);
+      return next;
+    });
+  };
+
+  const saveCell = async (rowId: number | typeof NEW_ROW, field: TaskTableField, text: string) => {
+    const isNew = rowId === NEW_ROW;
+    const task = isNew ? null : tasks.find((t) => t.id === rowId);
+    if (!isNew && (!task || text === taskTableCell(task, field, statuses))) return;
+    if (isNew && !text.trim()) return;
+    if (isNew && field !== "title") {
+      toast.error("Start a new task by typing its title");
+      return;
+    }
+
+    const parsed = parseTaskTableCell(field, text, { statuses, members });
+    if ("error" in parsed) {
+      toast.error(parsed.error);
+      return;
+    }
+
+    const key = `${rowId}:${field}`;
+    setDraft(key, text);
+    try {
+      const res = isNew
+        ? await api("/api/tasks", { method: "POST", body: JSON.stringify({ projectId, ...parsed.change }) })
+        : await api(`/api/tasks/${rowId}`, { method: "PUT", body: JSON.stringify(parsed.change) });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        toast.error(data?.error || (isNew ? "Failed to create task" : "Failed to update task"));
+        return;
+      }
+      upsertTask(data);
+    } catch (error) {
+      console.error("Error saving task:", error);
+      toast.error("Failed to save task");
+    } finally {
+      setDraft(key, null);
+    }
+  };
+
+  const handleChanges = async (changes: CellChange[]) => {
+    // One at a time, so a pasted block reaches the server in order
+    for (const change of changes) {
+      if (change.newCell.type !== "text" || change.columnId === "header") continue;
+      await saveCell(change.rowId as number | typeof NEW_ROW, change.columnId as TaskTableField, change.newCell.text);
+    }
+  };
+
+  const columns: Column[] = [
+    { columnId: "header", width: 50 },
+    ...TASK_TABLE_COLUMNS.map((c) => ({ columnId: c.field, width: c.width, resizable: true })),
+  ];
+
+  const rows = useMemo<Row<DefaultCellTypes>[]>(() => {
+    const headerRow: Row<DefaultCellTypes> = {
+      rowId: "header",
+      cells: [{ type: "header", text: "" } as HeaderCell, ...TASK_TABLE_COLUMNS.map((c) => ({ type: "header", text: c.label }) as HeaderCell)],
+    };
+
+    const ordered = sortTaskTable(tasks);
+    const dataRows: Row<DefaultCellTypes>[] = ordered.map((task, index) => ({
+      rowId: task.id,
+      cells: [
+        { type: "header", text: String(index + 1) } as HeaderCell,
+        ...TASK_TABLE_COLUMNS.map(
+          (c) =>
+            ({
+              type: "text",
+              text: drafts.get(`${task.id}:${c.field}`) ?? taskTableCell(task, c.field, statuses),
+            }) as TextCell
+        ),
+      ],
+    }));
+
+    const newRow: Row<DefaultCellTypes> = {
+      rowId: NEW_ROW,
+      cells: [
+        { type: "header", text: "+" } as HeaderCell,
+        ...TASK_TABLE_COLUMNS.map(
+          (c) =>
+            ({
+              type: "text",
+              text: drafts.get(`${NEW_ROW}:${c.field}`) ?? "",
+              placeholder: c.field === "title" ? "New task…" : "",
+            }) as TextCell
+        ),
+      ],
+    };
+
+    return [headerRow, ...dataRows, newRow];
+  }, [tasks, statuses, drafts]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <ReactGrid
+      rows={rows}
+      columns={columns}
+      onCellsChanged={handleChanges}
+      enableRangeSelection
+      enableFillHandle
+      enableRowSelection
+      enableColumnSelection
+    />
+  );
+}
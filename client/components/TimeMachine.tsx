@@ -3,6 +3,7 @@ import { Clock, Rewind, FastForward, Play, ChevronLeft, ChevronRight, X } from "
 import { motion, AnimatePresence } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { api } from "@/lib/api";
+import { formatPeople, type TaskPerson } from "@/lib/taskPeople";
 
 interface ActivityEntry {
   id: number;
@@ -20,12 +21,12 @@ interface TaskSnapshot {
   title: string;
   status: string;
   priority: string;
-  assignedUser: string;
+  assignees: string;
 }
 
 interface TimeMachineProps {
   projectId: number;
-  tasks: { id: number; title: string; status: string; priority: string; assignedUser: string; createdAt?: string }[];
+  tasks: { id: number; title: string; status: string; priority: string; assignees: TaskPerson[]; createdAt?: string }[];
 }
 
 export default function TimeMachine({ projectId, tasks }: TimeMachineProps) {
@@ -85,7 +86,7 @@ export default function TimeMachine({ projectId, tasks }: TimeMachineProps) {
   // Compute task snapshots at the current slider position
   const { snapshots, currentDate, eventCount } = useMemo(() => {
     if (dates.length === 0) {
-      return { snapshots: tasks.map((t) => ({ ...t })), currentDate: "Now", eventCount: 0 };
+      return { snapshots: tasks.map((t) => ({ ...t, assignees: formatPeople(t.assignees) })), currentDate: "Now", eventCount: 0 };
     }
 
     const idx = Math.round((sliderValue / 100) * (dates.length - 1));
@@ -100,7 +101,7 @@ export default function TimeMachine({ projectId, tasks }: TimeMachineProps) {
         title: t.title,
         status: "todo",
         priority: "medium",
-        assignedUser: t.assignedUser || "Unassigned",
+        assignees: formatPeople(t.assignees),
       });
     }
 
@@ -116,7 +117,8 @@ export default function TimeMachine({ projectId, tasks }: TimeMachineProps) {
 
       if (log.fieldName === "status") existing.status = log.newValue;
       else if (log.fieldName === "priority") existing.priority = log.newValue;
-      else if (log.fieldName === "assignedUser") existing.assignedUser = log.newValue;
+      // Older entries logged a single assignee as "assignedUser"
+      else if (log.fieldName === "assignees" || log.fieldName === "assignedUser") existing.assignees = log.newValue || "Unassigned";
     }
 
     const label = new Date(targetDate).toLocaleDateString(undefined, {
@@ -329,7 +331,7 @@ export default function TimeMachine({ projectId, tasks }: TimeMachineProps) {
                             <p className="text-xs font-medium text-foreground truncate">{s.title}</p>
                             <div className="flex items-center gap-1.5 mt-1">
                               <span className={`w-1.5 h-1.5 rounded-full ${getStatusColor(s.status)}`} />
-                              <span className="text-[10px] text-muted-foreground truncate">{s.assignedUser}</span>
+                              <span className="text-[10px] text-muted-foreground truncate">{s.assignees}</span>
                             </div>
                           </motion.div>
                         ))}
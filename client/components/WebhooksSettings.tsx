@@ -0,0 +1,354 @@
+import { useState } from "react";
+import { ChevronDown, ChevronRight, Copy, Plus, RotateCcw, Trash2, Webhook as WebhookIcon, X } from "lucide-react";
+import { motion, AnimatePresence } from "framer-motion";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { api } from "@/lib/api";
+import { WEBHOOK_EVENTS, type Webhook, type WebhookDelivery, type WebhookEvent } from "@/lib/webhooks";
+
+interface WebhooksSettingsProps {
+  projectId: number;
+}
+
+const STATUS_STYLES: Record<WebhookDelivery["status"], string> = {
+  pending: "bg-amber-100 text-amber-700 dark:bg-amber-950/40 dark:text-amber-400",
+  succeeded: "bg-emerald-100 text-emerald-700 dark:bg-emerald-950/40 dark:text-emerald-400",
+  failed: "bg-red-100 text-red-700 dark:bg-red-950/40 dark:text-red-400",
+};
+
+const formatTime = (value: string) => new Date(value).toLocaleString();
+
+export default function WebhooksSettings({ projectId }: WebhooksSettingsProps) {
+  const [open, setOpen] = useState(false);
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>(["task.created", "task.updated"]);
+  const [saving, setSaving] = useState(false);
+  const [revealedId, setRevealedId] = useState<number | null>(null);
+  const [logId, setLogId] = useState<number | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [expandedDeliveryId, setExpandedDeliveryId] = useState<number | null>(null);
+
+  const base = `/api/projects/${projectId}/webhooks`;
+
+  const fetchWebhooks = async () => {
+    try {
+      const res = await api(base);
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setLoadError(data?.error || "Failed to load webhooks");
+        return;
+      }
+      setWebhooks(data);
+      setLoadError(null);
+    } catch {
+      setLoadError("Failed to load webhooks");
+    }
+  };
+
+  const fetchDeliveries = async (webhookId: number) => {
+    const res = await api(`${base}/${webhookId}/deliveries`);
+    if (res.ok) setDeliveries(await res.json());
+    else toast.error("Failed to load deliveries");
+  };
+
+  const openSettings = () => {
+    setUrl("");
+    setLogId(null);
+    setRevealedId(null);
+    setOpen(true);
+    fetchWebhooks();
+  };
+
+  const toggleEvent = (event: WebhookEvent) =>
+    setEvents((prev) => (prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event]));
+
+  const handleCreate = async () => {
+    setSaving(true);
+    try {
+      const res = await api(base, { method: "POST", body: JSON.stringify({ url: url.trim(), events }) });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to add webhook");
+        return;
+      }
+      setWebhooks((prev) => [...prev, data]);
+      setRevealedId(data.id);
+      setUrl("");
+      toast.success("Webhook added. Copy its secret to verify signatures.");
+    } catch {
+      toast.error("Failed to add webhook");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateWebhook = async (webhook: Webhook, patch: Record<string, unknown>) => {
+    const res = await api(`${base}/${webhook.id}`, { method: "PATCH", body: JSON.stringify(patch) });
+    const data = await res.json().catch(() => null);
+    if (!res.ok) {
+      toast.error(data?.error || "Failed to update webhook");
+      return;
+    }
+    setWebhooks((prev) => prev.map((w) => (w.id === webhook.id ? { ...w, ...data } : w)));
+  };
+
+  const deleteWebhook = async (webhook: Webhook) => {
+    if (!confirm(`Delete the webhook for ${webhook.url}? Its delivery log is deleted too.`)) return;
+    const res = await api(`${base}/${webhook.id}`, { method: "DELETE" });
+    if (!res.ok) {
+      toast.error("Failed to delete webhook");
+      return;
+    }
+    setWebhooks((prev) => prev.filter((w) => w.id !== webhook.id));
+    if (logId === webhook.id) setLogId(null);
+  };
+
+  const toggleLog = (webhook: Webhook) => {
+    if (logId === webhook.id) {
+      setLogId(null);
+      return;
+    }
+    setDeliveries([]);
+    setExpandedDeliveryId(null);
+    setLogId(webhook.id);
+    fetchDeliveries(webhook.id);
+  };
+
+  const handleRedeliver = async (webhookId: number, delivery: WebhookDelivery) => {
+    const res = await api(`${base}/${webhookId}/deliveries/${delivery.id}/redeliver`, { method: "POST" });
+    if (!res.ok) {
+      toast.error("Failed to redeliver");
+      return;
+    }
+    toast.success("Delivery queued");
+    fetchDeliveries(webhookId);
+  };
+
+  const copySecret = async (secret: string) => {
+    try {
+      await navigator.clipboard.writeText(secret);
+      toast.success("Secret copied");
+    } catch {
+      toast.error("Couldn't copy the secret");
+    }
+  };
+
+  if (!open) {
+    return (
+      <Button type="button" variant="outline" onClick={openSettings} className="flex items-center gap-2">
+        <WebhookIcon className="w-4 h-4 text-violet-500" />
+        Webhooks
+      </Button>
+    );
+  }
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        className="fixed inset-0 z-50 flex items-center justify-center p-4"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+      >
+        <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={() => setOpen(false)} />
+
+        <motion.div
+          className="relative bg-card border border-border rounded-2xl shadow-2xl w-full max-w-3xl max-h-[85vh] overflow-auto"
+          initial={{ scale: 0.9, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          transition={{ type: "spring", damping: 25 }}
+        >
+          <div className="h-1.5 bg-gradient-to-r from-violet-500 via-purple-500 to-fuchsia-500" />
+
+          <div className="p-6">
+            <div className="flex items-center justify-between mb-5">
+              <div>
+                <div className="flex items-center gap-2 mb-1">
+                  <WebhookIcon className="w-5 h-5 text-violet-500" />
+                  <h2 className="text-lg font-bold text-foreground">Webhooks</h2>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Project events are POSTed as JSON, signed in the X-ProUp-Signature header with HMAC-SHA256 over
+                  "timestamp.body". Failed deliveries are retried with backoff.
+                </p>
+              </div>
+              <button type="button" onClick={() => setOpen(false)} className="p-1.5 rounded-lg hover:bg-muted text-muted-foreground">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {loadError ? (
+              <p className="text-sm text-red-600">{loadError}</p>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  {webhooks.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No webhooks yet.</p>
+                  )}
+                  {webhooks.map((webhook) => (
+                    <div key={webhook.id} className="border border-border rounded-xl p-3">
+                      <div className="flex items-center gap-2">
+                        <button
+                          type="button"
+                          onClick={() => toggleLog(webhook)}
+                          className="p-1 rounded hover:bg-muted text-muted-foreground"
+                          title="Delivery log"
+                        >
+                          {logId === webhook.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        </button>
+                        <div className="flex-1 min-w-0">
+                          <p className={`text-sm font-mono truncate ${webhook.active ? "text-foreground" : "text-muted-foreground line-through"}`}>
+                            {webhook.url}
+                          </p>
+                          <p className="text-[11px] text-muted-foreground truncate">
+                            {webhook.events.join(", ")}
+                            {webhook.lastDelivery &&
+                              ` · last delivery ${webhook.lastDelivery.status}${
+                                webhook.lastDelivery.responseStatus ? ` (${webhook.lastDelivery.responseStatus})` : ""
+                              }`}
+                          </p>
+                        </div>
+                        <label className="flex items-center gap-1.5 text-xs text-foreground cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={webhook.active}
+                            onChange={(e) => updateWebhook(webhook, { active: e.target.checked })}
+                            className="rounded border-border accent-primary"
+                          />
+                          Active
+                        </label>
+                        <button
+                          type="button"
+                          onClick={() => setRevealedId(revealedId === webhook.id ? null : webhook.id)}
+                          className="px-2 py-1 text-xs rounded-lg border border-border text-muted-foreground hover:bg-secondary"
+                        >
+                          Secret
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => deleteWebhook(webhook)}
+                          className="p-1 rounded hover:bg-red-50 text-red-500"
+                          title="Delete webhook"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+
+                      {revealedId === webhook.id && (
+                        <div className="mt-2 pl-8 flex items-center gap-2">
+                          <code className="flex-1 min-w-0 truncate text-xs bg-muted rounded px-2 py-1 text-foreground">{webhook.secret}</code>
+                          <button
+                            type="button"
+                            onClick={() => copySecret(webhook.secret)}
+                            className="p-1 rounded hover:bg-muted text-muted-foreground"
+                            title="Copy secret"
+                          >
+                            <Copy className="w-4 h-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => {
+                              if (confirm("Generate a new secret? Receivers using the old one will reject deliveries.")) {
+                                updateWebhook(webhook, { rotateSecret: true });
+                              }
+                            }}
+                            className="px-2 py-1 text-xs rounded-lg border border-border text-muted-foreground hover:bg-secondary"
+                          >
+                            Rotate
+                          </button>
+                        </div>
+                      )}
+
+                      {logId === webhook.id && (
+                        <div className="mt-3 pl-8 space-y-1">
+                          {deliveries.length === 0 && <p className="text-xs text-muted-foreground">No deliveries yet.</p>}
+                          {deliveries.map((delivery) => (
+                            <div key={delivery.id} className="rounded-lg border border-border">
+                              <div className="flex items-center gap-2 px-2 py-1.5 text-xs">
+                                <button
+                                  type="button"
+                                  onClick={() => setExpandedDeliveryId(expandedDeliveryId === delivery.id ? null : delivery.id)}
+                                  className="flex-1 min-w-0 flex items-center gap-2 text-left"
+                                >
+                                  <span className={`px-1.5 py-0.5 rounded-full font-medium ${STATUS_STYLES[delivery.status]}`}>
+                                    {delivery.status}
+                                  </span>
+                                  <span className="font-mono text-foreground">{delivery.event}</span>
+                                  <span className="text-muted-foreground">
+                                    {delivery.responseStatus ?? "—"} · {delivery.attempts} attempt{delivery.attempts !== 1 ? "s" : ""}
+                                  </span>
+                                  <span className="ml-auto text-muted-foreground">{formatTime(delivery.createdAt)}</span>
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={() => handleRedeliver(webhook.id, delivery)}
+                                  className="p-1 rounded hover:bg-muted text-muted-foreground"
+                                  title="Redeliver"
+                                >
+                                  <RotateCcw className="w-3.5 h-3.5" />
+                                </button>
+                              </div>
+                              {expandedDeliveryId === delivery.id && (
+                                <div className="border-t border-border px-2 py-2 space-y-2 text-[11px]">
+                                  {delivery.error && <p className="text-red-600">{delivery.error}</p>}
+                                  {delivery.status === "pending" && delivery.attempts > 0 && (
+                                    <p className="text-muted-foreground">Next attempt {formatTime(delivery.nextAttemptAt)}</p>
+                                  )}
+                                  <pre className="max-h-40 overflow-auto bg-muted rounded p-2 text-foreground whitespace-pre-wrap break-all">
+                                    {delivery.payload}
+                                  </pre>
+                                  {delivery.responseBody && (
+                                    <pre className="max-h-32 overflow-auto bg-muted rounded p-2 text-muted-foreground whitespace-pre-wrap break-all">
+                                      {delivery.responseBody}
+                                    </pre>
+                                  )}
+                                </div>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                <div className="mt-5 border border-dashed border-border rounded-xl p-3 space-y-3">
+                  <input
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    placeholder="https://ci.example.com/hooks/proup"
+                    className="w-full px-3 py-1.5 text-sm font-mono border border-border rounded-lg bg-input text-foreground"
+                  />
+                  <div className="flex flex-wrap gap-1.5">
+                    {WEBHOOK_EVENTS.map((event) => (
+                      <button
+                        key={event.key}
+                        type="button"
+                        onClick={() => toggleEvent(event.key)}
+                        className={`px-2 py-1 text-xs rounded-full border transition-colors ${
+                          events.includes(event.key)
+                            ? "bg-primary text-primary-foreground border-primary"
+                            : "border-border text-muted-foreground hover:bg-secondary"
+                        }`}
+                      >
+                        {event.label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex justify-end">
+                    <Button type="button" size="sm" onClick={handleCreate} disabled={saving || !url.trim() || events.length === 0}>
+                      <Plus className="w-4 h-4 mr-1" />
+                      {saving ? "Adding..." : "Add webhook"}
+                    </Button>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
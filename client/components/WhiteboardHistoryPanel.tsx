@@ -0,0 +1,218 @@
+import { useEffect, useState } from "react";
+import { Tldraw, type TLStoreSnapshot } from "tldraw";
+import { History, Loader2, RotateCcw, Save, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  fetchSnapshot,
+  fetchSnapshots,
+  restoreSnapshot,
+  saveNamedSnapshot,
+  snapshotTitle,
+  type WhiteboardSnapshot,
+  type WhiteboardSnapshotWithRecords,
+} from "@/lib/whiteboardSync";
+
+interface WhiteboardHistoryPanelProps {
+  projectId: string;
+  canEdit: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Snapshots of a project board, with a read-only preview of each and a way back to an earlier one
+ */
+export default function WhiteboardHistoryPanel({ projectId, canEdit, onClose }: WhiteboardHistoryPanelProps) {
+  const [snapshots, setSnapshots] = useState<WhiteboardSnapshot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [preview, setPreview] = useState<WhiteboardSnapshotWithRecords | null>(null);
+  const [snapshotName, setSnapshotName] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const loadSnapshots = async () => {
+    const result = await fetchSnapshots(projectId);
+    if ("error" in result) toast.error(result.error);
+    else {
+      setSnapshots(result);
+      setSelected((current) => current ?? result[0]?.id ?? null);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadSnapshots();
+  }, [projectId]);
+
+  useEffect(() => {
+    if (selected === null) return;
+    let cancelled = false;
+    setPreview(null);
+    fetchSnapshot(projectId, selected).then((result) => {
+      if (cancelled) return;
+      if ("error" in result) toast.error(result.error);
+      else setPreview(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, selected]);
+
+  const handleSaveSnapshot = async () => {
+    const name = snapshotName.trim();
+    if (!name) return;
+    setBusy(true);
+    try {
+      const result = await saveNamedSnapshot(projectId, name);
+      if ("error" in result) {
+        toast.error(result.error);
+        return;
+      }
+      setSnapshots((prev) => [result, ...prev]);
+      setSelected(result.id);
+      setSnapshotName("");
+      toast.success(`Saved snapshot "${name}"`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRestore = async (snapshotId: number) => {
+    setBusy(true);
+    try {
+      const result = await restoreSnapshot(projectId, snapshotId);
+      if ("error" in result) {
+        toast.error(result.error);
+        return;
+      }
+      setSelected(result.id);
+      await loadSnapshots();
+      toast.success("Snapshot restored");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderPreview = () => {
+    if (!preview) {
+      return (
+        <div className="flex items-center justify-center h-full">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      );
+    }
+    // Records are in the form the server keeps them; Tldraw migrates them with their schema
+    const snapshot = {
+      store: Object.fromEntries(preview.records.map((record) => [record.id, record])),
+      schema: preview.schema,
+    } as unknown as TLStoreSnapshot;
+    return (
+      <Tldraw
+        key={preview.id}
+        snapshot={preview.schema ? snapshot : undefined}
+        hideUi
+        onMount={(editor) => {
+          editor.updateInstanceState({ isReadonly: true });
+          editor.zoomToFit();
+        }}
+      />
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex justify-end z-[60]" onClick={onClose}>
+      <div
+        className="bg-card border-l border-border w-full max-w-5xl h-full flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Board history
+          </h2>
+          <button onClick={onClose} className="p-1 hover:bg-secondary rounded transition-colors" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Snapshots */}
+          <div className="w-72 border-r border-border flex flex-col">
+            {canEdit && (
+              <div className="p-3 border-b border-border flex gap-2">
+                <input
+                  type="text"
+                  value={snapshotName}
+                  onChange={(e) => setSnapshotName(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleSaveSnapshot()}
+                  placeholder="Name the board as it is…"
+                  maxLength={100}
+                  className="flex-1 min-w-0 px-2 py-1.5 text-sm bg-background border border-border rounded"
+                />
+                <button
+                  onClick={handleSaveSnapshot}
+                  disabled={busy || !snapshotName.trim()}
+                  className="p-2 bg-primary text-primary-foreground rounded hover:bg-primary/90 disabled:opacity-50"
+                  title="Save snapshot"
+                >
+                  <Save className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+
+            <div className="flex-1 overflow-y-auto">
+              {loading ? (
+                <div className="flex items-center justify-center h-32">
+                  <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                </div>
+              ) : (
+                snapshots.map((snapshot) => (
+                  <button
+                    key={snapshot.id}
+                    onClick={() => setSelected(snapshot.id)}
+                    className={`w-full text-left px-4 py-3 border-b border-border transition-colors ${
+                      selected === snapshot.id ? "bg-primary/10" : "hover:bg-secondary"
+                    }`}
+                  >
+                    <div className="text-sm font-medium text-foreground truncate">{snapshotTitle(snapshot)}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {snapshot.author ? `${snapshot.author.name} · ` : ""}
+                      {new Date(snapshot.createdAt).toLocaleString()}
+                    </div>
+                  </button>
+                ))
+              )}
+              {!loading && snapshots.length === 0 && (
+                <p className="p-4 text-sm text-muted-foreground">
+                  Snapshots are taken automatically as the board changes, or name one to keep it.
+                </p>
+              )}
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="flex-1 flex flex-col min-w-0">
+            {selected !== null && (
+              <div className="p-3 border-b border-border flex items-center justify-between gap-2 text-sm">
+                <span className="text-muted-foreground truncate">
+                  {preview ? `${preview.records.filter((r) => r.typeName === "shape").length} shapes` : "Loading…"}
+                </span>
+                {canEdit && (
+                  <button
+                    onClick={() => handleRestore(selected)}
+                    disabled={busy}
+                    className="flex items-center gap-2 px-3 py-1.5 bg-primary text-primary-foreground rounded font-medium hover:bg-primary/90 disabled:opacity-50"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    Restore this snapshot
+                  </button>
+                )}
+              </div>
+            )}
+            <div className="flex-1 relative">{selected !== null && renderPreview()}</div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
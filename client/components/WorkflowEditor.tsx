@@ -0,0 +1,317 @@
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Columns3, Plus, Trash2, X } from "lucide-react";
+import { motion, AnimatePresence } from "framer-motion";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { api } from "@/lib/api";
+import type { WorkflowStatus } from "@/lib/workflow";
+
+interface WorkflowEditorProps {
+  projectId: number;
+  statuses: WorkflowStatus[];
+  onSaved: (statuses: WorkflowStatus[]) => void;
+}
+
+// Rows are identified locally so new statuses can be referenced by transitions before they have a key
+type Row = {
+  id: string;
+  key?: string;
+  name: string;
+  color: string;
+  isDone: boolean;
+  transitions: string[] | null; // row ids
+};
+
+const slugify = (value: string) => value.trim().toLowerCase().replace(/[^a-z0-9]+/g, "");
+
+const toRows = (statuses: WorkflowStatus[]): Row[] =>
+  statuses.map((s) => ({
+    id: s.key,
+    key: s.key,
+    name: s.name,
+    color: s.color,
+    isDone: s.isDone,
+    transitions: s.transitions,
+  }));
+
+export default function WorkflowEditor({ projectId, statuses, onSaved }: WorkflowEditorProps) {
+  const [open, setOpen] = useState(false);
+  const [rows, setRows] = useState<Row[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [orphaned, setOrphaned] = useState<Record<string, number>>({});
+  const [remap, setRemap] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const openEditor = () => {
+    setRows(toRows(statuses));
+    setExpandedId(null);
+    setOrphaned({});
+    setRemap({});
+    setError(null);
+    setOpen(true);
+  };
+
+  const updateRow = (id: string, patch: Partial<Row>) =>
+    setRows((prev) => prev.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+
+  const moveRow = (index: number, delta: number) =>
+    setRows((prev) => {
+      const next = [...prev];
+      const target = index + delta;
+      if (target < 0 || target >= next.length) return prev;
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+
+  const removeRow = (id: string) =>
+    setRows((prev) =>
+      prev
+        .filter((r) => r.id !== id)
+        .map((r) => ({ ...r, transitions: r.transitions?.filter((t) => t !== id) ?? null }))
+    );
+
+  const addRow = () =>
+    setRows((prev) => [
+      ...prev,
+      { id: `new-${Date.now()}`, name: "", color: "#6b7280", isDone: false, transitions: null },
+    ]);
+
+  const toggleTransition = (row: Row, targetId: string) => {
+    const current = row.transitions ?? [];
+    updateRow(row.id, {
+      transitions: current.includes(targetId) ? current.filter((t) => t !== targetId) : [...current, targetId],
+    });
+  };
+
+  const handleSave = async () => {
+    // Give new rows a key derived from their name, avoiding clashes
+    const keys = new Map<string, string>();
+    const used = new Set(rows.filter((r) => r.key).map((r) => r.key!));
+    for (const row of rows) {
+      if (row.key) {
+        keys.set(row.id, row.key);
+        continue;
+      }
+      const base = slugify(row.name) || "status";
+      let key = base;
+      for (let n = 2; used.has(key); n++) key = `${base}${n}`;
+      used.add(key);
+      keys.set(row.id, key);
+    }
+
+    const payload = rows.map((r) => ({
+      key: keys.get(r.id),
+      name: r.name,
+      color: r.color,
+      isDone: r.isDone,
+      transitions: r.transitions ? r.transitions.map((t) => keys.get(t)!) : null,
+    }));
+
+    try {
+      setSaving(true);
+      setError(null);
+      const response = await api(`/api/projects/${projectId}/workflow`, {
+        method: "PUT",
+        body: JSON.stringify({ statuses: payload, remap }),
+      });
+      const data = await response.json().catch(() => null);
+
+      if (response.status === 409 && data?.code === "STATUS_IN_USE") {
+        setOrphaned(data.statuses || {});
+        setError(data.error);
+        return;
+      }
+      if (!response.ok) {
+        setError(data?.error || "Failed to save workflow");
+        return;
+      }
+
+      onSaved(data.statuses);
+      toast.success("Workflow updated");
+      setOpen(false);
+    } catch {
+      setError("Failed to save workflow");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <Button type="button" variant="outline" onClick={openEditor} className="flex items-center gap-2">
+        <Columns3 className="w-4 h-4 text-indigo-500" />
+        Workflow
+      </Button>
+    );
+  }
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        className="fixed inset-0 z-50 flex items-center justify-center p-4"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+      >
+        <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={() => setOpen(false)} />
+
+        <motion.div
+          className="relative bg-card border border-border rounded-2xl shadow-2xl w-full max-w-2xl max-h-[85vh] overflow-auto"
+          initial={{ scale: 0.9, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          transition={{ type: "spring", damping: 25 }}
+        >
+          <div className="h-1.5 bg-gradient-to-r from-indigo-500 via-blue-500 to-cyan-500" />
+
+          <div className="p-6">
+            <div className="flex items-center justify-between mb-5">
+              <div>
+                <div className="flex items-center gap-2 mb-1">
+                  <Columns3 className="w-5 h-5 text-indigo-500" />
+                  <h2 className="text-lg font-bold text-foreground">Workflow</h2>
+                </div>
+                <p className="text-xs text-muted-foreground">Board columns, in order. Tasks in a "done" status count as completed.</p>
+              </div>
+              <button type="button" onClick={() => setOpen(false)} className="p-1.5 rounded-lg hover:bg-muted text-muted-foreground">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="space-y-2">
+              {rows.map((row, index) => (
+                <div key={row.id} className="border border-border rounded-xl p-3">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="color"
+                      value={row.color}
+                      onChange={(e) => updateRow(row.id, { color: e.target.value })}
+                      className="w-8 h-8 rounded cursor-pointer border-0 bg-transparent"
+                      title="Column colour"
+                    />
+                    <input
+                      value={row.name}
+                      onChange={(e) => updateRow(row.id, { name: e.target.value })}
+                      placeholder="Status name"
+                      className="flex-1 px-3 py-1.5 text-sm border border-border rounded-lg bg-input text-foreground"
+                    />
+                    <label className="flex items-center gap-1.5 text-xs text-foreground cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={row.isDone}
+                        onChange={(e) => updateRow(row.id, { isDone: e.target.checked })}
+                        className="rounded border-border accent-primary"
+                      />
+                      Done
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => setExpandedId(expandedId === row.id ? null : row.id)}
+                      className="px-2 py-1 text-xs rounded-lg border border-border text-muted-foreground hover:bg-secondary"
+                    >
+                      {row.transitions ? `→ ${row.transitions.length}` : "→ any"}
+                    </button>
+                    <button type="button" onClick={() => moveRow(index, -1)} className="p-1 rounded hover:bg-muted text-muted-foreground" title="Move left">
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button type="button" onClick={() => moveRow(index, 1)} className="p-1 rounded hover:bg-muted text-muted-foreground" title="Move right">
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => removeRow(row.id)}
+                      disabled={rows.length <= 1}
+                      className="p-1 rounded hover:bg-red-50 text-red-500 disabled:opacity-40"
+                      title="Remove status"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+
+                  {expandedId === row.id && (
+                    <div className="mt-3 pl-10 space-y-2">
+                      <label className="flex items-center gap-2 text-xs text-foreground cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={row.transitions === null}
+                          onChange={(e) => updateRow(row.id, { transitions: e.target.checked ? null : [] })}
+                          className="rounded border-border accent-primary"
+                        />
+                        Tasks can move to any status
+                      </label>
+                      {row.transitions !== null && (
+                        <div className="flex flex-wrap gap-1.5">
+                          {rows
+                            .filter((r) => r.id !== row.id)
+                            .map((target) => (
+                              <button
+                                key={target.id}
+                                type="button"
+                                onClick={() => toggleTransition(row, target.id)}
+                                className={`px-2 py-1 text-xs rounded-full border transition-colors ${
+                                  row.transitions?.includes(target.id)
+                                    ? "bg-primary text-primary-foreground border-primary"
+                                    : "border-border text-muted-foreground hover:bg-secondary"
+                                }`}
+                              >
+                                {target.name || "Untitled"}
+                              </button>
+                            ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <button
+              type="button"
+              onClick={addRow}
+              className="mt-3 flex items-center gap-1.5 text-sm text-primary hover:underline"
+            >
+              <Plus className="w-4 h-4" />
+              Add status
+            </button>
+
+            {Object.keys(orphaned).length > 0 && (
+              <div className="mt-4 p-3 rounded-xl border border-amber-300 bg-amber-50 dark:bg-amber-950/20 space-y-2">
+                <p className="text-xs font-medium text-amber-700 dark:text-amber-400">Move tasks from removed statuses to:</p>
+                {Object.entries(orphaned).map(([key, count]) => (
+                  <div key={key} className="flex items-center gap-2 text-sm">
+                    <span className="flex-1 text-foreground">
+                      {key} ({count} task{count !== 1 ? "s" : ""})
+                    </span>
+                    <select
+                      value={remap[key] ?? ""}
+                      onChange={(e) => setRemap((prev) => ({ ...prev, [key]: e.target.value }))}
+                      className="px-2 py-1 text-sm border border-border rounded-lg bg-input text-foreground"
+                    >
+                      <option value="" disabled>
+                        Choose a status
+                      </option>
+                      {rows.filter((r) => r.key).map((r) => (
+                        <option key={r.id} value={r.key}>{r.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+            <div className="mt-5 flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="button" onClick={handleSave} disabled={saving || rows.some((r) => !r.name.trim())}>
+                {saving ? "Saving..." : "Save workflow"}
+              </Button>
+            </div>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
@@ -1,29 +1,36 @@
 import { useState, useEffect } from "react";
 import { Star, Zap, TrendingUp, ChevronUp } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
-import { getXPState, getXPToday, getRecentEvents, type XPState, type XPEvent } from "@/lib/xp";
+import { fetchXPState, GAMIFICATION_CHANGED, type XPState } from "@/lib/xp";
+
+// Changes arrive over the socket; the poll only catches up after a dropped connection
+const POLL_MS = 60_000;
 
 export default function XPBar() {
-  const [state, setState] = useState<XPState>(getXPState);
-  const [todayXP, setTodayXP] = useState(getXPToday);
+  const [state, setState] = useState<XPState | null>(null);
   const [showDetails, setShowDetails] = useState(false);
-  const [recentEvents, setRecentEvents] = useState<XPEvent[]>([]);
 
-  // Poll for XP changes every 2 seconds
   useEffect(() => {
-    const interval = setInterval(() => {
-      setState(getXPState());
-      setTodayXP(getXPToday());
-    }, 2000);
-    return () => clearInterval(interval);
+    let mounted = true;
+    const refresh = async () => {
+      const next = await fetchXPState();
+      if (mounted && next) setState(next);
+    };
+
+    refresh();
+    const interval = setInterval(refresh, POLL_MS);
+    window.addEventListener(GAMIFICATION_CHANGED, refresh);
+    return () => {
+      mounted = false;
+      clearInterval(interval);
+      window.removeEventListener(GAMIFICATION_CHANGED, refresh);
+    };
   }, []);
 
-  useEffect(() => {
-    if (showDetails) {
-      setRecentEvents(getRecentEvents(15));
-    }
-  }, [showDetails]);
+  if (!state) return null;
 
+  const recentEvents = state.recentEvents;
+  const todayXP = state.xpToday;
   const progress = state.xpToNextLevel > 0 ? (state.xpInCurrentLevel / state.xpToNextLevel) * 100 : 100;
 
   const getLevelColor = (level: number) => {
@@ -123,7 +130,7 @@ export default function XPBar() {
                 <div>
                   <p className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wider mb-1.5">Recent</p>
                   <div className="space-y-1 max-h-32 overflow-auto">
-                    {recentEvents.slice().reverse().map((e, i) => (
+                    {recentEvents.map((e, i) => (
                       <div key={i} className="flex items-center justify-between text-xs py-0.5">
                         <span className="text-muted-foreground truncate">{e.type.replace(/_/g, " ").toLowerCase()}</span>
                         <span className="text-green-500 font-semibold flex-shrink-0">+{e.xp} XP</span>
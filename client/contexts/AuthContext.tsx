@@ -1,5 +1,6 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { api } from '@/lib/api';
+import { api, setSession, clearSession, hasSession } from '@/lib/api';
+import { disconnectRealtimeSocket } from '@/lib/realtimeSocket';
 
 interface User {
   id: number;
@@ -26,15 +27,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   useEffect(() => {
     const fetchCurrentUser = async () => {
       try {
-        const userId = localStorage.getItem('userId');
-        if (userId) {
+        if (hasSession()) {
           const response = await api('/api/auth/me');
           if (response.ok) {
             const data = await response.json();
             setUser(data.user);
           } else {
             // Clear invalid session
-            localStorage.removeItem('userId');
+            clearSession();
           }
         }
       } catch (error) {
@@ -61,6 +61,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       }
 
       const data = await response.json();
+      setSession(data);
       setUser(data.user);
       localStorage.setItem('userId', data.user.id.toString());
     } catch (error) {
@@ -83,6 +84,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       }
 
       const data = await response.json();
+      setSession(data);
       setUser(data.user);
       localStorage.setItem('userId', data.user.id.toString());
     } catch (error) {
@@ -95,7 +97,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     try {
       await api('/api/auth/logout', { method: 'POST' });
       setUser(null);
-      localStorage.removeItem('userId');
+      clearSession();
+      disconnectRealtimeSocket();
     } catch (error) {
       console.error('Logout error:', error);
       throw error;
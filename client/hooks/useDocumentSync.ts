@@ -0,0 +1,142 @@
+import { useEffect, useMemo, useState } from 'react';
+import * as Y from 'yjs';
+import { Awareness, applyAwarenessUpdate, encodeAwarenessUpdate, removeAwarenessStates } from 'y-protocols/awareness';
+import { createAuthenticatedSocket } from '@/lib/realtimeSocket';
+
+export type DocumentSyncStatus = 'connecting' | 'synced' | 'offline';
+
+interface JoinResult {
+  ok: boolean;
+  error?: string;
+  canEdit: boolean;
+  seed: string | null;
+  generation: number;
+  update: ArrayBuffer;
+  stateVector: ArrayBuffer;
+  awareness: ArrayBuffer;
+}
+
+// Origin for changes that came from the server, so they aren't echoed back
+const REMOTE = 'remote';
+
+/**
+ * Keep a Yjs document in sync over the /documents namespace. Edits made while disconnected stay
+ * in the local document and are exchanged with the server's state when the socket reconnects.
+ * When the server throws its state away (a version was restored) the local document is replaced.
+ */
+export function useDocumentSync(documentId: string | undefined) {
+  // Bumped to start over with an empty document
+  const [resets, setResets] = useState(0);
+  const { doc, awareness } = useMemo(() => {
+    const doc = new Y.Doc();
+    return { doc, awareness: new Awareness(doc) };
+  }, [documentId, resets]);
+
+  const [status, setStatus] = useState<DocumentSyncStatus>('connecting');
+  const [canEdit, setCanEdit] = useState(false);
+  // The stored content this client should import into the shared document, if it was asked to
+  const [seed, setSeed] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!documentId) return;
+
+    const socket = createAuthenticatedSocket('/documents');
+    let joined = false;
+    // The server state this document was synced with. Merging it into a newer one would bring back
+    // what the reset removed, so a mismatch starts over instead.
+    let generation: number | null = null;
+    setStatus('connecting');
+    setSeed(null);
+
+    const join = () => {
+      setStatus('connecting');
+      socket.emit(
+        'join-document',
+        { documentId, stateVector: Y.encodeStateVector(doc) },
+        (result: JoinResult) => {
+          if (!result.ok) {
+            setError(result.error ?? 'Failed to open document');
+            return;
+          }
+          if (generation !== null && result.generation !== generation) {
+            setResets((n) => n + 1);
+            return;
+          }
+          generation = result.generation;
+
+          Y.applyUpdate(doc, new Uint8Array(result.update), REMOTE);
+          applyAwarenessUpdate(awareness, new Uint8Array(result.awareness), REMOTE);
+
+          // Send back whatever the server hasn't seen, e.g. edits made while offline
+          if (result.canEdit) {
+            socket.emit('document-update', {
+              update: Y.encodeStateAsUpdate(doc, new Uint8Array(result.stateVector)),
+            });
+          }
+          if (awareness.getLocalState()) {
+            socket.emit('awareness-update', { update: encodeAwarenessUpdate(awareness, [doc.clientID]) });
+          }
+
+          joined = true;
+          setError(null);
+          setCanEdit(result.canEdit);
+          setSeed(result.seed);
+          setStatus('synced');
+        }
+      );
+    };
+
+    const onDocumentUpdate = (update: Uint8Array, origin: unknown) => {
+      if (origin !== REMOTE && joined) socket.emit('document-update', { update });
+    };
+
+    const onAwarenessUpdate = (
+      { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+      origin: unknown
+    ) => {
+      if (origin === REMOTE || !joined) return;
+      socket.emit('awareness-update', {
+        update: encodeAwarenessUpdate(awareness, added.concat(updated, removed)),
+      });
+    };
+
+    socket.on('connect', join);
+
+    socket.on('disconnect', () => {
+      joined = false;
+      setStatus('offline');
+      // Other people's cursors are stale until we're back
+      const others = Array.from(awareness.getStates().keys()).filter((id) => id !== doc.clientID);
+      removeAwarenessStates(awareness, others, REMOTE);
+    });
+
+    socket.on('document-update', ({ update }: { update: ArrayBuffer }) => {
+      Y.applyUpdate(doc, new Uint8Array(update), REMOTE);
+    });
+
+    socket.on('awareness-update', ({ update }: { update: ArrayBuffer }) => {
+      applyAwarenessUpdate(awareness, new Uint8Array(update), REMOTE);
+    });
+
+    // The server's state was replaced: joining again finds the new generation
+    socket.on('document-reset', () => {
+      joined = false;
+      join();
+    });
+
+    doc.on('update', onDocumentUpdate);
+    awareness.on('update', onAwarenessUpdate);
+
+    return () => {
+      doc.off('update', onDocumentUpdate);
+      awareness.off('update', onAwarenessUpdate);
+      socket.emit('leave-document');
+      socket.disconnect();
+      awareness.destroy();
+      doc.destroy();
+    };
+  }, [documentId, doc, awareness]);
+
+  return { doc, awareness, status, canEdit, seed, error };
+}
@@ -0,0 +1,33 @@
+import { useEffect, useState } from "react";
+import { api } from "@/lib/api";
+import type { TaskPerson } from "@/lib/taskPeople";
+
+/**
+ * Fetch the people who can be assigned to or watch a project's tasks: its owner and members
+ */
+export function useProjectMembers(projectId: number | null | undefined) {
+  const [members, setMembers] = useState<TaskPerson[]>([]);
+
+  useEffect(() => {
+    if (!projectId) {
+      setMembers([]);
+      return;
+    }
+
+    let cancelled = false;
+    api(`/api/projects/${projectId}/members`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled && Array.isArray(data)) {
+          setMembers(data.map((m: { user: TaskPerson }) => m.user));
+        }
+      })
+      .catch(() => {});
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  return members;
+}
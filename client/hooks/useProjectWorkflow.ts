@@ -0,0 +1,31 @@
+import { useEffect, useState } from "react";
+import { api } from "@/lib/api";
+import { DEFAULT_WORKFLOW, type WorkflowStatus } from "@/lib/workflow";
+
+/**
+ * Fetch a project's workflow, falling back to the default columns until it loads
+ */
+export function useProjectWorkflow(projectId: number | null | undefined) {
+  const [statuses, setStatuses] = useState<WorkflowStatus[]>(DEFAULT_WORKFLOW);
+
+  useEffect(() => {
+    if (!projectId) {
+      setStatuses(DEFAULT_WORKFLOW);
+      return;
+    }
+
+    let cancelled = false;
+    api(`/api/projects/${projectId}/workflow`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled && Array.isArray(data?.statuses)) setStatuses(data.statuses);
+      })
+      .catch(() => {});
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  return statuses;
+}
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Task } from "@/components/TaskCard";
+
+/**
+ * Multi-select for task cards. Ctrl/Cmd-click toggles a card, Shift-click selects the range
+ * from the last clicked card through `orderedIds` (the tasks in the order they're shown).
+ * Plain clicks aren't handled, so they still open the task. Escape clears the selection.
+ */
+export function useTaskSelection(orderedIds: number[]) {
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const anchorRef = useRef<number | null>(null);
+
+  // Forget tasks that disappear from the view (deleted, filtered out, moved away)
+  const visibleKey = orderedIds.join(",");
+  useEffect(() => {
+    setSelectedIds((prev) => {
+      const next = prev.filter((id) => orderedIds.includes(id));
+      return next.length === prev.length ? prev : next;
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visibleKey]);
+
+  const clearSelection = useCallback(() => {
+    setSelectedIds([]);
+    anchorRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") clearSelection();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [clearSelection]);
+
+  // Returns true when the click was a selection gesture
+  const handleSelect = (task: Task, e: { shiftKey: boolean; ctrlKey: boolean; metaKey: boolean }) => {
+    if (e.shiftKey && anchorRef.current !== null) {
+      const from = orderedIds.indexOf(anchorRef.current);
+      const to = orderedIds.indexOf(task.id);
+      if (from !== -1 && to !== -1) {
+        const range = orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+        setSelectedIds((prev) => Array.from(new Set([...prev, ...range])));
+        return true;
+      }
+    }
+    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      anchorRef.current = task.id;
+      setSelectedIds((prev) => (prev.includes(task.id) ? prev.filter((id) => id !== task.id) : [...prev, task.id]));
+      return true;
+    }
+    return false;
+  };
+
+  return { selectedIds, isSelected: (id: number) => selectedIds.includes(id), handleSelect, clearSelection };
+}
@@ -1,5 +1,19 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { io, Socket } from 'socket.io-client';
+import { Socket } from 'socket.io-client';
+import { toast } from 'sonner';
+import { Editor, TLRecord, TLStoreSnapshot, loadSnapshot } from 'tldraw';
+import { createAuthenticatedSocket } from '@/lib/realtimeSocket';
+import {
+  diffIds,
+  emptyDiff,
+  isEmptyDiff,
+  squashDiffs,
+  toBoardDiff,
+  withoutRecords,
+  type BoardDiff,
+  type BoardRecord,
+  type RecordChanges,
+} from '@/lib/whiteboardSync';
 
 export interface RemoteCursor {
   socketId: string;
@@ -15,48 +29,147 @@ export interface WhiteboardUser {
   color: string;
 }
 
+export type WhiteboardSyncStatus = 'connecting' | 'synced' | 'offline';
+
+type JoinResult =
+  | { ok: false; error: string }
+  | { ok: true; canEdit: boolean; seed: boolean; records: BoardRecord[]; schema: unknown; clock: number };
+
+type ChangeResult = { ok: true; clock: number } | { ok: false; error: string };
+
+// Local changes are gathered for this long and sent as one
+const SEND_DELAY_MS = 100;
+
 interface UseWhiteboardSocketOptions {
   projectId: string;
-  userName: string;
-  onCanvasChange?: (change: any) => void;
-  onCursorUpdate?: (cursor: RemoteCursor) => void;
-  onUserJoined?: (user: WhiteboardUser) => void;
-  onUserLeft?: (socketId: string) => void;
+  // The mounted tldraw editor; nothing is synced until there is one
+  editor: Editor | null;
 }
 
-export function useWhiteboardSocket({
-  projectId,
-  userName,
-  onCanvasChange,
-  onCursorUpdate,
-  onUserJoined,
-  onUserLeft,
-}: UseWhiteboardSocketOptions) {
+/**
+ * Keep a tldraw editor in sync with the server's copy of a project board. The server applies
+ * changes in the order they arrive: local changes are shown at once and sent in batches, and
+ * remote ones are applied except for records with local changes still on their way. Changes made
+ * while disconnected are sent when the socket reconnects.
+ */
+export function useWhiteboardSocket({ projectId, editor }: UseWhiteboardSocketOptions) {
   const socketRef = useRef<Socket | null>(null);
-  const [isConnected, setIsConnected] = useState(false);
+  const [status, setStatus] = useState<WhiteboardSyncStatus>('connecting');
+  const [canEdit, setCanEdit] = useState(false);
+  // Local changes the server hasn't confirmed yet
+  const [unsavedChanges, setUnsavedChanges] = useState(0);
+  const [error, setError] = useState<string | null>(null);
   const [users, setUsers] = useState<WhiteboardUser[]>([]);
   const [remoteCursors, setRemoteCursors] = useState<Map<string, RemoteCursor>>(new Map());
 
   useEffect(() => {
-    // Connect to the whiteboard namespace
-    const socket = io('/whiteboard', {
-      path: '/socket.io',
-      transports: ['websocket', 'polling'],
-    });
+    if (!projectId || !editor) return;
 
+    const socket = createAuthenticatedSocket('/whiteboard');
     socketRef.current = socket;
+    const { store } = editor;
 
-    socket.on('connect', () => {
-      console.log('Connected to whiteboard socket');
-      setIsConnected(true);
-      
-      // Join the room for this project
-      socket.emit('join-room', { projectId, userName });
-    });
+    let joined = false;
+    // Sent and waiting for the server, oldest first
+    let sent: BoardDiff[] = [];
+    // Not sent yet
+    let buffered = emptyDiff();
+    let sendTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const countUnsaved = () => setUnsavedChanges(sent.length + (isEmptyDiff(buffered) ? 0 : 1));
+
+    const applyToStore = (diff: BoardDiff) => {
+      const gone = diff.remove.filter((id) => store.has(id as TLRecord['id']));
+      if (gone.length > 0) store.remove(gone as TLRecord['id'][]);
+      if (diff.put.length > 0) store.put(diff.put as unknown as TLRecord[]);
+    };
+
+    const send = (diff: BoardDiff) => {
+      sent.push(diff);
+      countUnsaved();
+      socket.emit('canvas-change', { diff }, (result: ChangeResult) => {
+        // Dropped by a rejoin, which sends it again
+        if (!sent.includes(diff)) return;
+        sent = sent.filter((d) => d !== diff);
+        countUnsaved();
+        if ('error' in result) {
+          // The server's board doesn't have this change: load it again so we match
+          toast.error(result.error);
+          join();
+        }
+      });
+    };
+
+    const flush = () => {
+      sendTimer = null;
+      if (!joined || isEmptyDiff(buffered)) return;
+      const diff = buffered;
+      buffered = emptyDiff();
+      send(diff);
+    };
+
+    const join = () => {
+      joined = false;
+      setStatus('connecting');
+      socket.emit('join-room', { projectId, schema: store.schema.serialize() }, (result: JoinResult) => {
+        if ('error' in result) {
+          setError(result.error);
+          return;
+        }
+
+        // Changes the server may not have: everything unconfirmed, which it applies again harmlessly
+        const unsent = [...sent, buffered].reduce(squashDiffs, emptyDiff());
+        sent = [];
+        buffered = emptyDiff();
+
+        if (result.seed) {
+          // The board is empty: what this editor started with becomes its first page
+          const records = store.allRecords().filter((r) => store.scopedTypes.document.has(r.typeName));
+          send({ put: records as unknown as BoardRecord[], remove: [] });
+        } else {
+          store.mergeRemoteChanges(() => {
+            const snapshot = {
+              store: Object.fromEntries(result.records.map((record) => [record.id, record])),
+              schema: result.schema ?? store.schema.serialize(),
+            } as unknown as TLStoreSnapshot;
+            loadSnapshot(store, snapshot);
+            if (result.canEdit) applyToStore(unsent);
+          });
+          if (result.canEdit && !isEmptyDiff(unsent)) send(unsent);
+        }
+
+        joined = true;
+        editor.updateInstanceState({ isReadonly: !result.canEdit });
+        setError(null);
+        setCanEdit(result.canEdit);
+        setStatus('synced');
+        countUnsaved();
+      });
+    };
+
+    const unlisten = store.listen(
+      ({ changes }) => {
+        buffered = squashDiffs(buffered, toBoardDiff(changes as unknown as RecordChanges<BoardRecord>));
+        countUnsaved();
+        if (joined && !sendTimer) sendTimer = setTimeout(flush, SEND_DELAY_MS);
+      },
+      { source: 'user', scope: 'document' }
+    );
+
+    socket.on('connect', join);
 
     socket.on('disconnect', () => {
-      console.log('Disconnected from whiteboard socket');
-      setIsConnected(false);
+      joined = false;
+      setStatus('offline');
+      setUsers([]);
+      setRemoteCursors(new Map());
+    });
+
+    // Changes from other people, in the order the server applied them
+    socket.on('canvas-change', ({ diff }: { diff: BoardDiff }) => {
+      if (!joined) return;
+      const pending = diffIds([...sent, buffered]);
+      store.mergeRemoteChanges(() => applyToStore(withoutRecords(diff, pending)));
     });
 
     // Handle room users list
@@ -66,8 +179,7 @@ export function useWhiteboardSocket({
 
     // Handle new user joining
     socket.on('user-joined', (user: WhiteboardUser) => {
-      setUsers(prev => [...prev, user]);
-      onUserJoined?.(user);
+      setUsers(prev => [...prev.filter(u => u.socketId !== user.socketId), user]);
     });
 
     // Handle user leaving
@@ -78,12 +190,6 @@ export function useWhiteboardSocket({
         newCursors.delete(socketId);
         return newCursors;
       });
-      onUserLeft?.(socketId);
-    });
-
-    // Handle canvas changes from other users
-    socket.on('canvas-change', ({ change, userId }: { change: any; userId: string }) => {
-      onCanvasChange?.(change);
     });
 
     // Handle cursor updates from other users
@@ -93,21 +199,18 @@ export function useWhiteboardSocket({
         newCursors.set(cursor.socketId, cursor);
         return newCursors;
       });
-      onCursorUpdate?.(cursor);
     });
 
     // Cleanup on unmount
     return () => {
+      unlisten();
+      if (sendTimer) clearTimeout(sendTimer);
+      // Send what's left before going
+      flush();
       socket.disconnect();
+      socketRef.current = null;
     };
-  }, [projectId, userName]);
-
-  // Emit canvas change
-  const emitCanvasChange = useCallback((change: any) => {
-    if (socketRef.current?.connected) {
-      socketRef.current.emit('canvas-change', { change, projectId });
-    }
-  }, [projectId]);
+  }, [projectId, editor]);
 
   // Emit cursor movement
   const emitCursorMove = useCallback((x: number, y: number) => {
@@ -117,10 +220,12 @@ export function useWhiteboardSocket({
   }, []);
 
   return {
-    isConnected,
+    status,
+    canEdit,
+    unsavedChanges,
+    error,
     users,
     remoteCursors: Array.from(remoteCursors.values()),
-    emitCanvasChange,
     emitCursorMove,
   };
 }
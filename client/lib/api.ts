@@ -6,39 +6,116 @@ type FetchOptions = RequestInit & {
   skipAuth?: boolean;
 };
 
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn?: number;
+}
+
+const ACCESS_TOKEN_KEY = 'accessToken';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+
+export const getAccessToken = () => localStorage.getItem(ACCESS_TOKEN_KEY);
+
+export const hasSession = () => !!localStorage.getItem(REFRESH_TOKEN_KEY);
+
+/**
+ * Persist the tokens returned by login/register/refresh
+ */
+export function setSession(tokens: SessionTokens) {
+  localStorage.setItem(ACCESS_TOKEN_KEY, tokens.accessToken);
+  localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+}
+
+export function clearSession() {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  localStorage.removeItem('userId');
+}
+
+// Share one in-flight refresh between concurrent 401s, since refresh tokens rotate
+let refreshPromise: Promise<boolean> | null = null;
+
 /**
- * Wrapper around fetch that automatically includes the x-user-id header
+ * Exchange the stored refresh token for a new token pair.
+ * Resolves to false (and clears the session) when the refresh token is no longer valid.
+ */
+export function refreshAccessToken(): Promise<boolean> {
+  if (refreshPromise) return refreshPromise;
+
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken) return Promise.resolve(false);
+
+  refreshPromise = (async () => {
+    try {
+      const response = await fetch('/api/auth/refresh', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken }),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) clearSession();
+        return false;
+      }
+
+      setSession(await response.json());
+      return true;
+    } catch {
+      return false;
+    } finally {
+      refreshPromise = null;
+    }
+  })();
+
+  return refreshPromise;
+}
+
+/**
+ * Wrapper around fetch that automatically includes the bearer access token,
+ * refreshing it once and retrying when the server reports it expired
  */
 export async function api(url: string, options: FetchOptions = {}): Promise<Response> {
   const { skipAuth, ...fetchOptions } = options;
-  
-  const headers = new Headers(fetchOptions.headers);
-  
-  // Add Content-Type for JSON if body is present and not FormData
-  if (fetchOptions.body && !(fetchOptions.body instanceof FormData)) {
-    if (!headers.has('Content-Type')) {
-      headers.set('Content-Type', 'application/json');
+
+  const send = () => {
+    const headers = new Headers(fetchOptions.headers);
+
+    // Add Content-Type for JSON if body is present and not FormData
+    if (fetchOptions.body && !(fetchOptions.body instanceof FormData)) {
+      if (!headers.has('Content-Type')) {
+        headers.set('Content-Type', 'application/json');
+      }
     }
-  }
-  
-  // Add user ID header for authentication (unless explicitly skipped)
-  if (!skipAuth) {
-    const userId = localStorage.getItem('userId');
-    if (userId) {
-      headers.set('x-user-id', userId);
+
+    // Add access token for authentication (unless explicitly skipped)
+    if (!skipAuth) {
+      const token = getAccessToken();
+      if (token) {
+        headers.set('Authorization', `Bearer ${token}`);
+      }
     }
+
+    return fetch(url, {
+      ...fetchOptions,
+      headers,
+    });
+  };
+
+  const response = await send();
+
+  if (response.status === 401 && !skipAuth && hasSession()) {
+    const refreshed = await refreshAccessToken();
+    if (refreshed) return send();
   }
-  
-  return fetch(url, {
-    ...fetchOptions,
-    headers,
-  });
+
+  return response;
 }
 
 /**
  * Convenience methods for common HTTP methods
  */
-export const apiGet = (url: string, options?: FetchOptions) => 
+export const apiGet = (url: string, options?: FetchOptions) =>
   api(url, { ...options, method: 'GET' });
 
 export const apiPost = (url: string, data?: unknown, options?: FetchOptions) =>
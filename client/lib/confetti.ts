@@ -56,40 +56,3 @@ export const confettiBurst = (opts?: { count?: number }) => {
     container.remove();
   }, 1400);
 };
-
-export const bumpCompletionStreak = () => {
-  if (typeof window === "undefined") return { streak: 0, lastDate: null as string | null };
-
-  const today = new Date().toISOString().slice(0, 10);
-  const lastDate = window.localStorage.getItem("completionStreak:lastDate");
-  const streakRaw = window.localStorage.getItem("completionStreak:streak");
-  const prevStreak = streakRaw ? parseInt(streakRaw) : 0;
-
-  let nextStreak = 1;
-
-  if (lastDate) {
-    const last = new Date(lastDate);
-    const expected = new Date(today);
-    expected.setDate(expected.getDate() - 1);
-    const expectedKey = expected.toISOString().slice(0, 10);
-
-    if (lastDate === today) {
-      nextStreak = prevStreak;
-    } else if (lastDate === expectedKey) {
-      nextStreak = prevStreak + 1;
-    }
-  }
-
-  window.localStorage.setItem("completionStreak:lastDate", today);
-  window.localStorage.setItem("completionStreak:streak", String(nextStreak));
-
-  return { streak: nextStreak, lastDate: today };
-};
-
-export const readCompletionStreak = () => {
-  if (typeof window === "undefined") return { streak: 0, lastDate: null as string | null };
-  const lastDate = window.localStorage.getItem("completionStreak:lastDate");
-  const streakRaw = window.localStorage.getItem("completionStreak:streak");
-  const streak = streakRaw ? parseInt(streakRaw) : 0;
-  return { streak: Number.isNaN(streak) ? 0 : streak, lastDate };
-};
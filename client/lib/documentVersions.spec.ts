@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { diffCells, diffText, documentText, versionTitle, type DocumentVersion } from "./documentVersions";
+
+const html = (content: string) => JSON.stringify({ content });
+const sheet = (cells: Record<string, string | number>) => JSON.stringify({ cells });
+
+describe("diffText", () => {
+  it("marks the words that changed", () => {
+    expect(diffText("The quick brown fox", "The slow brown fox jumps")).toEqual([
+      { type: "equal", text: "The " },
+      { type: "delete", text: "quick" },
+      { type: "insert", text: "slow" },
+      { type: "equal", text: " brown fox" },
+      { type: "insert", text: " jumps" },
+    ]);
+  });
+
+  it("handles empty and identical texts", () => {
+    expect(diffText("", "")).toEqual([]);
+    expect(diffText("same\ntext", "same\ntext")).toEqual([{ type: "equal", text: "same\ntext" }]);
+    expect(diffText("gone", "")).toEqual([{ type: "delete", text: "gone" }]);
+  });
+
+  it("can be replayed to give both texts", () => {
+    const before = "a b c d e f\ng h i\nj k";
+    const after = "a c d x f\nh i y\nj k z";
+    const parts = diffText(before, after);
+    expect(
+      parts
+        .filter((p) => p.type !== "insert")
+        .map((p) => p.text)
+        .join(""),
+    ).toBe(before);
+    expect(
+      parts
+        .filter((p) => p.type !== "delete")
+        .map((p) => p.text)
+        .join(""),
+    ).toBe(after);
+  });
+});
+
+describe("documentText", () => {
+  it("puts each block on its own line and decodes entities", () => {
+    const content = html(
+      "<h1>Plan</h1><p>Rock &amp; roll<br>next</p><ul><li><p>one</p></li><li><p>two</p></li></ul><p></p>",
+    );
+    expect(documentText(content)).toBe("Plan\nRock & roll\nnext\n• one\n• two");
+    expect(documentText("not json")).toBe("");
+  });
+});
+
+describe("diffCells", () => {
+  it("lists changed cells in reading order", () => {
+    expect(
+      diffCells(sheet({ A1: "x", B2: 1, AA1: "wide", C1: "same" }), sheet({ A1: "y", B1: "new", C1: "same", B10: "" })),
+    ).toEqual([
+      { cell: "A1", before: "x", after: "y" },
+      { cell: "B1", before: "", after: "new" },
+      { cell: "AA1", before: "wide", after: "" },
+      { cell: "B2", before: "1", after: "" },
+    ]);
+  });
+});
+
+describe("versionTitle", () => {
+  it("names restores after what they brought back", () => {
+    const version: DocumentVersion = {
+      id: 3,
+      documentId: 1,
+      kind: "restore",
+      name: null,
+      createdAt: "2026-10-20T12:00:00.000Z",
+      author: { id: 1, name: "Ada" },
+      restoredFrom: { id: 1, name: "Draft", createdAt: "2026-10-19T12:00:00.000Z" },
+    };
+    expect(versionTitle(version)).toBe("Restored “Draft”");
+    expect(versionTitle({ ...version, restoredFrom: null })).toBe("Restored an earlier version");
+    expect(versionTitle({ ...version, kind: "auto", restoredFrom: null })).toBe("Automatic save");
+  });
+});
@@ -0,0 +1,259 @@
+import { api } from "@/lib/api";
+
+// Version history from /api/documents/file/:id/versions, and the diffs the history panel shows
+
+export type VersionKind = "auto" | "named" | "restore";
+
+export interface DocumentVersion {
+  id: number;
+  documentId: number;
+  kind: VersionKind;
+  name: string | null;
+  createdAt: string;
+  author: { id: number; name: string };
+  restoredFrom: { id: number; name: string | null; createdAt: string } | null;
+}
+
+export interface DocumentVersionWithContent extends DocumentVersion {
+  content: string;
+}
+
+const versionsUrl = (documentId: number | string) => `/api/documents/file/${documentId}/versions`;
+
+export async function fetchVersions(documentId: number | string): Promise<DocumentVersion[] | { error: string }> {
+  const res = await api(versionsUrl(documentId));
+  const data = await res.json().catch(() => null);
+  if (!res.ok) return { error: data?.error || "Failed to load version history" };
+  return data;
+}
+
+export async function fetchVersion(
+  documentId: number | string,
+  versionId: number
+): Promise<DocumentVersionWithContent | { error: string }> {
+  const res = await api(`${versionsUrl(documentId)}/${versionId}`);
+  const data = await res.json().catch(() => null);
+  if (!res.ok) return { error: data?.error || "Failed to load version" };
+  return data;
+}
+
+/**
+ * Keep the document as it was last saved under a name
+ */
+export async function saveNamedVersion(
+  documentId: number | string,
+  name: string
+): Promise<DocumentVersion | { error: string }> {
+  const res = await api(versionsUrl(documentId), { method: "POST", body: JSON.stringify({ name }) });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) return { error: data?.error || "Failed to save version" };
+  return data;
+}
+
+/**
+ * Make a version the document's content again. Resolves to the restored content and the new
+ * version recording the restore.
+ */
+export async function restoreVersion(
+  documentId: number | string,
+  versionId: number
+): Promise<{ content: string; version: DocumentVersion } | { error: string }> {
+  const res = await api(`${versionsUrl(documentId)}/${versionId}/restore`, { method: "POST" });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) return { error: data?.error || "Failed to restore version" };
+  return { content: data.document.content, version: data.version };
+}
+
+export const versionTitle = (version: DocumentVersion) => {
+  if (version.kind === "restore") {
+    const from = version.restoredFrom;
+    if (!from) return "Restored an earlier version";
+    return `Restored ${from.name ? `“${from.name}”` : `version from ${new Date(from.createdAt).toLocaleString()}`}`;
+  }
+  return version.name ?? "Automatic save";
+};
+
+// Diffs
+
+export type DiffType = "equal" | "insert" | "delete";
+
+export interface DiffPart {
+  type: DiffType;
+  text: string;
+}
+
+// Past this many changed words a diff just shows everything removed and everything added
+const MAX_DIFF_EDITS = 2000;
+
+/**
+ * Shortest edit script between two token lists (Myers' algorithm), as one type per step
+ */
+const diffTokens = (a: string[], b: string[]): DiffType[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // The frontier before each round, trimmed to the diagonals that round reads: -d-1 to d+1
+  const trace: Int32Array[] = [];
+
+  const startsDown = (frontier: Int32Array, base: number, k: number, d: number) =>
+    k === -d || (k !== d && frontier[base + k - 1] < frontier[base + k + 1]);
+
+  for (let d = 0; d <= Math.min(max, MAX_DIFF_EDITS); d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = startsDown(v, offset, k, d) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x < n || y < m) continue;
+
+      // Walk back from the end to recover the path
+      const steps: DiffType[] = [];
+      let px = n;
+      let py = m;
+      for (let step = d; step >= 0; step--) {
+        const frontier = trace[step];
+        const base = step + 1;
+        const pk = px - py;
+        const prevK = startsDown(frontier, base, pk, step) ? pk + 1 : pk - 1;
+        const prevX = step === 0 ? 0 : frontier[base + prevK];
+        const prevY = step === 0 ? 0 : prevX - prevK;
+        while (px > prevX && py > prevY) {
+          steps.push("equal");
+          px--;
+          py--;
+        }
+        if (step > 0) steps.push(px === prevX ? "insert" : "delete");
+        px = prevX;
+        py = prevY;
+      }
+      return steps.reverse();
+    }
+  }
+  return null;
+};
+
+// Words, runs of spaces, line breaks and single punctuation marks, so changes line up on words
+const tokenize = (text: string) => text.match(/[\p{L}\p{N}_]+|\n|[^\S\n]+|[^\p{L}\p{N}_\s]/gu) ?? [];
+
+/**
+ * Word-by-word differences between two texts
+ */
+export const diffText = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const parts: DiffPart[] = [];
+  const push = (type: DiffType, text: string) => {
+    if (!text) return;
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+
+  // Most edits touch a small part of a document; only diff what's between the common ends
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+
+  const midA = a.slice(start, a.length - end);
+  const midB = b.slice(start, b.length - end);
+  push("equal", a.slice(0, start).join(""));
+  const steps = diffTokens(midA, midB);
+  if (steps) {
+    let i = 0;
+    let j = 0;
+    for (const step of steps) {
+      if (step === "equal") {
+        push("equal", midA[i++]);
+        j++;
+      } else if (step === "delete") push("delete", midA[i++]);
+      else push("insert", midB[j++]);
+    }
+  } else {
+    push("delete", midA.join(""));
+    push("insert", midB.join(""));
+  }
+  push("equal", a.slice(a.length - end).join(""));
+  return parts;
+};
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+/**
+ * The text of a rich-text document's content, one line per paragraph, heading or list item
+ */
+export const documentText = (content: string) => {
+  let html = "";
+  try {
+    const parsed = JSON.parse(content);
+    if (typeof parsed?.content === "string") html = parsed.content;
+  } catch {
+    return "";
+  }
+  return decodeEntities(
+    html
+      .replace(/<li[^>]*>/gi, "\n• ")
+      .replace(/<br\s*\/?>|<\/(p|h[1-6]|li|blockquote|pre|div)>|<hr[^>]*>/gi, "\n")
+      .replace(/<[^>]+>/g, "")
+  )
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line && line !== "•")
+    .join("\n");
+};
+
+export const spreadsheetCells = (content: string): Record<string, string> => {
+  try {
+    const cells = JSON.parse(content)?.cells;
+    if (!cells || typeof cells !== "object") return {};
+    return Object.fromEntries(
+      Object.entries(cells)
+        .filter(([, value]) => value !== null && value !== undefined && value !== "")
+        .map(([key, value]) => [key, String(value)])
+    );
+  } catch {
+    return {};
+  }
+};
+
+export interface CellChange {
+  cell: string;
+  before: string;
+  after: string;
+}
+
+const cellOrder = (key: string) => {
+  const match = /^([A-Z]+)(\d+)$/.exec(key);
+  return match ? { row: parseInt(match[2], 10), col: match[1] } : { row: Infinity, col: key };
+};
+
+/**
+ * Cells whose input differs between two spreadsheet contents, row by row
+ */
+export const diffCells = (before: string, after: string): CellChange[] => {
+  const a = spreadsheetCells(before);
+  const b = spreadsheetCells(after);
+  return Array.from(new Set([...Object.keys(a), ...Object.keys(b)]))
+    .filter((cell) => (a[cell] ?? "") !== (b[cell] ?? ""))
+    .sort((x, y) => {
+      const p = cellOrder(x);
+      const q = cellOrder(y);
+      return p.row - q.row || p.col.length - q.col.length || p.col.localeCompare(q.col);
+    })
+    .map((cell) => ({ cell, before: a[cell] ?? "", after: b[cell] ?? "" }));
+};
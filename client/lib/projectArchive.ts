@@ -0,0 +1,43 @@
+import { api } from "@/lib/api";
+
+// Project archives from GET /api/projects/:id/export, restored by POST /api/projects/import
+
+const filenameFrom = (res: Response, fallback: string) =>
+  /filename="([^"]+)"/.exec(res.headers.get("Content-Disposition") ?? "")?.[1] ?? fallback;
+
+/**
+ * Download a project as a .zip archive. Resolves to an error message on failure.
+ */
+export async function downloadProjectArchive(projectId: number): Promise<string | null> {
+  const res = await api(`/api/projects/${projectId}/export`);
+  if (!res.ok) {
+    const data = await res.json().catch(() => null);
+    return data?.error || "Failed to export project";
+  }
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filenameFrom(res, `project-${projectId}.proup.zip`);
+  link.click();
+  URL.revokeObjectURL(url);
+  return null;
+}
+
+export interface RestoredProject {
+  project: { id: number; name: string };
+  // Members with an account here, who were sent an invitation to the copy
+  invited: string[];
+  // Emails in the archive with no account here
+  unmatchedUsers: string[];
+}
+
+export async function restoreProjectArchive(file: File): Promise<RestoredProject | { error: string }> {
+  const res = await api("/api/projects/import", {
+    method: "POST",
+    headers: { "Content-Type": "application/zip" },
+    body: file,
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) return { error: data?.error || "Failed to restore project" };
+  return data;
+}
@@ -1,15 +1,43 @@
 import { io, Socket } from "socket.io-client";
+import { getAccessToken, refreshAccessToken } from "@/lib/api";
 
 let socket: Socket | null = null;
 
-export const getRealtimeSocket = () => {
-  if (socket) return socket;
-
-  socket = io({
+/**
+ * Connect with the current access token. The auth callback runs on every
+ * (re)connect, so a refreshed token is picked up automatically.
+ */
+export const createAuthenticatedSocket = (namespace = "/") => {
+  const instance = io(namespace, {
     path: "/socket.io",
     transports: ["websocket", "polling"],
+    auth: (cb) => cb({ token: getAccessToken() }),
+  });
+
+  // The server rejects the handshake once the access token expires: refresh and retry once
+  let retried = false;
+  instance.on("connect_error", async () => {
+    if (retried) return;
+    retried = true;
+    if (await refreshAccessToken()) instance.connect();
+  });
+  instance.on("connect", () => {
+    retried = false;
+  });
+  // The server drops sockets when their token expires or the user's access changes; reconnecting
+  // lets them back in with what they're allowed now (a revoked session can't)
+  instance.on("disconnect", (reason) => {
+    if (reason === "io server disconnect") instance.connect();
   });
 
+  return instance;
+};
+
+export const getRealtimeSocket = () => {
+  if (socket) return socket;
+
+  socket = createAuthenticatedSocket();
+
   return socket;
 };
 
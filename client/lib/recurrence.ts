@@ -0,0 +1,45 @@
+// Recurring task rules. Mirrors server/services/recurrence.ts
+
+export type RecurrenceFreq = "daily" | "weekly" | "monthly";
+
+export interface RecurrenceRule {
+  freq: RecurrenceFreq;
+  interval: number;
+  byWeekday?: number[];
+  byMonthDay?: number;
+  start?: string;
+  until?: string | null;
+  count?: number | null;
+}
+
+export const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const parseRecurrence = (raw: string | null | undefined): RecurrenceRule | null => {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as RecurrenceRule;
+  } catch {
+    return null;
+  }
+};
+
+const ordinal = (n: number) => {
+  const suffix = n % 10 === 1 && n !== 11 ? "st" : n % 10 === 2 && n !== 12 ? "nd" : n % 10 === 3 && n !== 13 ? "rd" : "th";
+  return `${n}${suffix}`;
+};
+
+/** Human-readable summary, e.g. "Every 2 weeks on Mon, Thu, 5 times" */
+export const describeRecurrence = (rule: RecurrenceRule) => {
+  const unit = { daily: "day", weekly: "week", monthly: "month" }[rule.freq];
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+
+  if (rule.freq === "weekly" && rule.byWeekday?.length) {
+    text += ` on ${rule.byWeekday.map((d) => WEEKDAYS[d]).join(", ")}`;
+  }
+  if (rule.freq === "monthly" && rule.byMonthDay) {
+    text += ` on the ${ordinal(rule.byMonthDay)}`;
+  }
+  if (rule.count) text += `, ${rule.count} time${rule.count !== 1 ? "s" : ""}`;
+  if (rule.until) text += ` until ${rule.until}`;
+  return text;
+};
@@ -0,0 +1,27 @@
+// Saved task filters as returned by /api/filters
+
+export interface SavedFilter {
+  id: number;
+  ownerId: number;
+  // Set when the filter is shared with a project; personal filters run on My Tasks
+  projectId: number | null;
+  name: string;
+  query: string;
+  // Pinned to the current user's sidebar; pins are per user, so shared filters can be pinned too
+  pinned: boolean;
+  owner: { id: number; name: string };
+  project: { id: number; name: string; color: string } | null;
+}
+
+// Fired after filters are created, changed or deleted so the sidebar can refresh its pins
+export const SAVED_FILTERS_CHANGED = "saved-filters:changed";
+
+export const notifySavedFiltersChanged = () => window.dispatchEvent(new CustomEvent(SAVED_FILTERS_CHANGED));
+
+/** Where a filter runs: its project's board, or My Tasks for personal filters */
+export const getSavedFilterPath = (filter: Pick<SavedFilter, "projectId" | "query">) => {
+  const search = `?${new URLSearchParams({ q: filter.query })}`;
+  return filter.projectId ? `/project/${filter.projectId}${search}` : `/my-tasks${search}`;
+};
+
+export const TASK_QUERY_EXAMPLE = "status:inprogress priority:high label:bug assignee:me due:<7d -label:wontfix";
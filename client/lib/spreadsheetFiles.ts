@@ -0,0 +1,51 @@
+import { api } from "@/lib/api";
+
+// Spreadsheet files from GET /api/documents/file/:id/export, imported by POST /api/documents/:projectId/import
+
+export type SpreadsheetFormat = "csv" | "xlsx";
+
+const filenameFrom = (res: Response, fallback: string) =>
+  /filename="([^"]+)"/.exec(res.headers.get("Content-Disposition") ?? "")?.[1] ?? fallback;
+
+/**
+ * Download a spreadsheet as CSV or .xlsx. Resolves to an error message on failure.
+ */
+export async function downloadSpreadsheet(documentId: number | string, format: SpreadsheetFormat): Promise<string | null> {
+  const res = await api(`/api/documents/file/${documentId}/export?format=${format}`);
+  if (!res.ok) {
+    const data = await res.json().catch(() => null);
+    return data?.error || "Failed to export spreadsheet";
+  }
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filenameFrom(res, `spreadsheet.${format}`);
+  link.click();
+  URL.revokeObjectURL(url);
+  return null;
+}
+
+export interface ImportedSpreadsheet {
+  id: number;
+  projectId: number;
+  name: string;
+  type: "spreadsheet";
+  taskTable: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Create a spreadsheet in the project from a CSV or .xlsx file, named after the file
+ */
+export async function importSpreadsheet(projectId: number, file: File): Promise<ImportedSpreadsheet | { error: string }> {
+  const name = file.name.replace(/\.[^/.]+$/, "");
+  const res = await api(`/api/documents/${projectId}/import?name=${encodeURIComponent(name)}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/octet-stream" },
+    body: file,
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) return { error: data?.error || "Failed to import spreadsheet" };
+  return data;
+}
@@ -0,0 +1,23 @@
+// Sprints as returned by /api/projects/:projectId/sprints
+
+export type SprintState = "planned" | "active" | "closed";
+
+export interface Sprint {
+  id: number;
+  projectId: number;
+  name: string;
+  goal: string | null;
+  startDate: string;
+  endDate: string;
+  state: SprintState;
+  startedAt: string | null;
+  closedAt: string | null;
+  taskCount: number;
+  doneCount: number;
+  rolledOverCount: number;
+}
+
+/** Sprints tasks can still be added to */
+export const getOpenSprints = (sprints: Sprint[]) => sprints.filter((s) => s.state !== "closed");
+
+export const getActiveSprint = (sprints: Sprint[]) => sprints.find((s) => s.state === "active") ?? null;
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { applyMapping, guessMapping, tableFromJson } from "./taskImport";
+
+describe("tableFromJson", () => {
+  it("flattens a Trello board and skips archived cards", () => {
+    const table = tableFromJson({
+      lists: [{ id: "l1", name: "Doing" }],
+      labels: [{ id: "b1", name: "Bug" }],
+      members: [{ id: "m1", fullName: "Ada Lovelace" }],
+      cards: [
+        { id: "c1", name: "Fix login", desc: "", idList: "l1", idLabels: ["b1"], idMembers: ["m1"], due: null },
+        { id: "c2", name: "Old", idList: "l1", closed: true },
+      ],
+    });
+    expect(table.source).toBe("trello");
+    expect(table.rows).toEqual([
+      { ID: "c1", Name: "Fix login", Description: "", List: "Doing", Labels: "Bug", Members: "Ada Lovelace", Due: "" },
+    ]);
+  });
+
+  it("reads Jira issues with their blocking links", () => {
+    const table = tableFromJson({
+      issues: [
+        {
+          key: "PRJ-2",
+          fields: {
+            summary: "Ship",
+            description: { type: "doc", content: [{ type: "paragraph", content: [{ type: "text", text: "Release it" }] }] },
+            status: { name: "To Do" },
+            priority: { name: "High" },
+            assignee: { displayName: "Ada Lovelace", emailAddress: "ada@example.com" },
+            duedate: "2026-11-01",
+            labels: ["release"],
+            issuelinks: [
+              { type: { name: "Blocks" }, inwardIssue: { key: "PRJ-1" } },
+              { type: { name: "Blocks" }, outwardIssue: { key: "PRJ-3" } },
+            ],
+          },
+        },
+      ],
+    });
+    expect(table.source).toBe("jira");
+    expect(table.rows[0]).toMatchObject({
+      Key: "PRJ-2",
+      Description: "Release it",
+      Assignee: "ada@example.com",
+      "Blocked by": "PRJ-1",
+    });
+  });
+
+  it("rejects JSON it doesn't recognise", () => {
+    expect(() => tableFromJson({ hello: "world" })).toThrow();
+  });
+});
+
+describe("guessMapping", () => {
+  it("matches headers case-insensitively and uses each column once", () => {
+    const mapping = guessMapping(["Summary", "Status", "Due Date", "Key", "Blocked by"]);
+    expect(mapping).toEqual({ title: "Summary", status: "Status", dueDate: "Due Date", key: "Key", blockedBy: "Blocked by" });
+    expect(applyMapping([{ Summary: "A", Status: "Done", "Due Date": "", Key: "1", "Blocked by": "" }], { title: "Summary" })).toEqual([
+      { title: "A" },
+    ]);
+  });
+});
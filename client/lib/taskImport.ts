@@ -0,0 +1,192 @@
+import Papa from "papaparse";
+
+// Task fields a file column can be mapped to; see server/services/taskImport.ts
+export const IMPORT_FIELDS = [
+  { key: "title", label: "Title", required: true, aliases: ["title", "name", "summary", "task"] },
+  { key: "description", label: "Description", aliases: ["description", "desc", "details", "notes"] },
+  { key: "status", label: "Status", aliases: ["status", "list", "state", "column"] },
+  { key: "priority", label: "Priority", aliases: ["priority"] },
+  { key: "assignee", label: "Assignee", aliases: ["assignee", "assignees", "assigned to", "owner", "members"] },
+  { key: "dueDate", label: "Due date", aliases: ["due date", "due", "duedate", "deadline"] },
+  { key: "labels", label: "Labels", aliases: ["labels", "label", "tags"] },
+  { key: "key", label: "Import ID", aliases: ["id", "key", "issue key"] },
+  { key: "blockedBy", label: "Blocked by (IDs)", aliases: ["blocked by", "depends on", "dependencies"] },
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number]["key"];
+
+export type ImportSource = "csv" | "trello" | "jira" | "json";
+
+export type ImportMapping = Partial<Record<ImportField, string>>;
+
+// A file flattened to a table, whatever format it came in
+export interface ImportTable {
+  source: ImportSource;
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+export interface ImportRowError {
+  row: number;
+  field: ImportField | null;
+  message: string;
+}
+
+export interface PlannedTask {
+  row: number;
+  key: string | null;
+  title: string;
+  status: string;
+  priority: string;
+  assigneeIds: number[];
+  dueDate: string | null;
+  labels: string[];
+  blockedBy: string[];
+}
+
+export interface ImportPreview {
+  total: number;
+  valid: number;
+  errors: ImportRowError[];
+  newLabels: string[];
+  dependencyCount: number;
+  tasks: PlannedTask[];
+}
+
+export interface TaskImportBatch {
+  id: number;
+  source: ImportSource;
+  fileName: string | null;
+  taskCount: number;
+  labelCount: number;
+  createdAt: string;
+  undoneAt: string | null;
+}
+
+const str = (value: unknown) => (value === undefined || value === null ? "" : String(value));
+
+// Jira Cloud descriptions are Atlassian Document Format; keep just the text
+const adfText = (node: any): string => {
+  if (!node || typeof node !== "object") return str(node);
+  if (node.type === "text") return str(node.text);
+  const children = Array.isArray(node.content) ? node.content.map(adfText) : [];
+  return children.join(node.type === "doc" ? "\n" : "");
+};
+
+const fromTrello = (board: any): ImportTable => {
+  const lists = new Map<string, string>((board.lists ?? []).map((l: any) => [l.id, l.name]));
+  const labels = new Map<string, string>((board.labels ?? []).map((l: any) => [l.id, l.name || l.color]));
+  const members = new Map<string, string>((board.members ?? []).map((m: any) => [m.id, m.fullName || m.username]));
+  const rows = (board.cards ?? [])
+    .filter((card: any) => !card.closed)
+    .map((card: any) => ({
+      ID: str(card.id),
+      Name: str(card.name),
+      Description: str(card.desc),
+      List: lists.get(card.idList) ?? "",
+      Labels: (card.idLabels ?? []).map((id: string) => labels.get(id)).filter(Boolean).join(", "),
+      Members: (card.idMembers ?? []).map((id: string) => members.get(id)).filter(Boolean).join(", "),
+      Due: str(card.due),
+    }));
+  return { source: "trello", columns: ["ID", "Name", "Description", "List", "Labels", "Members", "Due"], rows };
+};
+
+const fromJira = (issues: any[]): ImportTable => {
+  const rows = issues.map((issue) => {
+    const fields = issue.fields ?? {};
+    // A link that names the other issue as `inwardIssue` reads "this issue is blocked by it"
+    const blockedBy = (fields.issuelinks ?? [])
+      .filter((link: any) => /block/i.test(link.type?.name ?? "") && link.inwardIssue)
+      .map((link: any) => link.inwardIssue.key);
+    return {
+      Key: str(issue.key),
+      Summary: str(fields.summary),
+      Description: typeof fields.description === "object" ? adfText(fields.description) : str(fields.description),
+      Status: str(fields.status?.name),
+      Priority: str(fields.priority?.name),
+      Assignee: str(fields.assignee?.emailAddress || fields.assignee?.displayName),
+      "Due date": str(fields.duedate),
+      Labels: (fields.labels ?? []).join(", "),
+      "Blocked by": blockedBy.join(", "),
+    };
+  });
+  return {
+    source: "jira",
+    columns: ["Key", "Summary", "Description", "Status", "Priority", "Assignee", "Due date", "Labels", "Blocked by"],
+    rows,
+  };
+};
+
+// Any other JSON array of objects: every key is a column, nested values are stringified
+const fromJsonArray = (items: any[]): ImportTable => {
+  const columns = Array.from(new Set(items.flatMap((item) => Object.keys(item ?? {}))));
+  const rows = items.map((item) =>
+    Object.fromEntries(
+      columns.map((column) => {
+        const value = item?.[column];
+        if (Array.isArray(value)) return [column, value.map(str).join(", ")];
+        return [column, value !== null && typeof value === "object" ? JSON.stringify(value) : str(value)];
+      })
+    )
+  );
+  return { source: "json", columns, rows };
+};
+
+/**
+ * Flatten parsed JSON: a Trello board export, a Jira search result (or its `issues`),
+ * or a plain array of objects
+ */
+export const tableFromJson = (data: any): ImportTable => {
+  if (data && Array.isArray(data.cards) && Array.isArray(data.lists)) return fromTrello(data);
+  const issues = Array.isArray(data) ? data : data?.issues;
+  if (Array.isArray(issues) && issues.length > 0 && issues.every((i) => i && typeof i.fields === "object")) {
+    return fromJira(issues);
+  }
+  if (Array.isArray(data) && data.every((item) => item && typeof item === "object" && !Array.isArray(item))) {
+    return fromJsonArray(data);
+  }
+  throw new Error("Expected a Trello board, a Jira export or an array of objects");
+};
+
+/**
+ * Read a CSV or JSON file into a table
+ */
+export const parseImportFile = async (file: File): Promise<ImportTable> => {
+  const content = await file.text();
+  if (/\.json$/i.test(file.name) || /^\s*[[{]/.test(content)) {
+    return tableFromJson(JSON.parse(content));
+  }
+  const parsed = Papa.parse<Record<string, string>>(content, {
+    header: true,
+    skipEmptyLines: "greedy",
+    transformHeader: (header) => header.trim(),
+  });
+  return { source: "csv", columns: (parsed.meta.fields ?? []).filter(Boolean), rows: parsed.data };
+};
+
+/**
+ * Map each field to the first column whose header matches one of its aliases
+ */
+export const guessMapping = (columns: string[]): ImportMapping => {
+  const mapping: ImportMapping = {};
+  const used = new Set<string>();
+  for (const field of IMPORT_FIELDS) {
+    const column = columns.find(
+      (c) => !used.has(c) && (field.aliases as readonly string[]).includes(c.trim().toLowerCase())
+    );
+    if (column) {
+      mapping[field.key] = column;
+      used.add(column);
+    }
+  }
+  return mapping;
+};
+
+export const applyMapping = (rows: Record<string, string>[], mapping: ImportMapping) =>
+  rows.map((row) => {
+    const mapped: Partial<Record<ImportField, string>> = {};
+    for (const [field, column] of Object.entries(mapping) as [ImportField, string][]) {
+      if (column) mapped[field] = row[column] ?? "";
+    }
+    return mapped;
+  });
@@ -0,0 +1,22 @@
+// Task assignees and watchers. Mirrors server/services/taskPeople.ts
+
+export interface TaskPerson {
+  id: number;
+  name: string;
+  email: string;
+}
+
+/** Names for display, e.g. "Ada Lovelace, Alan Turing" */
+export const formatPeople = (people: TaskPerson[] | undefined, empty = "Unassigned") =>
+  people && people.length > 0 ? people.map((p) => p.name).join(", ") : empty;
+
+export const isAssignedTo = (task: { assignees?: TaskPerson[] }, userId: number | undefined) =>
+  userId !== undefined && !!task.assignees?.some((p) => p.id === userId);
+
+export const initials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0]!.toUpperCase())
+    .join("");
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { parseTaskTableCell, sortTaskTable, taskTableCell } from "./taskTable";
+import { DEFAULT_WORKFLOW } from "./workflow";
+
+const context = {
+  statuses: DEFAULT_WORKFLOW,
+  members: [
+    { id: 1, name: "Ada Lovelace", email: "ada@example.com" },
+    { id: 2, name: "Alan Turing", email: "alan@example.com" },
+  ],
+};
+
+describe("taskTableCell", () => {
+  it("shows each field as it's typed back", () => {
+    const task = {
+      id: 1,
+      title: "Ship it",
+      status: "inprogress",
+      priority: "high",
+      dueDate: "2026-04-01",
+      assignees: context.members,
+    };
+    expect(
+      ["title", "status", "priority", "assignees", "dueDate"].map((f) =>
+        taskTableCell(task, f as any, DEFAULT_WORKFLOW),
+      ),
+    ).toEqual(["Ship it", "In Progress", "High", "Ada Lovelace, Alan Turing", "2026-04-01"]);
+    expect(taskTableCell({ ...task, assignees: [], dueDate: null }, "assignees", DEFAULT_WORKFLOW)).toBe("");
+  });
+});
+
+describe("parseTaskTableCell", () => {
+  it("matches statuses by name or key and priorities in any case", () => {
+    expect(parseTaskTableCell("status", " in progress ", context)).toEqual({ change: { status: "inprogress" } });
+    expect(parseTaskTableCell("status", "DONE", context)).toEqual({ change: { status: "done" } });
+    expect(parseTaskTableCell("status", "Blocked", context)).toEqual({
+      error: 'Unknown status "Blocked". Use one of: To Do, In Progress, Done',
+    });
+    expect(parseTaskTableCell("priority", "High", context)).toEqual({ change: { priority: "high" } });
+    expect(parseTaskTableCell("priority", "urgent", context)).toEqual({
+      error: "Priority must be Low, Medium or High",
+    });
+  });
+
+  it("resolves assignees by name or email", () => {
+    expect(parseTaskTableCell("assignees", "alan@example.com; ada lovelace, Ada Lovelace", context)).toEqual({
+      change: { assigneeIds: [2, 1] },
+    });
+    expect(parseTaskTableCell("assignees", "", context)).toEqual({ change: { assigneeIds: [] } });
+    expect(parseTaskTableCell("assignees", "Grace", context)).toEqual({
+      error: '"Grace" isn\'t a member of this project',
+    });
+  });
+
+  it("accepts real dates and clears them when empty", () => {
+    expect(parseTaskTableCell("dueDate", "2026-02-28", context)).toEqual({ change: { dueDate: "2026-02-28" } });
+    expect(parseTaskTableCell("dueDate", "", context)).toEqual({ change: { dueDate: null } });
+    expect(parseTaskTableCell("dueDate", "2026-02-30", context)).toEqual({ error: "Enter due dates as YYYY-MM-DD" });
+    expect(parseTaskTableCell("dueDate", "tomorrow", context)).toEqual({ error: "Enter due dates as YYYY-MM-DD" });
+  });
+
+  it("requires a title", () => {
+    expect(parseTaskTableCell("title", "  Write docs ", context)).toEqual({ change: { title: "Write docs" } });
+    expect(parseTaskTableCell("title", " ", context)).toEqual({ error: "A task needs a title" });
+  });
+});
+
+describe("sortTaskTable", () => {
+  it("puts the oldest tasks first", () => {
+    const tasks = [
+      { id: 3, title: "c", status: "todo", priority: "low", createdAt: "2026-01-02T00:00:00.000Z" },
+      { id: 2, title: "b", status: "todo", priority: "low", createdAt: "2026-01-01T00:00:00.000Z" },
+      { id: 1, title: "a", status: "todo", priority: "low", createdAt: "2026-01-02T00:00:00.000Z" },
+    ];
+    expect(sortTaskTable(tasks).map((t) => t.id)).toEqual([2, 1, 3]);
+  });
+});
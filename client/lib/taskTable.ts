@@ -0,0 +1,111 @@
+import { formatPeople, type TaskPerson } from "@/lib/taskPeople";
+import { getStatusName, type WorkflowStatus } from "@/lib/workflow";
+
+// Task tables: spreadsheets whose rows are a project's tasks. Edits are sent to PUT /api/tasks/:id;
+// exports come from server/services/spreadsheetFiles.ts with the same columns in the same order.
+
+export const TASK_TABLE_COLUMNS = [
+  { field: "title", label: "Title", width: 320 },
+  { field: "status", label: "Status", width: 140 },
+  { field: "priority", label: "Priority", width: 110 },
+  { field: "assignees", label: "Assignee", width: 220 },
+  { field: "dueDate", label: "Due date", width: 130 },
+] as const;
+
+export type TaskTableField = (typeof TASK_TABLE_COLUMNS)[number]["field"];
+
+export const TASK_PRIORITIES = ["low", "medium", "high"] as const;
+
+export interface TaskTableTask {
+  id: number;
+  title: string;
+  status: string;
+  priority: string;
+  dueDate?: string | null;
+  assignees?: TaskPerson[];
+  createdAt?: string;
+}
+
+// What an edit sends to the task API
+export interface TaskTableChange {
+  title?: string;
+  status?: string;
+  priority?: string;
+  assigneeIds?: number[];
+  dueDate?: string | null;
+}
+
+export interface TaskTableContext {
+  statuses: WorkflowStatus[];
+  members: TaskPerson[];
+}
+
+/** Oldest first, so new tasks appear at the bottom like new rows */
+export const sortTaskTable = <T extends TaskTableTask>(tasks: T[]) =>
+  [...tasks].sort((a, b) => (a.createdAt ?? "").localeCompare(b.createdAt ?? "") || a.id - b.id);
+
+export const taskTableCell = (task: TaskTableTask, field: TaskTableField, statuses: WorkflowStatus[]) => {
+  switch (field) {
+    case "title":
+      return task.title;
+    case "status":
+      return getStatusName(statuses, task.status);
+    case "priority":
+      return task.priority.charAt(0).toUpperCase() + task.priority.slice(1);
+    case "assignees":
+      return formatPeople(task.assignees, "");
+    case "dueDate":
+      return task.dueDate?.slice(0, 10) ?? "";
+  }
+};
+
+const isValidDate = (text: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  if (!match) return false;
+  const date = new Date(Date.UTC(+match[1], +match[2] - 1, +match[3]));
+  return date.toISOString().slice(0, 10) === text;
+};
+
+/**
+ * Turn what was typed into a task table cell into a task change, matching statuses by name or
+ * key and people by name or email
+ */
+export const parseTaskTableCell = (
+  field: TaskTableField,
+  text: string,
+  { statuses, members }: TaskTableContext
+): { change: TaskTableChange } | { error: string } => {
+  const value = text.trim();
+  const lower = value.toLowerCase();
+
+  switch (field) {
+    case "title":
+      return value ? { change: { title: value } } : { error: "A task needs a title" };
+
+    case "status": {
+      const status = statuses.find((s) => s.key.toLowerCase() === lower || s.name.toLowerCase() === lower);
+      return status
+        ? { change: { status: status.key } }
+        : { error: `Unknown status "${value}". Use one of: ${statuses.map((s) => s.name).join(", ")}` };
+    }
+
+    case "priority":
+      return (TASK_PRIORITIES as readonly string[]).includes(lower)
+        ? { change: { priority: lower } }
+        : { error: "Priority must be Low, Medium or High" };
+
+    case "assignees": {
+      const assigneeIds: number[] = [];
+      for (const name of value.split(/[,;]/).map((n) => n.trim()).filter(Boolean)) {
+        const member = members.find((m) => m.name.toLowerCase() === name.toLowerCase() || m.email.toLowerCase() === name.toLowerCase());
+        if (!member) return { error: `"${name}" isn't a member of this project` };
+        if (!assigneeIds.includes(member.id)) assigneeIds.push(member.id);
+      }
+      return { change: { assigneeIds } };
+    }
+
+    case "dueDate":
+      if (!value) return { change: { dueDate: null } };
+      return isValidDate(value) ? { change: { dueDate: value } } : { error: "Enter due dates as YYYY-MM-DD" };
+  }
+};
@@ -0,0 +1,39 @@
+// Webhooks as returned by /api/projects/:projectId/webhooks
+
+export const WEBHOOK_EVENTS = [
+  { key: "task.created", label: "Task created" },
+  { key: "task.updated", label: "Task updated" },
+  { key: "task.deleted", label: "Task deleted" },
+  { key: "comment.created", label: "Comment added" },
+  { key: "member.joined", label: "Member joined" },
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number]["key"];
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+export interface WebhookDelivery {
+  id: number;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastAttemptAt: string | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  createdAt: string;
+  // Only included in the delivery log
+  payload?: string;
+}
+
+export interface Webhook {
+  id: number;
+  projectId: number;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+  active: boolean;
+  createdAt: string;
+  lastDelivery?: WebhookDelivery | null;
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { diffIds, squashDiffs, toBoardDiff, withoutRecords, type BoardRecord } from "./whiteboardSync";
+
+const shape = (id: string, x = 0): BoardRecord => ({ id: `shape:${id}`, typeName: "shape", x });
+
+describe("toBoardDiff", () => {
+  it("puts added and updated records and removes deleted ones", () => {
+    expect(
+      toBoardDiff({
+        added: { "shape:a": shape("a") },
+        updated: { "shape:b": [shape("b"), shape("b", 10)] },
+        removed: { "shape:c": shape("c") },
+      }),
+    ).toEqual({ put: [shape("a"), shape("b", 10)], remove: ["shape:c"] });
+  });
+});
+
+describe("squashDiffs", () => {
+  it("keeps the latest version of each record", () => {
+    expect(squashDiffs({ put: [shape("a"), shape("b")], remove: [] }, { put: [shape("a", 5)], remove: [] })).toEqual({
+      put: [shape("a", 5), shape("b")],
+      remove: [],
+    });
+  });
+
+  it("lets a later removal or re-creation win", () => {
+    expect(squashDiffs({ put: [shape("a")], remove: ["shape:b"] }, { put: [shape("b")], remove: ["shape:a"] })).toEqual(
+      { put: [shape("b")], remove: ["shape:a"] },
+    );
+  });
+});
+
+describe("withoutRecords", () => {
+  it("leaves out records with local changes still pending", () => {
+    const pending = diffIds([
+      { put: [shape("a", 3)], remove: [] },
+      { put: [], remove: ["shape:c"] },
+    ]);
+    expect(withoutRecords({ put: [shape("a"), shape("b")], remove: ["shape:c", "shape:d"] }, pending)).toEqual({
+      put: [shape("b")],
+      remove: ["shape:d"],
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { api } from "@/lib/api";
+
+// Changes exchanged with the /whiteboard socket namespace, and board snapshots from
+// /api/whiteboard/:projectId/snapshots
+
+export interface BoardRecord {
+  id: string;
+  typeName: string;
+  [key: string]: unknown;
+}
+
+// Records to create or replace, and ids to delete
+export interface BoardDiff {
+  put: BoardRecord[];
+  remove: string[];
+}
+
+// The shape of tldraw's RecordsDiff
+export interface RecordChanges<R extends BoardRecord> {
+  added: Record<string, R>;
+  updated: Record<string, [from: R, to: R]>;
+  removed: Record<string, R>;
+}
+
+export const emptyDiff = (): BoardDiff => ({ put: [], remove: [] });
+
+export const toBoardDiff = <R extends BoardRecord>(changes: RecordChanges<R>): BoardDiff => ({
+  put: [...Object.values(changes.added), ...Object.values(changes.updated).map(([, to]) => to)],
+  remove: Object.keys(changes.removed),
+});
+
+/**
+ * One diff with the effect of applying `first` and then `second`
+ */
+export const squashDiffs = (first: BoardDiff, second: BoardDiff): BoardDiff => {
+  const put = new Map(first.put.map((record) => [record.id, record]));
+  const remove = new Set(first.remove);
+  for (const id of second.remove) {
+    put.delete(id);
+    remove.add(id);
+  }
+  for (const record of second.put) {
+    remove.delete(record.id);
+    put.set(record.id, record);
+  }
+  return { put: Array.from(put.values()), remove: Array.from(remove) };
+};
+
+export const isEmptyDiff = (diff: BoardDiff) => diff.put.length === 0 && diff.remove.length === 0;
+
+export const diffIds = (diffs: BoardDiff[]) =>
+  new Set(diffs.flatMap((diff) => [...diff.put.map((record) => record.id), ...diff.remove]));
+
+/**
+ * A remote diff without the records in `ids`, which have local changes the server hasn't
+ * confirmed yet. Those changes reach the server after the remote one, so they win there too.
+ */
+export const withoutRecords = (diff: BoardDiff, ids: Set<string>): BoardDiff => ({
+  put: diff.put.filter((record) => !ids.has(record.id)),
+  remove: diff.remove.filter((id) => !ids.has(id)),
+});
+
+// Snapshots
+
+export type SnapshotKind = "auto" | "named" | "restore";
+
+export interface WhiteboardSnapshot {
+  id: number;
+  clock: number;
+  kind: SnapshotKind;
+  name: string | null;
+  createdAt: string;
+  author: { id: number; name: string } | null;
+  restoredFrom: { id: number; name: string | null; createdAt: string } | null;
+}
+
+export interface WhiteboardSnapshotWithRecords extends WhiteboardSnapshot {
+  records: BoardRecord[];
+  schema: unknown;
+}
+
+const snapshotsUrl = (projectId: number | string) => `/api/whiteboard/${projectId}/snapshots`;
+
+export async function fetchSnapshots(projectId: number | string): Promise<WhiteboardSnapshot[] | { error: string }> {
+  const res = await api(snapshotsUrl(projectId));
+  const data = await res.json().catch(() => null);
+  if (!res.ok) return { error: data?.error || "Failed to load board history" };
+  return data;
+}
+
+export async function fetchSnapshot(
+  projectId: number | string,
+  snapshotId: number
+): Promise<WhiteboardSnapshotWithRecords | { error: string }> {
+  const res = await api(`${snapshotsUrl(projectId)}/${snapshotId}`);
+  const data = await res.json().catch(() => null);
+  if (!res.ok) return { error: data?.error || "Failed to load snapshot" };
+  return data;
+}
+
+/**
+ * Keep the board as the server has it now under a name
+ */
+export async function saveNamedSnapshot(
+  projectId: number | string,
+  name: string
+): Promise<WhiteboardSnapshot | { error: string }> {
+  const res = await api(snapshotsUrl(projectId), { method: "POST", body: JSON.stringify({ name }) });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) return { error: data?.error || "Failed to save snapshot" };
+  return data;
+}
+
+/**
+ * Put the board back the way a snapshot has it. The change reaches open boards over the socket;
+ * resolves to the new snapshot recording the restore.
+ */
+export async function restoreSnapshot(
+  projectId: number | string,
+  snapshotId: number
+): Promise<WhiteboardSnapshot | { error: string }> {
+  const res = await api(`${snapshotsUrl(projectId)}/${snapshotId}/restore`, { method: "POST" });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) return { error: data?.error || "Failed to restore snapshot" };
+  return data;
+}
+
+export const snapshotTitle = (snapshot: WhiteboardSnapshot) => {
+  if (snapshot.kind === "restore") {
+    const from = snapshot.restoredFrom;
+    if (!from) return "Restored an earlier snapshot";
+    return `Restored ${from.name ? `“${from.name}”` : `snapshot from ${new Date(from.createdAt).toLocaleString()}`}`;
+  }
+  return snapshot.name ?? "Automatic snapshot";
+};
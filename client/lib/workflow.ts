@@ -0,0 +1,36 @@
+// Project workflows (board columns). Mirrors server/services/workflow.ts
+
+export interface WorkflowStatus {
+  key: string;
+  name: string;
+  color: string;
+  position: number;
+  isDone: boolean;
+  transitions: string[] | null;
+}
+
+export const DEFAULT_WORKFLOW: WorkflowStatus[] = [
+  { key: "todo", name: "To Do", color: "#9ca3af", position: 0, isDone: false, transitions: null },
+  { key: "inprogress", name: "In Progress", color: "#3b82f6", position: 1, isDone: false, transitions: null },
+  { key: "done", name: "Done", color: "#22c55e", position: 2, isDone: true, transitions: null },
+];
+
+export const findStatus = (statuses: WorkflowStatus[], key: string | undefined) =>
+  statuses.find((s) => s.key === key) ?? null;
+
+export const isDoneStatus = (statuses: WorkflowStatus[], key: string | undefined) =>
+  findStatus(statuses, key)?.isDone ?? false;
+
+export const getStatusName = (statuses: WorkflowStatus[], key: string) =>
+  findStatus(statuses, key)?.name ?? key;
+
+/** Status new tasks start in: the first one that doesn't count as done */
+export const getInitialStatus = (statuses: WorkflowStatus[]) =>
+  (statuses.find((s) => !s.isDone) ?? statuses[0])?.key ?? "todo";
+
+export const canTransition = (statuses: WorkflowStatus[], from: string, to: string) => {
+  if (from === to) return true;
+  const current = findStatus(statuses, from);
+  if (!current || !current.transitions) return true;
+  return current.transitions.includes(to);
+};
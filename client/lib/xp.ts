@@ -1,12 +1,8 @@
-// Gamification & XP System — localStorage-based
+import { api } from "@/lib/api";
 
-export interface XPState {
-  totalXP: number;
-  level: number;
-  title: string;
-  xpToNextLevel: number;
-  xpInCurrentLevel: number;
-}
+// XP, levels, streaks and achievements as returned by /api/gamification. The server keeps the
+// ledger; the client only reports activity it can't see (check-ins, journal entries) and starts and
+// finishes focus sessions, which the server times.
 
 export interface XPEvent {
   type: string;
@@ -14,106 +10,67 @@ export interface XPEvent {
   timestamp: string;
 }
 
-const STORAGE_KEY = "gamification:xp";
-const EVENTS_KEY = "gamification:events";
+export type AchievementId = "FIRST_DONE" | "DONE_10" | "DONE_50" | "STREAK_3" | "STREAK_7" | "STREAK_14";
 
-// XP rewards
-export const XP_REWARDS = {
-  TASK_COMPLETED: 25,
-  TASK_CREATED: 5,
-  STREAK_DAY: 15,
-  FOCUS_SESSION: 20,
-  COMMENT_ADDED: 3,
-  JOURNAL_ENTRY: 10,
-  DAILY_CHECKIN: 8,
-} as const;
-
-// Level thresholds and titles
-const LEVELS: { minXP: number; title: string }[] = [
-  { minXP: 0, title: "Rookie" },
-  { minXP: 100, title: "Apprentice" },
-  { minXP: 300, title: "Contributor" },
-  { minXP: 600, title: "Achiever" },
-  { minXP: 1000, title: "Pro" },
-  { minXP: 1500, title: "Expert" },
-  { minXP: 2200, title: "Veteran" },
-  { minXP: 3000, title: "Master" },
-  { minXP: 4000, title: "Grandmaster" },
-  { minXP: 5500, title: "Legend" },
-  { minXP: 7500, title: "Mythic" },
-  { minXP: 10000, title: "Transcendent" },
-];
+export interface Achievement {
+  id: AchievementId;
+  title: string;
+  description: string;
+  unlockedAt: string | null;
+}
 
-function getLevelInfo(totalXP: number): { level: number; title: string; xpToNextLevel: number; xpInCurrentLevel: number } {
-  let level = 0;
-  let title = LEVELS[0].title;
-  let currentThreshold = 0;
-  let nextThreshold = LEVELS.length > 1 ? LEVELS[1].minXP : Infinity;
+export interface XPState {
+  totalXP: number;
+  level: number;
+  title: string;
+  xpToNextLevel: number;
+  xpInCurrentLevel: number;
+  xpToday: number;
+  recentEvents: XPEvent[];
+  streak: number;
+  // YYYY-MM-DD (UTC) of the last completed task
+  lastCompletedOn: string | null;
+  doneCount: number;
+  achievements: Achievement[];
+}
 
-  for (let i = 0; i < LEVELS.length; i++) {
-    if (totalXP >= LEVELS[i].minXP) {
-      level = i + 1;
-      title = LEVELS[i].title;
-      currentThreshold = LEVELS[i].minXP;
-      nextThreshold = i + 1 < LEVELS.length ? LEVELS[i + 1].minXP : LEVELS[i].minXP + 5000;
-    }
-  }
+export type SelfReportedActivity = "DAILY_CHECKIN" | "JOURNAL_ENTRY";
 
-  const xpInCurrentLevel = totalXP - currentThreshold;
-  const xpToNextLevel = nextThreshold - currentThreshold;
+// Fired whenever the server reports a change; detail carries any achievements just unlocked
+export const GAMIFICATION_CHANGED = "gamification:changed";
 
-  return { level, title, xpToNextLevel, xpInCurrentLevel };
-}
+export const notifyGamificationChanged = (unlocked: Achievement[] = []) =>
+  window.dispatchEvent(new CustomEvent(GAMIFICATION_CHANGED, { detail: { unlocked } }));
 
-export function getTotalXP(): number {
+export async function fetchXPState(): Promise<XPState | null> {
   try {
-    return parseInt(localStorage.getItem(STORAGE_KEY) || "0") || 0;
+    const res = await api("/api/gamification/me");
+    return res.ok ? await res.json() : null;
   } catch {
-    return 0;
+    return null;
   }
 }
 
-export function getXPState(): XPState {
-  const totalXP = getTotalXP();
-  const { level, title, xpToNextLevel, xpInCurrentLevel } = getLevelInfo(totalXP);
-  return { totalXP, level, title, xpToNextLevel, xpInCurrentLevel };
-}
-
-export function addXP(type: string, xp: number): { newState: XPState; leveledUp: boolean; previousLevel: number } {
-  const previousState = getXPState();
-  const newTotal = previousState.totalXP + xp;
-  localStorage.setItem(STORAGE_KEY, String(newTotal));
-
-  // Log event
-  const events = getRecentEvents();
-  events.push({ type, xp, timestamp: new Date().toISOString() });
-  // Keep last 200 events
-  if (events.length > 200) events.splice(0, events.length - 200);
-  localStorage.setItem(EVENTS_KEY, JSON.stringify(events));
-
-  const newState = getXPState();
-  const leveledUp = newState.level > previousState.level;
-
-  return { newState, leveledUp, previousLevel: previousState.level };
+/** Report client-side activity. The server caps how often each kind pays out per day. */
+export async function logActivity(type: SelfReportedActivity): Promise<void> {
+  try {
+    await api("/api/gamification/activity", { method: "POST", body: JSON.stringify({ type }) });
+  } catch { /* ignore */ }
 }
 
-export function getRecentEvents(limit: number = 50): XPEvent[] {
+/** Start a focus session on the server. Returns its id, or null if it couldn't be recorded. */
+export async function startFocusSession(minutes: number): Promise<number | null> {
   try {
-    const raw = localStorage.getItem(EVENTS_KEY);
-    const events = raw ? (JSON.parse(raw) as XPEvent[]) : [];
-    return events.slice(-limit);
+    const res = await api("/api/gamification/focus-sessions", { method: "POST", body: JSON.stringify({ minutes }) });
+    return res.ok ? (await res.json()).id : null;
   } catch {
-    return [];
+    return null;
   }
 }
 
-export function getXPToday(): number {
-  const today = new Date().toISOString().slice(0, 10);
-  return getRecentEvents(200)
-    .filter((e) => e.timestamp.slice(0, 10) === today)
-    .reduce((sum, e) => sum + e.xp, 0);
-}
-
-export function getAllLevels() {
-  return LEVELS;
+/** Finish a focus session. The server credits it if it has run its full length. */
+export async function completeFocusSession(id: number): Promise<void> {
+  try {
+    await api(`/api/gamification/focus-sessions/${id}/complete`, { method: "POST" });
+  } catch { /* ignore */ }
 }
@@ -4,6 +4,7 @@ import dayGridPlugin from '@fullcalendar/daygrid';
 import interactionPlugin from '@fullcalendar/interaction';
 import MainLayout from '@/components/MainLayout';
 import TaskQuickViewModal from '@/components/TaskQuickViewModal';
+import CalendarFeedsSettings from '@/components/CalendarFeedsSettings';
 import { api } from '@/lib/api';
 
 // FullCalendar event type - matches backend response from /api/calendar/tasks
@@ -15,13 +16,19 @@ interface CalendarEvent {
   borderColor: string;
   extendedProps: {
     description: string | null;
-    assignedUser: string;
+    assignees: Array<{ id: number; name: string }>;
     status: string;
+    statusName: string;
+    statusColor: string | null;
+    isDone: boolean;
     priority: string;
     taskId: number;
     projectId: number | null;
     projectName: string | null;
     projectColor: string | null;
+    isRecurring?: boolean;
+    // Future occurrence of a recurring task that hasn't been created yet
+    isProjected?: boolean;
   };
 }
 
@@ -45,7 +52,8 @@ export default function Calendar() {
   const [assigneeFilter, setAssigneeFilter] = useState<string>('all');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [priorityFilter, setPriorityFilter] = useState<string>('all');
-  const [assignees, setAssignees] = useState<string[]>([]);
+  const [assignees, setAssignees] = useState<Array<{ id: number; name: string }>>([]);
+  const [statusOptions, setStatusOptions] = useState<Array<{ key: string; name: string }>>([]);
   const [projects, setProjects] = useState<Project[]>([]);
 
   // Fetch calendar tasks and projects from backend
@@ -69,10 +77,17 @@ export default function Calendar() {
         setEvents(data);
         
         // Extract unique assignees for filter dropdown
-        const uniqueAssignees = Array.from(
-          new Set(data.map((event: CalendarEvent) => event.extendedProps.assignedUser))
-        ) as string[];
-        setAssignees(uniqueAssignees.sort());
+        const uniqueAssignees = new Map(
+          (data as CalendarEvent[]).flatMap((event) => event.extendedProps.assignees).map((p) => [p.id, p])
+        );
+        setAssignees(Array.from(uniqueAssignees.values()).sort((a, b) => a.name.localeCompare(b.name)));
+
+        // Statuses come from each project's workflow, so collect the ones actually in use
+        const statusNames = new Map<string, string>();
+        for (const event of data as CalendarEvent[]) {
+          statusNames.set(event.extendedProps.status, event.extendedProps.statusName);
+        }
+        setStatusOptions(Array.from(statusNames, ([key, name]) => ({ key, name })));
       }
     } catch (error) {
       console.error('Error fetching calendar tasks:', error);
@@ -112,9 +127,12 @@ export default function Calendar() {
       }
     }
 
-    if (assigneeFilter !== 'all') {
+    if (assigneeFilter === 'none') {
+      filtered = filtered.filter((event) => event.extendedProps.assignees.length === 0);
+    } else if (assigneeFilter !== 'all') {
+      const assigneeId = parseInt(assigneeFilter);
       filtered = filtered.filter(
-        (event) => event.extendedProps.assignedUser === assigneeFilter
+        (event) => event.extendedProps.assignees.some((p) => p.id === assigneeId)
       );
     }
 
@@ -212,9 +230,10 @@ export default function Calendar() {
                 className="w-full px-4 py-2 border border-border rounded-lg bg-input text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
               >
                 <option value="all">All Users</option>
+                <option value="none">Unassigned</option>
                 {assignees.map((assignee) => (
-                  <option key={assignee} value={assignee}>
-                    {assignee}
+                  <option key={assignee.id} value={assignee.id}>
+                    {assignee.name}
                   </option>
                 ))}
               </select>
@@ -231,9 +250,11 @@ export default function Calendar() {
                 className="w-full px-4 py-2 border border-border rounded-lg bg-input text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
               >
                 <option value="all">All Statuses</option>
-                <option value="todo">To Do</option>
-                <option value="inprogress">In Progress</option>
-                <option value="done">Done</option>
+                {statusOptions.map((status) => (
+                  <option key={status.key} value={status.key}>
+                    {status.name}
+                  </option>
+                ))}
               </select>
             </div>
 
@@ -273,6 +294,7 @@ export default function Calendar() {
               initialView="dayGridMonth"
               events={filteredEvents}
               eventClick={handleEventClick}
+              eventClassNames={(arg) => (arg.event.extendedProps.isProjected ? ['opacity-50', 'border-dashed'] : [])}
               height="auto"
               headerToolbar={{
                 left: 'prev,next today',
@@ -311,6 +333,9 @@ export default function Calendar() {
             </div>
           </div>
         </div>
+
+        {/* iCalendar subscriptions */}
+        <CalendarFeedsSettings projects={projects} />
       </div>
 
       {/* Quick View Modal */}
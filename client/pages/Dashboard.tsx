@@ -4,6 +4,8 @@ import { motion } from "framer-motion";
 import { useEffect, useState } from "react";
 import { Link } from "react-router-dom";
 import { api } from "@/lib/api";
+import { DEFAULT_WORKFLOW, isDoneStatus } from "@/lib/workflow";
+import { formatPeople, type TaskPerson } from "@/lib/taskPeople";
 import ActivityHeatmap from "@/components/ActivityHeatmap";
 import MoodCheckin from "@/components/MoodCheckin";
 
@@ -33,7 +35,7 @@ export default function Dashboard() {
   type OverdueTask = {
     id: number;
     title: string;
-    assignedUser: string;
+    assignees: TaskPerson[];
     dueDate: string;
     status: string;
     priority: string;
@@ -71,7 +73,7 @@ export default function Dashboard() {
           const today = new Date();
           today.setHours(0, 0, 0, 0);
           const overdue = tasks.filter((t: any) => {
-            if (t.status === 'done' || !t.dueDate) return false;
+            if (isDoneStatus(t.workflow ?? DEFAULT_WORKFLOW, t.status) || !t.dueDate) return false;
             const due = new Date(t.dueDate);
             if (Number.isNaN(due.getTime())) return false;
             due.setHours(0, 0, 0, 0);
@@ -290,7 +292,7 @@ export default function Dashboard() {
                   >
                     <div className="min-w-0 flex-1">
                       <p className="text-sm font-medium text-foreground truncate group-hover:text-primary transition-colors">{t.title}</p>
-                      <p className="text-xs text-muted-foreground">{t.assignedUser}</p>
+                      <p className="text-xs text-muted-foreground">{formatPeople(t.assignees)}</p>
                     </div>
                     <div className="flex items-center gap-1.5 text-red-600 dark:text-red-400">
                       <Calendar className="w-3.5 h-3.5" />
@@ -1,8 +1,11 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useParams, Link } from "react-router-dom";
 import { useEditor, EditorContent } from "@tiptap/react";
 import StarterKit from "@tiptap/starter-kit";
 import Placeholder from "@tiptap/extension-placeholder";
+import Collaboration from "@tiptap/extension-collaboration";
+import CollaborationCaret from "@tiptap/extension-collaboration-caret";
+import { ySyncPluginKey } from "@tiptap/y-tiptap";
 import { 
   ArrowLeft, 
   Bold, 
@@ -16,10 +19,16 @@ import {
   Undo,
   Redo,
   Save,
-  Loader2
+  Loader2,
+  Users,
+  WifiOff,
+  History
 } from "lucide-react";
 import { motion } from "framer-motion";
 import { api } from "@/lib/api";
+import { useAuth } from "@/contexts/AuthContext";
+import { useDocumentSync } from "@/hooks/useDocumentSync";
+import DocumentHistoryPanel from "@/components/DocumentHistoryPanel";
 import "../styles/editor.css";
 
 interface Document {
@@ -31,42 +40,95 @@ interface Document {
   updatedAt: string;
 }
 
+interface Collaborator {
+  clientId: number;
+  name: string;
+  color: string;
+}
+
+const CARET_COLORS = [
+  "#ef4444", "#f97316", "#f59e0b", "#84cc16", "#22c55e",
+  "#14b8a6", "#06b6d4", "#3b82f6", "#6366f1", "#8b5cf6",
+  "#a855f7", "#d946ef", "#ec4899", "#f43f5e",
+];
+
+// Stable per member, so everyone sees the same person in the same colour
+const caretColor = (userId: number) => CARET_COLORS[userId % CARET_COLORS.length];
+
 export default function DocumentEditor() {
   const { projectId, documentId } = useParams();
+  const { user } = useAuth();
   const [document, setDocument] = useState<Document | null>(null);
   const [loading, setLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
   const [documentName, setDocumentName] = useState("");
   const [isEditingName, setIsEditingName] = useState(false);
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
 
-  const editor = useEditor({
-    extensions: [
-      StarterKit.configure({
-        bulletList: {
-          keepMarks: true,
-          keepAttributes: false,
-        },
-        orderedList: {
-          keepMarks: true,
-          keepAttributes: false,
+  const { doc, awareness, status, canEdit, seed, error: syncError } = useDocumentSync(documentId);
+
+  const editor = useEditor(
+    {
+      extensions: [
+        StarterKit.configure({
+          bulletList: {
+            keepMarks: true,
+            keepAttributes: false,
+          },
+          orderedList: {
+            keepMarks: true,
+            keepAttributes: false,
+          },
+          // Collaboration brings its own history that only undoes your own changes
+          undoRedo: false,
+        }),
+        Placeholder.configure({
+          placeholder: "Start typing your document...",
+        }),
+        Collaboration.configure({ document: doc }),
+        CollaborationCaret.configure({
+          provider: { awareness },
+          user: { name: user?.name ?? "Anonymous", color: caretColor(user?.id ?? 0) },
+        }),
+      ],
+      editable: false,
+      editorProps: {
+        attributes: {
+          class: "prose prose-sm sm:prose lg:prose-lg xl:prose-xl dark:prose-invert focus:outline-none max-w-none p-8",
         },
-      }),
-      Placeholder.configure({
-        placeholder: "Start typing your document...",
-      }),
-    ],
-    content: "",
-    editorProps: {
-      attributes: {
-        class: "prose prose-sm sm:prose lg:prose-lg xl:prose-xl dark:prose-invert focus:outline-none max-w-none p-8",
+      },
+      onUpdate: ({ editor, transaction }) => {
+        // Only the person who made a change saves the HTML snapshot used for search and export
+        if (transaction.getMeta(ySyncPluginKey)?.isChangeOrigin) return;
+        debouncedSave(editor.getHTML());
       },
     },
-    onUpdate: ({ editor }) => {
-      // Trigger auto-save
-      debouncedSave(editor.getHTML());
-    },
-  });
+    [doc, awareness]
+  );
+
+  useEffect(() => {
+    if (editor && user) editor.commands.updateUser({ name: user.name, color: caretColor(user.id) });
+  }, [editor, user]);
+
+  useEffect(() => {
+    editor?.setEditable(canEdit);
+  }, [editor, canEdit]);
+
+  // Everyone else with the document open
+  useEffect(() => {
+    const onChange = () => {
+      const next: Collaborator[] = [];
+      awareness.getStates().forEach((state, clientId) => {
+        if (clientId === doc.clientID || !state.user) return;
+        next.push({ clientId, name: String(state.user.name ?? "Anonymous"), color: String(state.user.color ?? "#6366f1") });
+      });
+      setCollaborators(next);
+    };
+    awareness.on("change", onChange);
+    return () => awareness.off("change", onChange);
+  }, [doc, awareness]);
 
   // Fetch document
   useEffect(() => {
@@ -79,18 +141,6 @@ export default function DocumentEditor() {
           const data = await response.json();
           setDocument(data);
           setDocumentName(data.name);
-          
-          // Load content into editor
-          if (data.content) {
-            try {
-              const parsed = JSON.parse(data.content);
-              if (editor && parsed.content) {
-                editor.commands.setContent(parsed.content);
-              }
-            } catch (e) {
-              console.error("Error parsing document content:", e);
-            }
-          }
         }
       } catch (error) {
         console.error("Error fetching document:", error);
@@ -99,20 +149,28 @@ export default function DocumentEditor() {
       }
     };
 
-    if (editor) {
-      fetchDocument();
+    fetchDocument();
+  }, [documentId]);
+
+  // Documents written before collaborative editing, or just restored, only have HTML content: the
+  // server asks one editor to import it into the shared document
+  useEffect(() => {
+    if (!editor || seed === null || status !== "synced" || !editor.isEmpty) return;
+    try {
+      const parsed = JSON.parse(seed);
+      if (parsed.content) editor.commands.setContent(parsed.content);
+    } catch (e) {
+      console.error("Error parsing document content:", e);
     }
-  }, [documentId, editor]);
+  }, [editor, seed, status]);
 
   // Debounced save function
+  const saveTimer = useRef<NodeJS.Timeout>();
   const debouncedSave = useCallback(
-    (() => {
-      let timeout: NodeJS.Timeout;
-      return (content: string) => {
-        clearTimeout(timeout);
-        timeout = setTimeout(() => saveDocument(content), 2000);
-      };
-    })(),
+    (content: string) => {
+      clearTimeout(saveTimer.current);
+      saveTimer.current = setTimeout(() => saveDocument(content), 2000);
+    },
     [documentId]
   );
 
@@ -208,6 +266,42 @@ export default function DocumentEditor() {
         </div>
 
         <div className="flex items-center gap-4 flex-shrink-0">
+          {/* Connection */}
+          {syncError ? (
+            <span className="text-sm text-red-600">{syncError}</span>
+          ) : status === "offline" ? (
+            <div className="flex items-center gap-2 text-sm">
+              <WifiOff className="w-4 h-4 text-red-500" />
+              <span className="text-red-600 hidden sm:inline">Offline — changes will sync when you reconnect</span>
+            </div>
+          ) : status === "synced" && !canEdit ? (
+            <span className="text-sm text-muted-foreground">View only</span>
+          ) : null}
+
+          {/* Collaborators */}
+          {collaborators.length > 0 && (
+            <div className="flex items-center gap-2">
+              <Users className="w-4 h-4 text-muted-foreground" />
+              <div className="flex -space-x-2">
+                {collaborators.slice(0, 5).map((c) => (
+                  <div
+                    key={c.clientId}
+                    className="w-7 h-7 rounded-full border-2 border-card flex items-center justify-center text-xs font-medium text-white"
+                    style={{ backgroundColor: c.color }}
+                    title={c.name}
+                  >
+                    {c.name.charAt(0).toUpperCase()}
+                  </div>
+                ))}
+                {collaborators.length > 5 && (
+                  <div className="w-7 h-7 rounded-full bg-muted border-2 border-card flex items-center justify-center text-xs font-medium">
+                    +{collaborators.length - 5}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Save Status */}
           <div className="text-sm text-muted-foreground flex items-center gap-2">
             {isSaving ? (
@@ -220,10 +314,19 @@ export default function DocumentEditor() {
             ) : null}
           </div>
 
+          <button
+            onClick={() => setShowHistory(true)}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium hover:bg-secondary transition-colors"
+            title="Version history"
+          >
+            <History className="w-4 h-4" />
+            <span className="hidden sm:inline">History</span>
+          </button>
+
           {/* Save Button */}
           <motion.button
             onClick={() => saveDocument()}
-            disabled={isSaving}
+            disabled={isSaving || !canEdit}
             className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg font-medium hover:bg-primary/90 transition-colors disabled:opacity-50"
             whileHover={{ scale: 1.02 }}
             whileTap={{ scale: 0.98 }}
@@ -334,6 +437,20 @@ export default function DocumentEditor() {
           </div>
         </div>
       </div>
+
+      {showHistory && documentId && (
+        <DocumentHistoryPanel
+          documentId={documentId}
+          type="document"
+          canEdit={canEdit}
+          currentContent={() => JSON.stringify({ content: editor.getHTML() })}
+          saveChanges={() => saveDocument()}
+          // The server resets the shared document and everyone editing loads the restored text; a
+          // save still waiting would overwrite it
+          onRestored={() => clearTimeout(saveTimer.current)}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
     </div>
   );
 }
@@ -5,6 +5,7 @@ import { Bell, Check, CheckCheck } from "lucide-react";
 import { motion } from "framer-motion";
 import { useNavigate } from "react-router-dom";
 import TaskDrawer from "@/components/TaskDrawer";
+import NotificationPreferencesSettings from "@/components/NotificationPreferencesSettings";
 import type { Task } from "@/components/TaskCard";
 import { getRealtimeSocket } from "@/lib/realtimeSocket";
 
@@ -260,6 +261,8 @@ export default function Inbox() {
             ))}
           </div>
         )}
+
+        <NotificationPreferencesSettings />
       </div>
 
       <TaskDrawer
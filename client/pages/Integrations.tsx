@@ -3,6 +3,7 @@ import { Plug, Search, Check, Unplug, ArrowLeft, Zap, Shield, ExternalLink, Load
 import { motion, AnimatePresence } from "framer-motion";
 import { Link, useSearchParams } from "react-router-dom";
 import MainLayout from "@/components/MainLayout";
+import ApiTokensSettings from "@/components/ApiTokensSettings";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { api } from "@/lib/api";
@@ -659,6 +660,8 @@ export default function Integrations() {
               </AnimatePresence>
             </>
           )}
+
+          <ApiTokensSettings />
         </div>
       </div>
     </MainLayout>
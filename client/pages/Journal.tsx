@@ -15,7 +15,7 @@ import {
   type JournalEntry,
 } from "@/lib/journal";
 import { MOOD_EMOJIS } from "@/lib/mood";
-import { addXP, XP_REWARDS } from "@/lib/xp";
+import { logActivity } from "@/lib/xp";
 import { toast } from "sonner";
 
 export default function Journal() {
@@ -61,7 +61,7 @@ export default function Journal() {
     setEntries(getEntries());
 
     if (isNew) {
-      addXP("JOURNAL_ENTRY", XP_REWARDS.JOURNAL_ENTRY);
+      logActivity("JOURNAL_ENTRY");
     }
 
     toast.success("Journal entry saved");
@@ -1,9 +1,13 @@
 import MainLayout from "@/components/MainLayout";
-import TaskCard, { Task } from "@/components/TaskCard";
+import TaskCard, { Task, TaskDraft } from "@/components/TaskCard";
 import TaskDrawer from "@/components/TaskDrawer";
 import ActivityLogModal from "@/components/ActivityLogModal";
+import TaskQueryBar from "@/components/TaskQueryBar";
+import BulkActionBar from "@/components/BulkActionBar";
+import { useTaskSelection } from "@/hooks/useTaskSelection";
+import { DEFAULT_WORKFLOW, findStatus, getInitialStatus, isDoneStatus } from "@/lib/workflow";
 import { api } from "@/lib/api";
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { motion } from "framer-motion";
 import { ListTodo } from "lucide-react";
 import { useLocation, useNavigate } from "react-router-dom";
@@ -16,6 +20,12 @@ export default function MyTasks() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  // Task query from ?q=, applied on the server; kept in a ref for the polling interval
+  const query = new URLSearchParams(location.search).get("q") ?? "";
+  const queryRef = useRef(query);
+  queryRef.current = query;
+  const [queryError, setQueryError] = useState<string | null>(null);
+
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | undefined>();
   const [drawerReadOnly, setDrawerReadOnly] = useState(false);
@@ -26,7 +36,14 @@ export default function MyTasks() {
   const fetchMyTasks = async () => {
     try {
       setLoading(true);
-      const response = await api("/api/tasks/my");
+      const q = queryRef.current;
+      const response = await api(q ? `/api/tasks/my?q=${encodeURIComponent(q)}` : "/api/tasks/my");
+      if (response.status === 400 && q) {
+        const data = await response.json().catch(() => null);
+        setQueryError(data?.error || "Invalid query");
+        setTasks([]);
+        return;
+      }
       if (!response.ok) {
         const txt = await response.text();
         throw new Error(txt || "Failed to fetch my tasks");
@@ -34,6 +51,7 @@ export default function MyTasks() {
       const data = await response.json();
       setTasks(data);
       setError(null);
+      setQueryError(null);
     } catch (e) {
       setError(e instanceof Error ? e.message : "Failed to fetch my tasks");
     } finally {
@@ -56,7 +74,6 @@ export default function MyTasks() {
     };
 
     fetchMe();
-    fetchMyTasks();
     const interval = setInterval(fetchMyTasks, 10000);
 
     const handleFocus = () => {
@@ -67,6 +84,19 @@ export default function MyTasks() {
     return () => clearInterval(interval);
   }, []);
 
+  // Also runs on mount
+  useEffect(() => {
+    fetchMyTasks();
+  }, [query]);
+
+  const handleQueryChange = (next: string) => {
+    const params = new URLSearchParams(location.search);
+    if (next) params.set("q", next);
+    else params.delete("q");
+    const search = params.toString();
+    navigate({ pathname: location.pathname, search: search ? `?${search}` : "" });
+  };
+
   useEffect(() => {
     const params = new URLSearchParams(location.search);
     const taskParam = params.get("task");
@@ -83,28 +113,25 @@ export default function MyTasks() {
     setIsDrawerOpen(true);
   }, [location.search, tasks]);
 
-  const normalizeStatus = (value: unknown): Task["status"] => {
-    const raw = String(value ?? "")
-      .trim()
-      .toLowerCase();
-
-    if (raw === "todo" || raw === "to do" || raw === "to-do") return "todo";
-    if (raw === "done" || raw === "completed" || raw === "complete") return "done";
-    if (raw === "inprogress" || raw === "in progress" || raw === "in_progress" || raw === "in-progress") {
-      return "inprogress";
-    }
-
-    // fallback (keeps UI consistent)
-    return "todo";
-  };
+  // Tasks come from projects with different workflows, so sort each into a column by its own project's statuses:
+  // done statuses, the initial status (or one the workflow no longer has), and everything in between
+  const workflowOf = (task: Task) => task.workflow ?? DEFAULT_WORKFLOW;
 
   const grouped = useMemo(() => {
-    const todo = tasks.filter((t) => normalizeStatus(t.status) === "todo");
-    const inprogress = tasks.filter((t) => normalizeStatus(t.status) === "inprogress");
-    const done = tasks.filter((t) => normalizeStatus(t.status) === "done");
+    const todo: Task[] = [];
+    const inprogress: Task[] = [];
+    const done: Task[] = [];
+    for (const t of tasks) {
+      const workflow = workflowOf(t);
+      if (isDoneStatus(workflow, t.status)) done.push(t);
+      else if (!findStatus(workflow, t.status) || t.status === getInitialStatus(workflow)) todo.push(t);
+      else inprogress.push(t);
+    }
     return { todo, inprogress, done };
   }, [tasks]);
 
+  const selection = useTaskSelection([...grouped.todo, ...grouped.inprogress, ...grouped.done].map((t) => t.id));
+
   const handleOpenTask = (task: Task) => {
     setEditingTask(task);
     setDrawerReadOnly(true);
@@ -122,7 +149,7 @@ export default function MyTasks() {
     setIsHistoryModalOpen(true);
   };
 
-  const handleSaveTask = async (newTask: Omit<Task, "id">) => {
+  const handleSaveTask = async (newTask: TaskDraft) => {
     if (!editingTask) return;
     try {
       const response = await api(`/api/tasks/${editingTask.id}`, {
@@ -132,7 +159,9 @@ export default function MyTasks() {
 
       if (response.ok) {
         const updated = await response.json();
-        setTasks(tasks.map((t) => (t.id === updated.id ? updated : t)));
+        // The update response has no workflow; keep the old one unless the task changed project
+        if (updated.projectId !== editingTask.projectId) fetchMyTasks();
+        else setTasks(tasks.map((t) => (t.id === updated.id ? { ...updated, workflow: t.workflow } : t)));
       }
     } catch (error) {
       console.error("Error saving task:", error);
@@ -171,10 +200,13 @@ export default function MyTasks() {
               <TaskCard
                 key={task.id}
                 task={task}
+                statuses={workflowOf(task)}
                 onOpen={handleOpenTask}
                 onEdit={handleEditTask}
                 onDelete={handleDeleteTask}
                 onHistory={handleViewHistory}
+                selected={selection.isSelected(task.id)}
+                onSelect={selection.handleSelect}
               />
             ))}
           </div>
@@ -239,6 +271,10 @@ export default function MyTasks() {
           </div>
         </motion.div>
 
+        <div className="mb-8">
+          <TaskQueryBar query={query} onQueryChange={handleQueryChange} error={queryError} />
+        </div>
+
         <div className="space-y-10">
           {renderSection("To Do", grouped.todo)}
           {renderSection("In Progress", grouped.inprogress)}
@@ -246,6 +282,15 @@ export default function MyTasks() {
         </div>
       </div>
 
+      {/* Tasks span projects here, so the bar offers the default statuses and no assignees or labels;
+          refetch afterwards since a change may take a task off this list */}
+      <BulkActionBar
+        selectedIds={selection.selectedIds}
+        statuses={DEFAULT_WORKFLOW}
+        onApplied={() => fetchMyTasks()}
+        onClear={selection.clearSelection}
+      />
+
       <TaskDrawer
         open={isDrawerOpen}
         onOpenChange={(open) => {
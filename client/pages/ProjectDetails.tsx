@@ -1,9 +1,9 @@
 import { useState, useEffect, useMemo } from "react";
 import { useParams, Link, useLocation, useNavigate } from "react-router-dom";
-import { Plus, CheckCircle, Clock, ListTodo, TrendingUp, Users, LayoutGrid, PenTool, FileText, Trophy, Search, Filter, AlertTriangle, X, MoreHorizontal } from "lucide-react";
+import { Plus, CheckCircle, Clock, ListTodo, TrendingUp, Users, LayoutGrid, PenTool, FileText, Trophy, Search, Filter, AlertTriangle, X, MoreHorizontal, Download } from "lucide-react";
 import { motion } from "framer-motion";
 import MainLayout from "@/components/MainLayout";
-import TaskCard, { Task, TaskLabel } from "@/components/TaskCard";
+import TaskCard, { Task, TaskDraft, TaskLabel } from "@/components/TaskCard";
 import TaskDrawer from "@/components/TaskDrawer";
 import ActivityLogModal from "@/components/ActivityLogModal";
 import ProjectMembersTab from "@/components/ProjectMembersTab";
@@ -11,9 +11,9 @@ import DocumentsList from "@/components/DocumentsList";
 import { api } from "@/lib/api";
 import { useAuth } from "@/contexts/AuthContext";
 import { getRealtimeSocket } from "@/lib/realtimeSocket";
-import { bumpCompletionStreak, confettiBurst, readCompletionStreak } from "@/lib/confetti";
-import { incrementDoneCount, listAchievements, unlockAchievements } from "@/lib/achievements";
+import { confettiBurst } from "@/lib/confetti";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
 import AiTaskSuggestions from "@/components/AiTaskSuggestions";
 import TimeMachine from "@/components/TimeMachine";
@@ -25,8 +25,19 @@ import ProjectAnalytics from "@/components/ProjectAnalytics";
 import FocusMode, { FocusModeButton } from "@/components/FocusMode";
 import StandupGenerator from "@/components/StandupGenerator";
 import ProjectChat from "@/components/ProjectChat";
+import TaskQueryBar from "@/components/TaskQueryBar";
 import type { TaskTemplate } from "@/lib/taskTemplates";
-import { addXP, XP_REWARDS } from "@/lib/xp";
+import { fetchXPState, GAMIFICATION_CHANGED, type XPState } from "@/lib/xp";
+import WorkflowEditor from "@/components/WorkflowEditor";
+import WebhooksSettings from "@/components/WebhooksSettings";
+import ReminderSettings from "@/components/ReminderSettings";
+import TaskImportDialog from "@/components/TaskImportDialog";
+import { downloadProjectArchive } from "@/lib/projectArchive";
+import BulkActionBar, { mergeBulkResult } from "@/components/BulkActionBar";
+import { useTaskSelection } from "@/hooks/useTaskSelection";
+import SprintPlanner from "@/components/SprintPlanner";
+import type { Sprint } from "@/lib/sprints";
+import { DEFAULT_WORKFLOW, canTransition, getInitialStatus, isDoneStatus, type WorkflowStatus } from "@/lib/workflow";
 
 interface Project {
   id: number;
@@ -43,6 +54,9 @@ type LeaderboardRow = {
   completedToday: number;
   completedLast7Days: number;
   streak: number;
+  xp: number;
+  level: number;
+  title: string;
 };
 
 export default function ProjectDetails() {
@@ -61,20 +75,14 @@ export default function ProjectDetails() {
 
   const [project, setProject] = useState<Project | null>(null);
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [workflow, setWorkflow] = useState<WorkflowStatus[]>(DEFAULT_WORKFLOW);
+  const [sprints, setSprints] = useState<Sprint[]>([]);
   const [loading, setLoading] = useState(true);
 
   const [leaderboard, setLeaderboard] = useState<LeaderboardRow[]>([]);
   const [leaderboardLoading, setLeaderboardLoading] = useState(false);
-  const [streak, setStreak] = useState(() => readCompletionStreak().streak);
-  const [unlockedIds, setUnlockedIds] = useState<string[]>(() => {
-    try {
-      const raw = typeof window !== "undefined" ? window.localStorage.getItem("achievements:unlocked") : null;
-      const arr = raw ? (JSON.parse(raw) as string[]) : [];
-      return Array.isArray(arr) ? arr : [];
-    } catch {
-      return [];
-    }
-  });
+  const [xpState, setXPState] = useState<XPState | null>(null);
+  const streak = xpState?.streak ?? 0;
 
   // Filter state
   const [searchQuery, setSearchQuery] = useState("");
@@ -82,7 +90,12 @@ export default function ProjectDetails() {
   const [filterPriority, setFilterPriority] = useState("");
   const [filterLabelId, setFilterLabelId] = useState("");
   const [filterOverdue, setFilterOverdue] = useState(false);
+  const [filterSprint, setFilterSprint] = useState(""); // "" = all, "backlog" or a sprint id
   const [showFilters, setShowFilters] = useState(false);
+  // Task query from ?q=, run on the server; null ids = no query
+  const taskQuery = new URLSearchParams(location.search).get("q") ?? "";
+  const [queryMatchIds, setQueryMatchIds] = useState<Set<number> | null>(null);
+  const [queryError, setQueryError] = useState<string | null>(null);
   const [projectLabels, setProjectLabels] = useState<TaskLabel[]>([]);
 
   // View mode: standard kanban vs swimlanes
@@ -113,6 +126,7 @@ export default function ProjectDetails() {
   useEffect(() => {
     fetchProject();
     fetchTasks();
+    fetchSprints();
     fetchLeaderboard();
     
     // Poll for updates every 10 seconds
@@ -140,12 +154,13 @@ export default function ProjectDetails() {
       fetchLeaderboard();
     };
 
+    // Payloads don't always carry labels and reactions, so keep what the board already has
     const onTaskUpdated = ({ task }: { task: Task }) => {
       setTasks((prev) => {
         const idx = prev.findIndex((t) => t.id === task.id);
         if (idx === -1) return [...prev, task];
         const next = [...prev];
-        next[idx] = task;
+        next[idx] = { ...prev[idx], ...task };
         return next;
       });
     };
@@ -170,10 +185,45 @@ export default function ProjectDetails() {
       fetchLeaderboard();
     };
 
+    const onTasksBulkUpdated = (result: { tasks: Task[]; deletedIds: number[] }) => {
+      setTasks((prev) => mergeBulkResult(prev, result, parseInt(projectId)));
+      fetchLeaderboard();
+    };
+
+    // Tasks in removed statuses may have been moved, so reload the board too
+    const onWorkflowUpdated = ({ statuses }: { statuses: WorkflowStatus[] }) => {
+      setWorkflow(statuses);
+      fetchTasks();
+    };
+
+    // Closing a sprint moves its unfinished tasks, so reload the board too
+    const onSprintUpdated = ({ sprint }: { sprint: Sprint }) => {
+      setSprints((prev) => {
+        const idx = prev.findIndex((s) => s.id === sprint.id);
+        if (idx === -1) return [sprint, ...prev];
+        const next = [...prev];
+        next[idx] = sprint;
+        return next;
+      });
+      if (sprint.state === "closed") {
+        fetchTasks();
+        fetchSprints();
+      }
+    };
+
+    const onSprintDeleted = ({ sprintId }: { sprintId: number }) => {
+      setSprints((prev) => prev.filter((s) => s.id !== sprintId));
+      setTasks((prev) => prev.map((t) => (t.sprintId === sprintId ? { ...t, sprintId: null } : t)));
+    };
+
     socket.on("task:created", onTaskCreated);
     socket.on("task:updated", onTaskUpdated);
     socket.on("task:deleted", onTaskDeleted);
     socket.on("task:reordered", onTaskReordered);
+    socket.on("tasks:bulk-updated", onTasksBulkUpdated);
+    socket.on("workflow:updated", onWorkflowUpdated);
+    socket.on("sprint:updated", onSprintUpdated);
+    socket.on("sprint:deleted", onSprintDeleted);
 
     return () => {
       socket.emit("leave-project", { projectId });
@@ -181,9 +231,24 @@ export default function ProjectDetails() {
       socket.off("task:updated", onTaskUpdated);
       socket.off("task:deleted", onTaskDeleted);
       socket.off("task:reordered", onTaskReordered);
+      socket.off("tasks:bulk-updated", onTasksBulkUpdated);
+      socket.off("workflow:updated", onWorkflowUpdated);
+      socket.off("sprint:updated", onSprintUpdated);
+      socket.off("sprint:deleted", onSprintDeleted);
     };
   }, [projectId]);
 
+  // Streak and achievements come from the server, which credits completions as they're saved
+  useEffect(() => {
+    const refresh = async () => {
+      const next = await fetchXPState();
+      if (next) setXPState(next);
+    };
+    refresh();
+    window.addEventListener(GAMIFICATION_CHANGED, refresh);
+    return () => window.removeEventListener(GAMIFICATION_CHANGED, refresh);
+  }, []);
+
   const fetchLeaderboard = async () => {
     if (!projectId) return;
     try {
@@ -220,6 +285,7 @@ export default function ProjectDetails() {
       if (response.ok) {
         const data = await response.json();
         setTasks(data.tasks || []);
+        if (Array.isArray(data.workflow)) setWorkflow(data.workflow);
       }
     } catch (error) {
       console.error('Error fetching tasks:', error);
@@ -228,6 +294,57 @@ export default function ProjectDetails() {
     }
   };
 
+  const fetchSprints = async () => {
+    if (!projectId) return;
+    try {
+      const response = await api(`/api/projects/${projectId}/sprints`);
+      if (response.ok) {
+        const data = await response.json();
+        setSprints(Array.isArray(data) ? data : []);
+      }
+    } catch (error) {
+      console.error('Error fetching sprints:', error);
+    }
+  };
+
+  // Re-run the query whenever the board changes so live updates stay filtered
+  useEffect(() => {
+    if (!projectId || !taskQuery) {
+      setQueryMatchIds(null);
+      setQueryError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await api(`/api/projects/${projectId}/board?q=${encodeURIComponent(taskQuery)}`);
+        const data = await response.json().catch(() => null);
+        if (cancelled) return;
+        if (!response.ok) {
+          setQueryError(data?.error || "Invalid query");
+          setQueryMatchIds(new Set());
+          return;
+        }
+        setQueryError(null);
+        setQueryMatchIds(new Set((Array.isArray(data) ? data : []).map((t: Task) => t.id)));
+      } catch { /* ignore */ }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [projectId, taskQuery, tasks]);
+
+  const setTaskQuery = (next: string) => {
+    const params = new URLSearchParams(location.search);
+    if (next) params.set("q", next);
+    else params.delete("q");
+    const search = params.toString();
+    navigate({ pathname: location.pathname, search: search ? `?${search}` : "" });
+  };
+
   useEffect(() => {
     const params = new URLSearchParams(location.search);
     const taskParam = params.get("task");
@@ -267,7 +384,7 @@ export default function ProjectDetails() {
     setIsHistoryModalOpen(true);
   };
 
-  const handleSaveTask = async (newTask: Omit<Task, "id">) => {
+  const handleSaveTask = async (newTask: TaskDraft) => {
     try {
       if (editingTask) {
         // Update existing task
@@ -281,20 +398,8 @@ export default function ProjectDetails() {
           const updatedTask = await response.json();
           setTasks((prev) => prev.map((t) => (t.id === editingTask.id ? updatedTask : t)));
 
-          if (beforeStatus !== "done" && updatedTask?.status === "done") {
+          if (!isDoneStatus(workflow, beforeStatus) && isDoneStatus(workflow, updatedTask?.status)) {
             confettiBurst();
-            addXP("TASK_COMPLETED", XP_REWARDS.TASK_COMPLETED);
-            const nextStreak = bumpCompletionStreak().streak;
-            setStreak(nextStreak);
-            addXP("STREAK_DAY", XP_REWARDS.STREAK_DAY);
-            const doneCount = incrementDoneCount();
-            const newly = unlockAchievements({ streak: nextStreak, doneCount });
-            if (newly.length > 0) {
-              setUnlockedIds((prev) => Array.from(new Set([...prev, ...newly.map((a) => a.id)])));
-              for (const a of newly) {
-                toast(a.title, { description: a.description });
-              }
-            }
             fetchLeaderboard();
           }
         }
@@ -308,7 +413,6 @@ export default function ProjectDetails() {
         if (response.ok) {
           const createdTask = await response.json();
           setTasks((prev) => [...prev, createdTask]);
-          addXP("TASK_CREATED", XP_REWARDS.TASK_CREATED);
           fetchLeaderboard();
         }
       }
@@ -355,8 +459,10 @@ export default function ProjectDetails() {
     setDragOverColumn(null);
   };
 
-  const handleDrop = async (status: "todo" | "inprogress" | "done") => {
-    if (draggedTask && draggedTask.status !== status) {
+  const handleDrop = async (status: string) => {
+    if (draggedTask && draggedTask.status !== status && !canTransition(workflow, draggedTask.status, status)) {
+      toast.error("This workflow doesn't allow that move");
+    } else if (draggedTask && draggedTask.status !== status) {
       try {
         const beforeStatus = draggedTask.status;
         const updatedTask = { ...draggedTask, status };
@@ -369,20 +475,13 @@ export default function ProjectDetails() {
           const savedTask = await response.json();
           setTasks(tasks.map((t) => (t.id === draggedTask.id ? savedTask : t)));
 
-          if (beforeStatus !== "done" && savedTask?.status === "done") {
+          if (!isDoneStatus(workflow, beforeStatus) && isDoneStatus(workflow, savedTask?.status)) {
             confettiBurst();
-            const nextStreak = bumpCompletionStreak().streak;
-            setStreak(nextStreak);
-            const doneCount = incrementDoneCount();
-            const newly = unlockAchievements({ streak: nextStreak, doneCount });
-            if (newly.length > 0) {
-              setUnlockedIds((prev) => Array.from(new Set([...prev, ...newly.map((a) => a.id)])));
-              for (const a of newly) {
-                toast(a.title, { description: a.description });
-              }
-            }
             fetchLeaderboard();
           }
+        } else {
+          const data = await response.json().catch(() => null);
+          toast.error(data?.error || "Could not move task");
         }
       } catch (error) {
         console.error('Error updating task status:', error);
@@ -396,6 +495,11 @@ export default function ProjectDetails() {
   const filteredTasks = useMemo(() => {
     let result = tasks;
 
+    // Task query
+    if (queryMatchIds) {
+      result = result.filter((t) => queryMatchIds.has(t.id));
+    }
+
     // Text search
     if (searchQuery.trim()) {
       const q = searchQuery.trim().toLowerCase();
@@ -403,13 +507,16 @@ export default function ProjectDetails() {
         (t) =>
           t.title.toLowerCase().includes(q) ||
           (t.description && t.description.toLowerCase().includes(q)) ||
-          t.assignedUser.toLowerCase().includes(q)
+          t.assignees.some((p) => p.name.toLowerCase().includes(q))
       );
     }
 
     // Assignee filter
-    if (filterAssignee) {
-      result = result.filter((t) => t.assignedUser === filterAssignee);
+    if (filterAssignee === "none") {
+      result = result.filter((t) => t.assignees.length === 0);
+    } else if (filterAssignee) {
+      const uid = parseInt(filterAssignee);
+      result = result.filter((t) => t.assignees.some((p) => p.id === uid));
     }
 
     // Priority filter
@@ -423,12 +530,20 @@ export default function ProjectDetails() {
       result = result.filter((t) => t.labels?.some((l) => l.id === lid));
     }
 
+    // Sprint filter
+    if (filterSprint === "backlog") {
+      result = result.filter((t) => !t.sprintId);
+    } else if (filterSprint) {
+      const sid = parseInt(filterSprint);
+      result = result.filter((t) => t.sprintId === sid);
+    }
+
     // Overdue filter
     if (filterOverdue) {
       const today = new Date();
       today.setHours(0, 0, 0, 0);
       result = result.filter((t) => {
-        if (t.status === "done" || !t.dueDate) return false;
+        if (isDoneStatus(workflow, t.status) || !t.dueDate) return false;
         const due = new Date(t.dueDate);
         if (Number.isNaN(due.getTime())) return false;
         due.setHours(0, 0, 0, 0);
@@ -437,59 +552,68 @@ export default function ProjectDetails() {
     }
 
     return result;
-  }, [tasks, searchQuery, filterAssignee, filterPriority, filterLabelId, filterOverdue]);
+  }, [tasks, workflow, queryMatchIds, searchQuery, filterAssignee, filterPriority, filterLabelId, filterSprint, filterOverdue]);
 
   // Unique assignees for filter dropdown
   const uniqueAssignees = useMemo(() => {
-    const set = new Set(tasks.map((t) => t.assignedUser).filter(Boolean));
-    return Array.from(set).sort();
+    const byId = new Map(tasks.flatMap((t) => t.assignees).map((p) => [p.id, p]));
+    return Array.from(byId.values()).sort((a, b) => a.name.localeCompare(b.name));
   }, [tasks]);
 
-  const hasActiveFilters = searchQuery || filterAssignee || filterPriority || filterLabelId || filterOverdue;
+  const hasActiveFilters = taskQuery || searchQuery || filterAssignee || filterPriority || filterLabelId || filterSprint || filterOverdue;
 
   const clearFilters = () => {
+    if (taskQuery) setTaskQuery("");
     setSearchQuery("");
     setFilterAssignee("");
     setFilterPriority("");
     setFilterLabelId("");
+    setFilterSprint("");
     setFilterOverdue(false);
   };
 
-  const getTodoTasks = () => filteredTasks.filter((t) => t.status === "todo");
-  const getInProgressTasks = () => filteredTasks.filter((t) => t.status === "inprogress");
-  const getDoneTasks = () => filteredTasks.filter((t) => t.status === "done");
+  const getColumnTasks = (status: string) => filteredTasks.filter((t) => t.status === status);
+
+  // Shift-click ranges follow the columns left to right
+  const selection = useTaskSelection(
+    (viewMode === "kanban" ? workflow.flatMap((s) => getColumnTasks(s.key)) : filteredTasks).map((t) => t.id)
+  );
 
   // Overdue count (unfiltered)
   const overdueCount = useMemo(() => {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
     return tasks.filter((t) => {
-      if (t.status === "done" || !t.dueDate) return false;
+      if (isDoneStatus(workflow, t.status) || !t.dueDate) return false;
       const due = new Date(t.dueDate);
       if (Number.isNaN(due.getTime())) return false;
       due.setHours(0, 0, 0, 0);
       return due < today;
     }).length;
-  }, [tasks]);
+  }, [tasks, workflow]);
 
   // Calculate task statistics (from unfiltered tasks)
+  // "To Do" is the workflow's first open status; every other open status counts as in progress
+  const initialStatus = getInitialStatus(workflow);
   const totalTasks = tasks.length;
-  const completedTasks = tasks.filter((t) => t.status === "done").length;
-  const inProgressTasks = tasks.filter((t) => t.status === "inprogress").length;
-  const todoTasks = tasks.filter((t) => t.status === "todo").length;
+  const completedTasks = tasks.filter((t) => isDoneStatus(workflow, t.status)).length;
+  const todoTasks = tasks.filter((t) => !isDoneStatus(workflow, t.status) && t.status === initialStatus).length;
+  const inProgressTasks = totalTasks - completedTasks - todoTasks;
   const completionPercentage = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
 
   const KanbanColumn = ({
     title,
+    color,
     tasks,
     status,
   }: {
     title: string;
+    color: string;
     tasks: Task[];
-    status: "todo" | "inprogress" | "done";
+    status: string;
   }) => (
     <div
-      className={`flex-1 min-h-[600px] rounded-lg p-4 transition-all duration-150 ${
+      className={`flex-1 md:min-w-[260px] min-h-[600px] rounded-lg p-4 transition-all duration-150 ${
         dragOverColumn === status
           ? "bg-secondary border-2 border-border shadow-inner"
           : "bg-secondary border-2 border-transparent"
@@ -499,7 +623,10 @@ export default function ProjectDetails() {
       onDrop={() => handleDrop(status)}
     >
       <div className="flex items-center justify-between mb-4">
-        <h3 className="font-semibold text-foreground">{title}</h3>
+        <h3 className="flex items-center gap-2 font-semibold text-foreground">
+          <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: color }} />
+          {title}
+        </h3>
         <span className="bg-muted text-muted-foreground text-xs font-medium px-2 py-1 rounded">
           {tasks.length}
         </span>
@@ -530,6 +657,9 @@ export default function ProjectDetails() {
               onEdit={handleEditTask}
               onDelete={handleDeleteTask}
               onHistory={handleViewHistory}
+              statuses={workflow}
+              selected={selection.isSelected(task.id)}
+              onSelect={selection.handleSelect}
             />
           </div>
         ))}
@@ -699,8 +829,8 @@ export default function ProjectDetails() {
           <div className="flex items-center justify-between mb-3">
             <h2 className="text-xl font-bold text-foreground">Momentum</h2>
             <div className="flex items-center gap-2">
-              {listAchievements()
-                .filter((a) => unlockedIds.includes(a.id))
+              {(xpState?.achievements ?? [])
+                .filter((a) => a.unlockedAt)
                 .slice(0, 3)
                 .map((a) => (
                   <Badge key={a.id} variant="secondary" className="bg-primary/10 text-primary border-primary/20">
@@ -769,6 +899,8 @@ export default function ProjectDetails() {
                           #{idx + 1} {row.name}
                         </p>
                         <p className="text-xs text-muted-foreground truncate">
+                          Lvl {row.level} {row.title}
+                          {" · "}
                           {row.completedToday} today
                           {" · "}
                           {row.streak} day streak
@@ -885,7 +1017,11 @@ export default function ProjectDetails() {
             <span className="text-[10px] uppercase tracking-wider text-muted-foreground font-semibold mr-1">Tools</span>
 
             {projectId && (
-              <ProjectChat projectId={parseInt(projectId)} projectName={project?.name || ""} />
+              <ProjectChat
+                projectId={parseInt(projectId)}
+                projectName={project?.name || ""}
+                autoOpen={new URLSearchParams(location.search).has("chat")}
+              />
             )}
 
             {projectId && (
@@ -894,7 +1030,49 @@ export default function ProjectDetails() {
 
             <AutoPlanDay tasks={filteredTasks} userName={user?.name} />
 
-            <ProjectAnalytics tasks={tasks} projectName={project?.name || ""} />
+            <ProjectAnalytics tasks={tasks} projectName={project?.name || ""} statuses={workflow} />
+
+            {projectId && (
+              <WorkflowEditor projectId={parseInt(projectId)} statuses={workflow} onSaved={setWorkflow} />
+            )}
+
+            {projectId && <WebhooksSettings projectId={parseInt(projectId)} />}
+
+            {projectId && <ReminderSettings projectId={parseInt(projectId)} />}
+
+            {projectId && (
+              <TaskImportDialog
+                projectId={parseInt(projectId)}
+                onChanged={(result) => setTasks((prev) => mergeBulkResult(prev, result, parseInt(projectId)))}
+              />
+            )}
+
+            {projectId && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={async () => {
+                  const error = await downloadProjectArchive(parseInt(projectId));
+                  if (error) toast.error(error);
+                }}
+                className="flex items-center gap-2"
+                title="Download the whole project as a .zip archive"
+              >
+                <Download className="w-4 h-4 text-emerald-500" />
+                Export
+              </Button>
+            )}
+
+            {projectId && (
+              <SprintPlanner
+                projectId={parseInt(projectId)}
+                sprints={sprints}
+                onChanged={() => {
+                  fetchSprints();
+                  fetchTasks();
+                }}
+              />
+            )}
 
             {projectId && (
               <TimeMachine projectId={parseInt(projectId)} tasks={tasks} />
@@ -922,8 +1100,8 @@ export default function ProjectDetails() {
                       title,
                       priority,
                       dueDate,
-                      assignedUser: user?.name || 'Unassigned',
-                      status: 'todo',
+                      assigneeIds: user ? [user.id] : [],
+                      status: initialStatus,
                       projectId: projectId ? parseInt(projectId) : null,
                     }),
                   });
@@ -939,21 +1117,33 @@ export default function ProjectDetails() {
           </div>
 
           {/* Expanded filter row */}
-          {showFilters && (
+          {(showFilters || taskQuery) && (
             <motion.div
               className="flex items-center gap-3 flex-wrap p-3 bg-secondary/20 border border-border rounded-xl"
               initial={{ opacity: 0, height: 0 }}
               animate={{ opacity: 1, height: "auto" }}
               transition={{ duration: 0.2 }}
             >
+              {projectId && (
+                <div className="w-full">
+                  <TaskQueryBar
+                    query={taskQuery}
+                    onQueryChange={setTaskQuery}
+                    error={queryError}
+                    projectId={parseInt(projectId)}
+                  />
+                </div>
+              )}
+
               <select
                 value={filterAssignee}
                 onChange={(e) => setFilterAssignee(e.target.value)}
                 className="px-3 py-1.5 text-sm border border-border rounded-lg bg-input text-foreground"
               >
                 <option value="">All assignees</option>
+                <option value="none">Unassigned</option>
                 {uniqueAssignees.map((a) => (
-                  <option key={a} value={a}>{a}</option>
+                  <option key={a.id} value={a.id}>{a.name}</option>
                 ))}
               </select>
 
@@ -979,6 +1169,22 @@ export default function ProjectDetails() {
                 ))}
               </select>
 
+              {sprints.length > 0 && (
+                <select
+                  value={filterSprint}
+                  onChange={(e) => setFilterSprint(e.target.value)}
+                  className="px-3 py-1.5 text-sm border border-border rounded-lg bg-input text-foreground"
+                >
+                  <option value="">All sprints</option>
+                  <option value="backlog">Backlog</option>
+                  {sprints.map((s) => (
+                    <option key={s.id} value={s.id}>
+                      {s.name}{s.state === "active" ? " (active)" : ""}
+                    </option>
+                  ))}
+                </select>
+              )}
+
               <label className="flex items-center gap-2 text-sm text-foreground cursor-pointer">
                 <input
                   type="checkbox"
@@ -1000,10 +1206,16 @@ export default function ProjectDetails() {
 
         {/* Kanban Board / Swimlanes */}
         {viewMode === "kanban" ? (
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 lg:gap-6">
-            <KanbanColumn title="To Do" tasks={getTodoTasks()} status="todo" />
-            <KanbanColumn title="In Progress" tasks={getInProgressTasks()} status="inprogress" />
-            <KanbanColumn title="Done" tasks={getDoneTasks()} status="done" />
+          <div className="flex flex-col md:flex-row gap-4 lg:gap-6 md:overflow-x-auto pb-2">
+            {workflow.map((status) => (
+              <KanbanColumn
+                key={status.key}
+                title={status.name}
+                color={status.color}
+                tasks={getColumnTasks(status.key)}
+                status={status.key}
+              />
+            ))}
           </div>
         ) : (
           <KanbanSwimlanes
@@ -1013,8 +1225,20 @@ export default function ProjectDetails() {
             onEdit={(task) => { setEditingTask(task); setDrawerReadOnly(false); setIsDrawerOpen(true); }}
             onDelete={handleDeleteTask}
             onHistory={(task) => { setHistoryTask(task); setIsHistoryModalOpen(true); }}
+            statuses={workflow}
+            isSelected={selection.isSelected}
+            onSelect={selection.handleSelect}
           />
         )}
+
+        <BulkActionBar
+          selectedIds={selection.selectedIds}
+          statuses={workflow}
+          projectId={parseInt(projectId)}
+          labels={projectLabels}
+          onApplied={(result) => setTasks((prev) => mergeBulkResult(prev, result, parseInt(projectId)))}
+          onClear={selection.clearSelection}
+        />
           </>
         ) : activeTab === "team" ? (
           <ProjectMembersTab
@@ -1046,6 +1270,9 @@ export default function ProjectDetails() {
         onSave={handleSaveTask}
         task={editingTask}
         readOnly={drawerReadOnly}
+        statuses={workflow}
+        sprints={sprints}
+        projectId={projectId ? parseInt(projectId) : null}
       />
 
       {/* Activity Log Modal */}
@@ -1070,12 +1297,14 @@ export default function ProjectDetails() {
             try {
               const response = await api(`/api/tasks/${taskId}`, {
                 method: "PUT",
-                body: JSON.stringify({ status: "done", projectId: projectId ? parseInt(projectId) : null }),
+                body: JSON.stringify({
+                  status: workflow.find((s) => s.isDone)?.key ?? "done",
+                  projectId: projectId ? parseInt(projectId) : null,
+                }),
               });
               if (response.ok) {
                 const updated = await response.json();
                 setTasks((prev) => prev.map((t) => (t.id === taskId ? updated : t)));
-                addXP("TASK_COMPLETED", XP_REWARDS.TASK_COMPLETED);
                 setFocusTask(null);
               }
             } catch { /* ignore */ }
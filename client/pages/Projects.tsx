@@ -11,11 +11,14 @@ import {
   Shield,
   Zap,
   Lock,
+  Upload,
 } from "lucide-react";
+import { toast } from "sonner";
 import MainLayout from "@/components/MainLayout";
 import ProjectEditModal from "@/components/ProjectEditModal";
 import ProjectCreateModal from "@/components/ProjectCreateModal";
 import { api } from "@/lib/api";
+import { restoreProjectArchive } from "@/lib/projectArchive";
 
 interface Project {
   id: number;
@@ -104,6 +107,7 @@ export default function Projects() {
   const [editingProject, setEditingProject] = useState<Project | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
 
   const getLogoIcon = (logoName?: string) => {
     const logo = LOGO_OPTIONS.find((l) => l.name === logoName);
@@ -135,6 +139,33 @@ export default function Projects() {
     setEditingProject(null);
   };
 
+  const handleRestore = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    setIsRestoring(true);
+    try {
+      const result = await restoreProjectArchive(file);
+      if ("error" in result) {
+        toast.error(result.error);
+        return;
+      }
+      setProjects((prev) => [...prev, result.project as Project]);
+      const notes = [
+        result.invited.length ? `Invited ${result.invited.join(", ")} to join.` : "",
+        result.unmatchedUsers.length ? `No account here for ${result.unmatchedUsers.join(", ")}.` : "",
+      ].filter(Boolean);
+      if (notes.length) notes.push("Their assignments were left out.");
+      toast.success(`Restored "${result.project.name}"`, {
+        description: notes.length ? notes.join(" ") : undefined,
+      });
+    } catch {
+      toast.error("Failed to restore project");
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
   const handleCreateProject = async (newProject: Omit<Project, "id">) => {
     try {
       const response = await api('/api/projects', {
@@ -240,6 +271,15 @@ export default function Projects() {
                 </div>
               </div>
             </div>
+            <div className="flex items-center gap-2 flex-shrink-0">
+            <label
+              className={`flex items-center justify-center gap-2 px-4 py-2 sm:py-2.5 rounded-xl font-medium border border-border bg-card text-foreground hover:bg-muted transition-colors whitespace-nowrap cursor-pointer ${isRestoring ? "opacity-60 pointer-events-none" : ""}`}
+              title="Restore a project from an exported .zip archive"
+            >
+              <Upload className="w-4 h-4" />
+              {isRestoring ? "Restoring..." : "Restore"}
+              <input type="file" accept=".zip,application/zip" className="hidden" onChange={handleRestore} />
+            </label>
             <motion.button
               onClick={() => setIsCreateModalOpen(true)}
               className="flex items-center justify-center sm:justify-start gap-2 bg-gradient-to-r from-primary to-blue-600 text-primary-foreground px-4 py-2 sm:px-5 sm:py-2.5 rounded-xl font-medium shadow-lg hover:shadow-xl transition-all whitespace-nowrap flex-shrink-0 group relative overflow-hidden"
@@ -252,6 +292,7 @@ export default function Projects() {
               </span>
               <div className="absolute inset-0 bg-gradient-to-r from-blue-600 to-purple-600 opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
             </motion.button>
+            </div>
           </motion.div>
 
           {/* Projects Grid */}
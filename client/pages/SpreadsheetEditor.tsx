@@ -1,11 +1,16 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { useParams, Link } from "react-router-dom";
 import { ReactGrid, Column, Row, CellChange, CellStyle } from "@silevis/reactgrid";
 import type { DefaultCellTypes, Id, TextCell, HeaderCell } from "@silevis/reactgrid";
 import "@silevis/reactgrid/styles.css";
-import {  ArrowLeft, Save, Loader2, Bold, Italic, Palette, Plus, Minus, Calculator, Download } from "lucide-react";
+import {  ArrowLeft, Save, Loader2, Bold, Italic, Palette, Plus, Minus, Calculator, Download, ListChecks, History } from "lucide-react";
 import { motion } from "framer-motion";
+import { toast } from "sonner";
 import { api } from "@/lib/api";
+import { downloadSpreadsheet, type SpreadsheetFormat } from "@/lib/spreadsheetFiles";
+import TaskTableGrid from "@/components/TaskTableGrid";
+import DocumentHistoryPanel from "@/components/DocumentHistoryPanel";
+import { createFormulaSheet, isFormulaError, parseCellKey } from "@shared/formulas";
 import "../styles/editor.css";
 
 interface Document {
@@ -14,6 +19,7 @@ interface Document {
   name: string;
   type: string;
   content: string;
+  taskTable: boolean;
   updatedAt: string;
 }
 
@@ -21,6 +27,24 @@ interface CellData {
   [key: string]: string | number;
 }
 
+// Raw cell input keyed like "B3", as stored in the document
+const rowsToCells = (rows: Row<DefaultCellTypes>[]) => {
+  const cells: CellData = {};
+  rows.forEach((row) => {
+    if (row.rowId !== "header") {
+      row.cells.forEach((cell: any, index) => {
+        if (index > 0 && cell.text) {
+          const col = String.fromCharCode(64 + index);
+          const rowNum = typeof row.rowId === "number" ? row.rowId + 1 : row.rowId;
+          const cellKey = `${col}${rowNum}`;
+          cells[cellKey] = cell.text;
+        }
+      });
+    }
+  });
+  return cells;
+};
+
 export default function SpreadsheetEditor() {
   const { projectId, documentId } = useParams();
   const [doc, setDoc] = useState<Document | null>(null);
@@ -34,6 +58,17 @@ export default function SpreadsheetEditor() {
   const [selectedCell, setSelectedCell] = useState<{ rowId: Id; columnId: Id } | null>(null);
   const [showFormatMenu, setShowFormatMenu] = useState(false);
   const [cellStyles, setCellStyles] = useState<Map<string, CellStyle>>(new Map());
+  const [isExporting, setIsExporting] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  // Cells keep what was typed; the sheet evaluates formulas and the grid shows its values
+  const sheetRef = useRef(createFormulaSheet({ rows: 30, columns: 15 }));
+  const [recalcVersion, setRecalcVersion] = useState(0);
+
+  const syncSheet = (nextRows: Row<DefaultCellTypes>[], numCols: number) => {
+    sheetRef.current.resize({ rows: nextRows.length - 1, columns: numCols });
+    sheetRef.current.load(rowsToCells(nextRows) as Record<string, string>);
+    setRecalcVersion((v) => v + 1);
+  };
 
   // Initialize default spreadsheet structure
   const initializeSpreadsheet = () => {
@@ -72,6 +107,7 @@ export default function SpreadsheetEditor() {
 
     setColumns(cols);
     setRows([headerRow, ...dataRows]);
+    syncSheet([headerRow, ...dataRows], numCols);
   };
 
   // Fetch document
@@ -86,6 +122,9 @@ export default function SpreadsheetEditor() {
           setDoc(data);
           setDocumentName(data.name);
 
+          // Task tables show the project's tasks, not stored cells
+          if (data.taskTable) return;
+
           // Load spreadsheet data
           if (data.content) {
             try {
@@ -114,8 +153,10 @@ export default function SpreadsheetEditor() {
   }, [documentId]);
 
   const loadSpreadsheetData = (cells: CellData) => {
-    const numCols = 15;
-    const numRows = 30;
+    // At least the default grid, grown to fit imported data
+    const used = Object.keys(cells).map(parseCellKey).filter(Boolean);
+    const numCols = Math.min(26, Math.max(15, ...used.map((at) => at.col)));
+    const numRows = Math.max(30, ...used.map((at) => at.row));
     
     const cols: Column[] = [
       { columnId: "header", width: 50 },
@@ -154,6 +195,7 @@ export default function SpreadsheetEditor() {
 
     setColumns(cols);
     setRows([headerRow, ...dataRows]);
+    syncSheet([headerRow, ...dataRows], numCols);
   };
 
   const handleChanges = (changes: CellChange[]) => {
@@ -181,6 +223,14 @@ export default function SpreadsheetEditor() {
       return newRows;
     });
 
+    let recalculated = false;
+    changes.forEach((change) => {
+      if (change.rowId === "header" || change.columnId === "header" || change.newCell.type !== "text") return;
+      const changed = sheetRef.current.setCell(`${change.columnId}${Number(change.rowId) + 1}`, change.newCell.text);
+      if (changed.length > 0) recalculated = true;
+    });
+    if (recalculated) setRecalcVersion((v) => v + 1);
+
     // Trigger auto-save
     setTimeout(() => debouncedSave(), 100);
   };
@@ -209,6 +259,10 @@ export default function SpreadsheetEditor() {
       return newRows;
     });
 
+    if (selectedCell.columnId !== "header") {
+      sheetRef.current.setCell(`${selectedCell.columnId}${Number(selectedCell.rowId) + 1}`, formula);
+      setRecalcVersion((v) => v + 1);
+    }
     debouncedSave();
   };
 
@@ -229,6 +283,7 @@ export default function SpreadsheetEditor() {
     };
 
     setRows([...rows, newRow]);
+    syncSheet([...rows, newRow], numCols);
     debouncedSave();
   };
 
@@ -239,10 +294,10 @@ export default function SpreadsheetEditor() {
       return;
     }
 
-    setRows((prevRows) => {
-      const newRows = prevRows.filter((row) => row.rowId !== selectedCell.rowId);
-      // Renumber rows
-      return newRows.map((row, idx) => {
+    // Renumber rows
+    const newRows = rows
+      .filter((row) => row.rowId !== selectedCell.rowId)
+      .map((row, idx) => {
         if (idx === 0) return row; // Keep header
         return {
           ...row,
@@ -252,78 +307,44 @@ export default function SpreadsheetEditor() {
           )
         };
       });
-    });
+    setRows(newRows);
+    // Formulas aren't rewritten: a reference past the deleted row now reads the row that moved up into it
+    syncSheet(newRows, columns.length - 1);
 
     setSelectedCell(null);
     debouncedSave();
   };
 
-  // Export to CSV
-  const exportToCSV = () => {
-    const csvRows: string[] = [];
-    
-    // Skip header row (index 0)
-    for (let i = 1; i < rows.length; i++) {
-      const row = rows[i];
-      const csvCols: string[] = [];
-      
-      // Skip header column (index 0)
-      for (let j = 1; j < row.cells.length; j++) {
-        const cell: any = row.cells[j];
-        const value = cell.text || "";
-        // Escape quotes and wrap in quotes if contains comma
-        const escapedValue = value.includes(",") || value.includes('"') 
-          ? `"${value.replace(/"/g, '""')}"` 
-          : value;
-        csvCols.push(escapedValue);
-      }
-      csvRows.push(csvCols.join(","));
+  // Download through the server, which evaluates formulas; unsaved edits are saved first
+  const exportSpreadsheet = async (format: SpreadsheetFormat) => {
+    if (!documentId) return;
+    setIsExporting(true);
+    try {
+      if (!doc?.taskTable) await saveDocument();
+      const error = await downloadSpreadsheet(documentId, format);
+      if (error) toast.error(error);
+    } finally {
+      setIsExporting(false);
     }
-    
-    const csvContent = csvRows.join("\n");
-    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-    const link = window.document.createElement("a");
-    const url = URL.createObjectURL(blob);
-    
-    link.setAttribute("href", url);
-    link.setAttribute("download", `${documentName || "spreadsheet"}.csv`);
-    link.style.visibility = "hidden";
-    window.document.body.appendChild(link);
-    link.click();
-    window.document.body.removeChild(link);
   };
 
+  // Saves are scheduled from handlers that closed over older rows, so they read the latest ones
+  const rowsRef = useRef(rows);
+  rowsRef.current = rows;
+  const saveTimer = useRef<NodeJS.Timeout>();
+
   // Debounced save
-  const debouncedSave = useCallback(
-    (() => {
-      let timeout: NodeJS.Timeout;
-      return () => {
-        clearTimeout(timeout);
-        timeout = setTimeout(() => saveDocument(), 2000);
-      };
-    })(),
-    [documentId, rows]
-  );
+  const debouncedSave = () => {
+    clearTimeout(saveTimer.current);
+    saveTimer.current = setTimeout(() => saveDocument(), 2000);
+  };
 
   const saveDocument = async () => {
     if (!documentId) return;
 
     setIsSaving(true);
     try {
-      // Convert rows to cell data
-      const cells: CellData = {};
-      rows.forEach((row) => {
-        if (row.rowId !== "header") {
-          row.cells.forEach((cell: any, index) => {
-            if (index > 0 && cell.text) {
-              const col = String.fromCharCode(64 + index);
-              const rowNum = typeof row.rowId === "number" ? row.rowId + 1 : row.rowId;
-              const cellKey = `${col}${rowNum}`;
-              cells[cellKey] = cell.text;
-            }
-          });
-        }
-      });
+      const cells = rowsToCells(rowsRef.current);
 
       const response = await api(`/api/documents/${documentId}`, {
         method: "PUT",
@@ -357,6 +378,32 @@ export default function SpreadsheetEditor() {
     }
   };
 
+  // Show each cell's computed value; editing still opens what was typed
+  const gridRows = useMemo(
+    () =>
+      rows.map((row) =>
+        row.rowId === "header"
+          ? row
+          : {
+              ...row,
+              cells: row.cells.map((cell, index) => {
+                if (index === 0 || cell.type !== "text") return cell;
+                const key = `${String.fromCharCode(64 + index)}${Number(row.rowId) + 1}`;
+                const value = sheetRef.current.getValue(key);
+                return {
+                  ...cell,
+                  renderer: () => (
+                    <span className={isFormulaError(value) ? "text-red-600 font-medium" : undefined}>
+                      {sheetRef.current.getDisplay(key)}
+                    </span>
+                  ),
+                } as TextCell;
+              }),
+            }
+      ),
+    [rows, recalcVersion]
+  );
+
   if (loading) {
     return (
       <div className="h-screen flex items-center justify-center bg-background">
@@ -419,155 +466,221 @@ export default function SpreadsheetEditor() {
             ) : null}
           </div>
 
-          {/* Export Button */}
-          <motion.button
-            onClick={exportToCSV}
-            className="flex items-center gap-2 px-4 py-2 bg-secondary text-foreground rounded-lg font-medium hover:bg-secondary/80 transition-colors border border-border"
-            whileHover={{ scale: 1.02 }}
-            whileTap={{ scale: 0.98 }}
-          >
-            <Download className="w-4 h-4" />
-            <span className="hidden sm:inline">Export</span>
-          </motion.button>
+          {/* Export Buttons */}
+          {(["csv", "xlsx"] as const).map((format) => (
+            <motion.button
+              key={format}
+              onClick={() => exportSpreadsheet(format)}
+              disabled={isExporting}
+              className="flex items-center gap-2 px-4 py-2 bg-secondary text-foreground rounded-lg font-medium hover:bg-secondary/80 transition-colors border border-border disabled:opacity-50"
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              title={`Download as ${format.toUpperCase()}`}
+            >
+              <Download className="w-4 h-4" />
+              <span className="hidden sm:inline">{format.toUpperCase()}</span>
+            </motion.button>
+          ))}
+
+          {!doc?.taskTable && (
+            <button
+              onClick={() => setShowHistory(true)}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium hover:bg-secondary transition-colors"
+              title="Version history"
+            >
+              <History className="w-4 h-4" />
+              <span className="hidden sm:inline">History</span>
+            </button>
+          )}
 
           {/* Save Button */}
-          <motion.button
-            onClick={() => saveDocument()}
-            disabled={isSaving}
-            className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg font-medium hover:bg-primary/90 transition-colors disabled:opacity-50"
-            whileHover={{ scale: 1.02 }}
-            whileTap={{ scale: 0.98 }}
-          >
-            <Save className="w-4 h-4" />
-            Save
-          </motion.button>
+          {!doc?.taskTable && (
+            <motion.button
+              onClick={() => saveDocument()}
+              disabled={isSaving}
+              className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg font-medium hover:bg-primary/90 transition-colors disabled:opacity-50"
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              <Save className="w-4 h-4" />
+              Save
+            </motion.button>
+          )}
         </div>
       </header>
 
-      {/* Toolbar */}
-      <div className="border-b border-border bg-card p-2 flex items-center gap-2 overflow-x-auto sticky top-14 z-40">
-        <div className="flex items-center gap-1">
-          <span className="text-sm text-muted-foreground mr-2">Format:</span>
-          <button
-            onClick={() => {
-              if (!selectedCell) {
-                alert("Select a cell first");
-                return;
-              }
-              // Note: Bold/Italic would require custom cell renderer
-              alert("Text formatting coming soon! Use formulas for now.");
-            }}
-            className="p-2 rounded hover:bg-secondary transition-colors"
-            title="Bold (Coming Soon)"
-          >
-            <Bold className="w-4 h-4" />
-          </button>
-          <button
-            onClick={() => alert("Text formatting coming soon!")}
-            className="p-2 rounded hover:bg-secondary transition-colors"
-            title="Italic (Coming Soon)"
-          >
-            <Italic className="w-4 h-4" />
-          </button>
-          <button
-            onClick={() => alert("Cell coloring coming soon!")}
-            className="p-2 rounded hover:bg-secondary transition-colors"
-            title="Cell Color (Coming Soon)"
-          >
-            <Palette className="w-4 h-4" />
-          </button>
-        </div>
+      {doc?.taskTable ? (
+        <div className="flex-1 overflow-auto p-4">
+          <div className="bg-card rounded-lg shadow-sm border border-border overflow-hidden">
+            <TaskTableGrid projectId={doc.projectId} />
+          </div>
 
-        <div className="w-px h-6 bg-border" />
-
-        <div className="flex items-center gap-1">
-          <span className="text-sm text-muted-foreground mr-2">Functions:</span>
-          <button
-            onClick={() => {
-              const range = prompt("Enter range (e.g., A1:A10):");
-              if (range) insertFormula(`=SUM(${range})`);
-            }}
-            className="px-3 py-1 text-sm rounded hover:bg-secondary transition-colors hover:bg-primary/10"
-            title="Sum"
-          >
-            Σ SUM
-          </button>
-          <button
-            onClick={() => {
-              const range = prompt("Enter range (e.g., B1:B10):");
-              if (range) insertFormula(`=AVERAGE(${range})`);
-            }}
-            className="px-3 py-1 text-sm rounded hover:bg-secondary transition-colors hover:bg-primary/10"
-            title="Average"
-          >
-            AVG
-          </button>
-          <button
-            onClick={() => {
-              const range = prompt("Enter range (e.g., C1:C10):");
-              if (range) insertFormula(`=COUNT(${range})`);
-            }}
-            className="px-3 py-1 text-sm rounded hover:bg-secondary transition-colors hover:bg-primary/10"
-            title="Count"
-          >
-            COUNT
-          </button>
-          <Calculator className="w-4 h-4 text-muted-foreground" />
+          <div className="mt-4 p-4 bg-secondary/50 rounded-lg">
+            <p className="text-sm text-muted-foreground mb-2 font-medium flex items-center gap-2">
+              <ListChecks className="w-4 h-4" />
+              Task table: every row is a task in this project
+            </p>
+            <ul className="text-xs text-muted-foreground space-y-1">
+              <li>• <strong>Edit:</strong> Changes are saved to the task right away and show up on the board and in its activity</li>
+              <li>• <strong>Status:</strong> Type a status name from the project's workflow, e.g. "In Progress"</li>
+              <li>• <strong>Assignee:</strong> Names or emails of project members, separated by commas</li>
+              <li>• <strong>Due date:</strong> YYYY-MM-DD, or clear the cell to remove it</li>
+              <li>• <strong>New task:</strong> Type a title in the last row</li>
+            </ul>
+          </div>
         </div>
+      ) : (
+        <>
+        {/* Toolbar */}
+        <div className="border-b border-border bg-card p-2 flex items-center gap-2 overflow-x-auto sticky top-14 z-40">
+          <div className="flex items-center gap-1">
+            <span className="text-sm text-muted-foreground mr-2">Format:</span>
+            <button
+              onClick={() => {
+                if (!selectedCell) {
+                  alert("Select a cell first");
+                  return;
+                }
+                // Note: Bold/Italic would require custom cell renderer
+                alert("Text formatting coming soon! Use formulas for now.");
+              }}
+              className="p-2 rounded hover:bg-secondary transition-colors"
+              title="Bold (Coming Soon)"
+            >
+              <Bold className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => alert("Text formatting coming soon!")}
+              className="p-2 rounded hover:bg-secondary transition-colors"
+              title="Italic (Coming Soon)"
+            >
+              <Italic className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => alert("Cell coloring coming soon!")}
+              className="p-2 rounded hover:bg-secondary transition-colors"
+              title="Cell Color (Coming Soon)"
+            >
+              <Palette className="w-4 h-4" />
+            </button>
+          </div>
 
-        <div className="w-px h-6 bg-border" />
+          <div className="w-px h-6 bg-border" />
+
+          <div className="flex items-center gap-1">
+            <span className="text-sm text-muted-foreground mr-2">Functions:</span>
+            <button
+              onClick={() => {
+                const range = prompt("Enter range (e.g., A1:A10):");
+                if (range) insertFormula(`=SUM(${range})`);
+              }}
+              className="px-3 py-1 text-sm rounded hover:bg-secondary transition-colors hover:bg-primary/10"
+              title="Sum"
+            >
+              Σ SUM
+            </button>
+            <button
+              onClick={() => {
+                const range = prompt("Enter range (e.g., B1:B10):");
+                if (range) insertFormula(`=AVERAGE(${range})`);
+              }}
+              className="px-3 py-1 text-sm rounded hover:bg-secondary transition-colors hover:bg-primary/10"
+              title="Average"
+            >
+              AVG
+            </button>
+            <button
+              onClick={() => {
+                const range = prompt("Enter range (e.g., C1:C10):");
+                if (range) insertFormula(`=COUNT(${range})`);
+              }}
+              className="px-3 py-1 text-sm rounded hover:bg-secondary transition-colors hover:bg-primary/10"
+              title="Count"
+            >
+              COUNT
+            </button>
+            <Calculator className="w-4 h-4 text-muted-foreground" />
+          </div>
 
-        <div className="flex items-center gap-1">
-          <span className="text-sm text-muted-foreground mr-2">Rows/Cols:</span>
-          <button
-            onClick={addRow}
-            className="p-2 rounded hover:bg-secondary transition-colors hover:bg-green-500/10"
-            title="Add Row at Bottom"
-          >
-            <Plus className="w-4 h-4" />
-          </button>
-          <button
-            onClick={deleteRow}
-            className="p-2 rounded hover:bg-secondary transition-colors hover:bg-red-500/10"
-            title="Delete Selected Row"
-          >
-            <Minus className="w-4 h-4" />
-          </button>
+          <div className="w-px h-6 bg-border" />
+
+          <div className="flex items-center gap-1">
+            <span className="text-sm text-muted-foreground mr-2">Rows/Cols:</span>
+            <button
+              onClick={addRow}
+              className="p-2 rounded hover:bg-secondary transition-colors hover:bg-green-500/10"
+              title="Add Row at Bottom"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+            <button
+              onClick={deleteRow}
+              className="p-2 rounded hover:bg-secondary transition-colors hover:bg-red-500/10"
+              title="Delete Selected Row"
+            >
+              <Minus className="w-4 h-4" />
+            </button>
+          </div>
         </div>
-      </div>
 
-      {/* Spreadsheet */}
-      <div className="flex-1 overflow-auto p-4">
-        <div className="bg-card rounded-lg shadow-sm border border-border overflow-hidden">
-          <ReactGrid
-            rows={rows}
-            columns={columns}
-            onCellsChanged={handleChanges}
-            onFocusLocationChanged={(location) => {
-              if (location.rowId !== undefined && location.rowId !== null && location.columnId !== undefined && location.columnId !== null) {
-                setSelectedCell({ rowId: location.rowId, columnId: location.columnId });
-              }
-            }}
-            enableRangeSelection
-            enableFillHandle
-            enableRowSelection
-            enableColumnSelection
-          />
-        </div>
+        {/* Spreadsheet */}
+        <div className="flex-1 overflow-auto p-4">
+          <div className="bg-card rounded-lg shadow-sm border border-border overflow-hidden">
+            <ReactGrid
+              rows={gridRows}
+              columns={columns}
+              onCellsChanged={handleChanges}
+              onFocusLocationChanged={(location) => {
+                if (location.rowId !== undefined && location.rowId !== null && location.columnId !== undefined && location.columnId !== null) {
+                  setSelectedCell({ rowId: location.rowId, columnId: location.columnId });
+                }
+              }}
+              enableRangeSelection
+              enableFillHandle
+              enableRowSelection
+              enableColumnSelection
+            />
+          </div>
         
-        {/* Quick Tips */}
-        <div className="mt-4 p-4 bg-secondary/50 rounded-lg">
-          <p className="text-sm text-muted-foreground mb-2 font-medium">Quick Tips:</p>
-          <ul className="text-xs text-muted-foreground space-y-1">
-            <li>• <strong>Formulas:</strong> =SUM(A1:A10), =AVERAGE(B1:B5), =COUNT(C1:C10)</li>
-            <li>• <strong>Auto-fill:</strong> Drag the fill handle (bottom-right corner) to copy cells</li>
-            <li>• <strong>Select:</strong> Multiple cells with Shift+Click or Click and Drag</li>
-            <li>• <strong>Edit:</strong> Double-click a cell to edit, press Enter to confirm</li>
-            <li>• <strong>Export:</strong> Click Export button to download as CSV</li>
-            <li>• <strong>Import:</strong> Use Import CSV button in Documents tab to load data</li>
-          </ul>
+          {/* Quick Tips */}
+          <div className="mt-4 p-4 bg-secondary/50 rounded-lg">
+            <p className="text-sm text-muted-foreground mb-2 font-medium">Quick Tips:</p>
+            <ul className="text-xs text-muted-foreground space-y-1">
+              <li>• <strong>Formulas:</strong> =SUM(A1:A10), =AVERAGE(B1:B5), =IF(C1&gt;10, "high", "low"), =ROUND(D1*1.2, 2)</li>
+              <li>• <strong>Functions:</strong> SUM, AVERAGE, MIN, MAX, COUNT, IF, ROUND, CONCAT, TODAY; operators + - * / ^ &amp; = &lt;&gt; &lt; &gt;</li>
+              <li>• <strong>Auto-fill:</strong> Drag the fill handle (bottom-right corner) to copy cells</li>
+              <li>• <strong>Select:</strong> Multiple cells with Shift+Click or Click and Drag</li>
+              <li>• <strong>Edit:</strong> Double-click a cell to edit, press Enter to confirm</li>
+              <li>• <strong>Export:</strong> Download the sheet as CSV, or as XLSX with its formulas</li>
+              <li>• <strong>Import:</strong> Use the Import button in the Spreadsheets tab to load a CSV or XLSX file</li>
+              <li>• <strong>History:</strong> Versions are kept as you edit; compare any two or restore one from History</li>
+            </ul>
+          </div>
         </div>
-      </div>
+        </>
+      )}
+
+      {showHistory && documentId && (
+        <DocumentHistoryPanel
+          documentId={documentId}
+          type="spreadsheet"
+          canEdit
+          currentContent={() => JSON.stringify({ cells: rowsToCells(rows) })}
+          saveChanges={async () => {
+            clearTimeout(saveTimer.current);
+            await saveDocument();
+          }}
+          onRestored={(content) => {
+            clearTimeout(saveTimer.current);
+            try {
+              loadSpreadsheetData(JSON.parse(content).cells ?? {});
+            } catch (e) {
+              console.error("Error parsing spreadsheet content:", e);
+            }
+          }}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
     </div>
   );
 }
@@ -5,13 +5,15 @@ import { api } from "@/lib/api";
 import {
   Sparkles, Calendar, TrendingUp, TrendingDown, AlertTriangle,
   CheckCircle, Clock, MessageSquare, Loader2, ChevronRight,
-  ThumbsUp, ThumbsDown, Lightbulb, BarChart3, Flame, Target,
+  ThumbsUp, ThumbsDown, Lightbulb, BarChart3, Flame, Target, Users,
 } from "lucide-react";
 import { getRecentEntries, MOOD_EMOJIS, type MoodEntry } from "@/lib/mood";
 import { getSessions, type PomodoroSession } from "@/lib/pomodoro";
+import type { Sprint } from "@/lib/sprints";
 
 interface RetroData {
   period: { from: string; to: string; days: number };
+  sprint: { id: number; name: string; goal: string | null; state: string; rolledOver: number } | null;
   summary: {
     tasksCreated: number;
     tasksCompleted: number;
@@ -26,7 +28,8 @@ interface RetroData {
   };
   projects: { id: number; name: string; totalTasks: number; completed: number; inProgress: number; todo: number }[];
   completedTaskTitles: string[];
-  overdueTasks: { title: string; dueDate: string; priority: string }[];
+  overdueTasks: { title: string; dueDate: string; priority: string; assignees: string[] }[];
+  people: { id: number; name: string; completed: number; open: number }[];
 }
 
 interface RetroInsight {
@@ -147,6 +150,14 @@ function generateInsights(
     });
   }
 
+  if (data.sprint && data.sprint.rolledOver > 0) {
+    negative.push({
+      type: "negative", icon: <AlertTriangle className="w-4 h-4" />,
+      title: `${data.sprint.rolledOver} task${data.sprint.rolledOver > 1 ? "s" : ""} rolled over`,
+      detail: "Unfinished work carried into the next sprint. Check whether the sprint was over-committed.",
+    });
+  }
+
   if (avgMood > 0 && avgMood < 3) {
     negative.push({
       type: "negative", icon: <ThumbsDown className="w-4 h-4" />,
@@ -290,6 +301,38 @@ export default function SprintRetro() {
   const [fromDate, setFromDate] = useState(weekAgo.toISOString().slice(0, 10));
   const [toDate, setToDate] = useState(today.toISOString().slice(0, 10));
 
+  // Retro for a specific sprint instead of a date range
+  const [projects, setProjects] = useState<{ id: number; name: string }[]>([]);
+  const [projectId, setProjectId] = useState("");
+  const [sprints, setSprints] = useState<Sprint[]>([]);
+  const [sprintId, setSprintId] = useState("");
+
+  useEffect(() => {
+    api("/api/projects")
+      .then((res) => (res.ok ? res.json() : []))
+      .then((list) => setProjects(Array.isArray(list) ? list : []))
+      .catch(() => setProjects([]));
+  }, []);
+
+  useEffect(() => {
+    setSprintId("");
+    setSprints([]);
+    if (!projectId) return;
+    api(`/api/projects/${projectId}/sprints`)
+      .then((res) => (res.ok ? res.json() : []))
+      .then((list) => setSprints(Array.isArray(list) ? list.filter((s: Sprint) => s.state !== "planned") : []))
+      .catch(() => setSprints([]));
+  }, [projectId]);
+
+  const selectSprint = (id: string) => {
+    setSprintId(id);
+    const sprint = sprints.find((s) => String(s.id) === id);
+    if (!sprint) return;
+    // Mood and focus data are filtered by these dates
+    setFromDate(sprint.startDate.slice(0, 10));
+    setToDate((sprint.closedAt ?? sprint.endDate).slice(0, 10));
+  };
+
   // Quick presets
   const presets = [
     { label: "Last 7 days", days: 7 },
@@ -301,6 +344,7 @@ export default function SprintRetro() {
     const to = new Date();
     const from = new Date();
     from.setDate(from.getDate() - days);
+    setSprintId("");
     setFromDate(from.toISOString().slice(0, 10));
     setToDate(to.toISOString().slice(0, 10));
   };
@@ -310,7 +354,11 @@ export default function SprintRetro() {
     setError(null);
     setGenerated(false);
     try {
-      const res = await api(`/api/retrospective/data?from=${fromDate}&to=${toDate}`);
+      const res = await api(
+        sprintId
+          ? `/api/retrospective/data?sprintId=${sprintId}`
+          : `/api/retrospective/data?from=${fromDate}&to=${toDate}${projectId ? `&projectId=${projectId}` : ""}`
+      );
       if (!res.ok) throw new Error("Failed to fetch data");
       const json = await res.json();
       setData(json);
@@ -364,12 +412,43 @@ export default function SprintRetro() {
           <div className="rounded-2xl border bg-card/50 backdrop-blur p-5 space-y-4">
             <h3 className="font-semibold text-sm">Sprint Period</h3>
             <div className="flex flex-wrap items-end gap-4">
+              <div>
+                <label className="text-xs text-muted-foreground block mb-1">Project</label>
+                <select
+                  value={projectId}
+                  onChange={(e) => setProjectId(e.target.value)}
+                  className="px-3 py-2 rounded-lg border bg-background text-sm focus:outline-none focus:ring-2 focus:ring-primary/50"
+                >
+                  <option value="">Any project</option>
+                  {projects.map((p) => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </select>
+              </div>
+              {sprints.length > 0 && (
+                <div>
+                  <label className="text-xs text-muted-foreground block mb-1">Sprint</label>
+                  <select
+                    value={sprintId}
+                    onChange={(e) => selectSprint(e.target.value)}
+                    className="px-3 py-2 rounded-lg border bg-background text-sm focus:outline-none focus:ring-2 focus:ring-primary/50"
+                  >
+                    <option value="">Custom dates</option>
+                    {sprints.map((s) => (
+                      <option key={s.id} value={s.id}>
+                        {s.name}{s.state === "active" ? " (active)" : ""}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
               <div>
                 <label className="text-xs text-muted-foreground block mb-1">From</label>
                 <input
                   type="date"
                   value={fromDate}
                   onChange={(e) => setFromDate(e.target.value)}
+                  disabled={!!sprintId}
                   className="px-3 py-2 rounded-lg border bg-background text-sm focus:outline-none focus:ring-2 focus:ring-primary/50"
                 />
               </div>
@@ -379,6 +458,7 @@ export default function SprintRetro() {
                   type="date"
                   value={toDate}
                   onChange={(e) => setToDate(e.target.value)}
+                  disabled={!!sprintId}
                   className="px-3 py-2 rounded-lg border bg-background text-sm focus:outline-none focus:ring-2 focus:ring-primary/50"
                 />
               </div>
@@ -420,6 +500,22 @@ export default function SprintRetro() {
                 exit={{ opacity: 0 }}
                 className="space-y-6"
               >
+                {data.sprint && (
+                  <div className="rounded-2xl border bg-card/50 p-4 flex flex-wrap items-center gap-3">
+                    <Target className="w-5 h-5 text-amber-500" />
+                    <div className="flex-1 min-w-0">
+                      <p className="font-semibold text-sm">
+                        {data.sprint.name}
+                        <span className="ml-2 text-xs font-normal text-muted-foreground capitalize">{data.sprint.state}</span>
+                      </p>
+                      {data.sprint.goal && <p className="text-xs text-muted-foreground">{data.sprint.goal}</p>}
+                    </div>
+                    {data.sprint.rolledOver > 0 && (
+                      <span className="text-xs text-muted-foreground">{data.sprint.rolledOver} rolled over</span>
+                    )}
+                  </div>
+                )}
+
                 {/* Summary Stats */}
                 <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
                   <StatCard label="Tasks Completed" value={data.summary.tasksCompleted} icon={<CheckCircle className="w-5 h-5" />} color="text-green-500" />
@@ -496,6 +592,25 @@ export default function SprintRetro() {
                   </div>
                 )}
 
+                {/* Team Breakdown */}
+                {data.people.length > 0 && (
+                  <div className="rounded-2xl border bg-card/50 backdrop-blur p-5 space-y-4">
+                    <h3 className="font-semibold flex items-center gap-2">
+                      <Users className="w-4 h-4 text-blue-500" /> Team Breakdown
+                    </h3>
+                    <div className="space-y-2">
+                      {data.people.map((person) => (
+                        <div key={person.id} className="flex items-center justify-between gap-4 text-sm">
+                          <span className="font-medium truncate">{person.name}</span>
+                          <span className="text-xs text-muted-foreground shrink-0">
+                            {person.completed} done · {person.open} open
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Completed Tasks List */}
                 {data.completedTaskTitles.length > 0 && (
                   <div className="rounded-2xl border bg-card/50 backdrop-blur p-5 space-y-3">
@@ -4,6 +4,7 @@ import { motion } from "framer-motion";
 import { Link } from "react-router-dom";
 import MainLayout from "@/components/MainLayout";
 import { api } from "@/lib/api";
+import { DEFAULT_WORKFLOW, isDoneStatus } from "@/lib/workflow";
 import { getSessions, type PomodoroSession } from "@/lib/pomodoro";
 import { getRecentEntries, MOOD_EMOJIS, ENERGY_LEVELS, type MoodEntry } from "@/lib/mood";
 
@@ -47,7 +48,7 @@ export default function WeeklyRecap() {
 
     // Tasks completed this week
     const completedThisWeek = allTasks.filter((t) => {
-      if (t.status !== "done") return false;
+      if (!isDoneStatus(t.workflow ?? DEFAULT_WORKFLOW, t.status)) return false;
       const updated = t.updatedAt?.slice(0, 10);
       return updated && updated >= weekAgoStr;
     });
@@ -126,7 +127,7 @@ export default function WeeklyRecap() {
       const dateStr = d.toISOString().slice(0, 10);
       const label = d.toLocaleDateString(undefined, { weekday: "short" });
 
-      const completed = allTasks.filter((t) => t.status === "done" && t.updatedAt?.slice(0, 10) === dateStr).length;
+      const completed = allTasks.filter((t) => isDoneStatus(t.workflow ?? DEFAULT_WORKFLOW, t.status) && t.updatedAt?.slice(0, 10) === dateStr).length;
       const focusSecs = getSessions()
         .filter((s) => s.startedAt.slice(0, 10) === dateStr && s.type === "focus")
         .reduce((sum, s) => sum + s.duration, 0);
@@ -1,12 +1,12 @@
-import { useState, useEffect, useCallback, useRef } from "react";
-import { useParams, useNavigate, Link } from "react-router-dom";
-import { Tldraw, Editor, TLStoreSnapshot, getSnapshot, loadSnapshot } from "tldraw";
+import { useState, useEffect, useCallback } from "react";
+import { useParams, Link } from "react-router-dom";
+import { Tldraw, Editor } from "tldraw";
 import "tldraw/tldraw.css";
 import { motion } from "framer-motion";
-import { ArrowLeft, Save, Users, Wifi, WifiOff, Loader2 } from "lucide-react";
-import { useAuth } from "@/contexts/AuthContext";
+import { ArrowLeft, History, Users, Wifi, WifiOff, Loader2, Eye } from "lucide-react";
 import { api } from "@/lib/api";
-import { useWhiteboardSocket, RemoteCursor } from "@/hooks/useWhiteboardSocket";
+import { useWhiteboardSocket } from "@/hooks/useWhiteboardSocket";
+import WhiteboardHistoryPanel from "@/components/WhiteboardHistoryPanel";
 
 interface Project {
   id: number;
@@ -15,37 +15,14 @@ interface Project {
 
 export default function Whiteboard() {
   const { projectId } = useParams();
-  const navigate = useNavigate();
-  const { user } = useAuth();
-  const editorRef = useRef<Editor | null>(null);
-  
+  const [editor, setEditor] = useState<Editor | null>(null);
   const [project, setProject] = useState<Project | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isSaving, setIsSaving] = useState(false);
-  const [lastSaved, setLastSaved] = useState<Date | null>(null);
-  const [initialData, setInitialData] = useState<any>(null);
+  const [showHistory, setShowHistory] = useState(false);
 
-  // Socket connection
-  const {
-    isConnected,
-    users,
-    remoteCursors,
-    emitCanvasChange,
-    emitCursorMove,
-  } = useWhiteboardSocket({
+  // The board is loaded and kept in sync over the socket once the editor is mounted
+  const { status, canEdit, unsavedChanges, error, users, remoteCursors, emitCursorMove } = useWhiteboardSocket({
     projectId: projectId || "",
-    userName: user?.name || "Anonymous",
-    onCanvasChange: (change) => {
-      // Apply changes from other users
-      if (editorRef.current && change) {
-        try {
-          // This is a simplified approach - in production you'd want more sophisticated sync
-          console.log("Received canvas change:", change);
-        } catch (error) {
-          console.error("Error applying canvas change:", error);
-        }
-      }
-    },
+    editor,
   });
 
   // Fetch project info
@@ -65,117 +42,36 @@ export default function Whiteboard() {
     fetchProject();
   }, [projectId]);
 
-  // Load whiteboard state
-  useEffect(() => {
-    const loadWhiteboard = async () => {
-      if (!projectId) return;
-      try {
-        setIsLoading(true);
-        const response = await api(`/api/whiteboard/${projectId}`);
-        if (response.ok) {
-          const data = await response.json();
-          if (data.data && data.data !== "{}") {
-            try {
-              const parsed = JSON.parse(data.data);
-              setInitialData(parsed);
-            } catch (e) {
-              console.log("No previous whiteboard state");
-            }
-          }
-        }
-      } catch (error) {
-        console.error("Error loading whiteboard:", error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-    loadWhiteboard();
-  }, [projectId]);
-
   // Handle editor mount
-  const handleMount = useCallback((editor: Editor) => {
-    editorRef.current = editor;
-
-    // Load initial data if available
-    if (initialData) {
-      try {
-        loadSnapshot(editor.store, initialData);
-      } catch (error) {
-        console.error("Error loading snapshot:", error);
-      }
-    }
-
-    // Track pointer movement for remote cursors
-    const handlePointerMove = () => {
-      const point = editor.inputs.currentPagePoint;
-      emitCursorMove(point.x, point.y);
-    };
-
-    // Track changes for real-time sync
-    const unsubscribe = editor.store.listen((entry) => {
-      // Emit changes to other users
-      emitCanvasChange(entry);
-    });
-
-    editor.on("pointer-move" as any, handlePointerMove);
-
-    return () => {
-      unsubscribe();
-    };
-  }, [initialData, emitCanvasChange, emitCursorMove]);
-
-  // Save whiteboard
-  const handleSave = useCallback(async () => {
-    if (!editorRef.current || !projectId) {
-      console.log("Cannot save: missing editor or projectId");
-      return;
-    }
-    
-    setIsSaving(true);
-    try {
-      // Use tldraw v4 getSnapshot function
-      const { document, session } = getSnapshot(editorRef.current.store);
-      console.log("Saving whiteboard snapshot for project:", projectId);
-      
-      const response = await api(`/api/whiteboard/${projectId}`, {
-        method: "POST",
-        body: JSON.stringify({ data: { document, session } }),
-      });
-      
-      if (response.ok) {
-        const result = await response.json();
-        console.log("Whiteboard saved successfully:", result);
-        setLastSaved(new Date());
-      } else {
-        const error = await response.text();
-        console.error("Failed to save whiteboard. Status:", response.status, "Error:", error);
-        alert(`Failed to save whiteboard: ${response.status} - ${error}`);
-      }
-    } catch (error) {
-      console.error("Error saving whiteboard:", error);
-      alert(`Error saving whiteboard: ${error}`);
-    } finally {
-      setIsSaving(false);
-    }
-  }, [projectId]);
-
-  // Auto-save every 30 seconds
-  useEffect(() => {
-    const autoSaveInterval = setInterval(() => {
-      if (editorRef.current) {
-        handleSave();
-      }
-    }, 30000);
-
-    return () => clearInterval(autoSaveInterval);
-  }, [handleSave]);
+  const handleMount = useCallback(
+    (mounted: Editor) => {
+      // Read-only until the server says this user can edit
+      mounted.updateInstanceState({ isReadonly: true });
+      setEditor(mounted);
+
+      // Track pointer movement for remote cursors
+      const handlePointerMove = () => {
+        const point = mounted.inputs.currentPagePoint;
+        emitCursorMove(point.x, point.y);
+      };
+      mounted.on("pointer-move" as any, handlePointerMove);
+
+      return () => {
+        mounted.off("pointer-move" as any, handlePointerMove);
+        setEditor(null);
+      };
+    },
+    [emitCursorMove]
+  );
 
-  if (isLoading) {
+  if (error) {
     return (
       <div className="h-screen flex items-center justify-center bg-background">
         <div className="text-center">
-          <Loader2 className="w-12 h-12 animate-spin text-primary mx-auto mb-4" />
-          <p className="text-muted-foreground">Loading whiteboard...</p>
+          <p className="text-foreground font-medium mb-4">{error}</p>
+          <Link to={`/project/${projectId}`} className="text-primary hover:underline">
+            Back to Project
+          </Link>
         </div>
       </div>
     );
@@ -200,21 +96,37 @@ export default function Whiteboard() {
         </div>
 
         <div className="flex items-center gap-4">
-          {/* Connection Status */}
+          {/* Sync Status */}
           <div className="flex items-center gap-2 text-sm">
-            {isConnected ? (
+            {status === "synced" ? (
               <>
                 <Wifi className="w-4 h-4 text-green-500" />
-                <span className="text-green-600 hidden sm:inline">Connected</span>
+                <span className="text-green-600 hidden sm:inline">
+                  {unsavedChanges > 0 ? "Saving…" : "All changes saved"}
+                </span>
+              </>
+            ) : status === "connecting" ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                <span className="text-muted-foreground hidden sm:inline">Connecting…</span>
               </>
             ) : (
               <>
                 <WifiOff className="w-4 h-4 text-red-500" />
-                <span className="text-red-600 hidden sm:inline">Disconnected</span>
+                <span className="text-red-600 hidden sm:inline">
+                  Offline{unsavedChanges > 0 ? " – changes will be saved when you reconnect" : ""}
+                </span>
               </>
             )}
           </div>
 
+          {!canEdit && status === "synced" && (
+            <div className="flex items-center gap-1 text-sm text-muted-foreground">
+              <Eye className="w-4 h-4" />
+              <span className="hidden sm:inline">View only</span>
+            </div>
+          )}
+
           {/* Active Users */}
           <div className="flex items-center gap-2">
             <Users className="w-4 h-4 text-muted-foreground" />
@@ -237,20 +149,15 @@ export default function Whiteboard() {
             </div>
           </div>
 
-          {/* Save Button */}
+          {/* History Button */}
           <motion.button
-            onClick={handleSave}
-            disabled={isSaving}
-            className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg font-medium hover:bg-primary/90 transition-colors disabled:opacity-50"
+            onClick={() => setShowHistory(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-secondary text-foreground rounded-lg font-medium hover:bg-secondary/80 transition-colors"
             whileHover={{ scale: 1.02 }}
             whileTap={{ scale: 0.98 }}
           >
-            {isSaving ? (
-              <Loader2 className="w-4 h-4 animate-spin" />
-            ) : (
-              <Save className="w-4 h-4" />
-            )}
-            <span className="hidden sm:inline">Save</span>
+            <History className="w-4 h-4" />
+            <span className="hidden sm:inline">History</span>
           </motion.button>
         </div>
       </header>
@@ -301,12 +208,12 @@ export default function Whiteboard() {
         <div>
           {users.length} user{users.length !== 1 ? "s" : ""} online
         </div>
-        {lastSaved && (
-          <div>
-            Last saved: {lastSaved.toLocaleTimeString()}
-          </div>
-        )}
+        <div>Changes are saved as you draw</div>
       </div>
+
+      {showHistory && projectId && (
+        <WhiteboardHistoryPanel projectId={projectId} canEdit={canEdit} onClose={() => setShowHistory(false)} />
+      )}
     </div>
   );
 }
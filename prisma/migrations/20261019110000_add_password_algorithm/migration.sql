@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "passwordAlgorithm" TEXT NOT NULL DEFAULT 'plaintext';
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "WorkflowStatus" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "projectId" INTEGER NOT NULL,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL DEFAULT '#6b7280',
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "isDone" BOOLEAN NOT NULL DEFAULT false,
+    "transitions" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "WorkflowStatus_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkflowStatus_projectId_key_key" ON "WorkflowStatus"("projectId", "key");
+
+-- CreateIndex
+CREATE INDEX "WorkflowStatus_projectId_idx" ON "WorkflowStatus"("projectId");
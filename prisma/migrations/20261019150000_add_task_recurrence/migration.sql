@@ -0,0 +1,31 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Task" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "assignedUser" TEXT NOT NULL,
+    "dueDate" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'todo',
+    "priority" TEXT NOT NULL DEFAULT 'medium',
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "projectId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "coverColor" TEXT,
+    "sprintId" INTEGER,
+    "parentTaskId" INTEGER,
+    "recurrence" TEXT,
+    "recurrenceSourceId" INTEGER,
+    CONSTRAINT "Task_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Task_sprintId_fkey" FOREIGN KEY ("sprintId") REFERENCES "Sprint" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Task_parentTaskId_fkey" FOREIGN KEY ("parentTaskId") REFERENCES "Task" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Task_recurrenceSourceId_fkey" FOREIGN KEY ("recurrenceSourceId") REFERENCES "Task" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Task" ("assignedUser", "coverColor", "createdAt", "description", "dueDate", "id", "parentTaskId", "position", "priority", "projectId", "sprintId", "status", "title", "updatedAt") SELECT "assignedUser", "coverColor", "createdAt", "description", "dueDate", "id", "parentTaskId", "position", "priority", "projectId", "sprintId", "status", "title", "updatedAt" FROM "Task";
+DROP TABLE "Task";
+ALTER TABLE "new_Task" RENAME TO "Task";
+CREATE UNIQUE INDEX "Task_recurrenceSourceId_key" ON "Task"("recurrenceSourceId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,113 @@
+-- CreateTable
+-- ChatMessage predates the migration history (it was added with `db push`), so only create it when missing
+CREATE TABLE IF NOT EXISTS "ChatMessage" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "projectId" INTEGER NOT NULL,
+    "authorId" INTEGER NOT NULL,
+    "body" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ChatMessage_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ChatMessage_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "ChatMessage_projectId_createdAt_idx" ON "ChatMessage"("projectId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "ChatMessage_authorId_idx" ON "ChatMessage"("authorId");
+
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN "plainText" TEXT NOT NULL DEFAULT '';
+
+-- Full-text index over tasks, comments, documents and chat messages.
+-- The rowid encodes the source row as id * 4 + kind (0 task, 1 comment, 2 document, 3 chat)
+-- so the triggers below can replace a single entry without scanning the index.
+CREATE VIRTUAL TABLE "SearchIndex" USING fts5(
+    "kind" UNINDEXED,
+    "sourceId" UNINDEXED,
+    "title",
+    "body",
+    tokenize = 'unicode61 remove_diacritics 2'
+);
+
+-- Tasks
+CREATE TRIGGER "Task_search_insert" AFTER INSERT ON "Task" BEGIN
+    INSERT INTO "SearchIndex" ("rowid", "kind", "sourceId", "title", "body")
+    VALUES (NEW."id" * 4, 'task', NEW."id", NEW."title", COALESCE(NEW."description", ''));
+END;
+
+CREATE TRIGGER "Task_search_update" AFTER UPDATE OF "title", "description" ON "Task" BEGIN
+    DELETE FROM "SearchIndex" WHERE "rowid" = OLD."id" * 4;
+    INSERT INTO "SearchIndex" ("rowid", "kind", "sourceId", "title", "body")
+    VALUES (NEW."id" * 4, 'task', NEW."id", NEW."title", COALESCE(NEW."description", ''));
+END;
+
+CREATE TRIGGER "Task_search_delete" AFTER DELETE ON "Task" BEGIN
+    DELETE FROM "SearchIndex" WHERE "rowid" = OLD."id" * 4;
+END;
+
+-- Comments
+CREATE TRIGGER "Comment_search_insert" AFTER INSERT ON "Comment" BEGIN
+    INSERT INTO "SearchIndex" ("rowid", "kind", "sourceId", "title", "body")
+    VALUES (NEW."id" * 4 + 1, 'comment', NEW."id", '', NEW."body");
+END;
+
+CREATE TRIGGER "Comment_search_update" AFTER UPDATE OF "body" ON "Comment" BEGIN
+    DELETE FROM "SearchIndex" WHERE "rowid" = OLD."id" * 4 + 1;
+    INSERT INTO "SearchIndex" ("rowid", "kind", "sourceId", "title", "body")
+    VALUES (NEW."id" * 4 + 1, 'comment', NEW."id", '', NEW."body");
+END;
+
+CREATE TRIGGER "Comment_search_delete" AFTER DELETE ON "Comment" BEGIN
+    DELETE FROM "SearchIndex" WHERE "rowid" = OLD."id" * 4 + 1;
+END;
+
+-- Documents
+CREATE TRIGGER "Document_search_insert" AFTER INSERT ON "Document" BEGIN
+    INSERT INTO "SearchIndex" ("rowid", "kind", "sourceId", "title", "body")
+    VALUES (NEW."id" * 4 + 2, 'document', NEW."id", NEW."name", NEW."plainText");
+END;
+
+CREATE TRIGGER "Document_search_update" AFTER UPDATE OF "name", "plainText" ON "Document" BEGIN
+    DELETE FROM "SearchIndex" WHERE "rowid" = OLD."id" * 4 + 2;
+    INSERT INTO "SearchIndex" ("rowid", "kind", "sourceId", "title", "body")
+    VALUES (NEW."id" * 4 + 2, 'document', NEW."id", NEW."name", NEW."plainText");
+END;
+
+CREATE TRIGGER "Document_search_delete" AFTER DELETE ON "Document" BEGIN
+    DELETE FROM "SearchIndex" WHERE "rowid" = OLD."id" * 4 + 2;
+END;
+
+-- Chat messages
+CREATE TRIGGER "ChatMessage_search_insert" AFTER INSERT ON "ChatMessage" BEGIN
+    INSERT INTO "SearchIndex" ("rowid", "kind", "sourceId", "title", "body")
+    VALUES (NEW."id" * 4 + 3, 'chat', NEW."id", '', NEW."body");
+END;
+
+CREATE TRIGGER "ChatMessage_search_update" AFTER UPDATE OF "body" ON "ChatMessage" BEGIN
+    DELETE FROM "SearchIndex" WHERE "rowid" = OLD."id" * 4 + 3;
+    INSERT INTO "SearchIndex" ("rowid", "kind", "sourceId", "title", "body")
+    VALUES (NEW."id" * 4 + 3, 'chat', NEW."id", '', NEW."body");
+END;
+
+CREATE TRIGGER "ChatMessage_search_delete" AFTER DELETE ON "ChatMessage" BEGIN
+    DELETE FROM "SearchIndex" WHERE "rowid" = OLD."id" * 4 + 3;
+END;
+
+-- Backfill. Existing documents are indexed by their spreadsheet cells or raw
+-- document markup until they are next saved and get a proper plainText; the
+-- update fires Document_search_update for every row.
+UPDATE "Document" SET "plainText" = CASE
+    WHEN NOT json_valid("content") THEN ''
+    WHEN "type" = 'spreadsheet' THEN COALESCE((SELECT group_concat("value", ' ') FROM json_each("Document"."content", '$.cells')), '')
+    ELSE COALESCE(json_extract("content", '$.content'), '')
+END;
+
+INSERT INTO "SearchIndex" ("rowid", "kind", "sourceId", "title", "body")
+SELECT "id" * 4, 'task', "id", "title", COALESCE("description", '') FROM "Task";
+
+INSERT INTO "SearchIndex" ("rowid", "kind", "sourceId", "title", "body")
+SELECT "id" * 4 + 1, 'comment', "id", '', "body" FROM "Comment";
+
+INSERT INTO "SearchIndex" ("rowid", "kind", "sourceId", "title", "body")
+SELECT "id" * 4 + 3, 'chat', "id", '', "body" FROM "ChatMessage";
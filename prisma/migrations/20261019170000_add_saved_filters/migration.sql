@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "SavedFilter" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "ownerId" INTEGER NOT NULL,
+    "projectId" INTEGER,
+    "name" TEXT NOT NULL,
+    "query" TEXT NOT NULL,
+    "pinned" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "SavedFilter_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "SavedFilter_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "SavedFilter_ownerId_idx" ON "SavedFilter"("ownerId");
+
+-- CreateIndex
+CREATE INDEX "SavedFilter_projectId_idx" ON "SavedFilter"("projectId");
@@ -0,0 +1,87 @@
+-- CreateTable
+CREATE TABLE "TaskAssignee" (
+    "taskId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY ("taskId", "userId"),
+    CONSTRAINT "TaskAssignee_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TaskAssignee_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "TaskWatcher" (
+    "taskId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY ("taskId", "userId"),
+    CONSTRAINT "TaskWatcher_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TaskWatcher_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "TaskAssignee_userId_idx" ON "TaskAssignee"("userId");
+
+-- CreateIndex
+CREATE INDEX "TaskWatcher_userId_idx" ON "TaskWatcher"("userId");
+
+-- Map the free-text assignee to a user: an email match wins over a name match,
+-- then the oldest account. Strings that match nobody ("Me", ex-colleagues) are dropped.
+INSERT INTO "TaskAssignee" ("taskId", "userId")
+SELECT t."id", MIN(u."id") FROM "Task" t
+JOIN "User" u ON lower(u."email") = lower(trim(t."assignedUser"))
+GROUP BY t."id";
+
+INSERT INTO "TaskAssignee" ("taskId", "userId")
+SELECT t."id", MIN(u."id") FROM "Task" t
+JOIN "User" u ON lower(u."name") = lower(trim(t."assignedUser"))
+WHERE NOT EXISTS (SELECT 1 FROM "TaskAssignee" a WHERE a."taskId" = t."id")
+GROUP BY t."id";
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Task" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "dueDate" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'todo',
+    "priority" TEXT NOT NULL DEFAULT 'medium',
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "projectId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "coverColor" TEXT,
+    "sprintId" INTEGER,
+    "parentTaskId" INTEGER,
+    "recurrence" TEXT,
+    "recurrenceSourceId" INTEGER,
+    CONSTRAINT "Task_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Task_sprintId_fkey" FOREIGN KEY ("sprintId") REFERENCES "Sprint" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Task_parentTaskId_fkey" FOREIGN KEY ("parentTaskId") REFERENCES "Task" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Task_recurrenceSourceId_fkey" FOREIGN KEY ("recurrenceSourceId") REFERENCES "Task" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Task" ("coverColor", "createdAt", "description", "dueDate", "id", "parentTaskId", "position", "priority", "projectId", "recurrence", "recurrenceSourceId", "sprintId", "status", "title", "updatedAt") SELECT "coverColor", "createdAt", "description", "dueDate", "id", "parentTaskId", "position", "priority", "projectId", "recurrence", "recurrenceSourceId", "sprintId", "status", "title", "updatedAt" FROM "Task";
+DROP TABLE "Task";
+ALTER TABLE "new_Task" RENAME TO "Task";
+CREATE UNIQUE INDEX "Task_recurrenceSourceId_key" ON "Task"("recurrenceSourceId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- Dropping the old table dropped its search triggers (see add_search_index)
+CREATE TRIGGER "Task_search_insert" AFTER INSERT ON "Task" BEGIN
+    INSERT INTO "SearchIndex" ("rowid", "kind", "sourceId", "title", "body")
+    VALUES (NEW."id" * 4, 'task', NEW."id", NEW."title", COALESCE(NEW."description", ''));
+END;
+
+CREATE TRIGGER "Task_search_update" AFTER UPDATE OF "title", "description" ON "Task" BEGIN
+    DELETE FROM "SearchIndex" WHERE "rowid" = OLD."id" * 4;
+    INSERT INTO "SearchIndex" ("rowid", "kind", "sourceId", "title", "body")
+    VALUES (NEW."id" * 4, 'task', NEW."id", NEW."title", COALESCE(NEW."description", ''));
+END;
+
+CREATE TRIGGER "Task_search_delete" AFTER DELETE ON "Task" BEGIN
+    DELETE FROM "SearchIndex" WHERE "rowid" = OLD."id" * 4;
+END;
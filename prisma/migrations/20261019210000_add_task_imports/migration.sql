@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "TaskImport" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "projectId" INTEGER NOT NULL,
+    "userId" INTEGER,
+    "source" TEXT NOT NULL,
+    "fileName" TEXT,
+    "taskIds" TEXT NOT NULL,
+    "labelIds" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "undoneAt" DATETIME,
+    CONSTRAINT "TaskImport_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "TaskImport_projectId_createdAt_idx" ON "TaskImport"("projectId", "createdAt");
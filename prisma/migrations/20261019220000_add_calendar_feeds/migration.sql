@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "CalendarFeed" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "userId" INTEGER NOT NULL,
+    "projectId" INTEGER,
+    "token" TEXT NOT NULL,
+    "lastAccessedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "CalendarFeed_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "CalendarFeed_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CalendarFeed_token_key" ON "CalendarFeed"("token");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CalendarFeed_userId_projectId_key" ON "CalendarFeed"("userId", "projectId");
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "Notification" ADD COLUMN "emailDelivery" TEXT;
+ALTER TABLE "Notification" ADD COLUMN "emailedAt" DATETIME;
+ALTER TABLE "Notification" ADD COLUMN "inApp" BOOLEAN NOT NULL DEFAULT true;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "digestSentAt" DATETIME;
+ALTER TABLE "User" ADD COLUMN "unsubscribeToken" TEXT;
+
+-- CreateTable
+CREATE TABLE "NotificationPreference" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "userId" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "inApp" BOOLEAN NOT NULL DEFAULT true,
+    "email" TEXT NOT NULL DEFAULT 'off',
+    CONSTRAINT "NotificationPreference_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NotificationPreference_userId_type_key" ON "NotificationPreference"("userId", "type");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_unsubscribeToken_key" ON "User"("unsubscribeToken");
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN "escalateOverdue" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Project" ADD COLUMN "reminderHours" TEXT NOT NULL DEFAULT '[24,1]';
+
+-- CreateTable
+CREATE TABLE "TaskReminder" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "taskId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "kind" TEXT NOT NULL,
+    "dueDate" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TaskReminder_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TaskReminder_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "TaskReminder_userId_idx" ON "TaskReminder"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaskReminder_taskId_userId_kind_dueDate_key" ON "TaskReminder"("taskId", "userId", "kind", "dueDate");
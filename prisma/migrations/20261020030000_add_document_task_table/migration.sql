@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN "taskTable" BOOLEAN NOT NULL DEFAULT false;
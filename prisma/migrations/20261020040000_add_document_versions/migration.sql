@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "DocumentVersion" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "documentId" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "kind" TEXT NOT NULL DEFAULT 'auto',
+    "name" TEXT,
+    "restoredFromId" INTEGER,
+    "createdBy" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "DocumentVersion_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "Document" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "DocumentVersion_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "DocumentVersion_restoredFromId_fkey" FOREIGN KEY ("restoredFromId") REFERENCES "DocumentVersion" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "DocumentVersion_documentId_createdAt_idx" ON "DocumentVersion"("documentId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "DocumentVersion_createdBy_idx" ON "DocumentVersion"("createdBy");
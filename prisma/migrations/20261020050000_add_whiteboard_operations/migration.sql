@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "WhiteboardOperation" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "whiteboardId" INTEGER NOT NULL,
+    "clock" INTEGER NOT NULL,
+    "diff" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "WhiteboardOperation_whiteboardId_fkey" FOREIGN KEY ("whiteboardId") REFERENCES "Whiteboard" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "WhiteboardSnapshot" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "whiteboardId" INTEGER NOT NULL,
+    "clock" INTEGER NOT NULL,
+    "records" TEXT NOT NULL,
+    "schema" TEXT,
+    "kind" TEXT NOT NULL DEFAULT 'auto',
+    "name" TEXT,
+    "restoredFromId" INTEGER,
+    "createdBy" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "WhiteboardSnapshot_whiteboardId_fkey" FOREIGN KEY ("whiteboardId") REFERENCES "Whiteboard" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "WhiteboardSnapshot_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "WhiteboardSnapshot_restoredFromId_fkey" FOREIGN KEY ("restoredFromId") REFERENCES "WhiteboardSnapshot" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WhiteboardOperation_whiteboardId_clock_key" ON "WhiteboardOperation"("whiteboardId", "clock");
+
+-- CreateIndex
+CREATE INDEX "WhiteboardSnapshot_whiteboardId_clock_idx" ON "WhiteboardSnapshot"("whiteboardId", "clock");
+
+-- CreateIndex
+CREATE INDEX "WhiteboardSnapshot_createdBy_idx" ON "WhiteboardSnapshot"("createdBy");
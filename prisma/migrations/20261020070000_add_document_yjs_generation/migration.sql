@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN "yjsGeneration" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "SavedFilterPin" (
+    "filterId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY ("filterId", "userId"),
+    CONSTRAINT "SavedFilterPin_filterId_fkey" FOREIGN KEY ("filterId") REFERENCES "SavedFilter" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "SavedFilterPin_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "SavedFilterPin_userId_idx" ON "SavedFilterPin"("userId");
+
+-- Existing pins were the owner's
+INSERT INTO "SavedFilterPin" ("filterId", "userId")
+SELECT "id", "ownerId" FROM "SavedFilter" WHERE "pinned" = true;
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_SavedFilter" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "ownerId" INTEGER NOT NULL,
+    "projectId" INTEGER,
+    "name" TEXT NOT NULL,
+    "query" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "SavedFilter_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "SavedFilter_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_SavedFilter" ("createdAt", "id", "name", "ownerId", "projectId", "query", "updatedAt") SELECT "createdAt", "id", "name", "ownerId", "projectId", "query", "updatedAt" FROM "SavedFilter";
+DROP TABLE "SavedFilter";
+ALTER TABLE "new_SavedFilter" RENAME TO "SavedFilter";
+CREATE INDEX "SavedFilter_ownerId_idx" ON "SavedFilter"("ownerId");
+CREATE INDEX "SavedFilter_projectId_idx" ON "SavedFilter"("projectId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { hashPassword } from '../server/services/password';
 
 const prisma = new PrismaClient();
 
@@ -6,26 +7,30 @@ async function main() {
   console.log('🌱 Seeding database...');
 
   // Create default user
+  const demoPassword = await hashPassword('password');
   const user = await prisma.user.upsert({
     where: { email: 'demo@example.com' },
     update: {},
     create: {
       email: 'demo@example.com',
       name: 'Demo User',
-      password: 'password', // In production, this should be hashed
+      password: demoPassword.hash,
+      passwordAlgorithm: demoPassword.algorithm,
     },
   });
 
   console.log(`✅ Created user: ${user.email} (ID: ${user.id})`);
 
   // Create second demo user
+  const johnPassword = await hashPassword('password');
   const user2 = await prisma.user.upsert({
     where: { email: 'john@example.com' },
     update: {},
     create: {
       email: 'john@example.com',
       name: 'John Doe',
-      password: 'password',
+      password: johnPassword.hash,
+      passwordAlgorithm: johnPassword.algorithm,
     },
   });
 
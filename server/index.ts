@@ -3,10 +3,13 @@ import express from "express";
 import cors from "cors";
 import { createServer as createHttpServer } from 'http';
 import { authenticate } from "./middleware/authenticate";
-import { getTasks, getMyTasks, getProjectBoard, reorderTasks, getTask, createTask, updateTask, deleteTask } from "./routes/tasks";
+import { authorize, authorizeResource } from "./middleware/authorize";
+import { getTasks, getMyTasks, getProjectBoard, reorderTasks, bulkUpdateTasks, getTask, getSubtasks, createTask, updateTask, deleteTask, watchTask, unwatchTask } from "./routes/tasks";
+import { getChecklist, addChecklistItem, updateChecklistItem, deleteChecklistItem, reorderChecklist } from "./routes/checklist";
 import { getActivityLogs } from "./routes/activityLogs";
 import { getCalendarTasks, getFilteredCalendarTasks } from "./routes/calendar";
-import { getNotifications, getUnreadCount, markAllRead, markNotificationRead } from "./routes/notifications";
+import { getCalendarFeed, getCalendarFeeds, createCalendarFeed, resetCalendarFeed, deleteCalendarFeed } from "./routes/calendarFeeds";
+import { getNotifications, getUnreadCount, markAllRead, markNotificationRead, getPreferences, updatePreferences, confirmUnsubscribe, unsubscribe } from "./routes/notifications";
 import { createTaskComment, deleteTaskComment, getTaskComments, updateTaskComment } from "./routes/comments";
 import { 
   getProjects, 
@@ -24,17 +27,64 @@ import {
 } from "./routes/projects";
 import { getDashboardAnalytics } from "./routes/dashboard";
 import { getRetrospectiveData } from "./routes/retrospective";
-import { register, login, forgotPassword, resetPassword, getCurrentUser, logout, getAllUsers } from "./routes/auth";
-import { getWhiteboard, saveWhiteboard } from "./routes/whiteboard";
-import { getDocuments, getDocument, createDocument, updateDocument, deleteDocument } from "./routes/documents";
+import { register, login, refresh, forgotPassword, resetPassword, getCurrentUser, logout, getAllUsers } from "./routes/auth";
+import { createApiTokenHandler, getApiTokens, revokeApiToken } from "./routes/apiTokens";
+import {
+  createWhiteboardSnapshot,
+  getWhiteboard,
+  getWhiteboardSnapshot,
+  getWhiteboardSnapshots,
+  restoreWhiteboardSnapshot,
+} from "./routes/whiteboard";
+import {
+  getDocuments,
+  getDocument,
+  createDocument,
+  updateDocument,
+  deleteDocument,
+  exportDocument,
+  importSpreadsheet,
+} from "./routes/documents";
+import {
+  getDocumentVersions,
+  getDocumentVersion,
+  createDocumentVersion,
+  restoreDocumentVersion,
+} from "./routes/documentVersions";
 import { setupSocketServer } from "./socket";
+import { startRecurrenceScheduler } from "./services/recurrence";
+import { startWebhookWorker } from "./services/webhooks";
+import { startNotificationScheduler } from "./services/notifications";
+import { startReminderScheduler } from "./services/reminders";
 import { getProjectTemplates } from "./routes/projectTemplates";
 import { addTaskDependency, getTaskDependencies, removeTaskDependency } from "./routes/taskDependencies";
 import { getProjectLeaderboard } from "./routes/leaderboard";
+import {
+  createFocusSession,
+  finishFocusSession,
+  getMyGamification,
+  getUserGamification,
+  logActivity,
+} from "./routes/gamification";
+import { getWorkflow, updateWorkflow } from "./routes/workflow";
+import { getReminderSettings, updateReminderSettings } from "./routes/reminders";
+import {
+  createWebhook,
+  deleteWebhook,
+  getWebhookDeliveries,
+  getWebhooks,
+  redeliverWebhookDelivery,
+  updateWebhook,
+} from "./routes/webhooks";
+import { createTaskImport, deleteTaskImport, getTaskImports } from "./routes/taskImports";
+import { exportProject, importProject } from "./routes/projectArchive";
+import { getProjectSprints, createSprint, updateSprint, deleteSprint, startSprint, closeSprint } from "./routes/sprints";
 import { getProjectLabels, createLabel, updateLabel, deleteLabel, addLabelToTask, removeLabelFromTask, getTaskLabels } from "./routes/labels";
 import { getTaskAttachments, uploadAttachment, downloadAttachment, deleteAttachment } from "./routes/attachments";
 import { getTaskReactions, toggleReaction, updateTaskCover } from "./routes/reactions";
 import { getChatMessages, postChatMessage } from "./routes/chat";
+import { search } from "./routes/search";
+import { getSavedFilters, createSavedFilter, updateSavedFilter, deleteSavedFilter } from "./routes/savedFilters";
 import {
   listIntegrations,
   disconnectIntegration,
@@ -75,9 +125,9 @@ export function createServer() {
   // Auth routes (public - must be before authentication middleware)
   app.post("/api/auth/register", register);
   app.post("/api/auth/login", login);
+  app.post("/api/auth/refresh", refresh);
   app.post("/api/auth/forgot-password", forgotPassword);
   app.post("/api/auth/reset-password", resetPassword);
-  app.get("/api/auth/users", getAllUsers);
 
   // OAuth callbacks (public — providers redirect here without auth headers)
   app.get("/api/integrations/google/callback", googleCallback);
@@ -85,6 +135,13 @@ export function createServer() {
   app.get("/api/integrations/figma/callback", figmaCallback);
   app.get("/api/integrations/slack/callback", slackCallback);
   app.get("/api/integrations/notion/callback", notionCallback);
+
+  // iCalendar subscriptions (public — calendar apps authenticate with the token in the URL)
+  app.get("/api/calendar/feed/:file", getCalendarFeed);
+
+  // Email unsubscribe links (public — the token identifies the user)
+  app.get("/api/notifications/unsubscribe/:token", confirmUnsubscribe);
+  app.post("/api/notifications/unsubscribe/:token", unsubscribe);
   
   // Apply authentication middleware to all routes below this point
   app.use(authenticate);
@@ -92,42 +149,103 @@ export function createServer() {
   // Protected auth routes
   app.get("/api/auth/me", getCurrentUser);
   app.post("/api/auth/logout", logout);
+  app.get("/api/auth/users", getAllUsers);
+
+  // Personal access tokens; a token can't be used to manage tokens (see services/apiTokens)
+  app.get("/api/auth/tokens", getApiTokens);
+  app.post("/api/auth/tokens", createApiTokenHandler);
+  app.delete("/api/auth/tokens/:tokenId", revokeApiToken);
+
+  // Full-text search, filtered to the user's projects by the query itself
+  app.get("/api/search", search);
+
+  // Saved task filters; sharing and ownership are checked in the handlers
+  app.get("/api/filters", getSavedFilters);
+  app.post("/api/filters", createSavedFilter);
+  app.patch("/api/filters/:filterId", updateSavedFilter);
+  app.delete("/api/filters/:filterId", deleteSavedFilter);
 
   // Task routes
   app.get("/api/tasks", getTasks);
   app.get("/api/tasks/my", getMyTasks);
-  app.get("/api/tasks/:id", getTask);
-  app.post("/api/tasks", createTask);
+  app.get("/api/tasks/:id", authorizeResource("task", "id", "task:view"), getTask);
+  app.post("/api/tasks", authorizeResource("project", "projectId", "task:create", "body"), createTask);
   app.patch("/api/tasks/reorder", reorderTasks);
-  app.put("/api/tasks/:id", updateTask);
-  app.delete("/api/tasks/:id", deleteTask);
+  app.post("/api/tasks/bulk", bulkUpdateTasks);
+  app.put("/api/tasks/:id", authorizeResource("task", "id", "task:edit"), updateTask);
+  app.delete("/api/tasks/:id", authorizeResource("task", "id", "task:delete"), deleteTask);
+  app.post("/api/tasks/:taskId/watch", authorizeResource("task", "taskId", "task:view"), watchTask);
+  app.delete("/api/tasks/:taskId/watch", authorizeResource("task", "taskId", "task:view"), unwatchTask);
 
   // Project board routes
-  app.get("/api/projects/:projectId/board", getProjectBoard);
+  app.get("/api/projects/:projectId/board", authorize("project:view"), getProjectBoard);
+  app.get("/api/projects/:projectId/workflow", authorize("project:view"), getWorkflow);
+  app.put("/api/projects/:projectId/workflow", authorize("workflow:manage"), updateWorkflow);
+  app.get("/api/projects/:projectId/reminders", authorize("project:view"), getReminderSettings);
+  app.put("/api/projects/:projectId/reminders", authorize("reminders:manage"), updateReminderSettings);
+
+  // Task imports from CSV/JSON files; deleting an import undoes it
+  app.get("/api/projects/:projectId/imports", authorize("project:view"), getTaskImports);
+  app.post("/api/projects/:projectId/imports", authorize("task:create"), createTaskImport);
+  app.delete("/api/projects/:projectId/imports/:importId", authorize("task:delete"), deleteTaskImport);
+
+  // Outbound webhooks; each handler checks the webhook belongs to the project in the URL
+  app.get("/api/projects/:projectId/webhooks", authorize("webhook:manage"), getWebhooks);
+  app.post("/api/projects/:projectId/webhooks", authorize("webhook:manage"), createWebhook);
+  app.patch("/api/projects/:projectId/webhooks/:webhookId", authorize("webhook:manage"), updateWebhook);
+  app.delete("/api/projects/:projectId/webhooks/:webhookId", authorize("webhook:manage"), deleteWebhook);
+  app.get("/api/projects/:projectId/webhooks/:webhookId/deliveries", authorize("webhook:manage"), getWebhookDeliveries);
+  app.post(
+    "/api/projects/:projectId/webhooks/:webhookId/deliveries/:deliveryId/redeliver",
+    authorize("webhook:manage"),
+    redeliverWebhookDelivery
+  );
+
+  // Sprint routes
+  app.get("/api/projects/:projectId/sprints", authorize("project:view"), getProjectSprints);
+  app.post("/api/projects/:projectId/sprints", authorize("sprint:manage"), createSprint);
+  app.put("/api/sprints/:id", authorizeResource("sprint", "id", "sprint:manage"), updateSprint);
+  app.delete("/api/sprints/:id", authorizeResource("sprint", "id", "sprint:manage"), deleteSprint);
+  app.post("/api/sprints/:id/start", authorizeResource("sprint", "id", "sprint:manage"), startSprint);
+  app.post("/api/sprints/:id/close", authorizeResource("sprint", "id", "sprint:manage"), closeSprint);
 
   // Activity log routes
-  app.get("/api/tasks/:taskId/activity-logs", getActivityLogs);
+  app.get("/api/tasks/:taskId/activity-logs", authorizeResource("task", "taskId", "task:view"), getActivityLogs);
 
   // Comments routes
-  app.get("/api/tasks/:taskId/comments", getTaskComments);
-  app.post("/api/tasks/:taskId/comments", createTaskComment);
-  app.patch("/api/tasks/:taskId/comments/:commentId", updateTaskComment);
-  app.delete("/api/tasks/:taskId/comments/:commentId", deleteTaskComment);
+  app.get("/api/tasks/:taskId/comments", authorizeResource("task", "taskId", "task:view"), getTaskComments);
+  app.post("/api/tasks/:taskId/comments", authorizeResource("task", "taskId", "comment:create"), createTaskComment);
+  app.patch("/api/tasks/:taskId/comments/:commentId", authorizeResource("comment", "commentId", "comment:create"), updateTaskComment);
+  app.delete("/api/tasks/:taskId/comments/:commentId", authorizeResource("comment", "commentId", "task:view"), deleteTaskComment);
+
+  // Subtask and checklist routes
+  app.get("/api/tasks/:taskId/subtasks", authorizeResource("task", "taskId", "task:view"), getSubtasks);
+  app.get("/api/tasks/:taskId/checklist", authorizeResource("task", "taskId", "task:view"), getChecklist);
+  app.post("/api/tasks/:taskId/checklist", authorizeResource("task", "taskId", "task:edit"), addChecklistItem);
+  app.put("/api/tasks/:taskId/checklist/order", authorizeResource("task", "taskId", "task:edit"), reorderChecklist);
+  app.patch("/api/tasks/:taskId/checklist/:itemId", authorizeResource("task", "taskId", "task:edit"), updateChecklistItem);
+  app.delete("/api/tasks/:taskId/checklist/:itemId", authorizeResource("task", "taskId", "task:edit"), deleteChecklistItem);
 
   // Task dependency routes
-  app.get("/api/tasks/:taskId/dependencies", getTaskDependencies);
-  app.post("/api/tasks/:taskId/dependencies", addTaskDependency);
-  app.delete("/api/tasks/:taskId/dependencies/:dependsOnTaskId", removeTaskDependency);
+  app.get("/api/tasks/:taskId/dependencies", authorizeResource("task", "taskId", "task:view"), getTaskDependencies);
+  app.post("/api/tasks/:taskId/dependencies", authorizeResource("task", "taskId", "task:edit"), addTaskDependency);
+  app.delete("/api/tasks/:taskId/dependencies/:dependsOnTaskId", authorizeResource("task", "taskId", "task:edit"), removeTaskDependency);
 
   // Notification routes
   app.get("/api/notifications", getNotifications);
   app.get("/api/notifications/unread-count", getUnreadCount);
   app.post("/api/notifications/:id/read", markNotificationRead);
   app.post("/api/notifications/read-all", markAllRead);
+  app.get("/api/notifications/preferences", getPreferences);
+  app.put("/api/notifications/preferences", updatePreferences);
 
   // Calendar routes
   app.get("/api/calendar/tasks", getCalendarTasks);
   app.get("/api/calendar/tasks/filter", getFilteredCalendarTasks);
+  app.get("/api/calendar/feeds", getCalendarFeeds);
+  app.post("/api/calendar/feeds", createCalendarFeed);
+  app.post("/api/calendar/feeds/:feedId/reset", resetCalendarFeed);
+  app.delete("/api/calendar/feeds/:feedId", deleteCalendarFeed);
 
   // Dashboard routes
   app.get("/api/dashboard/analytics", getDashboardAnalytics);
@@ -137,53 +255,73 @@ export function createServer() {
 
   // Project routes
   app.get("/api/projects", getProjects);
-  app.get("/api/projects/:id", getProject);
+  app.get("/api/projects/:id", authorize("project:view"), getProject);
   app.post("/api/projects", createProject);
-  app.put("/api/projects/:id", updateProject);
-  app.delete("/api/projects/:id", deleteProject);
-  app.get("/api/projects/:projectId/leaderboard", getProjectLeaderboard);
+  app.post(
+    "/api/projects/import",
+    express.raw({ type: ["application/zip", "application/octet-stream"], limit: "200mb" }),
+    importProject
+  );
+  app.get("/api/projects/:id/export", authorize("project:export"), exportProject);
+  app.put("/api/projects/:id", authorize("project:edit"), updateProject);
+  app.delete("/api/projects/:id", authorize("project:delete"), deleteProject);
+  app.get("/api/projects/:projectId/leaderboard", authorize("project:view"), getProjectLeaderboard);
+
+  // XP, levels and achievements
+  app.get("/api/gamification/me", getMyGamification);
+  app.get("/api/gamification/users/:userId", getUserGamification);
+  app.post("/api/gamification/activity", logActivity);
+  app.post("/api/gamification/focus-sessions", createFocusSession);
+  app.post("/api/gamification/focus-sessions/:id/complete", finishFocusSession);
 
   // Project template routes
   app.get("/api/project-templates", getProjectTemplates);
 
   // Project member routes
-  app.get("/api/projects/:id/members", getProjectMembers);
-  app.patch("/api/projects/:id/members/:memberId", updateMemberRole);
-  app.delete("/api/projects/:id/members/:memberId", removeMember);
+  app.get("/api/projects/:id/members", authorize("project:view"), getProjectMembers);
+  app.patch("/api/projects/:id/members/:memberId", authorize("project:manageMembers"), updateMemberRole);
+  app.delete("/api/projects/:id/members/:memberId", authorize("project:removeMember"), removeMember);
 
   // Project invitation routes
-  app.post("/api/projects/:id/invite", inviteMember);
-  app.get("/api/projects/:id/invitations", getProjectInvitations);
+  app.post("/api/projects/:id/invite", authorize("project:invite"), inviteMember);
+  app.get("/api/projects/:id/invitations", authorize("project:invite"), getProjectInvitations);
   app.post("/api/projects/join/:token", joinProject);
-  app.delete("/api/projects/:id/invitations/:invitationId", cancelInvitation);
+  app.delete("/api/projects/:id/invitations/:invitationId", authorize("project:invite"), cancelInvitation);
 
   // Label routes
-  app.get("/api/projects/:projectId/labels", getProjectLabels);
-  app.post("/api/projects/:projectId/labels", createLabel);
-  app.put("/api/projects/:projectId/labels/:labelId", updateLabel);
-  app.delete("/api/projects/:projectId/labels/:labelId", deleteLabel);
-  app.get("/api/tasks/:taskId/labels", getTaskLabels);
-  app.post("/api/tasks/:taskId/labels", addLabelToTask);
-  app.delete("/api/tasks/:taskId/labels/:labelId", removeLabelFromTask);
+  app.get("/api/projects/:projectId/labels", authorize("project:view"), getProjectLabels);
+  app.post("/api/projects/:projectId/labels", authorize("label:manage"), createLabel);
+  app.put("/api/projects/:projectId/labels/:labelId", authorizeResource("label", "labelId", "label:manage"), updateLabel);
+  app.delete("/api/projects/:projectId/labels/:labelId", authorizeResource("label", "labelId", "label:manage"), deleteLabel);
+  app.get("/api/tasks/:taskId/labels", authorizeResource("task", "taskId", "task:view"), getTaskLabels);
+  app.post("/api/tasks/:taskId/labels", authorizeResource("task", "taskId", "task:edit"), addLabelToTask);
+  app.delete("/api/tasks/:taskId/labels/:labelId", authorizeResource("task", "taskId", "task:edit"), removeLabelFromTask);
 
   // Attachment routes
-  app.get("/api/tasks/:taskId/attachments", getTaskAttachments);
-  app.post("/api/tasks/:taskId/attachments", uploadAttachment);
-  app.get("/api/attachments/:attachmentId/download", downloadAttachment);
-  app.delete("/api/attachments/:attachmentId", deleteAttachment);
+  app.get("/api/tasks/:taskId/attachments", authorizeResource("task", "taskId", "task:view"), getTaskAttachments);
+  app.post("/api/tasks/:taskId/attachments", authorizeResource("task", "taskId", "task:edit"), uploadAttachment);
+  app.get("/api/attachments/:attachmentId/download", authorizeResource("attachment", "attachmentId", "task:view"), downloadAttachment);
+  app.delete("/api/attachments/:attachmentId", authorizeResource("attachment", "attachmentId", "task:edit"), deleteAttachment);
 
   // Reaction routes
-  app.get("/api/tasks/:taskId/reactions", getTaskReactions);
-  app.post("/api/tasks/:taskId/reactions", toggleReaction);
-  app.patch("/api/tasks/:taskId/cover", updateTaskCover);
+  app.get("/api/tasks/:taskId/reactions", authorizeResource("task", "taskId", "task:view"), getTaskReactions);
+  app.post("/api/tasks/:taskId/reactions", authorizeResource("task", "taskId", "comment:create"), toggleReaction);
+  app.patch("/api/tasks/:taskId/cover", authorizeResource("task", "taskId", "task:edit"), updateTaskCover);
 
   // Whiteboard routes
-  app.get("/api/whiteboard/:projectId", getWhiteboard);
-  app.post("/api/whiteboard/:projectId", saveWhiteboard);
+  app.get("/api/whiteboard/:projectId", authorize("project:view"), getWhiteboard);
+  app.get("/api/whiteboard/:projectId/snapshots", authorize("project:view"), getWhiteboardSnapshots);
+  app.get("/api/whiteboard/:projectId/snapshots/:snapshotId", authorize("project:view"), getWhiteboardSnapshot);
+  app.post("/api/whiteboard/:projectId/snapshots", authorize("whiteboard:edit"), createWhiteboardSnapshot);
+  app.post(
+    "/api/whiteboard/:projectId/snapshots/:snapshotId/restore",
+    authorize("whiteboard:edit"),
+    restoreWhiteboardSnapshot
+  );
 
   // Chat routes
-  app.get("/api/projects/:projectId/chat", getChatMessages);
-  app.post("/api/projects/:projectId/chat", postChatMessage);
+  app.get("/api/projects/:projectId/chat", authorize("project:view"), getChatMessages);
+  app.post("/api/projects/:projectId/chat", authorize("chat:post"), postChatMessage);
 
   // Integration routes (protected)
   app.get("/api/integrations", listIntegrations);
@@ -203,11 +341,45 @@ export function createServer() {
   app.get("/api/integrations/notion/pages", notionPages);
 
   // Document routes
-  app.get("/api/documents/:projectId", getDocuments);
-  app.get("/api/documents/file/:documentId", getDocument);
-  app.post("/api/documents", createDocument);
-  app.put("/api/documents/:documentId", updateDocument);
-  app.delete("/api/documents/:documentId", deleteDocument);
+  app.get("/api/documents/:projectId", authorize("document:view"), getDocuments);
+  app.get("/api/documents/file/:documentId", authorizeResource("document", "documentId", "document:view"), getDocument);
+  app.get(
+    "/api/documents/file/:documentId/export",
+    authorizeResource("document", "documentId", "document:view"),
+    exportDocument
+  );
+  app.get(
+    "/api/documents/file/:documentId/versions",
+    authorizeResource("document", "documentId", "document:view"),
+    getDocumentVersions
+  );
+  app.get(
+    "/api/documents/file/:documentId/versions/:versionId",
+    authorizeResource("document", "documentId", "document:view"),
+    getDocumentVersion
+  );
+  app.post(
+    "/api/documents/file/:documentId/versions",
+    authorizeResource("document", "documentId", "document:edit"),
+    createDocumentVersion
+  );
+  app.post(
+    "/api/documents/file/:documentId/versions/:versionId/restore",
+    authorizeResource("document", "documentId", "document:edit"),
+    restoreDocumentVersion
+  );
+  app.post("/api/documents", authorizeResource("project", "projectId", "document:edit", "body"), createDocument);
+  app.post(
+    "/api/documents/:projectId/import",
+    authorize("document:edit"),
+    express.raw({
+      type: ["text/csv", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", "application/octet-stream"],
+      limit: "20mb",
+    }),
+    importSpreadsheet
+  );
+  app.put("/api/documents/:documentId", authorizeResource("document", "documentId", "document:edit"), updateDocument);
+  app.delete("/api/documents/:documentId", authorizeResource("document", "documentId", "document:edit"), deleteDocument);
 
   return app;
 }
@@ -217,6 +389,10 @@ export function createServerWithSocket() {
   const app = createServer();
   const httpServer = createHttpServer(app);
   const io = setupSocketServer(httpServer);
+  startRecurrenceScheduler();
+  startWebhookWorker();
+  startNotificationScheduler();
+  startReminderScheduler();
   
   return { app, httpServer, io };
 }
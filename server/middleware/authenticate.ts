@@ -1,45 +1,57 @@
-import { Request, Response, NextFunction } from 'express';
-import { prisma } from '../prisma';
+import { Response, NextFunction } from 'express';
 import { AuthRequest } from './authorize';
+import { resolveAccessToken } from '../services/session';
+import { hasScope, isApiToken, requiredTokenScope, resolveApiToken } from '../services/apiTokens';
 
-// Simple session-based authentication
-// In production, use proper JWT tokens or session management
+/**
+ * Extract a bearer token from the Authorization header
+ */
+export const getBearerToken = (header: string | undefined): string | null => {
+  if (!header) return null;
+  const [scheme, token] = header.split(' ');
+  if (scheme?.toLowerCase() !== 'bearer' || !token) return null;
+  return token.trim();
+};
+
+// Token-based authentication: every request below this middleware must carry
+// a valid access token issued by POST /api/auth/login (or /refresh), or a
+// personal access token whose scopes cover the endpoint.
 export const authenticate = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    // For development, use a simple header-based auth
-    // In production, implement proper JWT or session management
-    const userId = req.headers['x-user-id'] as string;
-    
-    if (!userId) {
-      // If no user ID in header, default to user 1 for backward compatibility
-      // This allows the app to work without authentication during development
-      const defaultUser = await prisma.user.findFirst();
-      if (defaultUser) {
-        req.user = {
-          id: defaultUser.id,
-          email: defaultUser.email,
-          name: defaultUser.name,
-        };
+    const token = getBearerToken(req.headers.authorization);
+
+    if (!token) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (isApiToken(token)) {
+      const resolved = await resolveApiToken(token);
+      if (!resolved) {
+        return res.status(401).json({ error: 'Invalid, expired or revoked token', code: 'TOKEN_INVALID' });
       }
+
+      const required = requiredTokenScope(req.method, req.path);
+      if (required === null) {
+        return res.status(403).json({ error: 'Personal access tokens cannot be used for this endpoint', code: 'TOKEN_SCOPE' });
+      }
+      if (required !== 'any' && !hasScope(resolved.scopes, required)) {
+        return res.status(403).json({ error: `This token is missing the ${required} scope`, code: 'TOKEN_SCOPE' });
+      }
+
+      req.user = resolved.user;
+      req.apiTokenId = resolved.tokenId;
       return next();
     }
 
-    // Fetch user from database
-    const user = await prisma.user.findUnique({
-      where: { id: parseInt(userId) },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-      },
-    });
-
-    if (!user) {
-      return res.status(401).json({ error: 'User not found' });
+    const resolved = await resolveAccessToken(token);
+
+    if (!resolved) {
+      return res.status(401).json({ error: 'Invalid or expired token', code: 'TOKEN_INVALID' });
     }
 
     // Attach user to request
-    req.user = user;
+    req.user = resolved.user;
+    req.sessionId = resolved.sessionId;
     next();
   } catch (error) {
     console.error('Authentication error:', error);
@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+
+// A tiny in-memory fixture: project 10 is owned by Alice (1), Vic (3) is a Viewer,
+// and Mallory (2) has no relationship with it at all.
+const db = vi.hoisted(() => {
+  const users = {
+    1: { id: 1, email: "alice@example.com", name: "Alice" },
+    2: { id: 2, email: "mallory@example.com", name: "Mallory" },
+    3: { id: 3, email: "vic@example.com", name: "Vic" },
+  } as Record<number, { id: number; email: string; name: string }>;
+
+  return {
+    users,
+    tokens: { alice: 1, mallory: 2, vic: 3 } as Record<string, number>,
+    projects: { 10: { id: 10, ownerId: 1 } } as Record<number, { id: number; ownerId: number }>,
+    members: [{ projectId: 10, userId: 3, role: "Viewer" }],
+    tasks: { 100: { id: 100, title: "Ship it", projectId: 10 } } as Record<number, any>,
+    documents: { 200: { id: 200, projectId: 10, name: "Spec", type: "document", content: "{}" } } as Record<number, any>,
+    attachments: {
+      300: { id: 300, taskId: 100, filename: "a.txt", mimetype: "text/plain", size: 2, data: Buffer.from("hi"), task: { projectId: 10 } },
+    } as Record<number, any>,
+    labels: { 400: { id: 400, projectId: 10, name: "bug", color: "#f00" } } as Record<number, any>,
+    // Personal access tokens, keyed by their (unhashed, see the session mock) value
+    apiTokens: {
+      proup_pat_alice: { id: 1, scopes: '["tasks:read"]', expiresAt: null, revokedAt: null, lastUsedAt: new Date() },
+    } as Record<string, any>,
+    // One search hit of each kind in project 10
+    searchRows: ["task", "comment", "document", "chat"].map((kind, i) => ({
+      kind,
+      sourceId: 500 + i,
+      title: "Plan",
+      snippet: "Plan",
+      projectId: 10,
+      projectName: "Launch",
+      taskId: kind === "comment" ? 100 : null,
+      taskTitle: kind === "comment" ? "Ship it" : null,
+      documentType: kind === "document" ? "document" : null,
+    })),
+  };
+});
+
+vi.mock("../prisma", () => {
+  const byId = (table: Record<number, any>) => vi.fn(async ({ where }: any) => table[where.id] ?? null);
+  return {
+    prisma: {
+      project: { findUnique: byId(db.projects) },
+      projectMember: {
+        findUnique: vi.fn(async ({ where }: any) => {
+          const { projectId, userId } = where.projectId_userId;
+          return db.members.find((m) => m.projectId === projectId && m.userId === userId) ?? null;
+        }),
+      },
+      task: { findUnique: byId(db.tasks) },
+      document: {
+        findUnique: byId(db.documents),
+        update: vi.fn(async ({ where, data }: any) => ({ ...db.documents[where.id], ...data })),
+      },
+      taskAttachment: { findUnique: byId(db.attachments) },
+      comment: { findUnique: vi.fn(async () => null) },
+      label: { findUnique: byId(db.labels) },
+      apiToken: {
+        findUnique: vi.fn(async ({ where }: any) => {
+          const token = db.apiTokens[where.tokenHash];
+          return token ? { ...token, user: db.users[1] } : null;
+        }),
+      },
+      // Only the search query is raw; its values include the JSON list of kinds to search
+      $queryRaw: vi.fn(async (_sql: TemplateStringsArray, ...values: unknown[]) => {
+        const kinds = JSON.parse(values.find((v) => typeof v === "string" && v.startsWith("[")) as string);
+        return db.searchRows.filter((row) => kinds.includes(row.kind));
+      }),
+    },
+  };
+});
+
+vi.mock("../services/session", () => ({
+  resolveAccessToken: vi.fn(async (token: string) => {
+    const userId = db.tokens[token];
+    return userId ? { sessionId: userId, user: db.users[userId] } : null;
+  }),
+  hashToken: (token: string) => token,
+  createSession: vi.fn(),
+  refreshSession: vi.fn(),
+  revokeSession: vi.fn(),
+  revokeAllSessions: vi.fn(),
+}));
+
+import { createServer } from "../index";
+import { checkProjectPermission } from "./authorize";
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer().listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+const request = (method: string, path: string, token?: string, body?: unknown) =>
+  fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+describe("project-scoped routes", () => {
+  it("rejects requests without a token", async () => {
+    const res = await request("GET", "/api/documents/file/200");
+    expect(res.status).toBe(401);
+  });
+
+  it.each([
+    ["GET", "/api/documents/10"],
+    ["GET", "/api/documents/file/200"],
+    ["PUT", "/api/documents/200", { content: "{}" }],
+    ["POST", "/api/documents", { projectId: 10, name: "Notes", type: "document" }],
+    ["POST", "/api/whiteboard/10/snapshots", { name: "Before the redesign" }],
+    ["GET", "/api/projects/10/chat"],
+    ["GET", "/api/tasks/100"],
+    ["POST", "/api/tasks", { projectId: 10, title: "Sneaky" }],
+    ["GET", "/api/tasks/100/comments"],
+    ["POST", "/api/tasks/100/attachments", { filename: "x.txt", data: "aGk=" }],
+    ["GET", "/api/attachments/300/download"],
+    ["GET", "/api/projects/10/labels"],
+    ["PUT", "/api/projects/10/labels/400", { name: "mine" }],
+    ["POST", "/api/tasks/100/labels", { labelId: 400 }],
+  ])("refuses a non-member: %s %s", async (method, path, body?) => {
+    const res = await request(method, path, "mallory", body);
+    expect(res.status).toBe(403);
+    expect((await res.json()).error).toBe("You do not have access to this project");
+  });
+
+  it("returns 404 for resources that do not exist", async () => {
+    const res = await request("GET", "/api/documents/file/999", "alice");
+    expect(res.status).toBe(404);
+    expect((await res.json()).error).toBe("Document not found");
+  });
+
+  it("lets the owner read documents and attachments", async () => {
+    const doc = await request("GET", "/api/documents/file/200", "alice");
+    expect(doc.status).toBe(200);
+    expect((await doc.json()).name).toBe("Spec");
+
+    const file = await request("GET", "/api/attachments/300/download", "alice");
+    expect(file.status).toBe(200);
+    expect(await file.text()).toBe("hi");
+  });
+
+  it("keeps viewers read-only", async () => {
+    const read = await request("GET", "/api/documents/file/200", "vic");
+    expect(read.status).toBe(200);
+
+    const write = await request("PUT", "/api/documents/200", "vic", { content: "{}" });
+    expect(write.status).toBe(403);
+    expect(await write.json()).toMatchObject({ error: "Insufficient permissions", yourRole: "Viewer" });
+  });
+});
+
+describe("personal access tokens", () => {
+  it("only find tasks and comments through search", async () => {
+    const viaSession = await request("GET", "/api/search?q=plan", "alice");
+    expect((await viaSession.json()).results.map((hit: any) => hit.type)).toEqual([
+      "task",
+      "comment",
+      "document",
+      "chat",
+    ]);
+
+    const viaToken = await request("GET", "/api/search?q=plan", "proup_pat_alice");
+    expect(viaToken.status).toBe(200);
+    expect((await viaToken.json()).results.map((hit: any) => hit.type)).toEqual(["task", "comment"]);
+
+    const documents = await request("GET", "/api/search?q=plan&types=document,chat", "proup_pat_alice");
+    expect((await documents.json()).results).toEqual([]);
+  });
+});
+
+describe("checkProjectPermission", () => {
+  it("grants owners every permission", async () => {
+    expect(await checkProjectPermission(1, 10, "project:delete")).toEqual({ allowed: true, role: "Owner" });
+  });
+
+  it("applies the role matrix to members", async () => {
+    expect(await checkProjectPermission(3, 10, "task:view")).toEqual({ allowed: true, role: "Viewer" });
+    expect(await checkProjectPermission(3, 10, "task:edit")).toMatchObject({ allowed: false, status: 403 });
+  });
+
+  it("throws on unknown permissions", async () => {
+    await expect(checkProjectPermission(1, 10, "task:teleport")).rejects.toThrow("Invalid permission");
+  });
+});
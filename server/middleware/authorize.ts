@@ -8,6 +8,12 @@ export interface AuthRequest extends Request {
     email: string;
     name: string;
   };
+  sessionId?: number;
+  // Set instead of sessionId when the request used a personal access token
+  apiTokenId?: number;
+  // Set by authorizeResource once the owning project has been checked
+  projectId?: number;
+  projectRole?: string;
 }
 
 // Role hierarchy: Admin > Member > Viewer
@@ -18,90 +24,180 @@ const roleHierarchy: { [key: string]: number } = {
 };
 
 // Permission mapping for different actions
+// Viewer is read-only, Member can write, Admin can manage the project itself.
 const permissions: { [key: string]: string[] } = {
   // Project permissions
   'project:delete': ['Admin'],
   'project:edit': ['Admin', 'Member'],
   'project:view': ['Admin', 'Member', 'Viewer'],
   'project:invite': ['Admin'],
+  'project:manageMembers': ['Admin'],
   'project:removeMember': ['Admin'],
+  'workflow:manage': ['Admin'],
+  'webhook:manage': ['Admin'],
+  'reminders:manage': ['Admin'],
+  'project:export': ['Admin'],
   
   // Task permissions
   'task:create': ['Admin', 'Member'],
   'task:edit': ['Admin', 'Member'],
   'task:delete': ['Admin', 'Member'],
   'task:view': ['Admin', 'Member', 'Viewer'],
+
+  // Collaboration permissions
+  'comment:create': ['Admin', 'Member'],
+  'label:manage': ['Admin', 'Member'],
+  'sprint:manage': ['Admin', 'Member'],
+  'document:view': ['Admin', 'Member', 'Viewer'],
+  'document:edit': ['Admin', 'Member'],
+  'whiteboard:edit': ['Admin', 'Member'],
+  'chat:post': ['Admin', 'Member'],
+};
+
+// Resources that belong to a project, and how to find that project from their id
+export type ProjectResource = 'project' | 'task' | 'document' | 'attachment' | 'comment' | 'label' | 'sprint';
+
+const resourceNames: Record<ProjectResource, string> = {
+  project: 'Project',
+  task: 'Task',
+  document: 'Document',
+  attachment: 'Attachment',
+  comment: 'Comment',
+  label: 'Label',
+  sprint: 'Sprint',
+};
+
+// Returns the owning project id, or null when the resource (or its project) doesn't exist
+const projectResolvers: Record<ProjectResource, (id: number) => Promise<number | null>> = {
+  project: async (id) => {
+    const project = await prisma.project.findUnique({ where: { id }, select: { id: true } });
+    return project?.id ?? null;
+  },
+  task: async (id) => {
+    const task = await prisma.task.findUnique({ where: { id }, select: { projectId: true } });
+    return task?.projectId ?? null;
+  },
+  document: async (id) => {
+    const document = await prisma.document.findUnique({ where: { id }, select: { projectId: true } });
+    return document?.projectId ?? null;
+  },
+  attachment: async (id) => {
+    const attachment = await prisma.taskAttachment.findUnique({
+      where: { id },
+      select: { task: { select: { projectId: true } } },
+    });
+    return attachment?.task.projectId ?? null;
+  },
+  comment: async (id) => {
+    const comment = await prisma.comment.findUnique({
+      where: { id },
+      select: { task: { select: { projectId: true } } },
+    });
+    return comment?.task.projectId ?? null;
+  },
+  label: async (id) => {
+    const label = await prisma.label.findUnique({ where: { id }, select: { projectId: true } });
+    return label?.projectId ?? null;
+  },
+  sprint: async (id) => {
+    const sprint = await prisma.sprint.findUnique({ where: { id }, select: { projectId: true } });
+    return sprint?.projectId ?? null;
+  },
 };
 
+export type PermissionCheck =
+  | { allowed: true; role: string }
+  | { allowed: false; status: number; body: Record<string, unknown> };
+
 /**
- * Middleware to check if user has permission for a specific action on a project
- * Usage: authorize('project:delete')
+ * Check whether a user holds a permission on a project.
+ * Owners have every permission; members are checked against the role matrix.
  */
-export const authorize = (requiredPermission: string) => {
+export const checkProjectPermission = async (
+  userId: number,
+  projectId: number,
+  requiredPermission: string
+): Promise<PermissionCheck> => {
+  const allowedRoles = permissions[requiredPermission];
+  if (!allowedRoles) {
+    throw new Error(`Invalid permission specified: ${requiredPermission}`);
+  }
+
+  const role = await getUserRole(userId, projectId);
+
+  if (role === 'Owner') {
+    return { allowed: true, role };
+  }
+
+  if (!role) {
+    return {
+      allowed: false,
+      status: 403,
+      body: {
+        error: 'You do not have access to this project',
+        message: 'You must be a project member to perform this action',
+      },
+    };
+  }
+
+  if (!allowedRoles.includes(role)) {
+    return {
+      allowed: false,
+      status: 403,
+      body: {
+        error: 'Insufficient permissions',
+        message: `This action requires one of the following roles: ${allowedRoles.join(', ')}`,
+        yourRole: role,
+      },
+    };
+  }
+
+  return { allowed: true, role };
+};
+
+const readId = (value: unknown): number | null => {
+  const raw = Array.isArray(value) ? value[0] : value;
+  const id = parseInt(String(raw ?? ''));
+  return Number.isNaN(id) ? null : id;
+};
+
+/**
+ * Middleware to check a permission on the project that owns a resource.
+ * The resource id is read from a route param (or the JSON body) and resolved
+ * to its project; unknown resources get a 404 before any role check.
+ * Usage: authorizeResource('task', 'taskId', 'task:edit')
+ */
+export const authorizeResource = (
+  resource: ProjectResource,
+  param: string,
+  requiredPermission: string,
+  source: 'params' | 'body' = 'params'
+) => {
   return async (req: AuthRequest, res: Response, next: NextFunction) => {
     try {
-      // Get user from request (assumes authentication middleware has already run)
       const userId = req.user?.id;
       if (!userId) {
         return res.status(401).json({ error: 'Authentication required' });
       }
 
-      // Get project ID from params
-      const idRaw = (req.params as any).id ?? (req.params as any).projectId ?? '0';
-      const idValue = Array.isArray(idRaw) ? idRaw[0] : idRaw;
-      const projectId = parseInt(String(idValue));
-      if (!projectId) {
-        return res.status(400).json({ error: 'Project ID is required' });
+      const container = source === 'body' ? req.body : req.params;
+      const resourceId = readId((container as any)?.[param]);
+      if (!resourceId) {
+        return res.status(400).json({ error: `${resourceNames[resource]} ID is required` });
       }
 
-      // Check if user is the project owner
-      const project = await prisma.project.findUnique({
-        where: { id: projectId },
-        select: { ownerId: true },
-      });
-
-      if (!project) {
-        return res.status(404).json({ error: 'Project not found' });
-      }
-
-      // Owner has all permissions
-      if (project.ownerId === userId) {
-        return next();
-      }
-
-      // Check if user is a member and get their role
-      const membership = await prisma.projectMember.findUnique({
-        where: {
-          projectId_userId: {
-            projectId,
-            userId,
-          },
-        },
-        select: { role: true },
-      });
-
-      if (!membership) {
-        return res.status(403).json({ 
-          error: 'You do not have access to this project',
-          message: 'You must be a project member to perform this action'
-        });
-      }
-
-      // Check if the user's role has the required permission
-      const allowedRoles = permissions[requiredPermission];
-      if (!allowedRoles) {
-        return res.status(500).json({ error: 'Invalid permission specified' });
+      const projectId = await projectResolvers[resource](resourceId);
+      if (!projectId) {
+        return res.status(404).json({ error: `${resourceNames[resource]} not found` });
       }
 
-      if (!allowedRoles.includes(membership.role)) {
-        return res.status(403).json({
-          error: 'Insufficient permissions',
-          message: `This action requires one of the following roles: ${allowedRoles.join(', ')}`,
-          yourRole: membership.role,
-        });
+      const check = await checkProjectPermission(userId, projectId, requiredPermission);
+      if (check.allowed === false) {
+        return res.status(check.status).json(check.body);
       }
 
-      // Permission granted
+      req.projectId = projectId;
+      req.projectRole = check.role;
       next();
     } catch (error) {
       console.error('Authorization error:', error);
@@ -110,6 +206,17 @@ export const authorize = (requiredPermission: string) => {
   };
 };
 
+/**
+ * Middleware to check if user has permission for a specific action on a project
+ * Usage: authorize('project:delete')
+ */
+export const authorize = (requiredPermission: string) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    const param = (req.params as any).id !== undefined ? 'id' : 'projectId';
+    return authorizeResource('project', param, requiredPermission)(req, res, next);
+  };
+};
+
 /**
  * Middleware to check if user has at least a minimum role level
  * Usage: requireRole('Member')
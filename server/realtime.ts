@@ -7,3 +7,24 @@ export const setIO = (instance: Server) => {
 };
 
 export const getIO = () => io;
+
+// Every namespace set up in socket.ts
+const NAMESPACES = ["/", "/whiteboard", "/documents"];
+
+export interface SocketAuth {
+  user?: { id: number };
+  sessionId?: number;
+}
+
+/**
+ * Disconnect the sockets whose handshake matches, e.g. those of a revoked session or of someone
+ * whose access to a project changed. Clients reconnect with what they're allowed now, if anything.
+ */
+export const disconnectSockets = async (matches: (auth: SocketAuth) => boolean) => {
+  if (!io) return;
+  for (const name of NAMESPACES) {
+    for (const socket of await io.of(name).fetchSockets()) {
+      if (matches(socket.data)) socket.disconnect(true);
+    }
+  }
+};
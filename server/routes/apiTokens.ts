@@ -0,0 +1,68 @@
+import { RequestHandler } from 'express';
+import { prisma } from '../prisma';
+import { AuthRequest } from '../middleware/authorize';
+import { createApiToken, parseApiTokenInput, parseApiTokenScopes } from '../services/apiTokens';
+
+// Never send the hash back; the token itself is only returned when it's created
+const tokenSelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  createdAt: true,
+} as const;
+
+const serialize = <T extends { scopes: string }>(token: T) => ({ ...token, scopes: parseApiTokenScopes(token.scopes) });
+
+// GET /api/auth/tokens - The user's personal access tokens that haven't been revoked
+export const getApiTokens: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const tokens = await prisma.apiToken.findMany({
+      where: { userId: req.user!.id, revokedAt: null },
+      select: tokenSelect,
+      orderBy: { createdAt: 'desc' },
+    });
+    res.json(tokens.map(serialize));
+  } catch (error) {
+    console.error('Error fetching API tokens:', error);
+    res.status(500).json({ error: 'Failed to fetch tokens' });
+  }
+};
+
+// POST /api/auth/tokens - Create a token. Body: { name, scopes, expiresInDays? }
+// The response's `token` is the only time the plain token is available.
+export const createApiTokenHandler: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const parsed = parseApiTokenInput(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const { token, record } = await createApiToken(req.user!.id, parsed.input);
+    const { id, name, prefix, scopes, expiresAt, lastUsedAt, createdAt } = record;
+    res.status(201).json({ ...serialize({ id, name, prefix, scopes, expiresAt, lastUsedAt, createdAt }), token });
+  } catch (error) {
+    console.error('Error creating API token:', error);
+    res.status(500).json({ error: 'Failed to create token' });
+  }
+};
+
+// DELETE /api/auth/tokens/:tokenId - Revoke one of the user's tokens
+export const revokeApiToken: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const tokenId = parseInt(String(req.params.tokenId));
+    const { count } = await prisma.apiToken.updateMany({
+      where: { id: tokenId, userId: req.user!.id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (count === 0) {
+      return res.status(404).json({ error: 'Token not found' });
+    }
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error revoking API token:', error);
+    res.status(500).json({ error: 'Failed to revoke token' });
+  }
+};
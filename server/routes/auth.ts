@@ -3,6 +3,8 @@ import crypto from 'crypto';
 import nodemailer from 'nodemailer';
 import { prisma } from '../prisma';
 import { AuthRequest } from '../middleware/authorize';
+import { hashPassword, verifyPassword, needsRehash } from '../services/password';
+import { createSession, refreshSession, revokeSession, revokeAllSessions } from '../services/session';
 
 /**
  * POST /api/auth/register
@@ -21,13 +23,18 @@ export const register: RequestHandler = async (req, res) => {
       return res.status(400).json({ error: 'User already exists' });
     }
 
-    // In production, hash the password before storing
-    // For now, storing plain text for development
+    if (!password || typeof password !== 'string') {
+      return res.status(400).json({ error: 'Password is required' });
+    }
+
+    const { hash, algorithm } = await hashPassword(password);
+
     const user = await prisma.user.create({
       data: {
         email,
         name,
-        password, // TODO: Hash password in production
+        password: hash,
+        passwordAlgorithm: algorithm,
       },
       select: {
         id: true,
@@ -36,7 +43,9 @@ export const register: RequestHandler = async (req, res) => {
       },
     });
 
-    res.status(201).json({ user });
+    const tokens = await createSession(user.id, req.headers['user-agent']);
+
+    res.status(201).json({ user, ...tokens });
   } catch (error) {
     console.error('Registration error:', error);
     res.status(500).json({ error: 'Failed to register user' });
@@ -119,7 +128,7 @@ export const resetPassword: RequestHandler = async (req, res) => {
   try {
     const { token, password } = req.body;
 
-    if (!token || !password) {
+    if (!token || typeof token !== 'string' || !password || typeof password !== 'string') {
       return res.status(400).json({ error: 'Token and password are required' });
     }
 
@@ -139,15 +148,21 @@ export const resetPassword: RequestHandler = async (req, res) => {
       return res.status(400).json({ error: 'Invalid or expired token' });
     }
 
+    const { hash, algorithm } = await hashPassword(password);
+
     await prisma.user.update({
       where: { id: user.id },
       data: {
-        password,
+        password: hash,
+        passwordAlgorithm: algorithm,
         passwordResetToken: null,
         passwordResetExpiresAt: null,
       },
     });
 
+    // Sign out every device that knew the old password
+    await revokeAllSessions(user.id);
+
     res.json({ message: 'Password reset successful' });
   } catch (error) {
     console.error('Reset password error:', error);
@@ -157,7 +172,7 @@ export const resetPassword: RequestHandler = async (req, res) => {
 
 /**
  * POST /api/auth/login
- * Authenticate user and return user info
+ * Authenticate user and return user info with a new session's tokens
  */
 export const login: RequestHandler = async (req, res) => {
   try {
@@ -171,19 +186,33 @@ export const login: RequestHandler = async (req, res) => {
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
-    // In production, compare hashed passwords
-    // For now, simple comparison for development
-    if (user.password !== password) {
+    if (!password || typeof password !== 'string') {
+      return res.status(401).json({ error: 'Invalid credentials' });
+    }
+
+    const valid = await verifyPassword(password, user.password, user.passwordAlgorithm);
+    if (!valid) {
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
-    // Return user info (in production, also return JWT token)
+    // Upgrade legacy plaintext rows (and hashes made with an older cost) now that we know the password
+    if (needsRehash(user.password, user.passwordAlgorithm)) {
+      const { hash, algorithm } = await hashPassword(password);
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { password: hash, passwordAlgorithm: algorithm },
+      });
+    }
+
+    const tokens = await createSession(user.id, req.headers['user-agent']);
+
     res.json({
       user: {
         id: user.id,
         email: user.email,
         name: user.name,
       },
+      ...tokens,
     });
   } catch (error) {
     console.error('Login error:', error);
@@ -191,6 +220,31 @@ export const login: RequestHandler = async (req, res) => {
   }
 };
 
+/**
+ * POST /api/auth/refresh
+ * Exchange a refresh token for a fresh access/refresh token pair
+ */
+export const refresh: RequestHandler = async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return res.status(400).json({ error: 'Refresh token is required' });
+    }
+
+    const tokens = await refreshSession(refreshToken);
+
+    if (!tokens) {
+      return res.status(401).json({ error: 'Invalid or expired refresh token' });
+    }
+
+    res.json(tokens);
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    res.status(500).json({ error: 'Failed to refresh session' });
+  }
+};
+
 /**
  * GET /api/auth/me
  * Get current authenticated user
@@ -225,12 +279,19 @@ export const getCurrentUser: RequestHandler = async (req: AuthRequest, res) => {
 
 /**
  * POST /api/auth/logout
- * Logout current user
+ * Logout current user by revoking the session behind their access token
  */
-export const logout: RequestHandler = async (_req, res) => {
-  // In a real implementation, this would invalidate the session/token
-  // For now, just return success
-  res.json({ message: 'Logged out successfully' });
+export const logout: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    if (req.sessionId) {
+      await revokeSession(req.sessionId);
+    }
+
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Failed to logout' });
+  }
 };
 
 /**
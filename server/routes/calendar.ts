@@ -1,6 +1,67 @@
 import { RequestHandler } from 'express';
 import { prisma } from '../prisma';
 import { AuthRequest } from '../middleware/authorize';
+import { DEFAULT_WORKFLOW, WorkflowStatusDef, findStatus, getInitialStatus, getProjectWorkflows } from '../services/workflow';
+import { getOccurrencesBetween, parseRecurrence, today } from '../services/recurrence';
+
+// How far ahead future occurrences of recurring tasks are shown
+const PROJECTION_DAYS = 180;
+
+const assigneesInclude = {
+  select: { user: { select: { id: true, name: true } } },
+  orderBy: { createdAt: 'asc' as const },
+};
+
+type CalendarEvent = {
+  id: string;
+  start: string | null;
+  backgroundColor: string;
+  extendedProps: Record<string, unknown>;
+  [key: string]: unknown;
+};
+
+/**
+ * Add the future occurrences of recurring tasks whose next occurrence hasn't been
+ * created yet. Projected events are read-only previews of the series.
+ */
+const withProjectedOccurrences = (
+  events: CalendarEvent[],
+  tasks: Array<{ id: number; dueDate: string | null; recurrence: string | null; recurrenceNext: { id: number } | null; projectId: number | null }>,
+  workflows: Map<number, WorkflowStatusDef[]>
+) => {
+  const horizon = new Date();
+  horizon.setDate(horizon.getDate() + PROJECTION_DAYS);
+  const to = horizon.toISOString().slice(0, 10);
+  const from = today();
+
+  const projected: CalendarEvent[] = [];
+  for (const task of tasks) {
+    const rule = parseRecurrence(task.recurrence);
+    if (!rule || !task.dueDate || task.recurrenceNext) continue;
+
+    const event = events.find((e) => e.id === task.id.toString())!;
+    const workflow = task.projectId ? workflows.get(task.projectId)! : DEFAULT_WORKFLOW;
+    const status = findStatus(workflow, getInitialStatus(workflow))!;
+
+    // Missed occurrences are skipped, matching how the next one is spawned
+    for (const date of getOccurrencesBetween(rule, task.dueDate, to).filter((d) => d >= from)) {
+      projected.push({
+        ...event,
+        id: `${task.id}:${date}`,
+        start: date,
+        extendedProps: {
+          ...event.extendedProps,
+          status: status.key,
+          statusName: status.name,
+          statusColor: status.color,
+          isDone: false,
+          isProjected: true,
+        },
+      });
+    }
+  }
+  return [...events, ...projected];
+};
 
 /**
  * GET /api/calendar/tasks
@@ -30,15 +91,23 @@ export const getCalendarTasks: RequestHandler = async (req: AuthRequest, res) =>
       },
       include: {
         project: true, // Include project data for filtering and display
+        recurrenceNext: { select: { id: true } },
+        assignees: assigneesInclude,
       },
       orderBy: {
         dueDate: 'asc',
       },
     });
 
+    const workflows = await getProjectWorkflows(
+      tasks.map((t) => t.projectId).filter((id): id is number => id !== null)
+    );
+
     // Format tasks for FullCalendar
     // FullCalendar expects: { id, title, start, backgroundColor, extendedProps }
-    const calendarEvents = tasks.map((task) => {
+    const calendarEvents: CalendarEvent[] = tasks.map((task) => {
+      const status = findStatus(task.projectId ? workflows.get(task.projectId)! : DEFAULT_WORKFLOW, task.status);
+
       // Use project color if available, otherwise use priority-based color
       let backgroundColor = task.project?.color || '#3b82f6'; // Default blue
       
@@ -57,8 +126,8 @@ export const getCalendarTasks: RequestHandler = async (req: AuthRequest, res) =>
         }
       }
 
-      // Override color based on status
-      if (task.status === 'done') {
+      // Override color based on status (any status the project counts as done)
+      if (status?.isDone) {
         backgroundColor = '#6b7280'; // Gray for completed tasks
       }
 
@@ -70,18 +139,22 @@ export const getCalendarTasks: RequestHandler = async (req: AuthRequest, res) =>
         borderColor: backgroundColor,
         extendedProps: {
           description: task.description,
-          assignedUser: task.assignedUser,
+          assignees: task.assignees.map((a) => a.user),
           status: task.status,
+          statusName: status?.name ?? task.status,
+          statusColor: status?.color ?? null,
+          isDone: status?.isDone ?? false,
           priority: task.priority,
           taskId: task.id,
           projectId: task.projectId,
           projectName: task.project?.name || null,
           projectColor: task.project?.color || null,
+          isRecurring: task.recurrence !== null,
         },
       };
     });
 
-    res.json(calendarEvents);
+    res.json(withProjectedOccurrences(calendarEvents, tasks, workflows));
   } catch (error) {
     console.error('Error fetching calendar tasks:', error);
     res.status(500).json({ error: 'Failed to fetch calendar tasks' });
@@ -90,7 +163,8 @@ export const getCalendarTasks: RequestHandler = async (req: AuthRequest, res) =>
 
 /**
  * GET /api/calendar/tasks/filter
- * Fetches tasks filtered by assignee for calendar display
+ * Fetches tasks filtered by assignee for calendar display.
+ * `assignee` is a user id, `me` or `none`.
  */
 export const getFilteredCalendarTasks: RequestHandler = async (req: AuthRequest, res) => {
   try {
@@ -115,8 +189,14 @@ export const getFilteredCalendarTasks: RequestHandler = async (req: AuthRequest,
       },
     };
 
-    if (assignee && assignee !== 'all') {
-      whereConditions.assignedUser = assignee as string;
+    if (assignee === 'none') {
+      whereConditions.assignees = { none: {} };
+    } else if (assignee && assignee !== 'all') {
+      const assigneeId = assignee === 'me' ? userId : parseInt(String(assignee));
+      if (Number.isNaN(assigneeId)) {
+        return res.status(400).json({ error: 'Invalid assignee' });
+      }
+      whereConditions.assignees = { some: { userId: assigneeId } };
     }
 
     if (status && status !== 'all') {
@@ -129,13 +209,23 @@ export const getFilteredCalendarTasks: RequestHandler = async (req: AuthRequest,
 
     const tasks = await prisma.task.findMany({
       where: whereConditions,
+      include: {
+        recurrenceNext: { select: { id: true } },
+        assignees: assigneesInclude,
+      },
       orderBy: {
         dueDate: 'asc',
       },
     });
 
+    const workflows = await getProjectWorkflows(
+      tasks.map((t) => t.projectId).filter((id): id is number => id !== null)
+    );
+
     // Format for FullCalendar (same as above)
-    const calendarEvents = tasks.map((task) => {
+    const calendarEvents: CalendarEvent[] = tasks.map((task) => {
+      const status = findStatus(task.projectId ? workflows.get(task.projectId)! : DEFAULT_WORKFLOW, task.status);
+
       let backgroundColor = '#3b82f6';
       switch (task.priority) {
         case 'high':
@@ -149,7 +239,7 @@ export const getFilteredCalendarTasks: RequestHandler = async (req: AuthRequest,
           break;
       }
 
-      if (task.status === 'done') {
+      if (status?.isDone) {
         backgroundColor = '#6b7280';
       }
 
@@ -161,15 +251,19 @@ export const getFilteredCalendarTasks: RequestHandler = async (req: AuthRequest,
         borderColor: backgroundColor,
         extendedProps: {
           description: task.description,
-          assignedUser: task.assignedUser,
+          assignees: task.assignees.map((a) => a.user),
           status: task.status,
+          statusName: status?.name ?? task.status,
+          statusColor: status?.color ?? null,
+          isDone: status?.isDone ?? false,
           priority: task.priority,
           taskId: task.id,
+          isRecurring: task.recurrence !== null,
         },
       };
     });
 
-    res.json(calendarEvents);
+    res.json(withProjectedOccurrences(calendarEvents, tasks, workflows));
   } catch (error) {
     console.error('Error fetching filtered calendar tasks:', error);
     res.status(500).json({ error: 'Failed to fetch filtered calendar tasks' });
@@ -0,0 +1,187 @@
+import { RequestHandler } from 'express';
+import { prisma } from '../prisma';
+import { AuthRequest, checkProjectPermission } from '../middleware/authorize';
+import { DEFAULT_WORKFLOW, findStatus, getProjectWorkflows } from '../services/workflow';
+import { CALENDAR_FEED_PREFIX, FeedTask, buildCalendar, feedUrl, generateFeedToken, taskUrl } from '../services/icalFeed';
+
+const feedSelect = {
+  id: true,
+  projectId: true,
+  token: true,
+  lastAccessedAt: true,
+  createdAt: true,
+  project: { select: { id: true, name: true } },
+} as const;
+
+const serialize = <T extends { token: string }>(feed: T) => ({ ...feed, url: feedUrl(feed.token) });
+
+const accessibleProject = (userId: number) => ({
+  is: {
+    OR: [{ ownerId: userId }, { members: { some: { userId } } }],
+  },
+});
+
+/**
+ * GET /api/calendar/feed/:token.ics
+ * Public: calendar apps subscribe without auth headers, so the token is the credential.
+ * Project access is checked on every fetch so removed members stop receiving the feed.
+ */
+export const getCalendarFeed: RequestHandler = async (req, res) => {
+  try {
+    const token = String(req.params.file).replace(/\.ics$/i, '');
+    if (!token.startsWith(CALENDAR_FEED_PREFIX)) {
+      return res.status(404).json({ error: 'Feed not found' });
+    }
+
+    const feed = await prisma.calendarFeed.findUnique({
+      where: { token },
+      include: { user: { select: { id: true, name: true } }, project: { select: { id: true, name: true } } },
+    });
+    if (!feed) {
+      return res.status(404).json({ error: 'Feed not found' });
+    }
+
+    const userId = feed.userId;
+    if (feed.projectId) {
+      const check = await checkProjectPermission(userId, feed.projectId, 'project:view');
+      if (check.allowed === false) {
+        return res.status(404).json({ error: 'Feed not found' });
+      }
+    }
+
+    const tasks = await prisma.task.findMany({
+      where: {
+        dueDate: { not: null },
+        ...(feed.projectId
+          ? { projectId: feed.projectId }
+          : { project: accessibleProject(userId), assignees: { some: { userId } } }),
+      },
+      include: {
+        project: { select: { name: true } },
+        labels: { include: { label: { select: { name: true } } } },
+        assignees: { select: { user: { select: { name: true } } }, orderBy: { createdAt: 'asc' } },
+      },
+      orderBy: { dueDate: 'asc' },
+    });
+
+    const workflows = await getProjectWorkflows(
+      tasks.map((t) => t.projectId).filter((id): id is number => id !== null)
+    );
+
+    const events: FeedTask[] = tasks.map((task) => {
+      const status = findStatus(task.projectId ? workflows.get(task.projectId)! : DEFAULT_WORKFLOW, task.status);
+      return {
+        id: task.id,
+        title: task.title,
+        description: task.description,
+        dueDate: task.dueDate!,
+        statusName: status?.name ?? task.status,
+        isDone: status?.isDone ?? false,
+        priority: task.priority,
+        projectName: task.project?.name ?? null,
+        labels: task.labels.map((tl) => tl.label.name),
+        assignees: task.assignees.map((a) => a.user.name),
+        url: taskUrl(task),
+        updatedAt: task.updatedAt,
+      };
+    });
+
+    // Best effort; a failed timestamp update shouldn't fail the feed
+    prisma.calendarFeed
+      .update({ where: { id: feed.id }, data: { lastAccessedAt: new Date() } })
+      .catch((error) => console.error('Error updating calendar feed access time:', error));
+
+    const name = feed.project ? `ProUp – ${feed.project.name}` : `ProUp – ${feed.user.name}'s tasks`;
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `inline; filename="${feed.projectId ? `project-${feed.projectId}` : 'my-tasks'}.ics"`);
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.send(buildCalendar(name, events));
+  } catch (error) {
+    console.error('Error serving calendar feed:', error);
+    res.status(500).json({ error: 'Failed to build calendar feed' });
+  }
+};
+
+// GET /api/calendar/feeds - The user's feed subscriptions
+export const getCalendarFeeds: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const feeds = await prisma.calendarFeed.findMany({
+      where: { userId: req.user!.id },
+      select: feedSelect,
+      orderBy: { createdAt: 'asc' },
+    });
+    res.json(feeds.map(serialize));
+  } catch (error) {
+    console.error('Error fetching calendar feeds:', error);
+    res.status(500).json({ error: 'Failed to fetch calendar feeds' });
+  }
+};
+
+// POST /api/calendar/feeds - Get or create a feed. Body: { projectId? } (omit for "my tasks")
+export const createCalendarFeed: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const userId = req.user!.id;
+    const rawProjectId = req.body?.projectId;
+    let projectId: number | null = null;
+
+    if (rawProjectId !== undefined && rawProjectId !== null) {
+      projectId = parseInt(String(rawProjectId));
+      if (Number.isNaN(projectId)) {
+        return res.status(400).json({ error: 'Invalid project ID' });
+      }
+      const check = await checkProjectPermission(userId, projectId, 'project:view');
+      if (check.allowed === false) {
+        return res.status(check.status).json(check.body);
+      }
+    }
+
+    const existing = await prisma.calendarFeed.findFirst({ where: { userId, projectId }, select: feedSelect });
+    if (existing) {
+      return res.json(serialize(existing));
+    }
+
+    const feed = await prisma.calendarFeed.create({
+      data: { userId, projectId, token: generateFeedToken() },
+      select: feedSelect,
+    });
+    res.status(201).json(serialize(feed));
+  } catch (error) {
+    console.error('Error creating calendar feed:', error);
+    res.status(500).json({ error: 'Failed to create calendar feed' });
+  }
+};
+
+// POST /api/calendar/feeds/:feedId/reset - Rotate the token; subscriptions to the old URL stop working
+export const resetCalendarFeed: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const feedId = parseInt(String(req.params.feedId));
+    const { count } = await prisma.calendarFeed.updateMany({
+      where: { id: feedId, userId: req.user!.id },
+      data: { token: generateFeedToken(), lastAccessedAt: null },
+    });
+    if (count === 0) {
+      return res.status(404).json({ error: 'Feed not found' });
+    }
+
+    const feed = await prisma.calendarFeed.findUnique({ where: { id: feedId }, select: feedSelect });
+    res.json(serialize(feed!));
+  } catch (error) {
+    console.error('Error resetting calendar feed:', error);
+    res.status(500).json({ error: 'Failed to reset calendar feed' });
+  }
+};
+
+// DELETE /api/calendar/feeds/:feedId - Stop publishing a feed
+export const deleteCalendarFeed: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const feedId = parseInt(String(req.params.feedId));
+    const { count } = await prisma.calendarFeed.deleteMany({ where: { id: feedId, userId: req.user!.id } });
+    if (count === 0) {
+      return res.status(404).json({ error: 'Feed not found' });
+    }
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting calendar feed:', error);
+    res.status(500).json({ error: 'Failed to delete calendar feed' });
+  }
+};
@@ -0,0 +1,157 @@
+import { RequestHandler } from 'express';
+import { prisma } from '../prisma';
+import { AuthRequest } from '../middleware/authorize';
+import { getIO } from '../realtime';
+import { logChecklistCompletion } from '../services/activityLog';
+import { withTaskProgress } from '../services/taskProgress';
+
+const getChecklistItems = (taskId: number) =>
+  prisma.checklistItem.findMany({
+    where: { taskId },
+    orderBy: [{ position: 'asc' }, { id: 'asc' }],
+  });
+
+// Push the new checklist to open drawers and the new progress to the board
+const broadcastChecklist = async (taskId: number) => {
+  const io = getIO();
+  if (!io) return;
+
+  const [items, task] = await Promise.all([
+    getChecklistItems(taskId),
+    prisma.task.findUnique({ where: { id: taskId } }),
+  ]);
+  io.to(`task:${taskId}`).emit('checklist:updated', { taskId, items });
+  if (task?.projectId) {
+    const [withProgress] = await withTaskProgress([task]);
+    io.to(`project:${task.projectId}`).emit('task:updated', { task: withProgress });
+  }
+};
+
+const parseText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// GET /api/tasks/:taskId/checklist - List a task's checklist items in order
+export const getChecklist: RequestHandler = async (req, res) => {
+  try {
+    const taskId = parseInt(String(req.params.taskId));
+    res.json(await getChecklistItems(taskId));
+  } catch (error) {
+    console.error('Error fetching checklist:', error);
+    res.status(500).json({ error: 'Failed to fetch checklist' });
+  }
+};
+
+// POST /api/tasks/:taskId/checklist - Append an item. Body: { text }
+export const addChecklistItem: RequestHandler = async (req, res) => {
+  try {
+    const taskId = parseInt(String(req.params.taskId));
+    const text = parseText(req.body?.text);
+    if (!text) {
+      return res.status(400).json({ error: 'Checklist item text is required' });
+    }
+
+    const last = await prisma.checklistItem.findFirst({
+      where: { taskId },
+      orderBy: { position: 'desc' },
+      select: { position: true },
+    });
+
+    const item = await prisma.checklistItem.create({
+      data: { taskId, text, position: (last?.position ?? -1) + 1 },
+    });
+
+    await broadcastChecklist(taskId);
+    res.status(201).json(item);
+  } catch (error) {
+    console.error('Error adding checklist item:', error);
+    res.status(500).json({ error: 'Failed to add checklist item' });
+  }
+};
+
+// PATCH /api/tasks/:taskId/checklist/:itemId - Rename and/or tick an item. Body: { text?, done? }
+export const updateChecklistItem: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const taskId = parseInt(String(req.params.taskId));
+    const itemId = parseInt(String(req.params.itemId));
+    const userId = req.user?.id?.toString() || 'system';
+
+    const existing = await prisma.checklistItem.findFirst({ where: { id: itemId, taskId } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Checklist item not found' });
+    }
+
+    const { text, done } = req.body ?? {};
+    const data: { text?: string; done?: boolean; completedAt?: Date | null } = {};
+    if (text !== undefined) {
+      data.text = parseText(text);
+      if (!data.text) {
+        return res.status(400).json({ error: 'Checklist item text is required' });
+      }
+    }
+    if (done !== undefined) {
+      if (typeof done !== 'boolean') {
+        return res.status(400).json({ error: 'done must be a boolean' });
+      }
+      data.done = done;
+      data.completedAt = done ? existing.completedAt ?? new Date() : null;
+    }
+
+    const item = await prisma.checklistItem.update({ where: { id: itemId }, data });
+
+    if (data.done !== undefined && data.done !== existing.done) {
+      await logChecklistCompletion(taskId, item.text, item.done, userId);
+    }
+
+    await broadcastChecklist(taskId);
+    res.json(item);
+  } catch (error) {
+    console.error('Error updating checklist item:', error);
+    res.status(500).json({ error: 'Failed to update checklist item' });
+  }
+};
+
+// DELETE /api/tasks/:taskId/checklist/:itemId - Remove an item
+export const deleteChecklistItem: RequestHandler = async (req, res) => {
+  try {
+    const taskId = parseInt(String(req.params.taskId));
+    const itemId = parseInt(String(req.params.itemId));
+
+    const { count } = await prisma.checklistItem.deleteMany({ where: { id: itemId, taskId } });
+    if (count === 0) {
+      return res.status(404).json({ error: 'Checklist item not found' });
+    }
+
+    await broadcastChecklist(taskId);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting checklist item:', error);
+    res.status(500).json({ error: 'Failed to delete checklist item' });
+  }
+};
+
+// PUT /api/tasks/:taskId/checklist/order - Reorder items. Body: { itemIds: number[] } (every item, new order)
+export const reorderChecklist: RequestHandler = async (req, res) => {
+  try {
+    const taskId = parseInt(String(req.params.taskId));
+    const itemIds = req.body?.itemIds;
+    if (!Array.isArray(itemIds)) {
+      return res.status(400).json({ error: 'itemIds is required' });
+    }
+
+    const ids = itemIds.map((id) => parseInt(String(id)));
+    const current = await prisma.checklistItem.findMany({ where: { taskId }, select: { id: true } });
+    const known = new Set(current.map((i) => i.id));
+    if (ids.length !== known.size || new Set(ids).size !== ids.length || ids.some((id) => !known.has(id))) {
+      return res.status(400).json({ error: "itemIds must list every item of this task's checklist once" });
+    }
+
+    await prisma.$transaction(
+      ids.map((id, position) => prisma.checklistItem.update({ where: { id }, data: { position } }))
+    );
+
+    await broadcastChecklist(taskId);
+    res.json(await getChecklistItems(taskId));
+  } catch (error) {
+    console.error('Error reordering checklist:', error);
+    res.status(500).json({ error: 'Failed to reorder checklist' });
+  }
+};
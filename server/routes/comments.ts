@@ -2,6 +2,9 @@ import { RequestHandler } from "express";
 import { prisma } from "../prisma";
 import { AuthRequest } from "../middleware/authorize";
 import { getIO } from "../realtime";
+import { queueWebhookEvent } from "../services/webhooks";
+import { notify, taskLink } from "../services/notifications";
+import { recordCommentCreated, revokeCommentXp } from "../services/gamification";
 
 const normalize = (value: unknown) => String(value ?? "").trim().toLowerCase();
 
@@ -20,9 +23,6 @@ const extractMentions = (text: string) => {
   return Array.from(new Set(results));
 };
 
-const getTaskLink = (task: { id: number; projectId: number | null }) =>
-  task.projectId ? `/project/${task.projectId}?task=${task.id}` : `/my-tasks?task=${task.id}`;
-
 const resolveUsersFromMentions = async (mentions: string[]) => {
   if (mentions.length === 0) return [];
 
@@ -68,31 +68,6 @@ const resolveUsersFromMentions = async (mentions: string[]) => {
   });
 };
 
-const createNotificationSafe = async (input: {
-  userId: number;
-  type: string;
-  title: string;
-  body?: string | null;
-  link?: string | null;
-}) => {
-  try {
-    const created = await prisma.notification.create({
-      data: {
-        userId: input.userId,
-        type: input.type,
-        title: input.title,
-        body: input.body ?? null,
-        link: input.link ?? null,
-      },
-    });
-
-    const io = getIO();
-    io?.to(`user:${input.userId}`).emit("notification:created", created);
-  } catch (error) {
-    console.error("Failed to create notification:", error);
-  }
-};
-
 const emitToTask = (taskId: number, event: string, payload: any) => {
   const io = getIO();
   io?.to(`task:${taskId}`).emit(event, payload);
@@ -148,7 +123,13 @@ export const createTaskComment: RequestHandler = async (req: AuthRequest, res) =
 
     const task = await prisma.task.findUnique({
       where: { id },
-      select: { id: true, title: true, projectId: true },
+      select: {
+        id: true,
+        title: true,
+        projectId: true,
+        assignees: { select: { userId: true } },
+        watchers: { select: { userId: true } },
+      },
     });
 
     if (!task) {
@@ -169,13 +150,13 @@ export const createTaskComment: RequestHandler = async (req: AuthRequest, res) =
     // Mentions -> notifications
     const mentions = extractMentions(bodyRaw);
     const mentionedUsers = await resolveUsersFromMentions(mentions);
-    const link = getTaskLink({ id: task.id, projectId: task.projectId ?? null });
+    const link = taskLink({ id: task.id, projectId: task.projectId ?? null });
 
     await Promise.all(
       mentionedUsers
         .filter((u) => u.id !== userId)
         .map((u) =>
-          createNotificationSafe({
+          notify({
             userId: u.id,
             type: "COMMENT_MENTION",
             title: "Mentioned in a comment",
@@ -185,7 +166,26 @@ export const createTaskComment: RequestHandler = async (req: AuthRequest, res) =
         )
     );
 
+    // Assignees and watchers hear about every comment; mentioned users already got a notification
+    const followers = new Set([...task.assignees, ...task.watchers].map((p) => p.userId));
+    for (const u of mentionedUsers) followers.delete(u.id);
+    followers.delete(userId);
+
+    await Promise.all(
+      Array.from(followers).map((followerId) =>
+        notify({
+          userId: followerId,
+          type: "TASK_COMMENT",
+          title: `${comment.author.name} commented`,
+          body: task.title,
+          link,
+        })
+      )
+    );
+
+    await recordCommentCreated(comment.id, userId);
     emitToTask(id, "comment:created", { comment });
+    await queueWebhookEvent(task.projectId, "comment.created", { comment, task: { id: task.id, title: task.title } });
 
     res.status(201).json(comment);
   } catch (error) {
@@ -248,13 +248,13 @@ export const updateTaskComment: RequestHandler = async (req: AuthRequest, res) =
     // Mentions -> notifications (for updated content)
     const mentions = extractMentions(bodyRaw);
     const mentionedUsers = await resolveUsersFromMentions(mentions);
-    const link = getTaskLink({ id: task.id, projectId: task.projectId ?? null });
+    const link = taskLink({ id: task.id, projectId: task.projectId ?? null });
 
     await Promise.all(
       mentionedUsers
         .filter((u) => u.id !== userId)
         .map((u) =>
-          createNotificationSafe({
+          notify({
             userId: u.id,
             type: "COMMENT_MENTION",
             title: "Mentioned in a comment",
@@ -298,10 +298,13 @@ export const deleteTaskComment: RequestHandler = async (req: AuthRequest, res) =
       return res.status(404).json({ error: "Comment not found" });
     }
 
-    if (existing.authorId !== userId) {
+    // Project admins can moderate; everyone else can only delete their own comments
+    const canModerate = req.projectRole === "Owner" || req.projectRole === "Admin";
+    if (existing.authorId !== userId && !canModerate) {
       return res.status(403).json({ error: "You can only delete your own comments" });
     }
 
+    await revokeCommentXp(commentIdInt);
     await prisma.comment.delete({ where: { id: commentIdInt } });
 
     emitToTask(taskIdInt, "comment:deleted", { commentId: commentIdInt });
@@ -1,6 +1,7 @@
 import { RequestHandler } from 'express';
 import { prisma } from '../prisma';
 import { AuthRequest } from '../middleware/authorize';
+import { getDoneKeys, getInitialStatus, getProjectWorkflows, isDoneStatus } from '../services/workflow';
 
 /**
  * GET /api/dashboard/analytics
@@ -53,9 +54,17 @@ export const getDashboardAnalytics: RequestHandler = async (req: AuthRequest, re
     const pausedProjects = allProjects.filter(p => p.status === 'paused').length;
     const completedProjects = allProjects.filter(p => p.status === 'completed').length;
     const totalTasks = allTasks.length;
-    const completedTasks = allTasks.filter(task => task.status === 'done').length;
-    const inProgressTasks = allTasks.filter(task => task.status === 'inprogress').length;
-    const pendingTasks = allTasks.filter(task => task.status === 'todo').length;
+
+    // Each project decides which statuses count as done; its first open status is "pending"
+    const workflows = await getProjectWorkflows(allProjects.map(p => p.id));
+    const isDone = (task: { projectId: number | null; status: string }) =>
+      isDoneStatus(workflows.get(task.projectId!)!, task.status);
+    const isPending = (task: { projectId: number | null; status: string }) =>
+      task.status === getInitialStatus(workflows.get(task.projectId!)!);
+
+    const completedTasks = allTasks.filter(task => isDone(task)).length;
+    const pendingTasks = allTasks.filter(task => !isDone(task) && isPending(task)).length;
+    const inProgressTasks = totalTasks - completedTasks - pendingTasks;
 
     // Calculate additional metrics
     const completionRate = totalTasks > 0 
@@ -88,23 +97,27 @@ export const getDashboardAnalytics: RequestHandler = async (req: AuthRequest, re
 
     // Collect completion dates from activity logs (status changed to done)
     const taskIds = allTasks.map((t) => t.id);
+    const doneKeys = Array.from(new Set(Array.from(workflows.values()).flatMap(getDoneKeys)));
+    const taskProjects = new Map(allTasks.map((t) => [t.id, t.projectId]));
     const activityLogs = taskIds.length > 0
       ? await prisma.activityLog.findMany({
           where: {
             taskId: { in: taskIds },
             fieldName: 'status',
-            newValue: 'done',
+            newValue: { in: doneKeys },
           },
-          select: { timestamp: true },
+          select: { taskId: true, newValue: true, timestamp: true },
           orderBy: { timestamp: 'asc' },
         })
       : [];
 
-    const completionDates = activityLogs.map((l) => l.timestamp.toISOString());
+    const completionDates = activityLogs
+      .filter((l) => isDone({ projectId: taskProjects.get(l.taskId) ?? null, status: l.newValue ?? '' }))
+      .map((l) => l.timestamp.toISOString());
 
     // Also include updatedAt of done tasks as fallback
     for (const t of allTasks) {
-      if (t.status === 'done') {
+      if (isDone(t)) {
         completionDates.push(t.updatedAt.toISOString());
       }
     }
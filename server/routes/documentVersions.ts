@@ -0,0 +1,124 @@
+import { RequestHandler } from 'express';
+import { prisma } from '../prisma';
+import { AuthRequest } from '../middleware/authorize';
+import { documentPlainText } from '../services/search';
+import { MAX_VERSION_NAME_LENGTH, versionSelect } from '../services/documentVersions';
+import { resetDocument } from '../services/documentSync';
+
+const readId = (value: string | string[]) => parseInt(Array.isArray(value) ? value[0] : value);
+
+// GET /api/documents/file/:documentId/versions - Saved versions, newest first, without their content
+export const getDocumentVersions: RequestHandler = async (req, res) => {
+  try {
+    const versions = await prisma.documentVersion.findMany({
+      where: { documentId: readId(req.params.documentId) },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      select: versionSelect,
+    });
+    res.json(versions);
+  } catch (error) {
+    console.error('Error fetching document versions:', error);
+    res.status(500).json({ error: 'Failed to fetch document versions' });
+  }
+};
+
+// GET /api/documents/file/:documentId/versions/:versionId - One version with its content
+export const getDocumentVersion: RequestHandler = async (req, res) => {
+  try {
+    const version = await prisma.documentVersion.findFirst({
+      where: { id: readId(req.params.versionId), documentId: readId(req.params.documentId) },
+      select: { ...versionSelect, content: true },
+    });
+    if (!version) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+    res.json(version);
+  } catch (error) {
+    console.error('Error fetching document version:', error);
+    res.status(500).json({ error: 'Failed to fetch document version' });
+  }
+};
+
+// POST /api/documents/file/:documentId/versions - Body: { name }. Keep the document as it is now under a name
+export const createDocumentVersion: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+    if (!name) {
+      return res.status(400).json({ error: 'Give the version a name' });
+    }
+    if (name.length > MAX_VERSION_NAME_LENGTH) {
+      return res.status(400).json({ error: `Version names can be at most ${MAX_VERSION_NAME_LENGTH} characters` });
+    }
+
+    const documentId = readId(req.params.documentId);
+    const document = await prisma.document.findUnique({ where: { id: documentId }, select: { content: true } });
+    if (!document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    const version = await prisma.documentVersion.create({
+      data: { documentId, content: document.content, kind: 'named', name, createdBy: req.user!.id },
+      select: versionSelect,
+    });
+    res.status(201).json(version);
+  } catch (error) {
+    console.error('Error creating document version:', error);
+    res.status(500).json({ error: 'Failed to save version' });
+  }
+};
+
+/**
+ * POST /api/documents/file/:documentId/versions/:versionId/restore
+ * Put a version's content back and record that as a new version, keeping the content it replaces
+ * first if no version has it, so the restore can itself be undone. A collaborative document's Yjs
+ * state would outlive the restore, so it's thrown away and everyone editing loads the restored content.
+ */
+export const restoreDocumentVersion: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const documentId = readId(req.params.documentId);
+    const userId = req.user!.id;
+    const [source, document, latest] = await Promise.all([
+      prisma.documentVersion.findFirst({
+        where: { id: readId(req.params.versionId), documentId },
+        select: { id: true, content: true },
+      }),
+      prisma.document.findUnique({ where: { id: documentId }, select: { type: true, content: true } }),
+      prisma.documentVersion.findFirst({
+        where: { documentId },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        select: { content: true },
+      }),
+    ]);
+    if (!source || !document) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    const keepReplaced =
+      document.content !== latest?.content
+        ? [prisma.documentVersion.create({ data: { documentId, content: document.content, kind: 'auto', createdBy: userId } })]
+        : [];
+    const collaborative = document.type === 'document';
+    const results = await prisma.$transaction([
+      ...keepReplaced,
+      prisma.document.update({
+        where: { id: documentId },
+        data: {
+          content: source.content,
+          plainText: documentPlainText(document.type, source.content),
+          ...(collaborative ? { yjsState: null, yjsGeneration: { increment: 1 } } : {}),
+        },
+        select: { id: true, content: true, updatedAt: true },
+      }),
+      prisma.documentVersion.create({
+        data: { documentId, content: source.content, kind: 'restore', restoredFromId: source.id, createdBy: userId },
+        select: versionSelect,
+      }),
+    ]);
+    const [updated, version] = results.slice(-2);
+    if (collaborative) await resetDocument(documentId);
+    res.json({ document: updated, version });
+  } catch (error) {
+    console.error('Error restoring document version:', error);
+    res.status(500).json({ error: 'Failed to restore version' });
+  }
+};
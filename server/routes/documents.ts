@@ -1,6 +1,34 @@
 import { RequestHandler } from 'express';
 import { prisma } from '../prisma';
 import { AuthRequest } from '../middleware/authorize';
+import { documentPlainText } from '../services/search';
+import { getProjectWorkflow } from '../services/workflow';
+import { withTaskPeople } from '../services/taskPeople';
+import { recordEditVersion } from '../services/documentVersions';
+import {
+  SPREADSHEET_FORMATS,
+  buildCsv,
+  buildXlsx,
+  parseSpreadsheetFile,
+  sheetToGrid,
+  spreadsheetContentType,
+  taskTableGrid,
+  type SpreadsheetFormat,
+} from '../services/spreadsheetFiles';
+
+// Everything but the binary Yjs state, which only the /documents socket namespace reads
+const documentSelect = {
+  id: true,
+  projectId: true,
+  name: true,
+  type: true,
+  content: true,
+  plainText: true,
+  taskTable: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
 
 /**
  * GET /api/documents/:projectId
@@ -13,6 +41,7 @@ export const getDocuments: RequestHandler = async (req, res) => {
 
     const documents = await prisma.document.findMany({
       where: { projectId: projectIdInt },
+      select: documentSelect,
       orderBy: { updatedAt: 'desc' },
     });
 
@@ -34,6 +63,7 @@ export const getDocument: RequestHandler = async (req, res) => {
 
     const document = await prisma.document.findUnique({
       where: { id: documentIdInt },
+      select: documentSelect,
     });
 
     if (!document) {
@@ -53,7 +83,7 @@ export const getDocument: RequestHandler = async (req, res) => {
  */
 export const createDocument: RequestHandler = async (req, res) => {
   try {
-    const { projectId, name, type } = req.body;
+    const { projectId, name, type, taskTable } = req.body;
     const authReq = req as AuthRequest;
     const userId = authReq.user?.id || 0;
 
@@ -65,14 +95,20 @@ export const createDocument: RequestHandler = async (req, res) => {
       return res.status(400).json({ error: 'Type must be "document" or "spreadsheet"' });
     }
 
+    if (taskTable && type !== 'spreadsheet') {
+      return res.status(400).json({ error: 'Only spreadsheets can be task tables' });
+    }
+
     const document = await prisma.document.create({
       data: {
         projectId: parseInt(projectId),
         name,
         type,
         content: type === 'spreadsheet' ? JSON.stringify({ cells: {} }) : JSON.stringify({ content: '' }),
+        taskTable: taskTable === true,
         createdBy: userId,
       },
+      select: documentSelect,
     });
 
     res.status(201).json(document);
@@ -84,24 +120,35 @@ export const createDocument: RequestHandler = async (req, res) => {
 
 /**
  * PUT /api/documents/:documentId
- * Update a document
+ * Update a document. Content changes are versioned now and then (see services/documentVersions).
  */
 export const updateDocument: RequestHandler = async (req, res) => {
   try {
     const { documentId } = req.params;
     const { name, content } = req.body;
     const documentIdInt = parseInt(Array.isArray(documentId) ? documentId[0] : documentId);
+    const userId = (req as AuthRequest).user!.id;
 
     const updateData: any = {};
     if (name !== undefined) updateData.name = name;
     if (content !== undefined) {
       // Ensure content is a string
       updateData.content = typeof content === 'string' ? content : JSON.stringify(content);
+
+      const existing = await prisma.document.findUnique({
+        where: { id: documentIdInt },
+        select: { type: true, content: true, plainText: true },
+      });
+      if (existing) {
+        updateData.plainText = documentPlainText(existing.type, updateData.content);
+        await recordEditVersion(documentIdInt, existing, updateData, userId);
+      }
     }
 
     const document = await prisma.document.update({
       where: { id: documentIdInt },
       data: updateData,
+      select: documentSelect,
     });
 
     res.json(document);
@@ -130,3 +177,100 @@ export const deleteDocument: RequestHandler = async (req, res) => {
     res.status(500).json({ error: 'Failed to delete document' });
   }
 };
+
+/**
+ * GET /api/documents/file/:documentId/export?format=csv|xlsx
+ * Download a spreadsheet. Task tables export the project's tasks as they are now.
+ */
+export const exportDocument: RequestHandler = async (req, res) => {
+  try {
+    const { documentId } = req.params;
+    const documentIdInt = parseInt(Array.isArray(documentId) ? documentId[0] : documentId);
+    const format = (req.query.format ?? 'csv') as SpreadsheetFormat;
+
+    if (!SPREADSHEET_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `Format must be one of: ${SPREADSHEET_FORMATS.join(', ')}` });
+    }
+
+    const document = await prisma.document.findUnique({
+      where: { id: documentIdInt },
+      select: documentSelect,
+    });
+
+    if (!document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    if (document.type !== 'spreadsheet') {
+      return res.status(400).json({ error: 'Only spreadsheets can be exported' });
+    }
+
+    let grid;
+    if (document.taskTable) {
+      const tasks = await prisma.task.findMany({
+        where: { projectId: document.projectId },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      });
+      grid = taskTableGrid(await withTaskPeople(tasks), await getProjectWorkflow(document.projectId));
+    } else {
+      let cells = {};
+      try {
+        cells = JSON.parse(document.content).cells ?? {};
+      } catch {
+        // Unreadable content exports as an empty sheet
+      }
+      grid = sheetToGrid(cells);
+    }
+
+    const file = format === 'xlsx' ? buildXlsx(grid, document.name) : buildCsv(grid);
+    const filename = `${document.name.replace(/[^\w .-]+/g, '_')}.${format}`;
+    res.setHeader('Content-Type', spreadsheetContentType(format));
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(file);
+  } catch (error) {
+    console.error('Error exporting document:', error);
+    res.status(500).json({ error: 'Failed to export document' });
+  }
+};
+
+/**
+ * POST /api/documents/:projectId/import?name=
+ * Create a spreadsheet from a CSV or .xlsx file sent as the request body
+ */
+export const importSpreadsheet: RequestHandler = async (req, res) => {
+  try {
+    const { projectId } = req.params;
+    const projectIdInt = parseInt(Array.isArray(projectId) ? projectId[0] : projectId);
+    const authReq = req as AuthRequest;
+    const name = typeof req.query.name === 'string' && req.query.name.trim() ? req.query.name.trim() : 'Imported Spreadsheet';
+
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ error: 'Send the CSV or .xlsx file as the request body' });
+    }
+
+    const parsed = parseSpreadsheetFile(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const content = JSON.stringify({ cells: parsed.cells });
+    const document = await prisma.document.create({
+      data: {
+        projectId: projectIdInt,
+        name,
+        type: 'spreadsheet',
+        content,
+        plainText: documentPlainText('spreadsheet', content),
+        createdBy: authReq.user!.id,
+        // The imported file is the first version, so edits after the import can be undone
+        versions: { create: { content, kind: 'auto', createdBy: authReq.user!.id } },
+      },
+      select: documentSelect,
+    });
+
+    res.status(201).json(document);
+  } catch (error) {
+    console.error('Error importing spreadsheet:', error);
+    res.status(500).json({ error: 'Failed to import spreadsheet' });
+  }
+};
@@ -0,0 +1,102 @@
+import { RequestHandler } from 'express';
+import { prisma } from '../prisma';
+import { AuthRequest } from '../middleware/authorize';
+import {
+  MAX_FOCUS_MINUTES,
+  SELF_REPORTED_LIMITS,
+  SelfReportedType,
+  completeFocusSession,
+  getGamificationState,
+  recordSelfReported,
+  startFocusSession,
+} from '../services/gamification';
+
+const inProject = (userId: number) => ({ OR: [{ ownerId: userId }, { members: { some: { userId } } }] });
+
+// GET /api/gamification/me - The signed-in user's XP, level, streak and achievements
+export const getMyGamification: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    res.json(await getGamificationState(req.user!.id));
+  } catch (error) {
+    console.error('Error fetching gamification state:', error);
+    res.status(500).json({ error: 'Failed to fetch XP' });
+  }
+};
+
+// GET /api/gamification/users/:userId - Another user's progress; only visible to people sharing a project with them
+export const getUserGamification: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const viewerId = req.user!.id;
+    const userId = parseInt(String(req.params.userId));
+    if (Number.isNaN(userId)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+
+    if (userId !== viewerId) {
+      const shared = await prisma.project.count({ where: { AND: [inProject(viewerId), inProject(userId)] } });
+      if (shared === 0) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+    }
+
+    const { recentEvents, xpToday, ...state } = await getGamificationState(userId);
+    res.json(userId === viewerId ? { ...state, recentEvents, xpToday } : state);
+  } catch (error) {
+    console.error('Error fetching gamification state:', error);
+    res.status(500).json({ error: 'Failed to fetch XP' });
+  }
+};
+
+// POST /api/gamification/activity - Body: { type: "DAILY_CHECKIN" | "JOURNAL_ENTRY" }
+export const logActivity: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const type = req.body?.type;
+    if (!Object.keys(SELF_REPORTED_LIMITS).includes(type)) {
+      return res.status(400).json({ error: `type must be one of ${Object.keys(SELF_REPORTED_LIMITS).join(', ')}` });
+    }
+
+    const awarded = await recordSelfReported(req.user!.id, type as SelfReportedType);
+    res.json({ awarded, ...(await getGamificationState(req.user!.id)) });
+  } catch (error) {
+    console.error('Error logging activity:', error);
+    res.status(500).json({ error: 'Failed to log activity' });
+  }
+};
+
+// POST /api/gamification/focus-sessions - Body: { minutes }. Starts a focus session, abandoning any still open
+export const createFocusSession: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const minutes = req.body?.minutes;
+    if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_FOCUS_MINUTES) {
+      return res.status(400).json({ error: `minutes must be a whole number from 1 to ${MAX_FOCUS_MINUTES}` });
+    }
+
+    res.status(201).json(await startFocusSession(req.user!.id, minutes));
+  } catch (error) {
+    console.error('Error starting focus session:', error);
+    res.status(500).json({ error: 'Failed to start focus session' });
+  }
+};
+
+// POST /api/gamification/focus-sessions/:id/complete - Credits a session that has run its full length
+export const finishFocusSession: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const sessionId = parseInt(String(req.params.id));
+    if (Number.isNaN(sessionId)) {
+      return res.status(400).json({ error: 'Invalid session ID' });
+    }
+
+    const result = await completeFocusSession(req.user!.id, sessionId);
+    if (!result) {
+      return res.status(404).json({ error: 'Focus session not found' });
+    }
+    if ('error' in result) {
+      return res.status(409).json({ error: result.error });
+    }
+
+    res.json({ awarded: result.awarded, ...(await getGamificationState(req.user!.id)) });
+  } catch (error) {
+    console.error('Error completing focus session:', error);
+    res.status(500).json({ error: 'Failed to complete focus session' });
+  }
+};
@@ -105,6 +105,17 @@ export const addLabelToTask: RequestHandler = async (req, res) => {
       return;
     }
 
+    // Labels are per-project: only allow labels from the task's own project
+    const [task, label] = await Promise.all([
+      prisma.task.findUnique({ where: { id: taskId }, select: { projectId: true } }),
+      prisma.label.findUnique({ where: { id: toInt(labelId) }, select: { projectId: true } }),
+    ]);
+
+    if (!label || !task || label.projectId !== task.projectId) {
+      res.status(404).json({ error: "Label not found" });
+      return;
+    }
+
     const taskLabel = await (prisma as any).taskLabel.create({
       data: { taskId, labelId: toInt(labelId) },
       include: { label: true },
@@ -1,30 +1,15 @@
 import { RequestHandler } from "express";
 import { prisma } from "../prisma";
 import { AuthRequest } from "../middleware/authorize";
+import { getDoneKeys, getProjectWorkflow } from "../services/workflow";
+import { computeStreak, getLevelInfo, getTotalXp } from "../services/gamification";
 
 type LeaderUser = { id: number; name: string; email: string };
 
 const toDateKey = (d: Date) => d.toISOString().slice(0, 10);
 
-const computeStreakEndingToday = (dateKeysDesc: string[], todayKey: string) => {
-  if (dateKeysDesc.length === 0) return 0;
-  if (dateKeysDesc[0] !== todayKey) return 0;
-
-  let streak = 1;
-  let current = new Date(todayKey);
-
-  for (let i = 1; i < dateKeysDesc.length; i++) {
-    current.setDate(current.getDate() - 1);
-    const expected = toDateKey(current);
-    if (dateKeysDesc[i] !== expected) break;
-    streak += 1;
-  }
-
-  return streak;
-};
-
 // GET /api/projects/:projectId/leaderboard
-// Computes per-user completion leaderboard for a project.
+// Computes per-user completion leaderboard for a project, with each user's overall XP and level.
 export const getProjectLeaderboard: RequestHandler = async (req: AuthRequest, res) => {
   try {
     const userId = req.user?.id;
@@ -58,17 +43,20 @@ export const getProjectLeaderboard: RequestHandler = async (req: AuthRequest, re
     historyStart.setDate(historyStart.getDate() - 60);
     historyStart.setHours(0, 0, 0, 0);
 
-    // We treat a completion as an ActivityLog where status changed to done.
+    // We treat a completion as an ActivityLog where status changed to one the project counts as done.
+    // It's credited to the task's assignees, or to whoever completed it when nobody is assigned.
+    const doneKeys = getDoneKeys(await getProjectWorkflow(projectId));
     const logs = await prisma.activityLog.findMany({
       where: {
         fieldName: "status",
-        newValue: "done",
+        newValue: { in: doneKeys },
         timestamp: { gte: historyStart },
         task: { projectId },
       },
       select: {
         userId: true,
         timestamp: true,
+        task: { select: { assignees: { select: { userId: true } } } },
       },
       orderBy: { timestamp: "desc" },
     });
@@ -76,17 +64,23 @@ export const getProjectLeaderboard: RequestHandler = async (req: AuthRequest, re
     const byUser = new Map<string, { dates: Set<string>; weekCount: number; todayCount: number }>();
 
     for (const l of logs) {
-      const key = String(l.userId ?? "").trim();
-      if (!key || key === "system") continue;
+      const keys =
+        l.task.assignees.length > 0
+          ? l.task.assignees.map((a) => String(a.userId))
+          : [String(l.userId ?? "").trim()];
+
+      for (const key of keys) {
+        if (!key || key === "system") continue;
 
-      const entry = byUser.get(key) ?? { dates: new Set<string>(), weekCount: 0, todayCount: 0 };
-      const dateKey = toDateKey(l.timestamp);
-      entry.dates.add(dateKey);
+        const entry = byUser.get(key) ?? { dates: new Set<string>(), weekCount: 0, todayCount: 0 };
+        const dateKey = toDateKey(l.timestamp);
+        entry.dates.add(dateKey);
 
-      if (l.timestamp >= weekStart) entry.weekCount += 1;
-      if (dateKey === todayKey) entry.todayCount += 1;
+        if (l.timestamp >= weekStart) entry.weekCount += 1;
+        if (dateKey === todayKey) entry.todayCount += 1;
 
-      byUser.set(key, entry);
+        byUser.set(key, entry);
+      }
     }
 
     const userIds = Array.from(byUser.keys())
@@ -99,11 +93,14 @@ export const getProjectLeaderboard: RequestHandler = async (req: AuthRequest, re
     });
 
     const userMap = new Map<string, LeaderUser>(users.map((u) => [String(u.id), u] as const));
+    const xpByUser = await getTotalXp(userIds);
 
     const leaderboard = Array.from(byUser.entries()).map(([uid, entry]) => {
       const uniqueDatesDesc = Array.from(entry.dates).sort((a, b) => (a > b ? -1 : 1));
-      const streak = computeStreakEndingToday(uniqueDatesDesc, todayKey);
+      const streak = computeStreak(uniqueDatesDesc, todayKey);
       const user = userMap.get(uid);
+      const xp = xpByUser.get(parseInt(uid)) ?? 0;
+      const { level, title } = getLevelInfo(xp);
 
       return {
         userId: uid,
@@ -112,6 +109,9 @@ export const getProjectLeaderboard: RequestHandler = async (req: AuthRequest, re
         completedToday: entry.todayCount,
         completedLast7Days: entry.weekCount,
         streak,
+        xp,
+        level,
+        title,
       };
     });
 
@@ -2,6 +2,13 @@ import { RequestHandler } from "express";
 import { prisma } from "../prisma";
 import { AuthRequest } from "../middleware/authorize";
 import { getIO } from "../realtime";
+import {
+  getNotificationPreferences,
+  parsePreferencesInput,
+  saveNotificationPreferences,
+  unsubscribeByToken,
+} from "../services/notifications";
+import { escapeHtml } from "../services/mailer";
 
 // GET /api/notifications - list notifications for current user
 export const getNotifications: RequestHandler = async (req: AuthRequest, res) => {
@@ -13,7 +20,7 @@ export const getNotifications: RequestHandler = async (req: AuthRequest, res) =>
     }
 
     const notifications = await prisma.notification.findMany({
-      where: { userId },
+      where: { userId, inApp: true },
       orderBy: [{ readAt: "asc" }, { createdAt: "desc" }],
       take: 100,
     });
@@ -35,7 +42,7 @@ export const getUnreadCount: RequestHandler = async (req: AuthRequest, res) => {
     }
 
     const count = await prisma.notification.count({
-      where: { userId, readAt: null },
+      where: { userId, inApp: true, readAt: null },
     });
 
     res.json({ count });
@@ -62,7 +69,7 @@ export const markNotificationRead: RequestHandler = async (req: AuthRequest, res
     }
 
     const notification = await prisma.notification.findFirst({
-      where: { id: notificationId, userId },
+      where: { id: notificationId, userId, inApp: true },
     });
 
     if (!notification) {
@@ -94,7 +101,7 @@ export const markAllRead: RequestHandler = async (req: AuthRequest, res) => {
     }
 
     await prisma.notification.updateMany({
-      where: { userId, readAt: null },
+      where: { userId, inApp: true, readAt: null },
       data: { readAt: new Date() },
     });
 
@@ -107,3 +114,71 @@ export const markAllRead: RequestHandler = async (req: AuthRequest, res) => {
     res.status(500).json({ error: "Failed to mark all read" });
   }
 };
+
+// GET /api/notifications/preferences - channels per notification type
+export const getPreferences: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    res.json(await getNotificationPreferences(req.user!.id));
+  } catch (error) {
+    console.error("Error fetching notification preferences:", error);
+    res.status(500).json({ error: "Failed to fetch notification preferences" });
+  }
+};
+
+// PUT /api/notifications/preferences { [type]: { inApp?, email? } }
+export const updatePreferences: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const parsed = parsePreferencesInput(req.body);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    res.json(await saveNotificationPreferences(req.user!.id, parsed.input));
+  } catch (error) {
+    console.error("Error updating notification preferences:", error);
+    res.status(500).json({ error: "Failed to update notification preferences" });
+  }
+};
+
+const unsubscribePage = (message: string, form = "") => `<!doctype html>
+<html><head><meta charset="utf-8"><title>ProUp notifications</title></head>
+<body style="font-family: Arial, sans-serif; max-width: 480px; margin: 80px auto; color: #333;">
+  <p>${escapeHtml(message)}</p>${form}
+</body></html>`;
+
+/**
+ * GET /api/notifications/unsubscribe/:token
+ * Public: linked from every notification email. Only asks for confirmation, since link scanners
+ * and prefetchers open links nobody clicked.
+ */
+export const confirmUnsubscribe: RequestHandler = (req, res) => {
+  const action = `/api/notifications/unsubscribe/${encodeURIComponent(String(req.params.token))}`;
+  res.type("html").send(
+    unsubscribePage(
+      "Stop receiving ProUp notification emails?",
+      `
+  <form method="post" action="${escapeHtml(action)}">
+    <button type="submit" style="padding: 8px 16px; cursor: pointer;">Unsubscribe</button>
+  </form>`
+    )
+  );
+};
+
+/**
+ * POST /api/notifications/unsubscribe/:token
+ * Public: the confirmation page's form, and the RFC 8058 one-click request mail clients send.
+ */
+export const unsubscribe: RequestHandler = async (req, res) => {
+  try {
+    const found = await unsubscribeByToken(String(req.params.token));
+    if (!found) {
+      return res.status(404).type("html").send(unsubscribePage("This unsubscribe link is no longer valid."));
+    }
+    res
+      .type("html")
+      .send(unsubscribePage("You won't receive notification emails any more. You can turn them back on from your inbox."));
+  } catch (error) {
+    console.error("Error unsubscribing:", error);
+    res.status(500).type("html").send(unsubscribePage("Something went wrong. Please try again later."));
+  }
+};
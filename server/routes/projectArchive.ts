@@ -0,0 +1,41 @@
+import { RequestHandler } from 'express';
+import { AuthRequest } from '../middleware/authorize';
+import { exportProjectArchive, parseProjectArchive, restoreProjectArchive } from '../services/projectArchive';
+
+// GET /api/projects/:id/export - Download the whole project as a ZIP archive
+export const exportProject: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const archive = await exportProjectArchive(req.projectId!);
+    if (!archive) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${archive.name}"`);
+    res.send(archive.buffer);
+  } catch (error) {
+    console.error('Error exporting project:', error);
+    res.status(500).json({ error: 'Failed to export project' });
+  }
+};
+
+// POST /api/projects/import - Restore an exported archive as a new project owned by the caller
+// Body: the ZIP file itself (Content-Type: application/zip)
+export const importProject: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ error: 'Send the archive as the request body with Content-Type: application/zip' });
+    }
+
+    const parsed = parseProjectArchive(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const { project, invited, unmatchedUsers } = await restoreProjectArchive(parsed.archive, req.user!.id);
+    res.status(201).json({ project, invited, unmatchedUsers });
+  } catch (error) {
+    console.error('Error importing project:', error);
+    res.status(500).json({ error: 'Failed to import project' });
+  }
+};
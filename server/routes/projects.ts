@@ -1,5 +1,6 @@
 import { RequestHandler } from 'express';
 import { prisma } from '../prisma';
+import { disconnectSockets } from '../realtime';
 import { AuthRequest } from '../middleware/authorize';
 import * as invitationService from '../services/invitation';
 
@@ -94,7 +95,6 @@ export const createProject: RequestHandler = async (req: AuthRequest, res) => {
     };
 
     const userId = req.user?.id;
-    const userName = req.user?.name;
 
     if (!userId) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -129,24 +129,27 @@ export const createProject: RequestHandler = async (req: AuthRequest, res) => {
         // Set positions per status in the created tasks
         const counters: Record<string, number> = { todo: 0, inprogress: 0, done: 0 };
 
-        await prisma.task.createMany({
-          data: template.tasks.map((t) => {
+        // Template tasks start out assigned to whoever created the project
+        await prisma.$transaction(
+          template.tasks.map((t) => {
             const key = String(t.status || 'todo');
             const pos = (counters[key] ?? 0);
             counters[key] = pos + 1;
 
-            return {
-              title: t.title,
-              description: t.description,
-              assignedUser: userName || 'Me',
-              dueDate: asDate(t.dueOffsetDays),
-              status: t.status,
-              priority: t.priority,
-              position: pos,
-              projectId: project.id,
-            } as any;
-          }),
-        });
+            return prisma.task.create({
+              data: {
+                title: t.title,
+                description: t.description,
+                dueDate: asDate(t.dueOffsetDays),
+                status: t.status,
+                priority: t.priority,
+                position: pos,
+                projectId: project.id,
+                assignees: { create: { userId } },
+              },
+            });
+          })
+        );
       }
     }
 
@@ -282,6 +285,7 @@ export const updateMemberRole: RequestHandler = async (req, res) => {
   try {
     const { id, memberId } = req.params;
     const { role } = req.body;
+    const projectId = parseInt(Array.isArray(id) ? id[0] : id);
     const memberIdValue = Array.isArray(memberId) ? memberId[0] : memberId;
     const memberIdInt = parseInt(memberIdValue);
 
@@ -289,6 +293,15 @@ export const updateMemberRole: RequestHandler = async (req, res) => {
       return res.status(400).json({ error: 'Invalid role' });
     }
 
+    const existing = await prisma.projectMember.findFirst({
+      where: { id: memberIdInt, projectId },
+      select: { id: true, userId: true },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
     const member = await prisma.projectMember.update({
       where: { id: memberIdInt },
       data: { role },
@@ -303,6 +316,8 @@ export const updateMemberRole: RequestHandler = async (req, res) => {
       },
     });
 
+    // Open sockets were let in, and allowed to edit, under the old role
+    await disconnectSockets((auth) => auth.user?.id === existing.userId);
     res.json(member);
   } catch (error) {
     console.error('Error updating member role:', error);
@@ -316,14 +331,23 @@ export const updateMemberRole: RequestHandler = async (req, res) => {
  */
 export const removeMember: RequestHandler = async (req, res) => {
   try {
-    const { memberId } = req.params;
+    const { id, memberId } = req.params;
+    const projectId = parseInt(Array.isArray(id) ? id[0] : id);
     const memberIdValue = Array.isArray(memberId) ? memberId[0] : memberId;
     const memberIdInt = parseInt(memberIdValue);
 
-    await prisma.projectMember.delete({
-      where: { id: memberIdInt },
+    const existing = await prisma.projectMember.findFirst({
+      where: { id: memberIdInt, projectId },
+      select: { id: true, userId: true },
     });
 
+    if (!existing) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    await prisma.projectMember.delete({ where: { id: existing.id } });
+    // Their open sockets are still in the project's rooms
+    await disconnectSockets((auth) => auth.user?.id === existing.userId);
     res.status(204).send();
   } catch (error) {
     console.error('Error removing member:', error);
@@ -345,7 +369,11 @@ export const inviteMember: RequestHandler = async (req: AuthRequest, res) => {
     const idValue = Array.isArray(id) ? id[0] : id;
     const projectId = parseInt(idValue);
     const { email, role } = req.body;
-    const userId = req.user?.id || 1; // Fallback to user 1 for now
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
 
     if (!email || !role) {
       return res.status(400).json({ error: 'Email and role are required' });
@@ -412,7 +440,11 @@ export const getProjectInvitations: RequestHandler = async (req, res) => {
 export const joinProject: RequestHandler = async (req: AuthRequest, res) => {
   try {
     const { token } = req.params;
-    const userId = req.user?.id || 1; // Fallback to user 1 for now
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
 
     const tokenValue = Array.isArray(token) ? token[0] : token;
     const result = await invitationService.acceptInvitation(tokenValue, userId);
@@ -437,11 +469,16 @@ export const joinProject: RequestHandler = async (req: AuthRequest, res) => {
  */
 export const cancelInvitation: RequestHandler = async (req, res) => {
   try {
-    const { invitationId } = req.params;
+    const { id, invitationId } = req.params;
+    const projectId = parseInt(Array.isArray(id) ? id[0] : id);
     const invitationIdValue = Array.isArray(invitationId) ? invitationId[0] : invitationId;
     const invitationIdInt = parseInt(invitationIdValue);
 
-    await invitationService.cancelInvitation(invitationIdInt);
+    const cancelled = await invitationService.cancelInvitation(invitationIdInt, projectId);
+
+    if (!cancelled) {
+      return res.status(404).json({ error: 'Invitation not found' });
+    }
 
     res.status(204).send();
   } catch (error) {
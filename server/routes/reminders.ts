@@ -0,0 +1,50 @@
+import { RequestHandler } from 'express';
+import { prisma } from '../prisma';
+import { AuthRequest } from '../middleware/authorize';
+import { parseReminderHours, parseReminderSettingsInput } from '../services/reminders';
+
+const reminderSelect = { reminderHours: true, escalateOverdue: true } as const;
+
+// Stored hours are a JSON string; clients get the array
+const serialize = (settings: { reminderHours: string; escalateOverdue: boolean }) => ({
+  ...settings,
+  reminderHours: parseReminderHours(settings.reminderHours),
+});
+
+// GET /api/projects/:projectId/reminders - When assignees and admins are reminded about due dates
+export const getReminderSettings: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const project = await prisma.project.findUnique({ where: { id: req.projectId! }, select: reminderSelect });
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    res.json(serialize(project));
+  } catch (error) {
+    console.error('Error fetching reminder settings:', error);
+    res.status(500).json({ error: 'Failed to fetch reminder settings' });
+  }
+};
+
+// PUT /api/projects/:projectId/reminders - Body: { reminderHours?: number[], escalateOverdue?: boolean }
+export const updateReminderSettings: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const parsed = parseReminderSettingsInput(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const { reminderHours, escalateOverdue } = parsed.input;
+    const project = await prisma.project.update({
+      where: { id: req.projectId! },
+      data: {
+        ...(reminderHours !== undefined ? { reminderHours: JSON.stringify(reminderHours) } : {}),
+        ...(escalateOverdue !== undefined ? { escalateOverdue } : {}),
+      },
+      select: reminderSelect,
+    });
+    res.json(serialize(project));
+  } catch (error) {
+    console.error('Error updating reminder settings:', error);
+    res.status(500).json({ error: 'Failed to update reminder settings' });
+  }
+};
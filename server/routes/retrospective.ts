@@ -1,10 +1,15 @@
 import { RequestHandler } from 'express';
 import { prisma } from '../prisma';
-import { AuthRequest } from '../middleware/authorize';
+import { AuthRequest, checkProjectPermission } from '../middleware/authorize';
+import { getSprintTaskIds } from '../services/sprint';
+import { getInitialStatus, getProjectWorkflows, isDoneStatus } from '../services/workflow';
 
 /**
  * GET /api/retrospective/data?from=YYYY-MM-DD&to=YYYY-MM-DD&projectId=N
+ * GET /api/retrospective/data?sprintId=N
  * Gathers sprint data for the AI retrospective generator.
+ * With a sprintId the period and task set come from the sprint itself, including
+ * unfinished tasks that were rolled over when it closed.
  * Returns tasks, activity logs, comments count, and member stats for the period.
  */
 export const getRetrospectiveData: RequestHandler = async (req: AuthRequest, res) => {
@@ -12,7 +17,23 @@ export const getRetrospectiveData: RequestHandler = async (req: AuthRequest, res
     const userId = req.user?.id;
     if (!userId) return res.status(401).json({ error: 'Not authenticated' });
 
-    const { from, to, projectId } = req.query;
+    let { from, to, projectId } = req.query;
+
+    let sprint = null;
+    let sprintTaskIds: number[] | null = null;
+    if (req.query.sprintId) {
+      sprint = await prisma.sprint.findUnique({ where: { id: parseInt(req.query.sprintId as string) } });
+      if (!sprint) return res.status(404).json({ error: 'Sprint not found' });
+
+      const check = await checkProjectPermission(userId, sprint.projectId, 'project:view');
+      if (check.allowed === false) return res.status(check.status).json(check.body);
+
+      from = sprint.startDate.toISOString().slice(0, 10);
+      to = (sprint.closedAt ?? sprint.endDate).toISOString().slice(0, 10);
+      projectId = String(sprint.projectId);
+      sprintTaskIds = await getSprintTaskIds(sprint);
+    }
+
     if (!from || !to) return res.status(400).json({ error: 'from and to dates are required' });
 
     const fromDate = new Date(from as string);
@@ -45,20 +66,24 @@ export const getRetrospectiveData: RequestHandler = async (req: AuthRequest, res
     const accessibleProjectIds = Array.from(projectMap.keys());
 
     if (accessibleProjectIds.length === 0) {
-      return res.json({ tasks: [], activityLogs: [], projects: [], summary: {} });
+      return res.json({ tasks: [], activityLogs: [], projects: [], people: [], summary: {} });
     }
 
-    // Fetch tasks in those projects (all tasks, not just ones updated in range)
+    // Fetch tasks in those projects (all tasks, not just ones updated in range), or the sprint's tasks
     const tasks = await prisma.task.findMany({
-      where: { projectId: { in: accessibleProjectIds } },
+      where: {
+        projectId: { in: accessibleProjectIds },
+        ...(sprintTaskIds ? { id: { in: sprintTaskIds } } : {}),
+      },
       select: {
         id: true,
         title: true,
         status: true,
         priority: true,
-        assignedUser: true,
+        assignees: { select: { user: { select: { id: true, name: true } } } },
         dueDate: true,
         projectId: true,
+        sprintId: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -100,15 +125,21 @@ export const getRetrospectiveData: RequestHandler = async (req: AuthRequest, res
       (t) => t.createdAt >= fromDate && t.createdAt <= toDate
     );
 
+    // Done-ness follows each project's workflow
+    const workflows = await getProjectWorkflows(accessibleProjectIds);
+    const taskProjects = new Map(tasks.map((t) => [t.id, t.projectId]));
+    const isDone = (projectId: number | null | undefined, status: string | null) =>
+      isDoneStatus(workflows.get(projectId!) ?? [], status);
+
     // Tasks completed in the range (status changed to done)
     const completionLogs = activityLogs.filter(
-      (l) => l.fieldName === 'status' && l.newValue === 'done'
+      (l) => l.fieldName === 'status' && isDone(taskProjects.get(l.taskId), l.newValue)
     );
     const completedTaskIds = new Set(completionLogs.map((l) => l.taskId));
 
     // Tasks that went overdue (due date passed while not done)
     const overdueTaskIds = tasks.filter((t) => {
-      if (!t.dueDate || t.status === 'done') return false;
+      if (!t.dueDate || isDone(t.projectId, t.status)) return false;
       const due = new Date(t.dueDate);
       return due <= toDate && due >= fromDate;
     }).map((t) => t.id);
@@ -141,16 +172,39 @@ export const getRetrospectiveData: RequestHandler = async (req: AuthRequest, res
         name: projectMap.get(pid) || 'Unknown',
         totalTasks: projTasks.length,
         completed: projCompleted.length,
-        inProgress: projTasks.filter((t) => t.status === 'inprogress').length,
-        todo: projTasks.filter((t) => t.status === 'todo').length,
+        inProgress: projTasks.filter((t) => !isDone(pid, t.status) && t.status !== getInitialStatus(workflows.get(pid)!)).length,
+        todo: projTasks.filter((t) => !isDone(pid, t.status) && t.status === getInitialStatus(workflows.get(pid)!)).length,
       };
     });
 
+    // Per-assignee breakdown; a task with several assignees counts for each of them
+    const peopleMap = new Map<number, { id: number; name: string; completed: number; open: number }>();
+    for (const task of tasks) {
+      for (const { user } of task.assignees) {
+        const entry = peopleMap.get(user.id) ?? { ...user, completed: 0, open: 0 };
+        if (completedTaskIds.has(task.id)) entry.completed++;
+        else if (!isDone(task.projectId, task.status)) entry.open++;
+        peopleMap.set(user.id, entry);
+      }
+    }
+    const peopleBreakdown = Array.from(peopleMap.values())
+      .filter((p) => p.completed > 0 || p.open > 0)
+      .sort((a, b) => b.completed - a.completed || a.name.localeCompare(b.name));
+
     // Days in sprint
     const sprintDays = Math.max(1, Math.ceil((toDate.getTime() - fromDate.getTime()) / (1000 * 60 * 60 * 24)));
 
     res.json({
       period: { from: from as string, to: to as string, days: sprintDays },
+      sprint: sprint
+        ? {
+            id: sprint.id,
+            name: sprint.name,
+            goal: sprint.goal,
+            state: sprint.state,
+            rolledOver: sprintTaskIds!.length - tasks.filter((t) => t.sprintId === sprint!.id).length,
+          }
+        : null,
       summary: {
         tasksCreated: tasksCreated.length,
         tasksCompleted: completedTaskIds.size,
@@ -164,11 +218,17 @@ export const getRetrospectiveData: RequestHandler = async (req: AuthRequest, res
         busiestDay: busiestDay ? { date: busiestDay[0], count: busiestDay[1] } : null,
       },
       projects: projectBreakdown,
+      people: peopleBreakdown,
       completedTaskTitles: completedTasks.slice(0, 20).map((t) => t.title),
       overdueTasks: tasks
         .filter((t) => overdueTaskIds.includes(t.id))
         .slice(0, 10)
-        .map((t) => ({ title: t.title, dueDate: t.dueDate, priority: t.priority })),
+        .map((t) => ({
+          title: t.title,
+          dueDate: t.dueDate,
+          priority: t.priority,
+          assignees: t.assignees.map((a) => a.user.name),
+        })),
     });
   } catch (error) {
     console.error('Error fetching retrospective data:', error);
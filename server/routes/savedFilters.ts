@@ -0,0 +1,219 @@
+import { RequestHandler } from 'express';
+import { prisma } from '../prisma';
+import { AuthRequest, checkProjectPermission } from '../middleware/authorize';
+import { parseTaskQuery } from '../services/taskQuery';
+import { today } from '../services/recurrence';
+
+const filterInclude = (userId: number) =>
+  ({
+    owner: { select: { id: true, name: true } },
+    project: { select: { id: true, name: true, color: true } },
+    pins: { where: { userId }, select: { userId: true } },
+  }) as const;
+
+// Pins are per user; clients get whether the current user pinned the filter
+const withPinned = <T extends { pins: unknown[] }>({ pins, ...filter }: T) => ({ ...filter, pinned: pins.length > 0 });
+
+const accessibleProjects = (userId: number) => ({
+  OR: [{ ownerId: userId }, { members: { some: { userId } } }],
+});
+
+// Reject queries that wouldn't parse when run, so saved filters always work
+const validateQuery = (value: unknown) => {
+  if (typeof value !== 'string' || !value.trim()) return 'Filter query is required';
+  const parsed = parseTaskQuery(value, { userId: 0, today: today() });
+  return 'error' in parsed ? parsed.error : null;
+};
+
+// undefined = leave unchanged, null = personal. Sharing needs access to the project.
+const resolveProjectId = async (userId: number, value: unknown) => {
+  if (value === undefined) return { projectId: undefined };
+  if (value === null || value === '') return { projectId: null };
+
+  const projectId = parseInt(String(value));
+  if (Number.isNaN(projectId)) return { error: { status: 400, body: { error: 'Invalid projectId' } } };
+
+  const check = await checkProjectPermission(userId, projectId, 'project:view');
+  if (check.allowed === false) return { error: { status: check.status, body: check.body } };
+  return { projectId };
+};
+
+// Others get a 404 unless the filter is shared with them
+const findVisibleFilter = async (userId: number, filterId: number) => {
+  const filter = await prisma.savedFilter.findFirst({
+    where: {
+      id: filterId,
+      OR: [{ ownerId: userId }, { project: { is: accessibleProjects(userId) } }],
+    },
+  });
+  if (!filter) return { error: { status: 404, body: { error: 'Filter not found' } } };
+  return { filter };
+};
+
+// Only the owner may change or delete a filter
+const findOwnFilter = async (userId: number, filterId: number) => {
+  const found = await findVisibleFilter(userId, filterId);
+  if (found.error) return found;
+  if (found.filter.ownerId !== userId) {
+    return { error: { status: 403, body: { error: 'Only the filter owner can change it' } } };
+  }
+  return found;
+};
+
+// GET /api/filters?projectId=&pinned=true - The user's own filters plus those shared with their projects; pinned=true lists the user's pins
+export const getSavedFilters: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const userId = req.user!.id;
+
+    let projectId: number | undefined;
+    if (req.query.projectId !== undefined) {
+      projectId = parseInt(String(req.query.projectId));
+      if (Number.isNaN(projectId)) {
+        return res.status(400).json({ error: 'Invalid projectId' });
+      }
+    }
+
+    const filters = await prisma.savedFilter.findMany({
+      where: {
+        OR: [{ ownerId: userId }, { project: { is: accessibleProjects(userId) } }],
+        ...(projectId !== undefined ? { projectId } : {}),
+        ...(req.query.pinned === 'true' ? { pins: { some: { userId } } } : {}),
+      },
+      include: filterInclude(userId),
+      orderBy: [{ name: 'asc' }, { id: 'asc' }],
+    });
+
+    res.json(filters.map(withPinned));
+  } catch (error) {
+    console.error('Error fetching saved filters:', error);
+    res.status(500).json({ error: 'Failed to fetch saved filters' });
+  }
+};
+
+// POST /api/filters - Save a filter. Body: { name, query, projectId?, pinned? }
+export const createSavedFilter: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const userId = req.user!.id;
+    const { name, query, projectId, pinned } = req.body ?? {};
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'Filter name is required' });
+    }
+    const queryError = validateQuery(query);
+    if (queryError) {
+      return res.status(400).json({ error: queryError });
+    }
+
+    const project = await resolveProjectId(userId, projectId);
+    if (project.error) {
+      return res.status(project.error.status).json(project.error.body);
+    }
+
+    const filter = await prisma.savedFilter.create({
+      data: {
+        ownerId: userId,
+        projectId: project.projectId ?? null,
+        name: name.trim(),
+        query: query.trim(),
+        pins: pinned === true ? { create: { userId } } : undefined,
+      },
+      include: filterInclude(userId),
+    });
+
+    res.status(201).json(withPinned(filter));
+  } catch (error) {
+    console.error('Error creating saved filter:', error);
+    res.status(500).json({ error: 'Failed to save filter' });
+  }
+};
+
+// PATCH /api/filters/:filterId - Rename, change the query, share/unshare or pin. Body: { name?, query?, projectId?, pinned? }
+// Anyone who can see a filter may pin it for themselves; everything else is up to its owner.
+export const updateSavedFilter: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const userId = req.user!.id;
+    const filterId = parseInt(String(req.params.filterId));
+
+    const { name, query, projectId, pinned } = req.body ?? {};
+    const changesFilter = name !== undefined || query !== undefined || projectId !== undefined;
+
+    const existing = changesFilter ? await findOwnFilter(userId, filterId) : await findVisibleFilter(userId, filterId);
+    if (existing.error) {
+      return res.status(existing.error.status).json(existing.error.body);
+    }
+
+    const data: { name?: string; query?: string; projectId?: number | null } = {};
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        return res.status(400).json({ error: 'Filter name is required' });
+      }
+      data.name = name.trim();
+    }
+    if (query !== undefined) {
+      const queryError = validateQuery(query);
+      if (queryError) {
+        return res.status(400).json({ error: queryError });
+      }
+      data.query = query.trim();
+    }
+    if (pinned !== undefined && typeof pinned !== 'boolean') {
+      return res.status(400).json({ error: 'pinned must be a boolean' });
+    }
+
+    const project = await resolveProjectId(userId, projectId);
+    if (project.error) {
+      return res.status(project.error.status).json(project.error.body);
+    }
+    data.projectId = project.projectId;
+
+    if (pinned === true) {
+      await prisma.savedFilterPin.upsert({
+        where: { filterId_userId: { filterId, userId } },
+        create: { filterId, userId },
+        update: {},
+      });
+    } else if (pinned === false) {
+      await prisma.savedFilterPin.deleteMany({ where: { filterId, userId } });
+    }
+
+    const filter = changesFilter
+      ? await prisma.savedFilter.update({ where: { id: filterId }, data, include: filterInclude(userId) })
+      : await prisma.savedFilter.findUnique({ where: { id: filterId }, include: filterInclude(userId) });
+
+    // Unsharing or moving a filter takes it off the sidebars of people who can no longer see it
+    if (data.projectId !== undefined && data.projectId !== existing.filter.projectId) {
+      const target = data.projectId;
+      const members = {
+        OR: [{ ownedProjects: { some: { id: target } } }, { memberships: { some: { projectId: target } } }],
+      };
+      await prisma.savedFilterPin.deleteMany({
+        where: { filterId, userId: { not: userId }, ...(target !== null ? { user: { NOT: members } } : {}) },
+      });
+    }
+
+    res.json(withPinned(filter));
+  } catch (error) {
+    console.error('Error updating saved filter:', error);
+    res.status(500).json({ error: 'Failed to update filter' });
+  }
+};
+
+// DELETE /api/filters/:filterId - Delete one of the user's filters
+export const deleteSavedFilter: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const userId = req.user!.id;
+    const filterId = parseInt(String(req.params.filterId));
+
+    const existing = await findOwnFilter(userId, filterId);
+    if (existing.error) {
+      return res.status(existing.error.status).json(existing.error.body);
+    }
+
+    await prisma.savedFilter.delete({ where: { id: filterId } });
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting saved filter:', error);
+    res.status(500).json({ error: 'Failed to delete filter' });
+  }
+};
@@ -0,0 +1,37 @@
+import { RequestHandler } from 'express';
+import { AuthRequest } from '../middleware/authorize';
+import { SEARCH_KINDS, SearchKind, searchProjects } from '../services/search';
+import { TOKEN_SEARCH_KINDS } from '../services/apiTokens';
+
+const MAX_LIMIT = 50;
+
+// GET /api/search?q=&types=task,comment,document,chat&limit= - Ranked hits across the user's projects
+export const search: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const q = typeof req.query.q === 'string' ? req.query.q : '';
+    const limit = Math.max(1, Math.min(parseInt(String(req.query.limit)) || 20, MAX_LIMIT));
+
+    let kinds = SEARCH_KINDS;
+    if (typeof req.query.types === 'string' && req.query.types) {
+      const requested = req.query.types.split(',').map((type) => type.trim());
+      const unknown = requested.filter((type) => !SEARCH_KINDS.includes(type as SearchKind));
+      if (unknown.length > 0) {
+        return res.status(400).json({ error: `Unknown search types: ${unknown.join(', ')}` });
+      }
+      kinds = requested as SearchKind[];
+    }
+
+    // Documents and chat are off limits to personal access tokens
+    if (req.apiTokenId) kinds = kinds.filter((kind) => TOKEN_SEARCH_KINDS.includes(kind));
+
+    res.json({ query: q, results: await searchProjects(userId, q, { limit, kinds }) });
+  } catch (error) {
+    console.error('Error searching:', error);
+    res.status(500).json({ error: 'Failed to search' });
+  }
+};
@@ -0,0 +1,248 @@
+import { RequestHandler } from 'express';
+import { prisma } from '../prisma';
+import { AuthRequest } from '../middleware/authorize';
+import { getIO } from '../realtime';
+import { getProjectWorkflow, isDoneStatus } from '../services/workflow';
+import { parseTaskIds } from '../services/sprint';
+
+const emitToProject = (projectId: number, event: string, payload: any) => {
+  getIO()?.to(`project:${projectId}`).emit(event, payload);
+};
+
+const parseDate = (value: unknown): Date | null => {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+// Adds task totals so the planner can show progress without loading every task
+const withProgress = async (sprints: Array<{ id: number; projectId: number; rolledOverTaskIds: string | null }>) => {
+  if (sprints.length === 0) return [];
+  const workflow = await getProjectWorkflow(sprints[0].projectId);
+  const tasks = await prisma.task.findMany({
+    where: { sprintId: { in: sprints.map((s) => s.id) } },
+    select: { sprintId: true, status: true },
+  });
+
+  return sprints.map(({ rolledOverTaskIds, ...sprint }) => {
+    const own = tasks.filter((t) => t.sprintId === sprint.id);
+    return {
+      ...sprint,
+      taskCount: own.length,
+      doneCount: own.filter((t) => isDoneStatus(workflow, t.status)).length,
+      rolledOverCount: parseTaskIds(rolledOverTaskIds).length,
+    };
+  });
+};
+
+// GET /api/projects/:projectId/sprints - List a project's sprints, newest first
+export const getProjectSprints: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const sprints = await prisma.sprint.findMany({
+      where: { projectId: req.projectId! },
+      orderBy: [{ startDate: 'desc' }, { id: 'desc' }],
+    });
+    res.json(await withProgress(sprints));
+  } catch (error) {
+    console.error('Error fetching sprints:', error);
+    res.status(500).json({ error: 'Failed to fetch sprints' });
+  }
+};
+
+// POST /api/projects/:projectId/sprints - Plan a new sprint
+export const createSprint: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const { name, goal, startDate, endDate } = req.body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'Sprint name is required' });
+    }
+
+    const start = parseDate(startDate);
+    const end = parseDate(endDate);
+    if (!start || !end) {
+      return res.status(400).json({ error: 'startDate and endDate are required' });
+    }
+    if (end < start) {
+      return res.status(400).json({ error: 'endDate must not be before startDate' });
+    }
+
+    const sprint = await prisma.sprint.create({
+      data: {
+        projectId: req.projectId!,
+        name: name.trim(),
+        goal: typeof goal === 'string' && goal.trim() ? goal.trim() : null,
+        startDate: start,
+        endDate: end,
+      },
+    });
+
+    const [created] = await withProgress([sprint]);
+    emitToProject(sprint.projectId, 'sprint:updated', { sprint: created });
+    res.status(201).json(created);
+  } catch (error) {
+    console.error('Error creating sprint:', error);
+    res.status(500).json({ error: 'Failed to create sprint' });
+  }
+};
+
+// PUT /api/sprints/:id - Update a sprint's name, goal or dates
+export const updateSprint: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const sprintId = parseInt(String(req.params.id));
+    const existing = await prisma.sprint.findUnique({ where: { id: sprintId } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Sprint not found' });
+    }
+
+    const { name, goal, startDate, endDate } = req.body;
+    const data: { name?: string; goal?: string | null; startDate?: Date; endDate?: Date } = {};
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        return res.status(400).json({ error: 'Sprint name is required' });
+      }
+      data.name = name.trim();
+    }
+    if (goal !== undefined) {
+      data.goal = typeof goal === 'string' && goal.trim() ? goal.trim() : null;
+    }
+    if (startDate !== undefined || endDate !== undefined) {
+      // Dates of a closed sprint are history; the retro depends on them
+      if (existing.state === 'closed') {
+        return res.status(409).json({ error: 'Cannot change the dates of a closed sprint' });
+      }
+      const start = startDate !== undefined ? parseDate(startDate) : existing.startDate;
+      const end = endDate !== undefined ? parseDate(endDate) : existing.endDate;
+      if (!start || !end) {
+        return res.status(400).json({ error: 'Invalid date' });
+      }
+      if (end < start) {
+        return res.status(400).json({ error: 'endDate must not be before startDate' });
+      }
+      data.startDate = start;
+      data.endDate = end;
+    }
+
+    const sprint = await prisma.sprint.update({ where: { id: sprintId }, data });
+    const [updated] = await withProgress([sprint]);
+    emitToProject(sprint.projectId, 'sprint:updated', { sprint: updated });
+    res.json(updated);
+  } catch (error) {
+    console.error('Error updating sprint:', error);
+    res.status(500).json({ error: 'Failed to update sprint' });
+  }
+};
+
+// DELETE /api/sprints/:id - Delete a sprint that hasn't started; its tasks return to the backlog
+export const deleteSprint: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const sprintId = parseInt(String(req.params.id));
+    const sprint = await prisma.sprint.findUnique({ where: { id: sprintId } });
+    if (!sprint) {
+      return res.status(404).json({ error: 'Sprint not found' });
+    }
+    if (sprint.state !== 'planned') {
+      return res.status(409).json({ error: 'Only planned sprints can be deleted' });
+    }
+
+    await prisma.sprint.delete({ where: { id: sprintId } });
+    emitToProject(sprint.projectId, 'sprint:deleted', { sprintId });
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting sprint:', error);
+    res.status(500).json({ error: 'Failed to delete sprint' });
+  }
+};
+
+// POST /api/sprints/:id/start - Start a planned sprint (one active sprint per project)
+export const startSprint: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const sprintId = parseInt(String(req.params.id));
+    const sprint = await prisma.sprint.findUnique({ where: { id: sprintId } });
+    if (!sprint) {
+      return res.status(404).json({ error: 'Sprint not found' });
+    }
+    if (sprint.state !== 'planned') {
+      return res.status(409).json({ error: `Sprint is already ${sprint.state}` });
+    }
+
+    const active = await prisma.sprint.findFirst({
+      where: { projectId: sprint.projectId, state: 'active' },
+      select: { name: true },
+    });
+    if (active) {
+      return res.status(409).json({ error: `Close "${active.name}" before starting another sprint` });
+    }
+
+    const started = await prisma.sprint.update({
+      where: { id: sprintId },
+      data: { state: 'active', startedAt: new Date() },
+    });
+
+    const [updated] = await withProgress([started]);
+    emitToProject(started.projectId, 'sprint:updated', { sprint: updated });
+    res.json(updated);
+  } catch (error) {
+    console.error('Error starting sprint:', error);
+    res.status(500).json({ error: 'Failed to start sprint' });
+  }
+};
+
+// POST /api/sprints/:id/close - Close the active sprint
+// Body: { rolloverSprintId?: number | null } - where unfinished tasks go (null/omitted = backlog)
+export const closeSprint: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const sprintId = parseInt(String(req.params.id));
+    const sprint = await prisma.sprint.findUnique({ where: { id: sprintId } });
+    if (!sprint) {
+      return res.status(404).json({ error: 'Sprint not found' });
+    }
+    if (sprint.state !== 'active') {
+      return res.status(409).json({ error: 'Only an active sprint can be closed' });
+    }
+
+    const rawTarget = req.body?.rolloverSprintId;
+    let rolloverSprintId: number | null = null;
+    if (rawTarget !== undefined && rawTarget !== null) {
+      rolloverSprintId = parseInt(String(rawTarget));
+      const target = await prisma.sprint.findUnique({ where: { id: rolloverSprintId } });
+      if (!target || target.projectId !== sprint.projectId || target.id === sprint.id) {
+        return res.status(400).json({ error: 'Rollover sprint not found in this project' });
+      }
+      if (target.state !== 'planned') {
+        return res.status(400).json({ error: 'Unfinished tasks can only roll over into a planned sprint' });
+      }
+    }
+
+    const workflow = await getProjectWorkflow(sprint.projectId);
+    const tasks = await prisma.task.findMany({
+      where: { sprintId },
+      select: { id: true, status: true },
+    });
+    const unfinishedIds = tasks.filter((t) => !isDoneStatus(workflow, t.status)).map((t) => t.id);
+
+    const [, closed] = await prisma.$transaction([
+      prisma.task.updateMany({
+        where: { id: { in: unfinishedIds } },
+        data: { sprintId: rolloverSprintId },
+      }),
+      prisma.sprint.update({
+        where: { id: sprintId },
+        data: {
+          state: 'closed',
+          closedAt: new Date(),
+          rolledOverTaskIds: JSON.stringify(unfinishedIds),
+        },
+      }),
+    ]);
+
+    const [updated] = await withProgress([closed]);
+    emitToProject(closed.projectId, 'sprint:updated', { sprint: updated, rolledOver: unfinishedIds.length });
+
+    res.json({ sprint: updated, rolledOver: unfinishedIds.length, rolloverSprintId });
+  } catch (error) {
+    console.error('Error closing sprint:', error);
+    res.status(500).json({ error: 'Failed to close sprint' });
+  }
+};
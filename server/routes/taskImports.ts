@@ -0,0 +1,115 @@
+import { RequestHandler } from 'express';
+import { prisma } from '../prisma';
+import { getIO } from '../realtime';
+import { AuthRequest } from '../middleware/authorize';
+import { getProjectWorkflow } from '../services/workflow';
+import { withTaskPeople } from '../services/taskPeople';
+import { withTaskProgress } from '../services/taskProgress';
+import { queueWebhookEvent } from '../services/webhooks';
+import {
+  loadImportContext,
+  parseImportRows,
+  planTaskImport,
+  runTaskImport,
+  serializeTaskImport,
+  undoTaskImport,
+} from '../services/taskImport';
+
+const RECENT_IMPORTS = 20;
+
+// Same event as POST /api/tasks/bulk, so open boards add or drop the tasks in one render
+const emitBulkUpdate = (projectId: number, tasks: unknown[], deletedIds: number[]) => {
+  getIO()?.to(`project:${projectId}`).emit('tasks:bulk-updated', { tasks, deletedIds });
+};
+
+// GET /api/projects/:projectId/imports - Recent imports, newest first
+export const getTaskImports: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const imports = await prisma.taskImport.findMany({
+      where: { projectId: req.projectId! },
+      orderBy: { createdAt: 'desc' },
+      take: RECENT_IMPORTS,
+    });
+    res.json(imports.map(serializeTaskImport));
+  } catch (error) {
+    console.error('Error fetching imports:', error);
+    res.status(500).json({ error: 'Failed to fetch imports' });
+  }
+};
+
+// POST /api/projects/:projectId/imports - Import mapped rows as tasks
+// Body: { rows: [{ key?, title, description?, status?, priority?, assignee?, dueDate?, labels?, blockedBy? }],
+// source?, fileName?, dryRun? }. A dry run only validates; a real import fails unless every row is valid.
+export const createTaskImport: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const parsed = parseImportRows(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const projectId = req.projectId!;
+    const context = await loadImportContext(projectId, await getProjectWorkflow(projectId));
+    const plan = planTaskImport(parsed.rows, context);
+    const summary = {
+      total: parsed.rows.length,
+      valid: plan.tasks.length,
+      errors: plan.errors,
+      newLabels: plan.newLabels,
+      dependencyCount: plan.dependencyCount,
+    };
+
+    if (req.body.dryRun) {
+      return res.json({ ...summary, tasks: plan.tasks });
+    }
+    if (plan.errors.length > 0) {
+      return res.status(400).json({ error: 'Some rows are invalid; nothing was imported', ...summary });
+    }
+
+    const fileName = typeof req.body.fileName === 'string' ? req.body.fileName.slice(0, 255) : null;
+    const { batch, taskIds } = await runTaskImport(projectId, req.user!.id, parsed.source, fileName, plan);
+
+    const rows = await prisma.task.findMany({
+      where: { id: { in: taskIds } },
+      include: { labels: { include: { label: true } } },
+    });
+    const tasks = await withTaskPeople(
+      await withTaskProgress(rows.map((t) => ({ ...t, labels: t.labels.map((tl) => tl.label) })))
+    );
+    emitBulkUpdate(projectId, tasks, []);
+    for (const task of tasks) {
+      await queueWebhookEvent(projectId, 'task.created', { task });
+    }
+
+    res.status(201).json({ import: serializeTaskImport(batch), tasks });
+  } catch (error) {
+    console.error('Error importing tasks:', error);
+    res.status(500).json({ error: 'Failed to import tasks' });
+  }
+};
+
+// DELETE /api/projects/:projectId/imports/:importId - Undo an import by deleting the tasks it created
+export const deleteTaskImport: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const batch = await prisma.taskImport.findFirst({
+      where: { id: parseInt(String(req.params.importId)), projectId: req.projectId! },
+    });
+    if (!batch) {
+      return res.status(404).json({ error: 'Import not found' });
+    }
+    if (batch.undoneAt) {
+      return res.status(409).json({ error: 'This import was already undone' });
+    }
+
+    const deleted = await undoTaskImport(batch);
+    const deletedIds = deleted.map((t) => t.id);
+    emitBulkUpdate(batch.projectId, [], deletedIds);
+    for (const task of deleted) {
+      await queueWebhookEvent(batch.projectId, 'task.deleted', { task });
+    }
+
+    res.json({ deletedIds });
+  } catch (error) {
+    console.error('Error undoing import:', error);
+    res.status(500).json({ error: 'Failed to undo import' });
+  }
+};
@@ -1,14 +1,107 @@
 import { RequestHandler } from 'express';
+import type { Prisma } from '@prisma/client';
 import { prisma } from '../prisma';
-import { logTaskChanges, logTaskCreation } from '../services/activityLog';
-import { AuthRequest } from '../middleware/authorize';
+import { buildTaskChangeLogs, logSubtaskCompletion, logTaskChanges, logTaskCreation } from '../services/activityLog';
+import { AuthRequest, checkProjectPermission } from '../middleware/authorize';
 import { getIO } from '../realtime';
+import {
+  DEFAULT_WORKFLOW,
+  WorkflowStatusDef,
+  canTransition,
+  findStatus,
+  getInitialStatus,
+  getProjectWorkflow,
+  getProjectWorkflows,
+  isDoneStatus,
+} from '../services/workflow';
+import { withTaskProgress } from '../services/taskProgress';
+import { parseRecurrenceInput, spawnNextOccurrence, today } from '../services/recurrence';
+import { parseTaskQuery } from '../services/taskQuery';
+import { formatPeople, getTaskPeople, resolveTaskPeopleIds, setTaskPeople, withTaskPeople } from '../services/taskPeople';
+import { queueWebhookEvent } from '../services/webhooks';
+import { parseBulkTaskInput } from '../services/bulkTasks';
+import { notify, taskLink } from '../services/notifications';
+import { recordTaskCreated, recordTasksCompleted, revokeTaskXp } from '../services/gamification';
+
+// Filter from the ?q= task query (see services/taskQuery)
+const parseQueryParam = (req: AuthRequest) =>
+  parseTaskQuery(typeof req.query.q === 'string' ? req.query.q : '', {
+    userId: req.user?.id ?? 0,
+    today: today(),
+  });
 
-type TaskStatus = 'todo' | 'inprogress' | 'done';
+const invalidStatus = (value: unknown) => ({
+  error: `Unknown status "${String(value)}" for this project`,
+  code: 'INVALID_STATUS',
+});
+
+const transitionNotAllowed = (workflow: WorkflowStatusDef[], from: string, to: string) => ({
+  error: `Cannot move a task from ${findStatus(workflow, from)?.name ?? from} to ${findStatus(workflow, to)?.name ?? to}`,
+  code: 'TRANSITION_NOT_ALLOWED',
+});
+
+// undefined = leave unchanged, null = backlog. Tasks can only join open sprints of their own project.
+const resolveSprintId = async (
+  value: unknown,
+  projectId: number | null
+): Promise<{ sprintId: number | null | undefined } | { error: string }> => {
+  if (value === undefined) return { sprintId: undefined };
+  if (value === null || value === '') return { sprintId: null };
+
+  const sprint = await prisma.sprint.findUnique({
+    where: { id: parseInt(String(value)) },
+    select: { id: true, projectId: true, state: true },
+  });
+  if (!sprint || sprint.projectId !== projectId) {
+    return { error: 'Sprint not found in this project' };
+  }
+  if (sprint.state === 'closed') {
+    return { error: 'Cannot add tasks to a closed sprint' };
+  }
+  return { sprintId: sprint.id };
+};
+
+// undefined = leave unchanged, null = top-level task. Subtasks are one level deep and stay in their parent's project.
+const resolveParentTaskId = async (
+  value: unknown,
+  projectId: number | null,
+  taskId?: number
+): Promise<{ parentTaskId: number | null | undefined } | { error: string }> => {
+  if (value === undefined) return { parentTaskId: undefined };
+  if (value === null || value === '') return { parentTaskId: null };
+
+  const parentId = parseInt(String(value));
+  if (parentId === taskId) {
+    return { error: 'A task cannot be its own subtask' };
+  }
+  const parent = await prisma.task.findUnique({
+    where: { id: parentId },
+    select: { id: true, projectId: true, parentTaskId: true },
+  });
+  if (!parent || parent.projectId !== projectId) {
+    return { error: 'Parent task not found in this project' };
+  }
+  if (parent.parentTaskId !== null) {
+    return { error: 'Subtasks cannot have subtasks of their own' };
+  }
+  if (taskId !== undefined && (await prisma.task.count({ where: { parentTaskId: taskId } })) > 0) {
+    return { error: 'A task with subtasks cannot become a subtask' };
+  }
+  return { parentTaskId: parent.id };
+};
 
-const parseStatus = (value: unknown): TaskStatus | null => {
-  if (value === 'todo' || value === 'inprogress' || value === 'done') return value;
-  return null;
+// Labels and people can't follow tasks into another project: drops other projects' labels and any
+// assignees or watchers who aren't members of projectId. Run in the same transaction as the move.
+const leaveProjectOps = (taskIds: number[], projectId: number): Prisma.PrismaPromise<unknown>[] => {
+  const outsiders = {
+    taskId: { in: taskIds },
+    user: { NOT: { OR: [{ ownedProjects: { some: { id: projectId } } }, { memberships: { some: { projectId } } }] } },
+  };
+  return [
+    prisma.taskLabel.deleteMany({ where: { taskId: { in: taskIds }, label: { projectId: { not: projectId } } } }),
+    prisma.taskAssignee.deleteMany({ where: outsiders }),
+    prisma.taskWatcher.deleteMany({ where: outsiders }),
+  ];
 };
 
 const isUnknownPositionError = (error: unknown) => {
@@ -16,84 +109,86 @@ const isUnknownPositionError = (error: unknown) => {
   return message.includes('Unknown argument `position`') || message.includes('Unknown argument \'position\'');
 };
 
-const normalize = (value: unknown) =>
-  String(value ?? '')
-    .trim()
-    .toLowerCase();
-
-const resolveUserFromAssignee = async (assignedUser: unknown) => {
-  const raw = String(assignedUser ?? '').trim();
-  if (!raw) return null;
-
-  // Prefer exact email match, fallback to name (case-insensitive)
-  const maybeEmail = raw.includes('@') ? raw : null;
-
-  // NOTE: SQLite does not support Prisma's `mode: 'insensitive'` string filter.
-  // Keep the query strict, then fall back to an in-memory case-insensitive match.
-  const strictUser = await prisma.user.findFirst({
-    where: {
-      OR: [
-        ...(maybeEmail ? [{ email: maybeEmail }] : []),
-        { name: raw },
-      ],
-    },
-    select: { id: true, email: true, name: true },
-  });
-
-  if (strictUser) return strictUser;
+const emitToProject = (projectId: number | null | undefined, event: string, payload: any) => {
+  if (!projectId) return;
+  const io = getIO();
+  io?.to(`project:${projectId}`).emit(event, payload);
+};
 
-  if (!maybeEmail) {
-    const normalized = normalize(raw);
-    const users = await prisma.user.findMany({
-      select: { id: true, email: true, name: true },
-    });
-    const found = users.find((u) => normalize(u.name) === normalized);
-    return found ?? null;
+// Tell new assignees about a task, unless they assigned it to themselves
+const notifyAssigned = async (
+  task: { id: number; title: string; projectId: number | null },
+  userIds: number[],
+  actorId: number | undefined,
+  title: string
+) => {
+  for (const userId of userIds) {
+    if (userId === actorId) continue;
+    await notify({ userId, type: 'TASK_ASSIGNED', title, body: task.title, link: taskLink(task) });
   }
-
-  return null;
 };
 
-const createNotificationSafe = async (input: {
-  userId: number;
-  type: string;
-  title: string;
-  body?: string | null;
-  link?: string | null;
-}) => {
-  try {
-    const created = await prisma.notification.create({
-      data: {
-        userId: input.userId,
-        type: input.type,
-        title: input.title,
-        body: input.body ?? null,
-        link: input.link ?? null,
-      },
-    });
-
-    const io = getIO();
-    io?.to(`user:${input.userId}`).emit('notification:created', created);
-  } catch (error) {
-    console.error('Failed to create notification:', error);
+// Tell watchers (other than whoever moved it) that a task changed status
+const notifyWatchersOfStatus = async (taskIds: number[], actorId: number | undefined) => {
+  if (taskIds.length === 0) return;
+  const tasks = await prisma.task.findMany({
+    where: { id: { in: taskIds } },
+    select: { id: true, title: true, status: true, projectId: true, watchers: { select: { userId: true } } },
+  });
+  const workflows = await getProjectWorkflows(
+    tasks.filter((t) => t.projectId !== null).map((t) => t.projectId as number)
+  );
+
+  for (const task of tasks) {
+    const workflow = task.projectId ? workflows.get(task.projectId)! : DEFAULT_WORKFLOW;
+    for (const { userId } of task.watchers) {
+      if (userId === actorId) continue;
+      await notify({
+        userId,
+        type: 'TASK_STATUS_CHANGED',
+        title: `Moved to ${findStatus(workflow, task.status)?.name ?? task.status}`,
+        body: task.title,
+        link: taskLink(task),
+      });
+    }
   }
 };
 
-const emitToProject = (projectId: number | null | undefined, event: string, payload: any) => {
-  if (!projectId) return;
-  const io = getIO();
-  io?.to(`project:${projectId}`).emit(event, payload);
+// Re-send a parent task so boards pick up its new subtask progress
+const emitParentProgress = async (parentTaskId: number | null | undefined) => {
+  if (!parentTaskId) return;
+  const parent = await prisma.task.findUnique({ where: { id: parentTaskId } });
+  if (!parent?.projectId) return;
+  const [task] = await withTaskPeople(await withTaskProgress([parent]));
+  emitToProject(parent.projectId, 'task:updated', { task });
+};
+
+// Finishing an occurrence of a recurring task schedules the next one
+const spawnNextOccurrences = async (taskIds: number[]) => {
+  for (const id of taskIds) {
+    const next = await spawnNextOccurrence(id);
+    if (next) {
+      const [task] = await withTaskPeople([next]);
+      emitToProject(next.projectId, 'task:created', { task });
+      await queueWebhookEvent(next.projectId, 'task.created', { task });
+    }
+  }
 };
 
+// Blocking tasks count as finished when their own project's workflow marks their status as done
 const assertNotBlockedForDone = async (taskId: number) => {
   const deps = await prisma.taskDependency.findMany({
     where: { blockedTaskId: taskId },
-    include: { blockingTask: { select: { id: true, status: true, title: true } } },
+    include: { blockingTask: { select: { id: true, status: true, title: true, projectId: true } } },
   });
 
+  const workflows = await getProjectWorkflows(
+    deps.map((d) => d.blockingTask.projectId).filter((id): id is number => id !== null)
+  );
+
   const blocking = deps
     .map((d) => d.blockingTask)
-    .filter((t) => String(t.status) !== 'done');
+    .filter((t) => !isDoneStatus(t.projectId ? workflows.get(t.projectId)! : DEFAULT_WORKFLOW, t.status));
 
   if (blocking.length > 0) {
     const titles = blocking.map((t) => t.title).slice(0, 5).join(', ');
@@ -104,7 +199,7 @@ const assertNotBlockedForDone = async (taskId: number) => {
   }
 };
 
-// GET /api/tasks - Get tasks for the authenticated user's projects
+// GET /api/tasks?q= - Get tasks for the authenticated user's projects, optionally filtered by a task query
 export const getTasks: RequestHandler = async (req: AuthRequest, res) => {
   try {
     const userId = req.user?.id;
@@ -113,6 +208,11 @@ export const getTasks: RequestHandler = async (req: AuthRequest, res) => {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
+    const filter = parseQueryParam(req);
+    if ('error' in filter) {
+      return res.status(400).json({ error: filter.error });
+    }
+
     // Get tasks from projects where user is owner or member
     const query = {
       where: {
@@ -124,6 +224,7 @@ export const getTasks: RequestHandler = async (req: AuthRequest, res) => {
             ],
           },
         },
+        ...filter.where,
       },
       include: {
         project: {
@@ -145,26 +246,25 @@ export const getTasks: RequestHandler = async (req: AuthRequest, res) => {
         orderBy: [{ status: 'asc' }, { createdAt: 'desc' }],
       } as any);
     }
-    res.json(tasks);
+    res.json(await withTaskPeople(tasks as any[]));
   } catch (error) {
     console.error('Error fetching tasks:', error);
     res.status(500).json({ error: 'Failed to fetch tasks' });
   }
 };
 
-// GET /api/tasks/my - Get tasks assigned to the current user (across their projects)
+// GET /api/tasks/my?q= - Get tasks assigned to the current user (across their projects), each with its project's workflow
 export const getMyTasks: RequestHandler = async (req: AuthRequest, res) => {
   try {
     const userId = req.user?.id;
-    const userName = req.user?.name;
-    const userEmail = req.user?.email;
 
     if (!userId) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
-    if (!userName) {
-      return res.status(400).json({ error: 'User profile incomplete' });
+    const filter = parseQueryParam(req);
+    if ('error' in filter) {
+      return res.status(400).json({ error: filter.error });
     }
 
     const query = {
@@ -177,6 +277,8 @@ export const getMyTasks: RequestHandler = async (req: AuthRequest, res) => {
             ],
           },
         },
+        assignees: { some: { userId } },
+        ...filter.where,
       },
       include: {
         project: {
@@ -199,18 +301,10 @@ export const getMyTasks: RequestHandler = async (req: AuthRequest, res) => {
       } as any);
     }
 
-    const meName = normalize(userName);
-    const meEmail = normalize(userEmail);
-
-    const myTasks = (tasks as any[]).filter((t) => {
-      const assignee = normalize(t.assignedUser);
-      if (!assignee) return false;
-      if (assignee === meName) return true;
-      if (meEmail && assignee === meEmail) return true;
-      return false;
-    });
-
-    res.json(myTasks);
+    // These tasks span projects, so each carries its project's workflow for grouping and done checks
+    const workflows = await getProjectWorkflows((tasks as any[]).map((t) => t.projectId as number));
+    const withPeople = await withTaskPeople(tasks as any[]);
+    res.json(withPeople.map((t) => ({ ...t, workflow: workflows.get(t.projectId) ?? DEFAULT_WORKFLOW })));
   } catch (error) {
     console.error('Error fetching my tasks:', error);
     const details = error instanceof Error ? error.message : String(error);
@@ -218,7 +312,7 @@ export const getMyTasks: RequestHandler = async (req: AuthRequest, res) => {
   }
 };
 
-// GET /api/projects/:projectId/board - Get a Kanban board view for a project
+// GET /api/projects/:projectId/board?q= - Get a Kanban board view for a project
 export const getProjectBoard: RequestHandler = async (req: AuthRequest, res) => {
   try {
     const userId = req.user?.id;
@@ -250,18 +344,23 @@ export const getProjectBoard: RequestHandler = async (req: AuthRequest, res) =>
       return res.status(404).json({ error: 'Project not found' });
     }
 
+    const filter = parseQueryParam(req);
+    if ('error' in filter) {
+      return res.status(400).json({ error: filter.error });
+    }
+
     const includeLabels = { labels: { include: { label: true } }, reactions: { include: { user: { select: { id: true, name: true } } } } };
     let tasks;
     try {
       tasks = await prisma.task.findMany({
-        where: { project: { is: { id: projectIdInt } } },
+        where: { project: { is: { id: projectIdInt } }, ...filter.where },
         include: includeLabels,
         orderBy: [{ status: 'asc' }, { position: 'asc' }, { createdAt: 'asc' }],
       } as any);
     } catch (error) {
       if (!isUnknownPositionError(error)) throw error;
       tasks = await prisma.task.findMany({
-        where: { project: { is: { id: projectIdInt } } },
+        where: { project: { is: { id: projectIdInt } }, ...filter.where },
         include: includeLabels,
         orderBy: [{ status: 'asc' }, { createdAt: 'asc' }],
       } as any);
@@ -285,7 +384,13 @@ export const getProjectBoard: RequestHandler = async (req: AuthRequest, res) =>
       };
     });
 
-    res.json({ projectId: projectIdInt, tasks: tasksWithLabels });
+    const workflow = await getProjectWorkflow(projectIdInt);
+
+    res.json({
+      projectId: projectIdInt,
+      workflow,
+      tasks: await withTaskPeople(await withTaskProgress(tasksWithLabels)),
+    });
   } catch (error) {
     console.error('Error fetching project board:', error);
     res.status(500).json({ error: 'Failed to fetch project board' });
@@ -305,22 +410,68 @@ export const getTask: RequestHandler = async (req, res) => {
       return res.status(404).json({ error: 'Task not found' });
     }
 
-    res.json(task);
+    const [withPeople] = await withTaskPeople([task]);
+    res.json(withPeople);
   } catch (error) {
     console.error('Error fetching task:', error);
     res.status(500).json({ error: 'Failed to fetch task' });
   }
 };
 
+// GET /api/tasks/:taskId/subtasks - List a task's subtasks, oldest first
+export const getSubtasks: RequestHandler = async (req, res) => {
+  try {
+    const taskId = parseInt(String(req.params.taskId));
+    const subtasks = await prisma.task.findMany({
+      where: { parentTaskId: taskId },
+      select: { id: true, title: true, status: true, priority: true, dueDate: true, projectId: true },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+    res.json(await withTaskPeople(subtasks));
+  } catch (error) {
+    console.error('Error fetching subtasks:', error);
+    res.status(500).json({ error: 'Failed to fetch subtasks' });
+  }
+};
+
 // POST /api/tasks - Create a new task
 export const createTask: RequestHandler = async (req: AuthRequest, res) => {
   try {
-    const { title, description, assignedUser, dueDate, status, priority, projectId } = req.body;
+    const { title, description, assigneeIds, watcherIds, dueDate, status, priority, projectId, sprintId, parentTaskId, recurrence } = req.body;
     const userId = req.user?.id?.toString() || 'system';
 
-    const statusValue = parseStatus(status) ?? 'todo';
     const projectIdValue: number | null = projectId ? parseInt(projectId) : null;
 
+    const workflow = projectIdValue ? await getProjectWorkflow(projectIdValue) : DEFAULT_WORKFLOW;
+    if (status && !findStatus(workflow, status)) {
+      return res.status(400).json(invalidStatus(status));
+    }
+    const statusValue: string = status || getInitialStatus(workflow);
+
+    const sprint = await resolveSprintId(sprintId, projectIdValue);
+    if ('error' in sprint) {
+      return res.status(400).json({ error: sprint.error });
+    }
+
+    const parent = await resolveParentTaskId(parentTaskId, projectIdValue);
+    if ('error' in parent) {
+      return res.status(400).json({ error: parent.error });
+    }
+
+    const recurrenceRule = recurrence === undefined ? { rule: null } : parseRecurrenceInput(recurrence, dueDate);
+    if ('error' in recurrenceRule) {
+      return res.status(400).json({ error: recurrenceRule.error });
+    }
+
+    const assignees = await resolveTaskPeopleIds(assigneeIds, projectIdValue, req.user!.id, 'assigneeIds');
+    if ('error' in assignees) {
+      return res.status(400).json({ error: assignees.error });
+    }
+    const watchers = await resolveTaskPeopleIds(watcherIds, projectIdValue, req.user!.id, 'watcherIds');
+    if ('error' in watchers) {
+      return res.status(400).json({ error: watchers.error });
+    }
+
     let nextPosition = 0;
     try {
       const last = await prisma.task.findFirst({
@@ -345,11 +496,13 @@ export const createTask: RequestHandler = async (req: AuthRequest, res) => {
         data: {
           title,
           description,
-          assignedUser,
           dueDate,
           status: statusValue,
           priority: priority || 'medium',
           project: projectIdValue ? { connect: { id: projectIdValue } } : undefined,
+          sprint: sprint.sprintId ? { connect: { id: sprint.sprintId } } : undefined,
+          parentTask: parent.parentTaskId ? { connect: { id: parent.parentTaskId } } : undefined,
+          recurrence: recurrenceRule.rule ? JSON.stringify(recurrenceRule.rule) : null,
           position: nextPosition,
         },
       } as any);
@@ -359,33 +512,32 @@ export const createTask: RequestHandler = async (req: AuthRequest, res) => {
         data: {
           title,
           description,
-          assignedUser,
           dueDate,
           status: statusValue,
           priority: priority || 'medium',
           project: projectIdValue ? { connect: { id: projectIdValue } } : undefined,
+          sprint: sprint.sprintId ? { connect: { id: sprint.sprintId } } : undefined,
+          parentTask: parent.parentTaskId ? { connect: { id: parent.parentTaskId } } : undefined,
+          recurrence: recurrenceRule.rule ? JSON.stringify(recurrenceRule.rule) : null,
         },
       } as any);
     }
 
+    if (assignees.userIds?.length) await setTaskPeople(task.id, 'assignees', assignees.userIds);
+    if (watchers.userIds?.length) await setTaskPeople(task.id, 'watchers', watchers.userIds);
+
     // Log task creation
     await logTaskCreation(task.id, task, userId);
+    await recordTaskCreated(task.id, req.user?.id);
 
-    // Notification: if assignedUser matches a user, notify them
-    const assignedTo = await resolveUserFromAssignee(assignedUser);
-    if (assignedTo) {
-      await createNotificationSafe({
-        userId: assignedTo.id,
-        type: 'TASK_ASSIGNED',
-        title: 'New task assigned',
-        body: title,
-        link: projectIdValue ? `/project/${projectIdValue}?task=${task.id}` : `/my-tasks?task=${task.id}`,
-      });
-    }
+    await notifyAssigned(task, assignees.userIds ?? [], req.user?.id, 'New task assigned');
 
-    emitToProject(projectIdValue, 'task:created', { task });
+    const [created] = await withTaskPeople([task]);
+    emitToProject(projectIdValue, 'task:created', { task: created });
+    await queueWebhookEvent(projectIdValue, 'task.created', { task: created });
+    await emitParentProgress(task.parentTaskId);
 
-    res.status(201).json(task);
+    res.status(201).json(created);
   } catch (error) {
     console.error('Error creating task:', error);
     const details = error instanceof Error ? error.message : String(error);
@@ -398,7 +550,7 @@ export const updateTask: RequestHandler = async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
     const taskId = Array.isArray(id) ? id[0] : id;
-    const { title, description, assignedUser, dueDate, status, priority, projectId, position } = req.body;
+    const { title, description, assigneeIds, watcherIds, dueDate, status, priority, projectId, position, sprintId, parentTaskId, recurrence } = req.body;
     const userId = req.user?.id?.toString() || 'system';
 
     // Fetch old task data
@@ -411,10 +563,89 @@ export const updateTask: RequestHandler = async (req: AuthRequest, res) => {
       return res.status(404).json({ error: 'Task not found' });
     }
 
-    const newStatus = status ? parseStatus(status) : null;
+    const projectIdValue: number | null = projectId === null ? null : projectId !== undefined ? parseInt(projectId) : undefined;
+    const isProjectChanged = projectIdValue !== undefined;
+
+    // Moving a task requires write access on the destination project as well
+    if (projectIdValue === null) {
+      return res.status(400).json({ error: 'A task must belong to a project' });
+    }
+    const isMovingProject = isProjectChanged && projectIdValue !== oldTask.projectId;
+    if (isMovingProject) {
+      const check = await checkProjectPermission(req.user!.id, projectIdValue, 'task:create');
+      if (check.allowed === false) {
+        return res.status(check.status).json(check.body);
+      }
+    }
+
+    const oldProjectId = oldTask.project?.id ?? null;
+    const targetProjectId = isProjectChanged ? projectIdValue : oldProjectId;
+
+    // Statuses are validated against the workflow of the project the task ends up in
+    const workflow = targetProjectId ? await getProjectWorkflow(targetProjectId) : DEFAULT_WORKFLOW;
+    let newStatus: string | null = null;
+    if (status) {
+      if (!findStatus(workflow, status)) {
+        return res.status(400).json(invalidStatus(status));
+      }
+      newStatus = status;
+    } else if (isMovingProject && !findStatus(workflow, oldTask.status)) {
+      newStatus = getInitialStatus(workflow);
+    }
     const isStatusChanged = newStatus !== null && newStatus !== oldTask.status;
 
-    if (isStatusChanged && newStatus === 'done') {
+    if (isStatusChanged && !isMovingProject && !canTransition(workflow, oldTask.status, newStatus!)) {
+      return res.status(400).json(transitionNotAllowed(workflow, oldTask.status, newStatus!));
+    }
+
+    // A task moved to another project leaves its old project's sprint; resending the
+    // current sprint is a no-op so finished tasks can still be edited after it closes
+    const isSameSprint = sprintId !== undefined && sprintId !== null && parseInt(String(sprintId)) === oldTask.sprintId;
+    const sprint = await resolveSprintId(
+      isMovingProject && oldTask.sprintId && (sprintId === undefined || isSameSprint)
+        ? null
+        : isSameSprint
+          ? undefined
+          : sprintId,
+      targetProjectId
+    );
+    if ('error' in sprint) {
+      return res.status(400).json({ error: sprint.error });
+    }
+
+    // Subtasks can't follow a task into another project, and neither can its parent link
+    const parent = await resolveParentTaskId(
+      isMovingProject && parentTaskId === undefined && oldTask.parentTaskId ? null : parentTaskId,
+      targetProjectId,
+      oldTask.id
+    );
+    if ('error' in parent) {
+      return res.status(400).json({ error: parent.error });
+    }
+
+    // A new rule starts a new series at the (new) due date
+    const nextDueDate = dueDate !== undefined ? dueDate : oldTask.dueDate;
+    let recurrenceValue: string | null | undefined = undefined;
+    if (recurrence !== undefined) {
+      const parsed = parseRecurrenceInput(recurrence, nextDueDate);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      recurrenceValue = parsed.rule ? JSON.stringify(parsed.rule) : null;
+    } else if (oldTask.recurrence && !nextDueDate) {
+      return res.status(400).json({ error: 'Recurring tasks need a due date' });
+    }
+
+    const assignees = await resolveTaskPeopleIds(assigneeIds, targetProjectId, req.user!.id, 'assigneeIds');
+    if ('error' in assignees) {
+      return res.status(400).json({ error: assignees.error });
+    }
+    const watchers = await resolveTaskPeopleIds(watcherIds, targetProjectId, req.user!.id, 'watcherIds');
+    if ('error' in watchers) {
+      return res.status(400).json({ error: watchers.error });
+    }
+
+    if (isStatusChanged && isDoneStatus(workflow, newStatus)) {
       try {
         await assertNotBlockedForDone(oldTask.id);
       } catch (error) {
@@ -423,12 +654,6 @@ export const updateTask: RequestHandler = async (req: AuthRequest, res) => {
       }
     }
 
-    const projectIdValue: number | null = projectId === null ? null : projectId !== undefined ? parseInt(projectId) : undefined;
-    const isProjectChanged = projectIdValue !== undefined;
-
-    const oldProjectId = oldTask.project?.id ?? null;
-    const targetProjectId = isProjectChanged ? projectIdValue : oldProjectId;
-
     let nextPosition: number | undefined = undefined;
     if (typeof position === 'number') {
       nextPosition = position;
@@ -437,7 +662,7 @@ export const updateTask: RequestHandler = async (req: AuthRequest, res) => {
         const last = await prisma.task.findFirst({
           where: {
             project: targetProjectId ? { is: { id: targetProjectId } } : undefined,
-            status: newStatus as TaskStatus,
+            status: newStatus as string,
           },
           orderBy: { position: 'desc' },
           select: { position: true },
@@ -451,13 +676,14 @@ export const updateTask: RequestHandler = async (req: AuthRequest, res) => {
       }
     }
 
+    const oldPeople = (await getTaskPeople([oldTask.id])).get(oldTask.id)!;
+
     // Update the task
-    const updatedTask = await prisma.task.update({
+    const taskUpdate = prisma.task.update({
       where: { id: parseInt(taskId) },
       data: {
         title,
         description,
-        assignedUser,
         dueDate,
         status: newStatus ?? undefined,
         priority,
@@ -467,51 +693,90 @@ export const updateTask: RequestHandler = async (req: AuthRequest, res) => {
             : projectIdValue === null
               ? { disconnect: true }
               : { connect: { id: projectIdValue } },
+        sprint:
+          sprint.sprintId === undefined
+            ? undefined
+            : sprint.sprintId === null
+              ? { disconnect: true }
+              : { connect: { id: sprint.sprintId } },
+        parentTask:
+          parent.parentTaskId === undefined
+            ? undefined
+            : parent.parentTaskId === null
+              ? { disconnect: true }
+              : { connect: { id: parent.parentTaskId } },
+        recurrence: recurrenceValue,
         position: nextPosition,
       },
     });
+    const [updatedTask] = isMovingProject
+      ? await prisma.$transaction([taskUpdate, ...leaveProjectOps([oldTask.id], projectIdValue)])
+      : [await taskUpdate];
+    const addedAssignees = assignees.userIds ? await setTaskPeople(updatedTask.id, 'assignees', assignees.userIds) : [];
+    if (watchers.userIds) await setTaskPeople(updatedTask.id, 'watchers', watchers.userIds);
+    const [taskWithPeople] = await withTaskPeople([updatedTask]);
+
+    // Its subtasks stay behind as top-level tasks of the old project
+    let detachedSubtasks: Awaited<ReturnType<typeof prisma.task.findMany>> = [];
+    if (isMovingProject) {
+      const subtasks = await prisma.task.findMany({ where: { parentTaskId: updatedTask.id }, select: { id: true } });
+      if (subtasks.length > 0) {
+        await prisma.task.updateMany({ where: { parentTaskId: updatedTask.id }, data: { parentTaskId: null } });
+        detachedSubtasks = await prisma.task.findMany({ where: { id: { in: subtasks.map((t) => t.id) } } });
+      }
+    }
 
     // Log changes
     await logTaskChanges(
       updatedTask.id,
       {
+        title: oldTask.title,
         priority: oldTask.priority,
         status: oldTask.status,
-        assignedUser: oldTask.assignedUser,
+        assignees: formatPeople(oldPeople.assignees),
         dueDate: oldTask.dueDate,
       },
       {
+        title: updatedTask.title,
         priority: updatedTask.priority,
         status: updatedTask.status,
-        assignedUser: updatedTask.assignedUser,
+        assignees: formatPeople(taskWithPeople.assignees),
         dueDate: updatedTask.dueDate,
       },
       userId
     );
 
-    // Notification: if assignee changed, notify new assignee
-    const oldAssignee = normalize(oldTask.assignedUser);
-    const newAssignee = normalize(assignedUser);
-    if (newAssignee && newAssignee !== oldAssignee) {
-      const assignedTo = await resolveUserFromAssignee(assignedUser);
-      if (assignedTo) {
-        await createNotificationSafe({
-          userId: assignedTo.id,
-          type: 'TASK_ASSIGNED',
-          title: 'Task assigned to you',
-          body: updatedTask.title,
-          link: oldTask.project?.id ? `/project/${oldTask.project.id}?task=${updatedTask.id}` : `/my-tasks?task=${updatedTask.id}`,
-        });
-      }
+    await notifyAssigned(updatedTask, addedAssignees, req.user?.id, 'Task assigned to you');
+    if (isStatusChanged) await notifyWatchersOfStatus([updatedTask.id], req.user?.id);
+
+    // Completing or reopening a subtask shows up in its parent's history
+    const oldWorkflow = isMovingProject && oldProjectId ? await getProjectWorkflow(oldProjectId) : workflow;
+    const wasDone = isDoneStatus(oldWorkflow, oldTask.status);
+    const isDone = isDoneStatus(workflow, updatedTask.status);
+    if (updatedTask.parentTaskId && updatedTask.parentTaskId === oldTask.parentTaskId && wasDone !== isDone) {
+      await logSubtaskCompletion(updatedTask.parentTaskId, updatedTask.title, isDone, userId);
     }
 
+    const [taskWithProgress] = await withTaskProgress([taskWithPeople]);
     const currentProjectId = updatedTask.projectId ?? oldTask.project?.id ?? null;
-    emitToProject(currentProjectId, 'task:updated', { task: updatedTask });
+    emitToProject(currentProjectId, 'task:updated', { task: taskWithProgress });
+    await queueWebhookEvent(currentProjectId, 'task.updated', { task: taskWithProgress });
     if (oldTask.project?.id && currentProjectId !== oldTask.project.id) {
-      emitToProject(oldTask.project.id, 'task:updated', { task: updatedTask });
+      emitToProject(oldTask.project.id, 'task:updated', { task: taskWithProgress });
+      for (const subtask of await withTaskPeople(await withTaskProgress(detachedSubtasks))) {
+        emitToProject(oldTask.project.id, 'task:updated', { task: subtask });
+      }
+    }
+    if (oldTask.parentTaskId !== updatedTask.parentTaskId || wasDone !== isDone) {
+      await emitParentProgress(oldTask.parentTaskId);
+      if (updatedTask.parentTaskId !== oldTask.parentTaskId) await emitParentProgress(updatedTask.parentTaskId);
+    }
+    if (!wasDone && isDone) {
+      await recordTasksCompleted([updatedTask.id], req.user?.id);
+      await spawnNextOccurrences([updatedTask.id]);
     }
 
-    res.json(updatedTask);
+    res.json(taskWithProgress);
   } catch (error) {
     console.error('Error updating task:', error);
     res.status(500).json({ error: 'Failed to update task' });
@@ -528,15 +793,50 @@ export const reorderTasks: RequestHandler = async (req: AuthRequest, res) => {
     }
 
     const { moves } = req.body as {
-      moves?: Array<{ id: number; status?: TaskStatus; position: number }>;
+      moves?: Array<{ id: number; status?: string; position: number }>;
     };
 
     if (!Array.isArray(moves) || moves.length === 0) {
       return res.status(400).json({ error: 'moves is required' });
     }
 
+    // Every moved task must exist and be editable by the caller
+    const movedTasks = await prisma.task.findMany({
+      where: { id: { in: moves.map((m) => m.id) } },
+      select: { id: true, projectId: true, status: true, title: true, parentTaskId: true },
+    });
+    if (movedTasks.length !== new Set(moves.map((m) => m.id)).size || movedTasks.some((t) => !t.projectId)) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    for (const projectId of new Set(movedTasks.map((t) => t.projectId as number))) {
+      const check = await checkProjectPermission(userId, projectId, 'task:edit');
+      if (check.allowed === false) {
+        return res.status(check.status).json(check.body);
+      }
+    }
+
+    // Every status change must exist in, and be allowed by, the task's project workflow
+    const workflows = await getProjectWorkflows(movedTasks.map((t) => t.projectId as number));
+    const movingToDone: number[] = [];
+    const subtaskChanges: Array<{ parentTaskId: number; title: string; done: boolean }> = [];
+    for (const move of moves) {
+      const task = movedTasks.find((t) => t.id === move.id)!;
+      if (!move.status || move.status === task.status) continue;
+
+      const workflow = workflows.get(task.projectId as number)!;
+      if (!findStatus(workflow, move.status)) {
+        return res.status(400).json(invalidStatus(move.status));
+      }
+      if (!canTransition(workflow, task.status, move.status)) {
+        return res.status(400).json(transitionNotAllowed(workflow, task.status, move.status));
+      }
+      if (isDoneStatus(workflow, move.status)) movingToDone.push(move.id);
+      if (task.parentTaskId && isDoneStatus(workflow, move.status) !== isDoneStatus(workflow, task.status)) {
+        subtaskChanges.push({ parentTaskId: task.parentTaskId, title: task.title, done: isDoneStatus(workflow, move.status) });
+      }
+    }
+
     // Hard-block: prevent moving to done if blocked
-    const movingToDone = moves.filter((m) => m.status === 'done').map((m) => m.id);
     if (movingToDone.length > 0) {
       try {
         for (const id of movingToDone) {
@@ -577,6 +877,27 @@ export const reorderTasks: RequestHandler = async (req: AuthRequest, res) => {
       emitToProject(projectId, 'task:reordered', { tasks: items });
     }
 
+    // Reordering within a column isn't an update worth announcing; status changes are
+    const statusChanged = moves
+      .filter((m) => m.status && m.status !== movedTasks.find((t) => t.id === m.id)!.status)
+      .map((m) => m.id);
+    if (statusChanged.length > 0) {
+      const changed = await prisma.task.findMany({ where: { id: { in: statusChanged } } });
+      for (const task of await withTaskPeople(await withTaskProgress(changed))) {
+        await queueWebhookEvent(task.projectId, 'task.updated', { task });
+      }
+    }
+
+    for (const change of subtaskChanges) {
+      await logSubtaskCompletion(change.parentTaskId, change.title, change.done, String(userId));
+    }
+    for (const parentTaskId of new Set(subtaskChanges.map((c) => c.parentTaskId))) {
+      await emitParentProgress(parentTaskId);
+    }
+    await recordTasksCompleted(movingToDone, userId);
+    await spawnNextOccurrences(movingToDone);
+    await notifyWatchersOfStatus(statusChanged, userId);
+
     res.json({ ok: true });
   } catch (error) {
     console.error('Error reordering tasks:', error);
@@ -584,6 +905,293 @@ export const reorderTasks: RequestHandler = async (req: AuthRequest, res) => {
   }
 };
 
+// One realtime event per project for a bulk change, so boards re-render once
+const emitBulkUpdate = (tasks: Array<{ projectId: number | null }>, deletedIds: Map<number, number[]>, extraProjectIds: number[] = []) => {
+  const projectIds = new Set([
+    ...tasks.map((t) => t.projectId).filter((id): id is number => id !== null),
+    ...deletedIds.keys(),
+    ...extraProjectIds,
+  ]);
+  for (const projectId of projectIds) {
+    // Tasks that moved away are sent to their old project too, which drops them from its board
+    emitToProject(projectId, 'tasks:bulk-updated', { tasks, deletedIds: deletedIds.get(projectId) ?? [] });
+  }
+};
+
+// Board payloads carry labels flattened to the label itself
+const withLabels = async (taskIds: number[]) => {
+  const tasks = await prisma.task.findMany({
+    where: { id: { in: taskIds } },
+    include: { labels: { include: { label: true } } },
+  });
+  const flattened = tasks.map((t) => ({ ...t, labels: t.labels.map((tl) => tl.label) }));
+  return withTaskPeople(await withTaskProgress(flattened));
+};
+
+// POST /api/tasks/bulk - Apply one change to many tasks in a single transaction
+// Body: { taskIds, changes: { status?, priority?, dueDate?, assigneeIds?, addLabelIds?, removeLabelIds?, projectId? } }
+// or { taskIds, delete: true }. Nothing changes unless every task passes validation.
+export const bulkUpdateTasks: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const actorId = req.user!.id;
+    const userId = String(actorId);
+
+    const parsed = parseBulkTaskInput(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const { input } = parsed;
+
+    const tasks = await prisma.task.findMany({ where: { id: { in: input.taskIds } } });
+    if (tasks.length !== input.taskIds.length || tasks.some((t) => !t.projectId)) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    const selected = new Set(input.taskIds);
+
+    for (const projectId of new Set(tasks.map((t) => t.projectId as number))) {
+      const check = await checkProjectPermission(actorId, projectId, input.delete ? 'task:delete' : 'task:edit');
+      if (check.allowed === false) {
+        return res.status(check.status).json(check.body);
+      }
+    }
+
+    if (input.delete) {
+      // Subtasks left behind become top-level tasks, as with a single delete
+      const orphans = await prisma.task.findMany({
+        where: { parentTaskId: { in: input.taskIds }, id: { notIn: input.taskIds } },
+        select: { id: true },
+      });
+      await revokeTaskXp(input.taskIds);
+      await prisma.task.deleteMany({ where: { id: { in: input.taskIds } } });
+
+      const deletedIds = new Map<number, number[]>();
+      for (const task of tasks) {
+        deletedIds.set(task.projectId!, [...(deletedIds.get(task.projectId!) ?? []), task.id]);
+      }
+      emitBulkUpdate(await withLabels(orphans.map((t) => t.id)), deletedIds);
+
+      for (const task of tasks) {
+        await queueWebhookEvent(task.projectId, 'task.deleted', { task: { id: task.id, title: task.title } });
+      }
+      for (const parentTaskId of new Set(tasks.map((t) => t.parentTaskId))) {
+        if (parentTaskId && !selected.has(parentTaskId)) await emitParentProgress(parentTaskId);
+      }
+
+      return res.json({ tasks: [], deletedIds: input.taskIds });
+    }
+
+    const { changes } = input;
+    const targetProjectId = changes.projectId;
+    if (targetProjectId !== undefined) {
+      const check = await checkProjectPermission(actorId, targetProjectId, 'task:create');
+      if (check.allowed === false) {
+        return res.status(check.status).json(check.body);
+      }
+    }
+    const projectOf = (task: { projectId: number | null }) => targetProjectId ?? (task.projectId as number);
+
+    const workflows = await getProjectWorkflows([
+      ...tasks.map((t) => t.projectId as number),
+      ...(targetProjectId !== undefined ? [targetProjectId] : []),
+    ]);
+
+    const assigneesByProject = new Map<number, number[] | undefined>();
+    for (const projectId of new Set(tasks.map(projectOf))) {
+      const people = await resolveTaskPeopleIds(changes.assigneeIds, projectId, actorId, 'assigneeIds');
+      if ('error' in people) {
+        return res.status(400).json({ error: people.error });
+      }
+      assigneesByProject.set(projectId, people.userIds);
+    }
+
+    if (changes.addLabelIds?.length) {
+      const labels = await prisma.label.findMany({
+        where: { id: { in: changes.addLabelIds } },
+        select: { projectId: true },
+      });
+      if (labels.length !== changes.addLabelIds.length || tasks.some((t) => labels.some((l) => l.projectId !== projectOf(t)))) {
+        return res.status(400).json({ error: "Labels must belong to every selected task's project" });
+      }
+    }
+
+    // Work out each task's new status the same way a single update would
+    const plans = [];
+    for (const task of tasks) {
+      const projectId = projectOf(task);
+      const moving = projectId !== task.projectId;
+      const workflow = workflows.get(projectId)!;
+
+      let status = task.status;
+      if (changes.status) {
+        if (!findStatus(workflow, changes.status)) {
+          return res.status(400).json(invalidStatus(changes.status));
+        }
+        status = changes.status;
+      } else if (moving && !findStatus(workflow, task.status)) {
+        status = getInitialStatus(workflow);
+      }
+      if (status !== task.status && !moving && !canTransition(workflow, task.status, status)) {
+        return res.status(400).json({ ...transitionNotAllowed(workflow, task.status, status), taskId: task.id });
+      }
+      if (changes.dueDate === null && task.recurrence) {
+        return res.status(400).json({ error: `"${task.title}" repeats, so it needs a due date`, taskId: task.id });
+      }
+
+      const wasDone = isDoneStatus(workflows.get(task.projectId as number)!, task.status);
+      const isDone = isDoneStatus(workflow, status);
+      if (status !== task.status && isDone) {
+        try {
+          await assertNotBlockedForDone(task.id);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Task is blocked';
+          return res
+            .status(400)
+            .json({ error: `"${task.title}": ${message}`, code: (error as any)?.code ?? 'TASK_BLOCKED', taskId: task.id });
+        }
+      }
+
+      plans.push({ task, projectId, moving, status, wasDone, isDone });
+    }
+
+    // Tasks that change column go to the bottom of it, in the order they were selected
+    const columnEnds = new Map<string, number>();
+    const columns = await prisma.task.groupBy({
+      by: ['projectId', 'status'],
+      where: { projectId: { in: Array.from(new Set(plans.map((p) => p.projectId))) } },
+      _max: { position: true },
+    });
+    for (const column of columns) columnEnds.set(`${column.projectId}:${column.status}`, column._max.position ?? 0);
+    const nextPosition = (projectId: number, status: string) => {
+      const key = `${projectId}:${status}`;
+      const position = (columnEnds.get(key) ?? 0) + 1;
+      columnEnds.set(key, position);
+      return position;
+    };
+
+    const oldPeople = await getTaskPeople(input.taskIds);
+    const newAssigneeIds = new Set(Array.from(assigneesByProject.values()).flatMap((ids) => ids ?? []));
+    const assigneeUsers = new Map(
+      (await prisma.user.findMany({ where: { id: { in: Array.from(newAssigneeIds) } }, select: { id: true, name: true, email: true } }))
+        .map((u) => [u.id, u])
+    );
+    const existingLabels = changes.addLabelIds?.length
+      ? await prisma.taskLabel.findMany({
+          where: { taskId: { in: input.taskIds }, labelId: { in: changes.addLabelIds } },
+          select: { taskId: true, labelId: true },
+        })
+      : [];
+
+    // People who can stay on tasks moved into the target project
+    const targetMembers = new Set<number>();
+    if (targetProjectId !== undefined) {
+      const target = await prisma.project.findUnique({
+        where: { id: targetProjectId },
+        select: { ownerId: true, members: { select: { userId: true } } },
+      });
+      if (target) [target.ownerId, ...target.members.map((m) => m.userId)].forEach((id) => targetMembers.add(id));
+    }
+
+    const ops: Prisma.PrismaPromise<unknown>[] = [];
+    const addedAssignees = new Map<number, number[]>();
+    const movingIds = new Set(plans.filter((p) => p.moving).map((p) => p.task.id));
+    for (const { task, projectId, moving, status } of plans) {
+      const statusChanged = status !== task.status;
+      ops.push(
+        prisma.task.update({
+          where: { id: task.id },
+          data: {
+            status,
+            priority: changes.priority,
+            dueDate: changes.dueDate,
+            projectId: moving ? projectId : undefined,
+            // Sprints belong to one project; a parent link survives only if the parent moves too
+            sprintId: moving ? null : undefined,
+            parentTaskId: moving && task.parentTaskId && !movingIds.has(task.parentTaskId) ? null : undefined,
+            position: statusChanged || moving ? nextPosition(projectId, status) : undefined,
+          },
+        })
+      );
+
+      const people = oldPeople.get(task.id)!;
+      const assigneeIds = assigneesByProject.get(projectId);
+      let assignees = moving ? people.assignees.filter((p) => targetMembers.has(p.id)) : people.assignees;
+      if (assigneeIds) {
+        const added = assigneeIds.filter((id) => !people.assignees.some((p) => p.id === id));
+        addedAssignees.set(task.id, added);
+        assignees = [...people.assignees.filter((p) => assigneeIds.includes(p.id)), ...added.map((id) => assigneeUsers.get(id)!)];
+        ops.push(prisma.taskAssignee.deleteMany({ where: { taskId: task.id, userId: { notIn: assigneeIds } } }));
+        ops.push(prisma.taskAssignee.createMany({ data: added.map((id) => ({ taskId: task.id, userId: id })) }));
+      }
+
+      const logs = buildTaskChangeLogs(
+        task.id,
+        { priority: task.priority, status: task.status, assignees: formatPeople(people.assignees), dueDate: task.dueDate ?? '' },
+        {
+          priority: changes.priority ?? task.priority,
+          status,
+          assignees: formatPeople(assignees),
+          dueDate: (changes.dueDate === undefined ? task.dueDate : changes.dueDate) ?? '',
+        },
+        userId
+      );
+      if (logs.length > 0) ops.push(prisma.activityLog.createMany({ data: logs }));
+    }
+
+    if (changes.addLabelIds?.length) {
+      const rows = input.taskIds.flatMap((taskId) =>
+        changes.addLabelIds!
+          .filter((labelId) => !existingLabels.some((l) => l.taskId === taskId && l.labelId === labelId))
+          .map((labelId) => ({ taskId, labelId }))
+      );
+      ops.push(prisma.taskLabel.createMany({ data: rows }));
+    }
+    if (changes.removeLabelIds?.length) {
+      ops.push(prisma.taskLabel.deleteMany({ where: { taskId: { in: input.taskIds }, labelId: { in: changes.removeLabelIds } } }));
+    }
+
+    if (movingIds.size > 0) ops.push(...leaveProjectOps(Array.from(movingIds), targetProjectId!));
+
+    // Subtasks that stay behind become top-level tasks of the old project
+    const detached = movingIds.size
+      ? await prisma.task.findMany({
+          where: { parentTaskId: { in: Array.from(movingIds) }, id: { notIn: Array.from(movingIds) } },
+          select: { id: true },
+        })
+      : [];
+    if (detached.length > 0) {
+      ops.push(prisma.task.updateMany({ where: { id: { in: detached.map((t) => t.id) } }, data: { parentTaskId: null } }));
+    }
+
+    await prisma.$transaction(ops);
+
+    const updated = await withLabels([...input.taskIds, ...detached.map((t) => t.id)]);
+    const byId = new Map(updated.map((t) => [t.id, t]));
+    emitBulkUpdate(updated, new Map(), Array.from(new Set(tasks.map((t) => t.projectId as number))));
+
+    for (const { task, projectId, moving, wasDone, isDone } of plans) {
+      await notifyAssigned({ ...task, projectId }, addedAssignees.get(task.id) ?? [], actorId, 'Task assigned to you');
+      await queueWebhookEvent(projectId, 'task.updated', { task: byId.get(task.id) });
+      if (task.parentTaskId && !moving && wasDone !== isDone) {
+        await logSubtaskCompletion(task.parentTaskId, task.title, isDone, userId);
+      }
+    }
+    await notifyWatchersOfStatus(plans.filter((p) => p.status !== p.task.status).map((p) => p.task.id), actorId);
+    for (const parentTaskId of new Set(
+      plans.filter((p) => p.moving || p.wasDone !== p.isDone).map((p) => p.task.parentTaskId)
+    )) {
+      if (parentTaskId && !selected.has(parentTaskId)) await emitParentProgress(parentTaskId);
+    }
+    const completed = plans.filter((p) => !p.wasDone && p.isDone).map((p) => p.task.id);
+    await recordTasksCompleted(completed, actorId);
+    await spawnNextOccurrences(completed);
+
+    res.json({ tasks: input.taskIds.map((id) => byId.get(id)), deletedIds: [] });
+  } catch (error) {
+    console.error('Error applying bulk task changes:', error);
+    res.status(500).json({ error: 'Failed to update tasks' });
+  }
+};
+
 // DELETE /api/tasks/:id - Delete a task
 export const deleteTask: RequestHandler = async (req, res) => {
   try {
@@ -592,15 +1200,26 @@ export const deleteTask: RequestHandler = async (req, res) => {
 
     const existing = await prisma.task.findUnique({
       where: { id: parseInt(taskId) },
-      select: { id: true, projectId: true },
+      select: { id: true, title: true, projectId: true, parentTaskId: true, subtasks: { select: { id: true } } },
     });
 
+    if (existing) await revokeTaskXp([existing.id]);
     await prisma.task.delete({
       where: { id: parseInt(taskId) },
     });
 
     if (existing?.projectId) {
       emitToProject(existing.projectId, 'task:deleted', { taskId: existing.id });
+      await queueWebhookEvent(existing.projectId, 'task.deleted', { task: { id: existing.id, title: existing.title } });
+      await emitParentProgress(existing.parentTaskId);
+
+      // Subtasks of a deleted task become top-level tasks
+      if (existing.subtasks.length > 0) {
+        const detached = await prisma.task.findMany({ where: { id: { in: existing.subtasks.map((t) => t.id) } } });
+        for (const task of await withTaskPeople(await withTaskProgress(detached))) {
+          emitToProject(existing.projectId, 'task:updated', { task });
+        }
+      }
     }
 
     res.status(204).send();
@@ -609,3 +1228,33 @@ export const deleteTask: RequestHandler = async (req, res) => {
     res.status(500).json({ error: 'Failed to delete task' });
   }
 };
+
+// POST /api/tasks/:taskId/watch - Watch a task; DELETE stops watching. Anyone who can see a task can watch it.
+const setWatching = (watching: boolean): RequestHandler => async (req: AuthRequest, res) => {
+  try {
+    const userId = req.user!.id;
+    const taskId = parseInt(String(req.params.taskId));
+
+    if (watching) {
+      await prisma.taskWatcher.upsert({
+        where: { taskId_userId: { taskId, userId } },
+        create: { taskId, userId },
+        update: {},
+      });
+    } else {
+      await prisma.taskWatcher.deleteMany({ where: { taskId, userId } });
+    }
+
+    const task = await prisma.task.findUnique({ where: { id: taskId } });
+    const [withProgress] = await withTaskPeople(await withTaskProgress([task!]));
+    emitToProject(task!.projectId, 'task:updated', { task: withProgress });
+
+    res.json(withProgress);
+  } catch (error) {
+    console.error('Error updating task watchers:', error);
+    res.status(500).json({ error: 'Failed to update watchers' });
+  }
+};
+
+export const watchTask = setWatching(true);
+export const unwatchTask = setWatching(false);
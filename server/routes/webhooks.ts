@@ -0,0 +1,178 @@
+import { RequestHandler } from 'express';
+import { prisma } from '../prisma';
+import { AuthRequest } from '../middleware/authorize';
+import {
+  generateWebhookSecret,
+  parseWebhookEvents,
+  parseWebhookInput,
+  processDueDeliveries,
+  redeliver,
+} from '../services/webhooks';
+
+const DELIVERY_LOG_LIMIT = 50;
+
+const deliverySelect = {
+  id: true,
+  event: true,
+  status: true,
+  attempts: true,
+  nextAttemptAt: true,
+  lastAttemptAt: true,
+  responseStatus: true,
+  responseBody: true,
+  error: true,
+  createdAt: true,
+} as const;
+
+// Stored events are a JSON string; clients get the array
+const serialize = <T extends { events: string }>(webhook: T) => ({
+  ...webhook,
+  events: parseWebhookEvents(webhook.events),
+});
+
+// Webhooks are looked up within the project from the URL, so ids from other projects 404
+const findWebhook = (req: AuthRequest) =>
+  prisma.webhook.findFirst({
+    where: { id: parseInt(String(req.params.webhookId)), projectId: req.projectId! },
+  });
+
+// GET /api/projects/:projectId/webhooks - List the project's webhooks with their latest delivery
+export const getWebhooks: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const webhooks = await prisma.webhook.findMany({
+      where: { projectId: req.projectId! },
+      include: { deliveries: { select: deliverySelect, orderBy: { id: 'desc' }, take: 1 } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json(
+      webhooks.map(({ deliveries, ...webhook }) => ({ ...serialize(webhook), lastDelivery: deliveries[0] ?? null }))
+    );
+  } catch (error) {
+    console.error('Error fetching webhooks:', error);
+    res.status(500).json({ error: 'Failed to fetch webhooks' });
+  }
+};
+
+// POST /api/projects/:projectId/webhooks - Subscribe a URL to events. Body: { url, events, active? }
+export const createWebhook: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const parsed = parseWebhookInput(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const webhook = await prisma.webhook.create({
+      data: {
+        projectId: req.projectId!,
+        url: parsed.input.url!,
+        events: JSON.stringify(parsed.input.events),
+        active: parsed.input.active ?? true,
+        secret: generateWebhookSecret(),
+        createdById: req.user!.id,
+      },
+    });
+
+    res.status(201).json({ ...serialize(webhook), lastDelivery: null });
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+    res.status(500).json({ error: 'Failed to create webhook' });
+  }
+};
+
+// PATCH /api/projects/:projectId/webhooks/:webhookId - Change the URL or events, pause/resume, or
+// rotate the secret. Body: { url?, events?, active?, rotateSecret? }
+export const updateWebhook: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const existing = await findWebhook(req);
+    if (!existing) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const parsed = parseWebhookInput(req.body, true);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const { url, events, active } = parsed.input;
+    const webhook = await prisma.webhook.update({
+      where: { id: existing.id },
+      data: {
+        url,
+        events: events ? JSON.stringify(events) : undefined,
+        active,
+        secret: req.body?.rotateSecret === true ? generateWebhookSecret() : undefined,
+      },
+    });
+
+    // Resuming a webhook sends whatever queued up while it was paused
+    if (active && !existing.active) void processDueDeliveries();
+
+    res.json(serialize(webhook));
+  } catch (error) {
+    console.error('Error updating webhook:', error);
+    res.status(500).json({ error: 'Failed to update webhook' });
+  }
+};
+
+// DELETE /api/projects/:projectId/webhooks/:webhookId - Remove a webhook and its delivery log
+export const deleteWebhook: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const existing = await findWebhook(req);
+    if (!existing) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    await prisma.webhook.delete({ where: { id: existing.id } });
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    res.status(500).json({ error: 'Failed to delete webhook' });
+  }
+};
+
+// GET /api/projects/:projectId/webhooks/:webhookId/deliveries - Most recent deliveries, newest first
+export const getWebhookDeliveries: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const existing = await findWebhook(req);
+    if (!existing) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: { webhookId: existing.id },
+      select: { ...deliverySelect, payload: true },
+      orderBy: { id: 'desc' },
+      take: DELIVERY_LOG_LIMIT,
+    });
+
+    res.json(deliveries);
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    res.status(500).json({ error: 'Failed to fetch deliveries' });
+  }
+};
+
+// POST /api/projects/:projectId/webhooks/:webhookId/deliveries/:deliveryId/redeliver - Send an
+// earlier payload again as a new delivery
+export const redeliverWebhookDelivery: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const existing = await findWebhook(req);
+    if (!existing) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const delivery = await prisma.webhookDelivery.findFirst({
+      where: { id: parseInt(String(req.params.deliveryId)), webhookId: existing.id },
+    });
+    if (!delivery) {
+      return res.status(404).json({ error: 'Delivery not found' });
+    }
+
+    const created = await redeliver(delivery);
+    res.status(201).json(created);
+  } catch (error) {
+    console.error('Error redelivering webhook:', error);
+    res.status(500).json({ error: 'Failed to redeliver' });
+  }
+};
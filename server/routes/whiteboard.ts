@@ -1,83 +1,107 @@
 import { RequestHandler } from 'express';
 import { prisma } from '../prisma';
 import { AuthRequest } from '../middleware/authorize';
+import {
+  MAX_SNAPSHOT_NAME_LENGTH,
+  getBoardState,
+  restoreBoardSnapshot,
+  saveNamedSnapshot,
+  snapshotSelect,
+} from '../services/whiteboardSync';
+
+// Boards are edited over the /whiteboard socket namespace; these routes read them and manage snapshots
+
+const readId = (value: string | string[]) => parseInt(Array.isArray(value) ? value[0] : value);
 
 /**
  * GET /api/whiteboard/:projectId
- * Fetch whiteboard state for a project
+ * The board as it is now: its tldraw records, their schema, and the number of the last change
  */
 export const getWhiteboard: RequestHandler = async (req, res) => {
   try {
-    const { projectId } = req.params;
-    const projectIdInt = parseInt(Array.isArray(projectId) ? projectId[0] : projectId);
+    const projectId = readId(req.params.projectId);
+    res.json({ projectId, ...(await getBoardState(projectId)) });
+  } catch (error) {
+    console.error('Error fetching whiteboard:', error);
+    res.status(500).json({ error: 'Failed to fetch whiteboard' });
+  }
+};
 
-    // Find or create whiteboard for this project
-    let whiteboard = await prisma.whiteboard.findUnique({
-      where: { projectId: projectIdInt },
+// GET /api/whiteboard/:projectId/snapshots - Saved snapshots, newest first, without their records
+export const getWhiteboardSnapshots: RequestHandler = async (req, res) => {
+  try {
+    const snapshots = await prisma.whiteboardSnapshot.findMany({
+      where: { whiteboard: { projectId: readId(req.params.projectId) } },
+      orderBy: [{ clock: 'desc' }, { id: 'desc' }],
+      select: snapshotSelect,
     });
+    res.json(snapshots);
+  } catch (error) {
+    console.error('Error fetching whiteboard snapshots:', error);
+    res.status(500).json({ error: 'Failed to fetch whiteboard snapshots' });
+  }
+};
 
-    if (!whiteboard) {
-      // Create a new whiteboard with empty state
-      whiteboard = await prisma.whiteboard.create({
-        data: {
-          projectId: projectIdInt,
-          data: '{}',
-        },
-      });
+// GET /api/whiteboard/:projectId/snapshots/:snapshotId - One snapshot with its records, for previewing
+export const getWhiteboardSnapshot: RequestHandler = async (req, res) => {
+  try {
+    const snapshot = await prisma.whiteboardSnapshot.findFirst({
+      where: { id: readId(req.params.snapshotId), whiteboard: { projectId: readId(req.params.projectId) } },
+      select: { ...snapshotSelect, records: true, schema: true },
+    });
+    if (!snapshot) {
+      return res.status(404).json({ error: 'Snapshot not found' });
     }
-
     res.json({
-      projectId: whiteboard.projectId,
-      data: whiteboard.data,
-      updatedAt: whiteboard.updatedAt,
+      ...snapshot,
+      records: JSON.parse(snapshot.records),
+      schema: snapshot.schema ? JSON.parse(snapshot.schema) : null,
     });
   } catch (error) {
-    console.error('Error fetching whiteboard:', error);
-    res.status(500).json({ error: 'Failed to fetch whiteboard' });
+    console.error('Error fetching whiteboard snapshot:', error);
+    res.status(500).json({ error: 'Failed to fetch whiteboard snapshot' });
   }
 };
 
-/**
- * POST /api/whiteboard/:projectId
- * Save whiteboard state for a project
- */
-export const saveWhiteboard: RequestHandler = async (req, res) => {
+// POST /api/whiteboard/:projectId/snapshots - Body: { name }. Keep the board as it is now under a name
+export const createWhiteboardSnapshot: RequestHandler = async (req: AuthRequest, res) => {
   try {
-    const { projectId } = req.params;
-    const { data } = req.body;
-    const projectIdInt = parseInt(Array.isArray(projectId) ? projectId[0] : projectId);
-
-    if (!data) {
-      return res.status(400).json({ error: 'Whiteboard data is required' });
+    const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+    if (!name) {
+      return res.status(400).json({ error: 'Give the snapshot a name' });
     }
-
-    // Validate that data is valid JSON string
-    let jsonData: string;
-    if (typeof data === 'string') {
-      jsonData = data;
-    } else {
-      jsonData = JSON.stringify(data);
+    if (name.length > MAX_SNAPSHOT_NAME_LENGTH) {
+      return res.status(400).json({ error: `Snapshot names can be at most ${MAX_SNAPSHOT_NAME_LENGTH} characters` });
     }
 
-    // Upsert whiteboard (create if doesn't exist, update if exists)
-    const whiteboard = await prisma.whiteboard.upsert({
-      where: { projectId: projectIdInt },
-      update: {
-        data: jsonData,
-      },
-      create: {
-        projectId: projectIdInt,
-        data: jsonData,
-      },
-    });
+    const snapshot = await saveNamedSnapshot(req.projectId!, name, req.user!.id);
+    if (!snapshot) {
+      return res.status(500).json({ error: 'Failed to save snapshot' });
+    }
+    res.status(201).json(snapshot);
+  } catch (error) {
+    console.error('Error creating whiteboard snapshot:', error);
+    res.status(500).json({ error: 'Failed to save snapshot' });
+  }
+};
 
-    res.json({
-      message: 'Whiteboard saved successfully',
-      projectId: whiteboard.projectId,
-      updatedAt: whiteboard.updatedAt,
-    });
+/**
+ * POST /api/whiteboard/:projectId/snapshots/:snapshotId/restore
+ * Put the board back the way a snapshot has it. Everyone with the board open gets the change,
+ * and the restored board is kept as a new snapshot.
+ */
+export const restoreWhiteboardSnapshot: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const snapshot = await restoreBoardSnapshot(req.projectId!, readId(req.params.snapshotId), req.user!.id);
+    if (snapshot === undefined) {
+      return res.status(404).json({ error: 'Snapshot not found' });
+    }
+    if (!snapshot) {
+      return res.status(500).json({ error: 'Failed to restore snapshot' });
+    }
+    res.json(snapshot);
   } catch (error) {
-    console.error('Error saving whiteboard:', error);
-    res.status(500).json({ error: 'Failed to save whiteboard' });
+    console.error('Error restoring whiteboard snapshot:', error);
+    res.status(500).json({ error: 'Failed to restore snapshot' });
   }
 };
@@ -0,0 +1,61 @@
+import { RequestHandler } from 'express';
+import { prisma } from '../prisma';
+import { AuthRequest } from '../middleware/authorize';
+import { getIO } from '../realtime';
+import { getProjectWorkflow, parseWorkflowInput, replaceProjectWorkflow } from '../services/workflow';
+
+// GET /api/projects/:projectId/workflow - Get the project's statuses in board order
+export const getWorkflow: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const statuses = await getProjectWorkflow(req.projectId!);
+    res.json({ projectId: req.projectId, statuses });
+  } catch (error) {
+    console.error('Error fetching workflow:', error);
+    res.status(500).json({ error: 'Failed to fetch workflow' });
+  }
+};
+
+// PUT /api/projects/:projectId/workflow - Replace the project's statuses
+// Body: { statuses: [{ key?, name, color?, isDone?, transitions? }], remap?: { [removedKey]: newKey } }
+export const updateWorkflow: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const projectId = req.projectId!;
+    const parsed = parseWorkflowInput(req.body?.statuses);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const keys = new Set(parsed.statuses.map((s) => s.key));
+    const remap: Record<string, string> = {};
+    for (const [from, to] of Object.entries(req.body?.remap ?? {})) {
+      if (typeof to !== 'string' || !keys.has(to)) {
+        return res.status(400).json({ error: `Cannot move tasks from "${from}" to unknown status "${to}"` });
+      }
+      if (!keys.has(from)) remap[from] = to;
+    }
+
+    // Tasks must never be left in a status the board can't show
+    const inUse = await prisma.task.groupBy({
+      by: ['status'],
+      where: { projectId },
+      _count: { _all: true },
+    });
+    const orphaned = inUse.filter((g) => !keys.has(g.status) && !remap[g.status]);
+    if (orphaned.length > 0) {
+      return res.status(409).json({
+        error: 'Some removed statuses still have tasks; choose where to move them',
+        code: 'STATUS_IN_USE',
+        statuses: Object.fromEntries(orphaned.map((g) => [g.status, g._count._all])),
+      });
+    }
+
+    const statuses = await replaceProjectWorkflow(projectId, parsed.statuses, remap);
+
+    getIO()?.to(`project:${projectId}`).emit('workflow:updated', { projectId, statuses });
+
+    res.json({ projectId, statuses });
+  } catch (error) {
+    console.error('Error updating workflow:', error);
+    res.status(500).json({ error: 'Failed to update workflow' });
+  }
+};
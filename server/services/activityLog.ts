@@ -1,20 +1,21 @@
 import { prisma } from '../prisma';
 
 // Fields that should be tracked for changes
-const TRACKED_FIELDS = ['priority', 'status', 'assignedUser', 'dueDate'] as const;
+const TRACKED_FIELDS = ['title', 'priority', 'status', 'assignees', 'dueDate'] as const;
 type TrackedField = typeof TRACKED_FIELDS[number];
 
 interface TaskData {
+  title?: string;
   priority?: string;
   status?: string;
-  assignedUser?: string;
+  assignees?: string; // names, see formatPeople in services/taskPeople
   dueDate?: string;
 }
 
 /**
- * Creates activity log entries for changed fields
+ * Activity log rows for the fields that changed, without writing them
  */
-export async function logTaskChanges(
+export function buildTaskChangeLogs(
   taskId: number,
   oldData: TaskData,
   newData: TaskData,
@@ -28,7 +29,7 @@ export async function logTaskChanges(
 
     // Only log if the value actually changed
     if (oldValue !== newValue && newValue !== undefined) {
-      const actionType = `UPDATED_${field.toUpperCase().replace('USER', 'ASSIGNEE')}`;
+      const actionType = field === 'assignees' ? 'UPDATED_ASSIGNEE' : `UPDATED_${field.toUpperCase()}`;
       
       logs.push({
         taskId,
@@ -41,6 +42,20 @@ export async function logTaskChanges(
     }
   }
 
+  return logs;
+}
+
+/**
+ * Creates activity log entries for changed fields
+ */
+export async function logTaskChanges(
+  taskId: number,
+  oldData: TaskData,
+  newData: TaskData,
+  userId: string = 'system'
+) {
+  const logs = buildTaskChangeLogs(taskId, oldData, newData, userId);
+
   // Bulk create all logs at once
   if (logs.length > 0) {
     await prisma.activityLog.createMany({
@@ -71,6 +86,48 @@ export async function logTaskCreation(
   });
 }
 
+/**
+ * Logs a checklist item being ticked off or reopened
+ */
+export async function logChecklistCompletion(
+  taskId: number,
+  itemText: string,
+  done: boolean,
+  userId: string = 'system'
+) {
+  await prisma.activityLog.create({
+    data: {
+      taskId,
+      userId,
+      actionType: done ? 'COMPLETED_CHECKLIST_ITEM' : 'REOPENED_CHECKLIST_ITEM',
+      fieldName: 'checklist',
+      oldValue: null,
+      newValue: itemText,
+    },
+  });
+}
+
+/**
+ * Logs a subtask being completed or reopened on its parent task
+ */
+export async function logSubtaskCompletion(
+  parentTaskId: number,
+  subtaskTitle: string,
+  done: boolean,
+  userId: string = 'system'
+) {
+  await prisma.activityLog.create({
+    data: {
+      taskId: parentTaskId,
+      userId,
+      actionType: done ? 'COMPLETED_SUBTASK' : 'REOPENED_SUBTASK',
+      fieldName: 'subtask',
+      oldValue: null,
+      newValue: subtaskTitle,
+    },
+  });
+}
+
 /**
  * Get activity logs for a specific task
  */
@@ -92,9 +149,11 @@ export function formatLogMessage(log: {
   userId: string;
 }): string {
   const fieldLabels: Record<string, string> = {
+    title: 'title',
     priority: 'priority',
     status: 'status',
-    assignedUser: 'assignee',
+    assignedUser: 'assignee', // entries logged before tasks had several assignees
+    assignees: 'assignees',
     dueDate: 'due date',
   };
 
@@ -104,6 +163,11 @@ export function formatLogMessage(log: {
     return `created this task`;
   }
 
+  if (log.actionType === 'COMPLETED_CHECKLIST_ITEM') return `checked off "${log.newValue}"`;
+  if (log.actionType === 'REOPENED_CHECKLIST_ITEM') return `unchecked "${log.newValue}"`;
+  if (log.actionType === 'COMPLETED_SUBTASK') return `completed subtask "${log.newValue}"`;
+  if (log.actionType === 'REOPENED_SUBTASK') return `reopened subtask "${log.newValue}"`;
+
   if (log.oldValue === null || log.oldValue === '') {
     return `set ${fieldLabel} to ${formatValue(log.newValue, log.fieldName)}`;
   }
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../prisma", () => ({ prisma: {} }));
+
+import { hasScope, isApiToken, parseApiTokenInput, requiredTokenScope } from "./apiTokens";
+
+describe("parseApiTokenInput", () => {
+  const now = new Date("2026-10-19T12:00:00Z");
+
+  it("trims the name, dedupes scopes and converts the expiry to a date", () => {
+    expect(parseApiTokenInput({ name: " CI ", scopes: ["tasks:read", "tasks:read"], expiresInDays: 30 }, now)).toEqual({
+      input: { name: "CI", scopes: ["tasks:read"], expiresAt: new Date("2026-11-18T12:00:00Z") },
+    });
+  });
+
+  it("never expires without expiresInDays", () => {
+    expect(parseApiTokenInput({ name: "Dashboard", scopes: ["projects:read"], expiresInDays: null }, now)).toEqual({
+      input: { name: "Dashboard", scopes: ["projects:read"], expiresAt: null },
+    });
+  });
+
+  it.each([
+    [{ scopes: ["tasks:read"] }, "Token name is required"],
+    [{ name: "CI", scopes: [] }, "Choose at least one scope"],
+    [{ name: "CI", scopes: ["admin"] }, 'Unknown scope "admin". Use tasks:read, tasks:write, projects:read, projects:admin'],
+    [{ name: "CI", scopes: ["tasks:read"], expiresInDays: 0 }, "Expiry must be a whole number of days between 1 and 365"],
+  ])("rejects invalid tokens (%#)", (body, error) => {
+    expect(parseApiTokenInput(body, now)).toEqual({ error });
+  });
+});
+
+describe("hasScope", () => {
+  it("lets write scopes read", () => {
+    expect(hasScope(["tasks:write"], "tasks:read")).toBe(true);
+    expect(hasScope(["projects:admin"], "projects:read")).toBe(true);
+    expect(hasScope(["tasks:read"], "tasks:write")).toBe(false);
+    expect(hasScope(["tasks:write"], "projects:read")).toBe(false);
+  });
+});
+
+describe("requiredTokenScope", () => {
+  it.each([
+    ["GET", "/api/tasks", "tasks:read"],
+    ["PUT", "/api/tasks/12", "tasks:write"],
+    ["PATCH", "/api/tasks/reorder", "tasks:write"],
+    ["POST", "/api/tasks/12/comments", "tasks:write"],
+    ["GET", "/api/projects/3/board", "tasks:read"],
+    ["GET", "/api/calendar/tasks/filter", "tasks:read"],
+    ["GET", "/api/projects", "projects:read"],
+    ["DELETE", "/api/projects/3", "projects:admin"],
+    ["PATCH", "/api/projects/3/members/7", "projects:admin"],
+    ["PUT", "/api/projects/3/reminders", "projects:admin"],
+    ["GET", "/api/auth/me", "any"],
+  ])("%s %s needs %s", (method, path, scope) => {
+    expect(requiredTokenScope(method, path)).toBe(scope);
+  });
+
+  it("keeps token management and other areas session-only", () => {
+    expect(requiredTokenScope("POST", "/api/auth/tokens")).toBeNull();
+    expect(requiredTokenScope("GET", "/api/projects/3/chat")).toBeNull();
+    expect(requiredTokenScope("GET", "/api/documents/3")).toBeNull();
+    expect(requiredTokenScope("POST", "/api/calendar/feeds")).toBeNull();
+  });
+});
+
+describe("isApiToken", () => {
+  it("tells personal access tokens from session JWTs", () => {
+    expect(isApiToken("proup_pat_abc")).toBe(true);
+    expect(isApiToken("eyJhbGciOi.eyJzdWIiOjF9.sig")).toBe(false);
+  });
+});
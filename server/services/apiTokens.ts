@@ -0,0 +1,148 @@
+import crypto from 'crypto';
+import { prisma } from '../prisma';
+import { hashToken } from './session';
+import type { SearchKind } from './search';
+
+export const API_TOKEN_SCOPES = ['tasks:read', 'tasks:write', 'projects:read', 'projects:admin'] as const;
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+export interface ApiTokenInput {
+  name: string;
+  scopes: ApiTokenScope[];
+  expiresAt: Date | null;
+}
+
+// Personal access tokens are opaque, so they can never be mistaken for a session JWT
+export const API_TOKEN_PREFIX = 'proup_pat_';
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+const MAX_EXPIRY_DAYS = 365;
+// lastUsedAt is only written this often, so busy scripts don't turn every read into a write
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// A write scope also grants the matching read scope
+const IMPLIED_SCOPES: Record<ApiTokenScope, ApiTokenScope[]> = {
+  'tasks:read': ['tasks:read'],
+  'tasks:write': ['tasks:write', 'tasks:read'],
+  'projects:read': ['projects:read'],
+  'projects:admin': ['projects:admin', 'projects:read'],
+};
+
+export const isApiToken = (token: string) => token.startsWith(API_TOKEN_PREFIX);
+
+/**
+ * Validate a token submitted by a client. `expiresInDays` of null (or omitted) never expires.
+ */
+export const parseApiTokenInput = (body: any, now = new Date()): { input: ApiTokenInput } | { error: string } => {
+  const { name, scopes, expiresInDays } = body ?? {};
+
+  if (typeof name !== 'string' || !name.trim()) {
+    return { error: 'Token name is required' };
+  }
+  if (!Array.isArray(scopes) || scopes.length === 0) {
+    return { error: 'Choose at least one scope' };
+  }
+  const unknown = scopes.find((s) => !API_TOKEN_SCOPES.includes(s));
+  if (unknown !== undefined) {
+    return { error: `Unknown scope "${unknown}". Use ${API_TOKEN_SCOPES.join(', ')}` };
+  }
+
+  let expiresAt: Date | null = null;
+  if (expiresInDays !== undefined && expiresInDays !== null) {
+    if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS) {
+      return { error: `Expiry must be a whole number of days between 1 and ${MAX_EXPIRY_DAYS}` };
+    }
+    expiresAt = new Date(now.getTime() + expiresInDays * 24 * 60 * 60 * 1000);
+  }
+
+  return {
+    input: { name: name.trim(), scopes: Array.from(new Set(scopes as ApiTokenScope[])), expiresAt },
+  };
+};
+
+export const parseApiTokenScopes = (value: string): ApiTokenScope[] => {
+  try {
+    const scopes = JSON.parse(value);
+    return Array.isArray(scopes) ? scopes.filter((s) => API_TOKEN_SCOPES.includes(s)) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const hasScope = (scopes: ApiTokenScope[], required: ApiTokenScope) =>
+  scopes.some((scope) => IMPLIED_SCOPES[scope].includes(required));
+
+const TASK_PATHS = [
+  /^\/api\/tasks(\/|$)/,
+  /^\/api\/sprints\//,
+  /^\/api\/projects\/[^/]+\/(board|sprints|labels|imports)(\/|$)/,
+  /^\/api\/calendar\/tasks(\/|$)/,
+  /^\/api\/search$/,
+];
+const PROJECT_PATHS = [
+  /^\/api\/projects\/?$/,
+  /^\/api\/projects\/[^/]+\/?$/,
+  /^\/api\/projects\/[^/]+\/(members|invitations|invite|workflow|webhooks|reminders)(\/|$)/,
+];
+
+// /api/search is reachable with tasks:read, so tokens only get hits on tasks and their comments
+export const TOKEN_SEARCH_KINDS: SearchKind[] = ['task', 'comment'];
+
+/**
+ * The scope a personal access token needs for a request. `null` means the endpoint can't be
+ * used with a token at all (e.g. managing tokens or calendar feeds, chat or documents); 'any'
+ * only needs a valid token.
+ */
+export const requiredTokenScope = (method: string, path: string): ApiTokenScope | 'any' | null => {
+  const read = method === 'GET' || method === 'HEAD';
+  if (path === '/api/auth/me' && read) return 'any';
+  if (TASK_PATHS.some((pattern) => pattern.test(path))) return read ? 'tasks:read' : 'tasks:write';
+  if (PROJECT_PATHS.some((pattern) => pattern.test(path))) return read ? 'projects:read' : 'projects:admin';
+  return null;
+};
+
+/**
+ * Create a token for a user. The plain token is returned once and never stored.
+ */
+export const createApiToken = async (userId: number, input: ApiTokenInput) => {
+  const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  const record = await prisma.apiToken.create({
+    data: {
+      userId,
+      name: input.name,
+      tokenHash: hashToken(token),
+      prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      scopes: JSON.stringify(input.scopes),
+      expiresAt: input.expiresAt,
+    },
+  });
+  return { token, record };
+};
+
+/**
+ * Resolve a personal access token to its user and scopes, recording when it was last used
+ */
+export const resolveApiToken = async (token: string) => {
+  const record = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    select: {
+      id: true,
+      scopes: true,
+      expiresAt: true,
+      revokedAt: true,
+      lastUsedAt: true,
+      user: { select: { id: true, email: true, name: true } },
+    },
+  });
+
+  const now = new Date();
+  if (!record || record.revokedAt || (record.expiresAt && record.expiresAt <= now)) {
+    return null;
+  }
+
+  if (!record.lastUsedAt || now.getTime() - record.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+    await prisma.apiToken.update({ where: { id: record.id }, data: { lastUsedAt: now } });
+  }
+
+  return { tokenId: record.id, scopes: parseApiTokenScopes(record.scopes), user: record.user };
+};
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { MAX_BULK_TASKS, parseBulkTaskInput } from "./bulkTasks";
+
+describe("parseBulkTaskInput", () => {
+  it("dedupes task ids and keeps only the given changes", () => {
+    expect(
+      parseBulkTaskInput({ taskIds: [3, 1, 3], changes: { status: "done", dueDate: null, addLabelIds: [2, 2] } })
+    ).toEqual({
+      input: { taskIds: [3, 1], delete: false, changes: { status: "done", dueDate: null, addLabelIds: [2] } },
+    });
+  });
+
+  it("accepts a delete on its own", () => {
+    expect(parseBulkTaskInput({ taskIds: [1], delete: true })).toEqual({
+      input: { taskIds: [1], delete: true, changes: {} },
+    });
+  });
+
+  it.each([
+    [{ taskIds: [], changes: { priority: "high" } }, "taskIds must be a non-empty array of task ids"],
+    [{ taskIds: ["1"], changes: { priority: "high" } }, "taskIds must be a non-empty array of task ids"],
+    [{ taskIds: [1], delete: true, changes: { priority: "high" } }, "Deleting tasks cannot be combined with other changes"],
+    [{ taskIds: [1] }, "changes is required"],
+    [{ taskIds: [1], changes: {} }, "No changes given"],
+    [{ taskIds: [1], changes: { priority: "urgent" } }, "priority must be one of low, medium, high"],
+    [{ taskIds: [1], changes: { dueDate: "next week" } }, "dueDate must be a YYYY-MM-DD date or null"],
+    [{ taskIds: [1], changes: { addLabelIds: [4], removeLabelIds: [4] } }, "A label cannot be added and removed at once"],
+  ])("rejects invalid requests (%#)", (body, error) => {
+    expect(parseBulkTaskInput(body)).toEqual({ error });
+  });
+
+  it("caps the number of tasks", () => {
+    const taskIds = Array.from({ length: MAX_BULK_TASKS + 1 }, (_, i) => i + 1);
+    expect(parseBulkTaskInput({ taskIds, delete: true })).toEqual({
+      error: `At most ${MAX_BULK_TASKS} tasks can be changed at once`,
+    });
+  });
+});
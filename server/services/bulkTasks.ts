@@ -0,0 +1,94 @@
+export const TASK_PRIORITIES = ['low', 'medium', 'high'] as const;
+
+// Upper bound on one request, so a single call can't lock the database for long
+export const MAX_BULK_TASKS = 500;
+
+export interface BulkTaskChanges {
+  status?: string;
+  priority?: string;
+  // YYYY-MM-DD, or null to clear
+  dueDate?: string | null;
+  // Replaces the assignees; checked against each task's project by resolveTaskPeopleIds
+  assigneeIds?: unknown;
+  addLabelIds?: number[];
+  removeLabelIds?: number[];
+  projectId?: number;
+}
+
+export interface BulkTaskInput {
+  taskIds: number[];
+  // Deletes the tasks; `changes` is empty
+  delete: boolean;
+  changes: BulkTaskChanges;
+}
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const isIdList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every((id) => Number.isInteger(id) && id > 0);
+
+/**
+ * Validate the shape of a bulk request: `{ taskIds, delete: true }` or `{ taskIds, changes }`.
+ * Anything that depends on the tasks themselves (workflows, labels, people) is checked later.
+ */
+export const parseBulkTaskInput = (body: any): { input: BulkTaskInput } | { error: string } => {
+  const { taskIds, changes } = body ?? {};
+
+  if (!isIdList(taskIds) || taskIds.length === 0) {
+    return { error: 'taskIds must be a non-empty array of task ids' };
+  }
+  const ids = Array.from(new Set(taskIds));
+  if (ids.length > MAX_BULK_TASKS) {
+    return { error: `At most ${MAX_BULK_TASKS} tasks can be changed at once` };
+  }
+
+  if (body.delete === true) {
+    if (changes !== undefined) return { error: 'Deleting tasks cannot be combined with other changes' };
+    return { input: { taskIds: ids, delete: true, changes: {} } };
+  }
+
+  if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+    return { error: 'changes is required' };
+  }
+
+  const { status, priority, dueDate, assigneeIds, addLabelIds, removeLabelIds, projectId } = changes;
+  const parsed: BulkTaskChanges = {};
+
+  if (status !== undefined) {
+    if (typeof status !== 'string' || !status) return { error: 'status must be a status key' };
+    parsed.status = status;
+  }
+  if (priority !== undefined) {
+    if (!TASK_PRIORITIES.includes(priority)) {
+      return { error: `priority must be one of ${TASK_PRIORITIES.join(', ')}` };
+    }
+    parsed.priority = priority;
+  }
+  if (dueDate !== undefined) {
+    if (dueDate !== null && (typeof dueDate !== 'string' || !DATE.test(dueDate))) {
+      return { error: 'dueDate must be a YYYY-MM-DD date or null' };
+    }
+    parsed.dueDate = dueDate;
+  }
+  if (assigneeIds !== undefined) parsed.assigneeIds = assigneeIds;
+  if (addLabelIds !== undefined) {
+    if (!isIdList(addLabelIds)) return { error: 'addLabelIds must be an array of label ids' };
+    parsed.addLabelIds = Array.from(new Set(addLabelIds));
+  }
+  if (removeLabelIds !== undefined) {
+    if (!isIdList(removeLabelIds)) return { error: 'removeLabelIds must be an array of label ids' };
+    parsed.removeLabelIds = Array.from(new Set(removeLabelIds));
+  }
+  if (parsed.addLabelIds?.some((id) => parsed.removeLabelIds?.includes(id))) {
+    return { error: 'A label cannot be added and removed at once' };
+  }
+  if (projectId !== undefined) {
+    if (!Number.isInteger(projectId) || projectId <= 0) return { error: 'projectId must be a project id' };
+    parsed.projectId = projectId;
+  }
+
+  if (Object.keys(parsed).length === 0) {
+    return { error: 'No changes given' };
+  }
+  return { input: { taskIds: ids, delete: false, changes: parsed } };
+};
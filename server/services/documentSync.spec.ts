@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import * as Y from "yjs";
+import { Awareness, encodeAwarenessUpdate } from "y-protocols/awareness";
+
+const { findUnique, updateMany } = vi.hoisted(() => ({ findUnique: vi.fn(), updateMany: vi.fn() }));
+vi.mock("../prisma", () => ({ prisma: { document: { findUnique, updateMany } } }));
+
+import {
+  applyDocumentUpdate,
+  applyPresenceUpdate,
+  claimSeed,
+  closeDocument,
+  openDocument,
+  resetDocument,
+  syncStep,
+} from "./documentSync";
+
+const textOf = (doc: Y.Doc) => doc.getText("body").toString();
+
+const storedState = (text: string) => {
+  const doc = new Y.Doc();
+  doc.getText("body").insert(0, text);
+  return Buffer.from(Y.encodeStateAsUpdate(doc));
+};
+
+// What a client does on (re)connect: take what it's missing, then send back what the server is missing
+const connect = async (client: Y.Doc, socketId: string) => {
+  const synced = (await openDocument(1, socketId))!;
+  const step = syncStep(synced, Y.encodeStateVector(client));
+  Y.applyUpdate(client, step.update);
+  applyDocumentUpdate(synced, Y.encodeStateAsUpdate(client, step.stateVector), socketId);
+  return synced;
+};
+
+beforeEach(() => {
+  findUnique.mockReset();
+  updateMany.mockReset().mockResolvedValue({ count: 1 });
+});
+
+describe("documentSync", () => {
+  it("returns null for a document that doesn't exist", async () => {
+    findUnique.mockResolvedValue(null);
+    expect(await openDocument(99, "a")).toBeNull();
+  });
+
+  it("merges edits two clients made while offline", async () => {
+    findUnique.mockResolvedValue({ yjsState: storedState("hello") });
+
+    const alice = new Y.Doc();
+    const bob = new Y.Doc();
+    const synced = await connect(alice, "alice");
+    await connect(bob, "bob");
+
+    // Both go offline and edit the same document
+    alice.getText("body").insert(0, "A: ");
+    bob.getText("body").insert(5, " world");
+
+    await connect(alice, "alice");
+    await connect(bob, "bob");
+    await connect(alice, "alice");
+
+    expect(textOf(synced.doc)).toBe("A: hello world");
+    expect(textOf(alice)).toBe(textOf(bob));
+
+    await closeDocument(synced, "alice");
+    await closeDocument(synced, "bob");
+  });
+
+  it("saves the CRDT state when the last connection closes", async () => {
+    findUnique.mockResolvedValue({ yjsState: null, yjsGeneration: 0 });
+
+    const client = new Y.Doc();
+    const synced = await connect(client, "a");
+    client.getText("body").insert(0, "draft");
+    applyDocumentUpdate(synced, Y.encodeStateAsUpdate(client), "a");
+    await closeDocument(synced, "a");
+
+    expect(updateMany).toHaveBeenCalledTimes(1);
+    // Only over the state it was loaded from
+    expect(updateMany.mock.calls[0][0].where).toEqual({ id: 1, yjsGeneration: 0 });
+    const saved = new Y.Doc();
+    Y.applyUpdate(saved, new Uint8Array(updateMany.mock.calls[0][0].data.yjsState));
+    expect(textOf(saved)).toBe("draft");
+  });
+
+  it("rejects updates that aren't valid Yjs", async () => {
+    findUnique.mockResolvedValue({ yjsState: null });
+    const synced = (await openDocument(1, "a"))!;
+    expect(applyDocumentUpdate(synced, new Uint8Array([255, 255, 255]), "a")).toBe(false);
+    await closeDocument(synced, "a");
+  });
+
+  it("asks a single editor to import legacy content until someone does", async () => {
+    findUnique.mockResolvedValue({ yjsState: null });
+    const synced = (await openDocument(1, "a"))!;
+    await openDocument(1, "b");
+
+    expect(claimSeed(synced, "a")).toBe(true);
+    expect(claimSeed(synced, "b")).toBe(false);
+
+    // The seeder left without importing anything: the next editor is asked instead
+    await closeDocument(synced, "a");
+    expect(claimSeed(synced, "b")).toBe(true);
+
+    const client = new Y.Doc();
+    client.getText("body").insert(0, "imported");
+    applyDocumentUpdate(synced, Y.encodeStateAsUpdate(client), "b");
+    expect(claimSeed(synced, "b")).toBe(false);
+
+    await closeDocument(synced, "b");
+  });
+
+  it("drops the live copy of a restored document so its old state can't come back", async () => {
+    findUnique.mockResolvedValue({ yjsState: storedState("before"), yjsGeneration: 0 });
+    const client = new Y.Doc();
+    const synced = await connect(client, "a");
+    client.getText("body").insert(0, "edit ");
+    applyDocumentUpdate(synced, Y.encodeStateAsUpdate(client), "a");
+
+    // The restore threw the stored Yjs state away
+    findUnique.mockResolvedValue({ yjsState: null, yjsGeneration: 1 });
+    await resetDocument(1);
+    expect(applyDocumentUpdate(synced, Y.encodeStateAsUpdate(client), "a")).toBe(false);
+
+    const reloaded = (await openDocument(1, "a"))!;
+    expect(reloaded).not.toBe(synced);
+    expect(syncStep(reloaded).generation).toBe(1);
+    expect(textOf(reloaded.doc)).toBe("");
+    // Someone imports the restored content again
+    expect(claimSeed(reloaded, "a")).toBe(true);
+
+    await closeDocument(synced, "a");
+    await closeDocument(reloaded, "a");
+    expect(updateMany).not.toHaveBeenCalled();
+  });
+
+  it("clears a socket's cursors when it leaves", async () => {
+    findUnique.mockResolvedValue({ yjsState: null });
+    const synced = (await openDocument(1, "a"))!;
+    await openDocument(1, "b");
+
+    const client = new Y.Doc();
+    const presence = new Awareness(client);
+    presence.setLocalState({ user: { name: "Ada", color: "#ef4444" } });
+    applyPresenceUpdate(synced, encodeAwarenessUpdate(presence, [client.clientID]), "a");
+    expect(synced.awareness.getStates().get(client.clientID)).toEqual({ user: { name: "Ada", color: "#ef4444" } });
+
+    expect(await closeDocument(synced, "a")).toBeInstanceOf(Uint8Array);
+    expect(synced.awareness.getStates().has(client.clientID)).toBe(false);
+
+    presence.destroy();
+    await closeDocument(synced, "b");
+  });
+});
@@ -0,0 +1,198 @@
+import * as Y from 'yjs';
+import { Awareness, applyAwarenessUpdate, encodeAwarenessUpdate, removeAwarenessStates } from 'y-protocols/awareness';
+import { prisma } from '../prisma';
+import { getIO } from '../realtime';
+
+// Live Yjs documents behind the /documents socket namespace. A document stays in memory while
+// anyone has it open, and its CRDT state is written to Document.yjsState shortly after each edit.
+
+const PERSIST_DELAY_MS = 2000;
+
+export interface SyncedDocument {
+  id: number;
+  // Document.yjsGeneration this copy was loaded from; it's only saved while that's still current
+  generation: number;
+  doc: Y.Doc;
+  // Cursors and names of everyone connected; never persisted
+  awareness: Awareness;
+  connections: Set<string>;
+  // Awareness client ids each socket has announced, so they can be cleared when it leaves
+  awarenessClients: Map<string, Set<number>>;
+  // Set while the stored row has no CRDT state yet and its HTML `content` still has to be imported
+  needsSeed: boolean;
+  seeder: string | null;
+  persistTimer: NodeJS.Timeout | null;
+  // Replaced by resetDocument: takes no more edits and is never saved
+  discarded: boolean;
+}
+
+const open = new Map<number, Promise<SyncedDocument | null>>();
+
+const persist = async (synced: SyncedDocument) => {
+  if (synced.persistTimer) {
+    clearTimeout(synced.persistTimer);
+    synced.persistTimer = null;
+  }
+  try {
+    await prisma.document.updateMany({
+      where: { id: synced.id, yjsGeneration: synced.generation },
+      data: { yjsState: Buffer.from(Y.encodeStateAsUpdate(synced.doc)) },
+    });
+  } catch (error) {
+    console.error(`Error saving document ${synced.id}:`, error);
+  }
+};
+
+const load = async (documentId: number): Promise<SyncedDocument | null> => {
+  const document = await prisma.document.findUnique({
+    where: { id: documentId },
+    select: { yjsState: true, yjsGeneration: true },
+  });
+  if (!document) return null;
+
+  const doc = new Y.Doc();
+  if (document.yjsState) Y.applyUpdate(doc, new Uint8Array(document.yjsState));
+
+  const awareness = new Awareness(doc);
+  // The server only relays other clients' presence
+  awareness.setLocalState(null);
+
+  const synced: SyncedDocument = {
+    id: documentId,
+    generation: document.yjsGeneration,
+    doc,
+    awareness,
+    connections: new Set(),
+    awarenessClients: new Map(),
+    needsSeed: !document.yjsState,
+    seeder: null,
+    persistTimer: null,
+    discarded: false,
+  };
+
+  doc.on('update', () => {
+    if (synced.discarded) return;
+    synced.needsSeed = false;
+    if (synced.persistTimer) clearTimeout(synced.persistTimer);
+    synced.persistTimer = setTimeout(() => persist(synced), PERSIST_DELAY_MS);
+    synced.persistTimer.unref?.();
+  });
+
+  awareness.on('update', ({ added, removed }: { added: number[]; removed: number[] }, origin: unknown) => {
+    if (typeof origin !== 'string') return;
+    const clients = synced.awarenessClients.get(origin) ?? new Set<number>();
+    added.forEach((id) => clients.add(id));
+    removed.forEach((id) => clients.delete(id));
+    synced.awarenessClients.set(origin, clients);
+  });
+
+  return synced;
+};
+
+/**
+ * Open a document for a socket, loading it on first use. Returns null when it doesn't exist.
+ */
+export const openDocument = async (documentId: number, socketId: string) => {
+  let loading = open.get(documentId);
+  if (!loading) {
+    loading = load(documentId);
+    open.set(documentId, loading);
+    loading.catch(() => open.delete(documentId));
+  }
+  const synced = await loading;
+  if (!synced) {
+    open.delete(documentId);
+    return null;
+  }
+  // The last editor left and it was unloaded while this socket waited: load it again
+  if (open.get(documentId) !== loading) return openDocument(documentId, socketId);
+  synced.connections.add(socketId);
+  return synced;
+};
+
+/**
+ * Whether this socket should import the document's legacy HTML content. Only one connected
+ * socket is asked at a time, so two editors can't both seed it and duplicate the text.
+ */
+export const claimSeed = (synced: SyncedDocument, socketId: string) => {
+  if (!synced.needsSeed) return false;
+  if (synced.seeder && synced.connections.has(synced.seeder)) return synced.seeder === socketId;
+  synced.seeder = socketId;
+  return true;
+};
+
+/**
+ * First sync step for a joining client: whatever it's missing given its state vector, the
+ * server's state vector (so the client can send back edits made while offline), current presence
+ * and the generation, which tells a client whose copy predates a reset to start over.
+ */
+export const syncStep = (synced: SyncedDocument, stateVector?: Uint8Array) => ({
+  generation: synced.generation,
+  update: Y.encodeStateAsUpdate(synced.doc, stateVector),
+  stateVector: Y.encodeStateVector(synced.doc),
+  awareness: encodeAwarenessUpdate(synced.awareness, Array.from(synced.awareness.getStates().keys())),
+});
+
+/**
+ * Merge a client's update. Returns false when it isn't a valid Yjs update.
+ */
+export const applyDocumentUpdate = (synced: SyncedDocument, update: Uint8Array, socketId: string) => {
+  if (synced.discarded) return false;
+  try {
+    Y.applyUpdate(synced.doc, update, socketId);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const applyPresenceUpdate = (synced: SyncedDocument, update: Uint8Array, socketId: string) => {
+  try {
+    applyAwarenessUpdate(synced.awareness, update, socketId);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Drop a socket from a document. Returns the presence update that removes its cursors, if any,
+ * for the caller to broadcast. The last socket out saves the document and unloads it.
+ */
+export const closeDocument = async (synced: SyncedDocument, socketId: string) => {
+  synced.connections.delete(socketId);
+
+  const clients = Array.from(synced.awarenessClients.get(socketId) ?? []);
+  synced.awarenessClients.delete(socketId);
+  let removed: Uint8Array | null = null;
+  if (clients.length > 0) {
+    removeAwarenessStates(synced.awareness, clients, null);
+    removed = encodeAwarenessUpdate(synced.awareness, clients);
+  }
+
+  if (synced.connections.size === 0) {
+    // A discarded copy was already replaced
+    if (!synced.discarded) open.delete(synced.id);
+    synced.awareness.destroy();
+    if (synced.persistTimer) await persist(synced);
+    synced.doc.destroy();
+  }
+
+  return removed;
+};
+
+/**
+ * Drop the live copy of a document whose stored CRDT state was just thrown away (its
+ * yjsGeneration bumped), and tell everyone who has it open to load it again.
+ */
+export const resetDocument = async (documentId: number) => {
+  const loading = open.get(documentId);
+  open.delete(documentId);
+  const synced = await loading?.catch(() => null);
+  if (synced) {
+    synced.discarded = true;
+    if (synced.persistTimer) clearTimeout(synced.persistTimer);
+    synced.persistTimer = null;
+  }
+  getIO()?.of('/documents').to(`document:${documentId}`).emit('document-reset', { documentId });
+};
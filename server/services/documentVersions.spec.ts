@@ -0,0 +1,50 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../prisma", () => ({ prisma: {} }));
+
+import { AUTO_VERSION_INTERVAL_MS, autoVersionContent, isLargeDeletion } from "./documentVersions";
+
+const state = (text: string) => ({ content: JSON.stringify({ content: `<p>${text}</p>` }), plainText: text });
+
+const now = new Date("2026-10-20T12:00:00Z");
+const ago = (ms: number) => new Date(now.getTime() - ms);
+
+const draft = state("The first draft of the plan");
+const edited = state("The first draft of the plan, edited");
+
+describe("isLargeDeletion", () => {
+  it("needs most of a meaningful amount of text to go", () => {
+    expect(isLargeDeletion("The first draft of the plan", "")).toBe(true);
+    expect(isLargeDeletion("The first draft of the plan", "The first draft")).toBe(false);
+    expect(isLargeDeletion("short", "")).toBe(false);
+  });
+});
+
+describe("autoVersionContent", () => {
+  it("keeps what was there before the first versioned edit", () => {
+    expect(autoVersionContent(draft, edited, null, null, now)).toBe(draft.content);
+    // A new, empty document starts its history with the first edit
+    expect(autoVersionContent(state(""), draft, null, null, now)).toBe(draft.content);
+  });
+
+  it("keeps one version per person per interval", () => {
+    const latest = { content: draft.content };
+    expect(autoVersionContent(draft, edited, latest, ago(60_000), now)).toBeNull();
+    expect(autoVersionContent(draft, edited, latest, ago(AUTO_VERSION_INTERVAL_MS), now)).toBe(edited.content);
+    // Someone else's recent version doesn't hold back yours
+    expect(autoVersionContent(draft, edited, latest, null, now)).toBe(edited.content);
+  });
+
+  it("keeps the content a large deletion replaces, even within the interval", () => {
+    const latest = { content: draft.content };
+    expect(autoVersionContent(edited, state(""), latest, ago(60_000), now)).toBe(edited.content);
+    // Already kept
+    expect(autoVersionContent(draft, state(""), latest, ago(60_000), now)).toBeNull();
+  });
+
+  it("skips saves that change nothing or match the latest version", () => {
+    expect(autoVersionContent(draft, draft, null, null, now)).toBeNull();
+    const latest = { content: edited.content };
+    expect(autoVersionContent(draft, edited, latest, null, now)).toBeNull();
+  });
+});
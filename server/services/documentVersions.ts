@@ -0,0 +1,90 @@
+import { prisma } from '../prisma';
+
+// One automatic version per person per interval, so history shows sessions of work rather than
+// every autosave
+export const AUTO_VERSION_INTERVAL_MS = 10 * 60 * 1000;
+
+// Edits that leave less than half of at least this much text count as large deletions
+const LARGE_DELETION_MIN_LENGTH = 20;
+
+export const MAX_VERSION_NAME_LENGTH = 100;
+
+// Everything but the content, which is only sent when a version is opened
+export const versionSelect = {
+  id: true,
+  documentId: true,
+  kind: true,
+  name: true,
+  createdAt: true,
+  author: { select: { id: true, name: true } },
+  restoredFrom: { select: { id: true, name: true, createdAt: true } },
+} as const;
+
+export interface DocumentState {
+  content: string;
+  plainText: string;
+}
+
+/**
+ * Whether an edit throws away most of a document's text, like select-all and delete
+ */
+export const isLargeDeletion = (before: string, after: string) =>
+  before.length >= LARGE_DELETION_MIN_LENGTH && after.length < before.length / 2;
+
+/**
+ * Which content, if any, to keep as an automatic version when someone replaces `previous` with
+ * `next`. The content being replaced is kept when nothing has been versioned yet or the edit
+ * deletes most of it, so the state before a mistake can always be restored; otherwise the new
+ * content is kept once the editor's last version (`lastByUserAt`) is an interval old.
+ */
+export const autoVersionContent = (
+  previous: DocumentState,
+  next: DocumentState,
+  latest: { content: string } | null,
+  lastByUserAt: Date | null,
+  now: Date
+): string | null => {
+  if (next.content === previous.content) return null;
+
+  if (
+    previous.plainText &&
+    previous.content !== latest?.content &&
+    (!latest || isLargeDeletion(previous.plainText, next.plainText))
+  ) {
+    return previous.content;
+  }
+
+  const due = !lastByUserAt || now.getTime() - lastByUserAt.getTime() >= AUTO_VERSION_INTERVAL_MS;
+  return due && next.content !== latest?.content ? next.content : null;
+};
+
+/**
+ * Record an automatic version, if one is due, for an edit about to replace a document's content
+ */
+export const recordEditVersion = async (
+  documentId: number,
+  previous: DocumentState,
+  next: DocumentState,
+  userId: number,
+  now = new Date()
+) => {
+  const newestFirst = [{ createdAt: 'desc' as const }, { id: 'desc' as const }];
+  const [latest, lastByUser] = await Promise.all([
+    prisma.documentVersion.findFirst({
+      where: { documentId },
+      orderBy: newestFirst,
+      select: { content: true },
+    }),
+    prisma.documentVersion.findFirst({
+      where: { documentId, createdBy: userId },
+      orderBy: newestFirst,
+      select: { createdAt: true },
+    }),
+  ]);
+
+  const content = autoVersionContent(previous, next, latest, lastByUser?.createdAt ?? null, now);
+  if (content === null) return;
+  await prisma.documentVersion.create({
+    data: { documentId, content, kind: 'auto', createdBy: userId, createdAt: now },
+  });
+};
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const db = vi.hoisted(() => ({
+  findSession: vi.fn(),
+  updateSessions: vi.fn(),
+  findComments: vi.fn(),
+  findEvents: vi.fn(),
+  countEvents: vi.fn(),
+  createEvent: vi.fn(),
+  deleteEvents: vi.fn(),
+}));
+vi.mock("../prisma", () => ({
+  prisma: {
+    focusSession: { findFirst: db.findSession, updateMany: db.updateSessions },
+    comment: { findMany: db.findComments },
+    xpEvent: { findMany: db.findEvents, count: db.countEvents, create: db.createEvent, deleteMany: db.deleteEvents },
+    userAchievement: { findMany: async () => [] },
+  },
+}));
+vi.mock("../realtime", () => ({ getIO: () => null }));
+
+import { completeFocusSession, computeStreak, earnedAchievements, getLevelInfo, revokeTaskXp } from "./gamification";
+
+beforeEach(() => {
+  Object.values(db).forEach((fn) => fn.mockReset());
+  db.updateSessions.mockResolvedValue({ count: 1 });
+  db.findEvents.mockResolvedValue([]);
+  db.countEvents.mockResolvedValue(0);
+  db.createEvent.mockResolvedValue({});
+});
+
+describe("getLevelInfo", () => {
+  it("starts at level 1 with progress towards the next threshold", () => {
+    expect(getLevelInfo(0)).toEqual({ level: 1, title: "Rookie", xpInCurrentLevel: 0, xpToNextLevel: 100 });
+    expect(getLevelInfo(350)).toEqual({ level: 3, title: "Contributor", xpInCurrentLevel: 50, xpToNextLevel: 300 });
+  });
+
+  it("keeps 5000 XP between levels past the last threshold", () => {
+    expect(getLevelInfo(12000)).toEqual({ level: 12, title: "Transcendent", xpInCurrentLevel: 2000, xpToNextLevel: 5000 });
+  });
+});
+
+describe("computeStreak", () => {
+  it("counts consecutive days ending today", () => {
+    expect(computeStreak(["2026-03-31", "2026-03-30", "2026-03-29", "2026-03-27"], "2026-03-31")).toBe(3);
+  });
+
+  it("keeps a streak alive until a whole day passes without a completion", () => {
+    expect(computeStreak(["2026-03-30", "2026-03-29"], "2026-03-31")).toBe(2);
+    expect(computeStreak(["2026-03-29", "2026-03-28"], "2026-03-31")).toBe(0);
+  });
+
+  it("crosses month boundaries", () => {
+    expect(computeStreak(["2026-04-01", "2026-03-31"], "2026-04-01")).toBe(2);
+  });
+
+  it("returns 0 without completions", () => {
+    expect(computeStreak([], "2026-03-31")).toBe(0);
+  });
+});
+
+describe("earnedAchievements", () => {
+  it("unlocks by completion count and streak", () => {
+    expect(earnedAchievements({ doneCount: 0, streak: 0 })).toEqual([]);
+    expect(earnedAchievements({ doneCount: 12, streak: 7 })).toEqual(["FIRST_DONE", "DONE_10", "STREAK_3", "STREAK_7"]);
+  });
+});
+
+describe("completeFocusSession", () => {
+  const startedAt = new Date("2026-10-20T12:00:00Z");
+  const at = (minutes: number) => new Date(startedAt.getTime() + minutes * 60 * 1000);
+
+  it("credits a session only once it has run its full length", async () => {
+    db.findSession.mockResolvedValue({ id: 3, userId: 4, minutes: 25, startedAt, completedAt: null });
+
+    expect(await completeFocusSession(4, 3, at(10))).toHaveProperty("error");
+    expect(db.updateSessions).not.toHaveBeenCalled();
+
+    expect(await completeFocusSession(4, 3, at(25))).toEqual({ awarded: true });
+    expect(db.createEvent.mock.calls[0][0].data).toMatchObject({
+      userId: 4,
+      type: "FOCUS_SESSION",
+      sourceKey: "focus:3",
+    });
+  });
+
+  it("pays nothing for short sessions or past the daily limit", async () => {
+    db.findSession.mockResolvedValue({ id: 3, userId: 4, minutes: 5, startedAt, completedAt: null });
+    expect(await completeFocusSession(4, 3, at(5))).toEqual({ awarded: false });
+
+    db.findSession.mockResolvedValue({ id: 4, userId: 4, minutes: 25, startedAt, completedAt: null });
+    db.countEvents.mockResolvedValue(8);
+    expect(await completeFocusSession(4, 4, at(25))).toEqual({ awarded: false });
+    expect(db.createEvent).not.toHaveBeenCalled();
+  });
+
+  it("ignores sessions that aren't open, or were completed by another request", async () => {
+    db.findSession.mockResolvedValue(null);
+    expect(await completeFocusSession(4, 3, at(25))).toBeNull();
+
+    db.findSession.mockResolvedValue({ id: 3, userId: 4, minutes: 25, startedAt, completedAt: null });
+    db.updateSessions.mockResolvedValue({ count: 0 });
+    expect(await completeFocusSession(4, 3, at(25))).toBeNull();
+    expect(db.createEvent).not.toHaveBeenCalled();
+  });
+});
+
+describe("revokeTaskXp", () => {
+  it("takes back what the tasks and their comments earned", async () => {
+    db.findComments.mockResolvedValue([{ id: 9 }]);
+    db.findEvents.mockResolvedValue([{ userId: 4 }]);
+    await revokeTaskXp([1, 2]);
+
+    expect(db.deleteEvents).toHaveBeenCalledWith({
+      where: {
+        sourceKey: {
+          in: ["task:1:created", "task:1:completed", "task:2:created", "task:2:completed", "comment:9"],
+        },
+      },
+    });
+  });
+});
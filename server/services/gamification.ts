@@ -0,0 +1,360 @@
+import { prisma } from '../prisma';
+import { getIO } from '../realtime';
+
+// XP, levels, streaks and achievements. Everything is derived from the XpEvent ledger, which only
+// the server writes, so progress follows the user across devices and can't be edited client-side.
+
+export const XP_REWARDS = {
+  TASK_COMPLETED: 25,
+  TASK_CREATED: 5,
+  STREAK_DAY: 15,
+  FOCUS_SESSION: 20,
+  COMMENT_ADDED: 3,
+  JOURNAL_ENTRY: 10,
+  DAILY_CHECKIN: 8,
+} as const;
+
+export type XpEventType = keyof typeof XP_REWARDS;
+
+// Activity the client reports itself (there's no server-side record of it), so it's capped per day
+export const SELF_REPORTED_LIMITS = {
+  DAILY_CHECKIN: 1,
+  JOURNAL_ENTRY: 1,
+} as const;
+
+export type SelfReportedType = keyof typeof SELF_REPORTED_LIMITS;
+
+export const LEVELS: { minXP: number; title: string }[] = [
+  { minXP: 0, title: 'Rookie' },
+  { minXP: 100, title: 'Apprentice' },
+  { minXP: 300, title: 'Contributor' },
+  { minXP: 600, title: 'Achiever' },
+  { minXP: 1000, title: 'Pro' },
+  { minXP: 1500, title: 'Expert' },
+  { minXP: 2200, title: 'Veteran' },
+  { minXP: 3000, title: 'Master' },
+  { minXP: 4000, title: 'Grandmaster' },
+  { minXP: 5500, title: 'Legend' },
+  { minXP: 7500, title: 'Mythic' },
+  { minXP: 10000, title: 'Transcendent' },
+];
+
+export type AchievementId = 'FIRST_DONE' | 'DONE_10' | 'DONE_50' | 'STREAK_3' | 'STREAK_7' | 'STREAK_14';
+
+export const ACHIEVEMENTS: { id: AchievementId; title: string; description: string }[] = [
+  { id: 'FIRST_DONE', title: 'First Win', description: 'Complete your first task.' },
+  { id: 'DONE_10', title: 'Getting Things Done', description: 'Complete 10 tasks.' },
+  { id: 'DONE_50', title: 'Momentum', description: 'Complete 50 tasks.' },
+  { id: 'STREAK_3', title: '3‑Day Streak', description: 'Complete tasks 3 days in a row.' },
+  { id: 'STREAK_7', title: '7‑Day Streak', description: 'Complete tasks 7 days in a row.' },
+  { id: 'STREAK_14', title: '14‑Day Streak', description: 'Complete tasks 14 days in a row.' },
+];
+
+// Focus sessions are recorded by the server; only this many a day pay out, and only if long enough
+export const FOCUS_SESSIONS_PER_DAY = 8;
+export const MIN_FOCUS_MINUTES = 15;
+export const MAX_FOCUS_MINUTES = 90;
+// Timers in background tabs run a little late or early; a session may finish this much short
+const FOCUS_GRACE_MS = 5 * 1000;
+
+const RECENT_EVENTS = 15;
+// Streaks longer than this many days aren't counted exactly
+const STREAK_LOOKBACK_DAYS = 400;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateKey = (d: Date) => d.toISOString().slice(0, 10);
+
+/**
+ * Level, title and progress towards the next level for a total. Past the last threshold each
+ * level is another 5000 XP away.
+ */
+export const getLevelInfo = (totalXP: number) => {
+  let index = 0;
+  for (let i = 0; i < LEVELS.length; i++) {
+    if (totalXP >= LEVELS[i].minXP) index = i;
+  }
+  const currentThreshold = LEVELS[index].minXP;
+  const nextThreshold = index + 1 < LEVELS.length ? LEVELS[index + 1].minXP : currentThreshold + 5000;
+
+  return {
+    level: index + 1,
+    title: LEVELS[index].title,
+    xpInCurrentLevel: totalXP - currentThreshold,
+    xpToNextLevel: nextThreshold - currentThreshold,
+  };
+};
+
+/**
+ * Consecutive days with a completion, given distinct YYYY-MM-DD keys newest first. A streak whose
+ * last day was yesterday is still alive; it only breaks once a whole day passes without one.
+ */
+export const computeStreak = (dateKeysDesc: string[], todayKey: string) => {
+  if (dateKeysDesc.length === 0) return 0;
+  const yesterdayKey = toDateKey(new Date(new Date(`${todayKey}T00:00:00Z`).getTime() - DAY_MS));
+  if (dateKeysDesc[0] !== todayKey && dateKeysDesc[0] !== yesterdayKey) return 0;
+
+  let streak = 1;
+  let current = new Date(`${dateKeysDesc[0]}T00:00:00Z`);
+  for (let i = 1; i < dateKeysDesc.length; i++) {
+    current = new Date(current.getTime() - DAY_MS);
+    if (dateKeysDesc[i] !== toDateKey(current)) break;
+    streak += 1;
+  }
+  return streak;
+};
+
+/**
+ * Achievements earned by the given totals
+ */
+export const earnedAchievements = (input: { doneCount: number; streak: number }): AchievementId[] => {
+  const earned: AchievementId[] = [];
+  if (input.doneCount >= 1) earned.push('FIRST_DONE');
+  if (input.doneCount >= 10) earned.push('DONE_10');
+  if (input.doneCount >= 50) earned.push('DONE_50');
+  if (input.streak >= 3) earned.push('STREAK_3');
+  if (input.streak >= 7) earned.push('STREAK_7');
+  if (input.streak >= 14) earned.push('STREAK_14');
+  return earned;
+};
+
+const completionStats = async (userId: number, now = new Date()) => {
+  const completions = await prisma.xpEvent.findMany({
+    where: { userId, type: 'TASK_COMPLETED' },
+    select: { createdAt: true },
+    orderBy: { createdAt: 'desc' },
+  });
+  const cutoff = now.getTime() - STREAK_LOOKBACK_DAYS * DAY_MS;
+  const dates = Array.from(
+    new Set(completions.filter((c) => c.createdAt.getTime() >= cutoff).map((c) => toDateKey(c.createdAt)))
+  );
+  return {
+    doneCount: completions.length,
+    streak: computeStreak(dates, toDateKey(now)),
+    lastCompletedOn: dates[0] ?? null,
+  };
+};
+
+/**
+ * Credit XP once per source. Returns false when this source already paid out.
+ */
+const award = async (userId: number, type: XpEventType, sourceKey: string) => {
+  try {
+    await prisma.xpEvent.create({ data: { userId, type, xp: XP_REWARDS[type], sourceKey } });
+    return true;
+  } catch (error) {
+    if ((error as { code?: string })?.code === 'P2002') return false;
+    throw error;
+  }
+};
+
+/**
+ * Unlock anything newly earned and tell the user's open tabs about their new total
+ */
+const settle = async (userId: number) => {
+  const stats = await completionStats(userId);
+  const existing = await prisma.userAchievement.findMany({ where: { userId }, select: { achievementId: true } });
+  const have = new Set(existing.map((a) => a.achievementId));
+
+  const unlocked = [];
+  for (const id of earnedAchievements(stats)) {
+    if (have.has(id)) continue;
+    try {
+      await prisma.userAchievement.create({ data: { userId, achievementId: id } });
+      unlocked.push(ACHIEVEMENTS.find((a) => a.id === id)!);
+    } catch (error) {
+      if ((error as { code?: string })?.code !== 'P2002') throw error;
+    }
+  }
+
+  getIO()?.to(`user:${userId}`).emit('gamification:updated', { unlocked });
+};
+
+/**
+ * Credit completed tasks to their assignees, or to whoever completed them when nobody is
+ * assigned. Each task pays out once per user, however often it's reopened. Never throws.
+ */
+export const recordTasksCompleted = async (taskIds: number[], actorId: number | undefined) => {
+  if (taskIds.length === 0) return;
+  try {
+    const tasks = await prisma.task.findMany({
+      where: { id: { in: taskIds } },
+      select: { id: true, assignees: { select: { userId: true } } },
+    });
+    const today = toDateKey(new Date());
+    const credited = new Set<number>();
+
+    for (const task of tasks) {
+      const userIds = task.assignees.length > 0 ? task.assignees.map((a) => a.userId) : actorId ? [actorId] : [];
+      for (const userId of userIds) {
+        if (!(await award(userId, 'TASK_COMPLETED', `task:${task.id}:completed`))) continue;
+        await award(userId, 'STREAK_DAY', `streak:${today}`);
+        credited.add(userId);
+      }
+    }
+    for (const userId of credited) await settle(userId);
+  } catch (error) {
+    console.error('Error recording task completion XP:', error);
+  }
+};
+
+/**
+ * Credit the creator of a task. Never throws.
+ */
+export const recordTaskCreated = async (taskId: number, userId: number | undefined) => {
+  if (!userId) return;
+  try {
+    if (await award(userId, 'TASK_CREATED', `task:${taskId}:created`)) await settle(userId);
+  } catch (error) {
+    console.error('Error recording task creation XP:', error);
+  }
+};
+
+/**
+ * Credit the author of a comment. Never throws.
+ */
+export const recordCommentCreated = async (commentId: number, userId: number) => {
+  try {
+    if (await award(userId, 'COMMENT_ADDED', `comment:${commentId}`)) await settle(userId);
+  } catch (error) {
+    console.error('Error recording comment XP:', error);
+  }
+};
+
+/**
+ * Take back what tasks and their comments earned, before they're deleted, so creating, completing
+ * and deleting tasks can't be repeated for XP. Streak days stay. Never throws.
+ */
+export const revokeTaskXp = async (taskIds: number[]) => {
+  if (taskIds.length === 0) return;
+  try {
+    const comments = await prisma.comment.findMany({ where: { taskId: { in: taskIds } }, select: { id: true } });
+    await revoke([
+      ...taskIds.flatMap((id) => [`task:${id}:created`, `task:${id}:completed`]),
+      ...comments.map((c) => `comment:${c.id}`),
+    ]);
+  } catch (error) {
+    console.error('Error revoking task XP:', error);
+  }
+};
+
+/**
+ * Take back what a comment earned, before it's deleted. Never throws.
+ */
+export const revokeCommentXp = async (commentId: number) => {
+  try {
+    await revoke([`comment:${commentId}`]);
+  } catch (error) {
+    console.error('Error revoking comment XP:', error);
+  }
+};
+
+const revoke = async (sourceKeys: string[]) => {
+  const events = await prisma.xpEvent.findMany({ where: { sourceKey: { in: sourceKeys } }, select: { userId: true } });
+  if (events.length === 0) return;
+  await prisma.xpEvent.deleteMany({ where: { sourceKey: { in: sourceKeys } } });
+  for (const userId of new Set(events.map((e) => e.userId))) {
+    getIO()?.to(`user:${userId}`).emit('gamification:updated', { unlocked: [] });
+  }
+};
+
+/**
+ * Start a focus session. A user has one at a time, so starting another abandons the last.
+ */
+export const startFocusSession = async (userId: number, minutes: number) => {
+  await prisma.focusSession.deleteMany({ where: { userId, completedAt: null } });
+  return prisma.focusSession.create({ data: { userId, minutes }, select: { id: true, minutes: true, startedAt: true } });
+};
+
+/**
+ * Finish the user's open focus session and credit it, once it has run its full length. Returns
+ * null when there's no such open session.
+ */
+export const completeFocusSession = async (
+  userId: number,
+  sessionId: number,
+  now = new Date()
+): Promise<{ awarded: boolean } | { error: string } | null> => {
+  const session = await prisma.focusSession.findFirst({ where: { id: sessionId, userId, completedAt: null } });
+  if (!session) return null;
+  if (now.getTime() - session.startedAt.getTime() < session.minutes * 60 * 1000 - FOCUS_GRACE_MS) {
+    return { error: "This focus session hasn't run its full length yet" };
+  }
+
+  // Two racing requests can't both complete it
+  const { count } = await prisma.focusSession.updateMany({
+    where: { id: sessionId, completedAt: null },
+    data: { completedAt: now },
+  });
+  if (count === 0) return null;
+  if (session.minutes < MIN_FOCUS_MINUTES) return { awarded: false };
+
+  const startOfDay = new Date(`${toDateKey(now)}T00:00:00Z`);
+  const today = await prisma.xpEvent.count({ where: { userId, type: 'FOCUS_SESSION', createdAt: { gte: startOfDay } } });
+  if (today >= FOCUS_SESSIONS_PER_DAY) return { awarded: false };
+
+  const awarded = await award(userId, 'FOCUS_SESSION', `focus:${sessionId}`);
+  if (awarded) await settle(userId);
+  return { awarded };
+};
+
+/**
+ * Credit activity the client reports, up to its daily limit.
+ * Returns false once the limit for today has been reached.
+ */
+export const recordSelfReported = async (userId: number, type: SelfReportedType, now = new Date()) => {
+  const today = toDateKey(now);
+  const count = await prisma.xpEvent.count({
+    where: { userId, type, sourceKey: { startsWith: `${type.toLowerCase()}:${today}:` } },
+  });
+  if (count >= SELF_REPORTED_LIMITS[type]) return false;
+
+  // The count in the key makes two racing requests collide instead of both paying out
+  const awarded = await award(userId, type, `${type.toLowerCase()}:${today}:${count + 1}`);
+  if (awarded) await settle(userId);
+  return awarded;
+};
+
+/**
+ * Total XP per user, for leaderboards
+ */
+export const getTotalXp = async (userIds: number[]) => {
+  const rows = await prisma.xpEvent.groupBy({
+    by: ['userId'],
+    where: { userId: { in: userIds } },
+    _sum: { xp: true },
+  });
+  return new Map(rows.map((r) => [r.userId, r._sum.xp ?? 0]));
+};
+
+/**
+ * Everything the XP bar and achievement badges show for one user
+ */
+export const getGamificationState = async (userId: number, now = new Date()) => {
+  const startOfDay = new Date(`${toDateKey(now)}T00:00:00Z`);
+  const [total, today, recentEvents, unlocked, stats] = await Promise.all([
+    prisma.xpEvent.aggregate({ where: { userId }, _sum: { xp: true } }),
+    prisma.xpEvent.aggregate({ where: { userId, createdAt: { gte: startOfDay } }, _sum: { xp: true } }),
+    prisma.xpEvent.findMany({
+      where: { userId },
+      select: { type: true, xp: true, createdAt: true },
+      orderBy: { createdAt: 'desc' },
+      take: RECENT_EVENTS,
+    }),
+    prisma.userAchievement.findMany({ where: { userId }, select: { achievementId: true, unlockedAt: true } }),
+    completionStats(userId, now),
+  ]);
+
+  const totalXP = total._sum.xp ?? 0;
+  const unlockedAt = new Map(unlocked.map((a) => [a.achievementId, a.unlockedAt]));
+
+  return {
+    totalXP,
+    ...getLevelInfo(totalXP),
+    xpToday: today._sum.xp ?? 0,
+    recentEvents: recentEvents.map((e) => ({ type: e.type, xp: e.xp, timestamp: e.createdAt })),
+    streak: stats.streak,
+    lastCompletedOn: stats.lastCompletedOn,
+    doneCount: stats.doneCount,
+    achievements: ACHIEVEMENTS.map((a) => ({ ...a, unlockedAt: unlockedAt.get(a.id) ?? null })),
+  };
+};
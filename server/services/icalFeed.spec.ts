@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { FeedTask, buildCalendar, escapeText, foldLine } from "./icalFeed";
+
+const task = (overrides: Partial<FeedTask> = {}): FeedTask => ({
+  id: 42,
+  title: "Ship release",
+  description: null,
+  dueDate: "2026-03-31",
+  statusName: "In Progress",
+  isDone: false,
+  priority: "high",
+  projectName: "Website",
+  labels: [],
+  assignees: ["Ada"],
+  url: "http://localhost:8080/project/3?task=42",
+  updatedAt: new Date("2026-03-01T10:00:00Z"),
+  ...overrides,
+});
+
+describe("escapeText", () => {
+  it("escapes backslashes, separators and newlines", () => {
+    expect(escapeText("a\\b; c, d\r\ne")).toBe("a\\\\b\\; c\\, d\\ne");
+  });
+});
+
+describe("foldLine", () => {
+  it("leaves short lines alone", () => {
+    expect(foldLine("SUMMARY:Short")).toBe("SUMMARY:Short");
+  });
+
+  it("folds at 75 octets without splitting multi-byte characters", () => {
+    const folded = foldLine(`SUMMARY:${"é".repeat(80)}`);
+    const parts = folded.split("\r\n");
+    expect(parts.length).toBeGreaterThan(1);
+    for (const part of parts) {
+      expect(Buffer.byteLength(part, "utf8")).toBeLessThanOrEqual(75);
+    }
+    expect(parts.slice(1).every((part) => part.startsWith(" "))).toBe(true);
+    expect(parts.map((part, i) => (i === 0 ? part : part.slice(1))).join("")).toBe(`SUMMARY:${"é".repeat(80)}`);
+  });
+});
+
+describe("buildCalendar", () => {
+  const now = new Date("2026-03-02T08:30:00Z");
+
+  it("emits an all-day event on the due date with a stable UID", () => {
+    const ics = buildCalendar("ProUp – Website", [task()], now);
+    const lines = ics.split("\r\n");
+
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(lines).toContain("X-WR-CALNAME:ProUp – Website");
+    expect(lines).toContain("UID:task-42@localhost");
+    expect(lines).toContain("DTSTAMP:20260302T083000Z");
+    expect(lines).toContain("LAST-MODIFIED:20260301T100000Z");
+    expect(lines).toContain("DTSTART;VALUE=DATE:20260331");
+    expect(lines).toContain("DTEND;VALUE=DATE:20260401");
+    expect(lines).toContain("URL:http://localhost:8080/project/3?task=42");
+  });
+
+  it("puts status, priority and the deep link in the description", () => {
+    const ics = buildCalendar("Feed", [task({ description: "Tag, then deploy" })], now).replace(/\r\n /g, "");
+    expect(ics).toContain(
+      "DESCRIPTION:Status: In Progress\\nPriority: high\\nProject: Website\\nAssignees: Ada\\n\\nTag\\, then deploy\\n\\nhttp://localhost:8080/project/3?task=42"
+    );
+  });
+
+  it("marks done tasks and lists labels as categories", () => {
+    const lines = buildCalendar("Feed", [task({ isDone: true, labels: ["bug", "a,b"] })], now).split("\r\n");
+    expect(lines).toContain("SUMMARY:✓ Ship release");
+    expect(lines).toContain("CATEGORIES:bug,a\\,b");
+  });
+
+  it("produces an empty calendar when there are no tasks", () => {
+    expect(buildCalendar("Feed", [], now)).not.toContain("BEGIN:VEVENT");
+  });
+});
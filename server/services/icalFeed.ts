@@ -0,0 +1,119 @@
+import crypto from 'crypto';
+
+// iCalendar (RFC 5545) output for calendar feed subscriptions
+
+export const CALENDAR_FEED_PREFIX = 'cal_';
+
+export interface FeedTask {
+  id: number;
+  title: string;
+  description: string | null;
+  // YYYY-MM-DD
+  dueDate: string;
+  statusName: string;
+  isDone: boolean;
+  priority: string;
+  projectName: string | null;
+  labels: string[];
+  assignees: string[];
+  url: string;
+  updatedAt: Date;
+}
+
+export const generateFeedToken = () => `${CALENDAR_FEED_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+
+const appUrl = () => (process.env.APP_URL || 'http://localhost:8080').replace(/\/$/, '');
+
+export const feedUrl = (token: string) => `${appUrl()}/api/calendar/feed/${token}.ics`;
+
+export const taskUrl = (task: { id: number; projectId: number | null }) =>
+  task.projectId ? `${appUrl()}/project/${task.projectId}?task=${task.id}` : `${appUrl()}/my-tasks?task=${task.id}`;
+
+/** Escape a TEXT value: backslashes, semicolons, commas and newlines */
+export const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/**
+ * Fold a content line to 75 octets, continuing with CRLF and a space. Splits never fall
+ * inside a multi-byte character.
+ */
+export const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    // Continuation lines start with a space, which counts toward their 75
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const formatTimestamp = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+  `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const nextDay = (date: string) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+};
+
+const uidHost = () => new URL(appUrl()).hostname;
+
+/**
+ * A VCALENDAR with one all-day VEVENT per task on its due date. UIDs only depend on the task
+ * id, so calendar apps update events in place when a task moves.
+ */
+export const buildCalendar = (name: string, tasks: FeedTask[], now = new Date()) => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//ProUp//Task due dates//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    // Hint for clients that support it; most poll on their own schedule
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+
+  for (const task of tasks) {
+    const details = [
+      `Status: ${task.statusName}`,
+      `Priority: ${task.priority}`,
+      task.projectName ? `Project: ${task.projectName}` : null,
+      task.assignees.length ? `Assignees: ${task.assignees.join(', ')}` : null,
+      task.description ? `\n${task.description}` : null,
+      `\n${task.url}`,
+    ].filter((line): line is string => line !== null);
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:task-${task.id}@${uidHost()}`,
+      `DTSTAMP:${formatTimestamp(now)}`,
+      `LAST-MODIFIED:${formatTimestamp(task.updatedAt)}`,
+      `DTSTART;VALUE=DATE:${task.dueDate.replace(/-/g, '')}`,
+      `DTEND;VALUE=DATE:${nextDay(task.dueDate).replace(/-/g, '')}`,
+      `SUMMARY:${escapeText(task.isDone ? `✓ ${task.title}` : task.title)}`,
+      `DESCRIPTION:${escapeText(details.join('\n'))}`,
+      `URL:${task.url}`,
+      // Due dates shouldn't block out time in the user's calendar
+      'TRANSP:TRANSPARENT',
+      ...(task.labels.length ? [`CATEGORIES:${task.labels.map(escapeText).join(',')}`] : []),
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
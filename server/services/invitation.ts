@@ -2,6 +2,7 @@ import { prisma } from '../prisma';
 import crypto from 'crypto';
 import nodemailer from 'nodemailer';
 import dotenv from 'dotenv';
+import { queueWebhookEvent } from './webhooks';
 
 dotenv.config();
 
@@ -183,6 +184,10 @@ export const acceptInvitation = async (token: string, userId: number) => {
       data: { status: 'accepted' },
     });
 
+    await queueWebhookEvent(invitation.projectId, 'member.joined', {
+      member: { id: user.id, name: user.name, email: user.email, role: membership.role },
+    });
+
     return {
       membership,
       project: invitation.project,
@@ -264,14 +269,14 @@ export const getUserInvitations = async (email: string) => {
 /**
  * Cancel/revoke an invitation
  */
-export const cancelInvitation = async (invitationId: number) => {
+export const cancelInvitation = async (invitationId: number, projectId: number) => {
   try {
-    const invitation = await prisma.invitation.update({
-      where: { id: invitationId },
+    const { count } = await prisma.invitation.updateMany({
+      where: { id: invitationId, projectId },
       data: { status: 'expired' },
     });
 
-    return invitation;
+    return count > 0;
   } catch (error) {
     console.error('Error canceling invitation:', error);
     throw error;
@@ -0,0 +1,61 @@
+import nodemailer from 'nodemailer';
+
+// Outgoing mail for notifications. SMTP_URL wins, then the Gmail account used for invitations;
+// with neither configured, messages are logged instead of sent.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+let transport: any = undefined;
+
+const createTransport = () => {
+  if (process.env.SMTP_URL) return nodemailer.createTransport(process.env.SMTP_URL);
+
+  const gmailUser = process.env.GMAIL_USER;
+  const gmailPassword = process.env.GMAIL_PASSWORD;
+  if (gmailUser && gmailPassword) {
+    return nodemailer.createTransport({ service: 'gmail', auth: { user: gmailUser, pass: gmailPassword } });
+  }
+  return null;
+};
+
+/**
+ * Replace the transport, e.g. with nodemailer's `{ jsonTransport: true }` in tests.
+ * Passing undefined goes back to the environment's configuration.
+ */
+export const setMailTransport = (next: any) => {
+  transport = next;
+};
+
+export const appUrl = () => (process.env.APP_URL || 'http://localhost:8080').replace(/\/$/, '');
+
+const fromAddress = () => process.env.MAIL_FROM || process.env.GMAIL_USER || 'ProUp <no-reply@localhost>';
+
+/**
+ * Send a message. Returns false when mail isn't configured and the message was only logged.
+ */
+export const sendMail = async (message: MailMessage) => {
+  if (transport === undefined) transport = createTransport();
+
+  if (!transport) {
+    console.log('====================================');
+    console.log('📧 MOCK NOTIFICATION EMAIL (mail not configured)');
+    console.log('====================================');
+    console.log(`To: ${message.to}`);
+    console.log(`Subject: ${message.subject}`);
+    console.log(message.text);
+    console.log('====================================');
+    return false;
+  }
+
+  await transport.sendMail({ from: fromAddress(), ...message });
+  return true;
+};
+
+export const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
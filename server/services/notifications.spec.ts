@@ -0,0 +1,109 @@
+import nodemailer from "nodemailer";
+import { afterEach, describe, it, expect, vi } from "vitest";
+
+vi.mock("../prisma", () => ({ prisma: {} }));
+vi.mock("../realtime", () => ({ getIO: () => null }));
+
+import {
+  DEFAULT_PREFERENCES,
+  buildDigestEmail,
+  buildNotificationEmail,
+  categoryForType,
+  parsePreferencesInput,
+  resolvePreferences,
+} from "./notifications";
+import { sendMail, setMailTransport } from "./mailer";
+
+const notification = (title: string, createdAt: string, body: string | null = "Ship release") => ({
+  title,
+  body,
+  link: "/project/3?task=42",
+  createdAt: new Date(createdAt),
+});
+
+describe("categoryForType", () => {
+  it("maps notification types to preference categories", () => {
+    expect(categoryForType("TASK_ASSIGNED")).toBe("assigned");
+    expect(categoryForType("COMMENT_MENTION")).toBe("mentioned");
+    expect(categoryForType("TASK_DUE_SOON")).toBe("dueSoon");
+    expect(categoryForType("TASK_OVERDUE_ESCALATION")).toBe("overdue");
+    expect(categoryForType("SOMETHING_ELSE")).toBeNull();
+  });
+});
+
+describe("resolvePreferences", () => {
+  it("overlays stored rows on the defaults", () => {
+    const preferences = resolvePreferences([
+      { type: "commented", inApp: false, email: "digest" },
+      { type: "unknown", inApp: false, email: "immediate" },
+      { type: "assigned", inApp: true, email: "weekly" },
+    ]);
+    expect(preferences.commented).toEqual({ inApp: false, email: "digest" });
+    expect(preferences.assigned).toEqual({ inApp: true, email: "off" });
+    expect(preferences.mentioned).toEqual(DEFAULT_PREFERENCES.mentioned);
+    expect(preferences).not.toHaveProperty("unknown");
+  });
+});
+
+describe("parsePreferencesInput", () => {
+  it("accepts partial updates per type", () => {
+    expect(parsePreferencesInput({ dueSoon: { email: "immediate" }, commented: { inApp: false } })).toEqual({
+      input: { dueSoon: { email: "immediate" }, commented: { inApp: false } },
+    });
+  });
+
+  it.each([
+    [[], "Preferences must be an object"],
+    [{ liked: { inApp: true } }, 'Unknown notification type "liked". Use assigned, mentioned, commented, statusChanged, dueSoon, overdue'],
+    [{ assigned: true }, "Preferences for assigned must be an object"],
+    [{ assigned: { inApp: "yes" } }, "inApp must be a boolean"],
+    [{ assigned: { email: "weekly" } }, "email must be one of off, immediate, digest"],
+  ])("rejects invalid preferences (%#)", (body, error) => {
+    expect(parsePreferencesInput(body)).toEqual({ error });
+  });
+});
+
+describe("notification emails", () => {
+  afterEach(() => setMailTransport(undefined));
+
+  it("links the task and a one-click unsubscribe", () => {
+    const mail = buildNotificationEmail("ada@example.com", notification("Mentioned in a comment", "2026-03-01T10:00:00Z"), "http://localhost:8080/api/notifications/unsubscribe/abc");
+    expect(mail.subject).toBe("Mentioned in a comment: Ship release");
+    expect(mail.text).toContain("http://localhost:8080/project/3?task=42");
+    expect(mail.headers).toEqual({
+      "List-Unsubscribe": "<http://localhost:8080/api/notifications/unsubscribe/abc>",
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    });
+  });
+
+  it("batches notifications newest first and escapes HTML", () => {
+    const mail = buildDigestEmail(
+      "ada@example.com",
+      "Ada",
+      [
+        notification("Assigned to you", "2026-03-01T10:00:00Z", "<b>Fix</b> login"),
+        notification("Due tomorrow", "2026-03-02T10:00:00Z"),
+      ],
+      "http://localhost:8080/api/notifications/unsubscribe/abc"
+    );
+    expect(mail.subject).toBe("Your ProUp digest: 2 updates");
+    expect(mail.text.indexOf("Due tomorrow")).toBeLessThan(mail.text.indexOf("Assigned to you"));
+    expect(mail.html).toContain("&lt;b&gt;Fix&lt;/b&gt; login");
+    expect(mail.html).not.toContain("<b>Fix</b>");
+  });
+
+  it("sends through the configured transport", async () => {
+    const transport = nodemailer.createTransport({ jsonTransport: true });
+    const spy = vi.spyOn(transport, "sendMail");
+    setMailTransport(transport);
+
+    const mail = buildDigestEmail("ada@example.com", "Ada", [notification("Due tomorrow", "2026-03-02T10:00:00Z")], "http://x/u");
+    await expect(sendMail(mail)).resolves.toBe(true);
+
+    const info = await spy.mock.results[0].value;
+    const sent = JSON.parse(info.message);
+    expect(sent.to).toEqual([{ address: "ada@example.com", name: "" }]);
+    expect(sent.subject).toBe("Your ProUp digest: 1 update");
+    expect(sent.headers["List-Unsubscribe"]).toBe("<http://x/u>");
+  });
+});
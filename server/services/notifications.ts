@@ -0,0 +1,349 @@
+import crypto from 'crypto';
+import { prisma } from '../prisma';
+import { getIO } from '../realtime';
+import { appUrl, escapeHtml, sendMail } from './mailer';
+
+export const NOTIFICATION_CATEGORIES = ['assigned', 'mentioned', 'commented', 'statusChanged', 'dueSoon', 'overdue'] as const;
+export type NotificationCategory = (typeof NOTIFICATION_CATEGORIES)[number];
+
+export const EMAIL_DELIVERIES = ['off', 'immediate', 'digest'] as const;
+export type EmailDelivery = (typeof EMAIL_DELIVERIES)[number];
+
+export interface NotificationPreferenceValue {
+  inApp: boolean;
+  email: EmailDelivery;
+}
+
+export type NotificationPreferences = Record<NotificationCategory, NotificationPreferenceValue>;
+
+export interface NotificationInput {
+  userId: number;
+  type: string;
+  title: string;
+  body?: string | null;
+  link?: string | null;
+}
+
+// Notification.type values and the preference that controls them
+const CATEGORY_BY_TYPE: Record<string, NotificationCategory> = {
+  TASK_ASSIGNED: 'assigned',
+  COMMENT_MENTION: 'mentioned',
+  TASK_COMMENT: 'commented',
+  TASK_STATUS_CHANGED: 'statusChanged',
+  TASK_DUE_SOON: 'dueSoon',
+  TASK_OVERDUE: 'overdue',
+  TASK_OVERDUE_ESCALATION: 'overdue',
+};
+
+export const DEFAULT_PREFERENCES: NotificationPreferences = {
+  assigned: { inApp: true, email: 'digest' },
+  mentioned: { inApp: true, email: 'immediate' },
+  commented: { inApp: true, email: 'off' },
+  statusChanged: { inApp: true, email: 'off' },
+  dueSoon: { inApp: true, email: 'digest' },
+  overdue: { inApp: true, email: 'immediate' },
+};
+
+// Digests go out once a day, on the first scheduler run at or after this hour (UTC)
+const DIGEST_HOUR_UTC = 8;
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+// Longest digest; anything older is still marked as emailed
+const MAX_DIGEST_ITEMS = 50;
+
+export const categoryForType = (type: string): NotificationCategory | null => CATEGORY_BY_TYPE[type] ?? null;
+
+export const taskLink = (task: { id: number; projectId: number | null }) =>
+  task.projectId ? `/project/${task.projectId}?task=${task.id}` : `/my-tasks?task=${task.id}`;
+
+/**
+ * Merge stored preference rows over the defaults, ignoring rows for unknown categories
+ */
+export const resolvePreferences = (rows: Array<{ type: string; inApp: boolean; email: string }>) => {
+  const preferences = structuredClone(DEFAULT_PREFERENCES);
+  for (const row of rows) {
+    if (!NOTIFICATION_CATEGORIES.includes(row.type as NotificationCategory)) continue;
+    preferences[row.type as NotificationCategory] = {
+      inApp: row.inApp,
+      email: EMAIL_DELIVERIES.includes(row.email as EmailDelivery) ? (row.email as EmailDelivery) : 'off',
+    };
+  }
+  return preferences;
+};
+
+/**
+ * Validate preferences submitted by a client: `{ [category]: { inApp?, email? } }`.
+ * Categories left out keep their current values.
+ */
+export const parsePreferencesInput = (
+  body: any
+): { input: Partial<Record<NotificationCategory, Partial<NotificationPreferenceValue>>> } | { error: string } => {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { error: 'Preferences must be an object' };
+  }
+
+  const input: Partial<Record<NotificationCategory, Partial<NotificationPreferenceValue>>> = {};
+  for (const [category, value] of Object.entries(body)) {
+    if (!NOTIFICATION_CATEGORIES.includes(category as NotificationCategory)) {
+      return { error: `Unknown notification type "${category}". Use ${NOTIFICATION_CATEGORIES.join(', ')}` };
+    }
+    if (typeof value !== 'object' || value === null) {
+      return { error: `Preferences for ${category} must be an object` };
+    }
+    const { inApp, email } = value as Record<string, unknown>;
+    const parsed: Partial<NotificationPreferenceValue> = {};
+    if (inApp !== undefined) {
+      if (typeof inApp !== 'boolean') return { error: 'inApp must be a boolean' };
+      parsed.inApp = inApp;
+    }
+    if (email !== undefined) {
+      if (!EMAIL_DELIVERIES.includes(email as EmailDelivery)) {
+        return { error: `email must be one of ${EMAIL_DELIVERIES.join(', ')}` };
+      }
+      parsed.email = email as EmailDelivery;
+    }
+    input[category as NotificationCategory] = parsed;
+  }
+  return { input };
+};
+
+export const getNotificationPreferences = async (userId: number) =>
+  resolvePreferences(await prisma.notificationPreference.findMany({ where: { userId } }));
+
+export const saveNotificationPreferences = async (
+  userId: number,
+  input: Partial<Record<NotificationCategory, Partial<NotificationPreferenceValue>>>
+) => {
+  const current = await getNotificationPreferences(userId);
+  await prisma.$transaction(
+    Object.entries(input).map(([type, value]) => {
+      const next = { ...current[type as NotificationCategory], ...value };
+      return prisma.notificationPreference.upsert({
+        where: { userId_type: { userId, type } },
+        create: { userId, type, ...next },
+        update: next,
+      });
+    })
+  );
+
+  // Pending digest items of a type that's no longer emailed shouldn't go out tomorrow
+  const stopped = Object.entries(input)
+    .filter(([, value]) => value.email !== undefined && value.email !== 'digest')
+    .map(([type]) => type);
+  const stoppedTypes = Object.keys(CATEGORY_BY_TYPE).filter((t) => stopped.includes(CATEGORY_BY_TYPE[t]));
+  if (stoppedTypes.length > 0) {
+    await prisma.notification.updateMany({
+      where: { userId, type: { in: stoppedTypes }, emailDelivery: 'digest', emailedAt: null },
+      data: { emailDelivery: null },
+    });
+  }
+
+  return getNotificationPreferences(userId);
+};
+
+const ensureUnsubscribeToken = async (user: { id: number; unsubscribeToken: string | null }) => {
+  if (user.unsubscribeToken) return user.unsubscribeToken;
+  const token = crypto.randomBytes(24).toString('base64url');
+  await prisma.user.update({ where: { id: user.id }, data: { unsubscribeToken: token } });
+  return token;
+};
+
+export const unsubscribeUrl = (token: string) => `${appUrl()}/api/notifications/unsubscribe/${token}`;
+
+/**
+ * Turn off every email notification for the user the token belongs to.
+ * Returns false for an unknown token.
+ */
+export const unsubscribeByToken = async (token: string) => {
+  const user = await prisma.user.findUnique({ where: { unsubscribeToken: token }, select: { id: true } });
+  if (!user) return false;
+
+  await saveNotificationPreferences(
+    user.id,
+    Object.fromEntries(NOTIFICATION_CATEGORIES.map((category) => [category, { email: 'off' as const }]))
+  );
+  return true;
+};
+
+type MailNotification = { title: string; body: string | null; link: string | null; createdAt: Date };
+
+const absoluteLink = (link: string | null) => (link ? `${appUrl()}${link}` : `${appUrl()}/inbox`);
+
+const layout = (heading: string, content: string, unsubscribe: string) => `
+  <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+    <h2 style="color: #333;">${escapeHtml(heading)}</h2>
+    ${content}
+    <hr style="border: none; border-top: 1px solid #ddd; margin: 20px 0;">
+    <p style="color: #999; font-size: 12px;">
+      <a href="${appUrl()}/inbox" style="color: #999;">Notification settings</a> ·
+      <a href="${unsubscribe}" style="color: #999;">Unsubscribe from all emails</a>
+    </p>
+  </div>
+`;
+
+const itemHtml = (n: MailNotification) => `
+    <p style="color: #666; font-size: 14px; margin: 0 0 16px;">
+      <a href="${escapeHtml(absoluteLink(n.link))}" style="color: #333; font-weight: bold;">${escapeHtml(n.title)}</a>
+      ${n.body ? `<br>${escapeHtml(n.body)}` : ''}
+    </p>`;
+
+const itemText = (n: MailNotification) => [n.title, n.body, absoluteLink(n.link)].filter(Boolean).join('\n');
+
+// RFC 8058 one-click unsubscribe: mail clients POST to the same URL
+const unsubscribeHeaders = (unsubscribe: string) => ({
+  'List-Unsubscribe': `<${unsubscribe}>`,
+  'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+});
+
+/**
+ * Email for a single notification sent as soon as it's created
+ */
+export const buildNotificationEmail = (to: string, notification: MailNotification, unsubscribe: string) => ({
+  to,
+  subject: notification.body ? `${notification.title}: ${notification.body}` : notification.title,
+  html: layout(notification.title, itemHtml(notification), unsubscribe),
+  text: `${itemText(notification)}\n\nUnsubscribe: ${unsubscribe}`,
+  headers: unsubscribeHeaders(unsubscribe),
+});
+
+/**
+ * One email summarising a user's unread notifications, newest first
+ */
+export const buildDigestEmail = (
+  to: string,
+  name: string,
+  notifications: MailNotification[],
+  unsubscribe: string
+) => {
+  const items = [...notifications].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  const shown = items.slice(0, MAX_DIGEST_ITEMS);
+  const more = items.length - shown.length;
+  const summary = `You have ${items.length} unread notification${items.length === 1 ? '' : 's'}`;
+
+  return {
+    to,
+    subject: `Your ProUp digest: ${items.length} update${items.length === 1 ? '' : 's'}`,
+    html: layout(
+      `Hi ${name}`,
+      `<p style="color: #666; font-size: 14px;">${summary}:</p>${shown.map(itemHtml).join('')}` +
+        (more > 0 ? `<p style="color: #666; font-size: 14px;"><a href="${appUrl()}/inbox">…and ${more} more</a></p>` : ''),
+      unsubscribe
+    ),
+    text:
+      `Hi ${name},\n\n${summary}:\n\n${shown.map(itemText).join('\n\n')}` +
+      (more > 0 ? `\n\n…and ${more} more: ${appUrl()}/inbox` : '') +
+      `\n\nUnsubscribe: ${unsubscribe}`,
+    headers: unsubscribeHeaders(unsubscribe),
+  };
+};
+
+const sendImmediateEmail = async (notificationId: number) => {
+  const notification = await prisma.notification.findUnique({
+    where: { id: notificationId },
+    include: { user: { select: { id: true, email: true, unsubscribeToken: true } } },
+  });
+  if (!notification) return;
+
+  const token = await ensureUnsubscribeToken(notification.user);
+  await sendMail(buildNotificationEmail(notification.user.email, notification, unsubscribeUrl(token)));
+  await prisma.notification.update({ where: { id: notification.id }, data: { emailedAt: new Date() } });
+};
+
+/**
+ * Record a notification and deliver it on the channels the user chose for its type.
+ * Never throws, so callers can notify after their own work has succeeded.
+ */
+export const notify = async (input: NotificationInput) => {
+  try {
+    const category = categoryForType(input.type);
+    const preference = category
+      ? (await getNotificationPreferences(input.userId))[category]
+      : { inApp: true, email: 'off' as const };
+    if (!preference.inApp && preference.email === 'off') return;
+
+    const created = await prisma.notification.create({
+      data: {
+        userId: input.userId,
+        type: input.type,
+        title: input.title,
+        body: input.body ?? null,
+        link: input.link ?? null,
+        inApp: preference.inApp,
+        emailDelivery: preference.email === 'off' ? null : preference.email,
+      },
+    });
+
+    if (preference.inApp) {
+      getIO()?.to(`user:${input.userId}`).emit('notification:created', created);
+    }
+    if (preference.email === 'immediate') {
+      sendImmediateEmail(created.id).catch((error) => console.error('Failed to email notification:', error));
+    }
+  } catch (error) {
+    console.error('Failed to create notification:', error);
+  }
+};
+
+/**
+ * Email each user whose digest is due a summary of their unread digest notifications
+ */
+export const sendDueDigests = async (now = new Date()) => {
+  if (now.getUTCHours() < DIGEST_HOUR_UTC) return 0;
+  const startOfDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+  const pending = await prisma.notification.findMany({
+    where: {
+      emailDelivery: 'digest',
+      emailedAt: null,
+      readAt: null,
+      user: { OR: [{ digestSentAt: null }, { digestSentAt: { lt: startOfDay } }] },
+    },
+    include: { user: { select: { id: true, email: true, name: true, unsubscribeToken: true } } },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  const byUser = new Map<number, typeof pending>();
+  for (const notification of pending) {
+    byUser.set(notification.userId, [...(byUser.get(notification.userId) ?? []), notification]);
+  }
+
+  let sent = 0;
+  for (const notifications of byUser.values()) {
+    const { user } = notifications[0];
+    try {
+      const token = await ensureUnsubscribeToken(user);
+      await sendMail(buildDigestEmail(user.email, user.name, notifications, unsubscribeUrl(token)));
+      await prisma.$transaction([
+        prisma.notification.updateMany({
+          where: { id: { in: notifications.map((n) => n.id) } },
+          data: { emailedAt: now },
+        }),
+        prisma.user.update({ where: { id: user.id }, data: { digestSentAt: now } }),
+      ]);
+      sent++;
+    } catch (error) {
+      console.error(`Failed to send digest to user ${user.id}:`, error);
+    }
+  }
+  return sent;
+};
+
+let schedulerStarted = false;
+
+/**
+ * Send daily digests; checked every hour so they go out soon after DIGEST_HOUR_UTC
+ */
+export const startNotificationScheduler = () => {
+  if (schedulerStarted) return;
+  schedulerStarted = true;
+
+  const run = async () => {
+    try {
+      await sendDueDigests();
+    } catch (error) {
+      console.error('Error sending notification digests:', error);
+    }
+  };
+
+  run();
+  setInterval(run, SCHEDULER_INTERVAL_MS).unref();
+};
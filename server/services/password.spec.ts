@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { hashPassword, needsRehash, verifyPassword } from "./password";
+
+describe("password", () => {
+  it("verifies a password against its own hash only", async () => {
+    const { hash, algorithm } = await hashPassword("correct horse");
+    expect(algorithm).toBe("scrypt");
+    expect(hash).toMatch(/^\$scrypt\$ln=15,r=8,p=1\$[^$]+\$[^$]+$/);
+
+    expect(await verifyPassword("correct horse", hash, algorithm)).toBe(true);
+    expect(await verifyPassword("correct horse!", hash, algorithm)).toBe(false);
+    // Each hash gets its own salt
+    expect((await hashPassword("correct horse")).hash).not.toBe(hash);
+  });
+
+  it("checks legacy plaintext rows", async () => {
+    expect(await verifyPassword("secret", "secret", "plaintext")).toBe(true);
+    expect(await verifyPassword("secret", "Secret", "plaintext")).toBe(false);
+    expect(await verifyPassword("secret", "secret", "md5")).toBe(false);
+  });
+
+  it("rejects malformed hashes instead of throwing", async () => {
+    const { hash } = await hashPassword("pw");
+    const [, , , salt, key] = hash.split("$");
+    for (const stored of [
+      "",
+      "not-a-hash",
+      `$bcrypt$ln=15,r=8,p=1$${salt}$${key}`,
+      `$scrypt$ln=x,r=8,p=1$${salt}$${key}`,
+      `$scrypt$r=8,p=1$${salt}$${key}`,
+      `$scrypt$ln=15,r=8,p=1$${salt}`,
+      `$scrypt$ln=40,r=8,p=1$${salt}$${key}`,
+      `$scrypt$ln=-1,r=8,p=1$${salt}$${key}`,
+    ]) {
+      expect(await verifyPassword("pw", stored, "scrypt")).toBe(false);
+    }
+  });
+
+  it("asks for a rehash of plaintext rows and older costs", async () => {
+    const { hash, algorithm } = await hashPassword("pw");
+    expect(needsRehash(hash, algorithm)).toBe(false);
+    expect(needsRehash("pw", "plaintext")).toBe(true);
+    expect(needsRehash(hash.replace("ln=15", "ln=14"), "scrypt")).toBe(true);
+  });
+});
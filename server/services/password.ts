@@ -0,0 +1,108 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+// Algorithms recorded in User.passwordAlgorithm
+export const PASSWORD_ALGORITHMS = {
+  plaintext: 'plaintext', // legacy rows created before hashing existed
+  scrypt: 'scrypt',
+} as const;
+
+export type PasswordAlgorithm = typeof PASSWORD_ALGORITHMS[keyof typeof PASSWORD_ALGORITHMS];
+
+interface ScryptParams {
+  ln: number; // log2 of the CPU/memory cost N
+  r: number;
+  p: number;
+}
+
+// Raise these to increase the cost; existing hashes are upgraded on next login.
+const CURRENT_PARAMS: ScryptParams = { ln: 15, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+const formatParams = (params: ScryptParams) => `ln=${params.ln},r=${params.r},p=${params.p}`;
+
+const parseParams = (raw: string): ScryptParams | null => {
+  const values: Record<string, number> = {};
+  for (const pair of raw.split(',')) {
+    const [key, value] = pair.split('=');
+    const n = parseInt(value);
+    if (!key || Number.isNaN(n)) return null;
+    values[key] = n;
+  }
+  if (!values.ln || !values.r || !values.p) return null;
+  // Anything outside these would make scrypt throw or run for minutes
+  if (values.ln > 20 || values.r > 32 || values.p > 16) return null;
+  return { ln: values.ln, r: values.r, p: values.p };
+};
+
+const derive = (password: string, salt: Buffer, params: ScryptParams) => {
+  const N = 2 ** params.ln;
+  return scrypt(password, salt, KEY_LENGTH, {
+    N,
+    r: params.r,
+    p: params.p,
+    // Node's default maxmem (32MB) is exactly 128 * N * r at ln=15, r=8
+    maxmem: 256 * N * params.r,
+  });
+};
+
+/**
+ * Hash a password with a fresh per-user salt.
+ * Output is a PHC-style string: $scrypt$ln=15,r=8,p=1$<salt>$<hash>
+ */
+export async function hashPassword(password: string): Promise<{ hash: string; algorithm: PasswordAlgorithm }> {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const key = await derive(password, salt, CURRENT_PARAMS);
+
+  return {
+    hash: `$scrypt$${formatParams(CURRENT_PARAMS)}$${salt.toString('base64')}$${key.toString('base64')}`,
+    algorithm: PASSWORD_ALGORITHMS.scrypt,
+  };
+}
+
+/**
+ * Check a password against a stored hash
+ */
+export async function verifyPassword(
+  password: string,
+  stored: string,
+  algorithm: string
+): Promise<boolean> {
+  if (algorithm === PASSWORD_ALGORITHMS.plaintext) {
+    const a = Buffer.from(password);
+    const b = Buffer.from(stored);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+
+  if (algorithm !== PASSWORD_ALGORITHMS.scrypt) return false;
+
+  const [, name, rawParams, rawSalt, rawKey] = stored.split('$');
+  const params = rawParams ? parseParams(rawParams) : null;
+  if (name !== 'scrypt' || !params || !rawSalt || !rawKey) return false;
+
+  const expected = Buffer.from(rawKey, 'base64');
+  let actual: Buffer;
+  try {
+    actual = await derive(password, Buffer.from(rawSalt, 'base64'), params);
+  } catch {
+    return false;
+  }
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Whether a stored hash should be replaced with one using the current algorithm and cost
+ */
+export function needsRehash(stored: string, algorithm: string): boolean {
+  if (algorithm !== PASSWORD_ALGORITHMS.scrypt) return true;
+  const rawParams = stored.split('$')[2];
+  return rawParams !== formatParams(CURRENT_PARAMS);
+}
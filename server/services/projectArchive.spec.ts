@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../prisma", () => ({ prisma: {} }));
+
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION, buildArchiveEntries, parseProjectArchive, type ProjectArchive } from "./projectArchive";
+import { createZip } from "./zipArchive";
+
+const archive = (): ProjectArchive => ({
+  manifest: {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: "2026-10-19T12:00:00.000Z",
+    project: { id: 3, name: "Launch", description: null, color: "#3b82f6", status: "active" },
+    ownerId: 1,
+    users: [{ id: 1, name: "Ada", email: "ada@example.com" }],
+    counts: {} as ProjectArchive["manifest"]["counts"],
+  },
+  members: [],
+  workflow: [],
+  labels: [{ id: 5, name: "Bug", color: "#ef4444" }],
+  sprints: [],
+  tasks: [],
+  dependencies: [],
+  comments: [],
+  activity: [],
+  documents: [],
+  whiteboard: { data: "{}" },
+  chat: [],
+  attachments: [
+    { id: 9, taskId: 2, filename: "spec.pdf", mimetype: "application/pdf", createdAt: "2026-10-01T00:00:00.000Z", path: "attachments/9/spec.pdf" },
+  ],
+  files: new Map([["attachments/9/spec.pdf", Buffer.from("%PDF")]]),
+});
+
+describe("parseProjectArchive", () => {
+  it("reads back an exported archive", () => {
+    const original = archive();
+    const result = parseProjectArchive(createZip(buildArchiveEntries(original)));
+    expect(result).toEqual({ archive: original });
+  });
+
+  it("rejects archives from a newer version", () => {
+    const newer = archive();
+    newer.manifest.version = ARCHIVE_VERSION + 1;
+    expect(parseProjectArchive(createZip(buildArchiveEntries(newer)))).toEqual({
+      error: `Archive version ${ARCHIVE_VERSION + 1} is newer than this server supports (${ARCHIVE_VERSION})`,
+    });
+  });
+
+  it("rejects archives with missing pieces", () => {
+    const entries = buildArchiveEntries(archive());
+    expect(parseProjectArchive(createZip(entries.filter((e) => e.name !== "tasks.json")))).toEqual({
+      error: "The archive has no tasks.json",
+    });
+    expect(parseProjectArchive(createZip(entries.filter((e) => !e.name.startsWith("attachments/"))))).toEqual({
+      error: "The archive is missing attachments/9/spec.pdf",
+    });
+    expect(parseProjectArchive(createZip([{ name: "manifest.json", data: Buffer.from('{"format":"other"}') }]))).toEqual({
+      error: "Not a ProUp project archive",
+    });
+  });
+
+  it("rejects records with missing or mistyped fields", () => {
+    const task = {
+      id: 2,
+      title: "Ship it",
+      description: null,
+      dueDate: null,
+      status: "todo",
+      priority: "medium",
+      position: 0,
+      coverColor: null,
+      sprintId: null,
+      parentTaskId: null,
+      recurrence: null,
+      recurrenceSourceId: null,
+      createdAt: "2026-10-01T00:00:00.000Z",
+      assigneeIds: [],
+      watcherIds: [],
+      labelIds: [5],
+      checklist: [],
+      reactions: [],
+    };
+    const withTasks = (tasks: unknown[]) => {
+      const broken = archive();
+      broken.tasks = tasks as ProjectArchive["tasks"];
+      return parseProjectArchive(createZip(buildArchiveEntries(broken)));
+    };
+
+    expect(withTasks([task])).toHaveProperty("archive");
+    expect(withTasks([{ ...task, labelIds: "5" }])).toEqual({
+      error: "Record 1 in tasks.json has an invalid labelIds",
+    });
+    expect(withTasks([task, { ...task, title: 7 }])).toEqual({ error: "Record 2 in tasks.json has an invalid title" });
+    expect(withTasks([{ ...task, createdAt: "yesterday" }])).toEqual({
+      error: "Record 1 in tasks.json has an invalid createdAt",
+    });
+    expect(withTasks([{ ...task, checklist: [{ text: "a", done: "no" }] }])).toEqual({
+      error: "Record 1 in tasks.json has an invalid checklist",
+    });
+    expect(withTasks(["task"])).toEqual({ error: "Record 1 in tasks.json has an invalid (the record itself)" });
+
+    const repeated = archive();
+    repeated.labels.push({ id: 6, name: "Bug", color: "#000000" });
+    expect(parseProjectArchive(createZip(buildArchiveEntries(repeated)))).toEqual({
+      error: 'Record 2 in labels.json repeats name "Bug"',
+    });
+  });
+});
@@ -0,0 +1,708 @@
+import { prisma } from '../prisma';
+import { createZip, readZip, type ZipEntry } from './zipArchive';
+import { exportBoardData } from './whiteboardSync';
+import { createInvitation, sendInvitationEmail } from './invitation';
+
+// A project archive is a ZIP holding manifest.json, one JSON file per collection and the
+// attachment files themselves. Ids inside are the exporting instance's; restoring remaps them
+// all and matches people by email. Secrets and per-user data (webhooks, tokens, invitations,
+// saved filters, notifications) are left out.
+
+export const ARCHIVE_FORMAT = 'proup-project';
+export const ARCHIVE_VERSION = 1;
+
+const COLLECTIONS = [
+  'members',
+  'workflow',
+  'labels',
+  'sprints',
+  'tasks',
+  'dependencies',
+  'comments',
+  'activity',
+  'documents',
+  'whiteboard',
+  'chat',
+  'attachments',
+] as const;
+
+type Collection = (typeof COLLECTIONS)[number];
+
+const MEMBER_ROLES = ['Admin', 'Member', 'Viewer'];
+
+export interface ArchiveUser {
+  id: number;
+  name: string;
+  email: string;
+}
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: { id: number; name: string; description: string | null; color: string; status: string };
+  ownerId: number;
+  // Everyone the archive refers to, so the restoring instance can match them by email
+  users: ArchiveUser[];
+  counts: Record<Collection, number>;
+}
+
+export interface ArchiveTask {
+  id: number;
+  title: string;
+  description: string | null;
+  dueDate: string | null;
+  status: string;
+  priority: string;
+  position: number;
+  coverColor: string | null;
+  sprintId: number | null;
+  parentTaskId: number | null;
+  recurrence: string | null;
+  recurrenceSourceId: number | null;
+  createdAt: string;
+  assigneeIds: number[];
+  watcherIds: number[];
+  labelIds: number[];
+  checklist: Array<{ text: string; done: boolean; position: number; completedAt: string | null; createdAt: string }>;
+  reactions: Array<{ userId: number; emoji: string; createdAt: string }>;
+}
+
+export interface ArchiveAttachment {
+  id: number;
+  taskId: number;
+  filename: string;
+  mimetype: string;
+  createdAt: string;
+  // Path of the file inside the archive
+  path: string;
+}
+
+export interface ProjectArchive {
+  manifest: ArchiveManifest;
+  members: Array<{ userId: number; role: string }>;
+  workflow: Array<{ key: string; name: string; color: string; position: number; isDone: boolean; transitions: string | null }>;
+  labels: Array<{ id: number; name: string; color: string }>;
+  sprints: Array<{
+    id: number;
+    name: string;
+    goal: string | null;
+    startDate: string;
+    endDate: string;
+    state: string;
+    startedAt: string | null;
+    closedAt: string | null;
+    rolledOverTaskIds: string | null;
+  }>;
+  tasks: ArchiveTask[];
+  dependencies: Array<{ blockedTaskId: number; blockingTaskId: number }>;
+  comments: Array<{ taskId: number; authorId: number; body: string; createdAt: string }>;
+  activity: Array<{
+    taskId: number;
+    userId: string;
+    actionType: string;
+    fieldName: string;
+    oldValue: string | null;
+    newValue: string;
+    timestamp: string;
+  }>;
+  documents: Array<{
+    name: string;
+    type: string;
+    content: string;
+    plainText: string;
+    // Missing from archives made before task tables existed
+    taskTable?: boolean;
+    createdBy: number;
+    createdAt: string;
+  }>;
+  whiteboard: { data: string } | null;
+  chat: Array<{ authorId: number; body: string; createdAt: string }>;
+  attachments: ArchiveAttachment[];
+  files: Map<string, Buffer>;
+}
+
+const json = (name: string, value: unknown): ZipEntry => ({
+  name,
+  data: Buffer.from(JSON.stringify(value, null, 2), 'utf8'),
+});
+
+// Keeps paths portable: no separators or characters Windows rejects
+const safeFileName = (name: string) => name.replace(/[\\/:*?"<>|\x00-\x1f]/g, '_').slice(0, 120) || 'file';
+
+// What each record in an archive must look like. A trailing ? also allows null or a missing value;
+// an array holds the shape of each item in a nested list.
+type FieldType = 'string' | 'int' | 'boolean' | 'date' | 'ints';
+type Field = FieldType | `${FieldType}?` | [Shape];
+interface Shape {
+  [field: string]: Field;
+}
+
+const USER_SHAPE: Shape = { id: 'int', name: 'string', email: 'string' };
+
+const SHAPES: Record<Exclude<Collection, 'whiteboard'>, Shape> = {
+  members: { userId: 'int', role: 'string' },
+  workflow: { key: 'string', name: 'string', color: 'string', position: 'int', isDone: 'boolean', transitions: 'string?' },
+  labels: { id: 'int', name: 'string', color: 'string' },
+  sprints: {
+    id: 'int',
+    name: 'string',
+    goal: 'string?',
+    startDate: 'date',
+    endDate: 'date',
+    state: 'string',
+    startedAt: 'date?',
+    closedAt: 'date?',
+    rolledOverTaskIds: 'string?',
+  },
+  tasks: {
+    id: 'int',
+    title: 'string',
+    description: 'string?',
+    dueDate: 'string?',
+    status: 'string',
+    priority: 'string',
+    position: 'int',
+    coverColor: 'string?',
+    sprintId: 'int?',
+    parentTaskId: 'int?',
+    recurrence: 'string?',
+    recurrenceSourceId: 'int?',
+    createdAt: 'date',
+    assigneeIds: 'ints',
+    watcherIds: 'ints',
+    labelIds: 'ints',
+    checklist: [{ text: 'string', done: 'boolean', position: 'int', completedAt: 'date?', createdAt: 'date' }],
+    reactions: [{ userId: 'int', emoji: 'string', createdAt: 'date' }],
+  },
+  dependencies: { blockedTaskId: 'int', blockingTaskId: 'int' },
+  comments: { taskId: 'int', authorId: 'int', body: 'string', createdAt: 'date' },
+  activity: {
+    taskId: 'int',
+    userId: 'string',
+    actionType: 'string',
+    fieldName: 'string',
+    oldValue: 'string?',
+    newValue: 'string',
+    timestamp: 'date',
+  },
+  documents: {
+    name: 'string',
+    type: 'string',
+    content: 'string',
+    plainText: 'string',
+    taskTable: 'boolean?',
+    createdBy: 'int',
+    createdAt: 'date',
+  },
+  chat: { authorId: 'int', body: 'string', createdAt: 'date' },
+  attachments: { id: 'int', taskId: 'int', filename: 'string', mimetype: 'string', createdAt: 'date', path: 'string' },
+};
+
+// Values the database keeps unique within a project
+const UNIQUE_FIELDS: Partial<Record<Collection, string>> = { workflow: 'key', labels: 'name', tasks: 'recurrenceSourceId' };
+
+const fits = (value: unknown, field: Field): boolean => {
+  if (Array.isArray(field)) return Array.isArray(value) && value.every((item) => invalidField(item, field[0]) === null);
+  if (field.endsWith('?') && (value === null || value === undefined)) return true;
+  switch (field.replace('?', '') as FieldType) {
+    case 'string':
+      return typeof value === 'string';
+    case 'int':
+      return Number.isSafeInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'date':
+      return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+    case 'ints':
+      return Array.isArray(value) && value.every((id) => Number.isSafeInteger(id));
+  }
+};
+
+/**
+ * The first field of a record that doesn't fit its shape, or null when they all do
+ */
+const invalidField = (item: unknown, shape: Shape): string | null => {
+  if (!item || typeof item !== 'object' || Array.isArray(item)) return '(the record itself)';
+  const record = item as Record<string, unknown>;
+  return Object.keys(shape).find((field) => !fits(record[field], shape[field])) ?? null;
+};
+
+/**
+ * Lay an archive out as ZIP entries
+ */
+export const buildArchiveEntries = (archive: ProjectArchive): ZipEntry[] => [
+  json('manifest.json', archive.manifest),
+  ...COLLECTIONS.map((collection) => json(`${collection}.json`, archive[collection])),
+  ...Array.from(archive.files, ([name, data]) => ({ name, data })),
+];
+
+/**
+ * Read and check an uploaded archive: the manifest, and every record's fields, so a restore can't
+ * fail halfway on a bad one. References between records are checked as they're restored.
+ */
+export const parseProjectArchive = (buffer: Buffer): { archive: ProjectArchive } | { error: string } => {
+  const zip = readZip(buffer);
+  if ('error' in zip) return { error: zip.error };
+  const { files } = zip;
+
+  const readJson = (name: string): { value: any } | { error: string } => {
+    const file = files.get(name);
+    if (!file) return { error: `The archive has no ${name}` };
+    try {
+      return { value: JSON.parse(file.toString('utf8')) };
+    } catch {
+      return { error: `${name} is not valid JSON` };
+    }
+  };
+
+  const manifest = readJson('manifest.json');
+  if ('error' in manifest) return manifest;
+  if (manifest.value?.format !== ARCHIVE_FORMAT) return { error: 'Not a ProUp project archive' };
+  if (!Number.isInteger(manifest.value.version) || manifest.value.version > ARCHIVE_VERSION) {
+    return { error: `Archive version ${manifest.value.version} is newer than this server supports (${ARCHIVE_VERSION})` };
+  }
+  if (!manifest.value.project?.name || !Array.isArray(manifest.value.users)) {
+    return { error: 'manifest.json is missing the project or its users' };
+  }
+  const { project, users, ownerId } = manifest.value;
+  const projectField = invalidField(project, { name: 'string', description: 'string?', color: 'string?', status: 'string?' });
+  if (projectField) return { error: `manifest.json has an invalid project ${projectField}` };
+  if (!Number.isSafeInteger(ownerId)) return { error: 'manifest.json has an invalid ownerId' };
+  for (const [index, user] of users.entries()) {
+    const field = invalidField(user, USER_SHAPE);
+    if (field) return { error: `User ${index + 1} in manifest.json has an invalid ${field}` };
+  }
+
+  const archive: any = { manifest: manifest.value, files: new Map<string, Buffer>() };
+  for (const collection of COLLECTIONS) {
+    const parsed = readJson(`${collection}.json`);
+    if ('error' in parsed) return parsed;
+    const expectArray = collection !== 'whiteboard';
+    if (expectArray ? !Array.isArray(parsed.value) : parsed.value !== null && typeof parsed.value !== 'object') {
+      return { error: `${collection}.json has the wrong shape` };
+    }
+    if (collection === 'whiteboard') {
+      if (parsed.value !== null && invalidField(parsed.value, { data: 'string' })) {
+        return { error: 'whiteboard.json has the wrong shape' };
+      }
+    } else {
+      const seen = new Set<unknown>();
+      const unique = UNIQUE_FIELDS[collection];
+      for (const [index, item] of (parsed.value as unknown[]).entries()) {
+        const field = invalidField(item, SHAPES[collection]);
+        if (field) return { error: `Record ${index + 1} in ${collection}.json has an invalid ${field}` };
+        const key = unique ? (item as Record<string, unknown>)[unique] : null;
+        if (key !== null && key !== undefined && seen.has(key)) {
+          return { error: `Record ${index + 1} in ${collection}.json repeats ${unique} ${JSON.stringify(key)}` };
+        }
+        seen.add(key);
+      }
+    }
+    archive[collection] = parsed.value;
+  }
+  for (const attachment of archive.attachments as ArchiveAttachment[]) {
+    const file = files.get(attachment.path);
+    if (!file) return { error: `The archive is missing ${attachment.path}` };
+    archive.files.set(attachment.path, file);
+  }
+  return { archive };
+};
+
+/**
+ * Everything in a project, packed as a ZIP
+ */
+export const exportProjectArchive = async (projectId: number): Promise<{ buffer: Buffer; name: string } | null> => {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: { members: true, workflowStatuses: true, labels: true, sprints: true, whiteboard: true },
+  });
+  if (!project) return null;
+
+  const taskWhere = { task: { projectId } };
+  const [tasks, dependencies, comments, activity, documents, chat, attachments] = await Promise.all([
+    prisma.task.findMany({
+      where: { projectId },
+      include: { assignees: true, watchers: true, labels: true, checklistItems: true, reactions: true },
+      orderBy: { id: 'asc' },
+    }),
+    prisma.taskDependency.findMany({ where: { blockedTask: { projectId } } }),
+    prisma.comment.findMany({ where: taskWhere, orderBy: { id: 'asc' } }),
+    prisma.activityLog.findMany({ where: taskWhere, orderBy: { id: 'asc' } }),
+    prisma.document.findMany({ where: { projectId }, orderBy: { id: 'asc' } }),
+    prisma.chatMessage.findMany({ where: { projectId }, orderBy: { id: 'asc' } }),
+    prisma.taskAttachment.findMany({ where: taskWhere, orderBy: { id: 'asc' } }),
+  ]);
+
+  const userIds = new Set<number>([project.ownerId, ...project.members.map((m) => m.userId)]);
+  for (const task of tasks) {
+    for (const row of [...task.assignees, ...task.watchers, ...task.reactions]) userIds.add(row.userId);
+  }
+  for (const row of comments) userIds.add(row.authorId);
+  for (const row of chat) userIds.add(row.authorId);
+  for (const row of documents) userIds.add(row.createdBy);
+  for (const row of activity) if (/^\d+$/.test(row.userId)) userIds.add(parseInt(row.userId));
+  const users = await prisma.user.findMany({
+    where: { id: { in: Array.from(userIds) } },
+    select: { id: true, name: true, email: true },
+  });
+
+  const files = new Map<string, Buffer>();
+  const attachmentRows: ArchiveAttachment[] = attachments.map((a) => {
+    const path = `attachments/${a.id}/${safeFileName(a.filename)}`;
+    files.set(path, Buffer.from(a.data));
+    return { id: a.id, taskId: a.taskId, filename: a.filename, mimetype: a.mimetype, createdAt: a.createdAt.toISOString(), path };
+  });
+
+  const iso = (date: Date | null) => (date ? date.toISOString() : null);
+  const archive: ProjectArchive = {
+    manifest: {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exportedAt: new Date().toISOString(),
+      project: {
+        id: project.id,
+        name: project.name,
+        description: project.description,
+        color: project.color,
+        status: project.status,
+      },
+      ownerId: project.ownerId,
+      users,
+      counts: {} as Record<Collection, number>,
+    },
+    members: project.members.map((m) => ({ userId: m.userId, role: m.role })),
+    workflow: project.workflowStatuses.map(({ key, name, color, position, isDone, transitions }) => ({
+      key,
+      name,
+      color,
+      position,
+      isDone,
+      transitions,
+    })),
+    labels: project.labels.map(({ id, name, color }) => ({ id, name, color })),
+    sprints: project.sprints.map((s) => ({
+      id: s.id,
+      name: s.name,
+      goal: s.goal,
+      startDate: s.startDate.toISOString(),
+      endDate: s.endDate.toISOString(),
+      state: s.state,
+      startedAt: iso(s.startedAt),
+      closedAt: iso(s.closedAt),
+      rolledOverTaskIds: s.rolledOverTaskIds,
+    })),
+    tasks: tasks.map((t) => ({
+      id: t.id,
+      title: t.title,
+      description: t.description,
+      dueDate: t.dueDate,
+      status: t.status,
+      priority: t.priority,
+      position: t.position,
+      coverColor: t.coverColor,
+      sprintId: t.sprintId,
+      parentTaskId: t.parentTaskId,
+      recurrence: t.recurrence,
+      recurrenceSourceId: t.recurrenceSourceId,
+      createdAt: t.createdAt.toISOString(),
+      assigneeIds: t.assignees.map((a) => a.userId),
+      watcherIds: t.watchers.map((w) => w.userId),
+      labelIds: t.labels.map((l) => l.labelId),
+      checklist: t.checklistItems.map((c) => ({
+        text: c.text,
+        done: c.done,
+        position: c.position,
+        completedAt: iso(c.completedAt),
+        createdAt: c.createdAt.toISOString(),
+      })),
+      reactions: t.reactions.map((r) => ({ userId: r.userId, emoji: r.emoji, createdAt: r.createdAt.toISOString() })),
+    })),
+    dependencies: dependencies.map(({ blockedTaskId, blockingTaskId }) => ({ blockedTaskId, blockingTaskId })),
+    comments: comments.map((c) => ({ taskId: c.taskId, authorId: c.authorId, body: c.body, createdAt: c.createdAt.toISOString() })),
+    activity: activity.map((a) => ({
+      taskId: a.taskId,
+      userId: a.userId,
+      actionType: a.actionType,
+      fieldName: a.fieldName,
+      oldValue: a.oldValue,
+      newValue: a.newValue,
+      timestamp: a.timestamp.toISOString(),
+    })),
+    documents: documents.map((d) => ({
+      name: d.name,
+      type: d.type,
+      content: d.content,
+      plainText: d.plainText,
+      taskTable: d.taskTable,
+      createdBy: d.createdBy,
+      createdAt: d.createdAt.toISOString(),
+    })),
+    whiteboard: project.whiteboard ? { data: await exportBoardData(projectId) } : null,
+    chat: chat.map((m) => ({ authorId: m.authorId, body: m.body, createdAt: m.createdAt.toISOString() })),
+    attachments: attachmentRows,
+    files,
+  };
+  for (const collection of COLLECTIONS) {
+    const value = archive[collection];
+    archive.manifest.counts[collection] = Array.isArray(value) ? value.length : value ? 1 : 0;
+  }
+
+  const slug = project.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'project';
+  return {
+    buffer: createZip(buildArchiveEntries(archive)),
+    name: `${slug}-${new Date().toISOString().slice(0, 10)}.proup.zip`,
+  };
+};
+
+/**
+ * Restore an archive as a new project owned by `ownerId`. The archive is only the caller's word,
+ * so nothing in it is put under anyone else's name: other people lose their assignments and
+ * reactions, their comments, chat messages and documents are credited to the owner with the
+ * original author's name kept in the text, and members with an account here (matched by email)
+ * are invited back rather than added.
+ */
+export const restoreProjectArchive = async (archive: ProjectArchive, ownerId: number) => {
+  const emails = archive.manifest.users.map((u) => String(u.email).toLowerCase());
+  const localUsers = await prisma.user.findMany({ where: { email: { in: emails } }, select: { id: true, email: true } });
+  const byEmail = new Map(localUsers.map((u) => [u.email.toLowerCase(), u.id]));
+
+  const accounts = new Map<number, number>();
+  const names = new Map<number, string>();
+  for (const user of archive.manifest.users) {
+    names.set(user.id, user.name);
+    const localId = byEmail.get(String(user.email).toLowerCase());
+    if (localId !== undefined) accounts.set(user.id, localId);
+  }
+  // Only the owner's own rows stay theirs
+  const userMap = new Map(Array.from(accounts).filter(([, localId]) => localId === ownerId));
+  const mapUsers = (ids: number[]) => Array.from(new Set(ids.flatMap((id) => (userMap.has(id) ? [userMap.get(id)!] : []))));
+  // Everyone else's words: the text says who wrote it, the row belongs to the owner
+  const authored = (authorId: number, body: string) =>
+    userMap.has(authorId)
+      ? { authorId: ownerId, body }
+      : { authorId: ownerId, body: `[${names.get(authorId) ?? 'Unknown'}] ${body}` };
+  const date = (value: string | null) => (value ? new Date(value) : null);
+
+  const project = await prisma.$transaction(
+    async (tx) => {
+      const { project: meta } = archive.manifest;
+      const project = await tx.project.create({
+        data: {
+          name: meta.name,
+          description: meta.description,
+          color: meta.color || '#3b82f6',
+          status: meta.status || 'active',
+          ownerId,
+        },
+      });
+      const projectId = project.id;
+
+
+      if (archive.workflow.length) {
+        await tx.workflowStatus.createMany({
+          data: archive.workflow.map(({ key, name, color, position, isDone, transitions }) => ({
+            projectId,
+            key,
+            name,
+            color,
+            position,
+            isDone,
+            transitions,
+          })),
+        });
+      }
+
+      const labelMap = new Map<number, number>();
+      for (const label of archive.labels) {
+        const created = await tx.label.create({ data: { projectId, name: label.name, color: label.color } });
+        labelMap.set(label.id, created.id);
+      }
+
+      const sprintMap = new Map<number, number>();
+      for (const sprint of archive.sprints) {
+        const created = await tx.sprint.create({
+          data: {
+            projectId,
+            name: sprint.name,
+            goal: sprint.goal,
+            startDate: new Date(sprint.startDate),
+            endDate: new Date(sprint.endDate),
+            state: sprint.state,
+            startedAt: date(sprint.startedAt),
+            closedAt: date(sprint.closedAt),
+          },
+        });
+        sprintMap.set(sprint.id, created.id);
+      }
+
+      const taskMap = new Map<number, number>();
+      for (const task of archive.tasks) {
+        const created = await tx.task.create({
+          data: {
+            projectId,
+            title: task.title,
+            description: task.description,
+            dueDate: task.dueDate,
+            status: task.status,
+            priority: task.priority,
+            position: task.position,
+            coverColor: task.coverColor,
+            sprintId: task.sprintId !== null ? sprintMap.get(task.sprintId) ?? null : null,
+            recurrence: task.recurrence,
+            createdAt: new Date(task.createdAt),
+          },
+        });
+        taskMap.set(task.id, created.id);
+      }
+
+      // Links between tasks need every task to exist first
+      for (const task of archive.tasks) {
+        const parentTaskId = task.parentTaskId !== null ? taskMap.get(task.parentTaskId) : undefined;
+        const recurrenceSourceId = task.recurrenceSourceId !== null ? taskMap.get(task.recurrenceSourceId) : undefined;
+        if (parentTaskId === undefined && recurrenceSourceId === undefined) continue;
+        await tx.task.update({ where: { id: taskMap.get(task.id)! }, data: { parentTaskId, recurrenceSourceId } });
+      }
+      for (const sprint of archive.sprints) {
+        if (!sprint.rolledOverTaskIds) continue;
+        let ids: number[] = [];
+        try {
+          ids = JSON.parse(sprint.rolledOverTaskIds);
+        } catch { /* dropped below */ }
+        const remapped = (Array.isArray(ids) ? ids : []).flatMap((id) => (taskMap.has(id) ? [taskMap.get(id)!] : []));
+        await tx.sprint.update({ where: { id: sprintMap.get(sprint.id)! }, data: { rolledOverTaskIds: JSON.stringify(remapped) } });
+      }
+
+      const perTask = <T>(build: (task: ArchiveTask, taskId: number) => T[]) =>
+        archive.tasks.flatMap((task) => build(task, taskMap.get(task.id)!));
+      const assignees = perTask((task, taskId) => mapUsers(task.assigneeIds).map((userId) => ({ taskId, userId })));
+      const watchers = perTask((task, taskId) => mapUsers(task.watcherIds).map((userId) => ({ taskId, userId })));
+      const taskLabels = perTask((task, taskId) =>
+        Array.from(new Set(task.labelIds))
+          .filter((id) => labelMap.has(id))
+          .map((id) => ({ taskId, labelId: labelMap.get(id)! }))
+      );
+      const checklist = perTask((task, taskId) =>
+        task.checklist.map(({ text, done, position, completedAt, createdAt }) => ({
+          taskId,
+          text,
+          done,
+          position,
+          completedAt: date(completedAt),
+          createdAt: new Date(createdAt),
+        }))
+      );
+      const reactions = perTask((task, taskId) => {
+        const seen = new Set<string>();
+        return task.reactions.flatMap((r) => {
+          const userId = userMap.get(r.userId);
+          if (userId === undefined || seen.has(`${userId}:${r.emoji}`)) return [];
+          seen.add(`${userId}:${r.emoji}`);
+          return [{ taskId, userId, emoji: r.emoji, createdAt: new Date(r.createdAt) }];
+        });
+      });
+      // Keyed so a repeated link is only created once
+      const dependencies = Array.from(
+        new Map(
+          archive.dependencies
+            .filter((d) => taskMap.has(d.blockedTaskId) && taskMap.has(d.blockingTaskId))
+            .map((d) => [
+              `${d.blockedTaskId}:${d.blockingTaskId}`,
+              { blockedTaskId: taskMap.get(d.blockedTaskId)!, blockingTaskId: taskMap.get(d.blockingTaskId)! },
+            ])
+        ).values()
+      );
+
+      if (assignees.length) await tx.taskAssignee.createMany({ data: assignees });
+      if (watchers.length) await tx.taskWatcher.createMany({ data: watchers });
+      if (taskLabels.length) await tx.taskLabel.createMany({ data: taskLabels });
+      if (checklist.length) await tx.checklistItem.createMany({ data: checklist });
+      if (reactions.length) await tx.taskReaction.createMany({ data: reactions });
+      if (dependencies.length) await tx.taskDependency.createMany({ data: dependencies });
+
+      const comments = archive.comments
+        .filter((c) => taskMap.has(c.taskId))
+        .map((c) => ({ taskId: taskMap.get(c.taskId)!, ...authored(c.authorId, c.body), createdAt: new Date(c.createdAt) }));
+      if (comments.length) await tx.comment.createMany({ data: comments });
+
+      // Activity rows store the acting user's id as text, or 'system'
+      const activity = archive.activity
+        .filter((a) => taskMap.has(a.taskId))
+        .map((a) => ({
+          taskId: taskMap.get(a.taskId)!,
+          actionType: a.actionType,
+          fieldName: a.fieldName,
+          oldValue: a.oldValue ?? null,
+          newValue: a.newValue,
+          userId: a.userId === 'system' ? a.userId : String(ownerId),
+          timestamp: new Date(a.timestamp),
+        }));
+      if (activity.length) await tx.activityLog.createMany({ data: activity });
+
+      for (const doc of archive.documents) {
+        await tx.document.create({
+          data: {
+            projectId,
+            name: doc.name,
+            type: doc.type,
+            content: doc.content,
+            plainText: doc.plainText,
+            taskTable: doc.taskTable === true,
+            createdBy: ownerId,
+            createdAt: new Date(doc.createdAt),
+          },
+        });
+      }
+      if (archive.whiteboard) {
+        await tx.whiteboard.create({ data: { projectId, data: archive.whiteboard.data } });
+      }
+
+      const chat = archive.chat.map((m) => {
+        const { authorId, body } = authored(m.authorId, m.body);
+        return { projectId, authorId, body, createdAt: new Date(m.createdAt) };
+      });
+      if (chat.length) await tx.chatMessage.createMany({ data: chat });
+
+      for (const attachment of archive.attachments) {
+        const taskId = taskMap.get(attachment.taskId);
+        const data = archive.files.get(attachment.path);
+        if (taskId === undefined || !data) continue;
+        await tx.taskAttachment.create({
+          data: {
+            taskId,
+            filename: attachment.filename,
+            mimetype: attachment.mimetype,
+            size: data.length,
+            data,
+            createdAt: new Date(attachment.createdAt),
+          },
+        });
+      }
+
+      return project;
+    },
+    // Large projects run to many thousands of inserts
+    { timeout: 5 * 60 * 1000 }
+  );
+
+  // The old owner is invited as an Admin; whoever restores owns the copy
+  const roles = new Map<number, string>();
+  for (const member of archive.members) {
+    roles.set(member.userId, MEMBER_ROLES.includes(member.role) ? member.role : 'Member');
+  }
+  roles.set(archive.manifest.ownerId, 'Admin');
+  const invited: string[] = [];
+  for (const local of localUsers) {
+    const member = archive.manifest.users.find((u) => accounts.get(u.id) === local.id && roles.has(u.id));
+    if (!member || local.id === ownerId) continue;
+    try {
+      const invitation = await createInvitation(local.email, project.id, roles.get(member.id)!, ownerId);
+      await sendInvitationEmail(invitation);
+      invited.push(invitation.email);
+    } catch (error) {
+      console.error(`Error inviting ${local.email} to a restored project:`, error);
+    }
+  }
+
+  return { project, invited, unmatchedUsers: archive.manifest.users.filter((u) => !accounts.has(u.id)).map((u) => u.email) };
+};
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../prisma", () => ({ prisma: {} }));
+
+import { getNextOccurrence, getOccurrencesBetween, occurrences, parseRecurrenceInput, type RecurrenceRule } from "./recurrence";
+
+const take = (rule: RecurrenceRule, n: number) => {
+  const dates: string[] = [];
+  for (const date of occurrences(rule)) {
+    if (dates.length >= n) break;
+    dates.push(date);
+  }
+  return dates;
+};
+
+describe("parseRecurrenceInput", () => {
+  it("defaults weekly rules to the due date's weekday", () => {
+    // 2026-10-19 is a Monday
+    expect(parseRecurrenceInput({ freq: "weekly" }, "2026-10-19")).toEqual({
+      rule: { freq: "weekly", interval: 1, byWeekday: [1], start: "2026-10-19" },
+    });
+  });
+
+  it.each([
+    [{ freq: "daily" }, null, "Recurring tasks need a due date"],
+    [{ freq: "yearly" }, "2026-10-19", "Recurrence must be daily, weekly or monthly"],
+    [{ freq: "daily", interval: 0 }, "2026-10-19", "Recurrence interval must be a whole number between 1 and 365"],
+    [{ freq: "weekly", byWeekday: [7] }, "2026-10-19", "Weekdays must be between 0 (Sunday) and 6 (Saturday)"],
+    [{ freq: "daily", until: "2026-10-01" }, "2026-10-19", "Recurrence end date is before the due date"],
+  ])("rejects invalid rules (%#)", (input, dueDate, error) => {
+    expect(parseRecurrenceInput(input, dueDate)).toEqual({ error });
+  });
+});
+
+describe("occurrences", () => {
+  it("repeats every N days", () => {
+    expect(take({ freq: "daily", interval: 3, start: "2026-10-30" }, 3)).toEqual(["2026-10-30", "2026-11-02", "2026-11-05"]);
+  });
+
+  it("repeats on the given weekdays every other week", () => {
+    // Monday and Thursday, fortnightly, starting Thursday 2026-10-22
+    const rule: RecurrenceRule = { freq: "weekly", interval: 2, byWeekday: [1, 4], start: "2026-10-22" };
+    expect(take(rule, 4)).toEqual(["2026-10-22", "2026-11-02", "2026-11-05", "2026-11-16"]);
+  });
+
+  it("clamps monthly days to short months", () => {
+    expect(take({ freq: "monthly", interval: 1, byMonthDay: 31, start: "2027-01-31" }, 3)).toEqual([
+      "2027-01-31",
+      "2027-02-28",
+      "2027-03-31",
+    ]);
+  });
+
+  it("stops at the count or end date", () => {
+    expect(take({ freq: "daily", interval: 1, start: "2026-10-19", count: 2 }, 5)).toEqual(["2026-10-19", "2026-10-20"]);
+    expect(take({ freq: "daily", interval: 7, start: "2026-10-19", until: "2026-11-01" }, 5)).toEqual(["2026-10-19", "2026-10-26"]);
+  });
+});
+
+describe("getNextOccurrence", () => {
+  const rule: RecurrenceRule = { freq: "daily", interval: 1, start: "2026-10-01", count: 30 };
+
+  it("skips occurrences missed while the task was overdue", () => {
+    expect(getNextOccurrence(rule, "2026-10-05")).toBe("2026-10-06");
+    expect(getNextOccurrence(rule, "2026-10-05", "2026-10-19")).toBe("2026-10-19");
+  });
+
+  it("returns null once the series has ended", () => {
+    expect(getNextOccurrence(rule, "2026-10-30")).toBeNull();
+  });
+});
+
+describe("getOccurrencesBetween", () => {
+  it("lists occurrences after a date up to the end of the window", () => {
+    const rule: RecurrenceRule = { freq: "weekly", interval: 1, byWeekday: [5], start: "2026-10-23" };
+    expect(getOccurrencesBetween(rule, "2026-10-23", "2026-11-13")).toEqual(["2026-10-30", "2026-11-06", "2026-11-13"]);
+  });
+});
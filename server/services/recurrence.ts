@@ -0,0 +1,271 @@
+import { prisma } from '../prisma';
+import { getIO } from '../realtime';
+import { getInitialStatus, getProjectWorkflow, getProjectWorkflows, isDoneStatus } from './workflow';
+import { withTaskPeople } from './taskPeople';
+import { queueWebhookEvent } from './webhooks';
+
+export type RecurrenceFreq = 'daily' | 'weekly' | 'monthly';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFreq;
+  // Every N days, weeks or months
+  interval: number;
+  // Weekly only: 0 = Sunday … 6 = Saturday
+  byWeekday?: number[];
+  // Monthly only: 1-31, clamped to the last day of shorter months
+  byMonthDay?: number;
+  // Due date of the first occurrence; anchors intervals and counts
+  start: string;
+  // Last date an occurrence may fall on (inclusive)
+  until?: string | null;
+  // Total number of occurrences in the series
+  count?: number | null;
+}
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Upper bound on generated dates, so a rule can never loop forever
+const MAX_ITERATIONS = 5000;
+
+const toDate = (value: string) => new Date(`${value}T00:00:00Z`);
+const toKey = (date: Date) => date.toISOString().slice(0, 10);
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+const isValidDate = (value: unknown): value is string =>
+  typeof value === 'string' && DATE.test(value) && !Number.isNaN(toDate(value).getTime());
+
+export const today = () => toKey(new Date());
+
+/**
+ * Validate a recurrence submitted by a client. The series starts at the task's due date.
+ * `null` clears the recurrence.
+ */
+export const parseRecurrenceInput = (
+  raw: unknown,
+  dueDate: string | null | undefined
+): { rule: RecurrenceRule | null } | { error: string } => {
+  if (raw === null) return { rule: null };
+  if (typeof raw !== 'object' || raw === null) return { error: 'Invalid recurrence' };
+  const input = raw as Record<string, unknown>;
+
+  if (!isValidDate(dueDate)) {
+    return { error: 'Recurring tasks need a due date' };
+  }
+  if (input.freq !== 'daily' && input.freq !== 'weekly' && input.freq !== 'monthly') {
+    return { error: 'Recurrence must be daily, weekly or monthly' };
+  }
+
+  const interval = input.interval === undefined ? 1 : Number(input.interval);
+  if (!Number.isInteger(interval) || interval < 1 || interval > 365) {
+    return { error: 'Recurrence interval must be a whole number between 1 and 365' };
+  }
+
+  const rule: RecurrenceRule = { freq: input.freq, interval, start: dueDate };
+
+  if (input.freq === 'weekly') {
+    const days = Array.isArray(input.byWeekday) && input.byWeekday.length > 0
+      ? input.byWeekday.map(Number)
+      : [toDate(dueDate).getUTCDay()];
+    if (days.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+      return { error: 'Weekdays must be between 0 (Sunday) and 6 (Saturday)' };
+    }
+    rule.byWeekday = Array.from(new Set(days)).sort((a, b) => a - b);
+  }
+
+  if (input.freq === 'monthly') {
+    const day = input.byMonthDay === undefined ? toDate(dueDate).getUTCDate() : Number(input.byMonthDay);
+    if (!Number.isInteger(day) || day < 1 || day > 31) {
+      return { error: 'Day of month must be between 1 and 31' };
+    }
+    rule.byMonthDay = day;
+  }
+
+  if (input.until !== undefined && input.until !== null && input.until !== '') {
+    if (!isValidDate(input.until)) return { error: 'Invalid recurrence end date' };
+    if (input.until < dueDate) return { error: 'Recurrence end date is before the due date' };
+    rule.until = input.until;
+  }
+
+  if (input.count !== undefined && input.count !== null && input.count !== '') {
+    const count = Number(input.count);
+    if (!Number.isInteger(count) || count < 1) return { error: 'Occurrence count must be at least 1' };
+    rule.count = count;
+  }
+
+  return { rule };
+};
+
+export const parseRecurrence = (raw: string | null | undefined): RecurrenceRule | null => {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    return isValidDate(parsed?.start) ? (parsed as RecurrenceRule) : null;
+  } catch {
+    return null;
+  }
+};
+
+function* dailyCandidates(rule: RecurrenceRule, start: Date): Generator<Date> {
+  for (let i = 0; ; i++) yield addDays(start, i * rule.interval);
+}
+
+function* weeklyCandidates(rule: RecurrenceRule, start: Date): Generator<Date> {
+  const weekStart = addDays(start, -start.getUTCDay());
+  const days = rule.byWeekday?.length ? rule.byWeekday : [start.getUTCDay()];
+  for (let week = 0; ; week++) {
+    for (const day of days) {
+      const date = addDays(weekStart, week * rule.interval * 7 + day);
+      if (date >= start) yield date;
+    }
+  }
+}
+
+function* monthlyCandidates(rule: RecurrenceRule, start: Date): Generator<Date> {
+  const day = rule.byMonthDay ?? start.getUTCDate();
+  for (let month = 0; ; month++) {
+    const year = start.getUTCFullYear();
+    const index = start.getUTCMonth() + month * rule.interval;
+    const lastDay = new Date(Date.UTC(year, index + 1, 0)).getUTCDate();
+    const date = new Date(Date.UTC(year, index, Math.min(day, lastDay)));
+    if (date >= start) yield date;
+  }
+}
+
+// Candidate dates in order, before `until`/`count` are applied
+const candidates = (rule: RecurrenceRule) => {
+  const start = toDate(rule.start);
+  if (rule.freq === 'daily') return dailyCandidates(rule, start);
+  if (rule.freq === 'weekly') return weeklyCandidates(rule, start);
+  return monthlyCandidates(rule, start);
+};
+
+/**
+ * Every occurrence of the series, as YYYY-MM-DD, ending at `until`/`count`
+ */
+export function* occurrences(rule: RecurrenceRule): Generator<string> {
+  let emitted = 0;
+  let iterations = 0;
+  for (const date of candidates(rule)) {
+    if (++iterations > MAX_ITERATIONS) return;
+    const key = toKey(date);
+    if (rule.until && key > rule.until) return;
+    if (rule.count && emitted >= rule.count) return;
+    emitted++;
+    yield key;
+  }
+}
+
+/**
+ * The occurrence that follows `after`, skipping any that fall before `notBefore`
+ * so a long-overdue series doesn't spawn a backlog of missed occurrences
+ */
+export const getNextOccurrence = (rule: RecurrenceRule, after: string, notBefore?: string) => {
+  for (const date of occurrences(rule)) {
+    if (date > after && (!notBefore || date >= notBefore)) return date;
+  }
+  return null;
+};
+
+/**
+ * Occurrences after `after` up to and including `to`
+ */
+export const getOccurrencesBetween = (rule: RecurrenceRule, after: string, to: string, limit = 100) => {
+  const dates: string[] = [];
+  for (const date of occurrences(rule)) {
+    if (date > to || dates.length >= limit) break;
+    if (date > after) dates.push(date);
+  }
+  return dates;
+};
+
+/**
+ * Create the next occurrence of a recurring task, copying its details and labels.
+ * Returns null when the task doesn't recur, the series has ended, or the next
+ * occurrence already exists.
+ */
+export const spawnNextOccurrence = async (taskId: number) => {
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    include: {
+      labels: { select: { labelId: true } },
+      assignees: { select: { userId: true } },
+      watchers: { select: { userId: true } },
+      recurrenceNext: { select: { id: true } },
+    },
+  });
+  const rule = parseRecurrence(task?.recurrence);
+  if (!task || !rule || !task.dueDate || task.recurrenceNext) return null;
+
+  const dueDate = getNextOccurrence(rule, task.dueDate, today());
+  if (!dueDate) return null;
+
+  const workflow = task.projectId ? await getProjectWorkflow(task.projectId) : null;
+
+  try {
+    return await prisma.task.create({
+      data: {
+        title: task.title,
+        description: task.description,
+        dueDate,
+        priority: task.priority,
+        status: workflow ? getInitialStatus(workflow) : 'todo',
+        projectId: task.projectId,
+        recurrence: task.recurrence,
+        recurrenceSourceId: task.id,
+        labels: { create: task.labels.map((l) => ({ labelId: l.labelId })) },
+        assignees: { create: task.assignees.map((a) => ({ userId: a.userId })) },
+        watchers: { create: task.watchers.map((w) => ({ userId: w.userId })) },
+      },
+    });
+  } catch (error) {
+    // Another request spawned it first (recurrenceSourceId is unique)
+    if ((error as { code?: string })?.code === 'P2002') return null;
+    throw error;
+  }
+};
+
+/**
+ * Spawn the next occurrence of every recurring task whose due date has passed
+ * without it being completed
+ */
+export const spawnOverdueOccurrences = async () => {
+  const overdue = await prisma.task.findMany({
+    where: { recurrence: { not: null }, recurrenceNext: { is: null }, dueDate: { lt: today() } },
+    select: { id: true, projectId: true, status: true },
+  });
+  const workflows = await getProjectWorkflows(
+    overdue.map((t) => t.projectId).filter((id): id is number => id !== null)
+  );
+
+  const spawned = [];
+  for (const task of overdue) {
+    // Completed occurrences already spawned their successor when they were finished
+    if (task.projectId && isDoneStatus(workflows.get(task.projectId)!, task.status)) continue;
+    const created = await spawnNextOccurrence(task.id);
+    if (created) spawned.push(created);
+  }
+  return spawned;
+};
+
+let schedulerStarted = false;
+
+/**
+ * Check for overdue recurring tasks every hour
+ */
+export const startRecurrenceScheduler = () => {
+  if (schedulerStarted) return;
+  schedulerStarted = true;
+
+  const run = async () => {
+    try {
+      for (const task of await withTaskPeople(await spawnOverdueOccurrences())) {
+        if (task.projectId) getIO()?.to(`project:${task.projectId}`).emit('task:created', { task });
+        await queueWebhookEvent(task.projectId, 'task.created', { task });
+      }
+    } catch (error) {
+      console.error('Error spawning recurring tasks:', error);
+    }
+  };
+
+  run();
+  setInterval(run, 60 * 60 * 1000).unref();
+};
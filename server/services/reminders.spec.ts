@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../prisma", () => ({ prisma: {} }));
+vi.mock("../realtime", () => ({ getIO: () => null }));
+
+import { dueDeadline, dueReminderKinds, parseReminderHours, parseReminderSettingsInput } from "./reminders";
+
+describe("dueDeadline", () => {
+  it("treats a due date as due at the end of that day (UTC)", () => {
+    expect(dueDeadline("2026-03-31").toISOString()).toBe("2026-04-01T00:00:00.000Z");
+  });
+});
+
+describe("dueReminderKinds", () => {
+  const hours = [24, 1];
+
+  it("returns nothing before the first offset", () => {
+    expect(dueReminderKinds("2026-03-31", hours, new Date("2026-03-30T23:59:00Z"))).toEqual([]);
+  });
+
+  it("returns the offsets already passed, nearest last", () => {
+    expect(dueReminderKinds("2026-03-31", hours, new Date("2026-03-31T00:00:00Z"))).toEqual(["before:24"]);
+    expect(dueReminderKinds("2026-03-31", [1, 24], new Date("2026-03-31T23:30:00Z"))).toEqual(["before:24", "before:1"]);
+  });
+
+  it("switches to overdue at the deadline and stops after the lookback window", () => {
+    expect(dueReminderKinds("2026-03-31", hours, new Date("2026-04-01T00:00:00Z"))).toEqual(["overdue"]);
+    expect(dueReminderKinds("2026-03-31", hours, new Date("2026-04-07T23:00:00Z"))).toEqual(["overdue"]);
+    expect(dueReminderKinds("2026-03-31", hours, new Date("2026-04-08T00:00:00Z"))).toEqual([]);
+  });
+
+  it("still reports overdue when a project has no reminder offsets", () => {
+    expect(dueReminderKinds("2026-03-31", [], new Date("2026-03-31T12:00:00Z"))).toEqual([]);
+    expect(dueReminderKinds("2026-03-31", [], new Date("2026-04-02T12:00:00Z"))).toEqual(["overdue"]);
+  });
+});
+
+describe("parseReminderHours", () => {
+  it("drops invalid offsets and tolerates bad JSON", () => {
+    expect(parseReminderHours("[24, 0, 1.5, 500, 1]")).toEqual([24, 1]);
+    expect(parseReminderHours("{")).toEqual([]);
+  });
+});
+
+describe("parseReminderSettingsInput", () => {
+  it("de-duplicates and sorts offsets, furthest first", () => {
+    expect(parseReminderSettingsInput({ reminderHours: [1, 48, 1], escalateOverdue: true })).toEqual({
+      input: { reminderHours: [48, 1], escalateOverdue: true },
+    });
+  });
+
+  it("allows turning reminders off", () => {
+    expect(parseReminderSettingsInput({ reminderHours: [] })).toEqual({ input: { reminderHours: [] } });
+  });
+
+  it.each([
+    [{ reminderHours: "24" }, "reminderHours must be a list of at most 5 values"],
+    [{ reminderHours: [1, 2, 3, 4, 5, 6] }, "reminderHours must be a list of at most 5 values"],
+    [{ reminderHours: [0] }, "Reminders must be whole hours between 1 and 168"],
+    [{ reminderHours: [200] }, "Reminders must be whole hours between 1 and 168"],
+    [{ escalateOverdue: "yes" }, "escalateOverdue must be a boolean"],
+  ])("rejects invalid settings (%#)", (body, error) => {
+    expect(parseReminderSettingsInput(body)).toEqual({ error });
+  });
+});
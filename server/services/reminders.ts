@@ -0,0 +1,206 @@
+import { prisma } from '../prisma';
+import { notify, taskLink } from './notifications';
+import { DEFAULT_WORKFLOW, getProjectWorkflows, isDoneStatus } from './workflow';
+
+export interface ReminderSettings {
+  // Remind assignees this many hours before a task is due, e.g. [24, 1]
+  reminderHours: number[];
+  // Also tell the owner and admins when a task becomes overdue
+  escalateOverdue: boolean;
+}
+
+export const DEFAULT_REMINDER_HOURS = [24, 1];
+// Reminders further out than a week aren't useful for day-granularity due dates
+const MAX_REMINDER_HOURS = 7 * 24;
+const MAX_REMINDERS = 5;
+// Tasks that went overdue longer ago than this never get an overdue notification, so the first
+// run after deploying doesn't flood everyone with ancient tasks
+const OVERDUE_LOOKBACK_DAYS = 7;
+const SCHEDULER_INTERVAL_MS = 15 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const toKey = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Due dates are whole days, so a task counts as due at the end of that day (UTC) and
+ * overdue from the next midnight, matching how the recurrence scheduler treats them.
+ */
+export const dueDeadline = (dueDate: string) => new Date(new Date(`${dueDate}T00:00:00Z`).getTime() + DAY_MS);
+
+export const parseReminderHours = (value: string): number[] => {
+  try {
+    const hours = JSON.parse(value);
+    return Array.isArray(hours) ? hours.filter((h) => Number.isInteger(h) && h > 0 && h <= MAX_REMINDER_HOURS) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Validate reminder settings submitted by a client. Fields left out are undefined.
+ */
+export const parseReminderSettingsInput = (body: any): { input: Partial<ReminderSettings> } | { error: string } => {
+  const input: Partial<ReminderSettings> = {};
+  const { reminderHours, escalateOverdue } = body ?? {};
+
+  if (reminderHours !== undefined) {
+    if (!Array.isArray(reminderHours) || reminderHours.length > MAX_REMINDERS) {
+      return { error: `reminderHours must be a list of at most ${MAX_REMINDERS} values` };
+    }
+    if (!reminderHours.every((h) => Number.isInteger(h) && h > 0 && h <= MAX_REMINDER_HOURS)) {
+      return { error: `Reminders must be whole hours between 1 and ${MAX_REMINDER_HOURS}` };
+    }
+    input.reminderHours = Array.from(new Set(reminderHours as number[])).sort((a, b) => b - a);
+  }
+
+  if (escalateOverdue !== undefined) {
+    if (typeof escalateOverdue !== 'boolean') return { error: 'escalateOverdue must be a boolean' };
+    input.escalateOverdue = escalateOverdue;
+  }
+
+  return { input };
+};
+
+export type ReminderKind = `before:${number}` | 'overdue';
+
+/**
+ * The reminders whose time has come for a task due on `dueDate`: every "hours before" offset
+ * already passed while the task isn't due yet, or 'overdue' once the deadline has gone by
+ * (within the lookback window). Nearest offset last.
+ */
+export const dueReminderKinds = (dueDate: string, reminderHours: number[], now = new Date()): ReminderKind[] => {
+  const deadline = dueDeadline(dueDate).getTime();
+  const time = now.getTime();
+
+  if (time >= deadline) {
+    return time - deadline < OVERDUE_LOOKBACK_DAYS * DAY_MS ? ['overdue'] : [];
+  }
+  return [...reminderHours]
+    .sort((a, b) => b - a)
+    .filter((hours) => time >= deadline - hours * HOUR_MS)
+    .map((hours): ReminderKind => `before:${hours}`);
+};
+
+/**
+ * Record that a reminder went out. Returns false if it already had, which is how duplicates are
+ * avoided even when two schedulers race.
+ */
+const claimReminder = async (taskId: number, userId: number, kind: string, dueDate: string) => {
+  try {
+    await prisma.taskReminder.create({ data: { taskId, userId, kind, dueDate } });
+    return true;
+  } catch (error) {
+    if ((error as { code?: string })?.code === 'P2002') return false;
+    throw error;
+  }
+};
+
+const hoursLabel = (hours: number) =>
+  hours % 24 === 0 ? `${hours / 24} day${hours === 24 ? '' : 's'}` : `${hours} hour${hours === 1 ? '' : 's'}`;
+
+/**
+ * Notify assignees of tasks that are due soon or overdue, and escalate overdue tasks to project
+ * admins where the project asks for it
+ */
+export const sendDueReminders = async (now = new Date()) => {
+  const tasks = await prisma.task.findMany({
+    where: {
+      dueDate: {
+        gte: toKey(new Date(now.getTime() - (OVERDUE_LOOKBACK_DAYS + 1) * DAY_MS)),
+        lte: toKey(new Date(now.getTime() + MAX_REMINDER_HOURS * HOUR_MS)),
+      },
+    },
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      dueDate: true,
+      projectId: true,
+      assignees: { select: { userId: true, user: { select: { name: true } } } },
+      project: {
+        select: {
+          reminderHours: true,
+          escalateOverdue: true,
+          ownerId: true,
+          members: { where: { role: 'Admin' }, select: { userId: true } },
+        },
+      },
+    },
+  });
+  const workflows = await getProjectWorkflows(
+    tasks.map((t) => t.projectId).filter((id): id is number => id !== null)
+  );
+
+  let sent = 0;
+  for (const task of tasks) {
+    const workflow = task.projectId ? workflows.get(task.projectId)! : DEFAULT_WORKFLOW;
+    if (!task.dueDate || isDoneStatus(workflow, task.status)) continue;
+
+    const reminderHours = task.project ? parseReminderHours(task.project.reminderHours) : DEFAULT_REMINDER_HOURS;
+    const kinds = dueReminderKinds(task.dueDate, reminderHours, now);
+    if (kinds.length === 0) continue;
+    const link = taskLink(task);
+
+    for (const { userId } of task.assignees) {
+      if (kinds[0] === 'overdue') {
+        if (!(await claimReminder(task.id, userId, 'overdue', task.dueDate))) continue;
+        await notify({ userId, type: 'TASK_OVERDUE', title: 'Overdue', body: task.title, link });
+        sent++;
+        continue;
+      }
+
+      // Claim every passed offset, but only remind about the nearest one
+      let nearestClaimed = false;
+      for (const kind of kinds) {
+        const claimed = await claimReminder(task.id, userId, kind, task.dueDate);
+        if (kind === kinds[kinds.length - 1]) nearestClaimed = claimed;
+      }
+      if (!nearestClaimed) continue;
+      const hours = parseInt(kinds[kinds.length - 1].slice('before:'.length));
+      await notify({ userId, type: 'TASK_DUE_SOON', title: `Due in ${hoursLabel(hours)}`, body: task.title, link });
+      sent++;
+    }
+
+    if (kinds[0] === 'overdue' && task.project?.escalateOverdue) {
+      const assigneeIds = new Set(task.assignees.map((a) => a.userId));
+      const admins = new Set([task.project.ownerId, ...task.project.members.map((m) => m.userId)]);
+      const assigned = task.assignees.map((a) => a.user.name).join(', ') || 'nobody';
+
+      for (const userId of admins) {
+        if (assigneeIds.has(userId)) continue;
+        if (!(await claimReminder(task.id, userId, 'escalation', task.dueDate))) continue;
+        await notify({
+          userId,
+          type: 'TASK_OVERDUE_ESCALATION',
+          title: `Overdue (assigned to ${assigned})`,
+          body: task.title,
+          link,
+        });
+        sent++;
+      }
+    }
+  }
+  return sent;
+};
+
+let schedulerStarted = false;
+
+/**
+ * Check for due and overdue tasks every 15 minutes, so "1 hour before" reminders land on time
+ */
+export const startReminderScheduler = () => {
+  if (schedulerStarted) return;
+  schedulerStarted = true;
+
+  const run = async () => {
+    try {
+      await sendDueReminders();
+    } catch (error) {
+      console.error('Error sending due-date reminders:', error);
+    }
+  };
+
+  run();
+  setInterval(run, SCHEDULER_INTERVAL_MS).unref();
+};
@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../prisma", () => ({ prisma: {} }));
+
+import { documentPlainText, toMatchQuery, toSnippetParts } from "./search";
+
+describe("toMatchQuery", () => {
+  it("prefix-matches every word and neutralises FTS5 syntax", () => {
+    expect(toMatchQuery("fix login")).toBe('"fix"* "login"*');
+    expect(toMatchQuery('title:"café" OR NEAR(x')).toBe('"title"* "café"* "OR"* "NEAR"* "x"*');
+  });
+
+  it("returns null when there are no words", () => {
+    expect(toMatchQuery("  -*() ")).toBeNull();
+  });
+});
+
+describe("toSnippetParts", () => {
+  it("splits highlighted runs", () => {
+    expect(toSnippetParts("deploy the \u0002rocket\u0003 today")).toEqual([
+      { text: "deploy the ", match: false },
+      { text: "rocket", match: true },
+      { text: " today", match: false },
+    ]);
+  });
+
+  it("drops markup from document snippets, including cut-off tags", () => {
+    expect(toSnippetParts('ong>bold</strong> \u0002rocket\u0003 &amp; <a href="x', true)).toEqual([
+      { text: "bold ", match: false },
+      { text: "rocket", match: true },
+      { text: " & ", match: false },
+    ]);
+  });
+});
+
+describe("documentPlainText", () => {
+  it("extracts visible text from rich-text documents", () => {
+    const content = JSON.stringify({ content: "<h1>Plan</h1><p>Ship <strong>v2</strong> &amp; celebrate</p>" });
+    expect(documentPlainText("document", content)).toBe("Plan Ship v2 & celebrate");
+  });
+
+  it("joins spreadsheet cell values", () => {
+    expect(documentPlainText("spreadsheet", JSON.stringify({ cells: { A1: "Budget", B1: 1200, C1: "" } }))).toBe("Budget 1200");
+  });
+
+  it("ignores unparseable content", () => {
+    expect(documentPlainText("document", "not json")).toBe("");
+  });
+});
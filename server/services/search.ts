@@ -0,0 +1,153 @@
+import { prisma } from '../prisma';
+
+export type SearchKind = 'task' | 'comment' | 'document' | 'chat';
+
+export const SEARCH_KINDS: SearchKind[] = ['task', 'comment', 'document', 'chat'];
+
+// A run of snippet text; `match` marks the terms that hit the query
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchHit {
+  type: SearchKind;
+  id: number;
+  projectId: number;
+  projectName: string;
+  // Task title or document name; comments carry their task's title, chat messages none
+  title: string | null;
+  snippet: SnippetPart[];
+  // The task a task or comment hit opens
+  taskId: number | null;
+  documentType: string | null;
+}
+
+interface SearchRow {
+  kind: SearchKind;
+  sourceId: number | bigint;
+  title: string;
+  snippet: string;
+  projectId: number | bigint;
+  projectName: string;
+  taskId: number | bigint | null;
+  taskTitle: string | null;
+  documentType: string | null;
+}
+
+// Highlight markers passed to FTS5's snippet(); control characters never occur in indexed text
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', '#39': "'", nbsp: ' ' };
+
+const stripMarkup = (html: string) =>
+  html
+    .replace(/<(br|\/p|\/li|\/h\d|\/blockquote|\/pre)[^>]*>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (_, entity: string) => ENTITIES[entity]);
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * The searchable text of a document: visible text for rich-text documents,
+ * cell values for spreadsheets
+ */
+export const documentPlainText = (type: string, content: string) => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return '';
+  }
+  if (!parsed || typeof parsed !== 'object') return '';
+
+  if (type === 'spreadsheet') {
+    const cells = (parsed as { cells?: Record<string, unknown> }).cells ?? {};
+    return collapseWhitespace(
+      Object.values(cells)
+        .filter((value) => value !== null && value !== undefined && value !== '')
+        .map(String)
+        .join(' ')
+    );
+  }
+
+  const html = (parsed as { content?: unknown }).content;
+  return typeof html === 'string' ? collapseWhitespace(stripMarkup(html)) : '';
+};
+
+/**
+ * Turn free text into an FTS5 query: every word must match, as a prefix so
+ * results show up while the user is still typing. Returns null when there is
+ * nothing to search for. Words are quoted so FTS5 operators in the input are
+ * treated as plain text.
+ */
+export const toMatchQuery = (input: string) => {
+  const words = input.match(/[\p{L}\p{N}_]+/gu);
+  if (!words) return null;
+  return words.map((word) => `"${word}"*`).join(' ');
+};
+
+/**
+ * Split an FTS5 snippet into plain and highlighted runs. Documents indexed before
+ * plainText existed still carry their markup, so it is dropped from document
+ * snippets, including tags cut off at either edge.
+ */
+export const toSnippetParts = (snippet: string, isMarkup = false): SnippetPart[] => {
+  const text = isMarkup ? stripMarkup(snippet.replace(/^[^<]*?>/, '').replace(/<[^>]*$/, '')) : snippet;
+
+  const parts: SnippetPart[] = [];
+  text.split(new RegExp(`[${MATCH_START}${MATCH_END}]`)).forEach((run, index) => {
+    if (run) parts.push({ text: run, match: index % 2 === 1 });
+  });
+  return parts;
+};
+
+/**
+ * Ranked full-text search over everything the user can see: tasks, comments,
+ * documents and chat messages in projects they own or are a member of.
+ * Titles weigh ten times more than bodies.
+ */
+export const searchProjects = async (
+  userId: number,
+  input: string,
+  { limit = 20, kinds = SEARCH_KINDS }: { limit?: number; kinds?: SearchKind[] } = {}
+): Promise<SearchHit[]> => {
+  const match = toMatchQuery(input);
+  if (!match || kinds.length === 0) return [];
+
+  const rows = await prisma.$queryRaw<SearchRow[]>`
+    WITH "hits" AS (
+      SELECT s."kind", s."sourceId", s."title",
+        snippet("SearchIndex", -1, ${MATCH_START}, ${MATCH_END}, '…', 16) AS "snippet",
+        bm25("SearchIndex", 0, 0, 10, 1) AS "rank",
+        COALESCE(t."projectId", ct."projectId", d."projectId", m."projectId") AS "projectId",
+        c."taskId" AS "taskId", ct."title" AS "taskTitle", d."type" AS "documentType"
+      FROM "SearchIndex" s
+      LEFT JOIN "Task" t ON s."kind" = 'task' AND t."id" = s."sourceId"
+      LEFT JOIN "Comment" c ON s."kind" = 'comment' AND c."id" = s."sourceId"
+      LEFT JOIN "Task" ct ON ct."id" = c."taskId"
+      LEFT JOIN "Document" d ON s."kind" = 'document' AND d."id" = s."sourceId"
+      LEFT JOIN "ChatMessage" m ON s."kind" = 'chat' AND m."id" = s."sourceId"
+      WHERE "SearchIndex" MATCH ${match}
+        AND s."kind" IN (SELECT "value" FROM json_each(${JSON.stringify(kinds)}))
+    )
+    SELECT "hits".*, p."name" AS "projectName"
+    FROM "hits"
+    JOIN "Project" p ON p."id" = "hits"."projectId"
+    WHERE p."ownerId" = ${userId}
+      OR EXISTS (SELECT 1 FROM "ProjectMember" pm WHERE pm."projectId" = p."id" AND pm."userId" = ${userId})
+    ORDER BY "rank"
+    LIMIT ${limit}`;
+
+  return rows.map((row) => ({
+    type: row.kind,
+    id: Number(row.sourceId),
+    projectId: Number(row.projectId),
+    projectName: row.projectName,
+    title: row.kind === 'comment' ? row.taskTitle : row.title || null,
+    snippet: toSnippetParts(row.snippet, row.kind === 'document'),
+    taskId: row.kind === 'task' ? Number(row.sourceId) : row.taskId === null ? null : Number(row.taskId),
+    documentType: row.documentType,
+  }));
+};
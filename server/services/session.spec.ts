@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// A small in-memory Session table
+const sessions = vi.hoisted(() => new Map<number, any>());
+const disconnectSockets = vi.hoisted(() => vi.fn());
+vi.mock("../realtime", () => ({ disconnectSockets }));
+vi.mock("../prisma", () => {
+  let nextId = 1;
+  const matches = (session: any, where: any) => Object.entries(where).every(([key, value]) => session[key] === value);
+  return {
+    prisma: {
+      session: {
+        create: async ({ data }: any) => {
+          const session = {
+            id: nextId++,
+            revokedAt: null,
+            lastUsedAt: null,
+            ...data,
+          };
+          sessions.set(session.id, session);
+          return session;
+        },
+        findUnique: async ({ where }: any) => {
+          const session = Array.from(sessions.values()).find((s) => matches(s, where));
+          return session
+            ? {
+                ...session,
+                user: { id: session.userId, email: "a@example.com", name: "A" },
+              }
+            : null;
+        },
+        update: async ({ where, data }: any) => Object.assign(sessions.get(where.id), data),
+        updateMany: async ({ where, data }: any) => {
+          const matched = Array.from(sessions.values()).filter((s) => matches(s, where));
+          matched.forEach((s) => Object.assign(s, data));
+          return { count: matched.length };
+        },
+      },
+    },
+  };
+});
+
+import {
+  createSession,
+  refreshSession,
+  resolveAccessToken,
+  revokeAllSessions,
+  revokeSession,
+  signAccessToken,
+  verifyAccessToken,
+} from "./session";
+
+beforeEach(() => {
+  process.env.SESSION_SECRET = "test-secret";
+  sessions.clear();
+  disconnectSockets.mockReset();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("access tokens", () => {
+  it("round-trips the user and session", () => {
+    const claims = verifyAccessToken(signAccessToken(4, 9));
+    expect(claims).toMatchObject({ sub: 4, sid: 9 });
+  });
+
+  it("rejects tampered and malformed tokens", () => {
+    const [header, payload, signature] = signAccessToken(4, 9).split(".");
+    const forged = Buffer.from(JSON.stringify({ sub: 1, sid: 9, iat: 0, exp: 9999999999 })).toString("base64url");
+    expect(verifyAccessToken(`${header}.${forged}.${signature}`)).toBeNull();
+    expect(verifyAccessToken(`${header}.${payload}.${signature.slice(0, -2)}xx`)).toBeNull();
+    expect(verifyAccessToken("not-a-token")).toBeNull();
+
+    const token = signAccessToken(4, 9);
+    process.env.SESSION_SECRET = "another-secret";
+    expect(verifyAccessToken(token)).toBeNull();
+  });
+
+  it("expires after fifteen minutes", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-10-20T12:00:00Z"));
+    const token = signAccessToken(4, 9);
+    vi.setSystemTime(new Date("2026-10-20T12:14:00Z"));
+    expect(verifyAccessToken(token)).not.toBeNull();
+    vi.setSystemTime(new Date("2026-10-20T12:15:00Z"));
+    expect(verifyAccessToken(token)).toBeNull();
+  });
+});
+
+describe("sessions", () => {
+  it("rotates refresh tokens, so a used one can't be used again", async () => {
+    const first = await createSession(4, "test");
+    const second = await refreshSession(first.refreshToken);
+    expect(second).not.toBeNull();
+    expect(second!.refreshToken).not.toBe(first.refreshToken);
+    expect(verifyAccessToken(second!.accessToken)).toMatchObject({ sub: 4 });
+
+    expect(await refreshSession(first.refreshToken)).toBeNull();
+    expect(await refreshSession(second!.refreshToken)).not.toBeNull();
+  });
+
+  it("disconnects the sockets of a revoked session", async () => {
+    const { sessionId } = (await resolveAccessToken((await createSession(4, "phone")).accessToken))!;
+    await revokeSession(sessionId);
+
+    const [matches] = disconnectSockets.mock.calls[0];
+    expect(matches({ user: { id: 4 }, sessionId })).toBe(true);
+    expect(matches({ user: { id: 4 }, sessionId: sessionId + 1 })).toBe(false);
+  });
+
+  it("ends every session a user has when they're all revoked", async () => {
+    const phone = await createSession(4, "phone");
+    const laptop = await createSession(4, "laptop");
+    const other = await createSession(5, "other");
+    expect(await resolveAccessToken(phone.accessToken)).toMatchObject({
+      user: { id: 4 },
+    });
+
+    await revokeAllSessions(4);
+    const [matches] = disconnectSockets.mock.calls[0];
+    expect(matches({ user: { id: 4 }, sessionId: 99 })).toBe(true);
+    expect(matches({ user: { id: 5 }, sessionId: 99 })).toBe(false);
+
+    expect(await resolveAccessToken(phone.accessToken)).toBeNull();
+    expect(await resolveAccessToken(laptop.accessToken)).toBeNull();
+    expect(await refreshSession(laptop.refreshToken)).toBeNull();
+    expect(await resolveAccessToken(other.accessToken)).not.toBeNull();
+  });
+});
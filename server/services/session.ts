@@ -0,0 +1,188 @@
+import crypto from 'crypto';
+import { prisma } from '../prisma';
+import { disconnectSockets } from '../realtime';
+
+// Access tokens are short-lived signed JWTs (HS256) that point at a Session row.
+// Refresh tokens are opaque random strings; only their sha256 is stored.
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface AccessTokenClaims {
+  sub: number; // user id
+  sid: number; // session id
+  iat: number;
+  exp: number;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+let devSecret: string | null = null;
+
+const getSecret = () => {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET must be set in production');
+  }
+
+  // Development fallback: a per-process secret. Access tokens stop verifying
+  // after a restart, but clients recover through the refresh endpoint.
+  if (!devSecret) {
+    devSecret = crypto.randomBytes(32).toString('hex');
+    console.warn('⚠️  SESSION_SECRET is not set; using a temporary secret for this process');
+  }
+  return devSecret;
+};
+
+const base64url = (input: Buffer | string) =>
+  Buffer.from(input).toString('base64url');
+
+const sign = (data: string) =>
+  crypto.createHmac('sha256', getSecret()).update(data).digest('base64url');
+
+export const hashToken = (token: string) =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Create a signed access token for a session
+ */
+export const signAccessToken = (userId: number, sessionId: number): string => {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64url(
+    JSON.stringify({ sub: userId, sid: sessionId, iat: now, exp: now + ACCESS_TOKEN_TTL_SECONDS })
+  );
+  return `${header}.${payload}.${sign(`${header}.${payload}`)}`;
+};
+
+/**
+ * Verify an access token's signature and expiry.
+ * Returns null for anything malformed, tampered with or expired.
+ */
+export const verifyAccessToken = (token: string): AccessTokenClaims | null => {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  const [header, payload, signature] = parts;
+  const expected = Buffer.from(sign(`${header}.${payload}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof claims.sub !== 'number' || typeof claims.sid !== 'number' || typeof claims.exp !== 'number') {
+      return null;
+    }
+    if (claims.exp * 1000 <= Date.now()) return null;
+    return claims as AccessTokenClaims;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Start a new session for a user and return its tokens
+ */
+export const createSession = async (userId: number, userAgent?: string | null): Promise<SessionTokens> => {
+  const refreshToken = crypto.randomBytes(48).toString('base64url');
+
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      refreshTokenHash: hashToken(refreshToken),
+      userAgent: userAgent ?? null,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    },
+  });
+
+  return {
+    accessToken: signAccessToken(userId, session.id),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  };
+};
+
+/**
+ * Exchange a refresh token for a new token pair.
+ * The refresh token is rotated, so each one can only be used once.
+ */
+export const refreshSession = async (refreshToken: string): Promise<SessionTokens | null> => {
+  const session = await prisma.session.findUnique({
+    where: { refreshTokenHash: hashToken(refreshToken) },
+  });
+
+  if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+    return null;
+  }
+
+  const nextRefreshToken = crypto.randomBytes(48).toString('base64url');
+
+  await prisma.session.update({
+    where: { id: session.id },
+    data: {
+      refreshTokenHash: hashToken(nextRefreshToken),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+      lastUsedAt: new Date(),
+    },
+  });
+
+  return {
+    accessToken: signAccessToken(session.userId, session.id),
+    refreshToken: nextRefreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  };
+};
+
+/**
+ * Resolve an access token to its user, checking the session is still live
+ */
+export const resolveAccessToken = async (token: string) => {
+  const claims = verifyAccessToken(token);
+  if (!claims) return null;
+
+  const session = await prisma.session.findUnique({
+    where: { id: claims.sid },
+    select: {
+      id: true,
+      userId: true,
+      expiresAt: true,
+      revokedAt: true,
+      user: { select: { id: true, email: true, name: true } },
+    },
+  });
+
+  if (!session || session.userId !== claims.sub || session.revokedAt || session.expiresAt <= new Date()) {
+    return null;
+  }
+
+  return { sessionId: session.id, user: session.user, expiresAt: new Date(claims.exp * 1000) };
+};
+
+/**
+ * Revoke a single session (logout)
+ */
+export const revokeSession = async (sessionId: number) => {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  await disconnectSockets((auth) => auth.sessionId === sessionId);
+};
+
+/**
+ * Revoke every session a user has (e.g. after a password reset)
+ */
+export const revokeAllSessions = async (userId: number) => {
+  await prisma.session.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  await disconnectSockets((auth) => auth.user?.id === userId);
+};
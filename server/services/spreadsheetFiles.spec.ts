@@ -0,0 +1,133 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../prisma", () => ({ prisma: {} }));
+
+import {
+  buildCsv,
+  buildXlsx,
+  parseCsv,
+  parseSpreadsheetFile,
+  parseXlsx,
+  sheetToGrid,
+  taskTableGrid,
+} from "./spreadsheetFiles";
+import { createZip, readZip } from "./zipArchive";
+import { DEFAULT_WORKFLOW } from "./workflow";
+
+const cellsOf = (parsed: ReturnType<typeof parseCsv>) => {
+  if ("error" in parsed) throw new Error(parsed.error);
+  return parsed.cells;
+};
+
+// A workbook as Excel writes it: shared strings, styles, and the sheet not called sheet1.xml
+const excelWorkbook = (sheetXml: string, extra: Record<string, string> = {}) => {
+  const files: Record<string, string> = {
+    "xl/workbook.xml":
+      '<workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Data" sheetId="3" r:id="rId7"/></sheets></workbook>',
+    "xl/_rels/workbook.xml.rels":
+      '<Relationships><Relationship Id="rId7" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/data.xml"/></Relationships>',
+    "xl/worksheets/data.xml": `<worksheet><sheetData>${sheetXml}</sheetData></worksheet>`,
+    ...extra,
+  };
+  return createZip(Object.entries(files).map(([name, xml]) => ({ name, data: Buffer.from(xml) })));
+};
+
+describe("sheetToGrid", () => {
+  it("evaluates formulas and keeps them alongside their values", () => {
+    const grid = sheetToGrid({ A1: "2", A2: "3", B1: "=A1*A2", B2: "=1/0", C1: "note" });
+    expect(grid).toEqual([
+      [{ value: 2 }, { value: 6, formula: "A1*A2" }, { value: "note" }],
+      [{ value: 3 }, { value: { error: "#DIV/0!" }, formula: "1/0" }, { value: null }],
+    ]);
+  });
+});
+
+describe("buildCsv", () => {
+  it("writes what each cell shows, quoting where needed", () => {
+    const grid = sheetToGrid({ A1: "Item, large", B1: "=2*21", A2: 'say "hi"', B2: "=1>0" });
+    expect(buildCsv(grid)).toBe('"Item, large",42\r\n"say ""hi""",TRUE');
+  });
+});
+
+describe("xlsx", () => {
+  it("round-trips values and formulas", () => {
+    const cells = { A1: "Name", B1: "Cost", A2: "Rent & <fees>", B2: "1200.5", B3: "=SUM(B1:B2)", C3: "=B3>1000" };
+    const parsed = parseXlsx(buildXlsx(sheetToGrid(cells), "Budget"));
+    expect(cellsOf(parsed)).toEqual({ ...cells, B2: "1200.5" });
+  });
+
+  it("writes computed values Excel can show before recalculating", () => {
+    const zip = readZip(buildXlsx(sheetToGrid({ A1: "4", B1: "=A1*2", C1: '="x"&A1', D1: "=A1/0" }), "a/b: c"));
+    if ("error" in zip) throw new Error(zip.error);
+    const sheet = zip.files.get("xl/worksheets/sheet1.xml")!.toString();
+    expect(sheet).toContain('<c r="B1"><f>A1*2</f><v>8</v></c>');
+    expect(sheet).toContain('<c r="C1" t="str"><f>&quot;x&quot;&amp;A1</f><v>x4</v></c>');
+    expect(sheet).toContain('<c r="D1" t="e"><f>A1/0</f><v>#DIV/0!</v></c>');
+    expect(zip.files.get("xl/workbook.xml")!.toString()).toContain('name="a b  c"');
+  });
+
+  it("reads shared strings, booleans, dates and cells without references", () => {
+    const workbook = excelWorkbook(
+      '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>' +
+        '<row r="2"><c r="A2" s="1"><v>46112</v></c><c r="B2" t="b"><v>1</v></c><c r="C2"><f>B2</f><v>1</v></c></row>' +
+        '<row><c><v>7</v></c><c t="inlineStr"><is><t>inline</t></is></c></row>',
+      {
+        "xl/sharedStrings.xml":
+          "<sst><si><t>Due</t></si><si><r><t>Rich </t></r><r><t>text</t></r><rPh><t>ignored</t></rPh></si></sst>",
+        "xl/styles.xml":
+          '<styleSheet><numFmts><numFmt numFmtId="164" formatCode="yyyy\\-mm\\-dd"/></numFmts>' +
+          '<cellXfs><xf numFmtId="0"/><xf numFmtId="164"/></cellXfs></styleSheet>',
+      },
+    );
+    expect(cellsOf(parseSpreadsheetFile(workbook))).toEqual({
+      A1: "Due",
+      B1: "Rich text",
+      A2: "2026-03-31",
+      B2: "TRUE",
+      C2: "=B2",
+      A3: "7",
+      B3: "inline",
+    });
+  });
+
+  it("rejects files that are not workbooks", () => {
+    expect(parseXlsx(Buffer.from("PK\x03\x04 nope"))).toEqual({ error: "Not a ZIP archive" });
+    expect(parseXlsx(createZip([{ name: "readme.txt", data: Buffer.from("hi") }]))).toEqual({
+      error: "The workbook has no worksheets",
+    });
+  });
+});
+
+describe("parseCsv", () => {
+  it("reads rows from A1, skipping a byte order mark and empty cells", () => {
+    expect(cellsOf(parseCsv('\uFEFFa,,"b, c"\n\n1,=A2*2\n'))).toEqual({ A1: "a", C1: "b, c", A3: "1", B3: "=A2*2" });
+  });
+
+  it("rejects sheets wider than the editor", () => {
+    expect(parseCsv(`${"x,".repeat(26)}x`)).toEqual({ error: "Spreadsheets can have at most 26 columns (A to Z)" });
+  });
+});
+
+describe("taskTableGrid", () => {
+  it("lists tasks under a header row with status names and assignees", () => {
+    const grid = taskTableGrid(
+      [
+        {
+          title: "=not a formula",
+          status: "inprogress",
+          priority: "high",
+          dueDate: "2026-04-01",
+          assignees: [
+            { id: 1, name: "Ada", email: "ada@example.com" },
+            { id: 2, name: "Alan", email: "alan@example.com" },
+          ],
+        },
+        { title: "Write docs", status: "todo", priority: "low", dueDate: null, assignees: [] },
+      ],
+      DEFAULT_WORKFLOW,
+    );
+    expect(buildCsv(grid)).toBe(
+      'Title,Status,Priority,Assignee,Due date\r\n=not a formula,In Progress,High,"Ada, Alan",2026-04-01\r\nWrite docs,To Do,Low,,',
+    );
+  });
+});
@@ -0,0 +1,331 @@
+import Papa from 'papaparse';
+import { cellKey, createFormulaSheet, formatValue, isFormulaError, parseCellKey, type CellValue } from '../../shared/formulas';
+import { createZip, readZip } from './zipArchive';
+import { formatPeople, type TaskPerson } from './taskPeople';
+import type { WorkflowStatusDef } from './workflow';
+
+export const SPREADSHEET_FORMATS = ['csv', 'xlsx'] as const;
+
+export type SpreadsheetFormat = (typeof SPREADSHEET_FORMATS)[number];
+
+// Raw cell input keyed like "B3", as stored in a spreadsheet document's content
+export type SheetCells = Record<string, string>;
+
+// The editor's columns are A to Z
+export const MAX_IMPORT_COLUMNS = 26;
+export const MAX_IMPORT_ROWS = 5000;
+
+// What a cell exports as: its value, plus the formula that produced it
+export interface ExportCell {
+  value: CellValue;
+  formula?: string;
+}
+
+export const TASK_TABLE_COLUMNS = ['Title', 'Status', 'Priority', 'Assignee', 'Due date'];
+
+export interface TaskTableRow {
+  title: string;
+  status: string;
+  priority: string;
+  dueDate: string | null;
+  assignees: TaskPerson[];
+}
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+} as const;
+
+export const spreadsheetContentType = (format: SpreadsheetFormat) => CONTENT_TYPES[format];
+
+// ---- Export ----
+
+/**
+ * Evaluate a spreadsheet's cells into rows of values, formulas kept alongside what they computed
+ */
+export const sheetToGrid = (cells: SheetCells, now = () => new Date()): ExportCell[][] => {
+  let rows = 0;
+  let columns = 0;
+  for (const key of Object.keys(cells)) {
+    const at = parseCellKey(key);
+    if (!at || cells[key] === '') continue;
+    rows = Math.max(rows, at.row);
+    columns = Math.max(columns, at.col);
+  }
+
+  const sheet = createFormulaSheet({ rows, columns }, { now });
+  sheet.load(cells);
+  return Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: columns }, (_, c) => {
+      const key = cellKey(c + 1, r + 1);
+      const input = sheet.getInput(key);
+      const value = sheet.getValue(key);
+      return input.startsWith('=') ? { value, formula: input.slice(1) } : { value };
+    })
+  );
+};
+
+/**
+ * A task table as rows: a header, then one row per task in the order given
+ */
+export const taskTableGrid = (tasks: TaskTableRow[], workflow: WorkflowStatusDef[]): ExportCell[][] => {
+  const text = (value: string | null | undefined): ExportCell => ({ value: value ? value : null });
+  const statusName = (key: string) => workflow.find((s) => s.key === key)?.name ?? key;
+
+  return [
+    TASK_TABLE_COLUMNS.map(text),
+    ...tasks.map((task) =>
+      [
+        task.title,
+        statusName(task.status),
+        task.priority.charAt(0).toUpperCase() + task.priority.slice(1),
+        formatPeople(task.assignees),
+        task.dueDate?.slice(0, 10),
+      ].map(text)
+    ),
+  ];
+};
+
+/**
+ * CSV of what each cell shows
+ */
+export const buildCsv = (grid: ExportCell[][]) =>
+  Papa.unparse(grid.map((row) => row.map((cell) => formatValue(cell.value)))) as string;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Error values Excel knows; ours beyond these are left for Excel to recalculate
+const EXCEL_ERRORS = new Set(['#REF!', '#DIV/0!', '#VALUE!', '#NAME?']);
+
+const xlsxCell = (ref: string, cell: ExportCell) => {
+  const { value, formula } = cell;
+  const f = formula !== undefined ? `<f>${escapeXml(formula)}</f>` : '';
+
+  if (isFormulaError(value)) {
+    return EXCEL_ERRORS.has(value.error) ? `<c r="${ref}" t="e">${f}<v>${value.error}</v></c>` : `<c r="${ref}">${f}</c>`;
+  }
+  if (typeof value === 'number') return `<c r="${ref}">${f}<v>${value}</v></c>`;
+  if (typeof value === 'boolean') return `<c r="${ref}" t="b">${f}<v>${value ? 1 : 0}</v></c>`;
+  if (value === null) return f ? `<c r="${ref}">${f}</c>` : '';
+  if (f) return `<c r="${ref}" t="str">${f}<v>${escapeXml(value)}</v></c>`;
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const DOC_RELS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+/**
+ * A single-sheet .xlsx workbook. Formulas are written with their computed values and Excel is
+ * asked to recalculate on open.
+ */
+export const buildXlsx = (grid: ExportCell[][], sheetName = 'Sheet1'): Buffer => {
+  // Sheet names can't contain []:*?/\ and are at most 31 characters
+  const name = sheetName.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet1';
+
+  const rows = grid
+    .map((row, r) => {
+      const cells = row.map((cell, c) => xlsxCell(cellKey(c + 1, r + 1), cell)).join('');
+      return cells ? `<row r="${r + 1}">${cells}</row>` : '';
+    })
+    .join('');
+
+  const xml = (body: string) => Buffer.from(XML_DECLARATION + body, 'utf8');
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      data: xml(
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+          '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+          '<Default Extension="xml" ContentType="application/xml"/>' +
+          '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+          '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+          '</Types>'
+      ),
+    },
+    {
+      name: '_rels/.rels',
+      data: xml(
+        `<Relationships xmlns="${RELS_NS}">` +
+          `<Relationship Id="rId1" Type="${DOC_RELS_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+          '</Relationships>'
+      ),
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: xml(
+        `<workbook xmlns="${MAIN_NS}" xmlns:r="${DOC_RELS_NS}">` +
+          `<sheets><sheet name="${escapeXml(name)}" sheetId="1" r:id="rId1"/></sheets>` +
+          '<calcPr fullCalcOnLoad="1"/>' +
+          '</workbook>'
+      ),
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: xml(
+        `<Relationships xmlns="${RELS_NS}">` +
+          `<Relationship Id="rId1" Type="${DOC_RELS_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+          '</Relationships>'
+      ),
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      data: xml(`<worksheet xmlns="${MAIN_NS}"><sheetData>${rows}</sheetData></worksheet>`),
+    },
+  ]);
+};
+
+// ---- Import ----
+
+type ParsedSheet = { cells: SheetCells } | { error: string };
+
+const checkBounds = (cells: SheetCells): ParsedSheet => {
+  for (const key of Object.keys(cells)) {
+    const at = parseCellKey(key)!;
+    if (at.col > MAX_IMPORT_COLUMNS) {
+      return { error: `Spreadsheets can have at most ${MAX_IMPORT_COLUMNS} columns (A to Z)` };
+    }
+    if (at.row > MAX_IMPORT_ROWS) {
+      return { error: `Spreadsheets can have at most ${MAX_IMPORT_ROWS} rows` };
+    }
+  }
+  return { cells };
+};
+
+/**
+ * Cells from a CSV file, one row per line starting at A1. Values are kept as typed, so a cell
+ * reading "=A1*2" becomes a formula.
+ */
+export const parseCsv = (text: string): ParsedSheet => {
+  const { data } = Papa.parse(text.replace(/^\uFEFF/, ''), { skipEmptyLines: false }) as { data: string[][] };
+  const cells: SheetCells = {};
+  data.forEach((row, r) => {
+    row.forEach((value, c) => {
+      if (value !== '') cells[cellKey(c + 1, r + 1)] = value;
+    });
+  });
+  return checkBounds(cells);
+};
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeXml = (text: string) =>
+  text
+    .replace(/&(?:#x([0-9a-f]+)|#(\d+)|(\w+));/gi, (match, hex: string, dec: string, name: string) =>
+      hex ? String.fromCodePoint(parseInt(hex, 16)) : dec ? String.fromCodePoint(parseInt(dec, 10)) : ENTITIES[name] ?? match
+    )
+    // Excel's escape for characters XML can't hold, e.g. _x000D_
+    .replace(/_x([0-9a-f]{4})_/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+
+const attribute = (attributes: string, name: string) =>
+  new RegExp(`(?:^|\\s)${name}="([^"]*)"`).exec(attributes)?.[1];
+
+// The text of a string item: plain, or rich text runs. Phonetic hints aren't part of it.
+const stringText = (xml: string) =>
+  Array.from(xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g))
+    .map((m) => decodeXml(m[1]))
+    .join('');
+
+// Built-in number formats that show a date
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+const isDateFormatCode = (code: string) =>
+  /[dmy]/i.test(code.replace(/"[^"]*"|\[[^\]]*\]|\\./g, ''));
+
+// Which cell styles (the s attribute, an index into cellXfs) format numbers as dates
+const dateStyles = (stylesXml: string | undefined) => {
+  const styles = new Set<number>();
+  if (!stylesXml) return styles;
+
+  const customDates = new Set<number>();
+  for (const m of stylesXml.matchAll(/<numFmt\b([^>]*)\/?>/g)) {
+    const code = decodeXml(attribute(m[1], 'formatCode') ?? '');
+    if (isDateFormatCode(code)) customDates.add(parseInt(attribute(m[1], 'numFmtId') ?? ''));
+  }
+
+  const cellXfs = /<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/.exec(stylesXml)?.[1] ?? '';
+  Array.from(cellXfs.matchAll(/<xf\b([^>]*?)\/?>/g)).forEach((m, index) => {
+    const id = parseInt(attribute(m[1], 'numFmtId') ?? '0');
+    if (DATE_FORMAT_IDS.has(id) || customDates.has(id)) styles.add(index);
+  });
+  return styles;
+};
+
+// Excel counts days from 1899-12-30
+const serialToDate = (serial: number) => {
+  const iso = new Date(Math.round((serial - 25569) * 86400000)).toISOString();
+  return Number.isInteger(serial) ? iso.slice(0, 10) : `${iso.slice(0, 10)} ${iso.slice(11, 16)}`;
+};
+
+// The worksheet the workbook lists first, which isn't always sheet1.xml
+const firstSheetPath = (files: Map<string, Buffer>) => {
+  const workbook = files.get('xl/workbook.xml')?.toString('utf8') ?? '';
+  const rels = files.get('xl/_rels/workbook.xml.rels')?.toString('utf8') ?? '';
+  const sheet = /<sheet\b([^>]*)\/?>/.exec(workbook);
+  const relId = sheet ? /\b[\w]+:id="([^"]*)"/.exec(sheet[1])?.[1] : undefined;
+
+  for (const m of rels.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    if (attribute(m[1], 'Id') !== relId) continue;
+    const target = attribute(m[1], 'Target') ?? '';
+    return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+  return 'xl/worksheets/sheet1.xml';
+};
+
+/**
+ * Cells from the first sheet of an .xlsx workbook. Formulas come back as "=…" input, dates as
+ * YYYY-MM-DD, and everything else as the value Excel last saved.
+ */
+export const parseXlsx = (buffer: Buffer): ParsedSheet => {
+  const zip = readZip(buffer);
+  if ('error' in zip) return { error: zip.error };
+  const { files } = zip;
+
+  const sheetXml = files.get(firstSheetPath(files))?.toString('utf8');
+  if (!sheetXml) return { error: 'The workbook has no worksheets' };
+
+  const sharedXml = files.get('xl/sharedStrings.xml')?.toString('utf8') ?? '';
+  const shared = Array.from(sharedXml.matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g)).map((m) => stringText(m[1]));
+  const dates = dateStyles(files.get('xl/styles.xml')?.toString('utf8'));
+
+  const cells: SheetCells = {};
+  let rowNumber = 0;
+  for (const row of sheetXml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    // Row and cell references are optional; without them they follow on from the previous one
+    rowNumber = parseInt(attribute(row[1], 'r') ?? '') || rowNumber + 1;
+    let col = 0;
+
+    for (const c of (row[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const at = parseCellKey(attribute(c[1], 'r') ?? '');
+      col = at ? at.col : col + 1;
+      const body = c[2] ?? '';
+      const type = attribute(c[1], 't') ?? 'n';
+      const v = /<v\b[^>]*>([\s\S]*?)<\/v>/.exec(body)?.[1];
+      const formula = /<f\b[^>]*>([\s\S]*?)<\/f>/.exec(body)?.[1];
+
+      let input: string | undefined;
+      if (formula) input = `=${decodeXml(formula)}`;
+      else if (type === 'inlineStr') input = stringText(/<is\b[^>]*>([\s\S]*?)<\/is>/.exec(body)?.[1] ?? '');
+      else if (v === undefined) input = undefined;
+      else if (type === 's') input = shared[parseInt(v)];
+      else if (type === 'b') input = v === '1' ? 'TRUE' : 'FALSE';
+      else if (type === 'n') {
+        const number = Number(v);
+        const style = parseInt(attribute(c[1], 's') ?? '0');
+        input = Number.isNaN(number) ? v : dates.has(style) ? serialToDate(number) : String(number);
+      } else input = decodeXml(v);
+
+      if (input) cells[cellKey(col, rowNumber)] = input;
+    }
+  }
+  return checkBounds(cells);
+};
+
+/**
+ * Cells from an uploaded CSV or .xlsx file, told apart by content since browsers don't agree on
+ * their MIME types
+ */
+export const parseSpreadsheetFile = (buffer: Buffer): ParsedSheet =>
+  buffer.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04])) ? parseXlsx(buffer) : parseCsv(buffer.toString('utf8'));
@@ -0,0 +1,20 @@
+import { prisma } from '../prisma';
+
+export const parseTaskIds = (raw: string | null): number[] => {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.map(Number).filter((n) => !Number.isNaN(n)) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Ids of every task that was part of a sprint: those still in it plus those
+ * rolled over to another sprint (or the backlog) when it closed
+ */
+export const getSprintTaskIds = async (sprint: { id: number; rolledOverTaskIds: string | null }) => {
+  const current = await prisma.task.findMany({ where: { sprintId: sprint.id }, select: { id: true } });
+  return Array.from(new Set([...current.map((t) => t.id), ...parseTaskIds(sprint.rolledOverTaskIds)]));
+};
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../prisma", () => ({ prisma: {} }));
+
+import { MAX_IMPORT_ROWS, parseImportRows, planTaskImport, type ImportContext } from "./taskImport";
+import { DEFAULT_WORKFLOW } from "./workflow";
+
+const context: ImportContext = {
+  statuses: DEFAULT_WORKFLOW,
+  members: [
+    { id: 1, name: "Ada Lovelace", email: "ada@example.com" },
+    { id: 2, name: "Alan Turing", email: "alan@example.com" },
+  ],
+  labels: [{ id: 7, name: "Bug" }],
+};
+
+describe("parseImportRows", () => {
+  it("defaults the source to csv", () => {
+    expect(parseImportRows({ rows: [{ title: "A" }] })).toEqual({ rows: [{ title: "A" }], source: "csv" });
+  });
+
+  it.each([
+    [{ rows: [] }, "rows must be a non-empty array"],
+    [{ rows: ["A"] }, "Each row must be an object of mapped fields"],
+    [{ rows: [{ title: "A" }], source: "asana" }, "source must be one of csv, trello, jira, json"],
+    [{ rows: Array.from({ length: MAX_IMPORT_ROWS + 1 }, () => ({ title: "A" })) }, `At most ${MAX_IMPORT_ROWS} rows can be imported at once`],
+  ])("rejects invalid bodies (%#)", (body, error) => {
+    expect(parseImportRows(body)).toEqual({ error });
+  });
+});
+
+describe("planTaskImport", () => {
+  it("resolves statuses, priorities, people, dates and labels", () => {
+    const plan = planTaskImport(
+      [
+        {
+          key: "T-1",
+          title: " Fix login ",
+          status: "In Progress",
+          priority: "Highest",
+          assignee: "ada@example.com; alan turing",
+          dueDate: "2026-03-01T12:00:00.000Z",
+          labels: "bug, Backend, backend",
+        },
+        { key: "T-2", title: "Ship it", blockedBy: "T-1", labels: ["backend"] },
+      ],
+      context
+    );
+
+    expect(plan.errors).toEqual([]);
+    expect(plan.newLabels).toEqual(["Backend"]);
+    expect(plan.dependencyCount).toBe(1);
+    expect(plan.tasks).toEqual([
+      {
+        row: 1,
+        key: "T-1",
+        title: "Fix login",
+        description: null,
+        status: "inprogress",
+        priority: "high",
+        assigneeIds: [1, 2],
+        dueDate: "2026-03-01",
+        labels: ["Bug", "Backend"],
+        blockedBy: [],
+      },
+      {
+        row: 2,
+        key: "T-2",
+        title: "Ship it",
+        description: null,
+        status: "todo",
+        priority: "medium",
+        assigneeIds: [],
+        dueDate: null,
+        labels: ["Backend"],
+        blockedBy: ["T-1"],
+      },
+    ]);
+  });
+
+  it("reports every problem with its row and leaves those rows out", () => {
+    const plan = planTaskImport(
+      [
+        { key: "A", title: "" },
+        { key: "A", title: "Dup", status: "Blocked", priority: "asap" },
+        { title: "Late", dueDate: "someday", assignee: "grace@example.com", blockedBy: "Z", labels: "Only here" },
+        { key: "C", title: "Self", blockedBy: "C" },
+        { title: "Fine" },
+      ],
+      context
+    );
+
+    expect(plan.errors).toEqual([
+      { row: 1, field: "title", message: "Title is required" },
+      { row: 2, field: "key", message: 'Duplicate key "A" (also on row 1)' },
+      { row: 2, field: "status", message: 'Unknown status "Blocked"' },
+      { row: 2, field: "priority", message: 'Unknown priority "asap"' },
+      { row: 3, field: "assignee", message: '"grace@example.com" is not a member of this project' },
+      { row: 3, field: "dueDate", message: '"someday" is not a date' },
+      { row: 3, field: "blockedBy", message: 'No row has the key "Z"' },
+      { row: 4, field: "blockedBy", message: "A task cannot depend on itself" },
+    ]);
+    expect(plan.tasks.map((t) => t.title)).toEqual(["Fine"]);
+    // Labels only used by invalid rows aren't created
+    expect(plan.newLabels).toEqual([]);
+  });
+});
@@ -0,0 +1,379 @@
+import { prisma } from '../prisma';
+import { getInitialStatus, type WorkflowStatusDef } from './workflow';
+import { revokeTaskXp } from './gamification';
+
+export const IMPORT_FIELDS = [
+  'key',
+  'title',
+  'description',
+  'status',
+  'priority',
+  'assignee',
+  'dueDate',
+  'labels',
+  'blockedBy',
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+export const IMPORT_SOURCES = ['csv', 'trello', 'jira', 'json'] as const;
+
+export type ImportSource = (typeof IMPORT_SOURCES)[number];
+
+// Rows per import; larger files should be split
+export const MAX_IMPORT_ROWS = 1000;
+
+export interface ImportRowError {
+  // 1-based, matching the row numbers shown in the preview
+  row: number;
+  field: ImportField | null;
+  message: string;
+}
+
+// A row that passed validation, resolved against the project
+export interface PlannedTask {
+  row: number;
+  key: string | null;
+  title: string;
+  description: string | null;
+  status: string;
+  priority: string;
+  assigneeIds: number[];
+  dueDate: string | null;
+  // Label names as stored: existing labels keep their casing, new ones use the file's
+  labels: string[];
+  // Keys of other rows in the same file
+  blockedBy: string[];
+}
+
+export interface ImportPlan {
+  tasks: PlannedTask[];
+  errors: ImportRowError[];
+  newLabels: string[];
+  dependencyCount: number;
+}
+
+export interface ImportContext {
+  statuses: WorkflowStatusDef[];
+  members: Array<{ id: number; name: string; email: string }>;
+  labels: Array<{ id: number; name: string }>;
+}
+
+// Jira has five priorities, the board has three
+const PRIORITY_ALIASES: Record<string, string> = {
+  lowest: 'low',
+  low: 'low',
+  minor: 'low',
+  trivial: 'low',
+  medium: 'medium',
+  normal: 'medium',
+  major: 'medium',
+  high: 'high',
+  highest: 'high',
+  critical: 'high',
+  blocker: 'high',
+  urgent: 'high',
+};
+
+const DATE_PREFIX = /^(\d{4}-\d{2}-\d{2})/;
+
+const text = (value: unknown) => {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(String).join(', ');
+  return String(value).trim();
+};
+
+const splitList = (value: string) =>
+  value
+    .split(/[,;]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// ISO dates and timestamps keep their date part; anything else Date can read is taken as a local date
+const parseDueDate = (value: string): string | null => {
+  const iso = DATE_PREFIX.exec(value);
+  if (iso) return Number.isNaN(Date.parse(iso[1])) ? null : iso[1];
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Check that the import body is a list of rows before they're resolved against a project
+ */
+export const parseImportRows = (body: any): { rows: Record<string, unknown>[]; source: ImportSource } | { error: string } => {
+  const { rows, source = 'csv' } = body ?? {};
+  if (!Array.isArray(rows) || rows.length === 0) {
+    return { error: 'rows must be a non-empty array' };
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return { error: `At most ${MAX_IMPORT_ROWS} rows can be imported at once` };
+  }
+  if (rows.some((row) => !row || typeof row !== 'object' || Array.isArray(row))) {
+    return { error: 'Each row must be an object of mapped fields' };
+  }
+  if (!IMPORT_SOURCES.includes(source)) {
+    return { error: `source must be one of ${IMPORT_SOURCES.join(', ')}` };
+  }
+  return { rows, source };
+};
+
+/**
+ * Resolve mapped rows against a project's statuses, members and labels. Every problem is
+ * reported with its row so the dry run can show them all at once; rows with errors are left
+ * out of `tasks`.
+ */
+export const planTaskImport = (rows: Record<string, unknown>[], context: ImportContext): ImportPlan => {
+  const errors: ImportRowError[] = [];
+  const tasks: PlannedTask[] = [];
+  const newLabels = new Map<string, string>();
+  const existingLabels = new Map(context.labels.map((l) => [l.name.toLowerCase(), l.name]));
+  const initialStatus = getInitialStatus(context.statuses);
+
+  // Keys are collected first so a row can be blocked by one further down the file
+  const keyRows = new Map<string, number>();
+  rows.forEach((row, index) => {
+    const key = text(row.key);
+    if (!key) return;
+    if (keyRows.has(key)) {
+      errors.push({ row: index + 1, field: 'key', message: `Duplicate key "${key}" (also on row ${keyRows.get(key)})` });
+    } else {
+      keyRows.set(key, index + 1);
+    }
+  });
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 1;
+    let valid = !errors.some((e) => e.row === rowNumber);
+    const fail = (field: ImportField, message: string) => {
+      errors.push({ row: rowNumber, field, message });
+      valid = false;
+    };
+
+    const title = text(row.title);
+    if (!title) fail('title', 'Title is required');
+
+    let status = initialStatus;
+    const rawStatus = text(row.status);
+    if (rawStatus) {
+      const lower = rawStatus.toLowerCase();
+      const match = context.statuses.find((s) => s.key.toLowerCase() === lower || s.name.toLowerCase() === lower);
+      if (match) status = match.key;
+      else fail('status', `Unknown status "${rawStatus}"`);
+    }
+
+    let priority = 'medium';
+    const rawPriority = text(row.priority);
+    if (rawPriority) {
+      const match = PRIORITY_ALIASES[rawPriority.toLowerCase()];
+      if (match) priority = match;
+      else fail('priority', `Unknown priority "${rawPriority}"`);
+    }
+
+    const assigneeIds: number[] = [];
+    for (const person of splitList(text(row.assignee))) {
+      const lower = person.toLowerCase();
+      const member = context.members.find((m) => m.email.toLowerCase() === lower || m.name.toLowerCase() === lower);
+      if (!member) fail('assignee', `"${person}" is not a member of this project`);
+      else if (!assigneeIds.includes(member.id)) assigneeIds.push(member.id);
+    }
+
+    let dueDate: string | null = null;
+    const rawDueDate = text(row.dueDate);
+    if (rawDueDate) {
+      dueDate = parseDueDate(rawDueDate);
+      if (!dueDate) fail('dueDate', `"${rawDueDate}" is not a date`);
+    }
+
+    const labels: string[] = [];
+    for (const name of splitList(text(row.labels))) {
+      const lower = name.toLowerCase();
+      const stored = existingLabels.get(lower) ?? newLabels.get(lower) ?? name;
+      if (!labels.some((l) => l.toLowerCase() === lower)) labels.push(stored);
+    }
+
+    const key = text(row.key) || null;
+    const blockedBy: string[] = [];
+    for (const ref of splitList(text(row.blockedBy))) {
+      if (ref === key) fail('blockedBy', 'A task cannot depend on itself');
+      else if (!keyRows.has(ref)) fail('blockedBy', `No row has the key "${ref}"`);
+      else if (!blockedBy.includes(ref)) blockedBy.push(ref);
+    }
+
+    if (!valid) return;
+    for (const name of labels) {
+      const lower = name.toLowerCase();
+      if (!existingLabels.has(lower) && !newLabels.has(lower)) newLabels.set(lower, name);
+    }
+    tasks.push({
+      row: rowNumber,
+      key,
+      title,
+      description: text(row.description) || null,
+      status,
+      priority,
+      assigneeIds,
+      dueDate,
+      labels,
+      blockedBy,
+    });
+  });
+
+  errors.sort((a, b) => a.row - b.row);
+  return {
+    tasks,
+    errors,
+    newLabels: Array.from(newLabels.values()),
+    dependencyCount: tasks.reduce((sum, task) => sum + task.blockedBy.length, 0),
+  };
+};
+
+/**
+ * The project's statuses, members (owner included) and labels, for planTaskImport
+ */
+export const loadImportContext = async (projectId: number, statuses: WorkflowStatusDef[]): Promise<ImportContext> => {
+  const [project, labels] = await Promise.all([
+    prisma.project.findUnique({
+      where: { id: projectId },
+      select: {
+        owner: { select: { id: true, name: true, email: true } },
+        members: { select: { user: { select: { id: true, name: true, email: true } } } },
+      },
+    }),
+    prisma.label.findMany({ where: { projectId }, select: { id: true, name: true } }),
+  ]);
+  const members = project ? [project.owner, ...project.members.map((m) => m.user)] : [];
+  return { statuses, members, labels };
+};
+
+const parseIds = (value: string): number[] => {
+  try {
+    const ids = JSON.parse(value);
+    return Array.isArray(ids) ? ids.filter((id) => Number.isInteger(id)) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Create the planned tasks with their labels, assignees and dependencies in one transaction and
+ * record them as an import batch. Returns the batch and the new task ids.
+ */
+export const runTaskImport = async (
+  projectId: number,
+  userId: number,
+  source: ImportSource,
+  fileName: string | null,
+  plan: ImportPlan
+) => {
+  return prisma.$transaction(
+    async (tx) => {
+      const labelIds = new Map<string, number>();
+      for (const label of await tx.label.findMany({ where: { projectId }, select: { id: true, name: true } })) {
+        labelIds.set(label.name, label.id);
+      }
+      const createdLabelIds: number[] = [];
+      for (const name of plan.newLabels) {
+        const label = await tx.label.create({ data: { projectId, name } });
+        labelIds.set(name, label.id);
+        createdLabelIds.push(label.id);
+      }
+
+      // Imported tasks go to the bottom of their columns, in file order
+      const last = await tx.task.groupBy({ by: ['status'], where: { projectId }, _max: { position: true } });
+      const nextPosition = new Map(last.map((row) => [row.status, (row._max.position ?? 0) + 1]));
+
+      const taskIds: number[] = [];
+      const idsByKey = new Map<string, number>();
+      for (const planned of plan.tasks) {
+        const position = nextPosition.get(planned.status) ?? 0;
+        nextPosition.set(planned.status, position + 1);
+        const task = await tx.task.create({
+          data: {
+            projectId,
+            title: planned.title,
+            description: planned.description,
+            status: planned.status,
+            priority: planned.priority,
+            dueDate: planned.dueDate,
+            position,
+          },
+        });
+        taskIds.push(task.id);
+        if (planned.key) idsByKey.set(planned.key, task.id);
+      }
+
+      const assignees = plan.tasks.flatMap((planned, i) => planned.assigneeIds.map((id) => ({ taskId: taskIds[i], userId: id })));
+      const taskLabels = plan.tasks.flatMap((planned, i) =>
+        planned.labels.map((name) => ({ taskId: taskIds[i], labelId: labelIds.get(name)! }))
+      );
+      const dependencies = plan.tasks.flatMap((planned, i) =>
+        planned.blockedBy.map((key) => ({ blockedTaskId: taskIds[i], blockingTaskId: idsByKey.get(key)! }))
+      );
+      if (assignees.length) await tx.taskAssignee.createMany({ data: assignees });
+      if (taskLabels.length) await tx.taskLabel.createMany({ data: taskLabels });
+      if (dependencies.length) await tx.taskDependency.createMany({ data: dependencies });
+
+      await tx.activityLog.createMany({
+        data: taskIds.map((taskId) => ({
+          taskId,
+          userId: String(userId),
+          actionType: 'CREATED_TASK',
+          fieldName: 'task',
+          oldValue: null,
+          newValue: `Imported from ${source.toUpperCase()}`,
+        })),
+      });
+
+      const batch = await tx.taskImport.create({
+        data: {
+          projectId,
+          userId,
+          source,
+          fileName,
+          taskIds: JSON.stringify(taskIds),
+          labelIds: JSON.stringify(createdLabelIds),
+        },
+      });
+      return { batch, taskIds };
+    },
+    // A thousand rows is a few thousand statements, well past the 5s default
+    { timeout: 60 * 1000 }
+  );
+};
+
+/**
+ * Delete the tasks an import created, and the labels it created if no other task uses them.
+ * Tasks already deleted by hand are skipped. Returns the tasks that were deleted.
+ */
+export const undoTaskImport = async (batch: { id: number; projectId: number; taskIds: string; labelIds: string }) => {
+  const taskIds = parseIds(batch.taskIds);
+  const labelIds = parseIds(batch.labelIds);
+  // Before the transaction: it holds SQLite's write lock, and this writes outside it
+  const importedTasks = await prisma.task.findMany({
+    where: { id: { in: taskIds }, projectId: batch.projectId },
+    select: { id: true },
+  });
+  await revokeTaskXp(importedTasks.map((t) => t.id));
+
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.task.findMany({
+      where: { id: { in: taskIds }, projectId: batch.projectId },
+      select: { id: true, title: true },
+    });
+    const deletedIds = existing.map((t) => t.id);
+
+    await tx.task.deleteMany({ where: { id: { in: deletedIds } } });
+    await tx.label.deleteMany({ where: { id: { in: labelIds }, projectId: batch.projectId, tasks: { none: {} } } });
+    await tx.taskImport.update({ where: { id: batch.id }, data: { undoneAt: new Date() } });
+    return existing;
+  });
+};
+
+export const serializeTaskImport = <T extends { taskIds: string; labelIds: string }>({ taskIds, labelIds, ...batch }: T) => ({
+  ...batch,
+  taskCount: parseIds(taskIds).length,
+  labelCount: parseIds(labelIds).length,
+});
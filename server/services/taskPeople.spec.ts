@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const count = vi.fn();
+vi.mock("../prisma", () => ({ prisma: { user: { count: (...args: unknown[]) => count(...args) } } }));
+
+import { resolveTaskPeopleIds } from "./taskPeople";
+
+describe("resolveTaskPeopleIds", () => {
+  beforeEach(() => count.mockReset());
+
+  it("leaves people unchanged when omitted and de-duplicates ids", async () => {
+    expect(await resolveTaskPeopleIds(undefined, 1, 7, "assigneeIds")).toEqual({ userIds: undefined });
+    count.mockResolvedValue(2);
+    expect(await resolveTaskPeopleIds([3, 7, 3], 1, 7, "assigneeIds")).toEqual({ userIds: [3, 7] });
+  });
+
+  it("rejects anything but a list of user ids", async () => {
+    expect(await resolveTaskPeopleIds("Ada", 1, 7, "assigneeIds")).toEqual({
+      error: "assigneeIds must be an array of user ids",
+    });
+    expect(await resolveTaskPeopleIds([1.5], 1, 7, "watcherIds")).toEqual({
+      error: "watcherIds must be an array of user ids",
+    });
+  });
+
+  it("only accepts members of the task's project", async () => {
+    count.mockResolvedValue(1);
+    expect(await resolveTaskPeopleIds([3, 4], 1, 7, "assigneeIds")).toEqual({
+      error: "assigneeIds must be members of the task's project",
+    });
+    expect(count).toHaveBeenCalledWith({
+      where: {
+        id: { in: [3, 4] },
+        OR: [{ ownedProjects: { some: { id: 1 } } }, { memberships: { some: { projectId: 1 } } }],
+      },
+    });
+  });
+
+  it("lets tasks outside a project be assigned only to the caller", async () => {
+    expect(await resolveTaskPeopleIds([7], null, 7, "assigneeIds")).toEqual({ userIds: [7] });
+    expect(await resolveTaskPeopleIds([3], null, 7, "assigneeIds")).toEqual({
+      error: "Tasks outside a project can only be assigned to yourself",
+    });
+    expect(count).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,111 @@
+import { prisma } from '../prisma';
+
+export interface TaskPerson {
+  id: number;
+  name: string;
+  email: string;
+}
+
+export interface TaskPeople {
+  assignees: TaskPerson[];
+  watchers: TaskPerson[];
+}
+
+export type TaskPeopleKind = keyof TaskPeople;
+
+const personSelect = { id: true, name: true, email: true } as const;
+
+/**
+ * Load assignees and watchers for several tasks at once, in the order they were added
+ */
+export const getTaskPeople = async (taskIds: number[]): Promise<Map<number, TaskPeople>> => {
+  const ids = Array.from(new Set(taskIds));
+  const people = new Map(ids.map((id): [number, TaskPeople] => [id, { assignees: [], watchers: [] }]));
+  if (ids.length === 0) return people;
+
+  const [assignees, watchers] = await Promise.all([
+    prisma.taskAssignee.findMany({
+      where: { taskId: { in: ids } },
+      select: { taskId: true, user: { select: personSelect } },
+      orderBy: [{ createdAt: 'asc' }, { userId: 'asc' }],
+    }),
+    prisma.taskWatcher.findMany({
+      where: { taskId: { in: ids } },
+      select: { taskId: true, user: { select: personSelect } },
+      orderBy: [{ createdAt: 'asc' }, { userId: 'asc' }],
+    }),
+  ]);
+
+  for (const row of assignees) people.get(row.taskId)!.assignees.push(row.user);
+  for (const row of watchers) people.get(row.taskId)!.watchers.push(row.user);
+  return people;
+};
+
+/**
+ * Attach `assignees` and `watchers` to tasks before they're sent to clients
+ */
+export const withTaskPeople = async <T extends { id: number }>(tasks: T[]) => {
+  const people = await getTaskPeople(tasks.map((t) => t.id));
+  return tasks.map((t) => ({ ...t, ...people.get(t.id)! }));
+};
+
+/**
+ * Validate a list of user ids for a task. undefined = leave unchanged. Everyone must
+ * be able to see the task's project; tasks outside a project can only be given to `userId`.
+ */
+export const resolveTaskPeopleIds = async (
+  value: unknown,
+  projectId: number | null,
+  userId: number,
+  field: string
+): Promise<{ userIds: number[] | undefined } | { error: string }> => {
+  if (value === undefined) return { userIds: undefined };
+  if (!Array.isArray(value) || value.some((id) => !Number.isInteger(id))) {
+    return { error: `${field} must be an array of user ids` };
+  }
+
+  const userIds = Array.from(new Set(value as number[]));
+  if (userIds.length === 0) return { userIds };
+
+  if (projectId === null) {
+    return userIds.every((id) => id === userId)
+      ? { userIds }
+      : { error: 'Tasks outside a project can only be assigned to yourself' };
+  }
+
+  const allowed = await prisma.user.count({
+    where: {
+      id: { in: userIds },
+      OR: [{ ownedProjects: { some: { id: projectId } } }, { memberships: { some: { projectId } } }],
+    },
+  });
+  if (allowed !== userIds.length) {
+    return { error: `${field} must be members of the task's project` };
+  }
+  return { userIds };
+};
+
+/**
+ * Replace a task's assignees or watchers. Returns the ids that weren't on the list before.
+ */
+export const setTaskPeople = async (taskId: number, kind: TaskPeopleKind, userIds: number[]) => {
+  const where = { taskId };
+  const existing =
+    kind === 'assignees'
+      ? await prisma.taskAssignee.findMany({ where, select: { userId: true } })
+      : await prisma.taskWatcher.findMany({ where, select: { userId: true } });
+  const before = new Set(existing.map((row) => row.userId));
+  const added = userIds.filter((id) => !before.has(id));
+
+  const stale = { taskId, userId: { notIn: userIds } };
+  const rows = added.map((userId) => ({ taskId, userId }));
+  await prisma.$transaction(
+    kind === 'assignees'
+      ? [prisma.taskAssignee.deleteMany({ where: stale }), prisma.taskAssignee.createMany({ data: rows })]
+      : [prisma.taskWatcher.deleteMany({ where: stale }), prisma.taskWatcher.createMany({ data: rows })]
+  );
+  return added;
+};
+
+/** Names joined for activity history, e.g. "Ada Lovelace, Alan Turing" */
+export const formatPeople = (people: TaskPerson[]) => people.map((p) => p.name).join(', ');
@@ -0,0 +1,38 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../prisma", () => ({
+  prisma: {
+    task: {
+      findMany: vi.fn(async () => [
+        { parentTaskId: 1, projectId: 7, status: "done" },
+        { parentTaskId: 1, projectId: 7, status: "todo" },
+        { parentTaskId: 2, projectId: 7, status: "shipped" },
+      ]),
+    },
+    checklistItem: {
+      groupBy: vi.fn(async () => [
+        { taskId: 1, done: true, _count: { _all: 2 } },
+        { taskId: 1, done: false, _count: { _all: 1 } },
+      ]),
+    },
+    workflowStatus: {
+      findMany: vi.fn(async () => [
+        { projectId: 7, key: "todo", name: "To Do", color: "#000000", position: 0, isDone: false, transitions: null },
+        { projectId: 7, key: "shipped", name: "Shipped", color: "#000000", position: 1, isDone: true, transitions: null },
+      ]),
+    },
+  },
+}));
+
+import { getTaskProgress } from "./taskProgress";
+
+describe("getTaskProgress", () => {
+  it("rolls up subtasks by their project's done statuses and counts checklist items", async () => {
+    const progress = await getTaskProgress([1, 2, 3]);
+
+    // "done" isn't a done status in project 7's custom workflow
+    expect(progress.get(1)).toEqual({ subtasks: { done: 0, total: 2 }, checklist: { done: 2, total: 3 } });
+    expect(progress.get(2)).toEqual({ subtasks: { done: 1, total: 1 }, checklist: { done: 0, total: 0 } });
+    expect(progress.get(3)).toEqual({ subtasks: { done: 0, total: 0 }, checklist: { done: 0, total: 0 } });
+  });
+});
@@ -0,0 +1,60 @@
+import { prisma } from '../prisma';
+import { getProjectWorkflows, isDoneStatus } from './workflow';
+
+export interface TaskProgress {
+  subtasks: { done: number; total: number };
+  checklist: { done: number; total: number };
+}
+
+const emptyProgress = (): TaskProgress => ({
+  subtasks: { done: 0, total: 0 },
+  checklist: { done: 0, total: 0 },
+});
+
+/**
+ * Roll up subtask and checklist completion for several tasks at once.
+ * Subtasks count as done when they're in a done status of their project's workflow.
+ */
+export const getTaskProgress = async (taskIds: number[]): Promise<Map<number, TaskProgress>> => {
+  const ids = Array.from(new Set(taskIds));
+  const progress = new Map(ids.map((id) => [id, emptyProgress()]));
+  if (ids.length === 0) return progress;
+
+  const [subtasks, items] = await Promise.all([
+    prisma.task.findMany({
+      where: { parentTaskId: { in: ids } },
+      select: { parentTaskId: true, projectId: true, status: true },
+    }),
+    prisma.checklistItem.groupBy({
+      by: ['taskId', 'done'],
+      where: { taskId: { in: ids } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const workflows = await getProjectWorkflows(
+    subtasks.filter((t) => t.projectId !== null).map((t) => t.projectId as number)
+  );
+  for (const subtask of subtasks) {
+    const entry = progress.get(subtask.parentTaskId!)!;
+    const workflow = subtask.projectId ? workflows.get(subtask.projectId) : undefined;
+    entry.subtasks.total++;
+    if (workflow && isDoneStatus(workflow, subtask.status)) entry.subtasks.done++;
+  }
+
+  for (const group of items) {
+    const entry = progress.get(group.taskId)!;
+    entry.checklist.total += group._count._all;
+    if (group.done) entry.checklist.done += group._count._all;
+  }
+
+  return progress;
+};
+
+/**
+ * Attach `progress` to tasks before they're sent to clients
+ */
+export const withTaskProgress = async <T extends { id: number }>(tasks: T[]) => {
+  const progress = await getTaskProgress(tasks.map((t) => t.id));
+  return tasks.map((t) => ({ ...t, progress: progress.get(t.id)! }));
+};
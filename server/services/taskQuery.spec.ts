@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { parseTaskQuery, tokenizeTaskQuery } from "./taskQuery";
+
+const ctx = { userId: 7, today: "2026-10-19" };
+
+describe("tokenizeTaskQuery", () => {
+  it("splits keys, negation, quoted values and free text", () => {
+    expect(tokenizeTaskQuery('-label:"won\'t fix" status:todo login')).toEqual([
+      { negated: true, key: "label", value: "won't fix" },
+      { negated: false, key: "status", value: "todo" },
+      { negated: false, key: null, value: "login" },
+    ]);
+  });
+});
+
+describe("parseTaskQuery", () => {
+  it("ANDs terms, ORs comma-separated values and negates with a leading dash", () => {
+    expect(parseTaskQuery("status:todo,review assignee:me -label:wontfix", ctx)).toEqual({
+      where: {
+        AND: [
+          { OR: [{ status: "todo" }, { status: "review" }] },
+          { assignees: { some: { userId: 7 } } },
+          { NOT: { labels: { some: { label: { name: "wontfix" } } } } },
+        ],
+      },
+    });
+  });
+
+  it("filters assignees and watchers by user", () => {
+    expect(parseTaskQuery("assignee:none", ctx)).toEqual({ where: { AND: [{ assignees: { none: {} } }] } });
+    expect(parseTaskQuery('watcher:"Ada Lovelace"', ctx)).toEqual({
+      where: {
+        AND: [
+          { watchers: { some: { user: { is: { OR: [{ name: "Ada Lovelace" }, { email: "Ada Lovelace" }] } } } } },
+        ],
+      },
+    });
+  });
+
+  it("resolves due dates relative to today", () => {
+    expect(parseTaskQuery("due:<7d", ctx)).toEqual({ where: { AND: [{ dueDate: { lt: "2026-10-26" } }] } });
+    expect(parseTaskQuery("due:>=2026-12-01", ctx)).toEqual({ where: { AND: [{ dueDate: { gte: "2026-12-01" } }] } });
+    expect(parseTaskQuery("due:overdue", ctx)).toEqual({ where: { AND: [{ dueDate: { lt: "2026-10-19" } }] } });
+    expect(parseTaskQuery("due:1m", ctx)).toEqual({ where: { AND: [{ dueDate: "2026-11-19" }] } });
+  });
+
+  it("matches free text against title and description", () => {
+    expect(parseTaskQuery('"login page"', ctx)).toEqual({
+      where: { AND: [{ OR: [{ title: { contains: "login page" } }, { description: { contains: "login page" } }] }] },
+    });
+  });
+
+  it("matches everything for an empty query", () => {
+    expect(parseTaskQuery("  ", ctx)).toEqual({ where: {} });
+  });
+
+  it("rejects unknown keys and bad dates", () => {
+    expect(parseTaskQuery("colour:red", ctx)).toEqual({
+      error: 'Unknown filter "colour". Use status, priority, label, assignee, watcher, sprint, project, due',
+    });
+    expect(parseTaskQuery("due:soon", ctx)).toEqual({
+      error: 'Invalid due date "soon". Use a date like 2026-01-31, today, 7d or overdue',
+    });
+  });
+});
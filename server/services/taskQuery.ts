@@ -0,0 +1,173 @@
+import type { Prisma } from '@prisma/client';
+
+/**
+ * Task query language, e.g.
+ *
+ *   status:inprogress priority:high label:bug assignee:me due:<7d -label:wontfix login
+ *
+ * - `key:value` terms are ANDed; comma-separated values are ORed (`status:todo,review`)
+ * - a leading `-` negates a term; values with spaces are quoted (`label:"needs design"`)
+ * - anything without a key is matched against the title and description
+ *
+ * Keys: status, priority, label, assignee (me | none | name | email), watcher (me | name | email),
+ * sprint (backlog | active | id | name), project (id | name) and due. `due` takes none, any, overdue, or a date with an optional
+ * comparison (<, <=, >, >=). Dates are YYYY-MM-DD, today, tomorrow, yesterday, or an offset
+ * from today such as 7d, 2w, 1m or -3d, so `due:<7d` is anything due in the next week (or overdue).
+ */
+
+export interface TaskQueryContext {
+  // Who `assignee:me` and `watcher:me` mean
+  userId: number;
+  // YYYY-MM-DD that relative due dates count from
+  today: string;
+}
+
+export const TASK_QUERY_KEYS = ['status', 'priority', 'label', 'assignee', 'watcher', 'sprint', 'project', 'due'] as const;
+
+type TaskQueryKey = (typeof TASK_QUERY_KEYS)[number];
+
+interface QueryTerm {
+  negated: boolean;
+  key: string | null;
+  value: string;
+}
+
+type TermResult = { where: Prisma.TaskWhereInput } | { error: string };
+
+const TERM = /(-?)(?:([A-Za-z]+):)?(?:"([^"]*)"|(\S+))/g;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const OFFSET = /^([+-]?\d+)([dwm])$/;
+
+export const tokenizeTaskQuery = (input: string): QueryTerm[] =>
+  Array.from(input.matchAll(TERM), ([, negated, key, quoted, bare]) => ({
+    negated: negated === '-',
+    key: key ? key.toLowerCase() : null,
+    value: (quoted ?? bare ?? '').trim(),
+  })).filter((term) => term.value !== '' || term.key !== null);
+
+const addDays = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+const addMonths = (date: string, months: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  return d.toISOString().slice(0, 10);
+};
+
+const resolveDate = (value: string, today: string) => {
+  const lower = value.toLowerCase();
+  if (lower === 'today') return today;
+  if (lower === 'tomorrow') return addDays(today, 1);
+  if (lower === 'yesterday') return addDays(today, -1);
+  if (DATE.test(value) && !Number.isNaN(new Date(`${value}T00:00:00Z`).getTime())) return value;
+
+  const offset = OFFSET.exec(lower);
+  if (!offset) return null;
+  const amount = parseInt(offset[1]);
+  if (offset[2] === 'm') return addMonths(today, amount);
+  return addDays(today, offset[2] === 'w' ? amount * 7 : amount);
+};
+
+const dueWhere = (value: string, today: string): TermResult => {
+  const lower = value.toLowerCase();
+  if (lower === 'none') return { where: { dueDate: null } };
+  if (lower === 'any') return { where: { dueDate: { not: null } } };
+  if (lower === 'overdue') return { where: { dueDate: { lt: today } } };
+
+  const [, op, rest] = /^(<=|>=|<|>|=)?(.*)$/.exec(value)!;
+  const date = resolveDate(rest, today);
+  if (!date) {
+    return { error: `Invalid due date "${value}". Use a date like 2026-01-31, today, 7d or overdue` };
+  }
+
+  switch (op) {
+    case '<':
+      return { where: { dueDate: { lt: date } } };
+    case '<=':
+      return { where: { dueDate: { lte: date } } };
+    case '>':
+      return { where: { dueDate: { gt: date } } };
+    case '>=':
+      return { where: { dueDate: { gte: date } } };
+    default:
+      return { where: { dueDate: date } };
+  }
+};
+
+const isId = (value: string) => /^\d+$/.test(value);
+
+// Matches an assignee or watcher row: `me`, or a user's exact name or email
+const personWhere = (value: string, ctx: TaskQueryContext) =>
+  value.toLowerCase() === 'me' ? { userId: ctx.userId } : { user: { is: { OR: [{ name: value }, { email: value }] } } };
+
+// Filter for a single value of a key
+const valueWhere = (key: TaskQueryKey, value: string, ctx: TaskQueryContext): TermResult => {
+  switch (key) {
+    case 'status':
+      return { where: { status: value } };
+    case 'priority':
+      return { where: { priority: value.toLowerCase() } };
+    case 'label':
+      return { where: { labels: { some: { label: { name: value } } } } };
+    case 'assignee': {
+      const lower = value.toLowerCase();
+      if (lower === 'none') return { where: { assignees: { none: {} } } };
+      return { where: { assignees: { some: personWhere(value, ctx) } } };
+    }
+    case 'watcher':
+      return { where: { watchers: { some: personWhere(value, ctx) } } };
+    case 'sprint': {
+      const lower = value.toLowerCase();
+      if (lower === 'backlog') return { where: { sprintId: null } };
+      if (lower === 'active') return { where: { sprint: { is: { state: 'active' } } } };
+      if (isId(value)) return { where: { sprintId: parseInt(value) } };
+      return { where: { sprint: { is: { name: value } } } };
+    }
+    case 'project':
+      if (isId(value)) return { where: { projectId: parseInt(value) } };
+      return { where: { project: { is: { name: value } } } };
+    case 'due':
+      return dueWhere(value, ctx.today);
+  }
+};
+
+const termWhere = (term: QueryTerm, ctx: TaskQueryContext): TermResult => {
+  if (term.key === null) {
+    return { where: { OR: [{ title: { contains: term.value } }, { description: { contains: term.value } }] } };
+  }
+  if (!TASK_QUERY_KEYS.includes(term.key as TaskQueryKey)) {
+    return { error: `Unknown filter "${term.key}". Use ${TASK_QUERY_KEYS.join(', ')}` };
+  }
+
+  const values = term.value.split(',').map((v) => v.trim()).filter(Boolean);
+  if (values.length === 0) {
+    return { error: `Missing value for "${term.key}"` };
+  }
+
+  const alternatives: Prisma.TaskWhereInput[] = [];
+  for (const value of values) {
+    const result = valueWhere(term.key as TaskQueryKey, value, ctx);
+    if ('error' in result) return result;
+    alternatives.push(result.where);
+  }
+  return { where: alternatives.length === 1 ? alternatives[0] : { OR: alternatives } };
+};
+
+/**
+ * Parse a task query into a Prisma filter. An empty query matches every task.
+ */
+export const parseTaskQuery = (
+  input: string,
+  ctx: TaskQueryContext
+): { where: Prisma.TaskWhereInput } | { error: string } => {
+  const conditions: Prisma.TaskWhereInput[] = [];
+  for (const term of tokenizeTaskQuery(input)) {
+    const result = termWhere(term, ctx);
+    if ('error' in result) return result;
+    conditions.push(term.negated ? { NOT: result.where } : result.where);
+  }
+  return { where: conditions.length > 0 ? { AND: conditions } : {} };
+};
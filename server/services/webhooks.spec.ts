@@ -0,0 +1,49 @@
+import crypto from "crypto";
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../prisma", () => ({ prisma: {} }));
+
+import { nextRetryDelay, parseWebhookEvents, parseWebhookInput, signPayload } from "./webhooks";
+
+describe("parseWebhookInput", () => {
+  it("normalizes a new webhook and defaults it to active", () => {
+    expect(parseWebhookInput({ url: " https://ci.example.com/hook ", events: ["task.created", "task.created"] })).toEqual({
+      input: { url: "https://ci.example.com/hook", events: ["task.created"], active: true },
+    });
+  });
+
+  it.each([
+    [{ url: "ftp://example.com", events: ["task.created"] }, "Webhook URL must be a valid http(s) URL"],
+    [{ url: "not a url", events: ["task.created"] }, "Webhook URL must be a valid http(s) URL"],
+    [{ url: "https://example.com", events: [] }, "Choose at least one event"],
+    [{ url: "https://example.com", events: ["task.archived"] }, 'Unknown event "task.archived". Use task.created, task.updated, task.deleted, comment.created, member.joined'],
+    [{ url: "https://example.com", events: ["task.created"], active: "yes" }, "active must be a boolean"],
+  ])("rejects invalid webhooks (%#)", (body, error) => {
+    expect(parseWebhookInput(body)).toEqual({ error });
+  });
+
+  it("only validates the fields given in a partial update", () => {
+    expect(parseWebhookInput({ active: false }, true)).toEqual({ input: { active: false } });
+  });
+});
+
+describe("parseWebhookEvents", () => {
+  it("drops unknown events and tolerates bad JSON", () => {
+    expect(parseWebhookEvents('["task.created","nope"]')).toEqual(["task.created"]);
+    expect(parseWebhookEvents("{")).toEqual([]);
+  });
+});
+
+describe("signPayload", () => {
+  it("signs the timestamp and body with HMAC-SHA256", () => {
+    const expected = crypto.createHmac("sha256", "secret").update('1700000000.{"a":1}').digest("hex");
+    expect(signPayload("secret", 1700000000, '{"a":1}')).toBe(`sha256=${expected}`);
+  });
+});
+
+describe("nextRetryDelay", () => {
+  it("doubles after each attempt up to two hours", () => {
+    expect([1, 2, 3, 4].map(nextRetryDelay)).toEqual([30_000, 60_000, 120_000, 240_000]);
+    expect(nextRetryDelay(20)).toBe(2 * 60 * 60 * 1000);
+  });
+});
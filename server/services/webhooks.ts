@@ -0,0 +1,223 @@
+import crypto from 'crypto';
+import { prisma } from '../prisma';
+
+export const WEBHOOK_EVENTS = [
+  'task.created',
+  'task.updated',
+  'task.deleted',
+  'comment.created',
+  'member.joined',
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export interface WebhookInput {
+  url: string;
+  events: WebhookEvent[];
+  active: boolean;
+}
+
+// Attempts before a delivery is marked failed; the last retry is roughly 4 hours after the event
+export const MAX_DELIVERY_ATTEMPTS = 10;
+const BASE_RETRY_MS = 30 * 1000;
+const MAX_RETRY_MS = 2 * 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// Response bodies are only kept for the delivery log
+const MAX_RESPONSE_BODY = 2000;
+const POLL_INTERVAL_MS = 15 * 1000;
+const BATCH_SIZE = 20;
+
+/**
+ * Validate a webhook submitted by a client. Fields left out of a partial update are undefined.
+ */
+export const parseWebhookInput = (
+  body: any,
+  partial = false
+): { input: Partial<WebhookInput> } | { error: string } => {
+  const input: Partial<WebhookInput> = {};
+  const { url, events, active } = body ?? {};
+
+  if (url !== undefined || !partial) {
+    let parsed: URL | null = null;
+    try {
+      parsed = typeof url === 'string' ? new URL(url.trim()) : null;
+    } catch {
+      parsed = null;
+    }
+    if (!parsed || (parsed.protocol !== 'http:' && parsed.protocol !== 'https:')) {
+      return { error: 'Webhook URL must be a valid http(s) URL' };
+    }
+    input.url = parsed.toString();
+  }
+
+  if (events !== undefined || !partial) {
+    if (!Array.isArray(events) || events.length === 0) {
+      return { error: 'Choose at least one event' };
+    }
+    const unknown = events.find((e) => !WEBHOOK_EVENTS.includes(e));
+    if (unknown !== undefined) {
+      return { error: `Unknown event "${unknown}". Use ${WEBHOOK_EVENTS.join(', ')}` };
+    }
+    input.events = Array.from(new Set(events as WebhookEvent[]));
+  }
+
+  if (active !== undefined) {
+    if (typeof active !== 'boolean') return { error: 'active must be a boolean' };
+    input.active = active;
+  } else if (!partial) {
+    input.active = true;
+  }
+
+  return { input };
+};
+
+export const parseWebhookEvents = (value: string): WebhookEvent[] => {
+  try {
+    const events = JSON.parse(value);
+    return Array.isArray(events) ? events.filter((e) => WEBHOOK_EVENTS.includes(e)) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const generateWebhookSecret = () => `whsec_${crypto.randomBytes(24).toString('hex')}`;
+
+/**
+ * Signature sent in `X-ProUp-Signature`. Receivers recompute it over `${timestamp}.${body}`
+ * with their copy of the secret; including the timestamp lets them reject replays.
+ */
+export const signPayload = (secret: string, timestamp: number, body: string) =>
+  `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+/**
+ * Wait before the next attempt, doubling from 30 seconds and capped at 2 hours.
+ * `attempts` is how many attempts have been made so far.
+ */
+export const nextRetryDelay = (attempts: number) =>
+  Math.min(BASE_RETRY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_MS);
+
+/**
+ * Queue an event for every active webhook in the project that subscribes to it.
+ * Never throws, so callers can fire and forget after their own work has succeeded.
+ */
+export const queueWebhookEvent = async (projectId: number | null | undefined, event: WebhookEvent, data: unknown) => {
+  if (!projectId) return;
+  try {
+    const webhooks = await prisma.webhook.findMany({
+      where: { projectId, active: true },
+      select: { id: true, events: true },
+    });
+    const targets = webhooks.filter((w) => parseWebhookEvents(w.events).includes(event));
+    if (targets.length === 0) return;
+
+    const payload = JSON.stringify({ event, timestamp: new Date().toISOString(), projectId, data });
+    await prisma.webhookDelivery.createMany({
+      data: targets.map((w) => ({ webhookId: w.id, event, payload })),
+    });
+    void processDueDeliveries();
+  } catch (error) {
+    console.error(`Error queueing webhook event ${event}:`, error);
+  }
+};
+
+/**
+ * Queue another copy of an earlier delivery with the same payload
+ */
+export const redeliver = (delivery: { webhookId: number; event: string; payload: string }) =>
+  prisma.webhookDelivery
+    .create({ data: { webhookId: delivery.webhookId, event: delivery.event, payload: delivery.payload } })
+    .then((created) => {
+      void processDueDeliveries();
+      return created;
+    });
+
+const attemptDelivery = async (delivery: {
+  id: number;
+  event: string;
+  payload: string;
+  attempts: number;
+  webhook: { url: string; secret: string };
+}) => {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const res = await fetch(delivery.webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'ProUp-Webhooks/1.0',
+        'X-ProUp-Event': delivery.event,
+        'X-ProUp-Delivery': String(delivery.id),
+        'X-ProUp-Timestamp': String(timestamp),
+        'X-ProUp-Signature': signPayload(delivery.webhook.secret, timestamp, delivery.payload),
+      },
+      body: delivery.payload,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    responseStatus = res.status;
+    responseBody = (await res.text().catch(() => '')).slice(0, MAX_RESPONSE_BODY);
+    if (!res.ok) error = `Receiver responded with ${res.status}`;
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const succeeded = error === null;
+  const givenUp = !succeeded && attempts >= MAX_DELIVERY_ATTEMPTS;
+  await prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      attempts,
+      lastAttemptAt: new Date(),
+      responseStatus,
+      responseBody,
+      error,
+      status: succeeded ? 'succeeded' : givenUp ? 'failed' : 'pending',
+      ...(succeeded || givenUp ? {} : { nextAttemptAt: new Date(Date.now() + nextRetryDelay(attempts)) }),
+    },
+  });
+};
+
+let processing = false;
+
+/**
+ * Send every pending delivery whose retry time has come. Deliveries to inactive webhooks wait
+ * until the webhook is turned back on.
+ */
+export const processDueDeliveries = async () => {
+  if (processing) return;
+  processing = true;
+  try {
+    for (;;) {
+      const due = await prisma.webhookDelivery.findMany({
+        where: { status: 'pending', nextAttemptAt: { lte: new Date() }, webhook: { active: true } },
+        include: { webhook: { select: { url: true, secret: true } } },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: BATCH_SIZE,
+      });
+      if (due.length === 0) break;
+      for (const delivery of due) await attemptDelivery(delivery);
+    }
+  } catch (error) {
+    console.error('Error processing webhook deliveries:', error);
+  } finally {
+    processing = false;
+  }
+};
+
+let workerStarted = false;
+
+/**
+ * Retry pending deliveries in the background, including any left over from before a restart
+ */
+export const startWebhookWorker = () => {
+  if (workerStarted) return;
+  workerStarted = true;
+
+  void processDueDeliveries();
+  setInterval(processDueDeliveries, POLL_INTERVAL_MS).unref();
+};
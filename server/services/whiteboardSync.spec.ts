@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const db = vi.hoisted(() => ({
+  upsert: vi.fn(),
+  findSnapshot: vi.fn(),
+  createSnapshot: vi.fn(),
+  findSnapshots: vi.fn(),
+  deleteSnapshots: vi.fn(),
+  findOperations: vi.fn(),
+  createOperation: vi.fn(),
+  deleteOperations: vi.fn(),
+}));
+vi.mock("../prisma", () => ({
+  prisma: {
+    whiteboard: { upsert: db.upsert },
+    whiteboardSnapshot: {
+      findFirst: db.findSnapshot,
+      create: db.createSnapshot,
+      findMany: db.findSnapshots,
+      deleteMany: db.deleteSnapshots,
+    },
+    whiteboardOperation: {
+      findMany: db.findOperations,
+      create: db.createOperation,
+      deleteMany: db.deleteOperations,
+    },
+  },
+}));
+vi.mock("../realtime", () => ({ getIO: () => null }));
+
+import {
+  applyBoardChange,
+  claimBoardSeed,
+  closeBoard,
+  diffBoards,
+  legacyBoardRecords,
+  openBoard,
+  parseBoardDiff,
+} from "./whiteboardSync";
+
+const shape = (id: string, x = 0) => ({ id: `shape:${id}`, typeName: "shape", x });
+const page = { id: "page:page", typeName: "page", name: "Page 1" };
+
+beforeEach(() => {
+  Object.values(db).forEach((fn) => fn.mockReset());
+  db.upsert.mockResolvedValue({ id: 7, data: "{}" });
+  db.findSnapshot.mockResolvedValue(null);
+  db.findOperations.mockResolvedValue([]);
+  db.createOperation.mockResolvedValue({});
+  db.createSnapshot.mockImplementation(async ({ data }) => ({ id: 1, clock: data.clock, kind: data.kind }));
+  db.findSnapshots.mockResolvedValue([]);
+  db.deleteOperations.mockResolvedValue({});
+});
+
+describe("parseBoardDiff", () => {
+  it("accepts board records only", () => {
+    expect(parseBoardDiff({ put: [shape("a")], remove: ["page:old"] })).toEqual({
+      diff: { put: [shape("a")], remove: ["page:old"] },
+    });
+    expect(parseBoardDiff({ put: [{ id: "camera:1", typeName: "camera" }], remove: [] })).toHaveProperty("error");
+    expect(parseBoardDiff({ put: [{ id: "shape:a", typeName: "page" }], remove: [] })).toHaveProperty("error");
+    expect(parseBoardDiff({ put: [], remove: ["instance:x"] })).toHaveProperty("error");
+    expect(parseBoardDiff({ put: [] })).toHaveProperty("error");
+  });
+});
+
+describe("diffBoards", () => {
+  it("gives the change from one board to another", () => {
+    const current = new Map([
+      ["shape:a", shape("a")],
+      ["shape:b", shape("b")],
+    ]);
+    expect(diffBoards(current, [shape("a"), shape("b", 4), shape("c")])).toEqual({
+      put: [shape("b", 4), shape("c")],
+      remove: [],
+    });
+    expect(diffBoards(current, [shape("b")])).toEqual({ put: [], remove: ["shape:a"] });
+  });
+});
+
+describe("legacyBoardRecords", () => {
+  it("reads whole-board snapshots saved by older clients", () => {
+    const store = { "page:page": page, "shape:a": shape("a"), "camera:page:page": { id: "camera:page:page" } };
+    const schema = { schemaVersion: 2 };
+    expect(legacyBoardRecords(JSON.stringify({ document: { store, schema }, session: {} }))).toEqual({
+      records: [page, shape("a")],
+      schema,
+    });
+    expect(legacyBoardRecords(JSON.stringify({ store, schema })).records).toHaveLength(2);
+    expect(legacyBoardRecords("{}")).toEqual({ records: [], schema: null });
+  });
+});
+
+describe("whiteboardSync", () => {
+  it("loads the latest snapshot and replays the operations after it", async () => {
+    db.findSnapshot.mockResolvedValue({
+      clock: 4,
+      records: JSON.stringify([page, shape("a")]),
+      schema: null,
+      createdAt: new Date(),
+    });
+    db.findOperations.mockResolvedValue([
+      { clock: 5, diff: JSON.stringify({ put: [shape("a", 9)], remove: [] }) },
+      { clock: 6, diff: JSON.stringify({ put: [shape("b")], remove: [] }) },
+    ]);
+
+    const board = await openBoard(1, "alice");
+    expect(board.clock).toBe(6);
+    expect(Array.from(board.records.values())).toEqual([page, shape("a", 9), shape("b")]);
+    expect(db.findOperations.mock.calls[0][0].where).toEqual({ whiteboardId: 7, clock: { gt: 4 } });
+    expect(claimBoardSeed(board, "alice")).toBe(false);
+
+    await closeBoard(board, "alice");
+    // Nothing changed since the replayed operations, which a snapshot still needs to include
+    expect(db.createSnapshot).toHaveBeenCalledTimes(1);
+    expect(db.createSnapshot.mock.calls[0][0].data.clock).toBe(6);
+  });
+
+  it("stores each change and snapshots when the last connection leaves", async () => {
+    const board = await openBoard(2, "alice");
+    await openBoard(2, "bob");
+    expect(claimBoardSeed(board, "alice")).toBe(true);
+    expect(claimBoardSeed(board, "bob")).toBe(false);
+
+    expect(applyBoardChange(board, { put: [page, shape("a")], remove: [] })).toBe(1);
+    expect(applyBoardChange(board, { put: [], remove: ["shape:a"] })).toBe(2);
+    expect(claimBoardSeed(board, "bob")).toBe(false);
+
+    await closeBoard(board, "alice");
+    expect(db.createSnapshot).not.toHaveBeenCalled();
+    await closeBoard(board, "bob");
+
+    expect(db.createOperation.mock.calls.map(([args]) => args.data.clock)).toEqual([1, 2]);
+    const snapshot = db.createSnapshot.mock.calls[0][0].data;
+    expect(snapshot).toMatchObject({ whiteboardId: 7, clock: 2, kind: "auto" });
+    expect(JSON.parse(snapshot.records)).toEqual([page]);
+    expect(db.deleteOperations).toHaveBeenCalledWith({ where: { whiteboardId: 7, clock: { lte: 2 } } });
+  });
+});
@@ -0,0 +1,345 @@
+import { randomUUID } from 'crypto';
+import { prisma } from '../prisma';
+import { getIO } from '../realtime';
+
+// Live whiteboards behind the /whiteboard socket namespace. The server holds each open board's
+// tldraw records and applies every client's changes in the order they arrive. Each change is
+// stored as an operation, and operations are folded into a snapshot every so often, which keeps
+// loading fast and gives the board a history to browse and restore.
+
+// The tldraw record types that make up a board; camera, selection and the like stay per client
+export const BOARD_RECORD_TYPES = ['document', 'page', 'shape', 'binding', 'asset'];
+
+const MAX_DIFF_RECORDS = 5000;
+const SNAPSHOT_EVERY_OPERATIONS = 500;
+const SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000;
+// Named and restore snapshots are kept for good
+const MAX_AUTO_SNAPSHOTS = 50;
+
+export const MAX_SNAPSHOT_NAME_LENGTH = 100;
+
+export interface BoardRecord {
+  id: string;
+  typeName: string;
+  [key: string]: unknown;
+}
+
+export interface BoardDiff {
+  put: BoardRecord[];
+  remove: string[];
+}
+
+export interface SyncedBoard {
+  id: number;
+  projectId: number;
+  records: Map<string, BoardRecord>;
+  // tldraw's serialized schema for the stored records, so clients can migrate them
+  schema: unknown;
+  // Number of the last operation applied
+  clock: number;
+  snapshotClock: number;
+  snapshotAt: number;
+  connections: Set<string>;
+  // Set while the board is empty and a client still has to send its starting page
+  needsSeed: boolean;
+  seeder: string | null;
+  // Database writes, in the order they were made
+  writes: Promise<unknown>;
+}
+
+// Everything but the records, which are only sent when a snapshot is opened
+export const snapshotSelect = {
+  id: true,
+  clock: true,
+  kind: true,
+  name: true,
+  createdAt: true,
+  author: { select: { id: true, name: true } },
+  restoredFrom: { select: { id: true, name: true, createdAt: true } },
+} as const;
+
+export const boardRoom = (projectId: number | string) => `whiteboard-${projectId}`;
+
+const isBoardId = (id: unknown): id is string =>
+  typeof id === 'string' && BOARD_RECORD_TYPES.some((type) => id.startsWith(`${type}:`));
+
+/**
+ * Check a change sent by a client: records to create or replace, and ids to delete, all of
+ * board record types
+ */
+export const parseBoardDiff = (input: unknown): { diff: BoardDiff } | { error: string } => {
+  const { put, remove } = (input ?? {}) as { put?: unknown; remove?: unknown };
+  if (!Array.isArray(put) || !Array.isArray(remove)) return { error: 'A change needs put and remove lists' };
+  if (put.length + remove.length > MAX_DIFF_RECORDS) {
+    return { error: `A change can touch at most ${MAX_DIFF_RECORDS} records` };
+  }
+
+  for (const record of put) {
+    if (!record || typeof record !== 'object' || !isBoardId(record.id) || !record.id.startsWith(`${record.typeName}:`)) {
+      return { error: 'Changes can only hold board records' };
+    }
+  }
+  if (!remove.every(isBoardId)) return { error: 'Changes can only remove board records' };
+
+  return { diff: { put: put as BoardRecord[], remove: remove as string[] } };
+};
+
+export const applyBoardDiff = (records: Map<string, BoardRecord>, diff: BoardDiff) => {
+  for (const id of diff.remove) records.delete(id);
+  for (const record of diff.put) records.set(record.id, record);
+};
+
+/**
+ * The change that turns `current` into `target`
+ */
+export const diffBoards = (current: Map<string, BoardRecord>, target: BoardRecord[]): BoardDiff => {
+  const wanted = new Set(target.map((record) => record.id));
+  return {
+    put: target.filter((record) => JSON.stringify(current.get(record.id)) !== JSON.stringify(record)),
+    remove: Array.from(current.keys()).filter((id) => !wanted.has(id)),
+  };
+};
+
+/**
+ * Board records from a whole-board snapshot saved by older clients: tldraw's getSnapshot()
+ * output, or a bare store snapshot
+ */
+export const legacyBoardRecords = (data: string): { records: BoardRecord[]; schema: unknown } => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    return { records: [], schema: null };
+  }
+  const snapshot = parsed?.document ?? parsed;
+  const store = snapshot?.store;
+  if (!store || typeof store !== 'object') return { records: [], schema: null };
+  const records = Object.values(store).filter(
+    (record: any): record is BoardRecord => isBoardId(record?.id) && record.id.startsWith(`${record.typeName}:`)
+  );
+  return { records, schema: snapshot.schema ?? null };
+};
+
+const parseJson = <T>(text: string | null, fallback: T): T => {
+  if (!text) return fallback;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return fallback;
+  }
+};
+
+const open = new Map<number, Promise<SyncedBoard>>();
+// Writes still in flight for boards that were just unloaded; loading again waits for them
+const unloading = new Map<number, Promise<unknown>>();
+
+const load = async (projectId: number): Promise<SyncedBoard> => {
+  await unloading.get(projectId);
+  const whiteboard = await prisma.whiteboard.upsert({
+    where: { projectId },
+    update: {},
+    create: { projectId, data: '{}' },
+  });
+  const snapshot = await prisma.whiteboardSnapshot.findFirst({
+    where: { whiteboardId: whiteboard.id },
+    orderBy: [{ clock: 'desc' }, { id: 'desc' }],
+    select: { clock: true, records: true, schema: true, createdAt: true },
+  });
+  const base = snapshot
+    ? { records: parseJson<BoardRecord[]>(snapshot.records, []), schema: parseJson(snapshot.schema, null) }
+    : legacyBoardRecords(whiteboard.data);
+
+  const records = new Map(base.records.map((record) => [record.id, record]));
+  const operations = await prisma.whiteboardOperation.findMany({
+    where: { whiteboardId: whiteboard.id, clock: { gt: snapshot?.clock ?? 0 } },
+    orderBy: { clock: 'asc' },
+    select: { clock: true, diff: true },
+  });
+  for (const operation of operations) {
+    applyBoardDiff(records, parseJson<BoardDiff>(operation.diff, { put: [], remove: [] }));
+  }
+
+  const snapshotClock = snapshot?.clock ?? 0;
+  return {
+    id: whiteboard.id,
+    projectId,
+    records,
+    schema: base.schema,
+    clock: operations[operations.length - 1]?.clock ?? snapshotClock,
+    snapshotClock,
+    snapshotAt: snapshot?.createdAt.getTime() ?? Date.now(),
+    connections: new Set(),
+    needsSeed: records.size === 0,
+    seeder: null,
+    writes: Promise.resolve(),
+  };
+};
+
+// Resolves to null, after logging, when the write fails
+const enqueue = <T>(board: SyncedBoard, write: () => Promise<T>): Promise<T | null> => {
+  const result = board.writes.then(write).catch((error) => {
+    console.error(`Error saving whiteboard ${board.id}:`, error);
+    return null;
+  });
+  board.writes = result;
+  return result;
+};
+
+const takeSnapshot = (
+  board: SyncedBoard,
+  data: { kind: 'auto' | 'named' | 'restore'; name?: string; createdBy?: number; restoredFromId?: number }
+) => {
+  const { id: whiteboardId, clock } = board;
+  const records = JSON.stringify(Array.from(board.records.values()));
+  const schema = board.schema ? JSON.stringify(board.schema) : null;
+  board.snapshotClock = clock;
+  board.snapshotAt = Date.now();
+
+  return enqueue(board, async () => {
+    const snapshot = await prisma.whiteboardSnapshot.create({
+      data: { whiteboardId, clock, records, schema, ...data },
+      select: snapshotSelect,
+    });
+    await prisma.whiteboardOperation.deleteMany({ where: { whiteboardId, clock: { lte: clock } } });
+    const stale = await prisma.whiteboardSnapshot.findMany({
+      where: { whiteboardId, kind: 'auto' },
+      orderBy: [{ clock: 'desc' }, { id: 'desc' }],
+      skip: MAX_AUTO_SNAPSHOTS,
+      select: { id: true },
+    });
+    if (stale.length > 0) {
+      await prisma.whiteboardSnapshot.deleteMany({ where: { id: { in: stale.map((s) => s.id) } } });
+    }
+    return snapshot;
+  });
+};
+
+/**
+ * Open a project's board for a connection, loading it on first use
+ */
+export const openBoard = async (projectId: number, connectionId: string): Promise<SyncedBoard> => {
+  let loading = open.get(projectId);
+  if (!loading) {
+    loading = load(projectId);
+    open.set(projectId, loading);
+    loading.catch(() => open.delete(projectId));
+  }
+  const board = await loading;
+  // The last connection left and it was unloaded while this one waited: load it again
+  if (open.get(projectId) !== loading) return openBoard(projectId, connectionId);
+  board.connections.add(connectionId);
+  return board;
+};
+
+/**
+ * Whether this connection should send its starting records to an empty board. Only one is asked
+ * at a time, so two clients can't both add a first page.
+ */
+export const claimBoardSeed = (board: SyncedBoard, connectionId: string) => {
+  if (!board.needsSeed) return false;
+  if (board.seeder && board.connections.has(board.seeder)) return board.seeder === connectionId;
+  board.seeder = connectionId;
+  return true;
+};
+
+/**
+ * Remember the schema clients write records with, for boards that don't have one yet
+ */
+export const setBoardSchema = (board: SyncedBoard, schema: unknown) => {
+  if (!board.schema && schema && typeof schema === 'object') board.schema = schema;
+};
+
+export const boardState = (board: SyncedBoard) => ({
+  records: Array.from(board.records.values()),
+  schema: board.schema,
+  clock: board.clock,
+});
+
+/**
+ * Apply a change, store it as the next operation and return its number. Takes a snapshot when
+ * enough has changed since the last one.
+ */
+export const applyBoardChange = (board: SyncedBoard, diff: BoardDiff) => {
+  applyBoardDiff(board.records, diff);
+  board.needsSeed = false;
+  const clock = ++board.clock;
+  enqueue(board, () =>
+    prisma.whiteboardOperation.create({ data: { whiteboardId: board.id, clock, diff: JSON.stringify(diff) } })
+  );
+
+  if (
+    clock - board.snapshotClock >= SNAPSHOT_EVERY_OPERATIONS ||
+    Date.now() - board.snapshotAt >= SNAPSHOT_INTERVAL_MS
+  ) {
+    takeSnapshot(board, { kind: 'auto' });
+  }
+  return clock;
+};
+
+/**
+ * Drop a connection from a board. The last one out snapshots anything not yet included in one
+ * and unloads the board.
+ */
+export const closeBoard = async (board: SyncedBoard, connectionId: string) => {
+  board.connections.delete(connectionId);
+  if (board.connections.size > 0) return;
+
+  open.delete(board.projectId);
+  if (board.clock > board.snapshotClock) takeSnapshot(board, { kind: 'auto' });
+  const writes = board.writes;
+  unloading.set(board.projectId, writes);
+  await writes;
+  if (unloading.get(board.projectId) === writes) unloading.delete(board.projectId);
+};
+
+// For REST handlers, which open a board only for as long as they need it
+const withBoard = async <T>(projectId: number, use: (board: SyncedBoard) => Promise<T> | T) => {
+  const connectionId = `api:${randomUUID()}`;
+  const board = await openBoard(projectId, connectionId);
+  try {
+    return await use(board);
+  } finally {
+    await closeBoard(board, connectionId);
+  }
+};
+
+export const getBoardState = (projectId: number) => withBoard(projectId, boardState);
+
+/**
+ * The board as a whole-board tldraw snapshot, the form project archives carry it in
+ */
+export const exportBoardData = (projectId: number) =>
+  withBoard(projectId, (board) =>
+    JSON.stringify({
+      document: {
+        store: Object.fromEntries(board.records),
+        schema: board.schema,
+      },
+    })
+  );
+
+/**
+ * Keep the board as it is now under a name. Resolves to null if it couldn't be saved.
+ */
+export const saveNamedSnapshot = (projectId: number, name: string, userId: number) =>
+  withBoard(projectId, (board) => takeSnapshot(board, { kind: 'named', name, createdBy: userId }));
+
+/**
+ * Bring back an earlier snapshot as a change on top of the current board, so everyone with it
+ * open sees the restore, and record the result as a new snapshot. Resolves to undefined when the
+ * snapshot isn't one of this project's, or null if it couldn't be saved.
+ */
+export const restoreBoardSnapshot = async (projectId: number, snapshotId: number, userId: number) => {
+  const source = await prisma.whiteboardSnapshot.findFirst({
+    where: { id: snapshotId, whiteboard: { projectId } },
+    select: { id: true, records: true },
+  });
+  if (!source) return undefined;
+
+  return withBoard(projectId, (board) => {
+    const diff = diffBoards(board.records, parseJson<BoardRecord[]>(source.records, []));
+    const clock = applyBoardChange(board, diff);
+    getIO()?.of('/whiteboard').to(boardRoom(projectId)).emit('canvas-change', { diff, clock });
+    return takeSnapshot(board, { kind: 'restore', restoredFromId: source.id, createdBy: userId });
+  });
+};
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../prisma", () => ({ prisma: {} }));
+
+import { DEFAULT_WORKFLOW, canTransition, getInitialStatus, parseWorkflowInput } from "./workflow";
+
+describe("parseWorkflowInput", () => {
+  it("derives keys from names and orders by position", () => {
+    const result = parseWorkflowInput([
+      { name: "Backlog" },
+      { name: "In Review", color: "#a855f7" },
+      { name: "Done", isDone: true },
+    ]);
+
+    expect(result).toEqual({
+      statuses: [
+        { key: "backlog", name: "Backlog", color: "#6b7280", position: 0, isDone: false, transitions: null },
+        { key: "inreview", name: "In Review", color: "#a855f7", position: 1, isDone: false, transitions: null },
+        { key: "done", name: "Done", color: "#6b7280", position: 2, isDone: true, transitions: null },
+      ],
+    });
+  });
+
+  it.each([
+    [[], "A workflow needs at least one status"],
+    [[{ name: "Open" }], "At least one status must count as done"],
+    [[{ name: "Done", isDone: true }, { key: "done", name: "Closed" }], 'Duplicate status key "done"'],
+    [[{ name: "Open", transitions: ["qa"] }, { name: "Done", isDone: true }], 'Status "Open" allows a transition to unknown status "qa"'],
+  ])("rejects invalid workflows (%#)", (input, error) => {
+    expect(parseWorkflowInput(input)).toEqual({ error });
+  });
+});
+
+describe("canTransition", () => {
+  const workflow = [
+    { key: "ready", name: "Ready", color: "#000000", position: 0, isDone: false, transitions: ["qa"] },
+    { key: "qa", name: "QA", color: "#000000", position: 1, isDone: false, transitions: null },
+    { key: "done", name: "Done", color: "#000000", position: 2, isDone: true, transitions: [] },
+  ];
+
+  it("only allows listed transitions when a status restricts them", () => {
+    expect(canTransition(workflow, "ready", "qa")).toBe(true);
+    expect(canTransition(workflow, "ready", "done")).toBe(false);
+    expect(canTransition(workflow, "done", "ready")).toBe(false);
+  });
+
+  it("allows any move from unrestricted or unknown statuses", () => {
+    expect(canTransition(workflow, "qa", "ready")).toBe(true);
+    expect(canTransition(workflow, "legacy", "done")).toBe(true);
+  });
+});
+
+describe("getInitialStatus", () => {
+  it("picks the first status that is not done", () => {
+    expect(getInitialStatus(DEFAULT_WORKFLOW)).toBe("todo");
+    expect(getInitialStatus([{ ...DEFAULT_WORKFLOW[2], position: 0 }, DEFAULT_WORKFLOW[1]])).toBe("inprogress");
+  });
+});
@@ -0,0 +1,178 @@
+import { prisma } from '../prisma';
+
+export interface WorkflowStatusDef {
+  key: string;
+  name: string;
+  color: string;
+  position: number;
+  isDone: boolean;
+  // Status keys this status may move to; null allows any
+  transitions: string[] | null;
+}
+
+// Used by every project that hasn't defined its own workflow
+export const DEFAULT_WORKFLOW: WorkflowStatusDef[] = [
+  { key: 'todo', name: 'To Do', color: '#9ca3af', position: 0, isDone: false, transitions: null },
+  { key: 'inprogress', name: 'In Progress', color: '#3b82f6', position: 1, isDone: false, transitions: null },
+  { key: 'done', name: 'Done', color: '#22c55e', position: 2, isDone: true, transitions: null },
+];
+
+const parseTransitions = (raw: string | null): string[] | null => {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.map(String) : null;
+  } catch {
+    return null;
+  }
+};
+
+const toDef = (row: {
+  key: string;
+  name: string;
+  color: string;
+  position: number;
+  isDone: boolean;
+  transitions: string | null;
+}): WorkflowStatusDef => ({
+  key: row.key,
+  name: row.name,
+  color: row.color,
+  position: row.position,
+  isDone: row.isDone,
+  transitions: parseTransitions(row.transitions),
+});
+
+/**
+ * Load a project's workflow, ordered by position
+ */
+export const getProjectWorkflow = async (projectId: number): Promise<WorkflowStatusDef[]> => {
+  const rows = await prisma.workflowStatus.findMany({
+    where: { projectId },
+    orderBy: { position: 'asc' },
+  });
+  return rows.length > 0 ? rows.map(toDef) : DEFAULT_WORKFLOW;
+};
+
+/**
+ * Load the workflows of several projects at once
+ */
+export const getProjectWorkflows = async (
+  projectIds: number[]
+): Promise<Map<number, WorkflowStatusDef[]>> => {
+  const ids = Array.from(new Set(projectIds));
+  const rows = ids.length > 0
+    ? await prisma.workflowStatus.findMany({
+        where: { projectId: { in: ids } },
+        orderBy: { position: 'asc' },
+      })
+    : [];
+
+  const workflows = new Map<number, WorkflowStatusDef[]>();
+  for (const id of ids) {
+    const own = rows.filter((r) => r.projectId === id);
+    workflows.set(id, own.length > 0 ? own.map(toDef) : DEFAULT_WORKFLOW);
+  }
+  return workflows;
+};
+
+export const findStatus = (workflow: WorkflowStatusDef[], key: unknown) =>
+  workflow.find((s) => s.key === key) ?? null;
+
+export const isDoneStatus = (workflow: WorkflowStatusDef[], key: unknown) =>
+  findStatus(workflow, key)?.isDone ?? false;
+
+export const getDoneKeys = (workflow: WorkflowStatusDef[]) =>
+  workflow.filter((s) => s.isDone).map((s) => s.key);
+
+/**
+ * Status given to new tasks: the first status that doesn't count as done
+ */
+export const getInitialStatus = (workflow: WorkflowStatusDef[]) =>
+  (workflow.find((s) => !s.isDone) ?? workflow[0]).key;
+
+export const canTransition = (workflow: WorkflowStatusDef[], from: string, to: string) => {
+  if (from === to) return true;
+  const current = findStatus(workflow, from);
+  // Tasks in a status the workflow no longer knows about may move anywhere
+  if (!current || !current.transitions) return true;
+  return current.transitions.includes(to);
+};
+
+const slugify = (value: string) =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '');
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * Validate a workflow submitted by a client.
+ * Keys default to a slug of the name; array order becomes the column order.
+ */
+export const parseWorkflowInput = (
+  raw: unknown
+): { statuses: WorkflowStatusDef[] } | { error: string } => {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return { error: 'A workflow needs at least one status' };
+  }
+
+  const statuses: WorkflowStatusDef[] = [];
+  for (const [index, item] of raw.entries()) {
+    const name = typeof item?.name === 'string' ? item.name.trim() : '';
+    if (!name) return { error: 'Every status needs a name' };
+
+    const key = typeof item?.key === 'string' && item.key.trim() ? item.key.trim() : slugify(name);
+    if (!key) return { error: `Status "${name}" needs a key` };
+    if (statuses.some((s) => s.key === key)) return { error: `Duplicate status key "${key}"` };
+
+    const color = typeof item?.color === 'string' && HEX_COLOR.test(item.color) ? item.color : '#6b7280';
+    const transitions = Array.isArray(item?.transitions) ? item.transitions.map(String) : null;
+
+    statuses.push({ key, name, color, position: index, isDone: item?.isDone === true, transitions });
+  }
+
+  if (!statuses.some((s) => s.isDone)) {
+    return { error: 'At least one status must count as done' };
+  }
+
+  const keys = new Set(statuses.map((s) => s.key));
+  for (const status of statuses) {
+    const unknown = status.transitions?.find((k) => !keys.has(k));
+    if (unknown) return { error: `Status "${status.name}" allows a transition to unknown status "${unknown}"` };
+  }
+
+  return { statuses };
+};
+
+/**
+ * Replace a project's workflow. Tasks in removed statuses are moved according to `remap`
+ * (old key -> new key); the caller is expected to have checked that every removed
+ * status in use has a mapping.
+ */
+export const replaceProjectWorkflow = async (
+  projectId: number,
+  statuses: WorkflowStatusDef[],
+  remap: Record<string, string>
+) => {
+  await prisma.$transaction([
+    ...Object.entries(remap).map(([from, to]) =>
+      prisma.task.updateMany({ where: { projectId, status: from }, data: { status: to } })
+    ),
+    prisma.workflowStatus.deleteMany({ where: { projectId } }),
+    prisma.workflowStatus.createMany({
+      data: statuses.map((s) => ({
+        projectId,
+        key: s.key,
+        name: s.name,
+        color: s.color,
+        position: s.position,
+        isDone: s.isDone,
+        transitions: s.transitions ? JSON.stringify(s.transitions) : null,
+      })),
+    }),
+  ]);
+
+  return getProjectWorkflow(projectId);
+};
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { createZip, readZip } from "./zipArchive";
+
+describe("zip archives", () => {
+  it("reads back what it writes, compressed or not", () => {
+    const text = Buffer.from("hello ".repeat(200));
+    const random = Buffer.from([0, 255, 17, 3]);
+    const zip = createZip([
+      { name: "a.txt", data: text },
+      { name: "dir/ünïcode.bin", data: random },
+    ]);
+
+    const result = readZip(zip);
+    expect("files" in result && Object.fromEntries(result.files)).toEqual({ "a.txt": text, "dir/ünïcode.bin": random });
+  });
+
+  it("rejects files that aren't archives", () => {
+    expect(readZip(Buffer.from("not a zip"))).toEqual({ error: "Not a ZIP archive" });
+  });
+
+  it("rejects entries whose checksum doesn't match", () => {
+    const zip = createZip([{ name: "a.txt", data: Buffer.from("abcd") }]);
+    // Stored (too small to deflate), so the data sits right after the 30-byte header and name
+    zip[30 + "a.txt".length] ^= 0xff;
+    expect(readZip(zip)).toEqual({ error: "Checksum mismatch in a.txt" });
+  });
+
+  it("caps the files and the inflated bytes of the whole archive", () => {
+    const zeros = Buffer.alloc(4000);
+    const zip = createZip([
+      { name: "a.bin", data: zeros },
+      { name: "b.bin", data: zeros },
+    ]);
+    // Each file is well under the cap; together they're over it
+    expect(readZip(zip, { maxEntries: 10, maxInflatedBytes: 6000 })).toEqual({
+      error: "Archive is too large to import",
+    });
+    expect(readZip(zip, { maxEntries: 1, maxInflatedBytes: 10000 })).toEqual({
+      error: "Archives can hold at most 1 files",
+    });
+    expect("files" in readZip(zip, { maxEntries: 2, maxInflatedBytes: 8000 })).toBe(true);
+
+    // A declared size that lies doesn't get around the cap
+    const centralHeader = Buffer.from([0x50, 0x4b, 0x01, 0x02]);
+    for (let at = zip.indexOf(centralHeader); at !== -1; at = zip.indexOf(centralHeader, at + 1)) {
+      zip.writeUInt32LE(1, at + 24);
+    }
+    expect(readZip(zip, { maxEntries: 10, maxInflatedBytes: 6000 })).toEqual({
+      error: "Archive is too large to import",
+    });
+  });
+});
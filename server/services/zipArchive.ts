@@ -0,0 +1,179 @@
+import zlib from 'zlib';
+
+// Just enough of the ZIP format for project archives: deflated or stored entries, no zip64,
+// no encryption. Files made here open in any unzip tool.
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_NAMES = 0x0800;
+const STORED = 0;
+const DEFLATED = 8;
+const MAX_ENTRIES = 0xffff;
+const MAX_SIZE = 0xffffffff;
+
+// Limits for reading untrusted archives, so a small upload can't inflate into gigabytes
+export interface ZipReadLimits {
+  maxEntries: number;
+  // Across all files together
+  maxInflatedBytes: number;
+}
+
+const DEFAULT_READ_LIMITS: ZipReadLimits = { maxEntries: 10000, maxInflatedBytes: 500 * 1024 * 1024 };
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+// zlib.crc32 only exists from Node 20.15
+const crc32 = (data: Buffer): number => {
+  if (typeof zlib.crc32 === 'function') return zlib.crc32(data);
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/**
+ * Build a ZIP file. Entries are deflated unless that doesn't make them smaller.
+ */
+export const createZip = (entries: ZipEntry[], modifiedAt = new Date()): Buffer => {
+  if (entries.length > MAX_ENTRIES) throw new Error('Too many files for a ZIP archive');
+  const { time, date } = dosDateTime(modifiedAt);
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const deflated = zlib.deflateRawSync(entry.data);
+    const method = deflated.length < entry.data.length ? DEFLATED : STORED;
+    const body = method === DEFLATED ? deflated : entry.data;
+    if (body.length > MAX_SIZE || offset > MAX_SIZE) throw new Error('Archive too large for a ZIP file');
+    const crc = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(UTF8_NAMES, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_HEADER, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(UTF8_NAMES, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, body);
+    centrals.push(central, name);
+    offset += local.length + name.length + body.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+};
+
+/**
+ * Read every file in a ZIP archive, keyed by path. Anything that isn't a well-formed archive,
+ * fails its checksum or goes over the limits is an error.
+ */
+export const readZip = (
+  buffer: Buffer,
+  limits: ZipReadLimits = DEFAULT_READ_LIMITS
+): { files: Map<string, Buffer> } | { error: string } => {
+  if (buffer.length < 22) return { error: 'Not a ZIP archive' };
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64KB
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) return { error: 'Not a ZIP archive' };
+
+  const count = buffer.readUInt16LE(end + 10);
+  if (count > limits.maxEntries) return { error: `Archives can hold at most ${limits.maxEntries} files` };
+  let position = buffer.readUInt32LE(end + 16);
+  const files = new Map<string, Buffer>();
+  const tooLarge = { error: 'Archive is too large to import' };
+  let remaining = limits.maxInflatedBytes;
+
+  try {
+    for (let i = 0; i < count; i++) {
+      if (buffer.readUInt32LE(position) !== CENTRAL_HEADER) return { error: 'Corrupt ZIP directory' };
+      const method = buffer.readUInt16LE(position + 10);
+      const crc = buffer.readUInt32LE(position + 16);
+      const compressedSize = buffer.readUInt32LE(position + 20);
+      const size = buffer.readUInt32LE(position + 24);
+      const nameLength = buffer.readUInt16LE(position + 28);
+      const extraLength = buffer.readUInt16LE(position + 30);
+      const commentLength = buffer.readUInt16LE(position + 32);
+      const localOffset = buffer.readUInt32LE(position + 42);
+      const name = buffer.toString('utf8', position + 46, position + 46 + nameLength);
+      position += 46 + nameLength + extraLength + commentLength;
+
+      if (name.endsWith('/')) continue;
+      // The declared size is only a hint; inflating is capped at what's left either way
+      if (size > remaining) return tooLarge;
+      if (buffer.readUInt32LE(localOffset) !== LOCAL_HEADER) return { error: `Corrupt ZIP entry ${name}` };
+      const start = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+      const body = buffer.subarray(start, start + compressedSize);
+
+      let data: Buffer;
+      if (method === STORED) {
+        if (body.length > remaining) return tooLarge;
+        data = Buffer.from(body);
+      } else if (method === DEFLATED) {
+        try {
+          data = zlib.inflateRawSync(body, { maxOutputLength: Math.max(remaining, 1) });
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') return tooLarge;
+          throw error;
+        }
+      } else return { error: `Unsupported compression in ${name}` };
+      if (data.length > remaining) return tooLarge;
+      if (crc32(data) !== crc) return { error: `Checksum mismatch in ${name}` };
+
+      remaining -= data.length;
+      files.set(name, data);
+    }
+  } catch {
+    // Offsets past the end of the buffer, truncated or oversized deflate streams, ...
+    return { error: 'Corrupt ZIP archive' };
+  }
+  return { files };
+};
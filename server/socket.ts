@@ -3,6 +3,52 @@ import type { Server as HttpsServer } from 'https';
 import type { Http2Server, Http2SecureServer } from 'http2';
 import { Server, Socket } from 'socket.io';
 import { getIO, setIO } from './realtime';
+import { prisma } from './prisma';
+import { checkProjectPermission, hasProjectAccess } from './middleware/authorize';
+import { getBearerToken } from './middleware/authenticate';
+import { resolveAccessToken } from './services/session';
+import {
+  SyncedDocument,
+  applyDocumentUpdate,
+  applyPresenceUpdate,
+  claimSeed,
+  closeDocument,
+  openDocument,
+  syncStep,
+} from './services/documentSync';
+import {
+  SyncedBoard,
+  applyBoardChange,
+  boardRoom,
+  boardState,
+  claimBoardSeed,
+  closeBoard,
+  openBoard,
+  parseBoardDiff,
+  setBoardSchema,
+} from './services/whiteboardSync';
+
+interface SocketUser {
+  id: number;
+  email: string;
+  name: string;
+}
+
+type JoinAck = (result: { ok: boolean; error?: string }) => void;
+
+type DocumentJoinAck = (
+  result:
+    | { ok: false; error: string }
+    | ({ ok: true; canEdit: boolean; seed: string | null } & ReturnType<typeof syncStep>)
+) => void;
+
+type WhiteboardJoinAck = (
+  result:
+    | { ok: false; error: string }
+    | ({ ok: true; canEdit: boolean; seed: boolean } & ReturnType<typeof boardState>)
+) => void;
+
+type CanvasChangeAck = (result: { ok: true; clock: number } | { ok: false; error: string }) => void;
 
 interface UserCursor {
   socketId: string;
@@ -33,6 +79,69 @@ const generateColor = () => {
 
 type AnyHttpServer = HttpServer | HttpsServer | Http2Server | Http2SecureServer;
 
+// Handshake auth: clients pass the same access token the REST API uses,
+// either as `auth: { token }` or an Authorization header. Sockets are dropped when the token
+// expires or its session is revoked (see disconnectSockets).
+const authenticateSocket = async (socket: Socket, next: (err?: Error) => void) => {
+  try {
+    const token =
+      (typeof socket.handshake.auth?.token === 'string' ? socket.handshake.auth.token : null) ??
+      getBearerToken(socket.handshake.headers.authorization);
+
+    if (!token) return next(new Error('Authentication required'));
+
+    const resolved = await resolveAccessToken(token);
+    if (!resolved) return next(new Error('Invalid or expired token'));
+
+    socket.data.user = resolved.user;
+    socket.data.sessionId = resolved.sessionId;
+    // The token only vouches for the socket until it expires; the client then reconnects with a fresh one
+    const expiry = setTimeout(() => socket.disconnect(true), resolved.expiresAt.getTime() - Date.now());
+    expiry.unref?.();
+    socket.on('disconnect', () => clearTimeout(expiry));
+    next();
+  } catch (error) {
+    console.error('Socket authentication error:', error);
+    next(new Error('Authentication failed'));
+  }
+};
+
+// Ids are Int32 columns: anything else would make Prisma throw
+const MAX_ID = 2 ** 31 - 1;
+
+const toId = (value: unknown): number | null => {
+  const id = typeof value === 'number' ? value : typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : NaN;
+  return Number.isSafeInteger(id) && id > 0 && id <= MAX_ID ? id : null;
+};
+
+// Event payloads come straight from clients; anything that isn't an object carries no fields
+const payloadOf = (payload: unknown): Record<string, unknown> =>
+  payload && typeof payload === 'object' ? (payload as Record<string, unknown>) : {};
+
+// Binary fields arrive as Buffers (or ArrayBuffers from some transports)
+const toBytes = (value: unknown): Uint8Array | null =>
+  value instanceof Uint8Array || value instanceof ArrayBuffer ? new Uint8Array(value) : null;
+
+const canJoinProject = async (user: SocketUser, projectId: unknown) => {
+  const id = toId(projectId);
+  if (!id) return false;
+  return hasProjectAccess(user.id, id);
+};
+
+const canJoinTask = async (user: SocketUser, taskId: unknown) => {
+  const id = toId(taskId);
+  if (!id) return false;
+  const task = await prisma.task.findUnique({ where: { id }, select: { projectId: true } });
+  if (!task?.projectId) return false;
+  return hasProjectAccess(user.id, task.projectId);
+};
+
+const deny = (socket: Socket, room: string, ack?: JoinAck) => {
+  const error = 'You do not have access to this room';
+  if (typeof ack === 'function') ack({ ok: false, error });
+  else socket.emit('join-denied', { room, error });
+};
+
 export function setupSocketServer(httpServer: AnyHttpServer) {
   const existing = getIO();
   if (existing) return existing;
@@ -48,109 +157,175 @@ export function setupSocketServer(httpServer: AnyHttpServer) {
   setIO(io);
 
   // Default namespace: realtime tasks/comments/notifications
+  io.use(authenticateSocket);
+
   io.on('connection', (socket: Socket) => {
-    socket.on('join-project', ({ projectId }: { projectId: string | number }) => {
+    const user = socket.data.user as SocketUser;
+
+    socket.on('join-project', async (payload: unknown, ack?: JoinAck) => {
+      const { projectId } = payloadOf(payload);
       if (projectId === undefined || projectId === null) return;
-      socket.join(`project:${projectId}`);
+      try {
+        if (!(await canJoinProject(user, projectId))) return deny(socket, `project:${projectId}`, ack);
+        socket.join(`project:${toId(projectId)}`);
+        if (typeof ack === 'function') ack({ ok: true });
+      } catch (error) {
+        console.error('Error joining project room:', error);
+        deny(socket, `project:${projectId}`, ack);
+      }
     });
 
-    socket.on('join-task', ({ taskId }: { taskId: string | number }) => {
+    socket.on('join-task', async (payload: unknown, ack?: JoinAck) => {
+      const { taskId } = payloadOf(payload);
       if (taskId === undefined || taskId === null) return;
-      socket.join(`task:${taskId}`);
+      try {
+        if (!(await canJoinTask(user, taskId))) return deny(socket, `task:${taskId}`, ack);
+        socket.join(`task:${toId(taskId)}`);
+        if (typeof ack === 'function') ack({ ok: true });
+      } catch (error) {
+        console.error('Error joining task room:', error);
+        deny(socket, `task:${taskId}`, ack);
+      }
     });
 
-    socket.on('join-user', ({ userId }: { userId: string | number }) => {
+    socket.on('join-user', (payload: unknown, ack?: JoinAck) => {
+      const { userId } = payloadOf(payload);
       if (userId === undefined || userId === null) return;
-      socket.join(`user:${userId}`);
+      // A socket may only subscribe to its own notifications
+      if (toId(userId) !== user.id) return deny(socket, `user:${userId}`, ack);
+      socket.join(`user:${user.id}`);
+      if (typeof ack === 'function') ack({ ok: true });
     });
 
-    socket.on('leave-project', ({ projectId }: { projectId: string | number }) => {
-      if (projectId === undefined || projectId === null) return;
-      socket.leave(`project:${projectId}`);
+    socket.on('leave-project', (payload: unknown) => {
+      const id = toId(payloadOf(payload).projectId);
+      if (id) socket.leave(`project:${id}`);
     });
 
-    socket.on('leave-task', ({ taskId }: { taskId: string | number }) => {
-      if (taskId === undefined || taskId === null) return;
-      socket.leave(`task:${taskId}`);
+    socket.on('leave-task', (payload: unknown) => {
+      const id = toId(payloadOf(payload).taskId);
+      if (id) socket.leave(`task:${id}`);
     });
 
-    socket.on('leave-user', ({ userId }: { userId: string | number }) => {
-      if (userId === undefined || userId === null) return;
-      socket.leave(`user:${userId}`);
+    socket.on('leave-user', (payload: unknown) => {
+      const id = toId(payloadOf(payload).userId);
+      if (id) socket.leave(`user:${id}`);
     });
   });
 
-  // Whiteboard namespace
+  // Whiteboard namespace: the server holds each board and applies tldraw record changes in order
   const whiteboardNamespace = io.of('/whiteboard');
+  whiteboardNamespace.use(authenticateSocket);
 
   whiteboardNamespace.on('connection', (socket: Socket) => {
     console.log('User connected to whiteboard:', socket.id);
+    const user = socket.data.user as SocketUser;
 
-    let currentRoom: string | null = null;
+    let current: { board: SyncedBoard; room: string; canEdit: boolean } | null = null;
     let userData: WhiteboardUser | null = null;
 
-    // Join a whiteboard room (by projectId)
-    socket.on('join-room', ({ projectId, userName }: { projectId: string; userName: string }) => {
-      const roomId = `whiteboard-${projectId}`;
-      
-      // Leave previous room if any
-      if (currentRoom) {
-        socket.leave(currentRoom);
-        const users = roomUsers.get(currentRoom);
-        if (users) {
-          users.delete(socket.id);
-          // Notify others that user left
-          socket.to(currentRoom).emit('user-left', { socketId: socket.id });
-        }
+    const leaveBoard = async () => {
+      if (!current) return;
+      const { board, room } = current;
+      current = null;
+      socket.leave(room);
+      const users = roomUsers.get(room);
+      if (users) {
+        users.delete(socket.id);
+        // Notify others that user left
+        socket.to(room).emit('user-left', { socketId: socket.id });
+      }
+      try {
+        await closeBoard(board, socket.id);
+      } catch (error) {
+        console.error('Error closing whiteboard:', error);
       }
+    };
 
-      // Join new room
-      socket.join(roomId);
-      currentRoom = roomId;
+    // Join a whiteboard room (by projectId). The reply carries the board as it is now; clients
+    // send their tldraw schema so boards that don't have one yet can record it.
+    socket.on(
+      'join-room',
+      async (payload: unknown, ack?: WhiteboardJoinAck) => {
+        const { projectId, schema } = payloadOf(payload);
+        const id = toId(projectId);
+        const roomId = boardRoom(id ?? String(projectId));
 
-      // Store user data
-      userData = {
-        socketId: socket.id,
-        userName: userName || 'Anonymous',
-        color: generateColor(),
-      };
+        try {
+          if (!id || !(await canJoinProject(user, id))) {
+            if (typeof ack === 'function') return ack({ ok: false, error: 'You do not have access to this room' });
+            return deny(socket, roomId);
+          }
 
-      // Add user to room
-      if (!roomUsers.has(roomId)) {
-        roomUsers.set(roomId, new Map());
-      }
-      roomUsers.get(roomId)!.set(socket.id, userData);
+          const edit = await checkProjectPermission(user.id, id, 'whiteboard:edit');
+          await leaveBoard();
+          const board = await openBoard(id, socket.id);
+          setBoardSchema(board, schema);
 
-      // Send current users in room to the newly joined user
-      const usersInRoom = Array.from(roomUsers.get(roomId)!.values());
-      socket.emit('room-users', usersInRoom);
+          socket.join(roomId);
+          current = { board, room: roomId, canEdit: edit.allowed };
 
-      // Notify others about new user
-      socket.to(roomId).emit('user-joined', userData);
+          // Store user data (name comes from the authenticated user, not the client)
+          userData = {
+            socketId: socket.id,
+            userName: user.name,
+            color: generateColor(),
+          };
 
-      console.log(`User ${userName} joined room ${roomId}`);
-    });
+          // Add user to room
+          if (!roomUsers.has(roomId)) {
+            roomUsers.set(roomId, new Map());
+          }
+          roomUsers.get(roomId)!.set(socket.id, userData);
 
-    // Handle canvas changes (shapes, drawings, etc.)
-    socket.on('canvas-change', (data: { change: any; projectId: string }) => {
-      if (currentRoom) {
-        // Broadcast to all other users in the room
-        socket.to(currentRoom).emit('canvas-change', {
-          change: data.change,
-          userId: socket.id,
-        });
+          // Send current users in room to the newly joined user
+          const usersInRoom = Array.from(roomUsers.get(roomId)!.values());
+          socket.emit('room-users', usersInRoom);
+
+          // Notify others about new user
+          socket.to(roomId).emit('user-joined', userData);
+          if (typeof ack === 'function') {
+            ack({
+              ok: true,
+              canEdit: edit.allowed,
+              seed: edit.allowed && claimBoardSeed(board, socket.id),
+              ...boardState(board),
+            });
+          }
+
+          console.log(`User ${user.name} joined room ${roomId}`);
+        } catch (err) {
+          console.error('Error joining whiteboard:', err);
+          if (typeof ack === 'function') ack({ ok: false, error: 'Failed to open whiteboard' });
+        }
       }
+    );
+
+    // Changes to shapes, pages, bindings and assets: applied, stored, then sent to everyone else
+    socket.on('canvas-change', (payload: unknown, ack?: CanvasChangeAck) => {
+      const { diff } = payloadOf(payload);
+      const respond: CanvasChangeAck = typeof ack === 'function' ? ack : () => undefined;
+      if (!current) return respond({ ok: false, error: 'Join the board first' });
+      if (!current.canEdit) return respond({ ok: false, error: 'You can only view this board' });
+
+      const parsed = parseBoardDiff(diff);
+      if ('error' in parsed) return respond({ ok: false, error: parsed.error });
+
+      const clock = applyBoardChange(current.board, parsed.diff);
+      socket.to(current.room).emit('canvas-change', { diff: parsed.diff, clock });
+      respond({ ok: true, clock });
     });
 
     // Handle cursor movement
-    socket.on('cursor-move', (data: { x: number; y: number }) => {
-      if (currentRoom && userData) {
-        socket.to(currentRoom).emit('cursor-update', {
+    socket.on('cursor-move', (payload: unknown) => {
+      const { x, y } = payloadOf(payload);
+      if (current && userData && typeof x === 'number' && typeof y === 'number') {
+        socket.to(current.room).emit('cursor-update', {
           socketId: socket.id,
           userName: userData.userName,
           color: userData.color,
-          x: data.x,
-          y: data.y,
+          x,
+          y,
         });
       }
     });
@@ -158,15 +333,97 @@ export function setupSocketServer(httpServer: AnyHttpServer) {
     // Handle disconnection
     socket.on('disconnect', () => {
       console.log('User disconnected from whiteboard:', socket.id);
-      
-      if (currentRoom) {
-        const users = roomUsers.get(currentRoom);
-        if (users) {
-          users.delete(socket.id);
-          // Notify others that user left
-          socket.to(currentRoom).emit('user-left', { socketId: socket.id });
+      leaveBoard();
+    });
+  });
+
+  // Documents namespace: Yjs sync and presence for collaboratively edited documents
+  const documentsNamespace = io.of('/documents');
+  documentsNamespace.use(authenticateSocket);
+
+  documentsNamespace.on('connection', (socket: Socket) => {
+    const user = socket.data.user as SocketUser;
+
+    let current: { synced: SyncedDocument; room: string; canEdit: boolean } | null = null;
+
+    const leave = async () => {
+      if (!current) return;
+      const { synced, room } = current;
+      current = null;
+      socket.leave(room);
+      try {
+        const removed = await closeDocument(synced, socket.id);
+        if (removed) socket.to(room).emit('awareness-update', { update: removed });
+      } catch (error) {
+        console.error('Error closing document:', error);
+      }
+    };
+
+    // Clients send their state vector so the reply only carries what they're missing
+    socket.on(
+      'join-document',
+      async (payload: unknown, ack?: DocumentJoinAck) => {
+        if (typeof ack !== 'function') return;
+        const { documentId, stateVector } = payloadOf(payload);
+        const id = toId(documentId);
+        const room = `document:${id}`;
+        const error = 'You do not have access to this document';
+
+        try {
+          const document = id ? await prisma.document.findUnique({ where: { id }, select: { projectId: true, type: true } }) : null;
+          if (!document || document.type !== 'document') return ack({ ok: false, error });
+
+          const view = await checkProjectPermission(user.id, document.projectId, 'document:view');
+          if (!view.allowed) return ack({ ok: false, error });
+          const edit = await checkProjectPermission(user.id, document.projectId, 'document:edit');
+
+          await leave();
+          const synced = await openDocument(id!, socket.id);
+          if (!synced) return ack({ ok: false, error });
+
+          socket.join(room);
+          current = { synced, room, canEdit: edit.allowed };
+          // The editor asked to import the stored content gets it, as it may have changed since the page loaded
+          const seed =
+            edit.allowed && claimSeed(synced, socket.id)
+              ? (await prisma.document.findUnique({ where: { id: id! }, select: { content: true } }))?.content ?? null
+              : null;
+          ack({
+            ok: true,
+            canEdit: edit.allowed,
+            seed,
+            ...syncStep(synced, toBytes(stateVector) ?? undefined),
+          });
+        } catch (err) {
+          console.error('Error joining document:', err);
+          ack({ ok: false, error: 'Failed to open document' });
         }
       }
+    );
+
+    socket.on('document-update', (payload: unknown) => {
+      const update = toBytes(payloadOf(payload).update);
+      // Viewers receive edits but can't make them
+      if (!current?.canEdit || !update) return;
+      if (applyDocumentUpdate(current.synced, update, socket.id)) {
+        socket.to(current.room).emit('document-update', { update });
+      }
+    });
+
+    socket.on('awareness-update', (payload: unknown) => {
+      const update = toBytes(payloadOf(payload).update);
+      if (!current || !update) return;
+      if (applyPresenceUpdate(current.synced, update, socket.id)) {
+        socket.to(current.room).emit('awareness-update', { update });
+      }
+    });
+
+    socket.on('leave-document', () => {
+      leave();
+    });
+
+    socket.on('disconnect', () => {
+      leave();
     });
   });
 
@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import { createFormulaSheet, columnLabel, formatValue, parseCellKey } from "./formulas";
+
+const sheet = (cells: Record<string, string>) => {
+  const s = createFormulaSheet({ rows: 30, columns: 15 }, { now: () => new Date(2026, 2, 31, 12) });
+  s.load(cells);
+  return s;
+};
+
+// What the last cell listed shows
+const display = (cells: Record<string, string>) => sheet(cells).getDisplay(Object.keys(cells).pop()!);
+
+describe("cell addresses", () => {
+  it("converts between keys and columns", () => {
+    expect(parseCellKey("$B$12")).toEqual({ col: 2, row: 12 });
+    expect(parseCellKey("aa3")).toEqual({ col: 27, row: 3 });
+    expect(parseCellKey("A0")).toBeNull();
+    expect(columnLabel(28)).toBe("AB");
+  });
+});
+
+describe("evaluation", () => {
+  it.each([
+    ["=1+2*3", "7"],
+    ["=(1+2)*3", "9"],
+    ["=-2^2", "4"],
+    ["=10/4", "2.5"],
+    ["=0.1+0.2", "0.3"],
+    ['="a"&"b"&1', "ab1"],
+    ["=1/0", "#DIV/0!"],
+    ['="x"+1', "#VALUE!"],
+    ["=NOPE(1)", "#NAME?"],
+    ["=1+", "#ERROR!"],
+    ['="unterminated', "#ERROR!"],
+  ])("%s → %s", (formula, expected) => {
+    expect(display({ A1: formula })).toBe(expected);
+  });
+
+  it("compares numbers, text and blanks", () => {
+    expect(display({ A1: "3", B1: "=A1>2" })).toBe("TRUE");
+    expect(display({ A1: "Apple", B1: '=A1="apple"' })).toBe("TRUE");
+    expect(display({ B1: "=A1=0" })).toBe("TRUE");
+    expect(display({ A1: "2", B1: "=A1<>2" })).toBe("FALSE");
+  });
+
+  it("reads references, treating an empty cell as 0", () => {
+    expect(display({ A1: "4", A2: " 6 ", B1: "=A1*A2" })).toBe("24");
+    expect(display({ B1: "=C9" })).toBe("0");
+  });
+
+  it("aggregates ranges, skipping text in them", () => {
+    const cells = { A1: "1", A2: "2", A3: "x", A4: "", A5: "7" };
+    expect(display({ ...cells, B1: "=SUM(A1:A5)" })).toBe("10");
+    expect(display({ ...cells, B1: "=AVERAGE(A1:A5)" })).toBe("3.33333333333");
+    expect(display({ ...cells, B1: "=COUNT(A1:A5)" })).toBe("3");
+    expect(display({ ...cells, B1: "=MIN(A5:A1)" })).toBe("1");
+    expect(display({ ...cells, B1: "=MAX(A1:A5, 10)" })).toBe("10");
+    expect(display({ B1: "=AVERAGE(A1:A3)" })).toBe("#DIV/0!");
+  });
+
+  it("handles IF, ROUND, CONCAT and TODAY", () => {
+    expect(display({ A1: "5", B1: '=IF(A1>3, "big", "small")' })).toBe("big");
+    expect(display({ B1: "=IF(FALSE, 1)" })).toBe("FALSE");
+    // The branch not taken isn't evaluated
+    expect(display({ B1: "=IF(TRUE, 1, 1/0)" })).toBe("1");
+    expect(display({ B1: "=ROUND(1.005, 2)" })).toBe("1.01");
+    expect(display({ B1: "=ROUND(-2.5)" })).toBe("-3");
+    expect(display({ B1: "=ROUND(1234, -2)" })).toBe("1200");
+    expect(display({ A1: "Q", A2: "1", B1: '=CONCAT(A1:A2, "-", TRUE)' })).toBe("Q1-TRUE");
+    expect(display({ B1: "=TODAY()" })).toBe("2026-03-31");
+  });
+
+  it("propagates errors from referenced cells", () => {
+    expect(display({ A1: "=1/0", B1: "=SUM(A1, 2)" })).toBe("#DIV/0!");
+  });
+});
+
+describe("references and cycles", () => {
+  it("gives #REF! for references outside the sheet", () => {
+    expect(display({ A1: "=P1" })).toBe("#REF!");
+    expect(display({ A1: "=SUM(A1:A99)" })).toBe("#REF!");
+  });
+
+  it("re-evaluates #REF! when the sheet grows", () => {
+    const s = sheet({ A1: "=A40+1", A40: "2" });
+    expect(s.getDisplay("A1")).toBe("#REF!");
+    s.resize({ rows: 40, columns: 15 });
+    expect(s.getDisplay("A1")).toBe("3");
+  });
+
+  it("marks cycles and everything downstream of them #CIRC!", () => {
+    const s = sheet({ A1: "=B1+1", B1: "=A1+1", C1: "=A1*2", D1: "=D1" });
+    expect(["A1", "B1", "C1", "D1"].map(s.getDisplay)).toEqual(["#CIRC!", "#CIRC!", "#CIRC!", "#CIRC!"]);
+
+    // Breaking the cycle recovers every cell
+    expect(s.setCell("B1", "5").sort()).toEqual(["A1", "B1", "C1"]);
+    expect(["A1", "B1", "C1"].map(s.getDisplay)).toEqual(["6", "5", "12"]);
+  });
+});
+
+describe("incremental recalculation", () => {
+  it("returns only the cells whose value changed", () => {
+    const s = sheet({ A1: "1", A2: "2", B1: "=SUM(A1:A2)", C1: "=B1*10", D1: "=A2" });
+    expect(s.setCell("A1", "5").sort()).toEqual(["A1", "B1", "C1"]);
+    expect(s.getDisplay("C1")).toBe("70");
+
+    // Writing the same value changes nothing downstream
+    expect(s.setCell("A1", "5")).toEqual([]);
+  });
+
+  it("picks up edits to empty cells inside a range", () => {
+    const s = sheet({ B1: "=SUM(A1:A10)" });
+    s.setCell("A7", "3");
+    expect(s.getDisplay("B1")).toBe("3");
+  });
+
+  it("drops old dependencies when a formula changes", () => {
+    const s = sheet({ A1: "1", A2: "2", B1: "=A1" });
+    s.setCell("B1", "=A2");
+    expect(s.setCell("A1", "9")).toEqual(["A1"]);
+    expect(s.getDisplay("B1")).toBe("2");
+  });
+
+  it("clears a cell when its input is removed", () => {
+    const s = sheet({ A1: "1", B1: "=A1+1" });
+    expect(s.setCell("A1", "").sort()).toEqual(["A1", "B1"]);
+    expect(s.getValue("A1")).toBeNull();
+    expect(s.getDisplay("B1")).toBe("1");
+  });
+});
+
+describe("formatValue", () => {
+  it("formats each kind of value", () => {
+    expect([null, 1.5, true, "x", { error: "#REF!" as const }].map(formatValue)).toEqual(["", "1.5", "TRUE", "x", "#REF!"]);
+  });
+});
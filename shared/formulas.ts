@@ -0,0 +1,661 @@
+// Formula engine for spreadsheets, shared by the editor and server-side exports. Cells hold raw
+// input ("12", "hello", "=SUM(A1:A3)"); a sheet parses formulas, tracks which cells read which, and
+// recalculates only what a change affects.
+
+export type FormulaErrorCode = "#REF!" | "#CIRC!" | "#DIV/0!" | "#VALUE!" | "#NAME?" | "#ERROR!";
+
+export interface FormulaError {
+  error: FormulaErrorCode;
+}
+
+// null is an empty cell
+export type CellValue = number | string | boolean | null | FormulaError;
+
+export const FORMULA_FUNCTIONS = ["SUM", "AVERAGE", "MIN", "MAX", "COUNT", "IF", "ROUND", "CONCAT", "TODAY"] as const;
+
+interface CellAddress {
+  col: number;
+  row: number;
+}
+
+type FormulaNode =
+  | { kind: "number"; value: number }
+  | { kind: "string"; value: string }
+  | { kind: "boolean"; value: boolean }
+  | { kind: "ref"; at: CellAddress }
+  | { kind: "range"; from: CellAddress; to: CellAddress }
+  | { kind: "unary"; op: "-" | "+"; operand: FormulaNode }
+  | { kind: "binary"; op: string; left: FormulaNode; right: FormulaNode }
+  | { kind: "call"; name: string; args: FormulaNode[] };
+
+const fail = (error: FormulaErrorCode): FormulaError => ({ error });
+
+export const isFormulaError = (value: unknown): value is FormulaError =>
+  typeof value === "object" && value !== null && "error" in value;
+
+/** 1 → A, 27 → AA */
+export const columnLabel = (col: number) => {
+  let label = "";
+  for (let n = col; n > 0; n = Math.floor((n - 1) / 26)) {
+    label = String.fromCharCode(65 + ((n - 1) % 26)) + label;
+  }
+  return label;
+};
+
+export const cellKey = (col: number, row: number) => `${columnLabel(col)}${row}`;
+
+/** "B12" (or "$B$12") → { col: 2, row: 12 } */
+export const parseCellKey = (key: string): CellAddress | null => {
+  const match = /^\$?([A-Za-z]{1,3})\$?(\d+)$/.exec(key.trim());
+  if (!match) return null;
+  const col = match[1].toUpperCase().split("").reduce((n, c) => n * 26 + c.charCodeAt(0) - 64, 0);
+  const row = parseInt(match[2]);
+  return row > 0 ? { col, row } : null;
+};
+
+// ---- Parsing ----
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "string"; value: string }
+  | { type: "ref"; at: CellAddress }
+  | { type: "name"; value: string }
+  | { type: "op"; value: string };
+
+const NUMBER = /^(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/;
+const REF = /^\$?[A-Za-z]{1,3}\$?\d+(?![A-Za-z0-9_(])/;
+const NAME = /^[A-Za-z_][A-Za-z0-9_.]*/;
+const OPERATORS = ["<=", ">=", "<>", "+", "-", "*", "/", "^", "&", "=", "<", ">", "(", ")", ",", ":"];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let rest = source;
+
+  while (rest.length > 0) {
+    const space = /^\s+/.exec(rest);
+    if (space) {
+      rest = rest.slice(space[0].length);
+      continue;
+    }
+
+    if (rest[0] === '"') {
+      let value = "";
+      let i = 1;
+      for (;;) {
+        if (i >= rest.length) throw new Error("Unterminated string");
+        if (rest[i] === '"') {
+          if (rest[i + 1] !== '"') break;
+          i += 1;
+        }
+        value += rest[i];
+        i += 1;
+      }
+      tokens.push({ type: "string", value });
+      rest = rest.slice(i + 1);
+      continue;
+    }
+
+    const number = NUMBER.exec(rest);
+    if (number) {
+      tokens.push({ type: "number", value: parseFloat(number[0]) });
+      rest = rest.slice(number[0].length);
+      continue;
+    }
+
+    const ref = REF.exec(rest);
+    if (ref) {
+      tokens.push({ type: "ref", at: parseCellKey(ref[0])! });
+      rest = rest.slice(ref[0].length);
+      continue;
+    }
+
+    const name = NAME.exec(rest);
+    if (name) {
+      tokens.push({ type: "name", value: name[0].toUpperCase() });
+      rest = rest.slice(name[0].length);
+      continue;
+    }
+
+    const op = OPERATORS.find((o) => rest.startsWith(o));
+    if (!op) throw new Error(`Unexpected "${rest[0]}"`);
+    tokens.push({ type: "op", value: op });
+    rest = rest.slice(op.length);
+  }
+
+  return tokens;
+};
+
+/**
+ * Parse a formula (without its leading "="). Throws on syntax errors.
+ * Precedence, loosest first: comparison, &, + -, * /, ^, unary minus.
+ */
+const parse = (source: string): FormulaNode => {
+  const tokens = tokenize(source);
+  let pos = 0;
+
+  const peekOp = (...ops: string[]) => {
+    const token = tokens[pos];
+    return token?.type === "op" && ops.includes(token.value) ? token.value : null;
+  };
+
+  const expectOp = (op: string) => {
+    if (!peekOp(op)) throw new Error(`Expected "${op}"`);
+    pos += 1;
+  };
+
+  const binary = (next: () => FormulaNode, ops: string[]) => (): FormulaNode => {
+    let left = next();
+    for (let op = peekOp(...ops); op; op = peekOp(...ops)) {
+      pos += 1;
+      left = { kind: "binary", op, left, right: next() };
+    }
+    return left;
+  };
+
+  const primary = (): FormulaNode => {
+    const token = tokens[pos];
+    if (!token) throw new Error("Unexpected end of formula");
+    pos += 1;
+
+    switch (token.type) {
+      case "number":
+        return { kind: "number", value: token.value };
+      case "string":
+        return { kind: "string", value: token.value };
+      case "ref":
+        if (peekOp(":")) {
+          pos += 1;
+          const end = tokens[pos];
+          if (end?.type !== "ref") throw new Error("Expected a cell reference");
+          pos += 1;
+          return {
+            kind: "range",
+            from: { col: Math.min(token.at.col, end.at.col), row: Math.min(token.at.row, end.at.row) },
+            to: { col: Math.max(token.at.col, end.at.col), row: Math.max(token.at.row, end.at.row) },
+          };
+        }
+        return { kind: "ref", at: token.at };
+      case "name": {
+        if (!peekOp("(")) {
+          if (token.value === "TRUE" || token.value === "FALSE") return { kind: "boolean", value: token.value === "TRUE" };
+          throw new Error(`Unknown name ${token.value}`);
+        }
+        pos += 1;
+        const args: FormulaNode[] = [];
+        if (!peekOp(")")) {
+          args.push(comparison());
+          while (peekOp(",")) {
+            pos += 1;
+            args.push(comparison());
+          }
+        }
+        expectOp(")");
+        return { kind: "call", name: token.value, args };
+      }
+      case "op":
+        if (token.value === "(") {
+          const inner = comparison();
+          expectOp(")");
+          return inner;
+        }
+        throw new Error(`Unexpected "${token.value}"`);
+    }
+  };
+
+  const unary = (): FormulaNode => {
+    const op = peekOp("-", "+");
+    if (op) {
+      pos += 1;
+      return { kind: "unary", op: op as "-" | "+", operand: unary() };
+    }
+    return primary();
+  };
+
+  const power = binary(unary, ["^"]);
+  const multiplicative = binary(power, ["*", "/"]);
+  const additive = binary(multiplicative, ["+", "-"]);
+  const concat = binary(additive, ["&"]);
+  const comparison = binary(concat, ["=", "<>", "<", ">", "<=", ">="]);
+
+  const node = comparison();
+  if (pos < tokens.length) throw new Error("Unexpected input after formula");
+  return node;
+};
+
+// ---- Values ----
+
+const NUMERIC = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+/** Value of a cell that isn't a formula */
+const literalValue = (input: string): CellValue => {
+  const trimmed = input.trim();
+  if (trimmed === "") return null;
+  return NUMERIC.test(trimmed) ? parseFloat(trimmed) : input;
+};
+
+const formatNumber = (value: number) =>
+  Number.isInteger(value) ? String(value) : String(parseFloat(value.toPrecision(12)));
+
+/** How a value is shown in the grid and exported */
+export const formatValue = (value: CellValue): string => {
+  if (value === null) return "";
+  if (isFormulaError(value)) return value.error;
+  if (typeof value === "number") return formatNumber(value);
+  if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+  return value;
+};
+
+const toNumber = (value: CellValue): number | FormulaError => {
+  if (isFormulaError(value)) return value;
+  if (value === null) return 0;
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  return NUMERIC.test(value.trim()) ? parseFloat(value) : fail("#VALUE!");
+};
+
+const toText = (value: CellValue): string | FormulaError => (isFormulaError(value) ? value : formatValue(value));
+
+const toBoolean = (value: CellValue): boolean | FormulaError => {
+  if (isFormulaError(value)) return value;
+  if (value === null) return false;
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value !== 0;
+  const upper = value.trim().toUpperCase();
+  if (upper === "TRUE" || upper === "FALSE") return upper === "TRUE";
+  return fail("#VALUE!");
+};
+
+// Mixed types order as numbers < text < booleans; text compares case-insensitively
+const TYPE_RANK = { number: 0, string: 1, boolean: 2 } as const;
+
+const compare = (a: number | string | boolean | null, b: number | string | boolean | null) => {
+  const blankFor = (other: typeof a) => (typeof other === "string" ? "" : typeof other === "boolean" ? false : 0);
+  const left = a === null ? blankFor(b) : a;
+  const right = b === null ? blankFor(a) : b;
+  const leftType = typeof left as keyof typeof TYPE_RANK;
+  const rightType = typeof right as keyof typeof TYPE_RANK;
+  if (leftType !== rightType) return TYPE_RANK[leftType] - TYPE_RANK[rightType];
+  const l = typeof left === "string" ? left.toLowerCase() : Number(left);
+  const r = typeof right === "string" ? right.toLowerCase() : Number(right);
+  return l < r ? -1 : l > r ? 1 : 0;
+};
+
+// Round half away from zero without binary floating point surprises (ROUND(1.005, 2) = 1.01)
+const roundTo = (value: number, digits: number) => {
+  const abs = Math.abs(value);
+  const shifted = `${abs}`.includes("e") ? Math.round(abs * 10 ** digits) / 10 ** digits : Number(`${Math.round(Number(`${abs}e${digits}`))}e${-digits}`);
+  return Math.sign(value) * shifted;
+};
+
+const todayKey = (now: Date) =>
+  `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+
+interface EvaluationContext {
+  read: (key: string) => CellValue;
+  inBounds: (at: CellAddress) => boolean;
+  now: () => Date;
+}
+
+// A function argument: ranges expand to many values, and aggregates treat those differently
+// from values passed directly (text in a range is skipped, text typed as an argument isn't)
+interface ArgumentValue {
+  value: CellValue;
+  fromRange: boolean;
+}
+
+const rangeKeys = (from: CellAddress, to: CellAddress) => {
+  const keys: string[] = [];
+  for (let row = from.row; row <= to.row; row++) {
+    for (let col = from.col; col <= to.col; col++) keys.push(cellKey(col, row));
+  }
+  return keys;
+};
+
+const evaluateArguments = (args: FormulaNode[], ctx: EvaluationContext): ArgumentValue[] | FormulaError => {
+  const values: ArgumentValue[] = [];
+  for (const arg of args) {
+    if (arg.kind === "range") {
+      if (!ctx.inBounds(arg.from) || !ctx.inBounds(arg.to)) return fail("#REF!");
+      for (const key of rangeKeys(arg.from, arg.to)) values.push({ value: ctx.read(key), fromRange: true });
+    } else {
+      values.push({ value: evaluateNode(arg, ctx), fromRange: false });
+    }
+  }
+  return values;
+};
+
+// Numbers an aggregate works on. Errors anywhere propagate.
+const numbersOf = (args: ArgumentValue[]): number[] | FormulaError => {
+  const numbers: number[] = [];
+  for (const { value, fromRange } of args) {
+    if (isFormulaError(value)) return value;
+    if (fromRange) {
+      if (typeof value === "number") numbers.push(value);
+      continue;
+    }
+    const n = toNumber(value);
+    if (isFormulaError(n)) return n;
+    numbers.push(n);
+  }
+  return numbers;
+};
+
+const callFunction = (name: string, args: FormulaNode[], ctx: EvaluationContext): CellValue => {
+  switch (name) {
+    case "IF": {
+      if (args.length < 2 || args.length > 3) return fail("#VALUE!");
+      const condition = toBoolean(evaluateNode(args[0], ctx));
+      if (isFormulaError(condition)) return condition;
+      if (condition) return evaluateNode(args[1], ctx);
+      return args[2] ? evaluateNode(args[2], ctx) : false;
+    }
+    case "TODAY":
+      return args.length === 0 ? todayKey(ctx.now()) : fail("#VALUE!");
+  }
+
+  if (!(FORMULA_FUNCTIONS as readonly string[]).includes(name)) return fail("#NAME?");
+
+  const values = evaluateArguments(args, ctx);
+  if (isFormulaError(values)) return values;
+
+  switch (name) {
+    case "COUNT":
+      return values.filter(
+        ({ value, fromRange }) => typeof value === "number" || (!fromRange && !isFormulaError(toNumber(value)) && value !== null)
+      ).length;
+    case "CONCAT": {
+      let text = "";
+      for (const { value } of values) {
+        const part = toText(value);
+        if (isFormulaError(part)) return part;
+        text += part;
+      }
+      return text;
+    }
+    case "ROUND": {
+      if (values.length < 1 || values.length > 2) return fail("#VALUE!");
+      const value = toNumber(values[0].value);
+      const digits = values[1] ? toNumber(values[1].value) : 0;
+      if (isFormulaError(value)) return value;
+      if (isFormulaError(digits)) return digits;
+      return roundTo(value, Math.trunc(digits));
+    }
+  }
+
+  const numbers = numbersOf(values);
+  if (isFormulaError(numbers)) return numbers;
+
+  switch (name) {
+    case "SUM":
+      return numbers.reduce((sum, n) => sum + n, 0);
+    case "AVERAGE":
+      return numbers.length === 0 ? fail("#DIV/0!") : numbers.reduce((sum, n) => sum + n, 0) / numbers.length;
+    case "MIN":
+      return numbers.length === 0 ? 0 : Math.min(...numbers);
+    case "MAX":
+      return numbers.length === 0 ? 0 : Math.max(...numbers);
+    default:
+      return fail("#NAME?");
+  }
+};
+
+const arithmetic = (op: string, left: number, right: number): CellValue => {
+  switch (op) {
+    case "+":
+      return left + right;
+    case "-":
+      return left - right;
+    case "*":
+      return left * right;
+    case "/":
+      return right === 0 ? fail("#DIV/0!") : left / right;
+    case "^": {
+      const result = left ** right;
+      return Number.isFinite(result) ? result : fail("#VALUE!");
+    }
+    default:
+      return fail("#ERROR!");
+  }
+};
+
+const evaluateNode = (node: FormulaNode, ctx: EvaluationContext): CellValue => {
+  switch (node.kind) {
+    case "number":
+    case "string":
+    case "boolean":
+      return node.value;
+    case "ref":
+      return ctx.inBounds(node.at) ? ctx.read(cellKey(node.at.col, node.at.row)) : fail("#REF!");
+    case "range":
+      // A range on its own isn't a single value
+      return ctx.inBounds(node.from) && ctx.inBounds(node.to) ? fail("#VALUE!") : fail("#REF!");
+    case "unary": {
+      const operand = toNumber(evaluateNode(node.operand, ctx));
+      if (isFormulaError(operand)) return operand;
+      return node.op === "-" ? -operand : operand;
+    }
+    case "call":
+      return callFunction(node.name, node.args, ctx);
+    case "binary": {
+      const left = evaluateNode(node.left, ctx);
+      if (isFormulaError(left)) return left;
+      const right = evaluateNode(node.right, ctx);
+      if (isFormulaError(right)) return right;
+
+      if (node.op === "&") return formatValue(left) + formatValue(right);
+      if (["=", "<>", "<", ">", "<=", ">="].includes(node.op)) {
+        const order = compare(left, right);
+        switch (node.op) {
+          case "=":
+            return order === 0;
+          case "<>":
+            return order !== 0;
+          case "<":
+            return order < 0;
+          case ">":
+            return order > 0;
+          case "<=":
+            return order <= 0;
+          default:
+            return order >= 0;
+        }
+      }
+
+      const l = toNumber(left);
+      if (isFormulaError(l)) return l;
+      const r = toNumber(right);
+      if (isFormulaError(r)) return r;
+      return arithmetic(node.op, l, r);
+    }
+  }
+};
+
+/** Cells a formula reads, clipped to the sheet */
+const referencedKeys = (node: FormulaNode, inBounds: (at: CellAddress) => boolean, into = new Set<string>()) => {
+  switch (node.kind) {
+    case "ref":
+      if (inBounds(node.at)) into.add(cellKey(node.at.col, node.at.row));
+      break;
+    case "range":
+      if (inBounds(node.from) && inBounds(node.to)) rangeKeys(node.from, node.to).forEach((key) => into.add(key));
+      break;
+    case "unary":
+      referencedKeys(node.operand, inBounds, into);
+      break;
+    case "binary":
+      referencedKeys(node.left, inBounds, into);
+      referencedKeys(node.right, inBounds, into);
+      break;
+    case "call":
+      node.args.forEach((arg) => referencedKeys(arg, inBounds, into));
+      break;
+  }
+  return into;
+};
+
+// ---- Sheets ----
+
+export interface SheetSize {
+  rows: number;
+  columns: number;
+}
+
+export interface FormulaSheet {
+  /** Change one cell. Returns the keys whose value changed, including cells that depend on it. */
+  setCell: (key: string, input: string) => string[];
+  /** Replace every cell, e.g. after loading or after rows were renumbered */
+  load: (cells: Record<string, string>) => void;
+  /** Change the sheet size; references outside it evaluate to #REF! */
+  resize: (size: SheetSize) => void;
+  getInput: (key: string) => string;
+  getValue: (key: string) => CellValue;
+  getDisplay: (key: string) => string;
+}
+
+const sameValue = (a: CellValue, b: CellValue) =>
+  isFormulaError(a) && isFormulaError(b) ? a.error === b.error : a === b;
+
+export const createFormulaSheet = (size: SheetSize, options: { now?: () => Date } = {}): FormulaSheet => {
+  let bounds = size;
+  const now = options.now ?? (() => new Date());
+
+  const inputs = new Map<string, string>();
+  const formulas = new Map<string, FormulaNode | FormulaError>();
+  const values = new Map<string, CellValue>();
+  // Edges both ways: the cells each formula reads, and the formulas reading each cell
+  const precedents = new Map<string, Set<string>>();
+  const dependents = new Map<string, Set<string>>();
+
+  const inBounds = (at: CellAddress) => at.col >= 1 && at.row >= 1 && at.col <= bounds.columns && at.row <= bounds.rows;
+
+  const ctx: EvaluationContext = {
+    read: (key) => values.get(key) ?? null,
+    inBounds,
+    now,
+  };
+
+  const unlink = (key: string) => {
+    for (const precedent of precedents.get(key) ?? []) dependents.get(precedent)?.delete(key);
+    precedents.delete(key);
+  };
+
+  const link = (key: string) => {
+    const formula = formulas.get(key);
+    if (!formula || isFormulaError(formula)) return;
+    const reads = referencedKeys(formula, inBounds);
+    precedents.set(key, reads);
+    for (const precedent of reads) {
+      if (!dependents.has(precedent)) dependents.set(precedent, new Set());
+      dependents.get(precedent)!.add(key);
+    }
+  };
+
+  const store = (key: string, input: string) => {
+    unlink(key);
+    formulas.delete(key);
+    if (input === "") {
+      inputs.delete(key);
+      return;
+    }
+    inputs.set(key, input);
+    if (input.startsWith("=")) {
+      try {
+        formulas.set(key, parse(input.slice(1)));
+      } catch {
+        formulas.set(key, fail("#ERROR!"));
+      }
+      link(key);
+    }
+  };
+
+  const compute = (key: string): CellValue => {
+    const formula = formulas.get(key);
+    if (!formula) return literalValue(inputs.get(key) ?? "");
+    if (isFormulaError(formula)) return formula;
+    const value = evaluateNode(formula, ctx);
+    // A formula pointing at an empty cell shows 0, like other spreadsheets
+    return value === null ? 0 : value;
+  };
+
+  /**
+   * Recompute the given cells and everything downstream of them, each once and after everything
+   * it reads. Cells left over once nothing else can be ordered sit on or behind a cycle.
+   */
+  const recalculate = (start: Iterable<string>) => {
+    const affected = new Set<string>();
+    const stack = Array.from(start);
+    while (stack.length > 0) {
+      const key = stack.pop()!;
+      if (affected.has(key)) continue;
+      affected.add(key);
+      for (const dependent of dependents.get(key) ?? []) stack.push(dependent);
+    }
+
+    const waitingOn = new Map<string, number>();
+    for (const key of affected) {
+      let count = 0;
+      for (const precedent of precedents.get(key) ?? []) if (affected.has(precedent)) count += 1;
+      waitingOn.set(key, count);
+    }
+
+    const changed: string[] = [];
+    const assign = (key: string, value: CellValue) => {
+      if (!sameValue(values.get(key) ?? null, value)) changed.push(key);
+      if (value === null) values.delete(key);
+      else values.set(key, value);
+    };
+
+    const ready = Array.from(affected).filter((key) => waitingOn.get(key) === 0);
+    for (let i = 0; i < ready.length; i++) {
+      const key = ready[i];
+      assign(key, compute(key));
+      for (const dependent of dependents.get(key) ?? []) {
+        if (!affected.has(dependent)) continue;
+        const remaining = waitingOn.get(dependent)! - 1;
+        waitingOn.set(dependent, remaining);
+        if (remaining === 0) ready.push(dependent);
+      }
+    }
+
+    for (const [key, remaining] of waitingOn) {
+      if (remaining > 0) assign(key, fail("#CIRC!"));
+    }
+
+    return changed;
+  };
+
+  const rebuild = () => {
+    precedents.clear();
+    dependents.clear();
+    for (const key of formulas.keys()) link(key);
+    recalculate(new Set([...inputs.keys(), ...values.keys()]));
+  };
+
+  return {
+    setCell: (key, input) => {
+      const at = parseCellKey(key);
+      if (!at) return [];
+      const normalized = cellKey(at.col, at.row);
+      store(normalized, input);
+      return recalculate([normalized]);
+    },
+    load: (cells) => {
+      inputs.clear();
+      formulas.clear();
+      precedents.clear();
+      dependents.clear();
+      for (const [key, input] of Object.entries(cells)) {
+        const at = parseCellKey(key);
+        if (at) store(cellKey(at.col, at.row), String(input));
+      }
+      rebuild();
+    },
+    resize: (next) => {
+      bounds = next;
+      rebuild();
+    },
+    getInput: (key) => inputs.get(key) ?? "",
+    getValue: (key) => values.get(key) ?? null,
+    getDisplay: (key) => formatValue(values.get(key) ?? null),
+  };
+};
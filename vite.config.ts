@@ -3,6 +3,7 @@ import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { createServer } from "./server";
 import { setupSocketServer } from "./server/socket";
+import { startRecurrenceScheduler } from "./server/services/recurrence";
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -47,6 +48,7 @@ function expressPlugin(): Plugin {
       if (server.httpServer) {
         setupSocketServer(server.httpServer);
       }
+      startRecurrenceScheduler();
 
       // Add Express app as middleware to Vite dev server
       server.middlewares.use(app);